@@ -24,6 +24,8 @@ import PlatformHealth from "@/pages/PlatformHealth";
 import DeveloperExperience from "@/pages/DeveloperExperience";
 import Chat from "@/pages/Chat";
 import CorrelationTrace from "@/pages/CorrelationTrace";
+import AlertHistory from "@/pages/AlertHistory";
+import RoutingReplay from "@/pages/RoutingReplay";
 
 // Preview pages
 import EnhancedAnalytics from "@/pages/preview/EnhancedAnalytics";
@@ -57,6 +59,8 @@ function Router() {
       <Route path="/developer" component={DeveloperExperience} />
       <Route path="/chat" component={Chat} />
       <Route path="/trace" component={CorrelationTrace} />
+      <Route path="/alerts" component={AlertHistory} />
+      <Route path="/routing-replay" component={RoutingReplay} />
       
           {/* Preview routes */}
           <Route path="/preview/analytics" component={EnhancedAnalytics} />
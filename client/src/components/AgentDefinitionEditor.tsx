@@ -0,0 +1,337 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Save, History, GitCompare, AlertTriangle } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export interface EditableAgent {
+  name: string;
+  title: string;
+  description: string;
+  category?: string;
+  priority?: string;
+  status?: string;
+  specializationLevel?: string;
+  version?: string;
+  activationTriggers?: string[];
+  dependencies?: string[];
+  tags?: string[];
+}
+
+export interface AgentFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+  added?: string[];
+  removed?: string[];
+}
+
+export interface AgentRevision {
+  id: string;
+  revision: number;
+  version: string;
+  action: "import" | "create" | "update";
+  author: string;
+  createdAt: string;
+  changes: AgentFieldChange[];
+}
+
+export interface AgentWriteWarning {
+  code: string;
+  message: string;
+  agents: string[];
+}
+
+interface HistoryResponse {
+  agent: string;
+  revisions: AgentRevision[];
+}
+
+interface DiffResponse {
+  agent: string;
+  from: { version: string; revision: number } | null;
+  to: { version: string; revision: number };
+  changes: AgentFieldChange[];
+}
+
+const AGENTS_KEY = "/api/agents/agents";
+
+const PRIORITIES = ["low", "medium", "high", "critical"];
+const STATUSES = ["active", "beta", "inactive", "deprecated"];
+const SPECIALIZATIONS = ["generalist", "specialist", "expert"];
+
+export function splitList(value: string): string[] {
+  return Array.from(new Set(value.split(",").map(item => item.trim()).filter(Boolean)));
+}
+
+/**
+ * Fields of the form that differ from the agent, as a PATCH payload
+ */
+export function changedFields(agent: EditableAgent, form: EditableAgent): Partial<EditableAgent> {
+  const changes: Record<string, unknown> = {};
+  for (const key of Object.keys(form) as Array<keyof EditableAgent>) {
+    if (JSON.stringify(form[key] ?? null) !== JSON.stringify(agent[key] ?? null)) {
+      changes[key] = form[key];
+    }
+  }
+  return changes as Partial<EditableAgent>;
+}
+
+// "409: {...}" from apiRequest -> the server's error message
+function errorText(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const body = message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    const details = Array.isArray(parsed.details) ? parsed.details.join("; ") : typeof parsed.details === "string" ? parsed.details : "";
+    return [parsed.error, details].filter(Boolean).join(": ");
+  } catch {
+    return body;
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  if (Array.isArray(value)) {
+    return value.map(item => (typeof item === "object" ? (item as { name?: string }).name ?? JSON.stringify(item) : String(item))).join(", ") || "—";
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function SelectField({ label, value, options, onChange }: { label: string; value?: string; options: string[]; onChange: (value: string) => void }) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger>
+          <SelectValue placeholder={label} />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map(option => (
+            <SelectItem key={option} value={option}>{option}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export function AgentEditForm({ agent, onSaved }: { agent: EditableAgent; onSaved?: (agent: any) => void }) {
+  const [form, setForm] = useState<EditableAgent>({
+    name: agent.name,
+    title: agent.title,
+    description: agent.description,
+    category: agent.category,
+    priority: agent.priority,
+    status: agent.status,
+    specializationLevel: agent.specializationLevel,
+    activationTriggers: agent.activationTriggers ?? [],
+    dependencies: agent.dependencies ?? [],
+    tags: agent.tags ?? [],
+  });
+  const [lists, setLists] = useState({
+    activationTriggers: (agent.activationTriggers ?? []).join(", "),
+    dependencies: (agent.dependencies ?? []).join(", "),
+    tags: (agent.tags ?? []).join(", "),
+  });
+  const [bump, setBump] = useState("patch");
+
+  const saveMutation = useMutation({
+    mutationFn: async (changes: Partial<EditableAgent>) => {
+      const res = await apiRequest("PATCH", `${AGENTS_KEY}/${encodeURIComponent(agent.name)}`, {
+        ...changes,
+        bump,
+        expectedVersion: agent.version,
+      });
+      return res.json();
+    },
+    onSuccess: ({ agent: saved }) => {
+      queryClient.invalidateQueries({ queryKey: ["agent-registry"] });
+      queryClient.invalidateQueries({ queryKey: [AGENTS_KEY, agent.name] });
+      onSaved?.(saved);
+    },
+  });
+
+  const update = (changes: Partial<EditableAgent>) => setForm(prev => ({ ...prev, ...changes }));
+  const updateList = (field: keyof typeof lists, value: string) => {
+    setLists(prev => ({ ...prev, [field]: value }));
+    update({ [field]: splitList(value) });
+  };
+
+  const changes = changedFields(agent, form);
+  const hasChanges = Object.keys(changes).length > 0;
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={e => {
+        e.preventDefault();
+        if (hasChanges) saveMutation.mutate(changes);
+      }}
+    >
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="agent-title" className="text-xs">Title</Label>
+          <Input id="agent-title" value={form.title} onChange={e => update({ title: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="agent-category" className="text-xs">Category</Label>
+          <Input id="agent-category" value={form.category ?? ""} onChange={e => update({ category: e.target.value })} />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="agent-description" className="text-xs">Description</Label>
+        <Textarea id="agent-description" rows={3} value={form.description} onChange={e => update({ description: e.target.value })} />
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <SelectField label="Status" value={form.status} options={STATUSES} onChange={status => update({ status })} />
+        <SelectField label="Priority" value={form.priority} options={PRIORITIES} onChange={priority => update({ priority })} />
+        <SelectField
+          label="Specialization"
+          value={form.specializationLevel}
+          options={SPECIALIZATIONS}
+          onChange={specializationLevel => update({ specializationLevel })}
+        />
+      </div>
+
+      {(["activationTriggers", "tags", "dependencies"] as const).map(field => (
+        <div key={field} className="space-y-1">
+          <Label htmlFor={`agent-${field}`} className="text-xs">
+            {field === "activationTriggers" ? "Activation triggers" : field === "tags" ? "Tags" : "Dependencies"} (comma separated)
+          </Label>
+          <Input id={`agent-${field}`} value={lists[field]} onChange={e => updateList(field, e.target.value)} />
+        </div>
+      ))}
+
+      <div className="flex items-end justify-between gap-4 pt-2 border-t">
+        <div className="w-48">
+          <SelectField label={`Version bump (current ${agent.version ?? "—"})`} value={bump} options={["patch", "minor", "major"]} onChange={setBump} />
+        </div>
+        <Button type="submit" size="sm" disabled={!hasChanges || saveMutation.isPending}>
+          {saveMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+          Save changes
+        </Button>
+      </div>
+
+      {saveMutation.isError && (
+        <div className="text-sm text-destructive">{errorText(saveMutation.error)}</div>
+      )}
+      {saveMutation.isSuccess && !hasChanges && (
+        <div className="text-sm text-muted-foreground">Saved as version {saveMutation.data?.agent?.version}</div>
+      )}
+      {saveMutation.data?.warnings?.map((warning: AgentWriteWarning) => (
+        <div key={warning.code} className="flex items-start gap-2 text-sm text-amber-600">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <span>{warning.message}</span>
+        </div>
+      ))}
+    </form>
+  );
+}
+
+function ChangeList({ changes }: { changes: AgentFieldChange[] }) {
+  if (changes.length === 0) {
+    return <div className="text-xs text-muted-foreground">No field changes</div>;
+  }
+  return (
+    <div className="space-y-1">
+      {changes.map(change => (
+        <div key={change.field} className="text-xs grid grid-cols-[8rem_1fr] gap-2">
+          <span className="font-mono text-muted-foreground">{change.field}</span>
+          {change.added || change.removed ? (
+            <span className="flex flex-wrap gap-1">
+              {change.added?.map(item => <Badge key={`+${item}`} variant="outline" className="text-xs text-green-600">+ {item}</Badge>)}
+              {change.removed?.map(item => <Badge key={`-${item}`} variant="outline" className="text-xs text-red-600 line-through">{item}</Badge>)}
+            </span>
+          ) : (
+            <span>
+              <span className="text-red-600 line-through mr-2">{formatValue(change.before)}</span>
+              <span className="text-green-600">{formatValue(change.after)}</span>
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function AgentRevisionHistory({ agentName }: { agentName: string }) {
+  const [compare, setCompare] = useState<{ from: string; to: string } | null>(null);
+
+  const { data, isLoading, error } = useQuery<HistoryResponse>({
+    queryKey: [AGENTS_KEY, agentName, "history"],
+  });
+
+  const { data: diff, isFetching: diffLoading } = useQuery<DiffResponse>({
+    queryKey: [AGENTS_KEY, agentName, `diff?from=${encodeURIComponent(compare?.from ?? "")}&to=${encodeURIComponent(compare?.to ?? "")}`],
+    enabled: !!compare,
+  });
+
+  if (isLoading) {
+    return <div className="flex justify-center py-8"><Loader2 className="w-5 h-5 animate-spin text-muted-foreground" /></div>;
+  }
+  if (error) {
+    return <div className="text-sm text-destructive py-4">Failed to load history: {errorText(error)}</div>;
+  }
+
+  const revisions = data?.revisions ?? [];
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground text-sm">
+        No revisions yet. Edits made here are versioned and appear in this history.
+      </div>
+    );
+  }
+
+  const versions = revisions.map(revision => revision.version);
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-3 space-y-3">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <GitCompare className="w-4 h-4" />
+          Compare versions
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <SelectField
+            label="From"
+            value={compare?.from}
+            options={versions}
+            onChange={from => setCompare({ from, to: compare?.to ?? versions[0] })}
+          />
+          <SelectField
+            label="To"
+            value={compare?.to}
+            options={versions}
+            onChange={to => setCompare({ from: compare?.from ?? versions[versions.length - 1], to })}
+          />
+        </div>
+        {compare && (diffLoading ? <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" /> : diff && <ChangeList changes={diff.changes} />)}
+      </Card>
+
+      {revisions.map(revision => (
+        <Card key={revision.id} className="p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <History className="w-4 h-4 text-muted-foreground" />
+              <span className="font-mono text-sm">v{revision.version}</span>
+              <Badge variant="secondary" className="text-xs">{revision.action}</Badge>
+            </div>
+            <span className="text-xs text-muted-foreground">
+              {revision.author} · {new Date(revision.createdAt).toLocaleString()}
+            </span>
+          </div>
+          {revision.action !== "import" && <ChangeList changes={revision.changes} />}
+        </Card>
+      ))}
+    </div>
+  );
+}
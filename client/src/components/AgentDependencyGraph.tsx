@@ -0,0 +1,205 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { agentNetworkSource, type DependencyNode } from "@/lib/data-sources";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { MockDataBadge } from "@/components/MockDataBadge";
+import { UnifiedGraph, type GraphNode, type GraphEdge } from "@/components/UnifiedGraph";
+import { AlertTriangle, GitBranch, Loader2, RefreshCw } from "lucide-react";
+
+const STATUS_COLORS: Record<string, string> = {
+  active: "#3b82f6",
+  beta: "#8b5cf6",
+  inactive: "#94a3b8",
+  deprecated: "#f59e0b",
+  missing: "#ef4444",
+};
+
+const EDGE_COLORS: Record<string, string> = {
+  dependency: "#64748b",
+  cycle: "#ef4444",
+  missing: "#f87171",
+};
+
+function AgentList({ label, agents, empty }: { label: string; agents: string[]; empty: string }) {
+  return (
+    <div>
+      <div className="text-sm font-medium mb-2">{label}</div>
+      {agents.length === 0 ? (
+        <div className="text-xs text-muted-foreground">{empty}</div>
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {agents.map(agent => (
+            <Badge key={agent} variant="outline" className="text-xs font-mono">{agent}</Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Registry dependencies as a hierarchy: agents at the top, the agents they
+ * depend on below. Cycles and references to unknown agents are highlighted.
+ */
+export function AgentDependencyGraph() {
+  const [selected, setSelected] = useState<DependencyNode | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["agent-dependency-graph"],
+    queryFn: () => agentNetworkSource.fetchDependencyGraph(),
+    refetchInterval: 60000,
+  });
+
+  const graph = data?.data;
+
+  const { nodes, edges } = useMemo(() => {
+    if (!graph) return { nodes: [] as GraphNode[], edges: [] as GraphEdge[] };
+
+    const graphNodes: GraphNode[] = graph.nodes.map(node => ({
+      id: node.id,
+      label: node.title || node.id,
+      type: node.status,
+      size: 14 + Math.min(node.transitiveDependents.length, 8) * 2,
+      color: node.inCycle ? STATUS_COLORS.missing : STATUS_COLORS[node.status],
+      metadata: node,
+    }));
+
+    // Unknown dependencies still get a node so the broken edge is visible
+    const placeholders = Array.from(new Set(graph.missing.map(ref => ref.dependency))).map(id => ({
+      id,
+      label: `${id} (missing)`,
+      type: "missing",
+      size: 12,
+      color: STATUS_COLORS.missing,
+    }));
+
+    const graphEdges: GraphEdge[] = graph.edges.map(edge => ({
+      source: edge.source,
+      target: edge.target,
+      type: edge.missing ? "missing" : edge.inCycle ? "cycle" : "dependency",
+      label: edge.missing ? "missing" : undefined,
+    }));
+
+    return { nodes: [...graphNodes, ...placeholders], edges: graphEdges };
+  }, [graph]);
+
+  if (isLoading || !graph) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const handleNodeClick = (node: GraphNode) => {
+    setSelected(graph.nodes.find(candidate => candidate.id === node.id) ?? null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      <div className="lg:col-span-3 space-y-4">
+        <UnifiedGraph
+          nodes={nodes}
+          edges={edges}
+          layout={{ type: "hierarchy" }}
+          height="600px"
+          interactive={true}
+          zoomable={false}
+          showLegend={true}
+          colorScheme={{ ...STATUS_COLORS, ...EDGE_COLORS }}
+          onNodeClick={handleNodeClick}
+          title="Agent Dependency Graph"
+          subtitle="Each agent sits above the agents it depends on"
+        />
+        {data?.isMock && <MockDataBadge />}
+      </div>
+
+      <div className="space-y-4">
+        {selected ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <GitBranch className="w-5 h-5" />
+                {selected.title || selected.id}
+              </CardTitle>
+              <CardDescription className="flex items-center gap-2">
+                <span className="font-mono">{selected.id}</span>
+                <Badge variant="outline" className="capitalize">{selected.status}</Badge>
+                <span>v{selected.version}</span>
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <AgentList label="Depends on" agents={selected.dependencies} empty="No dependencies" />
+              <AgentList label="Required by" agents={selected.dependents} empty="No agent depends on this one" />
+              <AgentList
+                label="Impact if deprecated"
+                agents={selected.transitiveDependents}
+                empty="Safe to deprecate: nothing depends on it"
+              />
+              {selected.inCycle && (
+                <div className="flex items-center gap-2 text-sm text-destructive">
+                  <RefreshCw className="w-4 h-4" />
+                  Part of a dependency cycle
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Dependencies</CardTitle>
+              <CardDescription>Click on an agent to see what depends on it</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                <div>
+                  <div className="text-muted-foreground">Agents</div>
+                  <div className="font-medium">{graph.stats.agents}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Dependencies</div>
+                  <div className="font-medium">{graph.stats.dependencies}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Max Depth</div>
+                  <div className="font-medium">{graph.stats.maxDepth}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Issues</div>
+                  <div className="font-medium">{graph.stats.cycles + graph.stats.missing}</div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5" />
+              Issues
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            {graph.cycles.length === 0 && graph.missing.length === 0 && (
+              <div className="text-muted-foreground">No cycles or missing dependencies</div>
+            )}
+            {graph.cycles.map(cycle => (
+              <div key={cycle.join(">")} className="text-destructive">
+                <div className="font-medium">Cycle</div>
+                <div className="font-mono text-xs">{[...cycle, cycle[0]].join(" → ")}</div>
+              </div>
+            ))}
+            {graph.missing.map(ref => (
+              <div key={`${ref.agent}>${ref.dependency}`} className="text-destructive">
+                <div className="font-medium">Missing dependency</div>
+                <div className="font-mono text-xs">{ref.agent} → {ref.dependency}</div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import React, { useState } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useWebSocket, type WebSocketMessage } from "@/hooks/useWebSocket";
 import { DetailModal } from "./DetailModal";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -60,6 +61,19 @@ interface AgentExecution {
   };
 }
 
+interface AgentActionEvent {
+  id: string;
+  correlationId: string;
+  agentName: string;
+  actionType: string;
+  actionName: string;
+  durationMs: number;
+  createdAt: string;
+}
+
+// Maximum number of actions kept in the live log
+const MAX_LIVE_ACTIONS = 100;
+
 interface AgentDetailModalProps {
   agent: AgentPerformance | null;
   isOpen: boolean;
@@ -106,6 +120,85 @@ function ExpandableContent({ summary, fullContent, maxLength = 200 }: { summary?
   );
 }
 
+/**
+ * Live action log for a single agent.
+ * Seeds from the REST timeline, then streams only this agent's actions over /ws
+ * using a server-side subscription filter.
+ */
+function AgentLiveActivity({ agentName }: { agentName: string }) {
+  const [liveActions, setLiveActions] = useState<AgentActionEvent[]>([]);
+
+  const { data: recentActions, isLoading } = useQuery<AgentActionEvent[]>({
+    queryKey: [`/api/intelligence/agents/${encodeURIComponent(agentName)}/actions?timeWindow=24h&limit=50`],
+  });
+
+  const { isConnected, subscribe } = useWebSocket({
+    onMessage: useCallback((message: WebSocketMessage) => {
+      if (message.type !== 'AGENT_ACTION' || !message.data) return;
+      setLiveActions((prev) => [message.data as AgentActionEvent, ...prev].slice(0, MAX_LIVE_ACTIONS));
+    }, []),
+  });
+
+  useEffect(() => {
+    setLiveActions([]);
+    subscribe({ topics: ['actions'], filters: { agentName } });
+  }, [agentName, subscribe]);
+
+  const seen = new Set(liveActions.map((action) => action.id));
+  const actions = [
+    ...liveActions,
+    ...(recentActions ?? []).filter((action) => !seen.has(action.id)),
+  ].slice(0, MAX_LIVE_ACTIONS);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>Agent Logs</CardTitle>
+            <CardDescription>Actions for this agent, streamed live</CardDescription>
+          </div>
+          <Badge variant={isConnected ? "default" : "secondary"} className="gap-1">
+            <Zap className="w-3 h-3" />
+            {isConnected ? "Live" : "Offline"}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading && actions.length === 0 ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : actions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground text-sm">
+            No actions recorded for this agent yet. New actions will appear here as they happen.
+          </div>
+        ) : (
+          <div className="space-y-2 font-mono text-xs">
+            {actions.map((action) => (
+              <div key={action.id} className="flex gap-4">
+                <span className="text-muted-foreground w-20">
+                  {new Date(action.createdAt).toLocaleTimeString()}
+                </span>
+                <Badge
+                  variant={action.actionType === "error" ? "destructive" : action.actionType === "success" ? "default" : "outline"}
+                  className="w-20 text-xs justify-center"
+                >
+                  {action.actionType}
+                </Badge>
+                <span className="flex-1 truncate">{action.actionName}</span>
+                {action.durationMs > 0 && (
+                  <span className="text-muted-foreground">{action.durationMs}ms</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export function AgentDetailModal({ agent, isOpen, onClose, onNavigate }: AgentDetailModalProps) {
   const [activeTab, setActiveTab] = useState("overview");
 
@@ -434,31 +527,7 @@ export function AgentDetailModal({ agent, isOpen, onClose, onNavigate }: AgentDe
         </TabsContent>
 
         <TabsContent value="logs" className="space-y-4 mt-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Agent Logs</CardTitle>
-              <CardDescription>Recent execution logs and debug information</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-2 font-mono text-xs">
-                {[
-                  { time: "14:32:15", level: "INFO", message: "Agent initialized successfully" },
-                  { time: "14:32:16", level: "INFO", message: "Starting execution exec-1" },
-                  { time: "14:32:18", level: "DEBUG", message: "Routing decision: direct-routing (confidence: 0.89)" },
-                  { time: "14:32:25", level: "INFO", message: "Execution completed in 20s" },
-                  { time: "14:32:26", level: "INFO", message: "Quality score: 0.92" },
-                ].map((log, idx) => (
-                  <div key={idx} className="flex gap-4">
-                    <span className="text-muted-foreground w-20">{log.time}</span>
-                    <Badge variant={log.level === "ERROR" ? "destructive" : log.level === "WARN" ? "secondary" : "outline"} className="w-16 text-xs">
-                      {log.level}
-                    </Badge>
-                    <span className="flex-1">{log.message}</span>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+          <AgentLiveActivity agentName={agent.agentId} />
         </TabsContent>
       </Tabs>
     </DetailModal>
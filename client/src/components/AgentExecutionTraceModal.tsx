@@ -1,5 +1,5 @@
-import React, { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import React, { useCallback, useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { DetailModal } from "./DetailModal";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -13,8 +13,13 @@ import {
   Code,
   ChevronDown,
   ChevronUp,
+  Loader2,
+  Ban,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useWebSocket, type WebSocketMessage } from "@/hooks/useWebSocket";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 
 interface ExecutionTrace {
   correlationId: string;
@@ -51,13 +56,59 @@ interface ExecutionTrace {
   };
 }
 
+type ExecutionStatus = "pending" | "executing" | "completed" | "failed" | "cancelled";
+
+interface ExecutionResult {
+  success: boolean;
+  output?: string;
+  qualityScore?: number;
+  metrics?: { tokensUsed?: number; computeUnits?: number; cost?: number };
+  error?: string;
+}
+
+interface ExecutionProgressEvent {
+  executionId: string;
+  agentId: string;
+  agentName: string;
+  type: "queued" | "started" | "step" | "completed" | "failed" | "cancelled";
+  timestamp: string;
+  step?: string;
+  progress?: number;
+  message?: string;
+  position?: number;
+  result?: ExecutionResult;
+}
+
+interface LiveExecution {
+  id: string;
+  agentId: string;
+  agentName: string;
+  query: string;
+  status: ExecutionStatus;
+  startedAt: string;
+  completedAt?: string;
+  result?: ExecutionResult;
+  progress: ExecutionProgressEvent[];
+}
+
 interface AgentExecutionTraceModalProps {
   isOpen: boolean;
   onClose: () => void;
   correlationId: string;
   agentName: string;
+  // Follow a queued or running execution live instead of loading a recorded trace
+  executionId?: string;
 }
 
+const EXECUTIONS_KEY = "/api/agents/executions";
+const FINISHED_STATUSES: ExecutionStatus[] = ["completed", "failed", "cancelled"];
+const EVENT_STATUS: Partial<Record<ExecutionProgressEvent["type"], ExecutionStatus>> = {
+  started: "executing",
+  completed: "completed",
+  failed: "failed",
+  cancelled: "cancelled",
+};
+
 function ExpandableJSON({ data, label }: { data: any; label: string }) {
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -99,11 +150,137 @@ function formatTimestamp(timestamp: string): string {
   return new Date(timestamp).toLocaleString();
 }
 
+function LiveExecutionView({ executionId }: { executionId: string }) {
+  const [liveEvents, setLiveEvents] = useState<ExecutionProgressEvent[]>([]);
+
+  const { data: execution, isLoading, error } = useQuery<LiveExecution>({
+    queryKey: [EXECUTIONS_KEY, executionId],
+  });
+
+  const handleMessage = useCallback((message: WebSocketMessage) => {
+    if (message.type !== "AGENT_EXECUTION_PROGRESS" || message.data?.executionId !== executionId) return;
+    const event = message.data as ExecutionProgressEvent;
+    setLiveEvents(prev => [...prev, event]);
+    if (EVENT_STATUS[event.type] && FINISHED_STATUSES.includes(EVENT_STATUS[event.type]!)) {
+      queryClient.invalidateQueries({ queryKey: [EXECUTIONS_KEY, executionId] });
+    }
+  }, [executionId]);
+
+  const { isConnected, subscribe } = useWebSocket({ onMessage: handleMessage });
+
+  useEffect(() => {
+    if (isConnected) subscribe({ topics: ["executions"] });
+  }, [isConnected, subscribe]);
+
+  useEffect(() => setLiveEvents([]), [executionId]);
+
+  const cancelMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `${EXECUTIONS_KEY}/${encodeURIComponent(executionId)}/cancel`, {}),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [EXECUTIONS_KEY, executionId] }),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+  if (error || !execution) {
+    return (
+      <div className="text-center py-8">
+        <XCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+        <p className="text-red-600">Failed to load execution</p>
+      </div>
+    );
+  }
+
+  // Events fetched with the execution plus those streamed since, without duplicates
+  const seen = new Set(execution.progress.map(event => `${event.type}:${event.timestamp}:${event.step ?? ""}`));
+  const events = [
+    ...execution.progress,
+    ...liveEvents.filter(event => !seen.has(`${event.type}:${event.timestamp}:${event.step ?? ""}`)),
+  ];
+  const latest = events[events.length - 1];
+  const status = events.reduce<ExecutionStatus>((current, event) => EVENT_STATUS[event.type] ?? current, execution.status);
+  const progress = [...events].reverse().find(event => event.progress !== undefined)?.progress ?? 0;
+  const result = [...events].reverse().find(event => event.result)?.result ?? execution.result;
+  const finished = FINISHED_STATUSES.includes(status);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base flex items-center gap-2">
+              {status === "completed" ? (
+                <CheckCircle className="w-4 h-4 text-green-500" />
+              ) : status === "failed" || status === "cancelled" ? (
+                <XCircle className="w-4 h-4 text-red-500" />
+              ) : (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              )}
+              {status.toUpperCase()}
+            </CardTitle>
+            {!finished && (
+              <Button variant="outline" size="sm" onClick={() => cancelMutation.mutate()} disabled={cancelMutation.isPending}>
+                <Ban className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+            )}
+          </div>
+          <CardDescription>{execution.query}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Progress value={progress * 100} />
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>
+              {status === "pending" && latest?.position ? `Queued (position ${latest.position})` : latest?.step ?? latest?.message ?? "Waiting for updates"}
+            </span>
+            <span>{isConnected ? "Live" : "Reconnecting..."}</span>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Progress</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {events.map((event, index) => (
+            <div key={`${event.type}-${event.timestamp}-${index}`} className="flex items-center justify-between text-sm">
+              <div className="flex items-center gap-2">
+                <Badge variant={event.type === "failed" || event.type === "cancelled" ? "destructive" : "outline"}>{event.type}</Badge>
+                <span>{event.step ?? event.message ?? ""}</span>
+              </div>
+              <span className="text-xs text-muted-foreground">{formatTimestamp(event.timestamp)}</span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {finished && result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Result</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {result.output && <p className="whitespace-pre-wrap bg-muted p-3 rounded-lg">{result.output}</p>}
+            {result.error && <p className="text-red-600">{result.error}</p>}
+            {result.metrics && <ExpandableJSON data={result.metrics} label="Metrics" />}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
 export function AgentExecutionTraceModal({
   isOpen,
   onClose,
   correlationId,
   agentName,
+  executionId,
 }: AgentExecutionTraceModalProps) {
   const [activeTab, setActiveTab] = useState("overview");
 
@@ -117,11 +294,24 @@ export function AgentExecutionTraceModal({
       }
       return response.json();
     },
-    enabled: isOpen && !!correlationId,
+    enabled: isOpen && !!correlationId && !executionId,
   });
 
   if (!isOpen) return null;
 
+  if (executionId) {
+    return (
+      <DetailModal
+        isOpen={isOpen}
+        onClose={onClose}
+        title="Agent Execution"
+        subtitle={`${agentName} • ${executionId}`}
+      >
+        <LiveExecutionView executionId={executionId} />
+      </DetailModal>
+    );
+  }
+
   return (
     <DetailModal
       isOpen={isOpen}
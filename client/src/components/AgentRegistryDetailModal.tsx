@@ -1,10 +1,14 @@
-import React from "react";
+import React, { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { DetailModal } from "./DetailModal";
+import { AgentExecutionTraceModal } from "./AgentExecutionTraceModal";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
+import { AgentEditForm, AgentRevisionHistory } from "./AgentDefinitionEditor";
+import { apiRequest } from "@/lib/queryClient";
 import { 
   Bot, 
   Settings, 
@@ -26,6 +30,13 @@ interface Agent {
   name: string;
   title: string;
   description: string;
+  category?: string;
+  priority?: string;
+  status?: string;
+  specializationLevel?: string;
+  version?: string;
+  dependencies?: string[];
+  tags?: string[];
   capabilities?: Array<{
     name: string;
     level: string;
@@ -57,24 +68,42 @@ interface AgentRegistryDetailModalProps {
   agent: Agent | null;
   isOpen: boolean;
   onClose: () => void;
+  // Called with the updated agent after an edit is saved
+  onSaved?: (agent: Agent) => void;
 }
 
-export function AgentRegistryDetailModal({ agent, isOpen, onClose }: AgentRegistryDetailModalProps) {
+export function AgentRegistryDetailModal({ agent, isOpen, onClose, onSaved }: AgentRegistryDetailModalProps) {
+  const [liveExecutionId, setLiveExecutionId] = useState<string | null>(null);
+
+  const testRunMutation = useMutation({
+    mutationFn: async (target: Agent) => {
+      const res = await apiRequest("POST", `/api/agents/agents/${encodeURIComponent(target.name)}/execute`, {
+        query: `Test run of ${target.title}`,
+        context: { source: "registry-test-run" },
+      });
+      return res.json() as Promise<{ id: string }>;
+    },
+    onSuccess: (execution) => setLiveExecutionId(execution.id),
+  });
+
   if (!agent) return null;
 
   return (
+    <>
     <DetailModal
       isOpen={isOpen}
       onClose={onClose}
       title={agent.title}
-      subtitle={agent.name}
+      subtitle={agent.version ? `${agent.name} · v${agent.version}` : agent.name}
     >
       <Tabs defaultValue="overview" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="capabilities">Capabilities</TabsTrigger>
           <TabsTrigger value="performance">Performance</TabsTrigger>
           <TabsTrigger value="logs">Logs</TabsTrigger>
+          <TabsTrigger value="edit">Edit</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4 mt-4">
@@ -252,6 +281,14 @@ export function AgentRegistryDetailModal({ agent, isOpen, onClose }: AgentRegist
             )}
           </div>
         </TabsContent>
+
+        <TabsContent value="edit" className="mt-4">
+          <AgentEditForm key={agent.name} agent={agent} onSaved={onSaved} />
+        </TabsContent>
+
+        <TabsContent value="history" className="mt-4">
+          <AgentRevisionHistory agentName={agent.name} />
+        </TabsContent>
       </Tabs>
 
       {/* Action buttons */}
@@ -260,7 +297,12 @@ export function AgentRegistryDetailModal({ agent, isOpen, onClose }: AgentRegist
           <Settings className="w-4 h-4 mr-2" />
           Configure
         </Button>
-        <Button variant="outline" size="sm">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => testRunMutation.mutate(agent)}
+          disabled={testRunMutation.isPending}
+        >
           <Play className="w-4 h-4 mr-2" />
           Test Run
         </Button>
@@ -273,6 +315,20 @@ export function AgentRegistryDetailModal({ agent, isOpen, onClose }: AgentRegist
           Refresh
         </Button>
       </div>
+      {testRunMutation.isError && (
+        <div className="text-sm text-destructive pt-2">{(testRunMutation.error as Error).message}</div>
+      )}
     </DetailModal>
+
+    {liveExecutionId && (
+      <AgentExecutionTraceModal
+        isOpen
+        onClose={() => setLiveExecutionId(null)}
+        correlationId=""
+        agentName={agent.name}
+        executionId={liveExecutionId}
+      />
+    )}
+    </>
   );
 }
@@ -1,11 +1,16 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useState, useEffect } from "react";
+import { Link } from "wouter";
+import { History } from "lucide-react";
 import { AlertPill } from "@/components/AlertPill";
 import { useDemoMode } from "@/contexts/DemoModeContext";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 
 interface Alert {
   id: string;
+  ruleId: string;
   level: "critical" | "warning";
+  state: "firing" | "acknowledged";
   message: string;
   timestamp: string;
 }
@@ -14,6 +19,9 @@ interface AlertsResponse {
   alerts: Alert[];
 }
 
+const ACTIVE_ALERTS_KEY = "/api/intelligence/alerts/active";
+const SNOOZE_MINUTES = 60;
+
 export function AlertBanner() {
   const { isDemoMode } = useDemoMode();
   const [dismissedAlerts, setDismissedAlerts] = useState<Set<string>>(() => {
@@ -27,12 +35,25 @@ export function AlertBanner() {
 
   // In demo mode, don't fetch real alerts
   const { data, isLoading } = useQuery<AlertsResponse>({
-    queryKey: ["/api/intelligence/alerts/active"],
+    queryKey: [ACTIVE_ALERTS_KEY],
     refetchInterval: isDemoMode ? false : 30000, // 30 seconds
     staleTime: 30000, // Consider stale after 30 seconds
     enabled: !isDemoMode, // Disable in demo mode
   });
 
+  // Acknowledge/snooze are shared server-side so every viewer sees the same state
+  const acknowledgeMutation = useMutation({
+    mutationFn: (alertId: string) =>
+      apiRequest("POST", `/api/intelligence/alerts/${encodeURIComponent(alertId)}/acknowledge`, {}),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [ACTIVE_ALERTS_KEY] }),
+  });
+
+  const snoozeMutation = useMutation({
+    mutationFn: (alertId: string) =>
+      apiRequest("POST", `/api/intelligence/alerts/${encodeURIComponent(alertId)}/snooze`, { minutes: SNOOZE_MINUTES }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [ACTIVE_ALERTS_KEY] }),
+  });
+
   // Save dismissed alerts to localStorage
   useEffect(() => {
     localStorage.setItem("dismissedAlerts", JSON.stringify(Array.from(dismissedAlerts)));
@@ -43,9 +64,10 @@ export function AlertBanner() {
     return null;
   }
 
-  // Filter out dismissed alerts using unique IDs
+  // Only firing alerts need attention; acknowledged ones live on the history page.
+  // Alert IDs are stable per firing episode, so local dismissals stick until it re-fires.
   const activeAlerts = data?.alerts?.filter(
-    (alert) => !dismissedAlerts.has(alert.id)
+    (alert) => alert.state !== "acknowledged" && !dismissedAlerts.has(alert.id)
   ) || [];
 
   // Don't render if no active alerts
@@ -68,9 +90,19 @@ export function AlertBanner() {
           key={alert.id}
           level={alert.level}
           message={alert.message}
+          onAcknowledge={() => acknowledgeMutation.mutate(alert.id)}
+          onSnooze={() => snoozeMutation.mutate(alert.id)}
           onDismiss={() => handleDismiss(alert)}
         />
       ))}
+      <Link
+        href="/alerts"
+        className="ml-auto inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+        data-testid="link-alert-history"
+      >
+        <History className="w-3.5 h-3.5" />
+        Alert history
+      </Link>
     </div>
   );
 }
@@ -1,14 +1,16 @@
-import { AlertCircle, AlertTriangle, Info, X } from "lucide-react";
+import { AlertCircle, AlertTriangle, BellOff, Check, Info, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 interface AlertPillProps {
   level: "critical" | "warning" | "info";
   message: string;
   onDismiss?: () => void;
+  onAcknowledge?: () => void;
+  onSnooze?: () => void;
   className?: string;
 }
 
-export function AlertPill({ level, message, onDismiss, className }: AlertPillProps) {
+export function AlertPill({ level, message, onDismiss, onAcknowledge, onSnooze, className }: AlertPillProps) {
   const styles = {
     critical: {
       bg: "bg-red-50 dark:bg-red-950/30",
@@ -38,6 +40,12 @@ export function AlertPill({ level, message, onDismiss, className }: AlertPillPro
 
   const style = styles[level];
   const Icon = style.Icon;
+  const actionClassName = cn(
+    "flex-shrink-0 rounded-full p-0.5 transition-colors",
+    "hover:bg-black/10 dark:hover:bg-white/10",
+    "focus:outline-none focus:ring-2 focus:ring-offset-1",
+    style.icon
+  );
 
   return (
     <div
@@ -55,15 +63,32 @@ export function AlertPill({ level, message, onDismiss, className }: AlertPillPro
     >
       <Icon className={cn("w-4 h-4 flex-shrink-0", style.icon)} aria-hidden="true" />
       <span className="truncate max-w-[400px]" title={message}>{message}</span>
+      {onAcknowledge && (
+        <button
+          onClick={onAcknowledge}
+          className={cn("ml-1", actionClassName)}
+          aria-label="Acknowledge alert"
+          title="Acknowledge"
+          type="button"
+        >
+          <Check className="w-3.5 h-3.5" />
+        </button>
+      )}
+      {onSnooze && (
+        <button
+          onClick={onSnooze}
+          className={cn(!onAcknowledge && "ml-1", actionClassName)}
+          aria-label="Snooze alert"
+          title="Snooze"
+          type="button"
+        >
+          <BellOff className="w-3.5 h-3.5" />
+        </button>
+      )}
       {onDismiss && (
         <button
           onClick={onDismiss}
-          className={cn(
-            "ml-1 flex-shrink-0 rounded-full p-0.5 transition-colors",
-            "hover:bg-black/10 dark:hover:bg-white/10",
-            "focus:outline-none focus:ring-2 focus:ring-offset-1",
-            style.icon
-          )}
+          className={cn(!onAcknowledge && !onSnooze && "ml-1", actionClassName)}
           aria-label="Dismiss alert"
           type="button"
         >
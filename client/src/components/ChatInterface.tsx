@@ -1,82 +1,179 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import { Send, Search, MessageSquare, Loader2, AlertCircle } from "lucide-react";
+import { Send, Search, MessageSquare, Loader2, AlertCircle, Plus, Pencil, Trash2, Square } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { streamChatMessage, type ChatConversationDto, type ChatMessageDto } from "@/lib/chat-stream";
 
-interface Message {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-  timestamp: Date;
+interface ConversationsResponse {
+  conversations: ChatConversationDto[];
 }
 
-interface Conversation {
-  id: string;
-  title: string;
-  messages: Message[];
-  timestamp: Date;
+interface ConversationResponse {
+  conversation: ChatConversationDto;
+  messages: ChatMessageDto[];
 }
 
-interface ChatHistoryMessage {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-  timestamp: string;
+// Message being sent/streamed; shown until the persisted copy is refetched
+interface PendingExchange {
+  conversationId: string | null;
+  userMessage: ChatMessageDto;
+  assistantMessageId: string | null;
+  assistantContent: string;
 }
 
-interface ChatHistoryResponse {
-  messages: ChatHistoryMessage[];
+const CONVERSATIONS_KEY = "/api/chat/conversations";
+
+function pendingMessage(role: "user" | "assistant", content: string, id: string): ChatMessageDto {
+  return {
+    id,
+    conversationId: "",
+    role,
+    content,
+    status: role === "user" ? "complete" : "streaming",
+    createdAt: new Date().toISOString(),
+  };
 }
 
-export function ChatInterface() {
-  // Fetch chat history from API
-  const { data: chatHistory, isLoading, error } = useQuery<ChatHistoryResponse>({
-    queryKey: ['chat-history'],
-    queryFn: async () => {
-      const response = await fetch('http://localhost:3000/api/chat/history');
-      if (!response.ok) {
-        throw new Error(`Failed to fetch chat history: ${response.statusText}`);
-      }
-      return response.json();
-    },
-    refetchInterval: 30000, // Refetch every 30 seconds
-  });
+// Inline markdown used by assistant answers: **bold**, `code`, _source notes_ and [dashboard links](/route)
+const INLINE_MARKDOWN = /(\*\*[^*]+\*\*|`[^`]+`|\[[^\]]+\]\(\/[^)\s]*\)|(?<![\w])_[^_\n]+_(?![\w]))/g;
 
-  // Transform API response to conversations format
-  const conversations: Conversation[] = chatHistory?.messages
-    ? [{
-        id: 'main-conversation',
-        title: 'Chat with AI Assistant',
-        messages: chatHistory.messages.map(msg => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp)
-        })),
-        timestamp: new Date(chatHistory.messages[0]?.timestamp || Date.now()),
-      }]
-    : [];
+function MessageContent({ content }: { content: string }) {
+  return (
+    <>
+      {content.split(INLINE_MARKDOWN).map((part, i) => {
+        if (part.startsWith("**") && part.endsWith("**") && part.length > 4) {
+          return <strong key={i}>{part.slice(2, -2)}</strong>;
+        }
+        if (part.startsWith("`") && part.endsWith("`") && part.length > 2) {
+          return <code key={i} className="px-1 rounded bg-muted text-xs">{part.slice(1, -1)}</code>;
+        }
+        const link = part.match(/^\[([^\]]+)\]\((\/[^)\s]*)\)$/);
+        if (link) {
+          return (
+            <Link key={i} href={link[2]} className="underline underline-offset-2 text-primary">
+              {link[1]}
+            </Link>
+          );
+        }
+        if (part.startsWith("_") && part.endsWith("_") && part.length > 2) {
+          return (
+            <em key={i} className="text-muted-foreground">
+              <MessageContent content={part.slice(1, -1)} />
+            </em>
+          );
+        }
+        return part;
+      })}
+    </>
+  );
+}
 
+export function ChatInterface() {
   const [activeConversation, setActiveConversation] = useState<string | null>(null);
   const [input, setInput] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
+  const [pending, setPending] = useState<PendingExchange | null>(null);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const { data: conversationsData, isLoading, error } = useQuery<ConversationsResponse>({
+    queryKey: [CONVERSATIONS_KEY],
+  });
+
+  const { data: conversationData } = useQuery<ConversationResponse>({
+    queryKey: [CONVERSATIONS_KEY, activeConversation],
+    enabled: !!activeConversation,
+  });
+
+  // Stop streaming when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const renameMutation = useMutation({
+    mutationFn: ({ id, title }: { id: string; title: string }) =>
+      apiRequest("PATCH", `${CONVERSATIONS_KEY}/${encodeURIComponent(id)}`, { title }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [CONVERSATIONS_KEY] }),
+  });
 
-  const currentConversation = conversations.find(c => c.id === activeConversation);
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `${CONVERSATIONS_KEY}/${encodeURIComponent(id)}`),
+    onSuccess: (_res, id) => {
+      if (activeConversation === id) setActiveConversation(null);
+      queryClient.removeQueries({ queryKey: [CONVERSATIONS_KEY, id] });
+      return queryClient.invalidateQueries({ queryKey: [CONVERSATIONS_KEY] });
+    },
+  });
+
+  const isStreaming = pending !== null;
 
-  const handleSend = () => {
-    if (!input.trim()) return;
-    // TODO: Implement sending new messages to omniarchon API
-    // For now, just clear the input as we're displaying read-only history
+  const handleSend = async () => {
+    const message = input.trim();
+    if (!message || isStreaming) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
     setInput("");
+    setSendError(null);
+    setPending({
+      conversationId: activeConversation,
+      userMessage: pendingMessage("user", message, "pending-user"),
+      assistantMessageId: null,
+      assistantContent: "",
+    });
+
+    try {
+      await streamChatMessage(
+        { message, conversationId: activeConversation ?? undefined },
+        {
+          onStart: ({ conversation, userMessage, assistantMessage }) => {
+            setPending(prev => prev && { ...prev, conversationId: conversation.id, userMessage, assistantMessageId: assistantMessage.id });
+            setActiveConversation(conversation.id);
+            queryClient.invalidateQueries({ queryKey: [CONVERSATIONS_KEY], exact: true });
+          },
+          onToken: token => setPending(prev => prev && { ...prev, assistantContent: prev.assistantContent + token }),
+        },
+        controller.signal,
+      );
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setSendError(err instanceof Error ? err.message : "Failed to send message");
+      }
+    } finally {
+      abortRef.current = null;
+      await queryClient.invalidateQueries({ queryKey: [CONVERSATIONS_KEY] });
+      setPending(null);
+    }
+  };
+
+  const submitRename = () => {
+    if (renaming && renaming.title.trim()) {
+      renameMutation.mutate({ id: renaming.id, title: renaming.title.trim() });
+    }
+    setRenaming(null);
   };
 
+  const conversations = conversationsData?.conversations ?? [];
   const filteredConversations = conversations.filter(c =>
     c.title.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  // Persisted messages plus the exchange currently in flight
+  const showPending = pending && pending.conversationId === activeConversation;
+  const pendingIds = new Set([pending?.userMessage.id, pending?.assistantMessageId]);
+  const messages: ChatMessageDto[] = [
+    ...(activeConversation ? conversationData?.messages ?? [] : []).filter(m => !(showPending && pendingIds.has(m.id))),
+    ...(showPending
+      ? [pending.userMessage, pendingMessage("assistant", pending.assistantContent, pending.assistantMessageId ?? "pending-assistant")]
+      : []),
+  ];
+
   // Loading state
   if (isLoading) {
     return (
@@ -117,7 +214,19 @@ export function ChatInterface() {
       {/* History Sidebar */}
       <Card className="p-4 xl:col-span-1">
         <div className="mb-4">
-          <h3 className="text-base font-semibold mb-3">Chat History</h3>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-base font-semibold">Chat History</h3>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setActiveConversation(null)}
+              disabled={isStreaming}
+              data-testid="button-new-conversation"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              New
+            </Button>
+          </div>
           <div className="relative">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
             <Input
@@ -132,26 +241,72 @@ export function ChatInterface() {
 
         <ScrollArea className="h-[calc(100%-6rem)]">
           <div className="space-y-2">
+            {filteredConversations.length === 0 && (
+              <p className="text-sm text-muted-foreground px-1">No conversations yet</p>
+            )}
             {filteredConversations.map((conv) => (
               <div
                 key={conv.id}
                 className={cn(
-                  "p-3 rounded-lg cursor-pointer hover-elevate active-elevate-2 border",
-                  activeConversation === conv.id 
-                    ? "border-primary bg-primary/5" 
+                  "group p-3 rounded-lg cursor-pointer hover-elevate active-elevate-2 border",
+                  activeConversation === conv.id
+                    ? "border-primary bg-primary/5"
                     : "border-card-border"
                 )}
-                onClick={() => setActiveConversation(conv.id)}
+                onClick={() => !isStreaming && setActiveConversation(conv.id)}
                 data-testid={`conversation-${conv.id}`}
               >
                 <div className="flex items-start gap-2">
                   <MessageSquare className="w-4 h-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
                   <div className="flex-1 min-w-0">
-                    <div className="text-sm font-medium truncate">{conv.title}</div>
+                    {renaming?.id === conv.id ? (
+                      <Input
+                        autoFocus
+                        value={renaming.title}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => setRenaming({ id: conv.id, title: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") submitRename();
+                          if (e.key === "Escape") setRenaming(null);
+                        }}
+                        onBlur={submitRename}
+                        className="h-7 text-sm"
+                        data-testid={`input-rename-${conv.id}`}
+                      />
+                    ) : (
+                      <div className="text-sm font-medium truncate">{conv.title}</div>
+                    )}
                     <div className="text-xs text-muted-foreground mt-1">
-                      {conv.timestamp.toLocaleString()}
+                      {new Date(conv.updatedAt).toLocaleString()}
                     </div>
                   </div>
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100">
+                    <button
+                      type="button"
+                      aria-label="Rename conversation"
+                      className="text-muted-foreground hover:text-foreground"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setRenaming({ id: conv.id, title: conv.title });
+                      }}
+                      data-testid={`button-rename-${conv.id}`}
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      aria-label="Delete conversation"
+                      className="text-muted-foreground hover:text-destructive"
+                      disabled={isStreaming}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteMutation.mutate(conv.id);
+                      }}
+                      data-testid={`button-delete-${conv.id}`}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
                 </div>
               </div>
             ))}
@@ -169,9 +324,9 @@ export function ChatInterface() {
         </div>
 
         <ScrollArea className="flex-1 p-6">
-          {currentConversation ? (
+          {messages.length > 0 ? (
             <div className="space-y-4">
-              {currentConversation.messages.map((message) => (
+              {messages.map((message) => (
                 <div
                   key={message.id}
                   className={cn(
@@ -187,14 +342,20 @@ export function ChatInterface() {
                         : "bg-secondary"
                     )}
                   >
-                    <div className="text-sm">{message.content}</div>
+                    <div className="text-sm whitespace-pre-wrap">
+                      <MessageContent content={message.content} />
+                      {message.status === "streaming" && (
+                        <Loader2 className="inline w-3 h-3 ml-1 animate-spin" />
+                      )}
+                    </div>
                     <div className={cn(
                       "text-xs mt-2",
-                      message.role === "user" 
-                        ? "text-primary-foreground/70" 
+                      message.role === "user"
+                        ? "text-primary-foreground/70"
                         : "text-muted-foreground"
                     )}>
-                      {message.timestamp.toLocaleTimeString()}
+                      {new Date(message.createdAt).toLocaleTimeString()}
+                      {(message.status === "cancelled" || message.status === "error") && ` · ${message.status}`}
                     </div>
                   </div>
                 </div>
@@ -223,6 +384,9 @@ export function ChatInterface() {
         </ScrollArea>
 
         <div className="p-6 border-t border-card-border">
+          {sendError && (
+            <p className="text-sm text-destructive mb-2" data-testid="text-chat-error">{sendError}</p>
+          )}
           <div className="flex gap-2">
             <Input
               placeholder="Ask about your platform metrics..."
@@ -231,9 +395,15 @@ export function ChatInterface() {
               onKeyDown={(e) => e.key === "Enter" && handleSend()}
               data-testid="input-chat-message"
             />
-            <Button onClick={handleSend} data-testid="button-send-message">
-              <Send className="w-4 h-4" />
-            </Button>
+            {isStreaming ? (
+              <Button variant="outline" onClick={() => abortRef.current?.abort()} data-testid="button-stop-message">
+                <Square className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button onClick={handleSend} disabled={!input.trim()} data-testid="button-send-message">
+                <Send className="w-4 h-4" />
+              </Button>
+            )}
           </div>
         </div>
       </Card>
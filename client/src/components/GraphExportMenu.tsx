@@ -0,0 +1,139 @@
+import { memo } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "@/hooks/use-toast";
+import { toDot, toGraphML, toMermaid, toSvg, type GraphExport } from "@/lib/graph-export";
+
+// PNG renders are this many times the on-screen size
+const PNG_SCALE = 3;
+
+interface GraphExportMenuProps {
+  /** Called when an export is chosen, so the graph is read as currently shown */
+  getGraph: () => GraphExport;
+  filename: string;
+  disabled?: boolean;
+}
+
+function download(blob: Blob, filename: string) {
+  let url: string | null = null;
+  try {
+    url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  } finally {
+    // Always cleanup to prevent memory leak
+    if (url) {
+      URL.revokeObjectURL(url);
+    }
+  }
+}
+
+// Draws the SVG render onto a scaled canvas
+function renderPng(graph: GraphExport): Promise<Blob> {
+  const svgUrl = URL.createObjectURL(new Blob([toSvg(graph)], { type: 'image/svg+xml' }));
+  return new Promise<Blob>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = graph.width * PNG_SCALE;
+      canvas.height = graph.height * PNG_SCALE;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas 2D context unavailable'));
+        return;
+      }
+      ctx.scale(PNG_SCALE, PNG_SCALE);
+      ctx.drawImage(image, 0, 0, graph.width, graph.height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    image.onerror = () => reject(new Error('Failed to load SVG render'));
+    image.src = svgUrl;
+  }).finally(() => URL.revokeObjectURL(svgUrl));
+}
+
+/**
+ * GraphExportMenu exports a UnifiedGraph, including node metadata and the
+ * current layout, as GraphML, Graphviz DOT or Mermaid text, or renders the
+ * current view as SVG or high-resolution PNG.
+ *
+ * @param getGraph - Returns the graph, positions and view to export
+ * @param filename - Base filename without extension (e.g., "pattern-dependencies")
+ * @param disabled - Optional disable state
+ */
+export const GraphExportMenu = memo(function GraphExportMenu({ getGraph, filename, disabled = false }: GraphExportMenuProps) {
+  const exportAs = async (format: string, build: (graph: GraphExport) => Blob | Promise<Blob>, extension: string) => {
+    try {
+      download(await build(getGraph()), `${filename}.${extension}`);
+    } catch (error) {
+      console.error(`Failed to export ${format}:`, error);
+      toast({
+        title: "Export Failed",
+        description: `Failed to export graph as ${format}. Please check console for details.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const copyMermaid = async () => {
+    try {
+      const { nodes, edges } = getGraph();
+      await navigator.clipboard.writeText(toMermaid(nodes, edges));
+      toast({ title: "Copied", description: "Mermaid flowchart copied to clipboard." });
+    } catch (error) {
+      console.error('Failed to copy Mermaid:', error);
+      toast({
+        title: "Copy Failed",
+        description: "Failed to copy Mermaid flowchart. Try downloading it instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const text = (content: string, type: string) => new Blob([content], { type });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Graph data</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => exportAs('GraphML', g => text(toGraphML(g.nodes, g.edges, g.positions), 'application/graphml+xml'), 'graphml')}>
+          Export as GraphML
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportAs('DOT', g => text(toDot(g.nodes, g.edges, g.positions, filename), 'text/vnd.graphviz'), 'dot')}>
+          Export as Graphviz DOT
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportAs('Mermaid', g => text(toMermaid(g.nodes, g.edges), 'text/plain'), 'mmd')}>
+          Export as Mermaid
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={copyMermaid}>
+          Copy Mermaid to clipboard
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Current view</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => exportAs('SVG', g => text(toSvg(g), 'image/svg+xml'), 'svg')}>
+          Export as SVG
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportAs('PNG', renderPng, 'png')}>
+          Export as PNG
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+});
@@ -324,6 +324,10 @@ export function PatternNetwork({ patterns, height = 500, onPatternClick }: Patte
         }
         onNodeClick={handleNodeClick}
         renderMode="svg"
+        searchable={true}
+        pathFinding={true}
+        neighborhoodFocus={true}
+        clustering={true}
         showLegend={true}
         colorScheme={edgeColorScheme}
       />
@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { timeRangeQuery, type TimeRangeSelection } from "@shared/time-range";
+
+interface PricingEntry {
+  id: string;
+  provider: string;
+  model: string;
+  inputPricePerMillion: number;
+  outputPricePerMillion: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+}
+
+interface CostAttribution {
+  key: string;
+  runs: number;
+  tokens: number;
+  recordedCost: number;
+  repricedCost: number;
+}
+
+interface RepriceReport {
+  from: string;
+  to: string;
+  pricedAt: string | null;
+  runs: number;
+  unpriced: number;
+  recordedCost: number;
+  repricedCost: number;
+  difference: number;
+  byAgent: CostAttribution[];
+  byModel: CostAttribution[];
+  byProject: CostAttribution[];
+  byPattern: CostAttribution[];
+}
+
+const EMPTY_FORM = { provider: "", model: "", input: "", output: "", effectiveFrom: "", effectiveTo: "" };
+
+function usd(value: number): string {
+  return `$${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 4 })}`;
+}
+
+function day(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : "open";
+}
+
+function AttributionTable({ rows, label }: { rows: CostAttribution[]; label: string }) {
+  if (rows.length === 0) {
+    return <div className="text-sm text-muted-foreground py-4">No runs to attribute by {label.toLowerCase()}</div>;
+  }
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-xs text-muted-foreground text-left">
+          <th className="py-1 font-normal">{label}</th>
+          <th className="py-1 font-normal text-right">Runs</th>
+          <th className="py-1 font-normal text-right">Tokens</th>
+          <th className="py-1 font-normal text-right">Recorded</th>
+          <th className="py-1 font-normal text-right">Re-priced</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.key} className="border-t">
+            <td className="py-1 font-mono text-xs">{row.key}</td>
+            <td className="py-1 text-right">{row.runs.toLocaleString()}</td>
+            <td className="py-1 text-right">{row.tokens.toLocaleString()}</td>
+            <td className="py-1 text-right">{usd(row.recordedCost)}</td>
+            <td className="py-1 text-right font-medium">{usd(row.repricedCost)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Model pricing catalog editor and "what would this period cost under these
+ * prices" re-pricing of recorded runs
+ */
+export function SavingsPricingPanel({ timeRange }: { timeRange: TimeRangeSelection }) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [historical, setHistorical] = useState(false);
+
+  const { data: entries = [], isLoading } = useQuery<PricingEntry[]>({
+    queryKey: ["/api/savings/pricing"],
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/savings/pricing"] });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/savings/pricing", {
+        provider: form.provider,
+        model: form.model,
+        inputPricePerMillion: Number(form.input),
+        outputPricePerMillion: Number(form.output),
+        effectiveFrom: form.effectiveFrom,
+        effectiveTo: form.effectiveTo || null,
+      });
+      return res.json() as Promise<PricingEntry>;
+    },
+    onSuccess: () => {
+      setForm(EMPTY_FORM);
+      invalidate();
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/savings/pricing/${encodeURIComponent(id)}`),
+    onSuccess: invalidate,
+  });
+
+  const repriceMutation = useMutation({
+    mutationFn: async () => {
+      const range = Object.fromEntries(new URLSearchParams(timeRangeQuery(timeRange, { param: "timeRange" })));
+      const res = await apiRequest("POST", "/api/savings/reprice", { ...range, historical });
+      return res.json() as Promise<RepriceReport>;
+    },
+  });
+
+  const report = repriceMutation.data;
+  const canCreate = form.provider && form.model && form.input !== "" && form.output !== "" && form.effectiveFrom;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Re-price History</CardTitle>
+              <CardDescription>
+                What the recorded runs of the selected period would cost under{" "}
+                {historical ? "the prices effective when they ran" : "current prices"}. Stored costs are not changed.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Switch id="reprice-historical" checked={historical} onCheckedChange={setHistorical} />
+                <Label htmlFor="reprice-historical" className="text-sm">Historical prices</Label>
+              </div>
+              <Button onClick={() => repriceMutation.mutate()} disabled={repriceMutation.isPending} data-testid="button-reprice">
+                {repriceMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+                Re-price
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {repriceMutation.isError && (
+            <div className="text-sm text-destructive">{(repriceMutation.error as Error).message}</div>
+          )}
+          {!report && !repriceMutation.isPending && (
+            <div className="text-sm text-muted-foreground">Run a re-price to compare recorded and catalog costs</div>
+          )}
+          {report && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <div className="text-xs text-muted-foreground">Recorded cost</div>
+                  <div className="text-2xl font-bold">{usd(report.recordedCost)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Re-priced cost</div>
+                  <div className="text-2xl font-bold">{usd(report.repricedCost)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Difference</div>
+                  <div className={`text-2xl font-bold ${report.difference > 0 ? "text-red-500" : "text-green-600"}`}>
+                    {report.difference > 0 ? "+" : ""}{usd(report.difference)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Runs</div>
+                  <div className="text-2xl font-bold">{report.runs.toLocaleString()}</div>
+                  {report.unpriced > 0 && (
+                    <div className="text-xs text-muted-foreground">{report.unpriced} without a catalog price kept their recorded cost</div>
+                  )}
+                </div>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {new Date(report.from).toLocaleDateString()} – {new Date(report.to).toLocaleDateString()}
+                {report.pricedAt && ` · prices effective ${new Date(report.pricedAt).toLocaleString()}`}
+              </div>
+              <Tabs defaultValue="agent">
+                <TabsList>
+                  <TabsTrigger value="agent">Per agent</TabsTrigger>
+                  <TabsTrigger value="project">Per project</TabsTrigger>
+                  <TabsTrigger value="pattern">Per pattern</TabsTrigger>
+                  <TabsTrigger value="model">Per model</TabsTrigger>
+                </TabsList>
+                <TabsContent value="agent"><AttributionTable rows={report.byAgent} label="Agent" /></TabsContent>
+                <TabsContent value="project"><AttributionTable rows={report.byProject} label="Project" /></TabsContent>
+                <TabsContent value="pattern">
+                  <AttributionTable rows={report.byPattern} label="Pattern" />
+                  <div className="text-xs text-muted-foreground mt-2">Runs that used several patterns are split evenly between them.</div>
+                </TabsContent>
+                <TabsContent value="model"><AttributionTable rows={report.byModel} label="Model" /></TabsContent>
+              </Tabs>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Model Pricing Catalog</CardTitle>
+          <CardDescription>
+            USD per million tokens. Runs reported without a cost are priced with the entry effective at their time.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="text-sm text-muted-foreground">Loading prices…</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted-foreground text-left">
+                  <th className="py-1 font-normal">Provider</th>
+                  <th className="py-1 font-normal">Model</th>
+                  <th className="py-1 font-normal text-right">Input</th>
+                  <th className="py-1 font-normal text-right">Output</th>
+                  <th className="py-1 font-normal">Effective</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={entry.id} className="border-t">
+                    <td className="py-1">{entry.provider}</td>
+                    <td className="py-1 font-mono text-xs">{entry.model}</td>
+                    <td className="py-1 text-right">{usd(entry.inputPricePerMillion)}</td>
+                    <td className="py-1 text-right">{usd(entry.outputPricePerMillion)}</td>
+                    <td className="py-1 text-xs">
+                      {day(entry.effectiveFrom)} – {day(entry.effectiveTo)}
+                      {!entry.effectiveTo && <Badge variant="secondary" className="ml-2 text-xs">current</Badge>}
+                    </td>
+                    <td className="py-1 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(entry.id)}
+                        disabled={deleteMutation.isPending}
+                        aria-label={`Delete ${entry.model} price`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end border-t pt-4">
+            <div className="space-y-1">
+              <Label htmlFor="price-provider" className="text-xs">Provider</Label>
+              <Input id="price-provider" value={form.provider} onChange={e => setForm({ ...form, provider: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="price-model" className="text-xs">Model</Label>
+              <Input id="price-model" value={form.model} onChange={e => setForm({ ...form, model: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="price-input" className="text-xs">Input $/M</Label>
+              <Input id="price-input" type="number" min="0" step="0.01" value={form.input} onChange={e => setForm({ ...form, input: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="price-output" className="text-xs">Output $/M</Label>
+              <Input id="price-output" type="number" min="0" step="0.01" value={form.output} onChange={e => setForm({ ...form, output: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="price-from" className="text-xs">Effective from</Label>
+              <Input id="price-from" type="date" value={form.effectiveFrom} onChange={e => setForm({ ...form, effectiveFrom: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="price-to" className="text-xs">Effective to (optional)</Label>
+              <Input id="price-to" type="date" value={form.effectiveTo} onChange={e => setForm({ ...form, effectiveTo: e.target.value })} />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-destructive">
+              {createMutation.isError && (createMutation.error as Error).message}
+              {deleteMutation.isError && (deleteMutation.error as Error).message}
+            </div>
+            <Button size="sm" onClick={() => createMutation.mutate()} disabled={!canCreate || createMutation.isPending}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add price
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { ArrowRight, Repeat, TrendingUp, Clock } from "lucide-react";
+import { useCallback, useRef } from "react";
+import { useWebSocket, type WebSocketMessage } from "@/hooks/useWebSocket";
 
 interface TransformationSummary {
   totalTransformations: number;
@@ -41,7 +43,26 @@ interface TransformationFlowProps {
   timeWindow?: '24h' | '7d' | '30d';
 }
 
+// Collapse bursts of transformation events into one refetch per second
+const INVALIDATION_THROTTLE_MS = 1000;
+
 export function TransformationFlow({ timeWindow = '24h' }: TransformationFlowProps) {
+  const queryClient = useQueryClient();
+  const lastInvalidationRef = useRef(0);
+
+  // Live updates: refetch the summary whenever a transformation event is broadcast
+  const { isConnected } = useWebSocket({
+    onMessage: useCallback((message: WebSocketMessage) => {
+      if (message.type !== 'TRANSFORMATION_EVENT') return;
+
+      const now = Date.now();
+      if (now - lastInvalidationRef.current > INVALIDATION_THROTTLE_MS) {
+        lastInvalidationRef.current = now;
+        queryClient.invalidateQueries({ queryKey: ['transformations', timeWindow] });
+      }
+    }, [queryClient, timeWindow]),
+  });
+
   const { data, isLoading, error } = useQuery<TransformationData>({
     queryKey: ['transformations', timeWindow],
     queryFn: async () => {
@@ -51,7 +72,7 @@ export function TransformationFlow({ timeWindow = '24h' }: TransformationFlowPro
       }
       return response.json();
     },
-    refetchInterval: 30000, // Refetch every 30 seconds
+    refetchInterval: isConnected ? false : 30000, // Poll only while the live stream is down
   });
 
   if (isLoading) {
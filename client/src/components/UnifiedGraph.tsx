@@ -1,12 +1,52 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useMemo, useCallback } from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Search, X } from 'lucide-react';
+import { GraphExportMenu } from '@/components/GraphExportMenu';
+import {
+  clusterNodeId,
+  collapseClusters,
+  detectCommunities,
+  neighborhood,
+  searchNodes,
+  shortestPath,
+  CLUSTER_TYPE,
+} from '@/lib/graph-analysis';
+import type { GraphExport } from '@/lib/graph-export';
+import {
+  circularLayout,
+  DEFAULT_NODE_SIZE,
+  fitTransform,
+  forceLayout,
+  IDENTITY_TRANSFORM,
+  initialPositions,
+  NodeIndex,
+  type ForceLayoutOptions,
+  type ForceLayoutRequest,
+  type ForceLayoutResponse,
+  type LayoutEdge,
+  type LayoutNode,
+  type Point,
+  type Positions,
+  type ViewTransform,
+} from '@/lib/graph-layout';
 
 /**
  * Unified Graph Component
  *
  * A consistent interface for rendering different types of network visualizations
- * across the dashboard. Supports force-directed, hierarchy, and custom layouts.
+ * across the dashboard. Supports force-directed, hierarchy, circular, grid and
+ * custom layouts. Force layouts are simulated in a Web Worker and settle on
+ * screen; dragging a node pins it (double-click releases it). With `zoomable`,
+ * the wheel zooms and dragging the background pans. Use the canvas render mode
+ * for large graphs: it only labels nodes big enough to read at the current zoom.
+ *
+ * Exploration tools are opt-in per graph: node search, shortest paths
+ * (shift-click two nodes), a k-hop focus around the selected node, and
+ * community colouring with clusters that collapse into super-nodes
+ * (alt-click a node to collapse its cluster, click the super-node to expand it).
  */
 
 export interface GraphNode {
@@ -55,6 +95,16 @@ export interface UnifiedGraphProps {
   renderMode?: 'canvas' | 'svg';
   showLegend?: boolean;
   colorScheme?: Record<string, string>;
+  /** Search box that selects and centres the chosen node */
+  searchable?: boolean;
+  /** Shift-click two nodes to highlight the shortest path between them */
+  pathFinding?: boolean;
+  /** Fade everything more than a chosen number of hops from the selected node */
+  neighborhoodFocus?: boolean;
+  /** Colour communities and collapse them into super-nodes */
+  clustering?: boolean;
+  /** Base filename for the export menu (GraphML, DOT, Mermaid, SVG, PNG); the menu is shown when set */
+  exportFilename?: string;
 }
 
 /**
@@ -66,6 +116,20 @@ const NODE_PADDING = 6; // Minimum padding between text and circle edge (reduced
 const CHAR_WIDTH_RATIO = 0.55; // Approximate character width to font size ratio (more optimistic)
 const LINE_HEIGHT_RATIO = 1.15; // Line height multiplier (tighter spacing)
 
+/**
+ * Constants for interaction and canvas level of detail
+ */
+const LABEL_MIN_SCREEN_RADIUS = 12; // Canvas nodes smaller than this on screen are drawn without labels
+const DRAG_THRESHOLD = 3; // Pixels the pointer moves before a press becomes a drag
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 8;
+const SETTLE_ALPHA = 0.3; // Simulation temperature for settling an existing layout
+const FADED_OPACITY = 0.15; // Nodes and edges outside the focus or path
+const HIGHLIGHT_COLOR = '#f59e0b'; // Ring around the selected node and path
+const FOCUS_DEPTHS = [1, 2, 3];
+const CLUSTER_NODE_COLOR = '#64748b';
+const CLUSTER_PALETTE = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#06b6d4', '#ec4899', '#84cc16', '#f97316', '#6366f1'];
+
 /**
  * Helper to split text into multiple lines that fit within a circle
  * Returns array of lines with word wrapping
@@ -171,34 +235,6 @@ function calculateTextDisplay(
   return { fontSize, lines, needsEllipsis };
 }
 
-/**
- * Helper to calculate force-directed layout positions
- */
-function calculateForceLayout(
-  nodes: GraphNode[],
-  edges: GraphEdge[],
-  width: number,
-  height: number
-): Record<string, { x: number; y: number }> {
-  // Simple grid-based layout as fallback
-  // In production, this could use d3-force or similar
-  const positions: Record<string, { x: number; y: number }> = {};
-  const cols = Math.ceil(Math.sqrt(nodes.length));
-  const cellWidth = width / cols;
-  const cellHeight = height / Math.ceil(nodes.length / cols);
-
-  nodes.forEach((node, i) => {
-    const col = i % cols;
-    const row = Math.floor(i / cols);
-    positions[node.id] = {
-      x: col * cellWidth + cellWidth / 2,
-      y: row * cellHeight + cellHeight / 2,
-    };
-  });
-
-  return positions;
-}
-
 /**
  * Helper to calculate hierarchy layout positions with improved spacing
  */
@@ -297,9 +333,55 @@ function calculateHierarchyLayout(
   return positions;
 }
 
+
+/**
+ * Grid layout, row by row
+ */
+function calculateGridLayout(
+  nodes: GraphNode[],
+  width: number,
+  height: number
+): Record<string, { x: number; y: number }> {
+  const positions: Record<string, { x: number; y: number }> = {};
+  const cols = Math.ceil(Math.sqrt(nodes.length));
+  const cellW = width / cols;
+  const cellH = height / Math.ceil(nodes.length / cols);
+  nodes.forEach((node, i) => {
+    const col = i % cols;
+    const row = Math.floor(i / cols);
+    positions[node.id] = {
+      x: col * cellW + cellW / 2,
+      y: row * cellH + cellH / 2,
+    };
+  });
+  return positions;
+}
+
+/**
+ * Force layouts run in a worker; without one (tests, old browsers) they run in place
+ */
+function createLayoutWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('../lib/graph-layout.worker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return null;
+  }
+}
+
+interface DragState {
+  kind: 'node' | 'pan';
+  nodeId?: string;
+  startX: number;
+  startY: number;
+  // Node: offset from the pointer to the node centre; pan: transform offset at the start
+  origin: Point;
+  moved: boolean;
+}
+
 export function UnifiedGraph({
-  nodes,
-  edges,
+  nodes: inputNodes,
+  edges: inputEdges,
   layout = { type: 'force' },
   width = '100%',
   height = 500,
@@ -312,13 +394,110 @@ export function UnifiedGraph({
   renderMode = 'svg',
   showLegend = true,
   colorScheme = {},
+  searchable = false,
+  pathFinding = false,
+  neighborhoodFocus = false,
+  clustering = false,
+  exportFilename,
 }: UnifiedGraphProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
-  const [nodePositions, setNodePositions] = useState<Record<string, { x: number; y: number }>>({});
+  const [nodePositions, setNodePositions] = useState<Positions>({});
+  const [pinned, setPinned] = useState<Positions>({});
+  const [transform, setTransform] = useState<ViewTransform>(IDENTITY_TRANSFORM);
   const [hoveredNode, setHoveredNode] = useState<GraphNode | null>(null);
+  const [dragging, setDragging] = useState(false);
   const [dimensions, setDimensions] = useState({ width: 800, height: 500 });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [pathEnds, setPathEnds] = useState<string[]>([]);
+  const [focusDepth, setFocusDepth] = useState<number | null>(null);
+  const [colorClusters, setColorClusters] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  // Node to centre once it has a position (search results may first need a layout)
+  const [pendingCenter, setPendingCenter] = useState<string | null>(null);
+
+  const exploring = searchable || pathFinding || neighborhoodFocus || clustering;
+  const communities = useMemo(
+    () => (clustering ? detectCommunities(inputNodes.map(node => node.id), inputEdges) : null),
+    [clustering, inputNodes, inputEdges]
+  );
+  // Collapsed clusters refer to the communities they were collapsed from
+  useEffect(() => setCollapsed(new Set()), [communities]);
+  const { nodes, edges } = useMemo(
+    (): { nodes: GraphNode[]; edges: GraphEdge[] } =>
+      communities ? collapseClusters(inputNodes, inputEdges, communities, collapsed) : { nodes: inputNodes, edges: inputEdges },
+    [inputNodes, inputEdges, communities, collapsed]
+  );
+
+  const positionsRef = useRef(nodePositions);
+  positionsRef.current = nodePositions;
+  const pinnedRef = useRef(pinned);
+  pinnedRef.current = pinned;
+  const workerRef = useRef<Worker | null>(null);
+  // Only responses to the latest layout request are applied
+  const layoutRequestRef = useRef(0);
+  const lastLayoutTypeRef = useRef<GraphLayout['type'] | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const suppressClickRef = useRef(false);
+
+  // Layouts follow the graph's structure rather than new array instances
+  const graphKey = useMemo(
+    () => `${nodes.map(node => `${node.id}:${node.size ?? ''}`).join('|')}#${edges.map(edge => `${edge.source}>${edge.target}:${edge.weight ?? ''}`).join('|')}`,
+    [nodes, edges]
+  );
+  const nodeById = useMemo(() => new Map(nodes.map(node => [node.id, node])), [nodes]);
+
+  const searchResults = useMemo(() => (searchable ? searchNodes(inputNodes, query) : []), [searchable, inputNodes, query]);
+  const path = useMemo(
+    () => (pathFinding && pathEnds.length === 2 ? shortestPath(edges, pathEnds[0], pathEnds[1]) : null),
+    [pathFinding, pathEnds, edges]
+  );
+  const focus = useMemo(
+    () => (neighborhoodFocus && focusDepth && selectedId && nodeById.has(selectedId) ? neighborhood(edges, selectedId, focusDepth) : null),
+    [neighborhoodFocus, focusDepth, selectedId, nodeById, edges]
+  );
+  // Nodes and edges left at full strength while a path or focus is shown
+  const emphasis = useMemo(() => {
+    if (path) {
+      const pairs = new Set(path.slice(1).flatMap((id, i) => [`${path[i]}|${id}`, `${id}|${path[i]}`]));
+      return { nodes: new Set(path), edge: (edge: GraphEdge) => pairs.has(`${edge.source}|${edge.target}`) };
+    }
+    if (focus) {
+      return { nodes: new Set(focus.keys()), edge: (edge: GraphEdge) => focus.has(edge.source) && focus.has(edge.target) };
+    }
+    return null;
+  }, [path, focus]);
+  const highlighted = useMemo(
+    () => new Set(exploring ? [selectedId, ...pathEnds, ...(path ?? [])].filter((id): id is string => !!id) : []),
+    [exploring, selectedId, pathEnds, path]
+  );
+  const nodeOpacity = (node: GraphNode) => (emphasis && !emphasis.nodes.has(node.id) ? FADED_OPACITY : 1);
+  const edgeOpacity = (edge: GraphEdge) => (emphasis && !emphasis.edge(edge) ? FADED_OPACITY : 1);
+  // Cluster colours replace the usual ones while shown
+  const clusterColor = (node: GraphNode): string | undefined => {
+    if (node.type === CLUSTER_TYPE && communities) return CLUSTER_NODE_COLOR;
+    const community = colorClusters ? communities?.get(node.id) : undefined;
+    return community === undefined ? undefined : CLUSTER_PALETTE[community % CLUSTER_PALETTE.length];
+  };
+  const nodeIndex = useMemo(() => new NodeIndex(nodes, nodePositions), [nodes, nodePositions]);
+  // Weights above 1 (e.g. counts) are scaled against the heaviest edge
+  const maxEdgeWeight = useMemo(() => edges.reduce((max, edge) => Math.max(max, edge.weight ?? 0), 1), [edges]);
+  const edgeWidth = (edge: GraphEdge) => (edge.weight ? 1 + (edge.weight / maxEdgeWeight) * 2 : 1);
+  // Wrapped labels are reused between frames
+  const textCache = useMemo(() => new Map<string, ReturnType<typeof calculateTextDisplay>>(), [nodes]);
+  const textDisplay = (label: string, radius: number) => {
+    const key = `${radius}|${label}`;
+    let display = textCache.get(key);
+    if (!display) {
+      display = calculateTextDisplay(label, radius);
+      textCache.set(key, display);
+    }
+    return display;
+  };
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
 
   // Calculate layout positions and handle window resizing
   useEffect(() => {
@@ -333,7 +512,7 @@ export function UnifiedGraph({
                (typeof height === 'string' && height.includes('vh')) ?
                window.innerHeight * 0.7 : 600; // Default to 70vh or 600px
 
-      setDimensions({ width: w, height: h });
+      setDimensions(current => (current.width === w && current.height === h ? current : { width: w, height: h }));
     };
 
     // Initial calculation
@@ -355,14 +534,101 @@ export function UnifiedGraph({
     };
   }, [width, height]);
 
-  // Recalculate node positions when dimensions change
+  /**
+   * Super-nodes start at the centre of their members, and the members of an
+   * expanded cluster start where its super-node was
+   */
+  const seedClusterPositions = (current: Positions): Positions => {
+    if (!communities) return current;
+
+    const seeded = { ...current };
+    nodes.forEach((node, i) => {
+      if (seeded[node.id]) return;
+      if (node.type === CLUSTER_TYPE) {
+        const placed = (node.metadata?.members as string[]).map(id => current[id]).filter(Boolean);
+        if (placed.length > 0) {
+          seeded[node.id] = {
+            x: placed.reduce((sum, pos) => sum + pos.x, 0) / placed.length,
+            y: placed.reduce((sum, pos) => sum + pos.y, 0) / placed.length,
+          };
+        }
+        return;
+      }
+      const cluster = communities.get(node.id);
+      const origin = cluster === undefined ? undefined : current[clusterNodeId(cluster)];
+      if (origin) {
+        const angle = i * 2.4;
+        seeded[node.id] = { x: origin.x + 10 * Math.cos(angle), y: origin.y + 10 * Math.sin(angle) };
+      }
+    });
+    return seeded;
+  };
+
+  /**
+   * Start (or restart) the force simulation from the current positions.
+   * `fit` scales the view to the result; re-settling after a drag keeps the view.
+   */
+  const runForceLayout = useCallback((alpha: number, fit: boolean) => {
+    const layoutNodes: LayoutNode[] = nodes.map(({ id, size }) => ({ id, size }));
+    const layoutEdges: LayoutEdge[] = edges.map(({ source, target, weight }) => ({ source, target, weight }));
+    const options: ForceLayoutOptions = {
+      width: dimensions.width,
+      height: dimensions.height,
+      initial: positionsRef.current,
+      pinned: pinnedRef.current,
+      alpha,
+    };
+    const id = ++layoutRequestRef.current;
+    const apply = (positions: Positions) => {
+      setNodePositions(positions);
+      if (fit) setTransform(fitTransform(layoutNodes, positions, dimensions.width, dimensions.height));
+    };
+    const runInPlace = () => apply(forceLayout(layoutNodes, layoutEdges, options));
+
+    if (!workerRef.current) workerRef.current = createLayoutWorker();
+    const worker = workerRef.current;
+    if (!worker) {
+      runInPlace();
+      return;
+    }
+
+    // Starting positions show until the first update from the worker
+    setNodePositions(initialPositions(layoutNodes, layoutEdges, options));
+    worker.onmessage = (event: MessageEvent<ForceLayoutResponse>) => {
+      if (event.data.id === layoutRequestRef.current) apply(event.data.positions);
+    };
+    worker.onerror = () => {
+      worker.terminate();
+      workerRef.current = null;
+      if (id === layoutRequestRef.current) runInPlace();
+    };
+    const request: ForceLayoutRequest = { id, nodes: layoutNodes, edges: layoutEdges, options };
+    worker.postMessage(request);
+  }, [nodes, edges, dimensions]);
+
+  // Recalculate node positions when the graph, layout or dimensions change
   useEffect(() => {
     if (!containerRef.current || dimensions.width === 0) return;
 
     const w = dimensions.width;
     const h = dimensions.height;
+    const layoutChanged = lastLayoutTypeRef.current !== layout.type;
+    lastLayoutTypeRef.current = layout.type;
+
+    if (!layout.nodePositions && layout.type === 'force') {
+      positionsRef.current = seedClusterPositions(positionsRef.current);
+      // Mostly placed graphs (resizes, expansions) only need to settle
+      const placed = nodes.filter(node => positionsRef.current[node.id]).length;
+      // Settling keeps the user's view; fresh layouts are fitted to it
+      const fresh = layoutChanged || placed < nodes.length / 2;
+      runForceLayout(fresh ? 1 : SETTLE_ALPHA, fresh);
+      return;
+    }
+
+    // Drop results of a force layout still running
+    layoutRequestRef.current++;
 
-    let positions: Record<string, { x: number; y: number }>;
+    let positions: Positions;
 
     if (layout.nodePositions) {
       // Use custom positions if provided
@@ -374,162 +640,351 @@ export function UnifiedGraph({
           positions = calculateHierarchyLayout(nodes, edges, w, h);
           break;
         case 'circular':
-          positions = {};
-          const centerX = w / 2;
-          const centerY = h / 2;
-          const radius = Math.min(w, h) * 0.35;
-          nodes.forEach((node, i) => {
-            const angle = (2 * Math.PI * i) / nodes.length;
-            positions[node.id] = {
-              x: centerX + radius * Math.cos(angle),
-              y: centerY + radius * Math.sin(angle),
-            };
-          });
+          positions = circularLayout(nodes, edges, w, h);
           break;
         case 'grid':
-          positions = {};
-          const cols = Math.ceil(Math.sqrt(nodes.length));
-          const cellW = w / cols;
-          const cellH = h / Math.ceil(nodes.length / cols);
-          nodes.forEach((node, i) => {
-            const col = i % cols;
-            const row = Math.floor(i / cols);
-            positions[node.id] = {
-              x: col * cellW + cellW / 2,
-              y: row * cellH + cellH / 2,
-            };
-          });
-          break;
-        case 'force':
         default:
-          positions = calculateForceLayout(nodes, edges, w, h);
+          positions = calculateGridLayout(nodes, w, h);
           break;
       }
     }
 
+    // Dragged nodes stay where they were dropped; custom layouts know nothing of super-nodes
+    positions = seedClusterPositions({ ...positions, ...pinnedRef.current });
     setNodePositions(positions);
-  }, [nodes, edges, layout, dimensions]);
+    setTransform(fitTransform(nodes, positions, w, h));
+  }, [graphKey, layout.type, layout.nodePositions, dimensions]);
 
-  // Canvas rendering
+  // Centre a node picked from search once it is laid out
+  useEffect(() => {
+    const pos = pendingCenter && nodePositions[pendingCenter];
+    if (!pos) return;
+    setPendingCenter(null);
+    setTransform(current => ({
+      ...current,
+      x: dimensions.width / 2 - pos.x * current.k,
+      y: dimensions.height / 2 - pos.y * current.k,
+    }));
+  }, [pendingCenter, nodePositions, dimensions]);
+
+  // Wheel zoom around the pointer (a native listener, as React's wheel listeners are passive)
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!zoomable || !element) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = element.getBoundingClientRect();
+      const px = e.clientX - rect.left;
+      const py = e.clientY - rect.top;
+      setTransform(current => {
+        const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.k * Math.exp(-e.deltaY * 0.002)));
+        return { k, x: px - ((px - current.x) * k) / current.k, y: py - ((py - current.y) * k) / current.k };
+      });
+    };
+
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [zoomable]);
+
+  // Canvas rendering, once per animation frame
   useEffect(() => {
     if (renderMode !== 'canvas' || !canvasRef.current) return;
 
     const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Set canvas size
-    canvas.width = dimensions.width * window.devicePixelRatio;
-    canvas.height = dimensions.height * window.devicePixelRatio;
-    ctx.scale(window.devicePixelRatio, window.devicePixelRatio);
-
-    // Clear canvas
-    ctx.clearRect(0, 0, dimensions.width, dimensions.height);
-
-    // Draw edges
-    ctx.lineWidth = 1;
-    ctx.globalAlpha = 0.5;
-    edges.forEach((edge) => {
-      const sourcePos = nodePositions[edge.source];
-      const targetPos = nodePositions[edge.target];
-
-      if (sourcePos && targetPos) {
-        const color = colorScheme[edge.type || ''] || '#94a3b8';
-        ctx.strokeStyle = color;
-        ctx.lineWidth = edge.weight ? 1 + edge.weight * 2 : 1;
+    const frame = requestAnimationFrame(() => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+
+      // Resize the backing store only when needed; it clears the canvas
+      const dpr = window.devicePixelRatio || 1;
+      const pixelWidth = Math.round(dimensions.width * dpr);
+      const pixelHeight = Math.round(dimensions.height * dpr);
+      if (canvas.width !== pixelWidth) canvas.width = pixelWidth;
+      if (canvas.height !== pixelHeight) canvas.height = pixelHeight;
+
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, pixelWidth, pixelHeight);
+      const { k } = transform;
+      ctx.setTransform(dpr * k, 0, 0, dpr * k, dpr * transform.x, dpr * transform.y);
+
+      // Visible area in graph coordinates; anything outside is skipped
+      const x0 = -transform.x / k;
+      const y0 = -transform.y / k;
+      const x1 = (dimensions.width - transform.x) / k;
+      const y1 = (dimensions.height - transform.y) / k;
+
+      // Draw edges, one path per colour, width and opacity
+      const batches = new Map<string, { color: string; width: number; opacity: number; segments: Array<[Point, Point]> }>();
+      edges.forEach((edge) => {
+        const sourcePos = nodePositions[edge.source];
+        const targetPos = nodePositions[edge.target];
+
+        if (!sourcePos || !targetPos) return;
+        if (Math.max(sourcePos.x, targetPos.x) < x0 || Math.min(sourcePos.x, targetPos.x) > x1 ||
+            Math.max(sourcePos.y, targetPos.y) < y0 || Math.min(sourcePos.y, targetPos.y) > y1) return;
+
+        const onPath = !!path && emphasis!.edge(edge);
+        const color = onPath ? HIGHLIGHT_COLOR : colorScheme[edge.type || ''] || '#94a3b8';
+        const lineWidth = Math.max(edgeWidth(edge) + (onPath ? 2 : 0), 0.5 / k);
+        const opacity = 0.5 * edgeOpacity(edge);
+        const key = `${color}|${lineWidth.toFixed(1)}|${opacity}`;
+        const batch = batches.get(key) ?? { color, width: lineWidth, opacity, segments: [] };
+        batch.segments.push([sourcePos, targetPos]);
+        batches.set(key, batch);
+      });
 
+      batches.forEach(({ color, width: lineWidth, opacity, segments }) => {
+        ctx.globalAlpha = opacity;
+        ctx.strokeStyle = color;
+        ctx.lineWidth = lineWidth;
         ctx.beginPath();
-        ctx.moveTo(sourcePos.x, sourcePos.y);
-        ctx.lineTo(targetPos.x, targetPos.y);
+        for (const [from, to] of segments) {
+          ctx.moveTo(from.x, from.y);
+          ctx.lineTo(to.x, to.y);
+        }
         ctx.stroke();
-      }
-    });
+      });
+      ctx.globalAlpha = 1;
 
-    ctx.globalAlpha = 1;
+      // Draw nodes; labels only where they are big enough to read
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      nodes.forEach((node) => {
+        const pos = nodePositions[node.id];
+        if (!pos) return;
 
-    // Draw nodes
-    nodes.forEach((node) => {
-      const pos = nodePositions[node.id];
-      if (!pos) return;
+        const radius = node.size || DEFAULT_NODE_SIZE;
+        if (pos.x + radius < x0 || pos.x - radius > x1 || pos.y + radius < y0 || pos.y - radius > y1) return;
 
-      const radius = node.size || 30; // Default to 30px for better readability
-      const color = node.color || colorScheme[node.type || ''] || '#3b82f6';
+        const color = clusterColor(node) || node.color || colorScheme[node.type || ''] || '#3b82f6';
+        const screenRadius = radius * k;
 
-      ctx.beginPath();
-      ctx.arc(pos.x, pos.y, radius, 0, Math.PI * 2);
-      ctx.fillStyle = color;
-      ctx.fill();
-      ctx.strokeStyle = '#ffffff';
-      ctx.lineWidth = 2;
-      ctx.stroke();
+        ctx.globalAlpha = nodeOpacity(node);
+        ctx.beginPath();
+        ctx.arc(pos.x, pos.y, radius, 0, Math.PI * 2);
+        ctx.fillStyle = color;
+        ctx.fill();
+        if (screenRadius >= 3) {
+          ctx.strokeStyle = '#ffffff';
+          ctx.lineWidth = 2;
+          ctx.stroke();
+        }
+        if (pinned[node.id]) {
+          ctx.setLineDash([4, 3]);
+          ctx.strokeStyle = '#0f172a';
+          ctx.lineWidth = Math.max(2, 1.5 / k);
+          ctx.beginPath();
+          ctx.arc(pos.x, pos.y, radius + 3, 0, Math.PI * 2);
+          ctx.stroke();
+          ctx.setLineDash([]);
+        }
+        if (highlighted.has(node.id)) {
+          ctx.strokeStyle = HIGHLIGHT_COLOR;
+          ctx.lineWidth = Math.max(3, 2 / k);
+          ctx.beginPath();
+          ctx.arc(pos.x, pos.y, radius + 4, 0, Math.PI * 2);
+          ctx.stroke();
+        }
+
+        if (screenRadius < LABEL_MIN_SCREEN_RADIUS) return;
+
+        // Draw label inside circle using helper function with multi-line support
+        const { fontSize, lines } = textDisplay(node.label, radius);
+
+        ctx.fillStyle = '#ffffff';
+        ctx.font = `${fontSize}px IBM Plex Sans, sans-serif`;
+
+        // Calculate line spacing
+        const lineHeight = fontSize * LINE_HEIGHT_RATIO;
+        const totalHeight = lines.length * lineHeight;
+        const startY = pos.y - totalHeight / 2 + lineHeight / 2;
+
+        // Draw each line
+        lines.forEach((line, i) => {
+          ctx.fillText(line, pos.x, startY + i * lineHeight);
+        });
+      });
+      ctx.globalAlpha = 1;
+
+      // Full labels of the hovered and highlighted nodes below them, at a readable size whatever the zoom
+      ctx.font = `${12 / k}px IBM Plex Sans, sans-serif`;
+      ctx.fillStyle = '#64748b';
+      const labelled = new Set(highlighted);
+      if (hoveredNode) labelled.add(hoveredNode.id);
+      labelled.forEach((id) => {
+        const node = nodeById.get(id);
+        const pos = nodePositions[id];
+        if (!node || !pos) return;
+        ctx.fillText(node.label, pos.x, pos.y + (node.size || DEFAULT_NODE_SIZE) + 12 / k);
+      });
+    });
 
-      // Draw label inside circle using helper function with multi-line support
-      const { fontSize, lines } = calculateTextDisplay(node.label, radius);
+    return () => cancelAnimationFrame(frame);
+  }, [nodes, edges, nodePositions, pinned, dimensions, renderMode, colorScheme, transform, hoveredNode, emphasis, highlighted, colorClusters, communities]);
 
-      ctx.fillStyle = '#ffffff';
-      ctx.font = `${fontSize}px IBM Plex Sans, sans-serif`;
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
+  // Pointer position in graph coordinates (before zoom and pan)
+  const toGraphPoint = (e: React.MouseEvent): Point | null => {
+    const rect = (renderMode === 'canvas' ? canvasRef.current : svgRef.current)?.getBoundingClientRect();
+    if (!rect) return null;
 
-      // Calculate line spacing
-      const lineHeight = fontSize * LINE_HEIGHT_RATIO;
-      const totalHeight = lines.length * lineHeight;
-      const startY = pos.y - totalHeight / 2 + lineHeight / 2;
+    return {
+      x: (e.clientX - rect.left - transform.x) / transform.k,
+      y: (e.clientY - rect.top - transform.y) / transform.k,
+    };
+  };
 
-      // Draw each line
-      lines.forEach((line, i) => {
-        ctx.fillText(line, pos.x, startY + i * lineHeight);
-      });
-    });
-  }, [nodes, edges, nodePositions, dimensions, renderMode, colorScheme]);
+  const nodeAt = (e: React.MouseEvent): GraphNode | null => {
+    const point = toGraphPoint(e);
+    const id = point && nodeIndex.find(point.x, point.y);
+    return (id && nodeById.get(id)) || null;
+  };
+
+  // Clicks that end a drag are not node clicks
+  const consumeDragClick = () => {
+    const suppressed = suppressClickRef.current;
+    suppressClickRef.current = false;
+    return suppressed;
+  };
+
+  /**
+   * Node clicks: super-nodes expand, alt-click collapses the node's cluster,
+   * shift-click picks path ends, and plain clicks select the node
+   */
+  const handleNodeClick = (node: GraphNode, e: React.MouseEvent) => {
+    if (communities && node.type === CLUSTER_TYPE) {
+      const cluster = node.metadata?.cluster as number;
+      setCollapsed(current => new Set(Array.from(current).filter(other => other !== cluster)));
+      return;
+    }
+    if (communities && e.altKey) {
+      const cluster = communities.get(node.id);
+      if (cluster !== undefined) setCollapsed(current => new Set(current).add(cluster));
+      return;
+    }
+    if (pathFinding && e.shiftKey) {
+      setPathEnds(current => (current.length === 1 && current[0] !== node.id ? [current[0], node.id] : [node.id]));
+      return;
+    }
+    setSelectedId(node.id);
+    onNodeClick?.(node);
+  };
 
   // Handle click events
   const handleClick = (e: React.MouseEvent) => {
-    if (!interactive || !onNodeClick) return;
+    if (consumeDragClick() || !interactive) return;
 
-    const rect = (renderMode === 'canvas' ? canvasRef.current : svgRef.current)?.getBoundingClientRect();
-    if (!rect) return;
+    const clickedNode = nodeAt(e);
+    if (clickedNode) {
+      handleNodeClick(clickedNode, e);
+    }
+  };
 
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+  // Select a search result, expanding its cluster if it is collapsed
+  const selectSearchResult = (node: GraphNode) => {
+    const cluster = communities?.get(node.id);
+    if (cluster !== undefined && collapsed.has(cluster)) {
+      setCollapsed(current => new Set(Array.from(current).filter(other => other !== cluster)));
+    }
+    setSelectedId(node.id);
+    setPendingCenter(node.id);
+    setQuery('');
+  };
 
-    // Find clicked node
-    const clickedNode = nodes.find((node) => {
-      const pos = nodePositions[node.id];
-      if (!pos) return false;
+  const collapseAll = () => {
+    if (communities) setCollapsed(new Set(communities.values()));
+  };
 
-      const radius = node.size || 30;
-      const dx = x - pos.x;
-      const dy = y - pos.y;
-      return Math.sqrt(dx * dx + dy * dy) <= radius;
-    });
+  // Pressing a node starts dragging it; pressing the background pans (when zoomable)
+  const handlePointerDown = (e: React.PointerEvent) => {
+    suppressClickRef.current = false;
+    if (!interactive || e.button !== 0) return;
 
-    if (clickedNode) {
-      onNodeClick(clickedNode);
+    const point = toGraphPoint(e);
+    if (!point) return;
+
+    const nodeId = nodeIndex.find(point.x, point.y);
+    if (nodeId) {
+      const pos = nodePositions[nodeId];
+      dragRef.current = { kind: 'node', nodeId, startX: e.clientX, startY: e.clientY, origin: { x: pos.x - point.x, y: pos.y - point.y }, moved: false };
+    } else if (zoomable) {
+      dragRef.current = { kind: 'pan', startX: e.clientX, startY: e.clientY, origin: { x: transform.x, y: transform.y }, moved: false };
     }
   };
 
-  // Handle hover events
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!interactive) return;
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (drag) {
+      const dx = e.clientX - drag.startX;
+      const dy = e.clientY - drag.startY;
+      if (!drag.moved) {
+        if (Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+        // Capture only once it is a drag, so plain clicks still reach nodes and edges
+        drag.moved = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDragging(true);
+        // The simulation must not move the node out from under the pointer
+        if (drag.kind === 'node') layoutRequestRef.current++;
+      }
 
-    const rect = (renderMode === 'canvas' ? canvasRef.current : svgRef.current)?.getBoundingClientRect();
-    if (!rect) return;
+      if (drag.kind === 'pan') {
+        setTransform(current => ({ ...current, x: drag.origin.x + dx, y: drag.origin.y + dy }));
+      } else {
+        const point = toGraphPoint(e);
+        if (point) {
+          setNodePositions(current => ({ ...current, [drag.nodeId!]: { x: point.x + drag.origin.x, y: point.y + drag.origin.y } }));
+        }
+      }
+      return;
+    }
 
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    if (!interactive) return;
+    setHoveredNode(nodeAt(e));
+  };
 
-    const hoveredNode = nodes.find((node) => {
-      const pos = nodePositions[node.id];
-      if (!pos) return false;
+  // Dropped nodes are pinned and the rest of a force layout settles around them
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag?.moved) return;
+
+    suppressClickRef.current = true;
+    setDragging(false);
+    if (drag.kind !== 'node') return;
+
+    const point = toGraphPoint(e);
+    if (!point) return;
+    const position = { x: point.x + drag.origin.x, y: point.y + drag.origin.y };
+    positionsRef.current = { ...positionsRef.current, [drag.nodeId!]: position };
+    pinnedRef.current = { ...pinnedRef.current, [drag.nodeId!]: position };
+    setNodePositions(positionsRef.current);
+    setPinned(pinnedRef.current);
+    if (layout.type === 'force' && !layout.nodePositions) runForceLayout(SETTLE_ALPHA, false);
+  };
 
-      const radius = node.size || 30;
-      const dx = x - pos.x;
-      const dy = y - pos.y;
-      return Math.sqrt(dx * dx + dy * dy) <= radius;
-    });
+  // Double-click releases a pinned node, or resets the view on the background
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (!interactive) return;
 
-    setHoveredNode(hoveredNode || null);
+    const node = nodeAt(e);
+    if (node && pinned[node.id]) {
+      const { [node.id]: _released, ...rest } = pinnedRef.current;
+      pinnedRef.current = rest;
+      setPinned(rest);
+      if (layout.type === 'force' && !layout.nodePositions) runForceLayout(SETTLE_ALPHA, false);
+    } else if (!node && zoomable) {
+      setTransform(fitTransform(nodes, nodePositions, dimensions.width, dimensions.height));
+    }
+  };
+
+  const cursor = dragging ? 'grabbing' : hoveredNode ? 'pointer' : zoomable ? 'grab' : 'default';
+  const pointerHandlers = {
+    onClick: handleClick,
+    onDoubleClick: handleDoubleClick,
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
   };
 
   const defaultColorScheme = {
@@ -540,9 +995,25 @@ export function UnifiedGraph({
     ...colorScheme,
   };
 
+  // The graph as currently displayed, with resolved colours, positions and view
+  const getExportGraph = (): GraphExport => ({
+    nodes: nodes.map(node => ({
+      ...node,
+      color: clusterColor(node) || node.color || (node.type && defaultColorScheme[node.type as keyof typeof defaultColorScheme]) || '#3b82f6',
+    })),
+    edges: edges.map(edge => ({
+      ...edge,
+      color: (edge.type && defaultColorScheme[edge.type as keyof typeof defaultColorScheme]) || '#94a3b8',
+    })),
+    positions: nodePositions,
+    width: dimensions.width,
+    height: dimensions.height,
+    transform,
+  });
+
   return (
     <Card className="p-6">
-      {(title || subtitle) && (
+      {(title || subtitle || exportFilename) && (
         <div className="flex items-center justify-between mb-4">
           <div>
             {title && <h3 className="text-base font-semibold">{title}</h3>}
@@ -561,10 +1032,101 @@ export function UnifiedGraph({
               </p>
             )}
           </div>
-          {showLegend && (
+          {(showLegend || exportFilename) && (
             <div className="flex items-center gap-2">
-              <Badge variant="outline">{nodes.length} nodes</Badge>
-              <Badge variant="outline">{edges.length} edges</Badge>
+              {showLegend && (
+                <>
+                  <Badge variant="outline">{nodes.length} nodes</Badge>
+                  <Badge variant="outline">{edges.length} edges</Badge>
+                </>
+              )}
+              {exportFilename && (
+                <GraphExportMenu getGraph={getExportGraph} filename={exportFilename} disabled={nodes.length === 0} />
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {exploring && (
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          {searchable && (
+            <div className="relative w-56">
+              <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && searchResults.length > 0) selectSearchResult(searchResults[0]);
+                  if (e.key === 'Escape') setQuery('');
+                }}
+                placeholder="Search nodes..."
+                className="h-8 pl-7 text-xs"
+              />
+              {searchResults.length > 0 && (
+                <div className="absolute z-10 mt-1 w-full rounded-md border bg-popover shadow-md">
+                  {searchResults.map((node) => (
+                    <button
+                      key={node.id}
+                      type="button"
+                      className="flex w-full items-center justify-between gap-2 px-2 py-1.5 text-left text-xs hover-elevate"
+                      onClick={() => selectSearchResult(node)}
+                    >
+                      <span className="truncate">{node.label}</span>
+                      {node.type && <span className="text-muted-foreground shrink-0">{node.type}</span>}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {neighborhoodFocus && (
+            <div className="flex items-center gap-1">
+              <span className="text-xs text-muted-foreground">Focus</span>
+              <Button size="sm" variant={focusDepth === null ? 'default' : 'outline'} onClick={() => setFocusDepth(null)}>
+                Off
+              </Button>
+              {FOCUS_DEPTHS.map((depth) => (
+                <Button key={depth} size="sm" variant={focusDepth === depth ? 'default' : 'outline'} onClick={() => setFocusDepth(depth)}>
+                  {depth} hop{depth > 1 ? 's' : ''}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {clustering && (
+            <div className="flex items-center gap-1">
+              <Button size="sm" variant={colorClusters ? 'default' : 'outline'} onClick={() => setColorClusters(on => !on)}>
+                Colour clusters
+              </Button>
+              <Button size="sm" variant="outline" onClick={collapseAll}>
+                Collapse all
+              </Button>
+              {collapsed.size > 0 && (
+                <Button size="sm" variant="outline" onClick={() => setCollapsed(new Set())}>
+                  Expand all
+                </Button>
+              )}
+            </div>
+          )}
+
+          {pathFinding && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              {pathEnds.length === 0 && <span>Shift-click two nodes to find a path</span>}
+              {pathEnds.length === 1 && <span>Path from {nodeById.get(pathEnds[0])?.label ?? pathEnds[0]}: shift-click a second node</span>}
+              {pathEnds.length === 2 && (
+                <span>
+                  {path
+                    ? `Path: ${path.map(id => nodeById.get(id)?.label ?? id).join(' → ')} (${path.length - 1} hop${path.length === 2 ? '' : 's'})`
+                    : 'No path between the selected nodes'}
+                </span>
+              )}
+              {pathEnds.length > 0 && (
+                <Button size="sm" variant="ghost" onClick={() => setPathEnds([])} aria-label="Clear path">
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              )}
             </div>
           )}
         </div>
@@ -574,20 +1136,18 @@ export function UnifiedGraph({
         {renderMode === 'canvas' ? (
           <canvas
             ref={canvasRef}
-            className="w-full rounded-lg border border-card-border bg-card cursor-pointer"
-            style={{ height: typeof height === 'number' ? `${height}px` : height }}
-            onClick={handleClick}
-            onMouseMove={handleMouseMove}
+            className="w-full rounded-lg border border-card-border bg-card"
+            style={{ height: typeof height === 'number' ? `${height}px` : height, cursor, touchAction: zoomable ? 'none' : undefined }}
+            {...pointerHandlers}
           />
         ) : (
           <svg
             ref={svgRef}
             className="w-full rounded-lg border border-card-border bg-card"
-            style={{ height: typeof height === 'number' ? `${height}px` : height }}
+            style={{ height: typeof height === 'number' ? `${height}px` : height, cursor, touchAction: zoomable ? 'none' : undefined }}
             width={dimensions.width}
             height={dimensions.height}
-            onClick={handleClick}
-            onMouseMove={handleMouseMove}
+            {...pointerHandlers}
           >
             {/* Define arrow markers for directed edges */}
             <defs>
@@ -619,6 +1179,7 @@ export function UnifiedGraph({
               </marker>
             </defs>
 
+            <g transform={`translate(${transform.x} ${transform.y}) scale(${transform.k})`}>
             {/* Draw edges */}
             {edges.map((edge, idx) => {
               const sourcePos = nodePositions[edge.source];
@@ -626,12 +1187,14 @@ export function UnifiedGraph({
 
               if (!sourcePos || !targetPos) return null;
 
-              const color = (edge.type && defaultColorScheme[edge.type as keyof typeof defaultColorScheme]) || '#94a3b8';
-              const strokeWidth = edge.weight ? 1 + edge.weight * 2 : 1;
+              const onPath = !!path && emphasis!.edge(edge);
+              const color = onPath ? HIGHLIGHT_COLOR : (edge.type && defaultColorScheme[edge.type as keyof typeof defaultColorScheme]) || '#94a3b8';
+              const strokeWidth = edgeWidth(edge) + (onPath ? 2 : 0);
+              const opacity = 0.6 * edgeOpacity(edge);
 
               // Calculate target node radius to adjust line endpoint
-              const targetNode = nodes.find(n => n.id === edge.target);
-              const targetRadius = targetNode?.size ?? 30;
+              const targetNode = nodeById.get(edge.target);
+              const targetRadius = targetNode?.size ?? DEFAULT_NODE_SIZE;
 
               // Calculate edge angle and adjust endpoint to stop at node edge
               const dx = targetPos.x - sourcePos.x;
@@ -660,11 +1223,12 @@ export function UnifiedGraph({
                     y2={adjustedTargetY}
                     stroke={color}
                     strokeWidth={strokeWidth}
-                    opacity={0.6}
+                    opacity={opacity}
                     markerEnd={!edge.bidirectional ? `url(#${markerId})` : undefined}
                     className="hover:opacity-90 transition-opacity cursor-pointer"
                     onClick={(e) => {
                       e.stopPropagation();
+                      if (consumeDragClick()) return;
                       onEdgeClick?.(edge);
                     }}
                   />
@@ -688,7 +1252,7 @@ export function UnifiedGraph({
                         y2={adjustedTargetY}
                         stroke={color}
                         strokeWidth={strokeWidth}
-                        opacity={0.6}
+                        opacity={opacity}
                         markerStart={`url(#arrow-start-${idx})`}
                         markerEnd={`url(#${markerId})`}
                         className="hover:opacity-90 transition-opacity cursor-pointer"
@@ -727,11 +1291,11 @@ export function UnifiedGraph({
               const pos = nodePositions[node.id];
               if (!pos) return null;
 
-              const radius = node.size || 30; // Default to 30px for better readability
-              const color = node.color || (node.type && defaultColorScheme[node.type as keyof typeof defaultColorScheme]) || '#3b82f6';
+              const radius = node.size || DEFAULT_NODE_SIZE; // Default to 30px for better readability
+              const color = clusterColor(node) || node.color || (node.type && defaultColorScheme[node.type as keyof typeof defaultColorScheme]) || '#3b82f6';
 
               // Calculate optimal text display using helper function with multi-line support
-              const { fontSize, lines, needsEllipsis } = calculateTextDisplay(node.label, radius);
+              const { fontSize, lines, needsEllipsis } = textDisplay(node.label, radius);
 
               // Calculate line spacing
               const lineHeight = fontSize * LINE_HEIGHT_RATIO;
@@ -742,9 +1306,11 @@ export function UnifiedGraph({
                 <g
                   key={node.id}
                   className="cursor-pointer hover-elevate transition-all"
+                  opacity={nodeOpacity(node)}
                   onClick={(e) => {
                     e.stopPropagation();
-                    onNodeClick?.(node);
+                    if (consumeDragClick()) return;
+                    handleNodeClick(node, e);
                   }}
                 >
                   <circle
@@ -754,8 +1320,20 @@ export function UnifiedGraph({
                     fill={color}
                     stroke="hsl(var(--foreground))"
                     strokeWidth={2}
+                    strokeDasharray={pinned[node.id] ? '4 3' : undefined}
                     opacity={hoveredNode?.id === node.id ? 1 : 0.9}
                   />
+                  {highlighted.has(node.id) && (
+                    <circle
+                      cx={pos.x}
+                      cy={pos.y}
+                      r={radius + 5}
+                      fill="none"
+                      stroke={HIGHLIGHT_COLOR}
+                      strokeWidth={3}
+                      className="pointer-events-none"
+                    />
+                  )}
                   {/* Multi-line text inside circle */}
                   <text
                     x={pos.x}
@@ -776,7 +1354,7 @@ export function UnifiedGraph({
                     ))}
                   </text>
                   {/* Optional: Full label on hover below node */}
-                  {hoveredNode?.id === node.id && needsEllipsis && (
+                  {(hoveredNode?.id === node.id || highlighted.has(node.id)) && needsEllipsis && (
                     <text
                       x={pos.x}
                       y={pos.y + radius + 14}
@@ -789,6 +1367,7 @@ export function UnifiedGraph({
                 </g>
               );
             })}
+            </g>
           </svg>
         )}
       </div>
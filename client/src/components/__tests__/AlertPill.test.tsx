@@ -48,6 +48,34 @@ describe('AlertPill', () => {
     expect(screen.queryByLabelText('Dismiss alert')).not.toBeInTheDocument();
   });
 
+  it('should call onAcknowledge and onSnooze when action buttons are clicked', async () => {
+    const user = userEvent.setup();
+    const handleAcknowledge = vi.fn();
+    const handleSnooze = vi.fn();
+
+    render(
+      <AlertPill
+        level="critical"
+        message="Actionable alert"
+        onAcknowledge={handleAcknowledge}
+        onSnooze={handleSnooze}
+      />
+    );
+
+    await user.click(screen.getByLabelText('Acknowledge alert'));
+    await user.click(screen.getByLabelText('Snooze alert'));
+
+    expect(handleAcknowledge).toHaveBeenCalledTimes(1);
+    expect(handleSnooze).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not render lifecycle actions when handlers are not provided', () => {
+    render(<AlertPill level="warning" message="Passive alert" />);
+
+    expect(screen.queryByLabelText('Acknowledge alert')).not.toBeInTheDocument();
+    expect(screen.queryByLabelText('Snooze alert')).not.toBeInTheDocument();
+  });
+
   it('should apply custom className', () => {
     const { container } = render(
       <AlertPill 
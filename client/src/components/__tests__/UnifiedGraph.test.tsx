@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { UnifiedGraph, type GraphEdge, type GraphNode } from '../UnifiedGraph';
+
+// Two triangles joined by one light edge
+const NODES: GraphNode[] = ['A1', 'A2', 'A3', 'B1', 'B2', 'B3'].map(id => ({ id, label: id }));
+const EDGES: GraphEdge[] = [
+  { source: 'A1', target: 'A2' },
+  { source: 'A2', target: 'A3' },
+  { source: 'A3', target: 'A1' },
+  { source: 'B1', target: 'B2' },
+  { source: 'B2', target: 'B3' },
+  { source: 'B3', target: 'B1' },
+  { source: 'A1', target: 'B1', weight: 0.1 },
+];
+
+const nodeGroup = (label: string) => screen.getByText(label).closest('g')!;
+const highlightRings = (container: HTMLElement) => container.querySelectorAll('circle[stroke="#f59e0b"]');
+
+describe('UnifiedGraph', () => {
+  it('should lay out every node and hide the exploration tools by default', () => {
+    const { container } = render(<UnifiedGraph nodes={NODES} edges={EDGES} title="Graph" />);
+
+    expect(container.querySelectorAll('circle')).toHaveLength(6);
+    expect(container.querySelectorAll('line')).toHaveLength(7);
+    expect(screen.queryByPlaceholderText('Search nodes...')).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /export/i })).not.toBeInTheDocument();
+  });
+
+  it('should show the export menu without a title when given a filename', () => {
+    render(<UnifiedGraph nodes={NODES} edges={EDGES} showLegend={false} exportFilename="graph" />);
+
+    expect(screen.getByRole('button', { name: /export/i })).toBeEnabled();
+  });
+
+  it('should select a search result without reporting a node click', () => {
+    const onNodeClick = vi.fn();
+    const { container } = render(<UnifiedGraph nodes={NODES} edges={EDGES} searchable onNodeClick={onNodeClick} />);
+
+    fireEvent.change(screen.getByPlaceholderText('Search nodes...'), { target: { value: 'b2' } });
+    fireEvent.click(screen.getByRole('button', { name: 'B2' }));
+
+    expect(highlightRings(container)).toHaveLength(1);
+    expect(onNodeClick).not.toHaveBeenCalled();
+  });
+
+  it('should show the shortest path between two shift-clicked nodes', () => {
+    const { container } = render(<UnifiedGraph nodes={NODES} edges={EDGES} pathFinding />);
+
+    fireEvent.click(nodeGroup('A3'), { shiftKey: true });
+    fireEvent.click(nodeGroup('B2'), { shiftKey: true });
+
+    expect(screen.getByText('Path: A3 → A1 → B1 → B2 (3 hops)')).toBeInTheDocument();
+    expect(highlightRings(container)).toHaveLength(4);
+    // Everything off the path fades
+    expect(nodeGroup('A2')).toHaveAttribute('opacity', '0.15');
+  });
+
+  it('should collapse a cluster into a super-node and expand it again', () => {
+    const onNodeClick = vi.fn();
+    const { container } = render(<UnifiedGraph nodes={NODES} edges={EDGES} clustering onNodeClick={onNodeClick} />);
+
+    fireEvent.click(nodeGroup('B2'), { altKey: true });
+
+    expect(container.querySelectorAll('circle')).toHaveLength(4);
+    expect(screen.queryByText('B2')).not.toBeInTheDocument();
+    const superNode = nodeGroup('(3)');
+    expect(superNode.textContent).toBe('Cluster 2(3)');
+
+    fireEvent.click(superNode);
+
+    expect(screen.getByText('B2')).toBeInTheDocument();
+    expect(onNodeClick).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,4 @@
-import { Bot, Network, Zap, Code, Activity, Database, Server, Users, ChevronRight, MessageSquare, Search, Eye, BarChart3, Settings, Shield, FileText, TrendingUp, Layers, Target, Calculator, BookOpen } from "lucide-react";
+import { Bot, Network, Zap, Code, Activity, Database, Server, Users, ChevronRight, MessageSquare, Search, Eye, BarChart3, Settings, Shield, FileText, TrendingUp, Layers, Target, Calculator, BookOpen, Bell, GitCompare } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import {
   Sidebar,
@@ -62,6 +62,16 @@ const tools = [
     url: "/trace",
     icon: Search,
   },
+  {
+    title: "Alert History",
+    url: "/alerts",
+    icon: Bell,
+  },
+  {
+    title: "Routing Replay",
+    url: "/routing-replay",
+    icon: GitCompare,
+  },
 ];
 
   const previews = [
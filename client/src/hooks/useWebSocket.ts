@@ -1,10 +1,68 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
 
-interface WebSocketMessage {
-  type: string;
+/**
+ * Subscription topics understood by the /ws server
+ */
+export type WebSocketTopic =
+  | 'all'
+  | 'metrics'
+  | 'actions'
+  | 'routing'
+  | 'transformations'
+  | 'performance'
+  | 'errors'
+  | 'executions'
+  | 'system';
+
+/**
+ * Message types broadcast by the /ws server
+ */
+export type WebSocketMessageType =
+  | 'CONNECTED'
+  | 'INITIAL_STATE'
+  | 'CURRENT_STATE'
+  | 'AGENT_METRIC_UPDATE'
+  | 'AGENT_ACTION'
+  | 'ROUTING_DECISION'
+  | 'TRANSFORMATION_EVENT'
+  | 'PERFORMANCE_METRIC'
+  | 'AGENT_EXECUTION_PROGRESS'
+  | 'CONSUMER_STATUS'
+  | 'SUBSCRIPTION_UPDATED'
+  | 'REPLAY_COMPLETE'
+  | 'RESYNC_REQUIRED'
+  | 'PONG'
+  | 'ERROR';
+
+/**
+ * Server-side filters applied to a subscription.
+ * A filter only constrains events that carry the corresponding field.
+ */
+export interface SubscriptionFilters {
+  agentName?: string;
+  actionType?: string;
+  minConfidence?: number;
+  correlationId?: string;
+  project?: string;
+}
+
+export interface SubscribeOptions {
+  topics?: WebSocketTopic[];
+  // Replaces the current filters; pass {} to clear them
+  filters?: SubscriptionFilters;
+}
+
+export interface WebSocketMessage {
+  type: WebSocketMessageType | string;
   data?: any;
   message?: string;
   timestamp: string;
+  // Sequence number of broadcast events (snapshots carry the current sequence)
+  seq?: number;
+  // Identifies the server process that numbered `seq`; a new id restarts the sequence
+  streamId?: string;
+  // True for events re-sent after a reconnect
+  replayed?: boolean;
 }
 
 interface UseWebSocketOptions {
@@ -23,8 +81,8 @@ interface UseWebSocketReturn {
   connectionStatus: 'connecting' | 'connected' | 'disconnected' | 'error';
   error: string | null;
   send: (message: any) => void;
-  subscribe: (topics: string[]) => void;
-  unsubscribe: (topics: string[]) => void;
+  subscribe: (options: SubscribeOptions) => void;
+  unsubscribe: (topics: WebSocketTopic[]) => void;
   reconnect: () => void;
 }
 
@@ -35,7 +93,11 @@ interface UseWebSocketReturn {
  * - Automatic reconnection with exponential backoff
  * - Connection status tracking
  * - Type-safe message handling
- * - Subscription management
+ * - Subscription management with server-side filters (restored on reconnect)
+ * - Resumes from the last seen sequence number after reconnecting; missed events
+ *   are replayed, or a RESYNC_REQUIRED message followed by a fresh INITIAL_STATE is
+ *   delivered when the gap is too large or the server restarted. A successful resume
+ *   delivers no INITIAL_STATE, so replayed events are never counted twice
  * - Debug logging
  *
  * @example
@@ -48,9 +110,9 @@ interface UseWebSocketReturn {
  *   }
  * });
  *
- * // Subscribe to specific event types
+ * // Subscribe to specific event types, optionally filtered server-side
  * useEffect(() => {
- *   subscribe(['metrics', 'actions']);
+ *   subscribe({ topics: ['actions'], filters: { agentName: 'agent-api-architect' } });
  * }, []);
  * ```
  */
@@ -96,11 +158,22 @@ export function useWebSocket({
     }
   }, [log]);
 
-  const subscribe = useCallback((topics: string[]) => {
-    send({ action: 'subscribe', topics });
+  // Highest sequence number seen, sent as `lastSeq` when resuming after a reconnect
+  const lastSeqRef = useRef<number | null>(null);
+  // Stream the sequence numbers belong to, sent as `streamId` when resuming
+  const streamIdRef = useRef<string | null>(null);
+
+  // Remember the latest subscription so it can be replayed after reconnecting
+  const subscriptionRef = useRef<SubscribeOptions | null>(null);
+
+  const subscribe = useCallback(({ topics, filters }: SubscribeOptions) => {
+    subscriptionRef.current = { topics, filters };
+    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
+      send({ action: 'subscribe', topics, filters });
+    }
   }, [send]);
 
-  const unsubscribe = useCallback((topics: string[]) => {
+  const unsubscribe = useCallback((topics: WebSocketTopic[]) => {
     send({ action: 'unsubscribe', topics });
   }, [send]);
 
@@ -122,11 +195,15 @@ export function useWebSocket({
     }
 
     try {
-      log('Connecting to', wsUrl);
+      // `resume` tells the server to hold INITIAL_STATE until the resume outcome is known
+      const resuming = lastSeqRef.current !== null;
+      const connectUrl = resuming ? `${wsUrl}${wsUrl.includes('?') ? '&' : '?'}resume=1` : wsUrl;
+
+      log('Connecting to', connectUrl);
       setConnectionStatus('connecting');
       setError(null);
 
-      const ws = new WebSocket(wsUrl);
+      const ws = new WebSocket(connectUrl);
 
       ws.onopen = () => {
         if (!mountedRef.current) return;
@@ -153,6 +230,16 @@ export function useWebSocket({
         setError(null);
         reconnectCountRef.current = 0;
 
+        // Restore subscription topics and filters on every (re)connect
+        if (subscriptionRef.current) {
+          ws.send(JSON.stringify({ action: 'subscribe', ...subscriptionRef.current }));
+        }
+
+        // Ask for events missed while disconnected (after the subscription, so filters apply)
+        if (resuming) {
+          ws.send(JSON.stringify({ action: 'resume', lastSeq: lastSeqRef.current, streamId: streamIdRef.current }));
+        }
+
         onOpen?.();
 
         // Clean up stabilization timeout
@@ -166,6 +253,17 @@ export function useWebSocket({
           const message: WebSocketMessage = JSON.parse(event.data);
           log('Received message:', message.type);
 
+          if (message.type === 'RESYNC_REQUIRED') {
+            // Missed events are gone; continue from the server's current position
+            lastSeqRef.current = message.data?.currentSeq ?? null;
+            streamIdRef.current = message.data?.streamId ?? null;
+          } else if (typeof message.seq === 'number') {
+            // A restarted server numbers from zero again, so adopt its sequence as-is
+            const sameStream = message.streamId === undefined || message.streamId === streamIdRef.current;
+            lastSeqRef.current = sameStream ? Math.max(lastSeqRef.current ?? 0, message.seq) : message.seq;
+            streamIdRef.current = message.streamId ?? streamIdRef.current;
+          }
+
           onMessage?.(message);
         } catch (err) {
           console.error('[WebSocket] Failed to parse message:', err);
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { parseSseEvents } from '../chat-stream';
+
+describe('parseSseEvents', () => {
+  it('should parse complete events and keep the partial tail', () => {
+    const { events, rest } = parseSseEvents(
+      'event: start\ndata: {"a":1}\n\nevent: token\ndata: {"token":"Hi "}\n\nevent: tok'
+    );
+
+    expect(events).toEqual([
+      { event: 'start', data: '{"a":1}' },
+      { event: 'token', data: '{"token":"Hi "}' },
+    ]);
+    expect(rest).toBe('event: tok');
+  });
+
+  it('should join multi-line data, default the event name and accept CRLF', () => {
+    const { events, rest } = parseSseEvents('data: line 1\r\ndata: line 2\r\n\r\n');
+
+    expect(events).toEqual([{ event: 'message', data: 'line 1\nline 2' }]);
+    expect(rest).toBe('');
+  });
+});
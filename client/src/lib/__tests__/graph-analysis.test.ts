@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  collapseClusters,
+  detectCommunities,
+  neighborhood,
+  searchNodes,
+  shortestPath,
+  type AnalysisEdge,
+  type AnalysisNode,
+} from '../graph-analysis';
+
+// Two triangles joined by light bridges, plus an isolated node
+const NODES: AnalysisNode[] = ['a1', 'a2', 'a3', 'b1', 'b2', 'b3', 'lonely'].map(id => ({ id, label: `Node ${id}` }));
+const EDGES: AnalysisEdge[] = [
+  { source: 'a1', target: 'a2', type: 'uses' },
+  { source: 'a2', target: 'a3', type: 'uses' },
+  { source: 'a3', target: 'a1', type: 'uses' },
+  { source: 'b1', target: 'b2', type: 'uses' },
+  { source: 'b2', target: 'b3', type: 'uses' },
+  { source: 'b3', target: 'b1', type: 'uses' },
+  { source: 'a1', target: 'b1', type: 'calls', weight: 0.25 },
+  { source: 'a2', target: 'b1', type: 'calls', weight: 0.5 },
+];
+
+describe('searchNodes', () => {
+  it('should rank exact, prefix, word and substring matches', () => {
+    const nodes: AnalysisNode[] = [
+      { id: 'x1', label: 'Session Cache' },
+      { id: 'x2', label: 'cache' },
+      { id: 'x3', label: 'Cache Invalidation' },
+      { id: 'x4', label: 'Memcached' },
+      { id: 'cache:5', label: 'Other' },
+      { id: 'x6', label: 'Router' },
+    ];
+
+    expect(searchNodes(nodes, ' Cache ').map(node => node.id)).toEqual(['x2', 'x3', 'x1', 'x4', 'cache:5']);
+    expect(searchNodes(nodes, 'cache', 2)).toHaveLength(2);
+    expect(searchNodes(nodes, '')).toEqual([]);
+  });
+});
+
+describe('shortestPath', () => {
+  it('should find the fewest hops in either direction', () => {
+    expect(shortestPath(EDGES, 'a3', 'b2')).toEqual(['a3', 'a1', 'b1', 'b2']);
+    expect(shortestPath(EDGES, 'b2', 'a3')).toEqual(['b2', 'b1', 'a1', 'a3']);
+    expect(shortestPath(EDGES, 'a1', 'a1')).toEqual(['a1']);
+    expect(shortestPath(EDGES, 'a1', 'lonely')).toBeNull();
+  });
+});
+
+describe('neighborhood', () => {
+  it('should return nodes within the given hops with their distance', () => {
+    expect(Object.fromEntries(neighborhood(EDGES, 'a3', 1))).toEqual({ a3: 0, a1: 1, a2: 1 });
+    expect(Array.from(neighborhood(EDGES, 'a3', 2).keys()).sort()).toEqual(['a1', 'a2', 'a3', 'b1']);
+  });
+});
+
+describe('detectCommunities', () => {
+  it('should separate densely connected groups', () => {
+    const communities = detectCommunities(NODES.map(node => node.id), EDGES);
+
+    expect(communities.get('a1')).toBe(communities.get('a2'));
+    expect(communities.get('a1')).toBe(communities.get('a3'));
+    expect(communities.get('b1')).toBe(communities.get('b2'));
+    expect(communities.get('b1')).not.toBe(communities.get('a1'));
+    // Numbered from the largest; isolated nodes come last on their own
+    expect(new Set(communities.values())).toEqual(new Set([0, 1, 2]));
+    expect(communities.get('lonely')).toBe(2);
+  });
+
+  it('should give every node its own community without edges', () => {
+    expect(Array.from(detectCommunities(['x', 'y'], []).values())).toEqual([0, 1]);
+  });
+});
+
+describe('collapseClusters', () => {
+  const communities = new Map([['a1', 0], ['a2', 0], ['a3', 0], ['b1', 1], ['b2', 1], ['b3', 1], ['lonely', 2]]);
+
+  it('should replace a collapsed community with a super-node and merge its edges', () => {
+    const { nodes, edges } = collapseClusters(NODES, EDGES, communities, new Set([0]));
+
+    expect(nodes.map(node => node.id)).toEqual(['cluster:0', 'b1', 'b2', 'b3', 'lonely']);
+    expect(nodes[0]).toMatchObject({ label: 'Cluster 1 (3)', type: 'cluster', metadata: { cluster: 0, members: ['a1', 'a2', 'a3'] } });
+    expect(edges).toHaveLength(4);
+    expect(edges).toContainEqual({ source: 'cluster:0', target: 'b1', weight: 0.75, type: 'calls' });
+  });
+
+  it('should merge edges between two collapsed communities and leave single nodes alone', () => {
+    const { nodes, edges } = collapseClusters(NODES, EDGES, communities, new Set([0, 1, 2]));
+
+    expect(nodes.map(node => node.id)).toEqual(['cluster:0', 'cluster:1', 'lonely']);
+    expect(edges).toEqual([{ source: 'cluster:0', target: 'cluster:1', weight: 0.75, type: 'calls' }]);
+    expect(collapseClusters(NODES, EDGES, communities, new Set())).toEqual({ nodes: NODES, edges: EDGES });
+  });
+});
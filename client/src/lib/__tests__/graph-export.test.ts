@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { toDot, toGraphML, toMermaid, toSvg, type ExportEdge, type ExportNode } from '../graph-export';
+
+const NODES: ExportNode[] = [
+  { id: 'api', label: 'API "Gateway"', type: 'service', color: '#3b82f6', metadata: { calls: 12, owner: 'platform', tags: ['edge'] } },
+  { id: 'db', label: 'Postgres <primary>', type: 'store', size: 40, color: '#10b981', metadata: { calls: 'n/a' } },
+  { id: 'cache', label: 'Cache', color: '#3b82f6' },
+];
+const EDGES: ExportEdge[] = [
+  { source: 'api', target: 'db', weight: 2, type: 'dependency', label: 'reads | writes' },
+  { source: 'api', target: 'cache', weight: 0.5, bidirectional: true },
+];
+const POSITIONS = { api: { x: 10, y: 20 }, db: { x: 110.456, y: 80 }, cache: { x: 60, y: 140 } };
+
+describe('toGraphML', () => {
+  it('should write nodes with positions and typed metadata keys', () => {
+    const xml = toGraphML(NODES, EDGES, POSITIONS);
+
+    expect(xml).toContain('<graph id="G" edgedefault="directed">');
+    expect(xml).toContain('<data key="label">API &quot;Gateway&quot;</data>');
+    expect(xml).toContain('<data key="label">Postgres &lt;primary&gt;</data>');
+    expect(xml).toContain('<data key="x">110.46</data>');
+    // Mixed types fall back to string; objects are JSON
+    expect(xml).toContain('<key id="m0" for="node" attr.name="calls" attr.type="string"/>');
+    expect(xml).toContain('<key id="m1" for="node" attr.name="owner" attr.type="string"/>');
+    expect(xml).toContain('<data key="m2">[&quot;edge&quot;]</data>');
+    expect(xml).toContain('<edge id="e1" source="api" target="cache">');
+    expect(xml).toContain('<data key="e_bidirectional">true</data>');
+    expect(xml.match(/<node /g)).toHaveLength(3);
+  });
+});
+
+describe('toDot', () => {
+  it('should pin positions with y flipped and keep edge attributes', () => {
+    const dot = toDot(NODES, EDGES, POSITIONS, 'deps');
+
+    expect(dot.startsWith('digraph "deps" {')).toBe(true);
+    expect(dot).toContain('"api" [label="API \\"Gateway\\"", fillcolor="#3b82f6", width=0.83, pos="10,120!", type="service"');
+    expect(dot).toContain('"db" [label="Postgres <primary>", fillcolor="#10b981", width=1.11, pos="110.46,60!"');
+    expect(dot).toContain('"api" -> "db" [label="reads | writes", color="#94a3b8", penwidth=3, weight=2, type="dependency"];');
+    // Fractional weights are not valid Graphviz weights
+    expect(dot).toContain('"api" -> "cache" [color="#94a3b8", penwidth=1.5, dir="both"];');
+  });
+});
+
+describe('toMermaid', () => {
+  it('should use safe ids, escaped labels and a class per colour', () => {
+    const mermaid = toMermaid(NODES, EDGES);
+
+    expect(mermaid.split('\n')).toEqual([
+      'flowchart LR',
+      '  %% n0: api',
+      '  n0("API #quot;Gateway#quot;")',
+      '  %% n1: db',
+      '  n1("Postgres #lt;primary#gt;")',
+      '  %% n2: cache',
+      '  n2("Cache")',
+      '  n0 -->|reads #124; writes| n1',
+      '  n0 <--> n2',
+      '  classDef c0 fill:#3b82f6,stroke:#ffffff,color:#ffffff;',
+      '  class n0,n2 c0;',
+      '  classDef c1 fill:#10b981,stroke:#ffffff,color:#ffffff;',
+      '  class n1 c1;',
+      '',
+    ]);
+  });
+});
+
+describe('toSvg', () => {
+  it('should render the current view as a standalone document', () => {
+    const svg = toSvg({ nodes: NODES, edges: EDGES, positions: POSITIONS, width: 400, height: 300, transform: { k: 2, x: -5, y: 10 } });
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+
+    expect(doc.querySelector('parsererror')).toBeNull();
+    expect(doc.documentElement.getAttribute('viewBox')).toBe('0 0 400 300');
+    expect(doc.querySelector('g')!.getAttribute('transform')).toBe('translate(-5 10) scale(2)');
+    expect(doc.querySelectorAll('circle')).toHaveLength(3);
+    expect(doc.querySelectorAll('line')).toHaveLength(2);
+    expect(doc.querySelectorAll('line')[1].getAttribute('marker-start')).toBe('url(#arrow-0)');
+    expect(Array.from(doc.querySelectorAll('text'), text => text.textContent)).toContain('Cache');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { circularLayout, fitTransform, forceLayout, NodeIndex, type LayoutEdge, type LayoutNode, type Positions } from '../graph-layout';
+
+const distance = (positions: Positions, a: string, b: string) =>
+  Math.hypot(positions[a].x - positions[b].x, positions[a].y - positions[b].y);
+
+// Two triangles joined by one light edge
+const NODES: LayoutNode[] = ['a1', 'a2', 'a3', 'b1', 'b2', 'b3'].map(id => ({ id, size: 20 }));
+const EDGES: LayoutEdge[] = [
+  { source: 'a1', target: 'a2', weight: 5 },
+  { source: 'a2', target: 'a3', weight: 5 },
+  { source: 'a3', target: 'a1', weight: 5 },
+  { source: 'b1', target: 'b2', weight: 5 },
+  { source: 'b2', target: 'b3', weight: 5 },
+  { source: 'b3', target: 'b1', weight: 5 },
+  { source: 'a1', target: 'b1', weight: 1 },
+];
+
+describe('forceLayout', () => {
+  it('should keep linked nodes close, separate clusters and avoid overlaps', () => {
+    const positions = forceLayout(NODES, EDGES, { width: 800, height: 600 });
+
+    expect(distance(positions, 'a1', 'a2')).toBeLessThan(distance(positions, 'a2', 'b2'));
+    expect(distance(positions, 'b2', 'b3')).toBeLessThan(distance(positions, 'a3', 'b3'));
+    // Heavier links are shorter
+    expect(distance(positions, 'a1', 'a2')).toBeLessThan(distance(positions, 'a1', 'b1'));
+
+    for (const a of NODES) {
+      for (const b of NODES) {
+        if (a.id < b.id) expect(distance(positions, a.id, b.id)).toBeGreaterThanOrEqual(40);
+      }
+    }
+    // Centred in the viewport
+    const cx = NODES.reduce((sum, node) => sum + positions[node.id].x, 0) / NODES.length;
+    expect(Math.abs(cx - 400)).toBeLessThan(50);
+  });
+
+  it('should be deterministic and keep pinned nodes in place', () => {
+    const first = forceLayout(NODES, EDGES, { width: 800, height: 600 });
+    expect(forceLayout(NODES, EDGES, { width: 800, height: 600 })).toEqual(first);
+
+    const pinned = forceLayout(NODES, EDGES, { width: 800, height: 600, initial: first, pinned: { a1: { x: 50, y: 50 } }, alpha: 0.3 });
+    expect(pinned.a1).toEqual({ x: 50, y: 50 });
+    // Its neighbours follow it
+    expect(distance(pinned, 'a1', 'a2')).toBeLessThan(150);
+  });
+
+  it('should lay out large graphs', () => {
+    const nodes: LayoutNode[] = Array.from({ length: 2000 }, (_, i) => ({ id: `n${i}`, size: 8 }));
+    const edges: LayoutEdge[] = nodes.slice(1).map((node, i) => ({ source: `n${Math.floor(i / 3)}`, target: node.id }));
+
+    const positions = forceLayout(nodes, edges, { width: 1200, height: 800 });
+
+    expect(Object.keys(positions)).toHaveLength(2000);
+    expect(Object.values(positions).every(pos => Number.isFinite(pos.x) && Number.isFinite(pos.y))).toBe(true);
+  });
+});
+
+describe('circularLayout', () => {
+  it('should place neighbours next to each other on a circle', () => {
+    const positions = circularLayout(NODES, EDGES, 800, 600);
+    const radii = NODES.map(node => Math.hypot(positions[node.id].x - 400, positions[node.id].y - 300));
+
+    for (const radius of radii) expect(radius).toBeCloseTo(radii[0]);
+    // Depth-first from the best connected node keeps each triangle together
+    const order = NODES.map(node => node.id).sort((a, b) => angle(positions[a]) - angle(positions[b]));
+    const clusterRuns = order.filter((id, i) => id[0] !== order[(i + 1) % order.length][0]).length;
+    expect(clusterRuns).toBe(2);
+  });
+
+  it('should grow the circle until the nodes fit', () => {
+    const nodes = Array.from({ length: 100 }, (_, i) => ({ id: `n${i}`, size: 30 }));
+    const positions = circularLayout(nodes, [], 400, 400);
+
+    expect(distance(positions, 'n0', 'n1')).toBeGreaterThanOrEqual(60);
+    expect(fitTransform(nodes, positions, 400, 400).k).toBeLessThan(1);
+  });
+});
+
+describe('fitTransform', () => {
+  it('should leave layouts that fit alone and scale down larger ones', () => {
+    const nodes = [{ id: 'a', size: 10 }, { id: 'b', size: 10 }];
+
+    expect(fitTransform(nodes, { a: { x: 50, y: 50 }, b: { x: 150, y: 50 } }, 200, 100)).toEqual({ k: 1, x: 0, y: 0 });
+
+    const fit = fitTransform(nodes, { a: { x: 0, y: 50 }, b: { x: 390, y: 50 } }, 200, 100);
+    expect(fit.k).toBeCloseTo(168 / 410);
+    // Centred horizontally
+    expect(fit.x + 195 * fit.k).toBeCloseTo(100);
+  });
+});
+
+describe('NodeIndex', () => {
+  it('should find the topmost node under a point', () => {
+    const index = new NodeIndex(
+      [{ id: 'under', size: 20 }, { id: 'over', size: 20 }, { id: 'far', size: 5 }],
+      { under: { x: 100, y: 100 }, over: { x: 110, y: 100 }, far: { x: 500, y: 500 } }
+    );
+
+    expect(index.find(105, 100)).toBe('over');
+    expect(index.find(85, 100)).toBe('under');
+    expect(index.find(502, 498)).toBe('far');
+    expect(index.find(300, 300)).toBeNull();
+  });
+});
+
+function angle(pos: { x: number; y: number }) {
+  return (Math.atan2(pos.y - 300, pos.x - 400) + 2.5 * Math.PI) % (2 * Math.PI);
+}
@@ -0,0 +1,108 @@
+/**
+ * Client for the streaming chat endpoint (POST /api/chat/send with SSE).
+ * EventSource only supports GET, so the response body is read and parsed here.
+ */
+
+export interface ChatMessageDto {
+  id: string;
+  conversationId: string;
+  role: "user" | "assistant";
+  content: string;
+  status: "streaming" | "complete" | "cancelled" | "error";
+  createdAt: string;
+}
+
+export interface ChatConversationDto {
+  id: string;
+  userId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount?: number;
+  lastMessagePreview?: string | null;
+}
+
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+export interface ChatStreamHandlers {
+  onStart?: (data: { conversation: ChatConversationDto; userMessage: ChatMessageDto; assistantMessage: ChatMessageDto }) => void;
+  onToken?: (token: string) => void;
+  onDone?: (assistantMessage: ChatMessageDto) => void;
+}
+
+/**
+ * Split buffered SSE text into complete events; the incomplete tail is returned as `rest`
+ */
+export function parseSseEvents(buffer: string): { events: SseEvent[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, "\n").split("\n\n");
+  const rest = blocks.pop() ?? "";
+  const events: SseEvent[] = [];
+
+  for (const block of blocks) {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+    }
+    if (data.length > 0) events.push({ event, data: data.join("\n") });
+  }
+
+  return { events, rest };
+}
+
+/**
+ * Send a chat message and stream the assistant reply. Resolves with the final
+ * assistant message; rejects on HTTP or stream errors (and on abort).
+ */
+export async function streamChatMessage(
+  body: { message: string; conversationId?: string },
+  handlers: ChatStreamHandlers,
+  signal?: AbortSignal,
+): Promise<ChatMessageDto> {
+  const res = await fetch("/api/chat/send", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify({ ...body, stream: true }),
+    credentials: "include",
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let finalMessage: ChatMessageDto | null = null;
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    const parsed = parseSseEvents(buffer + decoder.decode(value, { stream: true }));
+    buffer = parsed.rest;
+
+    for (const { event, data } of parsed.events) {
+      const payload = JSON.parse(data);
+      if (event === "start") handlers.onStart?.(payload);
+      else if (event === "token") handlers.onToken?.(payload.token);
+      else if (event === "done") {
+        finalMessage = payload.assistantMessage;
+        handlers.onDone?.(payload.assistantMessage);
+      } else if (event === "error") {
+        throw new Error(payload.message || payload.error);
+      }
+    }
+  }
+
+  if (!finalMessage) {
+    throw new Error("Chat stream ended before the reply completed");
+  }
+  return finalMessage;
+}
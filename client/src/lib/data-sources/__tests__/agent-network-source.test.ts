@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { agentNetworkSource } from '../agent-network-source';
-import type { Agent, RoutingDecision } from '../agent-network-source';
+import type { Agent, RoutingDecision, DependencyGraph } from '../agent-network-source';
 import { createMockResponse, setupFetchMock, resetFetchMock } from '../../../tests/utils/mock-fetch';
 
 describe('AgentNetworkSource', () => {
@@ -318,6 +318,42 @@ describe('AgentNetworkSource', () => {
     });
   });
 
+  describe('fetchDependencyGraph', () => {
+    it('should return the dependency graph from API with isMock: false', async () => {
+      const graph: DependencyGraph = {
+        nodes: [],
+        edges: [{ source: 'agent-a', target: 'agent-b', missing: true, inCycle: false }],
+        cycles: [],
+        missing: [{ agent: 'agent-a', dependency: 'agent-b' }],
+        stats: { agents: 0, dependencies: 1, cycles: 0, missing: 1, maxDepth: 0 },
+      };
+
+      setupFetchMock(
+        new Map([
+          ['/api/agents/dependency-graph', createMockResponse(graph)],
+        ])
+      );
+
+      const result = await agentNetworkSource.fetchDependencyGraph();
+
+      expect(result.isMock).toBe(false);
+      expect(result.data.missing).toEqual([{ agent: 'agent-a', dependency: 'agent-b' }]);
+    });
+
+    it('should return mock graph when API fails', async () => {
+      setupFetchMock(
+        new Map([
+          ['/api/agents/dependency-graph', createMockResponse(null, { status: 500 })],
+        ])
+      );
+
+      const result = await agentNetworkSource.fetchDependencyGraph();
+
+      expect(result.isMock).toBe(true);
+      expect(result.data.nodes.length).toBeGreaterThan(0);
+    });
+  });
+
   describe('fetchAll', () => {
     it('should combine agents and routing decisions with both from API', async () => {
       const mockAgents: Agent[] = [
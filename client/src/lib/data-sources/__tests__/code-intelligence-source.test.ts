@@ -90,10 +90,7 @@ describe('CodeIntelligenceDataSource', () => {
       expect(result.data.files_analyzed).toBe(1250);
     });
 
-    it('should use custom OmniArchon URL from environment', async () => {
-      const originalEnv = import.meta.env.VITE_INTELLIGENCE_SERVICE_URL;
-      import.meta.env.VITE_INTELLIGENCE_SERVICE_URL = 'http://custom-host:9000';
-
+    it('should fetch OmniArchon analysis through the server gateway', async () => {
       const mockAnalysis: CodeAnalysisData = {
         files_analyzed: 3000,
         avg_complexity: 5.5,
@@ -103,7 +100,7 @@ describe('CodeIntelligenceDataSource', () => {
 
       setupFetchMock(
         new Map([
-          ['custom-host:9000/api/intelligence/code/analysis', createMockResponse(mockAnalysis)],
+          ['/api/upstream/api/intelligence/code/analysis', createMockResponse(mockAnalysis)],
         ])
       );
 
@@ -111,9 +108,7 @@ describe('CodeIntelligenceDataSource', () => {
 
       expect(result.isMock).toBe(false);
       expect(result.data.files_analyzed).toBe(3000);
-
-      // Restore original env
-      import.meta.env.VITE_INTELLIGENCE_SERVICE_URL = originalEnv;
+      expect(vi.mocked(global.fetch).mock.calls[0][0]).toMatch(/^\/api\/upstream\//);
     });
   });
 
@@ -135,7 +135,50 @@ describe('EventFlowSource', () => {
       expect(result.metrics.eventsPerMinute).toBe(0);
     });
   });
-});
 
+  describe('fromWebSocketMessage', () => {
+    it('should convert transformation and performance broadcasts into events', () => {
+      const [transformation] = eventFlowSource.fromWebSocketMessage({
+        type: 'TRANSFORMATION_EVENT',
+        data: { id: 't-1', sourceAgent: 'router', targetAgent: 'debugger', createdAt: '2024-01-01T00:00:00Z' },
+      });
+      const [metric] = eventFlowSource.fromWebSocketMessage({
+        type: 'PERFORMANCE_METRIC',
+        data: {
+          metric: { id: 'p-1', routingDurationMs: 45, createdAt: '2024-01-01T00:01:00Z' },
+          stats: { totalQueries: 1 },
+        },
+      });
+
+      expect(transformation).toMatchObject({
+        id: 'transformation:t-1',
+        type: 'transformation',
+        source: 'agent-transformation-events',
+        timestamp: '2024-01-01T00:00:00.000Z',
+      });
+      expect(metric).toMatchObject({
+        id: 'performance-metric:p-1',
+        type: 'performance-metric',
+        data: { routingDurationMs: 45 },
+      });
+    });
 
+    it('should expand state snapshots into individual events', () => {
+      const events = eventFlowSource.fromWebSocketMessage({
+        type: 'INITIAL_STATE',
+        data: {
+          recentActions: [{ id: 'a-1', createdAt: '2024-01-01T00:00:00Z' }],
+          routingDecisions: [{ id: 'r-1', createdAt: '2024-01-01T00:00:00Z' }],
+          recentTransformations: [{ id: 't-1', createdAt: '2024-01-01T00:00:00Z' }],
+        },
+      });
 
+      expect(events.map(e => e.type)).toEqual(['agent-action', 'routing-decision', 'transformation']);
+    });
+
+    it('should ignore unrelated message types', () => {
+      expect(eventFlowSource.fromWebSocketMessage({ type: 'PONG' })).toEqual([]);
+      expect(eventFlowSource.fromWebSocketMessage({ type: 'CONSUMER_STATUS', data: { status: 'connected' } })).toEqual([]);
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { intelligenceSavingsSource, formatTimeSaved } from '../intelligence-savings-source';
-import type { SavingsMetrics, AgentComparison, TimeSeriesData, ProviderSavings } from '../intelligence-savings-source';
+import type { SavingsMetrics, AgentComparison, TimeSeriesData, ProviderSavings, CostBreakdown } from '../intelligence-savings-source';
 import { createMockResponse, setupFetchMock, resetFetchMock } from '../../../tests/utils/mock-fetch';
 
 describe('IntelligenceSavingsSource', () => {
@@ -445,6 +445,46 @@ describe('IntelligenceSavingsSource', () => {
     });
   });
 
+  describe('fetchBreakdown', () => {
+    it('should return the measured breakdown from API', async () => {
+      const component = { withIntelligence: 2000, withoutIntelligence: 3000, saved: 1000, reduction: 33.33 };
+      const breakdown: CostBreakdown = {
+        dataAvailable: true,
+        runs: { withIntelligence: 2, baseline: 2 },
+        sources: { 'agent-run-metrics': 4 },
+        lastRunAt: '2025-11-05T00:00:00.000Z',
+        tokens: component,
+        compute: component,
+        cost: component,
+        time: component,
+      };
+
+      setupFetchMock(
+        new Map([
+          ['/api/savings/breakdown', createMockResponse(breakdown)],
+        ])
+      );
+
+      const result = await intelligenceSavingsSource.fetchBreakdown('7d');
+
+      expect(result).toEqual({ data: breakdown, isMock: false });
+    });
+
+    it('should report no data instead of inventing numbers when API fails', async () => {
+      setupFetchMock(
+        new Map([
+          ['/api/savings/breakdown', createMockResponse(null, { status: 500 })],
+        ])
+      );
+
+      const result = await intelligenceSavingsSource.fetchBreakdown('7d');
+
+      expect(result.isMock).toBe(true);
+      expect(result.data).toMatchObject({ dataAvailable: false, runs: { withIntelligence: 0, baseline: 0 }, lastRunAt: null });
+      expect(result.data.cost.saved).toBe(0);
+    });
+  });
+
   describe('formatTimeSaved', () => {
     it('should format time less than 0.1 hours as minutes', () => {
       // 300 seconds = 5 minutes = 0.083 hours (< 0.1)
@@ -15,6 +15,53 @@ export interface RoutingDecision {
   reason?: string;
 }
 
+export interface DependencyNode {
+  id: string;
+  title: string;
+  category: string;
+  status: 'active' | 'inactive' | 'deprecated' | 'beta';
+  version: string;
+  dependencies: string[];
+  dependents: string[];
+  transitiveDependents: string[];
+  depth: number;
+  inCycle: boolean;
+}
+
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  edges: Array<{ source: string; target: string; missing: boolean; inCycle: boolean }>;
+  cycles: string[][];
+  missing: Array<{ agent: string; dependency: string }>;
+  stats: { agents: number; dependencies: number; cycles: number; missing: number; maxDepth: number };
+}
+
+const MOCK_DEPENDENCY_GRAPH: DependencyGraph = {
+  nodes: [
+    {
+      id: 'agent-polymorphic-agent', title: 'Polymorphic Coordinator', category: 'coordination', status: 'active', version: '3.0.0',
+      dependencies: ['agent-api-architect', 'agent-testing'], dependents: [], transitiveDependents: [], depth: 2, inCycle: false,
+    },
+    {
+      id: 'agent-api-architect', title: 'API Architect', category: 'architecture', status: 'active', version: '1.2.0',
+      dependencies: ['agent-testing'], dependents: ['agent-polymorphic-agent'], transitiveDependents: ['agent-polymorphic-agent'], depth: 1, inCycle: false,
+    },
+    {
+      id: 'agent-testing', title: 'Test Engineer', category: 'quality', status: 'active', version: '1.4.0',
+      dependencies: [], dependents: ['agent-api-architect', 'agent-polymorphic-agent'],
+      transitiveDependents: ['agent-api-architect', 'agent-polymorphic-agent'], depth: 0, inCycle: false,
+    },
+  ],
+  edges: [
+    { source: 'agent-polymorphic-agent', target: 'agent-api-architect', missing: false, inCycle: false },
+    { source: 'agent-polymorphic-agent', target: 'agent-testing', missing: false, inCycle: false },
+    { source: 'agent-api-architect', target: 'agent-testing', missing: false, inCycle: false },
+  ],
+  cycles: [],
+  missing: [],
+  stats: { agents: 3, dependencies: 3, cycles: 0, missing: 0, maxDepth: 2 },
+};
+
 interface AgentNetworkData {
   agents: Agent[];
   routingDecisions: RoutingDecision[];
@@ -88,6 +135,29 @@ class AgentNetworkSource {
     };
   }
 
+  async fetchDependencyGraph(): Promise<{ data: DependencyGraph; isMock: boolean }> {
+    // In test environment, skip USE_MOCK_DATA check to allow test mocks to work
+    const isTestEnv = import.meta.env.VITEST === 'true' || import.meta.env.VITEST === true;
+
+    if (USE_MOCK_DATA && !isTestEnv) {
+      return { data: MOCK_DEPENDENCY_GRAPH, isMock: true };
+    }
+
+    try {
+      const response = await fetch('/api/agents/dependency-graph');
+      if (response.ok) {
+        const data = await response.json();
+        if (Array.isArray(data?.nodes) && Array.isArray(data?.edges)) {
+          return { data, isMock: false };
+        }
+      }
+    } catch (err) {
+      console.warn('Failed to fetch dependency graph, using mock data', err);
+    }
+
+    return { data: MOCK_DEPENDENCY_GRAPH, isMock: true };
+  }
+
   async fetchAll(): Promise<AgentNetworkData> {
     const [agents, routing] = await Promise.all([
       this.fetchAgents(),
@@ -1,5 +1,6 @@
 // Agent Operations Data Source
 import { USE_MOCK_DATA, AgentOperationsMockData } from '../mock-data';
+import { timeRangeQuery, type TimeRangeSelection } from '@shared/time-range';
 
 export interface AgentSummary {
   totalAgents: number;
@@ -57,7 +58,7 @@ interface AgentOperationsData {
 }
 
 class AgentOperationsSource {
-  async fetchSummary(timeRange: string): Promise<{ data: AgentSummary; isMock: boolean }> {
+  async fetchSummary(timeRange: TimeRangeSelection): Promise<{ data: AgentSummary; isMock: boolean }> {
     // In test environment, skip USE_MOCK_DATA check to allow test mocks to work
     const isTestEnv = import.meta.env.VITEST === 'true' || import.meta.env.VITEST === true;
 
@@ -70,7 +71,7 @@ class AgentOperationsSource {
     }
 
     try {
-      const res = await fetch(`/api/intelligence/agents/summary?timeWindow=${timeRange}`);
+      const res = await fetch(`/api/intelligence/agents/summary?${timeRangeQuery(timeRange)}`);
       if (res.ok) {
         const agents = await res.json();
         if (Array.isArray(agents) && agents.length > 0) {
@@ -121,7 +122,7 @@ class AgentOperationsSource {
     return { data: AgentOperationsMockData.generateSummary(), isMock: true };
   }
 
-  async fetchPerAgentMetrics(timeRange: string): Promise<{ data: any[]; isMock: boolean }> {
+  async fetchPerAgentMetrics(timeRange: TimeRangeSelection): Promise<{ data: any[]; isMock: boolean }> {
     // In test environment, skip USE_MOCK_DATA check to allow test mocks to work
     const isTestEnv = import.meta.env.VITEST === 'true' || import.meta.env.VITEST === true;
 
@@ -131,7 +132,7 @@ class AgentOperationsSource {
     }
 
     try {
-      const res = await fetch(`/api/intelligence/agents/summary?timeWindow=${timeRange}`);
+      const res = await fetch(`/api/intelligence/agents/summary?${timeRangeQuery(timeRange)}`);
       if (res.ok) {
         const agents = await res.json();
         if (Array.isArray(agents) && agents.length > 0) {
@@ -145,7 +146,7 @@ class AgentOperationsSource {
     return { data: AgentOperationsMockData.generatePerAgentMetrics(), isMock: true };
   }
 
-  async fetchRecentActions(timeRange: string, limit: number = 100): Promise<{ data: RecentAction[]; isMock: boolean }> {
+  async fetchRecentActions(timeRange: TimeRangeSelection, limit: number = 100): Promise<{ data: RecentAction[]; isMock: boolean }> {
     // In test environment, skip USE_MOCK_DATA check to allow test mocks to work
     const isTestEnv = import.meta.env.VITEST === 'true' || import.meta.env.VITEST === true;
 
@@ -155,7 +156,7 @@ class AgentOperationsSource {
     }
 
     try {
-      const res = await fetch(`/api/intelligence/actions/recent?limit=${limit}&timeWindow=${timeRange}`);
+      const res = await fetch(`/api/intelligence/actions/recent?limit=${limit}&${timeRangeQuery(timeRange)}`);
       if (res.ok) {
         const data = await res.json();
         return { data: Array.isArray(data) ? data : [], isMock: false };
@@ -189,7 +190,7 @@ class AgentOperationsSource {
     return { data: AgentOperationsMockData.generateHealth(), isMock: true };
   }
 
-  async fetchOperationsData(timeRange: string): Promise<{ data: any[]; isMock: boolean }> {
+  async fetchOperationsData(timeRange: TimeRangeSelection): Promise<{ data: any[]; isMock: boolean }> {
     // In test environment, skip USE_MOCK_DATA check to allow test mocks to work
     const isTestEnv = import.meta.env.VITEST === 'true' || import.meta.env.VITEST === true;
 
@@ -208,7 +209,7 @@ class AgentOperationsSource {
     }
 
     try {
-      const res = await fetch(`/api/intelligence/metrics/operations-per-minute?timeWindow=${timeRange}`);
+      const res = await fetch(`/api/intelligence/metrics/operations-per-minute?${timeRangeQuery(timeRange)}`);
       if (res.ok) {
         const data = await res.json();
         return { data: Array.isArray(data) ? data : [], isMock: false };
@@ -219,7 +220,7 @@ class AgentOperationsSource {
     return { data: [], isMock: true };
   }
 
-  async fetchQualityImpactData(timeRange: string): Promise<{ data: any[]; isMock: boolean }> {
+  async fetchQualityImpactData(timeRange: TimeRangeSelection): Promise<{ data: any[]; isMock: boolean }> {
     // In test environment, skip USE_MOCK_DATA check to allow test mocks to work
     const isTestEnv = import.meta.env.VITEST === 'true' || import.meta.env.VITEST === true;
 
@@ -236,7 +237,7 @@ class AgentOperationsSource {
     }
 
     try {
-      const res = await fetch(`/api/intelligence/metrics/quality-impact?timeWindow=${timeRange}`);
+      const res = await fetch(`/api/intelligence/metrics/quality-impact?${timeRangeQuery(timeRange)}`);
       if (res.ok) {
         const data = await res.json();
         return { data: Array.isArray(data) ? data : [], isMock: false };
@@ -295,7 +296,7 @@ class AgentOperationsSource {
     }));
   }
 
-  async fetchAll(timeRange: string): Promise<AgentOperationsData> {
+  async fetchAll(timeRange: TimeRangeSelection): Promise<AgentOperationsData> {
     const [summary, recentActions, perAgentMetrics, health, operationsData, qualityData] = await Promise.all([
       this.fetchSummary(timeRange),
       this.fetchRecentActions(timeRange, 100),
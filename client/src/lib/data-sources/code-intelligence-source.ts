@@ -1,4 +1,5 @@
 import { USE_MOCK_DATA } from '../mock-data/config';
+import { timeRangeQuery, type TimeRangeSelection } from '@shared/time-range';
 
 export interface CodeAnalysisData {
   files_analyzed: number;
@@ -49,7 +50,7 @@ export interface CodeIntelligenceData {
 }
 
 class CodeIntelligenceDataSource {
-  async fetchCodeAnalysis(timeRange: string): Promise<{ data: CodeAnalysisData; isMock: boolean }> {
+  async fetchCodeAnalysis(timeRange: TimeRangeSelection): Promise<{ data: CodeAnalysisData; isMock: boolean }> {
     // In test environment, skip USE_MOCK_DATA check to allow test mocks to work
     const isTestEnv = import.meta.env.VITEST === 'true' || import.meta.env.VITEST === true;
 
@@ -69,8 +70,7 @@ class CodeIntelligenceDataSource {
     }
 
     try {
-      const omniarchonUrl = import.meta.env.VITE_INTELLIGENCE_SERVICE_URL || "http://localhost:8053";
-      const response = await fetch(`${omniarchonUrl}/api/intelligence/code/analysis?timeWindow=${timeRange}`);
+      const response = await fetch(`/api/upstream/api/intelligence/code/analysis?${timeRangeQuery(timeRange)}`);
       if (response.ok) {
         const data = await response.json();
         if (data.files_analyzed > 0) {
@@ -95,7 +95,7 @@ class CodeIntelligenceDataSource {
     };
   }
 
-  async fetchCompliance(timeRange: string): Promise<{ data: ComplianceData; isMock: boolean }> {
+  async fetchCompliance(timeRange: TimeRangeSelection): Promise<{ data: ComplianceData; isMock: boolean }> {
     // In test environment, skip USE_MOCK_DATA check to allow test mocks to work
     const isTestEnv = import.meta.env.VITEST === 'true' || import.meta.env.VITEST === true;
 
@@ -124,7 +124,7 @@ class CodeIntelligenceDataSource {
     }
 
     try {
-      const response = await fetch(`/api/intelligence/code/compliance?timeWindow=${timeRange}`);
+      const response = await fetch(`/api/intelligence/code/compliance?${timeRangeQuery(timeRange)}`);
       if (response.ok) {
         const data = await response.json();
         if (data.summary && data.summary.totalFiles > 0) {
@@ -218,7 +218,7 @@ class CodeIntelligenceDataSource {
     };
   }
 
-  async fetchAll(timeRange: string): Promise<CodeIntelligenceData> {
+  async fetchAll(timeRange: TimeRangeSelection): Promise<CodeIntelligenceData> {
     const [codeAnalysis, compliance] = await Promise.all([
       this.fetchCodeAnalysis(timeRange),
       this.fetchCompliance(timeRange),
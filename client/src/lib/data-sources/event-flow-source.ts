@@ -29,7 +29,50 @@ interface EventFlowData {
   isMock: boolean;
 }
 
+interface LiveMessage {
+  type: string;
+  data?: any;
+}
+
 class EventFlowSource {
+  /**
+   * Convert a /ws broadcast into event stream items.
+   * INITIAL_STATE/CURRENT_STATE snapshots expand into one event per record;
+   * message types that are not part of the event flow yield an empty array.
+   */
+  fromWebSocketMessage(message: LiveMessage): Event[] {
+    const data = message.data;
+    if (!data) return [];
+
+    const toEvent = (type: string, source: string, record: any, timestamp = record?.createdAt): Event => ({
+      id: `${type}:${record?.id}`,
+      timestamp: timestamp ? new Date(timestamp).toISOString() : new Date().toISOString(),
+      type,
+      source,
+      data: record,
+    });
+
+    switch (message.type) {
+      case 'AGENT_ACTION':
+        return [toEvent('agent-action', 'agent-actions', data)];
+      case 'ROUTING_DECISION':
+        return [toEvent('routing-decision', 'agent-routing-decisions', data)];
+      case 'TRANSFORMATION_EVENT':
+        return [toEvent('transformation', 'agent-transformation-events', data)];
+      case 'PERFORMANCE_METRIC':
+        return data.metric ? [toEvent('performance-metric', 'router-performance-metrics', data.metric)] : [];
+      case 'INITIAL_STATE':
+      case 'CURRENT_STATE':
+        return [
+          ...(data.recentActions || []).map((a: any) => toEvent('agent-action', 'agent-actions', a)),
+          ...(data.routingDecisions || []).map((d: any) => toEvent('routing-decision', 'agent-routing-decisions', d)),
+          ...(data.recentTransformations || []).map((t: any) => toEvent('transformation', 'agent-transformation-events', t)),
+        ];
+      default:
+        return [];
+    }
+  }
+
   calculateMetrics(events: Event[]): EventMetrics {
     const typeCount = new Map<string, number>();
     let totalProcessingTime = 0;
@@ -5,7 +5,7 @@ export { intelligenceAnalyticsSource, type IntelligenceMetrics, type RecentActiv
 export { intelligenceSavingsSource, type SavingsMetrics as SavingsMetricsType, type AgentComparison, type TimeSeriesData } from './intelligence-savings-source';
 export { platformMonitoringSource, type SystemStatus, type DeveloperMetrics, type Incident } from './platform-monitoring-source';
 export { developerToolsSource, type DeveloperActivity, type ToolUsage, type QueryHistory } from './developer-tools-source';
-export { agentNetworkSource, type Agent, type RoutingDecision } from './agent-network-source';
+export { agentNetworkSource, type Agent, type RoutingDecision, type DependencyGraph, type DependencyNode } from './agent-network-source';
 export { patternLearningSource, type DiscoveredPattern, type PatternSummary as PatternLearningSummary, type PatternTrend, type QualityTrend, type Pattern, type LanguageBreakdown } from './pattern-learning-source';
 export { agentRegistrySource, type AgentDefinition } from './agent-registry-source';
 export { agentOperationsSource, type AgentSummary, type RecentAction, type HealthStatus } from './agent-operations-source';
@@ -1,5 +1,6 @@
 import { MockDataGenerator as Gen, USE_MOCK_DATA } from '../mock-data/config';
 import type { SavingsMetrics } from './intelligence-savings-source';
+import { timeRangeQuery, type TimeRangeSelection } from '@shared/time-range';
 
 // Re-export for external consumers
 export type { SavingsMetrics };
@@ -24,7 +25,7 @@ export interface RecentActivity {
 }
 
 class IntelligenceAnalyticsDataSource {
-  async fetchMetrics(timeRange: string): Promise<{ data: IntelligenceMetrics; isMock: boolean }> {
+  async fetchMetrics(timeRange: TimeRangeSelection): Promise<{ data: IntelligenceMetrics; isMock: boolean }> {
     // In test environment, skip USE_MOCK_DATA check to allow test mocks to work
     const isTestEnv = import.meta.env.VITEST === 'true' || import.meta.env.VITEST === true;
 
@@ -47,7 +48,7 @@ class IntelligenceAnalyticsDataSource {
 
     // Try intelligence summary endpoint
     try {
-      const response = await fetch(`/api/intelligence/agents/summary?timeWindow=${timeRange}`);
+      const response = await fetch(`/api/intelligence/agents/summary?${timeRangeQuery(timeRange)}`);
       if (response.ok) {
         const agents = await response.json();
         if (Array.isArray(agents) && agents.length > 0) {
@@ -184,7 +185,7 @@ class IntelligenceAnalyticsDataSource {
     };
   }
 
-  async fetchAgentPerformance(timeRange: string): Promise<{ data: AgentPerformance[]; isMock: boolean }> {
+  async fetchAgentPerformance(timeRange: TimeRangeSelection): Promise<{ data: AgentPerformance[]; isMock: boolean }> {
     // In test environment, skip USE_MOCK_DATA check to allow test mocks to work
     const isTestEnv = import.meta.env.VITEST === 'true' || import.meta.env.VITEST === true;
 
@@ -240,7 +241,7 @@ class IntelligenceAnalyticsDataSource {
     }
 
     try {
-      const response = await fetch(`/api/intelligence/agents/summary?timeWindow=${timeRange}`);
+      const response = await fetch(`/api/intelligence/agents/summary?${timeRangeQuery(timeRange)}`);
       if (response.ok) {
         const agents = await response.json();
         if (Array.isArray(agents) && agents.length > 0) {
@@ -327,7 +328,7 @@ class IntelligenceAnalyticsDataSource {
     };
   }
 
-  async fetchSavingsMetrics(timeRange: string): Promise<{ data: SavingsMetrics; isMock: boolean }> {
+  async fetchSavingsMetrics(timeRange: TimeRangeSelection): Promise<{ data: SavingsMetrics; isMock: boolean }> {
     // In test environment, skip USE_MOCK_DATA check to allow test mocks to work
     const isTestEnv = import.meta.env.VITEST === 'true' || import.meta.env.VITEST === true;
 
@@ -361,7 +362,7 @@ class IntelligenceAnalyticsDataSource {
 
     // Try to fetch from API first
     try {
-      const response = await fetch(`/api/savings/metrics?timeRange=${timeRange}`);
+      const response = await fetch(`/api/savings/metrics?${timeRangeQuery(timeRange, { param: 'timeRange' })}`);
       if (response.ok) {
         const data = await response.json();
         if (data && typeof data === 'object') {
@@ -1,4 +1,5 @@
 import { USE_MOCK_DATA } from '../mock-data/config';
+import { timeRangeQuery, type TimeRangeSelection } from '@shared/time-range';
 
 export interface SavingsMetrics {
   totalSavings: number;
@@ -68,6 +69,8 @@ export interface TimeSeriesData {
 export interface ProviderSavings {
   providerId: string;
   providerName: string;
+  // False when the provider has no baseline runs to compare with
+  dataAvailable?: boolean;
   savingsAmount: number;
   tokensProcessed: number;
   tokensOffloaded: number;
@@ -76,8 +79,28 @@ export interface ProviderSavings {
   runsCount: number;
 }
 
+export interface CostComponent {
+  withIntelligence: number;
+  withoutIntelligence: number;
+  saved: number;
+  reduction: number; // Saved share of withoutIntelligence, in percent
+}
+
+export interface CostBreakdown {
+  dataAvailable: boolean; // False until both intelligence and baseline runs exist
+  runs: { withIntelligence: number; baseline: number };
+  sources: Record<string, number>; // Runs per origin ('agent-run-metrics', 'api', ...)
+  lastRunAt: string | null;
+  tokens: CostComponent;
+  compute: CostComponent;
+  cost: CostComponent;
+  time: CostComponent; // Seconds
+}
+
+const EMPTY_COMPONENT: CostComponent = { withIntelligence: 0, withoutIntelligence: 0, saved: 0, reduction: 0 };
+
 class IntelligenceSavingsDataSource {
-  async fetchMetrics(timeRange: string): Promise<{ data: SavingsMetrics; isMock: boolean }> {
+  async fetchMetrics(timeRange: TimeRangeSelection): Promise<{ data: SavingsMetrics; isMock: boolean }> {
     // In test environment, skip USE_MOCK_DATA check to allow test mocks to work
     const isTestEnv = import.meta.env.VITEST === 'true' || import.meta.env.VITEST === true;
 
@@ -103,7 +126,7 @@ class IntelligenceSavingsDataSource {
     }
 
     try {
-      const response = await fetch(`/api/savings/metrics?timeRange=${timeRange}`);
+      const response = await fetch(`/api/savings/metrics?${timeRangeQuery(timeRange, { param: 'timeRange' })}`);
       if (response.ok) {
         const data = await response.json();
         return { data, isMock: false };
@@ -132,7 +155,7 @@ class IntelligenceSavingsDataSource {
     };
   }
 
-  async fetchAgentComparisons(timeRange: string): Promise<{ data: AgentComparison[]; isMock: boolean }> {
+  async fetchAgentComparisons(timeRange: TimeRangeSelection): Promise<{ data: AgentComparison[]; isMock: boolean }> {
     // In test environment, skip USE_MOCK_DATA check to allow test mocks to work
     const isTestEnv = import.meta.env.VITEST === 'true' || import.meta.env.VITEST === true;
 
@@ -167,7 +190,7 @@ class IntelligenceSavingsDataSource {
     }
 
     try {
-      const response = await fetch(`/api/savings/agents?timeRange=${timeRange}`);
+      const response = await fetch(`/api/savings/agents?${timeRangeQuery(timeRange, { param: 'timeRange' })}`);
       if (response.ok) {
         const data = await response.json();
         if (Array.isArray(data) && data.length > 0) {
@@ -207,7 +230,7 @@ class IntelligenceSavingsDataSource {
     };
   }
 
-  async fetchTimeSeries(timeRange: string): Promise<{ data: TimeSeriesData[]; isMock: boolean }> {
+  async fetchTimeSeries(timeRange: TimeRangeSelection): Promise<{ data: TimeSeriesData[]; isMock: boolean }> {
     // In test environment, skip USE_MOCK_DATA check to allow test mocks to work
     const isTestEnv = import.meta.env.VITEST === 'true' || import.meta.env.VITEST === true;
 
@@ -264,7 +287,7 @@ class IntelligenceSavingsDataSource {
     }
 
     try {
-      const response = await fetch(`/api/savings/timeseries?timeRange=${timeRange}`);
+      const response = await fetch(`/api/savings/timeseries?${timeRangeQuery(timeRange, { param: 'timeRange' })}`);
       if (response.ok) {
         const data = await response.json();
         if (Array.isArray(data) && data.length > 0) {
@@ -328,7 +351,7 @@ class IntelligenceSavingsDataSource {
     return { data, isMock: true };
   }
 
-  async fetchProviderSavings(timeRange: string): Promise<{ data: ProviderSavings[]; isMock: boolean }> {
+  async fetchProviderSavings(timeRange: TimeRangeSelection): Promise<{ data: ProviderSavings[]; isMock: boolean }> {
     // In test environment, skip USE_MOCK_DATA check to allow test mocks to work
     const isTestEnv = import.meta.env.VITEST === 'true' || import.meta.env.VITEST === true;
 
@@ -401,7 +424,7 @@ class IntelligenceSavingsDataSource {
     }
 
     try {
-      const response = await fetch(`/api/savings/providers?timeRange=${timeRange}`);
+      const response = await fetch(`/api/savings/providers?${timeRangeQuery(timeRange, { param: 'timeRange' })}`);
       if (response.ok) {
         const data = await response.json();
         if (Array.isArray(data) && data.length > 0) {
@@ -480,7 +503,54 @@ class IntelligenceSavingsDataSource {
     return { data: providers, isMock: true };
   }
 
-  async fetchAll(timeRange: string) {
+  async fetchBreakdown(timeRange: TimeRangeSelection): Promise<{ data: CostBreakdown; isMock: boolean }> {
+    // In test environment, skip USE_MOCK_DATA check to allow test mocks to work
+    const isTestEnv = import.meta.env.VITEST === 'true' || import.meta.env.VITEST === true;
+
+    // Demo breakdown matching the mock metrics above
+    if (USE_MOCK_DATA && !isTestEnv) {
+      return {
+        data: {
+          dataAvailable: true,
+          runs: { withIntelligence: 15420, baseline: 23500 },
+          sources: { demo: 38920 },
+          lastRunAt: new Date().toISOString(),
+          tokens: { withIntelligence: 49344000, withoutIntelligence: 74764000, saved: 25420000, reduction: 34.0 },
+          compute: { withIntelligence: 18504, withoutIntelligence: 29605, saved: 11101, reduction: 37.5 },
+          cost: { withIntelligence: 87000, withoutIntelligence: 132000, saved: 45000, reduction: 34.1 },
+          time: { withIntelligence: 925200, withoutIntelligence: 970200, saved: 45000, reduction: 4.6 },
+        },
+        isMock: true,
+      };
+    }
+
+    try {
+      const response = await fetch(`/api/savings/breakdown?${timeRangeQuery(timeRange, { param: 'timeRange' })}`);
+      if (response.ok) {
+        const data = await response.json();
+        return { data, isMock: false };
+      }
+    } catch (err) {
+      console.warn('Failed to fetch cost breakdown', err);
+    }
+
+    // No invented numbers here: report that nothing is available
+    return {
+      data: {
+        dataAvailable: false,
+        runs: { withIntelligence: 0, baseline: 0 },
+        sources: {},
+        lastRunAt: null,
+        tokens: EMPTY_COMPONENT,
+        compute: EMPTY_COMPONENT,
+        cost: EMPTY_COMPONENT,
+        time: EMPTY_COMPONENT,
+      },
+      isMock: true,
+    };
+  }
+
+  async fetchAll(timeRange: TimeRangeSelection) {
     const [metrics, agents, timeseries, providers] = await Promise.all([
       this.fetchMetrics(timeRange),
       this.fetchAgentComparisons(timeRange),
@@ -1,28 +1,54 @@
 // Knowledge Graph Data Source
 import { USE_MOCK_DATA, KnowledgeGraphMockData } from '../mock-data';
+import { timeRangeQuery, type TimeRangeSelection } from '@shared/time-range';
 
 export interface GraphNode {
   id: string;
   label: string;
   type: string;
+  properties?: Record<string, string | number | null>;
+  degree?: number;
+  // Neighbours not in the response; fetch with focus=<id> to add them
+  hiddenNeighbors?: number;
   [key: string]: any;
 }
 
 export interface GraphEdge {
+  id?: string;
   source: string;
   target: string;
   type?: string;
+  weight?: number;
   [key: string]: any;
 }
 
+export interface KnowledgeGraphMeta {
+  focus: string | null;
+  depth: number | null;
+  totalNodes: number;
+  totalEdges: number;
+  truncated: boolean;
+  nodeTypes: Record<string, number>;
+  edgeTypes: Record<string, number>;
+}
+
 export interface KnowledgeGraphData {
   nodes: GraphNode[];
   edges: GraphEdge[];
+  meta?: KnowledgeGraphMeta;
   isMock: boolean;
 }
 
+export interface KnowledgeGraphQuery {
+  // Node id to expand around, with the number of hops
+  focus?: string;
+  depth?: number;
+  // Node types to include (pattern, document, service, agent)
+  types?: string[];
+}
+
 class KnowledgeGraphSource {
-  async fetchGraph(timeRange: string, limit: number = 1000): Promise<KnowledgeGraphData> {
+  async fetchGraph(timeRange: TimeRangeSelection, limit: number = 1000, query: KnowledgeGraphQuery = {}): Promise<KnowledgeGraphData> {
     // In test environment, skip USE_MOCK_DATA check to allow test mocks to work
     const isTestEnv = import.meta.env.VITEST === 'true' || import.meta.env.VITEST === true;
 
@@ -32,13 +58,20 @@ class KnowledgeGraphSource {
     }
 
     try {
-      const omniarchonUrl = import.meta.env.VITE_INTELLIGENCE_SERVICE_URL || "http://localhost:8053";
-      const response = await fetch(`${omniarchonUrl}/api/intelligence/knowledge/graph?limit=${limit}&timeWindow=${timeRange}`);
+      const params = new URLSearchParams({ limit: String(limit) });
+      if (query.focus) {
+        params.set('focus', query.focus);
+        if (query.depth) params.set('depth', String(query.depth));
+      }
+      if (query.types?.length) params.set('types', query.types.join(','));
+
+      const response = await fetch(`/api/intelligence/knowledge/graph?${params}&${timeRangeQuery(timeRange)}`);
       if (response.ok) {
         const data = await response.json();
         return {
           nodes: data.nodes || [],
           edges: data.edges || [],
+          meta: data.meta,
           isMock: false,
         };
       }
@@ -1,5 +1,6 @@
 // Pattern Learning Data Source
 import { USE_MOCK_DATA, PatternLearningMockData } from '../mock-data';
+import { timeRangeQuery, type TimeRangeSelection } from '@shared/time-range';
 
 export interface DiscoveredPattern {
   name: string;
@@ -52,14 +53,14 @@ class PatternLearningSource {
   /**
    * Fetch pattern summary metrics
    */
-  async fetchSummary(timeWindow: string = '24h'): Promise<PatternSummary> {
+  async fetchSummary(timeWindow: TimeRangeSelection = '24h'): Promise<PatternSummary> {
     // Return comprehensive mock data if USE_MOCK_DATA is enabled
     if (USE_MOCK_DATA) {
       return PatternLearningMockData.generateSummary();
     }
 
     try {
-      const response = await fetch(`/api/intelligence/patterns/summary?timeWindow=${timeWindow}`);
+      const response = await fetch(`/api/intelligence/patterns/summary?${timeRangeQuery(timeWindow)}`);
       if (response.ok) {
         const data = await response.json();
         // Transform snake_case API response to camelCase
@@ -81,14 +82,14 @@ class PatternLearningSource {
   /**
    * Fetch pattern discovery trends over time
    */
-  async fetchTrends(timeWindow: string = '24h'): Promise<PatternTrend[]> {
+  async fetchTrends(timeWindow: TimeRangeSelection = '24h'): Promise<PatternTrend[]> {
     // Return comprehensive mock data if USE_MOCK_DATA is enabled
     if (USE_MOCK_DATA) {
       return PatternLearningMockData.generateTrends(20);
     }
 
     try {
-      const response = await fetch(`/api/intelligence/patterns/trends?timeWindow=${timeWindow}`);
+      const response = await fetch(`/api/intelligence/patterns/trends?${timeRangeQuery(timeWindow)}`);
       if (response.ok) {
         const data = await response.json();
         if (data && data.length > 0) {
@@ -112,14 +113,14 @@ class PatternLearningSource {
   /**
    * Fetch pattern quality trends over time
    */
-  async fetchQualityTrends(timeWindow: string = '24h'): Promise<QualityTrend[]> {
+  async fetchQualityTrends(timeWindow: TimeRangeSelection = '24h'): Promise<QualityTrend[]> {
     // Return comprehensive mock data if USE_MOCK_DATA is enabled
     if (USE_MOCK_DATA) {
       return PatternLearningMockData.generateQualityTrends(20);
     }
 
     try {
-      const response = await fetch(`/api/intelligence/patterns/quality-trends?timeWindow=${timeWindow}`);
+      const response = await fetch(`/api/intelligence/patterns/quality-trends?${timeRangeQuery(timeWindow)}`);
       if (response.ok) {
         const data = await response.json();
         if (data && data.length > 0) {
@@ -142,14 +143,14 @@ class PatternLearningSource {
   /**
    * Fetch list of patterns with filtering
    */
-  async fetchPatternList(limit: number = 50, timeWindow: string = '24h'): Promise<Pattern[]> {
+  async fetchPatternList(limit: number = 50, timeWindow: TimeRangeSelection = '24h'): Promise<Pattern[]> {
     // Return comprehensive mock data if USE_MOCK_DATA is enabled
     if (USE_MOCK_DATA) {
       return PatternLearningMockData.generatePatternList(limit);
     }
 
     try {
-      const response = await fetch(`/api/intelligence/patterns/list?limit=${limit}&timeWindow=${timeWindow}`);
+      const response = await fetch(`/api/intelligence/patterns/list?limit=${limit}&${timeRangeQuery(timeWindow)}`);
       if (response.ok) {
         const data = await response.json();
         if (data && data.length > 0) {
@@ -167,14 +168,14 @@ class PatternLearningSource {
   /**
    * Fetch language breakdown statistics
    */
-  async fetchLanguageBreakdown(timeWindow: string = '24h'): Promise<LanguageBreakdown[]> {
+  async fetchLanguageBreakdown(timeWindow: TimeRangeSelection = '24h'): Promise<LanguageBreakdown[]> {
     // Return comprehensive mock data if USE_MOCK_DATA is enabled
     if (USE_MOCK_DATA) {
       return PatternLearningMockData.generateLanguageBreakdown();
     }
 
     try {
-      const response = await fetch(`/api/intelligence/patterns/by-language?timeWindow=${timeWindow}`);
+      const response = await fetch(`/api/intelligence/patterns/by-language?${timeRangeQuery(timeWindow)}`);
       if (response.ok) {
         const data = await response.json();
         if (data && data.length > 0) {
@@ -36,8 +36,7 @@ class PlatformHealthSource {
     }
 
     try {
-      const omniarchonUrl = import.meta.env.VITE_INTELLIGENCE_SERVICE_URL || "http://localhost:8053";
-      const response = await fetch(`${omniarchonUrl}/api/intelligence/platform/health?timeWindow=${timeRange}`);
+      const response = await fetch(`/api/upstream/api/intelligence/platform/health?timeWindow=${timeRange}`);
       if (response.ok) {
         const data = await response.json();
         return { data, isMock: false };
@@ -62,7 +61,7 @@ class PlatformHealthSource {
     }
 
     try {
-      const response = await fetch('http://localhost:3000/api/intelligence/platform/services');
+      const response = await fetch('/api/intelligence/platform/services');
       if (response.ok) {
         const data = await response.json();
         return { data, isMock: false };
@@ -0,0 +1,326 @@
+/**
+ * Graph Analysis
+ *
+ * Exploration helpers behind UnifiedGraph: node search, shortest paths,
+ * k-hop neighbourhoods, community detection (Louvain) and collapsing
+ * communities into super-nodes. Edges count in both directions throughout.
+ */
+
+export interface AnalysisNode {
+  id: string;
+  label: string;
+  type?: string;
+  size?: number;
+}
+
+export interface AnalysisEdge {
+  source: string;
+  target: string;
+  weight?: number;
+  type?: string;
+}
+
+// Super-node standing in for a collapsed community
+export interface ClusterNode {
+  id: string;
+  label: string;
+  type: 'cluster';
+  size: number;
+  metadata: { cluster: number; members: string[] };
+}
+
+export const CLUSTER_TYPE = 'cluster' as const;
+export const clusterNodeId = (cluster: number) => `cluster:${cluster}`;
+
+// Louvain stops after this many aggregation levels or passes over the nodes
+const MAX_LEVELS = 10;
+const MAX_PASSES = 20;
+
+function adjacencyOf(edges: AnalysisEdge[]): Map<string, string[]> {
+  const sets = new Map<string, Set<string>>();
+  const link = (a: string, b: string) => {
+    const set = sets.get(a);
+    if (set) set.add(b); else sets.set(a, new Set([b]));
+  };
+  for (const edge of edges) {
+    if (edge.source === edge.target) continue;
+    link(edge.source, edge.target);
+    link(edge.target, edge.source);
+  }
+  // Sorted so that traversals are deterministic
+  return new Map(Array.from(sets, ([id, set]) => [id, Array.from(set).sort()]));
+}
+
+/**
+ * Nodes whose label (or id) matches the query, best matches first: exact
+ * label, label prefix, word prefix, then anywhere in the label or id.
+ */
+export function searchNodes<N extends AnalysisNode>(nodes: N[], query: string, limit = 8): N[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const score = (node: N) => {
+    const label = node.label.toLowerCase();
+    if (label === needle || node.id.toLowerCase() === needle) return 0;
+    if (label.startsWith(needle)) return 1;
+    if (label.split(/[\s_\-./:]+/).some(word => word.startsWith(needle))) return 2;
+    if (label.includes(needle)) return 3;
+    if (node.id.toLowerCase().includes(needle)) return 4;
+    return null;
+  };
+
+  return nodes
+    .map(node => ({ node, score: score(node) }))
+    .filter((match): match is { node: N; score: number } => match.score !== null)
+    .sort((a, b) => a.score - b.score || a.node.label.length - b.node.label.length || a.node.label.localeCompare(b.node.label))
+    .slice(0, limit)
+    .map(match => match.node);
+}
+
+/**
+ * Fewest-hops path between two nodes (ids from `from` to `to`), or null when
+ * they are not connected
+ */
+export function shortestPath(edges: AnalysisEdge[], from: string, to: string): string[] | null {
+  if (from === to) return [from];
+
+  const adjacency = adjacencyOf(edges);
+  const previous = new Map<string, string>([[from, from]]);
+  const queue = [from];
+  for (let head = 0; head < queue.length; head++) {
+    const id = queue[head];
+    for (const next of adjacency.get(id) ?? []) {
+      if (previous.has(next)) continue;
+      previous.set(next, id);
+      if (next === to) {
+        const path = [to];
+        while (path[0] !== from) path.unshift(previous.get(path[0])!);
+        return path;
+      }
+      queue.push(next);
+    }
+  }
+  return null;
+}
+
+/**
+ * Nodes within `depth` hops of `center`, with their distance
+ */
+export function neighborhood(edges: AnalysisEdge[], center: string, depth: number): Map<string, number> {
+  const adjacency = adjacencyOf(edges);
+  const distances = new Map<string, number>([[center, 0]]);
+  let frontier = [center];
+  for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbor of adjacency.get(id) ?? []) {
+        if (distances.has(neighbor)) continue;
+        distances.set(neighbor, hop);
+        next.push(neighbor);
+      }
+    }
+    frontier = next;
+  }
+  return distances;
+}
+
+interface LevelGraph {
+  // Weighted neighbours per node, both directions, without self-loops
+  adjacency: Array<Map<number, number>>;
+  selfLoops: number[];
+}
+
+/**
+ * Communities by the Louvain method: nodes move to the neighbouring community
+ * that gains the most modularity, then communities are merged into single
+ * nodes and the process repeats until nothing moves. Communities are numbered
+ * from the largest; nodes without edges get one each.
+ */
+export function detectCommunities(nodeIds: string[], edges: AnalysisEdge[]): Map<string, number> {
+  const index = new Map(nodeIds.map((id, i) => [id, i]));
+  let graph: LevelGraph = {
+    adjacency: nodeIds.map(() => new Map<number, number>()),
+    selfLoops: nodeIds.map(() => 0),
+  };
+  for (const edge of edges) {
+    const a = index.get(edge.source);
+    const b = index.get(edge.target);
+    if (a === undefined || b === undefined || a === b) continue;
+    const weight = edge.weight && edge.weight > 0 ? edge.weight : 1;
+    graph.adjacency[a].set(b, (graph.adjacency[a].get(b) ?? 0) + weight);
+    graph.adjacency[b].set(a, (graph.adjacency[b].get(a) ?? 0) + weight);
+  }
+
+  // Community of each original node in the current level graph
+  let membership = nodeIds.map((_, i) => i);
+
+  for (let level = 0; level < MAX_LEVELS; level++) {
+    const { communities, moved } = moveNodes(graph);
+    if (!moved) break;
+
+    const renumbered = new Map<number, number>();
+    const communityOf = communities.map(c => {
+      if (!renumbered.has(c)) renumbered.set(c, renumbered.size);
+      return renumbered.get(c)!;
+    });
+    membership = membership.map(node => communityOf[node]);
+    graph = aggregate(graph, communityOf, renumbered.size);
+  }
+
+  // Largest community first, ties by first member
+  const members = new Map<number, number[]>();
+  membership.forEach((community, i) => {
+    const list = members.get(community);
+    if (list) list.push(i); else members.set(community, [i]);
+  });
+  const order = Array.from(members.entries())
+    .sort(([, a], [, b]) => b.length - a.length || a[0] - b[0])
+    .map(([community]) => community);
+  const rank = new Map(order.map((community, i) => [community, i]));
+
+  return new Map(nodeIds.map((id, i) => [id, rank.get(membership[i])!]));
+}
+
+function moveNodes(graph: LevelGraph): { communities: number[]; moved: boolean } {
+  const n = graph.adjacency.length;
+  const degree = graph.adjacency.map((neighbors, i) =>
+    Array.from(neighbors.values()).reduce((sum, weight) => sum + weight, 0) + 2 * graph.selfLoops[i]);
+  const totalDegree = degree.reduce((sum, value) => sum + value, 0);
+  const communities = Array.from({ length: n }, (_, i) => i);
+  const communityDegree = [...degree];
+  let moved = false;
+  if (totalDegree === 0) return { communities, moved };
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < n; i++) {
+      const current = communities[i];
+      const links = new Map<number, number>();
+      graph.adjacency[i].forEach((weight, j) => {
+        links.set(communities[j], (links.get(communities[j]) ?? 0) + weight);
+      });
+
+      communityDegree[current] -= degree[i];
+      // Modularity gain of joining a community, up to a constant factor
+      const gain = (community: number) => (links.get(community) ?? 0) - (communityDegree[community] * degree[i]) / totalDegree;
+      let best = current;
+      let bestGain = gain(current);
+      links.forEach((_, community) => {
+        const value = gain(community);
+        if (value > bestGain + 1e-12) {
+          best = community;
+          bestGain = value;
+        }
+      });
+      communityDegree[best] += degree[i];
+
+      if (best !== current) {
+        communities[i] = best;
+        improved = true;
+        moved = true;
+      }
+    }
+    if (!improved) break;
+  }
+  return { communities, moved };
+}
+
+function aggregate(graph: LevelGraph, communityOf: number[], count: number): LevelGraph {
+  const adjacency = Array.from({ length: count }, () => new Map<number, number>());
+  const selfLoops = new Array<number>(count).fill(0);
+  graph.adjacency.forEach((neighbors, i) => {
+    const a = communityOf[i];
+    selfLoops[a] += graph.selfLoops[i];
+    neighbors.forEach((weight, j) => {
+      const b = communityOf[j];
+      // Every edge is seen from both ends
+      if (a === b) selfLoops[a] += weight / 2;
+      else adjacency[a].set(b, (adjacency[a].get(b) ?? 0) + weight);
+    });
+  });
+  return { adjacency, selfLoops };
+}
+
+/**
+ * Replaces the members of the collapsed communities with one super-node each.
+ * Edges inside a collapsed community disappear; edges leaving it are
+ * redirected to its super-node, and parallel edges merge (weights add up).
+ */
+export function collapseClusters<N extends AnalysisNode, E extends AnalysisEdge>(
+  nodes: N[],
+  edges: E[],
+  communities: Map<string, number>,
+  collapsed: Set<number>
+): { nodes: Array<N | ClusterNode>; edges: Array<E | AnalysisEdge> } {
+  if (collapsed.size === 0) return { nodes, edges };
+
+  // Communities of one node stay as they are
+  const sizes = new Map<number, number>();
+  for (const node of nodes) {
+    const cluster = communities.get(node.id);
+    if (cluster !== undefined) sizes.set(cluster, (sizes.get(cluster) ?? 0) + 1);
+  }
+  const isCollapsed = (cluster: number | undefined): cluster is number =>
+    cluster !== undefined && collapsed.has(cluster) && sizes.get(cluster)! > 1;
+
+  const members = new Map<number, string[]>();
+  const resultNodes: Array<N | ClusterNode> = [];
+  for (const node of nodes) {
+    const cluster = communities.get(node.id);
+    if (!isCollapsed(cluster)) {
+      resultNodes.push(node);
+      continue;
+    }
+    const list = members.get(cluster);
+    if (list) {
+      list.push(node.id);
+    } else {
+      members.set(cluster, [node.id]);
+      // Placeholder keeps the super-node where its first member was listed
+      resultNodes.push(node);
+    }
+  }
+
+  const finalNodes = resultNodes.map(node => {
+    const cluster = communities.get(node.id);
+    if (!isCollapsed(cluster)) return node;
+    const ids = members.get(cluster)!;
+    const superNode: ClusterNode = {
+      id: clusterNodeId(cluster),
+      label: `Cluster ${cluster + 1} (${ids.length})`,
+      type: CLUSTER_TYPE,
+      size: Math.min(60, 20 + 4 * Math.sqrt(ids.length)),
+      metadata: { cluster, members: ids },
+    };
+    return superNode;
+  });
+
+  const endpoint = (id: string) => {
+    const cluster = communities.get(id);
+    return isCollapsed(cluster) ? clusterNodeId(cluster) : id;
+  };
+  const merged = new Map<string, E | AnalysisEdge>();
+  edges.forEach((edge, i) => {
+    const source = endpoint(edge.source);
+    const target = endpoint(edge.target);
+    if (source === target) return;
+    if (source === edge.source && target === edge.target) {
+      merged.set(`edge:${i}`, edge);
+      return;
+    }
+    const key = `${source}->${target}`;
+    const existing = merged.get(key);
+    if (existing) {
+      merged.set(key, {
+        source,
+        target,
+        weight: (existing.weight ?? 1) + (edge.weight ?? 1),
+        type: existing.type === edge.type ? edge.type : undefined,
+      });
+    } else {
+      merged.set(key, { source, target, weight: edge.weight ?? 1, type: edge.type });
+    }
+  });
+
+  return { nodes: finalNodes, edges: Array.from(merged.values()) };
+}
@@ -0,0 +1,278 @@
+/**
+ * Graph Export
+ *
+ * Serialises UnifiedGraph nodes and edges, with their metadata and current
+ * layout positions, to GraphML, Graphviz DOT and Mermaid flowchart text, and
+ * renders the current view as a standalone SVG (which GraphExportMenu also
+ * rasterises to PNG). Positions are in graph coordinates: x to the right,
+ * y downwards.
+ */
+import { DEFAULT_NODE_SIZE, type Positions, type ViewTransform } from './graph-layout';
+
+export interface ExportNode {
+  id: string;
+  label: string;
+  type?: string;
+  size?: number;
+  color?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface ExportEdge {
+  source: string;
+  target: string;
+  weight?: number;
+  type?: string;
+  label?: string;
+  bidirectional?: boolean;
+  color?: string;
+}
+
+export interface GraphExport {
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+  positions: Positions;
+  // Viewport and zoom/pan of the current view (SVG and PNG renders)
+  width: number;
+  height: number;
+  transform: ViewTransform;
+}
+
+const DEFAULT_NODE_COLOR = '#3b82f6';
+const DEFAULT_EDGE_COLOR = '#94a3b8';
+const FONT_FAMILY = 'IBM Plex Sans, sans-serif';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+type GraphMLType = 'string' | 'double' | 'boolean';
+
+function graphMLType(value: unknown): GraphMLType {
+  if (typeof value === 'number' && Number.isFinite(value)) return 'double';
+  if (typeof value === 'boolean') return 'boolean';
+  return 'string';
+}
+
+// Objects and arrays are kept as JSON
+const metadataValue = (value: unknown) => (typeof value === 'object' ? JSON.stringify(value) : String(value));
+
+/**
+ * GraphML with node label, type, colour, size and x/y position, one key per
+ * metadata field (typed when every node agrees on the type), and edge label,
+ * type, weight and direction
+ */
+export function toGraphML(nodes: ExportNode[], edges: ExportEdge[], positions: Positions = {}): string {
+  const metadataTypes = new Map<string, GraphMLType>();
+  for (const node of nodes) {
+    for (const [name, value] of Object.entries(node.metadata ?? {})) {
+      if (value === null || value === undefined) continue;
+      const type = graphMLType(value);
+      const known = metadataTypes.get(name);
+      metadataTypes.set(name, known && known !== type ? 'string' : type);
+    }
+  }
+  const metadataKeys = new Map(Array.from(metadataTypes.keys(), (name, i) => [name, `m${i}`]));
+
+  const key = (id: string, target: 'node' | 'edge', name: string, type: GraphMLType) =>
+    `  <key id="${id}" for="${target}" attr.name="${escapeXml(name)}" attr.type="${type}"/>`;
+  const data = (id: string, value: unknown) => `      <data key="${id}">${escapeXml(String(value))}</data>`;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    key('label', 'node', 'label', 'string'),
+    key('type', 'node', 'type', 'string'),
+    key('color', 'node', 'color', 'string'),
+    key('size', 'node', 'size', 'double'),
+    key('x', 'node', 'x', 'double'),
+    key('y', 'node', 'y', 'double'),
+    ...Array.from(metadataTypes, ([name, type]) => key(metadataKeys.get(name)!, 'node', name, type)),
+    key('e_label', 'edge', 'label', 'string'),
+    key('e_type', 'edge', 'type', 'string'),
+    key('e_weight', 'edge', 'weight', 'double'),
+    key('e_bidirectional', 'edge', 'bidirectional', 'boolean'),
+    '  <graph id="G" edgedefault="directed">',
+  ];
+
+  for (const node of nodes) {
+    const pos = positions[node.id];
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    lines.push(data('label', node.label));
+    if (node.type) lines.push(data('type', node.type));
+    if (node.color) lines.push(data('color', node.color));
+    lines.push(data('size', node.size ?? DEFAULT_NODE_SIZE));
+    if (pos) lines.push(data('x', round(pos.x)), data('y', round(pos.y)));
+    for (const [name, value] of Object.entries(node.metadata ?? {})) {
+      if (value === null || value === undefined) continue;
+      lines.push(data(metadataKeys.get(name)!, metadataValue(value)));
+    }
+    lines.push('    </node>');
+  }
+
+  edges.forEach((edge, i) => {
+    lines.push(`    <edge id="e${i}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`);
+    if (edge.label) lines.push(data('e_label', edge.label));
+    if (edge.type) lines.push(data('e_type', edge.type));
+    if (edge.weight !== undefined) lines.push(data('e_weight', edge.weight));
+    if (edge.bidirectional) lines.push(data('e_bidirectional', true));
+    lines.push('    </edge>');
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return `${lines.join('\n')}\n`;
+}
+
+const dotString = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+/**
+ * Graphviz DOT. Positions become pinned `pos` attributes in points (y flipped,
+ * as Graphviz y points up), so `neato -n2` reproduces the current layout
+ * while `dot` lays the graph out afresh. Node type and metadata are kept as
+ * extra attributes, which Graphviz ignores.
+ */
+export function toDot(nodes: ExportNode[], edges: ExportEdge[], positions: Positions = {}, name = 'G'): string {
+  const maxY = Math.max(0, ...nodes.map(node => positions[node.id]?.y ?? 0));
+  const maxWeight = Math.max(1, ...edges.map(edge => edge.weight ?? 0));
+  const attributes = (entries: Array<[string, string | number | undefined]>) =>
+    entries
+      .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+      .map(([key, value]) => `${key}=${typeof value === 'number' ? value : dotString(value)}`)
+      .join(', ');
+
+  const lines = [
+    `digraph ${dotString(name)} {`,
+    '  graph [outputorder=edgesfirst];',
+    `  node [shape=circle, style=filled, fixedsize=true, fontname=${dotString(FONT_FAMILY)}, fontcolor="#ffffff", color="#ffffff"];`,
+    '  edge [arrowsize=0.6];',
+  ];
+
+  for (const node of nodes) {
+    const pos = positions[node.id];
+    const hasMetadata = node.metadata && Object.keys(node.metadata).length > 0;
+    lines.push(`  ${dotString(node.id)} [${attributes([
+      ['label', node.label],
+      ['fillcolor', node.color ?? DEFAULT_NODE_COLOR],
+      // Inches across
+      ['width', round(((node.size ?? DEFAULT_NODE_SIZE) * 2) / 72)],
+      ['pos', pos ? `${round(pos.x)},${round(maxY - pos.y)}!` : undefined],
+      ['type', node.type],
+      ['metadata', hasMetadata ? JSON.stringify(node.metadata) : undefined],
+    ])}];`);
+  }
+
+  for (const edge of edges) {
+    lines.push(`  ${dotString(edge.source)} -> ${dotString(edge.target)} [${attributes([
+      ['label', edge.label],
+      ['color', edge.color ?? DEFAULT_EDGE_COLOR],
+      ['penwidth', round(1 + ((edge.weight ?? 0) / maxWeight) * 2)],
+      // Graphviz only takes whole-number weights
+      ['weight', edge.weight !== undefined && Number.isInteger(edge.weight) ? edge.weight : undefined],
+      ['type', edge.type],
+      ['dir', edge.bidirectional ? 'both' : undefined],
+    ])}];`);
+  }
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+// Mermaid labels may not contain raw quotes, pipes or angle brackets
+const mermaidText = (value: string) =>
+  value.replace(/"/g, '#quot;').replace(/\|/g, '#124;').replace(/</g, '#lt;').replace(/>/g, '#gt;').replace(/\n/g, ' ');
+
+/**
+ * Mermaid flowchart. Node ids are replaced by n0, n1, … (Mermaid ids are
+ * restricted), with the original ids kept in comments, and nodes sharing a
+ * colour share a class. Mermaid lays the chart out itself.
+ */
+export function toMermaid(nodes: ExportNode[], edges: ExportEdge[], direction: 'LR' | 'TD' = 'LR'): string {
+  const ids = new Map(nodes.map((node, i) => [node.id, `n${i}`]));
+  const lines = [`flowchart ${direction}`];
+
+  for (const node of nodes) {
+    lines.push(`  %% ${ids.get(node.id)}: ${node.id.replace(/\n/g, ' ')}`);
+    lines.push(`  ${ids.get(node.id)}("${mermaidText(node.label)}")`);
+  }
+
+  for (const edge of edges) {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (!source || !target) continue;
+    const arrow = edge.bidirectional ? '<-->' : '-->';
+    const label = edge.label ?? edge.type;
+    lines.push(`  ${source} ${arrow}${label ? `|${mermaidText(label)}|` : ''} ${target}`);
+  }
+
+  const byColor = new Map<string, string[]>();
+  for (const node of nodes) {
+    const color = node.color ?? DEFAULT_NODE_COLOR;
+    byColor.set(color, [...(byColor.get(color) ?? []), ids.get(node.id)!]);
+  }
+  Array.from(byColor).forEach(([color, members], i) => {
+    lines.push(`  classDef c${i} fill:${color},stroke:#ffffff,color:#ffffff;`);
+    lines.push(`  class ${members.join(',')} c${i};`);
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+// Shortens a label to what fits across a node of this radius
+function fitLabel(label: string, radius: number, fontSize: number): string {
+  const maxChars = Math.max(2, Math.floor((radius * 2 - 8) / (fontSize * 0.55)));
+  return label.length <= maxChars ? label : `${label.slice(0, maxChars - 1)}…`;
+}
+
+/**
+ * The current view (viewport, zoom and pan) as a standalone SVG document with
+ * explicit colours, so it renders the same outside the dashboard
+ */
+export function toSvg(graph: GraphExport, background = '#ffffff'): string {
+  const { nodes, edges, positions, width, height, transform } = graph;
+  const nodeById = new Map(nodes.map(node => [node.id, node]));
+  const colors = Array.from(new Set(edges.map(edge => edge.color ?? DEFAULT_EDGE_COLOR)));
+  const maxWeight = Math.max(1, ...edges.map(edge => edge.weight ?? 0));
+
+  const lines = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    '  <defs>',
+    ...colors.map((color, i) =>
+      `    <marker id="arrow-${i}" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="${escapeXml(color)}"/></marker>`),
+    '  </defs>',
+    `  <rect width="100%" height="100%" fill="${escapeXml(background)}"/>`,
+    `  <g transform="translate(${round(transform.x)} ${round(transform.y)}) scale(${round(transform.k * 1000) / 1000})">`,
+  ];
+
+  for (const edge of edges) {
+    const from = positions[edge.source];
+    const to = positions[edge.target];
+    if (!from || !to) continue;
+
+    // Stop at the edge of the target circle, like the live view
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    const inset = (nodeById.get(edge.target)?.size ?? DEFAULT_NODE_SIZE) + 6;
+    const color = edge.color ?? DEFAULT_EDGE_COLOR;
+    const marker = `url(#arrow-${colors.indexOf(color)})`;
+    lines.push(`    <line x1="${round(from.x)}" y1="${round(from.y)}" x2="${round(to.x - inset * Math.cos(angle))}" y2="${round(to.y - inset * Math.sin(angle))}" stroke="${escapeXml(color)}" stroke-width="${round(1 + ((edge.weight ?? 0) / maxWeight) * 2)}" stroke-opacity="0.6" marker-end="${marker}"${edge.bidirectional ? ` marker-start="${marker}"` : ''}/>`);
+  }
+
+  for (const node of nodes) {
+    const pos = positions[node.id];
+    if (!pos) continue;
+
+    const radius = node.size ?? DEFAULT_NODE_SIZE;
+    const fontSize = Math.max(8, Math.min(14, radius * 0.24));
+    lines.push(`    <circle cx="${round(pos.x)}" cy="${round(pos.y)}" r="${radius}" fill="${escapeXml(node.color ?? DEFAULT_NODE_COLOR)}" stroke="#ffffff" stroke-width="2"><title>${escapeXml(node.label)}</title></circle>`);
+    lines.push(`    <text x="${round(pos.x)}" y="${round(pos.y)}" fill="#ffffff" font-size="${round(fontSize)}" font-weight="600" text-anchor="middle" dominant-baseline="middle">${escapeXml(fitLabel(node.label, radius, fontSize))}</text>`);
+  }
+
+  lines.push('  </g>', '</svg>');
+  return `${lines.join('\n')}\n`;
+}
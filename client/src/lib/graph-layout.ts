@@ -0,0 +1,520 @@
+/**
+ * Graph Layout
+ *
+ * Layout algorithms behind UnifiedGraph. The force layout is a velocity Verlet
+ * simulation in the style of d3-force: many-body repulsion (Barnes-Hut, so
+ * graphs of 2,000+ nodes stay fast), links pulling their ends towards a
+ * distance that shrinks as GraphEdge.weight grows, collision by node size and a
+ * weak pull towards the centre. UnifiedGraph runs it in a Web Worker
+ * (graph-layout.worker.ts) and falls back to running it in place.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type Positions = Record<string, Point>;
+
+export interface LayoutNode {
+  id: string;
+  size?: number;
+}
+
+export interface LayoutEdge {
+  source: string;
+  target: string;
+  weight?: number;
+}
+
+export interface ForceLayoutOptions {
+  width: number;
+  height: number;
+  // Starting positions (e.g. the previous layout); new nodes start next to a placed neighbour
+  initial?: Positions;
+  // Nodes held where the user dropped them
+  pinned?: Positions;
+  // Starting temperature: 1 lays out from scratch, lower values only settle an existing layout
+  alpha?: number;
+}
+
+export interface ForceLayoutRequest {
+  id: number;
+  nodes: LayoutNode[];
+  edges: LayoutEdge[];
+  options: ForceLayoutOptions;
+}
+
+export interface ForceLayoutResponse {
+  id: number;
+  positions: Positions;
+  done: boolean;
+}
+
+export interface ViewTransform {
+  k: number;
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_NODE_SIZE = 30;
+export const IDENTITY_TRANSFORM: ViewTransform = { k: 1, x: 0, y: 0 };
+
+const ALPHA_MIN = 0.001;
+// Cools from alpha 1 to ALPHA_MIN in 300 ticks
+const ALPHA_DECAY = 1 - Math.pow(ALPHA_MIN, 1 / 300);
+const VELOCITY_DECAY = 0.4;
+// Barnes-Hut accuracy (theta = 0.9): a quad is treated as one body when it looks this small
+const THETA2 = 0.81;
+// Repulsion per pixel of node radius
+const CHARGE_PER_RADIUS = 10;
+// Free space between linked nodes, scaled down for heavier links
+const LINK_GAP = 80;
+const COLLISION_PADDING = 4;
+const COLLISION_STRENGTH = 0.7;
+const CENTER_STRENGTH = 0.04;
+const INITIAL_SPACING = 20;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+const CIRCLE_GAP = 8;
+
+const radiusOf = (node: LayoutNode) => node.size || DEFAULT_NODE_SIZE;
+
+interface Quad {
+  x0: number;
+  y0: number;
+  size: number;
+  // Charge-weighted centre and total charge of the points inside
+  cx: number;
+  cy: number;
+  charge: number;
+  // Leaf points (quads that were not split)
+  points: number[] | null;
+  children: Quad[];
+}
+
+// Points closer than this are not split any further
+const MIN_QUAD_SIZE = 1e-3;
+
+/**
+ * Starting positions: given ones first, then next to an already placed
+ * neighbour, then on a spiral around the centre.
+ */
+export function initialPositions(nodes: LayoutNode[], edges: LayoutEdge[], options: ForceLayoutOptions): Positions {
+  const positions: Positions = {};
+  const neighbors = new Map<string, string[]>();
+  for (const edge of edges) {
+    neighbors.set(edge.source, [...(neighbors.get(edge.source) ?? []), edge.target]);
+    neighbors.set(edge.target, [...(neighbors.get(edge.target) ?? []), edge.source]);
+  }
+
+  const cx = options.width / 2;
+  const cy = options.height / 2;
+  let spiral = 0;
+  nodes.forEach((node, i) => {
+    const given = options.pinned?.[node.id] ?? options.initial?.[node.id];
+    if (given) {
+      positions[node.id] = { x: given.x, y: given.y };
+      return;
+    }
+    const anchor = (neighbors.get(node.id) ?? []).map(id => positions[id] ?? options.initial?.[id]).find(Boolean);
+    if (anchor) {
+      const angle = i * GOLDEN_ANGLE;
+      const distance = radiusOf(node) * 2 + COLLISION_PADDING;
+      positions[node.id] = { x: anchor.x + distance * Math.cos(angle), y: anchor.y + distance * Math.sin(angle) };
+      return;
+    }
+    const radius = INITIAL_SPACING * Math.sqrt(0.5 + spiral);
+    const angle = spiral * GOLDEN_ANGLE;
+    spiral++;
+    positions[node.id] = { x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) };
+  });
+  return positions;
+}
+
+export class ForceSimulation {
+  alpha: number;
+  private readonly ids: string[];
+  private readonly x: Float64Array;
+  private readonly y: Float64Array;
+  private readonly vx: Float64Array;
+  private readonly vy: Float64Array;
+  private readonly radius: Float64Array;
+  private readonly charge: Float64Array;
+  private readonly fixed: Uint8Array;
+  private readonly links: Array<{ source: number; target: number; distance: number; strength: number; bias: number }>;
+  private readonly cx: number;
+  private readonly cy: number;
+  private readonly maxRadius: number;
+
+  constructor(nodes: LayoutNode[], edges: LayoutEdge[], options: ForceLayoutOptions) {
+    const n = nodes.length;
+    const start = initialPositions(nodes, edges, options);
+    const index = new Map(nodes.map((node, i) => [node.id, i]));
+
+    this.alpha = options.alpha ?? 1;
+    this.ids = nodes.map(node => node.id);
+    this.x = new Float64Array(n);
+    this.y = new Float64Array(n);
+    this.vx = new Float64Array(n);
+    this.vy = new Float64Array(n);
+    this.radius = new Float64Array(n);
+    this.charge = new Float64Array(n);
+    this.fixed = new Uint8Array(n);
+    this.cx = options.width / 2;
+    this.cy = options.height / 2;
+
+    nodes.forEach((node, i) => {
+      this.x[i] = start[node.id].x;
+      this.y[i] = start[node.id].y;
+      this.radius[i] = radiusOf(node);
+      this.charge[i] = -CHARGE_PER_RADIUS * this.radius[i];
+      this.fixed[i] = options.pinned?.[node.id] ? 1 : 0;
+    });
+    this.maxRadius = n > 0 ? Math.max(...Array.from(this.radius)) : DEFAULT_NODE_SIZE;
+
+    const valid = edges
+      .map(edge => ({ source: index.get(edge.source), target: index.get(edge.target), weight: Math.max(0, edge.weight ?? 1) }))
+      .filter((edge): edge is { source: number; target: number; weight: number } =>
+        edge.source !== undefined && edge.target !== undefined && edge.source !== edge.target);
+    const degree = new Float64Array(n);
+    for (const edge of valid) {
+      degree[edge.source]++;
+      degree[edge.target]++;
+    }
+    const maxWeight = Math.max(...valid.map(edge => edge.weight), 0) || 1;
+    this.links = valid.map(edge => {
+      // 0..1 relative to the heaviest link in the graph
+      const relative = edge.weight / maxWeight;
+      return {
+        source: edge.source,
+        target: edge.target,
+        distance: this.radius[edge.source] + this.radius[edge.target] + LINK_GAP * (1.5 - relative),
+        strength: (0.3 + 0.7 * relative) / Math.min(degree[edge.source], degree[edge.target]),
+        bias: degree[edge.source] / (degree[edge.source] + degree[edge.target]),
+      };
+    });
+  }
+
+  get done(): boolean {
+    return this.alpha < ALPHA_MIN;
+  }
+
+  tick(): void {
+    this.alpha += -this.alpha * ALPHA_DECAY;
+    this.applyLinks();
+    this.applyCharge();
+    this.applyCollisions();
+    this.applyCentering();
+
+    for (let i = 0; i < this.ids.length; i++) {
+      if (this.fixed[i]) {
+        this.vx[i] = 0;
+        this.vy[i] = 0;
+        continue;
+      }
+      this.vx[i] *= 1 - VELOCITY_DECAY;
+      this.vy[i] *= 1 - VELOCITY_DECAY;
+      this.x[i] += this.vx[i];
+      this.y[i] += this.vy[i];
+    }
+  }
+
+  positions(): Positions {
+    const positions: Positions = {};
+    this.ids.forEach((id, i) => {
+      positions[id] = { x: this.x[i], y: this.y[i] };
+    });
+    return positions;
+  }
+
+  private applyLinks() {
+    for (const link of this.links) {
+      const { source, target } = link;
+      let dx = this.x[target] + this.vx[target] - this.x[source] - this.vx[source] || jiggle(source, target);
+      let dy = this.y[target] + this.vy[target] - this.y[source] - this.vy[source] || jiggle(target, source);
+      const length = Math.sqrt(dx * dx + dy * dy);
+      const l = ((length - link.distance) / length) * this.alpha * link.strength;
+      dx *= l;
+      dy *= l;
+      this.vx[target] -= dx * link.bias;
+      this.vy[target] -= dy * link.bias;
+      this.vx[source] += dx * (1 - link.bias);
+      this.vy[source] += dy * (1 - link.bias);
+    }
+  }
+
+  private applyCharge() {
+    const n = this.ids.length;
+    if (n < 2) return;
+
+    let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+    for (let i = 0; i < n; i++) {
+      x0 = Math.min(x0, this.x[i]);
+      y0 = Math.min(y0, this.y[i]);
+      x1 = Math.max(x1, this.x[i]);
+      y1 = Math.max(y1, this.y[i]);
+    }
+    const root = this.buildQuad(Array.from({ length: n }, (_, i) => i), x0, y0, Math.max(x1 - x0, y1 - y0, 1));
+
+    for (let i = 0; i < n; i++) {
+      this.chargeFrom(root, i);
+    }
+  }
+
+  private buildQuad(points: number[], x0: number, y0: number, size: number): Quad {
+    const quad: Quad = { x0, y0, size, cx: 0, cy: 0, charge: 0, points: null, children: [] };
+    if (points.length === 1 || size < MIN_QUAD_SIZE) {
+      quad.points = points;
+      let weight = 0;
+      for (const i of points) {
+        quad.charge += this.charge[i];
+        quad.cx += this.x[i] * -this.charge[i];
+        quad.cy += this.y[i] * -this.charge[i];
+        weight += -this.charge[i];
+      }
+      quad.cx /= weight;
+      quad.cy /= weight;
+      return quad;
+    }
+
+    const half = size / 2;
+    const buckets: number[][] = [[], [], [], []];
+    for (const i of points) {
+      const right = this.x[i] >= x0 + half ? 1 : 0;
+      const bottom = this.y[i] >= y0 + half ? 2 : 0;
+      buckets[right + bottom].push(i);
+    }
+    let weight = 0;
+    buckets.forEach((bucket, b) => {
+      if (bucket.length === 0) return;
+      const child = this.buildQuad(bucket, x0 + (b & 1 ? half : 0), y0 + (b & 2 ? half : 0), half);
+      quad.children.push(child);
+      quad.charge += child.charge;
+      quad.cx += child.cx * -child.charge;
+      quad.cy += child.cy * -child.charge;
+      weight += -child.charge;
+    });
+    quad.cx /= weight;
+    quad.cy /= weight;
+    return quad;
+  }
+
+  private chargeFrom(quad: Quad, i: number) {
+    const dx = quad.cx - this.x[i];
+    const dy = quad.cy - this.y[i];
+    const l = dx * dx + dy * dy;
+
+    // Far enough away to count as one body
+    if (!quad.points && (quad.size * quad.size) / THETA2 < l) {
+      this.push(i, dx, dy, l, quad.charge);
+      return;
+    }
+    if (quad.points) {
+      for (const j of quad.points) {
+        if (j === i) continue;
+        const px = this.x[j] - this.x[i] || jiggle(i, j);
+        const py = this.y[j] - this.y[i] || jiggle(j, i);
+        this.push(i, px, py, px * px + py * py, this.charge[j]);
+      }
+      return;
+    }
+    for (const child of quad.children) this.chargeFrom(child, i);
+  }
+
+  private push(i: number, dx: number, dy: number, l: number, charge: number) {
+    // Soften very close bodies so they don't shoot apart
+    if (l < 1) l = Math.sqrt(l);
+    const scale = (charge * this.alpha) / l;
+    this.vx[i] += dx * scale;
+    this.vy[i] += dy * scale;
+  }
+
+  private applyCollisions() {
+    const n = this.ids.length;
+    const cellSize = this.maxRadius * 2 + COLLISION_PADDING;
+    const grid = new Map<string, number[]>();
+    const cellOf = (value: number) => Math.floor(value / cellSize);
+
+    for (let i = 0; i < n; i++) {
+      const key = `${cellOf(this.x[i] + this.vx[i])}:${cellOf(this.y[i] + this.vy[i])}`;
+      const cell = grid.get(key);
+      if (cell) cell.push(i); else grid.set(key, [i]);
+    }
+
+    for (let i = 0; i < n; i++) {
+      const xi = this.x[i] + this.vx[i];
+      const yi = this.y[i] + this.vy[i];
+      const ri = this.radius[i];
+      const col = cellOf(xi);
+      const row = cellOf(yi);
+      for (let dc = -1; dc <= 1; dc++) {
+        for (let dr = -1; dr <= 1; dr++) {
+          for (const j of grid.get(`${col + dc}:${row + dr}`) ?? []) {
+            if (j <= i) continue;
+            const rj = this.radius[j];
+            const min = ri + rj + COLLISION_PADDING;
+            let dx = xi - this.x[j] - this.vx[j] || jiggle(i, j);
+            let dy = yi - this.y[j] - this.vy[j] || jiggle(j, i);
+            const l2 = dx * dx + dy * dy;
+            if (l2 >= min * min) continue;
+            const l = Math.sqrt(l2);
+            const overlap = ((min - l) / l) * COLLISION_STRENGTH;
+            dx *= overlap;
+            dy *= overlap;
+            // Smaller nodes give way to bigger ones
+            const share = (rj * rj) / (ri * ri + rj * rj);
+            this.vx[i] += dx * share;
+            this.vy[i] += dy * share;
+            this.vx[j] -= dx * (1 - share);
+            this.vy[j] -= dy * (1 - share);
+          }
+        }
+      }
+    }
+  }
+
+  private applyCentering() {
+    for (let i = 0; i < this.ids.length; i++) {
+      this.vx[i] += (this.cx - this.x[i]) * CENTER_STRENGTH * this.alpha;
+      this.vy[i] += (this.cy - this.y[i]) * CENTER_STRENGTH * this.alpha;
+    }
+  }
+}
+
+// Small deterministic nudge for coincident points
+function jiggle(a: number, b: number): number {
+  return ((((a * 31 + b * 17) % 11) - 5) || 1) * 1e-3;
+}
+
+/**
+ * Runs the force simulation until it has cooled down
+ */
+export function forceLayout(nodes: LayoutNode[], edges: LayoutEdge[], options: ForceLayoutOptions): Positions {
+  const simulation = new ForceSimulation(nodes, edges, options);
+  while (!simulation.done) simulation.tick();
+  return simulation.positions();
+}
+
+/**
+ * Nodes on a circle, one connected component after another (largest first)
+ * in depth-first order from their best connected node, so neighbours and
+ * clusters sit next to each other. The circle grows until every node fits without
+ * overlapping; each node gets an arc proportional to its size.
+ */
+export function circularLayout(nodes: LayoutNode[], edges: LayoutEdge[], width: number, height: number): Positions {
+  const positions: Positions = {};
+  const cx = width / 2;
+  const cy = height / 2;
+  if (nodes.length === 0) return positions;
+  if (nodes.length === 1) return { [nodes[0].id]: { x: cx, y: cy } };
+
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const neighbors = new Map<string, Set<string>>(nodes.map(node => [node.id, new Set<string>()]));
+  for (const edge of edges) {
+    if (!byId.has(edge.source) || !byId.has(edge.target) || edge.source === edge.target) continue;
+    neighbors.get(edge.source)!.add(edge.target);
+    neighbors.get(edge.target)!.add(edge.source);
+  }
+  const degree = (id: string) => neighbors.get(id)!.size;
+  const byDegree = (a: string, b: string) => degree(b) - degree(a) || a.localeCompare(b);
+
+  const visited = new Set<string>();
+  const components: string[][] = [];
+  for (const start of nodes.map(node => node.id).sort(byDegree)) {
+    if (visited.has(start)) continue;
+    const component: string[] = [];
+    const stack = [start];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (visited.has(id)) continue;
+      visited.add(id);
+      component.push(id);
+      // Reversed so the best connected neighbour is visited first
+      stack.push(...Array.from(neighbors.get(id)!).filter(next => !visited.has(next)).sort(byDegree).reverse());
+    }
+    components.push(component);
+  }
+  const order = components.sort((a, b) => b.length - a.length).flat();
+
+  const arcs = order.map(id => radiusOf(byId.get(id)!) * 2 + CIRCLE_GAP);
+  const circumference = arcs.reduce((sum, arc) => sum + arc, 0);
+  const maxRadius = Math.max(...order.map(id => radiusOf(byId.get(id)!)));
+  const radius = Math.max(Math.min(width, height) / 2 - maxRadius - CIRCLE_GAP, circumference / (2 * Math.PI));
+
+  // Start at the top and go clockwise
+  let angle = -Math.PI / 2;
+  order.forEach((id, i) => {
+    const half = (arcs[i] / circumference) * Math.PI;
+    angle += half;
+    positions[id] = { x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) };
+    angle += half;
+  });
+  return positions;
+}
+
+/**
+ * Scale and offset that fit the laid out nodes into the viewport. Layouts that
+ * already fit are left alone; larger ones are scaled down and centred.
+ */
+export function fitTransform(nodes: LayoutNode[], positions: Positions, width: number, height: number): ViewTransform {
+  let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+  for (const node of nodes) {
+    const pos = positions[node.id];
+    if (!pos) continue;
+    const r = radiusOf(node);
+    x0 = Math.min(x0, pos.x - r);
+    y0 = Math.min(y0, pos.y - r);
+    x1 = Math.max(x1, pos.x + r);
+    y1 = Math.max(y1, pos.y + r);
+  }
+  if (x0 === Infinity || (x0 >= 0 && y0 >= 0 && x1 <= width && y1 <= height)) return IDENTITY_TRANSFORM;
+
+  const margin = 16;
+  const k = Math.min(1, (width - margin * 2) / (x1 - x0), (height - margin * 2) / (y1 - y0));
+  return { k, x: width / 2 - ((x0 + x1) / 2) * k, y: height / 2 - ((y0 + y1) / 2) * k };
+}
+
+/**
+ * Grid of node positions for hit testing pointer events without scanning
+ * every node.
+ */
+export class NodeIndex {
+  private readonly cells = new Map<string, number[]>();
+  private readonly cellSize: number;
+  private readonly entries: Array<{ id: string; x: number; y: number; r: number }> = [];
+
+  constructor(nodes: LayoutNode[], positions: Positions) {
+    this.cellSize = Math.max(...nodes.map(radiusOf), DEFAULT_NODE_SIZE) * 2;
+    for (const node of nodes) {
+      const pos = positions[node.id];
+      if (!pos) continue;
+      const entry = { id: node.id, x: pos.x, y: pos.y, r: radiusOf(node) };
+      const index = this.entries.push(entry) - 1;
+      for (let col = this.cell(pos.x - entry.r); col <= this.cell(pos.x + entry.r); col++) {
+        for (let row = this.cell(pos.y - entry.r); row <= this.cell(pos.y + entry.r); row++) {
+          const key = `${col}:${row}`;
+          const cell = this.cells.get(key);
+          if (cell) cell.push(index); else this.cells.set(key, [index]);
+        }
+      }
+    }
+  }
+
+  /**
+   * The node under a point, preferring the one drawn last (on top)
+   */
+  find(x: number, y: number): string | null {
+    const cell = this.cells.get(`${this.cell(x)}:${this.cell(y)}`) ?? [];
+    for (let i = cell.length - 1; i >= 0; i--) {
+      const entry = this.entries[cell[i]];
+      const dx = x - entry.x;
+      const dy = y - entry.y;
+      if (dx * dx + dy * dy <= entry.r * entry.r) return entry.id;
+    }
+    return null;
+  }
+
+  private cell(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Runs force layouts off the main thread. Positions are posted while the
+ * simulation cools down so the graph settles on screen; a newer request
+ * replaces the one in progress.
+ */
+import { ForceSimulation, type ForceLayoutRequest, type ForceLayoutResponse } from './graph-layout';
+
+// Work per slice before yielding to incoming messages
+const SLICE_MS = 16;
+const PROGRESS_INTERVAL_MS = 100;
+
+const scope = self as unknown as Worker;
+let latest = 0;
+
+function run(request: ForceLayoutRequest) {
+  const simulation = new ForceSimulation(request.nodes, request.edges, request.options);
+  let lastProgress = performance.now();
+
+  const slice = () => {
+    if (request.id !== latest) return;
+
+    const start = performance.now();
+    while (!simulation.done && performance.now() - start < SLICE_MS) {
+      simulation.tick();
+    }
+
+    const now = performance.now();
+    if (simulation.done || now - lastProgress >= PROGRESS_INTERVAL_MS) {
+      lastProgress = now;
+      const response: ForceLayoutResponse = { id: request.id, positions: simulation.positions(), done: simulation.done };
+      scope.postMessage(response);
+    }
+    if (!simulation.done) setTimeout(slice, 0);
+  };
+
+  slice();
+}
+
+scope.onmessage = (event: MessageEvent<ForceLayoutRequest>) => {
+  latest = event.data.id;
+  run(event.data);
+};
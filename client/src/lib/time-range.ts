@@ -0,0 +1,18 @@
+import { format } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import type { TimeRangeSelection } from "@shared/time-range";
+
+/**
+ * Time selection for data sources from a dashboard's time range buttons and
+ * custom date picker. "custom" carries the picked days; until both ends are
+ * picked the server default applies.
+ */
+export function toTimeRangeSelection(timeRange: string, customRange?: DateRange): TimeRangeSelection {
+  if (timeRange !== "custom") return timeRange;
+  if (!customRange?.from || !customRange?.to) return { preset: "custom" };
+  return {
+    preset: "custom",
+    start: format(customRange.from, "yyyy-MM-dd"),
+    end: format(customRange.to, "yyyy-MM-dd"),
+  };
+}
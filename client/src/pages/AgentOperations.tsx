@@ -16,6 +16,7 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Settings, Eye, RefreshCw, Download, Filter, CalendarIcon } from "lucide-react";
 import { DateRange } from "react-day-picker";
+import { toTimeRangeSelection } from "@/lib/time-range";
 import { format } from "date-fns";
 import { useState, useEffect, useRef, useMemo, useCallback } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
@@ -59,6 +60,7 @@ export default function AgentOperations() {
     return localStorage.getItem('dashboard-timerange') || '24h';
   });
   const [customRange, setCustomRange] = useState<DateRange | undefined>();
+  const timeSelection = toTimeRangeSelection(timeRange, customRange);
   const [showCustomPicker, setShowCustomPicker] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [eventsPage, setEventsPage] = useState(1);
@@ -104,6 +106,10 @@ export default function AgentOperations() {
           // Refresh all data on initial state (no throttle for initial state)
           queryClient.invalidateQueries();
           break;
+        case 'RESYNC_REQUIRED':
+          // Events were missed beyond the replay window; the live feed must be refetched
+          queryClient.invalidateQueries();
+          break;
         case 'CONSUMER_STATUS':
           // Only invalidate health if status actually changed (reduce noise)
           throttledInvalidate(['/api/intelligence/health']);
@@ -115,8 +121,8 @@ export default function AgentOperations() {
 
   // Use centralized data source
   const { data: operationsData, isLoading: metricsLoading, error: metricsError, refetch: refetchMetrics } = useQuery({
-    queryKey: ['agent-operations', timeRange],
-    queryFn: () => agentOperationsSource.fetchAll(timeRange),
+    queryKey: ['agent-operations', timeSelection],
+    queryFn: () => agentOperationsSource.fetchAll(timeSelection),
     refetchInterval: 30000,
     staleTime: 15000,
   });
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AlertCircle, AlertTriangle, BellOff, Check, CheckCircle, History, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type AlertState = "firing" | "acknowledged" | "resolved";
+
+interface AlertTransition {
+  state: AlertState;
+  at: string;
+  note?: string;
+}
+
+interface AlertRecord {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  level: "critical" | "warning";
+  message: string;
+  state: AlertState;
+  firedAt: string;
+  acknowledgedAt?: string;
+  resolvedAt?: string;
+  snoozedUntil?: string;
+  transitions: AlertTransition[];
+}
+
+interface AlertRule {
+  id: string;
+  name: string;
+  metric: string;
+  comparator: "gt" | "gte" | "lt" | "lte";
+  threshold: number;
+  window: string;
+  severity: "critical" | "warning";
+  enabled: boolean;
+}
+
+const COMPARATOR_SYMBOLS: Record<AlertRule["comparator"], string> = {
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+};
+
+const STATE_STYLES: Record<AlertState, string> = {
+  firing: "bg-red-500/10 text-red-500 border-red-500/20",
+  acknowledged: "bg-yellow-500/10 text-yellow-500 border-yellow-500/20",
+  resolved: "bg-green-500/10 text-green-500 border-green-500/20",
+};
+
+function formatDuration(from: string, to?: string): string {
+  const ms = (to ? Date.parse(to) : Date.now()) - Date.parse(from);
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${minutes % 60}m`;
+}
+
+export default function AlertHistory() {
+  const [stateFilter, setStateFilter] = useState<"all" | AlertState>("all");
+
+  const historyKey = stateFilter === "all"
+    ? "/api/intelligence/alerts/history"
+    : `/api/intelligence/alerts/history?state=${stateFilter}`;
+
+  const { data: history, isLoading, refetch } = useQuery<{ alerts: AlertRecord[]; total: number }>({
+    queryKey: [historyKey],
+    refetchInterval: 30000,
+  });
+
+  const { data: rulesData } = useQuery<{ rules: AlertRule[] }>({
+    queryKey: ["/api/intelligence/alerts/rules"],
+  });
+
+  const invalidateAlerts = () => {
+    queryClient.invalidateQueries({ queryKey: [historyKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/intelligence/alerts/active"] });
+  };
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: (alertId: string) =>
+      apiRequest("POST", `/api/intelligence/alerts/${encodeURIComponent(alertId)}/acknowledge`, {}),
+    onSuccess: invalidateAlerts,
+  });
+
+  const snoozeMutation = useMutation({
+    mutationFn: (alertId: string) =>
+      apiRequest("POST", `/api/intelligence/alerts/${encodeURIComponent(alertId)}/snooze`, { minutes: 60 }),
+    onSuccess: invalidateAlerts,
+  });
+
+  const alerts = history?.alerts ?? [];
+  const rules = rulesData?.rules ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Alert History</h1>
+          <p className="ty-subtitle">
+            Alert lifecycle across all rules: firing, acknowledged and resolved
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={stateFilter} onValueChange={(value) => setStateFilter(value as "all" | AlertState)}>
+            <SelectTrigger className="w-[160px]" data-testid="select-alert-state">
+              <SelectValue placeholder="All states" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All states</SelectItem>
+              <SelectItem value="firing">Firing</SelectItem>
+              <SelectItem value="acknowledged">Acknowledged</SelectItem>
+              <SelectItem value="resolved">Resolved</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Alerts */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Alerts</CardTitle>
+          <CardDescription>Newest first, with every state transition</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary" />
+            </div>
+          ) : alerts.length === 0 ? (
+            <div className="flex flex-col items-center justify-center text-center py-12">
+              <History className="w-12 h-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No Alerts</h3>
+              <p className="text-muted-foreground">No alerts have fired for the selected state</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {alerts.map((alert) => {
+                const isOpen = alert.state !== "resolved";
+                const LevelIcon = alert.level === "critical" ? AlertCircle : AlertTriangle;
+                return (
+                  <div
+                    key={alert.id}
+                    className="flex items-start justify-between gap-4 rounded-lg border p-4"
+                    data-testid={`alert-history-${alert.id}`}
+                  >
+                    <div className="flex items-start gap-3">
+                      <LevelIcon
+                        className={`w-5 h-5 mt-0.5 ${alert.level === "critical" ? "text-red-500" : "text-yellow-500"}`}
+                      />
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{alert.message}</span>
+                          <Badge variant="outline" className={STATE_STYLES[alert.state]}>
+                            {alert.state}
+                          </Badge>
+                          {alert.snoozedUntil && Date.parse(alert.snoozedUntil) > Date.now() && (
+                            <Badge variant="outline">
+                              snoozed until {new Date(alert.snoozedUntil).toLocaleTimeString()}
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Rule {alert.ruleId} · fired {new Date(alert.firedAt).toLocaleString()} · open for{" "}
+                          {formatDuration(alert.firedAt, alert.resolvedAt)}
+                        </p>
+                        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+                          {alert.transitions.map((transition, index) => (
+                            <span key={index}>
+                              {transition.state} at {new Date(transition.at).toLocaleTimeString()}
+                              {transition.note ? ` (${transition.note})` : ""}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+                    {isOpen && (
+                      <div className="flex items-center gap-2">
+                        {alert.state === "firing" && (
+                          <Button variant="outline" size="sm" onClick={() => acknowledgeMutation.mutate(alert.id)}>
+                            <Check className="w-4 h-4 mr-2" />
+                            Acknowledge
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => snoozeMutation.mutate(alert.id)}>
+                          <BellOff className="w-4 h-4 mr-2" />
+                          Snooze 1h
+                        </Button>
+                      </div>
+                    )}
+                    {!isOpen && <CheckCircle className="w-5 h-5 text-green-500" />}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rules */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Alert Rules</CardTitle>
+          <CardDescription>Thresholds evaluated every time active alerts are requested</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between text-sm border-b last:border-0 py-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant={rule.severity === "critical" ? "destructive" : "secondary"}>{rule.severity}</Badge>
+                  <span className="font-medium">{rule.name}</span>
+                  {!rule.enabled && <Badge variant="outline">disabled</Badge>}
+                </div>
+                <span className="font-mono text-xs text-muted-foreground">
+                  {rule.metric} {COMPARATOR_SYMBOLS[rule.comparator]} {rule.threshold} over {rule.window}
+                </span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
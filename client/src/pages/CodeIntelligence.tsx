@@ -15,6 +15,7 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { codeIntelligenceSource } from "@/lib/data-sources";
 import { DateRange } from "react-day-picker";
+import { toTimeRangeSelection } from "@/lib/time-range";
 import { format } from "date-fns";
 
 // Types from data source
@@ -25,6 +26,7 @@ export default function CodeIntelligence() {
     return localStorage.getItem('dashboard-timerange') || '24h';
   });
   const [customRange, setCustomRange] = useState<DateRange | undefined>();
+  const timeSelection = toTimeRangeSelection(timeRange, customRange);
   const [showCustomPicker, setShowCustomPicker] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
@@ -35,8 +37,8 @@ export default function CodeIntelligence() {
 
   // Use centralized data source
   const { data: intelligenceData, isLoading, error, refetch } = useQuery({
-    queryKey: ['code-intelligence', timeRange],
-    queryFn: () => codeIntelligenceSource.fetchAll(timeRange),
+    queryKey: ['code-intelligence', timeSelection],
+    queryFn: () => codeIntelligenceSource.fetchAll(timeSelection),
     refetchInterval: 60000,
     refetchIntervalInBackground: true,
   });
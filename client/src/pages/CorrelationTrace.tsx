@@ -1,5 +1,6 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import { Search, Clock, CheckCircle, AlertCircle, Code, Database, Zap, Settings, Download, RefreshCw } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -32,8 +33,17 @@ interface TraceResponse {
 }
 
 export default function CorrelationTrace() {
-  const [correlationId, setCorrelationId] = useState("");
-  const [searchId, setSearchId] = useState<string | null>(null);
+  // Deep links (e.g. from chat answers) open a trace via /trace?id=<correlationId>
+  const linkedId = new URLSearchParams(useSearch()).get("id")?.trim() || null;
+  const [correlationId, setCorrelationId] = useState(linkedId ?? "");
+  const [searchId, setSearchId] = useState<string | null>(linkedId);
+
+  useEffect(() => {
+    if (linkedId) {
+      setCorrelationId(linkedId);
+      setSearchId(linkedId);
+    }
+  }, [linkedId]);
 
   // Fetch trace data when searchId changes, or show sample trace when no search ID
   const { data: traceData, isLoading, error } = useQuery<TraceResponse>({
@@ -93,7 +93,7 @@ export default function DeveloperExperience() {
       switch (message.type) {
         case 'WORKFLOW_COMPLETED':
         case 'AGENT_ACTION_CREATED':
-          queryClient.invalidateQueries({ queryKey: ['http://localhost:8053/api/intelligence/developer/metrics', timeRange] });
+          queryClient.invalidateQueries({ queryKey: ['/api/upstream/api/intelligence/developer/metrics', timeRange] });
           break;
         case 'INITIAL_STATE':
           // Refresh all data on initial state
@@ -106,7 +106,7 @@ export default function DeveloperExperience() {
 
   // Fetch unified developer metrics from omniarchon with 30-second polling
   const { data: metricsData, isLoading: metricsLoading, error: metricsError } = useQuery<DeveloperMetricsResponse>({
-    queryKey: [`http://localhost:8053/api/intelligence/developer/metrics?timeWindow=${timeRange}`],
+    queryKey: [`/api/upstream/api/intelligence/developer/metrics?timeWindow=${timeRange}`],
     refetchInterval: 30000, // Refetch every 30 seconds
   });
 
@@ -7,11 +7,12 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { DashboardSection } from "@/components/DashboardSection";
 import { Activity, Zap, Database, Clock, Download, CalendarIcon } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { MockDataBadge } from "@/components/MockDataBadge";
 import { ensureTimeSeries } from "@/components/mockUtils";
-import { useState, useMemo } from "react";
-import { eventFlowSource } from "@/lib/data-sources";
+import { useState, useMemo, useCallback, useRef } from "react";
+import { eventFlowSource, type Event } from "@/lib/data-sources";
+import { useWebSocket, type WebSocketMessage } from "@/hooks/useWebSocket";
 import { DateRange } from "react-day-picker";
 import { format } from "date-fns";
 
@@ -28,6 +29,9 @@ interface EventStreamResponse {
   total: number;
 }
 
+// Maximum number of live events kept in memory
+const MAX_LIVE_EVENTS = 200;
+
 export default function EventFlow() {
   const [pollingInterval] = useState(30000); // 30 seconds
   const [timeRange, setTimeRange] = useState(() => {
@@ -41,44 +45,76 @@ export default function EventFlow() {
     localStorage.setItem('dashboard-timerange', value);
   };
 
-  // Fetch events with TanStack Query and polling using data source
-  const { data: eventFlowData, isLoading, isError, error, dataUpdatedAt } = useQuery({
+  // Live events pushed over /ws (actions, routing, transformations, performance)
+  const [liveEvents, setLiveEvents] = useState<Event[]>([]);
+  const [liveUpdatedAt, setLiveUpdatedAt] = useState(0);
+
+  const queryClient = useQueryClient();
+  const sendRef = useRef<(message: any) => void>(() => {});
+
+  const { isConnected, send } = useWebSocket({
+    onMessage: useCallback((message: WebSocketMessage) => {
+      if (message.type === 'RESYNC_REQUIRED') {
+        // Events were missed beyond the server's replay window: refetch and request a fresh snapshot
+        queryClient.invalidateQueries({ queryKey: ['events', 'stream'] });
+        sendRef.current({ action: 'getState' });
+        return;
+      }
+
+      const incoming = eventFlowSource.fromWebSocketMessage(message);
+      if (incoming.length === 0) return;
+
+      setLiveEvents(prev => {
+        const seen = new Set(prev.map(e => e.id));
+        const fresh = incoming.filter(e => !seen.has(e.id));
+        return [...fresh, ...prev].slice(0, MAX_LIVE_EVENTS);
+      });
+      setLiveUpdatedAt(Date.now());
+    }, [queryClient]),
+  });
+  sendRef.current = send;
+
+  // Fetch events with TanStack Query; polling is only a fallback while the live stream is down
+  const { data: eventFlowData, isLoading, isError, error, dataUpdatedAt: polledUpdatedAt } = useQuery({
     queryKey: ['events', 'stream'],
     queryFn: () => eventFlowSource.fetchEvents(100),
-    refetchInterval: pollingInterval,
+    refetchInterval: isConnected ? false : pollingInterval,
     refetchOnWindowFocus: true,
   });
 
+  // Merge live and polled events (newest first); mock fallback data is dropped once real events arrive
+  const mergedEvents = useMemo(() => {
+    const polled = eventFlowData && !(eventFlowData.isMock && liveEvents.length > 0) ? eventFlowData.events : [];
+    const byId = new Map<string, Event>();
+    [...liveEvents, ...polled].forEach(e => {
+      if (!byId.has(e.id)) byId.set(e.id, e);
+    });
+    return Array.from(byId.values())
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  }, [eventFlowData, liveEvents]);
+
+  const dataUpdatedAt = Math.max(polledUpdatedAt, liveUpdatedAt);
+
   // Transform to expected format
-  const data: EventStreamResponse = eventFlowData ? {
-    events: eventFlowData.events.map(e => ({
+  const data: EventStreamResponse = {
+    events: mergedEvents.map(e => ({
       id: e.id,
       type: e.type,
       timestamp: e.timestamp,
       data: e.data,
     })),
-    total: eventFlowData.events.length,
-  } : { events: [], total: 0 };
-
-  // Use metrics and chart data from data source
-  const metrics = useMemo(() => {
-    if (!eventFlowData?.metrics) {
-      return {
-        totalEvents: 0,
-        uniqueTypes: 0,
-        eventsPerMinute: 0,
-        avgProcessingTime: 0,
-        topicCounts: new Map<string, number>(),
-      };
-    }
-    return eventFlowData.metrics;
-  }, [eventFlowData]);
+    total: mergedEvents.length,
+  };
+
+  // Metrics and chart data are derived from the merged stream (charts expect oldest first)
+  const metrics = useMemo(() => eventFlowSource.calculateMetrics(mergedEvents), [mergedEvents]);
+  const chartData = useMemo(() => eventFlowSource.generateChartData([...mergedEvents].reverse()), [mergedEvents]);
 
   // Use chart data from data source
-  const throughputDataRaw = eventFlowData?.chartData?.throughput || [];
+  const throughputDataRaw = chartData.throughput;
   const { data: throughputData, isMock: isThroughputMock } = ensureTimeSeries(throughputDataRaw, 10, 6);
 
-  const lagDataRaw = eventFlowData?.chartData?.lag || [];
+  const lagDataRaw = chartData.lag;
   const { data: lagData, isMock: isLagMock } = ensureTimeSeries(lagDataRaw, 3, 1.2);
 
   // Convert topic counts to array for display
@@ -100,9 +136,9 @@ export default function EventFlow() {
   const lastUpdateTime = new Date(dataUpdatedAt).toLocaleTimeString();
 
   // Check if using mock data
-  const usingMockData = isThroughputMock || isLagMock;
+  const usingMockData = isThroughputMock || isLagMock || (!!eventFlowData?.isMock && liveEvents.length === 0);
 
-  if (isLoading) {
+  if (isLoading && liveEvents.length === 0) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="text-center">
@@ -207,7 +243,7 @@ export default function EventFlow() {
             Error loading events: {error instanceof Error ? error.message : 'Unknown error'}
           </p>
           <p className="text-xs text-muted-foreground mt-1">
-            Make sure omniarchon is running at http://localhost:8053
+            Make sure omniarchon is reachable at INTELLIGENCE_SERVICE_URL
           </p>
         </Card>
       )}
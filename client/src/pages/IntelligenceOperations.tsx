@@ -21,6 +21,8 @@ import { DashboardSection } from "@/components/DashboardSection";
 import { ensureTimeSeries, ensureArray } from "@/components/mockUtils";
 import { agentOperationsSource } from "@/lib/data-sources";
 import { DateRange } from "react-day-picker";
+import { toTimeRangeSelection } from "@/lib/time-range";
+import { timeRangeQuery } from "@shared/time-range";
 import { format } from "date-fns";
 
 interface ManifestInjectionHealth {
@@ -98,6 +100,7 @@ export default function IntelligenceOperations() {
   });
   const [liveEvents, setLiveEvents] = useState<LiveEvent[]>([]);
   const [customRange, setCustomRange] = useState<DateRange | undefined>();
+  const timeSelection = toTimeRangeSelection(timeRange, customRange);
   const [showCustomPicker, setShowCustomPicker] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
@@ -184,9 +187,9 @@ export default function IntelligenceOperations() {
         case 'AGENT_METRIC_UPDATE':
         case 'ROUTING_DECISION':
           // Invalidate all intelligence queries when events occur
-          queryClient.invalidateQueries({ queryKey: ['http://localhost:3000/api/intelligence/health/manifest-injection', timeRange] });
-          queryClient.invalidateQueries({ queryKey: ['http://localhost:3000/api/intelligence/metrics/operations-per-minute', timeRange] });
-          queryClient.invalidateQueries({ queryKey: ['http://localhost:3000/api/intelligence/metrics/quality-impact', timeRange] });
+          queryClient.invalidateQueries({ queryKey: ['/api/intelligence/health/manifest-injection', timeRange] });
+          queryClient.invalidateQueries({ queryKey: ['/api/intelligence/metrics/operations-per-minute', timeRange] });
+          queryClient.invalidateQueries({ queryKey: ['/api/intelligence/metrics/quality-impact', timeRange] });
           break;
       }
     },
@@ -195,14 +198,14 @@ export default function IntelligenceOperations() {
 
   // Fetch manifest injection health data (updated via WebSocket)
   const { data: healthData, isLoading: healthLoading } = useQuery<ManifestInjectionHealth>({
-    queryKey: [`http://localhost:3000/api/intelligence/health/manifest-injection?timeWindow=${timeRange}`],
+    queryKey: [`/api/intelligence/health/manifest-injection?${timeRangeQuery(timeSelection)}`],
     refetchInterval: 60000, // Refetch every 60 seconds
   });
 
   // Use data source for all operations data (includes transformations)
   const { data: operationsSourceData, isLoading: operationsSourceLoading, error: operationsError, refetch: refetchOperations } = useQuery({
-    queryKey: ['agent-operations-full', timeRange],
-    queryFn: () => agentOperationsSource.fetchAll(timeRange),
+    queryKey: ['agent-operations-full', timeSelection],
+    queryFn: () => agentOperationsSource.fetchAll(timeSelection),
     refetchInterval: 60000,
   });
 
@@ -214,14 +217,14 @@ export default function IntelligenceOperations() {
 
   // Fetch recent actions as fallback if WebSocket hasn't provided data yet
   const { data: recentActionsData } = useQuery<AgentAction[]>({
-    queryKey: [`http://localhost:3000/api/intelligence/actions/recent?limit=50`],
+    queryKey: [`/api/intelligence/actions/recent?limit=50`],
     refetchInterval: 30000, // Refetch every 30 seconds
     enabled: liveEvents.length === 0 && !isConnected, // Only fetch if no live events and not connected
   });
 
   // Fetch top accessed documents
   const { data: topDocumentsData, isLoading: documentsLoading } = useQuery<TopAccessedDocument[]>({
-    queryKey: [`http://localhost:3000/api/intelligence/documents/top-accessed?timeWindow=${timeRange}&limit=10`],
+    queryKey: [`/api/intelligence/documents/top-accessed?${timeRangeQuery(timeSelection)}&limit=10`],
     refetchInterval: 60000, // Refetch every 60 seconds
   });
 
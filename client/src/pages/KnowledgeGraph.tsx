@@ -1,112 +1,125 @@
 import { MetricCard } from "@/components/MetricCard";
-import { PatternNetwork } from "@/components/PatternNetwork";
-import { DrillDownModal } from "@/components/DrillDownModal";
+import { UnifiedGraph, type GraphNode as UnifiedGraphNode, type GraphEdge as UnifiedGraphEdge } from "@/components/UnifiedGraph";
 import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Database, Network, Link, TrendingUp, Download, CalendarIcon, AlertCircle } from "lucide-react";
-import { useState } from "react";
+import { Database, Network, Link, TrendingUp, Download, CalendarIcon, AlertCircle, Loader2, Expand, RotateCcw } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
 import { MockDataBadge } from "@/components/MockDataBadge";
 import { DashboardSection } from "@/components/DashboardSection";
-import { useQuery } from "@tanstack/react-query";
-import { knowledgeGraphSource } from "@/lib/data-sources";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { knowledgeGraphSource, type GraphNode, type GraphEdge } from "@/lib/data-sources";
+import { toTimeRangeSelection } from "@/lib/time-range";
 import { DateRange } from "react-day-picker";
 import { format } from "date-fns";
 
-// Graph data interfaces from omniarchon endpoint
-interface GraphNode {
-  id: string;
-  label: string;
-  type: string;
-}
+const NODE_TYPES = ["pattern", "document", "service", "agent"] as const;
 
-interface GraphEdge {
-  source: string;
-  target: string;
-  relationship: string;
-}
+const TYPE_COLORS: Record<string, string> = {
+  pattern: "#3b82f6",
+  document: "#10b981",
+  service: "#f59e0b",
+  agent: "#8b5cf6",
+};
+
+// Nodes returned by the first page load; expansions add their neighbourhoods
+const GRAPH_LIMIT = 300;
+const EXPAND_LIMIT = 100;
+// Larger graphs are drawn on a canvas, which stays responsive at thousands of nodes
+const CANVAS_NODE_THRESHOLD = 200;
 
-interface KnowledgeGraphResponse {
+interface GraphState {
   nodes: GraphNode[];
   edges: GraphEdge[];
 }
 
-// Pattern type matching PatternNetwork component expectations
-interface Pattern {
-  id: string;
-  name: string;
-  quality: number;
-  usage: number;
-  category: string;
-  language?: string | null;
-}
+const edgeKey = (edge: GraphEdge) => edge.id ?? `${edge.type ?? "related"}:${edge.source}->${edge.target}`;
 
-interface PatternRelationship {
-  source: string;
-  target: string;
-  type: string;
-  weight: number;
+function mergeGraphs(base: GraphState, addition: GraphState): GraphState {
+  const nodes = new Map(base.nodes.map(node => [node.id, node]));
+  for (const node of addition.nodes) {
+    const existing = nodes.get(node.id);
+    // Keep the smaller count of neighbours still hidden
+    nodes.set(node.id, existing ? { ...existing, hiddenNeighbors: Math.min(existing.hiddenNeighbors ?? 0, node.hiddenNeighbors ?? 0) } : node);
+  }
+  const edges = new Map(base.edges.map(edge => [edgeKey(edge), edge]));
+  for (const edge of addition.edges) edges.set(edgeKey(edge), edge);
+  return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()) };
 }
 
 export default function KnowledgeGraph() {
-  const [selectedNode, setSelectedNode] = useState<Pattern | null>(null);
-  const [panelOpen, setPanelOpen] = useState(false);
+  const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null);
   const [timeRange, setTimeRange] = useState("24h");
   const [customRange, setCustomRange] = useState<DateRange | undefined>();
   const [showCustomPicker, setShowCustomPicker] = useState(false);
+  const [types, setTypes] = useState<string[]>([...NODE_TYPES]);
+  const [expansion, setExpansion] = useState<GraphState>({ nodes: [], edges: [] });
+  const timeSelection = toTimeRangeSelection(timeRange, customRange);
 
   // Use centralized data source
   const { data: graphDataResult, isLoading, isError, error, refetch } = useQuery({
-    queryKey: ['knowledge-graph', timeRange],
-    queryFn: () => knowledgeGraphSource.fetchGraph(timeRange, 1000),
+    queryKey: ['knowledge-graph', timeSelection, types],
+    queryFn: () => knowledgeGraphSource.fetchGraph(timeSelection, GRAPH_LIMIT, { types }),
     refetchInterval: 120000,
   });
 
-  // Transform to expected format
-  const graphData: KnowledgeGraphResponse = graphDataResult ? {
-    nodes: graphDataResult.nodes,
-    edges: graphDataResult.edges.map(e => ({ ...e, relationship: e.type || 'related' })),
-  } : { nodes: [], edges: [] };
+  // Expansions belong to the graph they were made from
+  useEffect(() => {
+    setExpansion({ nodes: [], edges: [] });
+    setSelectedNode(null);
+  }, [timeRange, customRange, types]);
+
+  const expandMutation = useMutation({
+    mutationFn: (focus: string) => knowledgeGraphSource.fetchGraph(timeSelection, EXPAND_LIMIT, { focus, depth: 1, types }),
+    onSuccess: (result, focus) => {
+      setExpansion(current => mergeGraphs(current, {
+        nodes: result.nodes.map(node => (node.id === focus ? { ...node, hiddenNeighbors: 0 } : node)),
+        edges: result.edges,
+      }));
+    },
+  });
+
+  const graphData = useMemo(
+    () => mergeGraphs({ nodes: graphDataResult?.nodes ?? [], edges: graphDataResult?.edges ?? [] }, expansion),
+    [graphDataResult, expansion]
+  );
+
+  const nodeById = useMemo(() => new Map(graphData.nodes.map(node => [node.id, node])), [graphData]);
 
-  // Map GraphNode data to Pattern format for PatternNetwork component
-  const patterns: Pattern[] = (graphData?.nodes || []).map((node) => ({
+  const graphNodes: UnifiedGraphNode[] = graphData.nodes.map(node => ({
     id: node.id,
-    name: node.label,
-    quality: 0.85, // Default quality score for graph nodes
-    usage: 0, // Not available from graph endpoint
-    category: node.type,
-    language: null,
-    // Note: trend and trendPercentage not available from graph endpoint
-    // These would need to be added to the API response for full trend support
+    label: node.label,
+    type: node.type,
+    size: 16 + Math.min(node.degree ?? 0, 10) * 2,
+    color: TYPE_COLORS[node.type],
+    metadata: node,
   }));
 
-  // Map GraphEdge data to PatternRelationship format
-  const relationships: PatternRelationship[] = (graphData?.edges || []).map((edge) => ({
-    source: edge.source,
-    target: edge.target,
-    type: edge.relationship,
-    weight: 1.0, // Default weight
-  }));
+  // Edges to nodes outside the graph (mock data) are dropped
+  const graphEdges: UnifiedGraphEdge[] = graphData.edges
+    .filter(edge => nodeById.has(edge.source) && nodeById.has(edge.target))
+    .map(edge => ({ source: edge.source, target: edge.target, type: edge.type || 'related', weight: edge.weight ?? 1 }));
 
   // Calculate relationship type statistics
-  const relationshipTypes = relationships.reduce((acc, rel) => {
+  const relationshipTypes = graphEdges.reduce((acc, rel) => {
     const existing = acc.find(r => r.type === rel.type);
     if (existing) {
       existing.count++;
     } else {
-      acc.push({ id: rel.type, type: rel.type, count: 1 });
+      acc.push({ id: rel.type!, type: rel.type!, count: 1 });
     }
     return acc;
-  }, [] as Array<{ id: string; type: string; count: number }>);
+  }, [] as Array<{ id: string; type: string; count: number }>).sort((a, b) => b.count - a.count);
 
   // Calculate metrics from real data
-  const totalNodes = patterns.length;
-  const totalRelationships = relationships.length;
+  const totalNodes = graphNodes.length;
+  const totalRelationships = graphEdges.length;
 
-  // Calculate connected components (simplified - count patterns with at least one relationship)
+  // Calculate connected components (simplified - count nodes with at least one relationship)
   const connectedNodeIds = new Set<string>();
-  relationships.forEach(rel => {
+  graphEdges.forEach(rel => {
     connectedNodeIds.add(rel.source);
     connectedNodeIds.add(rel.target);
   });
@@ -119,15 +132,22 @@ export default function KnowledgeGraph() {
     ? (totalRelationships / maxPossibleEdges).toFixed(2)
     : '0.00';
 
-  const handleNodeClick = (pattern: Pattern) => {
-    setSelectedNode(pattern);
-    setPanelOpen(true);
+  const handleNodeClick = (node: UnifiedGraphNode) => {
+    setSelectedNode(nodeById.get(node.id) ?? null);
+  };
+
+  const toggleType = (type: string) => {
+    setTypes(current => {
+      const next = current.includes(type) ? current.filter(t => t !== type) : [...current, type];
+      // At least one type stays selected
+      return next.length > 0 ? NODE_TYPES.filter(t => next.includes(t)) : current;
+    });
   };
 
   const handleExport = () => {
     const exportData = {
-      nodes: patterns,
-      edges: relationships,
+      nodes: graphData.nodes,
+      edges: graphData.edges,
       relationshipTypes,
       metrics: { totalNodes, totalRelationships, connectedComponents, graphDensity },
     };
@@ -172,7 +192,8 @@ export default function KnowledgeGraph() {
     );
   }
 
-  const usingMockData = patterns.length === 0;
+  const usingMockData = graphDataResult?.isMock ?? false;
+  const meta = graphDataResult?.meta;
 
   return (
     <div className="space-y-6">
@@ -181,6 +202,7 @@ export default function KnowledgeGraph() {
           <h1 className="text-3xl font-bold">Knowledge Graph</h1>
           <p className="ty-subtitle">
             Interactive exploration of {totalNodes.toLocaleString()} nodes and their relationships
+            {meta?.truncated && ` (best connected ${GRAPH_LIMIT} of ${meta.totalNodes.toLocaleString()})`}
           </p>
         </div>
         <div className="flex items-center gap-2">
@@ -254,7 +276,7 @@ export default function KnowledgeGraph() {
             )}
           </div>
 
-          <Button variant="outline" size="sm" onClick={handleExport} disabled={patterns.length === 0}>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={totalNodes === 0}>
             <Download className="w-4 h-4 mr-2" />
             Export
           </Button>
@@ -290,88 +312,136 @@ export default function KnowledgeGraph() {
         </div>
       </DashboardSection>
 
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">Show:</span>
+        {NODE_TYPES.map(type => (
+          <Button
+            key={type}
+            variant={types.includes(type) ? "default" : "outline"}
+            size="sm"
+            className="capitalize"
+            onClick={() => toggleType(type)}
+          >
+            <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: TYPE_COLORS[type] }} />
+            {type}s
+          </Button>
+        ))}
+        {expansion.nodes.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => setExpansion({ nodes: [], edges: [] })}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Collapse expansions
+          </Button>
+        )}
+      </div>
+
       <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
         <div className="xl:col-span-3">
-          {patterns.length === 0 ? (
-            <Card className="p-6">
-              <PatternNetwork
-                patterns={[
-                  { id: 'p1', name: 'Event Bus Producer', quality: 0.92, usage: 12, category: 'effect', language: 'python' },
-                  { id: 'p2', name: 'Semantic Cache Reducer', quality: 0.88, usage: 9, category: 'reducer', language: 'python' },
-                  { id: 'p3', name: 'Pattern Similarity Scorer', quality: 0.9, usage: 14, category: 'compute', language: 'python' },
-                ]}
-                height={600}
-                onPatternClick={handleNodeClick}
-              />
+          {totalNodes === 0 ? (
+            <Card className="p-6 flex items-center justify-center h-[600px] text-sm text-muted-foreground">
+              No patterns, documents, services or agents in this time range
             </Card>
           ) : (
-            <PatternNetwork patterns={patterns} height={600} onPatternClick={handleNodeClick} />
+            <UnifiedGraph
+              nodes={graphNodes}
+              edges={graphEdges}
+              layout={{ type: "force" }}
+              height="600px"
+              interactive={true}
+              zoomable={true}
+              renderMode={totalNodes > CANVAS_NODE_THRESHOLD ? "canvas" : "svg"}
+              searchable={true}
+              pathFinding={true}
+              neighborhoodFocus={true}
+              clustering={true}
+              exportFilename="knowledge-graph"
+              showLegend={true}
+              colorScheme={TYPE_COLORS}
+              onNodeClick={handleNodeClick}
+              title="Knowledge Graph"
+              subtitle="Select a node to expand its neighbourhood; drag nodes to pin them"
+            />
           )}
         </div>
 
-        <Card className="p-6">
-          <h3 className="text-base font-semibold mb-4">Relationship Types</h3>
-          {relationshipTypes.length === 0 ? (
-            <div className="space-y-3">
-              {[
-                { id: 'rel_depends_on', type: 'depends_on', count: 12 },
-                { id: 'rel_uses', type: 'uses', count: 7 },
-                { id: 'rel_related_to', type: 'related_to', count: 4 },
-              ].map((rel) => (
-                <div key={rel.id} className="p-3 rounded-lg border border-card-border">
-                  <div className="text-sm font-medium font-mono mb-1">
-                    {rel.type.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase())}
-                  </div>
-                  <div className="text-2xl font-bold font-mono">{rel.count.toLocaleString()}</div>
-                </div>
-              ))}
-            </div>
-          ) : (
-            <div className="space-y-3">
-              {relationshipTypes.slice(0, 6).map((rel) => (
-                <div
-                  key={rel.id}
-                  className="p-3 rounded-lg border border-card-border"
-                >
-                  <div className="text-sm font-medium font-mono mb-1">
-                    {rel.type.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase())}
-                  </div>
-                  <div className="text-2xl font-bold font-mono">{rel.count.toLocaleString()}</div>
+        <div className="space-y-6">
+          {selectedNode && (
+            <Card className="p-6">
+              <div className="flex items-start justify-between gap-2 mb-2">
+                <h3 className="text-base font-semibold break-all">{selectedNode.label}</h3>
+                <Badge variant="outline" className="capitalize">{selectedNode.type}</Badge>
+              </div>
+              <div className="text-xs font-mono text-muted-foreground break-all mb-4">{selectedNode.id}</div>
+              <div className="space-y-1 text-xs mb-4">
+                {Object.entries(selectedNode.properties ?? {})
+                  .filter(([, value]) => value !== null && value !== undefined && value !== '')
+                  .map(([key, value]) => (
+                    <div key={key} className="flex justify-between gap-4">
+                      <span className="text-muted-foreground">{key}</span>
+                      <span className="font-mono text-right break-all">{String(value)}</span>
+                    </div>
+                  ))}
+                <div className="flex justify-between gap-4">
+                  <span className="text-muted-foreground">connections</span>
+                  <span className="font-mono">{selectedNode.degree ?? 0}</span>
                 </div>
-              ))}
-            </div>
+              </div>
+              <Button
+                size="sm"
+                className="w-full"
+                onClick={() => expandMutation.mutate(selectedNode.id)}
+                disabled={usingMockData || expandMutation.isPending || (nodeById.get(selectedNode.id)?.hiddenNeighbors ?? 0) === 0}
+              >
+                {expandMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Expand className="w-4 h-4 mr-2" />}
+                Expand ({nodeById.get(selectedNode.id)?.hiddenNeighbors ?? 0} hidden)
+              </Button>
+              {expandMutation.isError && (
+                <div className="text-xs text-destructive mt-2">{(expandMutation.error as Error).message}</div>
+              )}
+            </Card>
           )}
 
-          <div className="mt-6 p-4 rounded-lg bg-primary/5 border border-primary/10">
-            <h4 className="text-sm font-medium mb-2">Graph Statistics</h4>
-            <div className="space-y-2 text-xs text-muted-foreground">
-              <div className="flex justify-between">
-                <span>Avg Degree:</span>
-                <span className="font-mono text-foreground">
-                  {totalNodes > 0 ? (totalRelationships / totalNodes).toFixed(1) : '0.0'}
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span>Nodes:</span>
-                <span className="font-mono text-foreground">{totalNodes}</span>
+          <Card className="p-6">
+            <h3 className="text-base font-semibold mb-4">Relationship Types</h3>
+            {relationshipTypes.length === 0 ? (
+              <div className="text-sm text-muted-foreground">No relationships in this graph</div>
+            ) : (
+              <div className="space-y-3">
+                {relationshipTypes.slice(0, 6).map((rel) => (
+                  <div
+                    key={rel.id}
+                    className="p-3 rounded-lg border border-card-border"
+                  >
+                    <div className="text-sm font-medium font-mono mb-1">
+                      {rel.type.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase())}
+                    </div>
+                    <div className="text-2xl font-bold font-mono">{rel.count.toLocaleString()}</div>
+                  </div>
+                ))}
               </div>
-              <div className="flex justify-between">
-                <span>Density:</span>
-                <span className="font-mono text-foreground">{graphDensity}</span>
+            )}
+
+            <div className="mt-6 p-4 rounded-lg bg-primary/5 border border-primary/10">
+              <h4 className="text-sm font-medium mb-2">Graph Statistics</h4>
+              <div className="space-y-2 text-xs text-muted-foreground">
+                <div className="flex justify-between">
+                  <span>Avg Degree:</span>
+                  <span className="font-mono text-foreground">
+                    {totalNodes > 0 ? (totalRelationships / totalNodes).toFixed(1) : '0.0'}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Nodes:</span>
+                  <span className="font-mono text-foreground">{totalNodes}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Density:</span>
+                  <span className="font-mono text-foreground">{graphDensity}</span>
+                </div>
               </div>
             </div>
-          </div>
-        </Card>
+          </Card>
+        </div>
       </div>
-
-      <DrillDownModal
-        open={panelOpen}
-        onOpenChange={setPanelOpen}
-        title={selectedNode?.name || "Node Details"}
-        data={selectedNode || {}}
-        type="pattern"
-        variant="modal"
-      />
     </div>
   );
 }
@@ -17,6 +17,7 @@ import { useState, useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { patternLearningSource } from "@/lib/data-sources";
 import { DateRange } from "react-day-picker";
+import { toTimeRangeSelection } from "@/lib/time-range";
 import { format } from "date-fns";
 import type {
   DiscoveredPattern,
@@ -42,6 +43,7 @@ export default function PatternLearning() {
     return localStorage.getItem('dashboard-timerange') || '24h';
   });
   const [customRange, setCustomRange] = useState<DateRange | undefined>();
+  const timeSelection = toTimeRangeSelection(timeRange, customRange);
   const [showCustomPicker, setShowCustomPicker] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
@@ -58,29 +60,29 @@ export default function PatternLearning() {
 
   // Fetch pattern summary metrics with 30-second polling
   const { data: summary, isLoading: summaryLoading, error: summaryError } = useQuery<PatternSummary>({
-    queryKey: ['patterns', 'summary', timeRange],
-    queryFn: () => patternLearningSource.fetchSummary(timeRange),
+    queryKey: ['patterns', 'summary', timeSelection],
+    queryFn: () => patternLearningSource.fetchSummary(timeSelection),
     refetchInterval: 30000, // Refetch every 30 seconds
   });
 
   // Fetch pattern discovery trends with 60-second polling
   const { data: discoveryData, isLoading: discoveryLoading } = useQuery<PatternTrend[]>({
-    queryKey: ['patterns', 'trends', timeRange],
-    queryFn: () => patternLearningSource.fetchTrends(timeRange),
+    queryKey: ['patterns', 'trends', timeSelection],
+    queryFn: () => patternLearningSource.fetchTrends(timeSelection),
     refetchInterval: 60000, // Refetch every 60 seconds
   });
 
   // Fetch pattern quality trends with 60-second polling
   const { data: qualityData, isLoading: qualityLoading } = useQuery<QualityTrend[]>({
-    queryKey: ['patterns', 'quality-trends', timeRange],
-    queryFn: () => patternLearningSource.fetchQualityTrends(timeRange),
+    queryKey: ['patterns', 'quality-trends', timeSelection],
+    queryFn: () => patternLearningSource.fetchQualityTrends(timeSelection),
     refetchInterval: 60000, // Refetch every 60 seconds
   });
 
   // Fetch pattern list with 30-second polling
   const { data: patterns, isLoading: patternsLoading, error: patternsError } = useQuery<Pattern[]>({
-    queryKey: ['patterns', 'list', timeRange],
-    queryFn: () => patternLearningSource.fetchPatternList(50, timeRange),
+    queryKey: ['patterns', 'list', timeSelection],
+    queryFn: () => patternLearningSource.fetchPatternList(50, timeSelection),
     refetchInterval: 30000, // Refetch every 30 seconds
   });
 
@@ -94,8 +96,8 @@ export default function PatternLearning() {
 
   // Fetch language breakdown with 60-second polling
   const { data: languageData, isLoading: languageLoading } = useQuery<LanguageBreakdown[]>({
-    queryKey: ['patterns', 'language-breakdown', timeRange],
-    queryFn: () => patternLearningSource.fetchLanguageBreakdown(timeRange),
+    queryKey: ['patterns', 'language-breakdown', timeSelection],
+    queryFn: () => patternLearningSource.fetchLanguageBreakdown(timeSelection),
     refetchInterval: 60000, // Refetch every 60 seconds
   });
 
@@ -0,0 +1,323 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { GitCompare, Loader2, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+
+type OutcomeComparison = "better" | "worse" | "same" | "unknown";
+
+interface ReplayAgentStats {
+  agent: string;
+  historical: number;
+  replayed: number;
+  agreed: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+interface ReplayChange {
+  id: string;
+  userRequest: string;
+  createdAt: string;
+  historicalAgent: string;
+  replayedAgent: string;
+  confidence: number;
+  strategy: string;
+  outcome: OutcomeComparison;
+}
+
+interface RoutingReplayReport {
+  window: { from: string; to: string };
+  whatIf: string[];
+  total: number;
+  evaluated: number;
+  truncated: boolean;
+  replayed: number;
+  skipped: number;
+  agreement: { count: number; rate: number };
+  agents: string[];
+  confusionMatrix: number[][];
+  perAgent: ReplayAgentStats[];
+  outcomes: {
+    disagreements: number;
+    better: number;
+    worse: number;
+    same: number;
+    unknown: number;
+    betterRate: number;
+  };
+  strategies: Record<string, number>;
+  changes: ReplayChange[];
+}
+
+const OUTCOME_STYLES: Record<OutcomeComparison, string> = {
+  better: "bg-green-500/10 text-green-500 border-green-500/20",
+  worse: "bg-red-500/10 text-red-500 border-red-500/20",
+  same: "bg-blue-500/10 text-blue-500 border-blue-500/20",
+  unknown: "bg-muted text-muted-foreground",
+};
+
+function percent(value: number | null): string {
+  return value === null ? "—" : `${(value * 100).toFixed(1)}%`;
+}
+
+function shortName(agent: string): string {
+  return agent.replace(/^agent-/, "");
+}
+
+function ConfusionMatrix({ agents, matrix }: { agents: string[]; matrix: number[][] }) {
+  const max = Math.max(1, ...matrix.flat());
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs border-collapse">
+        <thead>
+          <tr>
+            <th className="p-2 text-left text-muted-foreground font-normal">historical ↓ / replayed →</th>
+            {agents.map(agent => (
+              <th key={agent} className="p-2 font-mono font-normal">{shortName(agent)}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.map((row, i) => (
+            <tr key={agents[i]}>
+              <td className="p-2 font-mono">{shortName(agents[i])}</td>
+              {row.map((count, j) => (
+                <td
+                  key={agents[j]}
+                  className={`p-2 text-center border ${i === j ? "font-semibold" : ""}`}
+                  style={{
+                    backgroundColor: count > 0
+                      ? `hsl(${i === j ? "142 71% 45%" : "0 84% 60%"} / ${0.1 + (count / max) * 0.5})`
+                      : undefined,
+                  }}
+                >
+                  {count || ""}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function RoutingReplay() {
+  const [timeWindow, setTimeWindow] = useState("7d");
+  const [overrides, setOverrides] = useState("");
+  const [overrideError, setOverrideError] = useState<string | null>(null);
+
+  const replayMutation = useMutation({
+    mutationFn: async (body: Record<string, unknown>) => {
+      const res = await apiRequest("POST", "/api/agents/routing/replay", body);
+      return res.json() as Promise<RoutingReplayReport>;
+    },
+  });
+
+  const runReplay = () => {
+    let agents: unknown;
+    if (overrides.trim()) {
+      try {
+        agents = JSON.parse(overrides);
+      } catch {
+        setOverrideError("What-if overrides must be a JSON object keyed by agent name");
+        return;
+      }
+    }
+    setOverrideError(null);
+    replayMutation.mutate(agents ? { timeWindow, agents } : { timeWindow });
+  };
+
+  const report = replayMutation.data;
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Routing Replay</h1>
+          <p className="ty-subtitle">
+            Replay historical requests through the current router and compare with past selections
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={timeWindow} onValueChange={setTimeWindow}>
+            <SelectTrigger className="w-[140px]" data-testid="select-replay-window">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="24h">Last 24 hours</SelectItem>
+              <SelectItem value="7d">Last 7 days</SelectItem>
+              <SelectItem value="30d">Last 30 days</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={runReplay} disabled={replayMutation.isPending} data-testid="button-run-replay">
+            {replayMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+            Run replay
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">What-if overrides</CardTitle>
+          <CardDescription>
+            Optional proposed definition changes, e.g. {"{\"agent-testing\": {\"activation_triggers\": [\"test\", \"qa\"]}}"}.
+            They are applied to this replay only, not to the registry.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Label htmlFor="replay-overrides" className="sr-only">Overrides</Label>
+          <Textarea
+            id="replay-overrides"
+            rows={4}
+            className="font-mono text-xs"
+            value={overrides}
+            onChange={e => setOverrides(e.target.value)}
+          />
+          {overrideError && <div className="text-sm text-destructive">{overrideError}</div>}
+          {replayMutation.isError && (
+            <div className="text-sm text-destructive">{(replayMutation.error as Error).message}</div>
+          )}
+        </CardContent>
+      </Card>
+
+      {!report && !replayMutation.isPending && (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <GitCompare className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            Run a replay to evaluate the router against recorded routing decisions
+          </CardContent>
+        </Card>
+      )}
+
+      {report && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Replayed requests</CardDescription>
+                <CardTitle className="text-2xl">{report.replayed.toLocaleString()}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                {report.skipped > 0 ? `${report.skipped} could not be routed` : "All requests routed"}
+                {report.truncated && (
+                  <div>Newest {report.evaluated.toLocaleString()} of {report.total.toLocaleString()} in the window</div>
+                )}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Agreement with history</CardDescription>
+                <CardTitle className="text-2xl">{percent(report.agreement.rate)}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                {report.agreement.count} same selections
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Better observed outcomes</CardDescription>
+                <CardTitle className="text-2xl">{percent(report.outcomes.betterRate)}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                of {report.outcomes.disagreements} changed selections
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Changed selections</CardDescription>
+                <CardTitle className="text-2xl">{report.outcomes.disagreements}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                {report.outcomes.better} better · {report.outcomes.worse} worse · {report.outcomes.same} same · {report.outcomes.unknown} unknown
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Confusion Matrix</CardTitle>
+                <CardDescription>
+                  {new Date(report.window.from).toLocaleString()} – {new Date(report.window.to).toLocaleString()}
+                  {report.whatIf.length > 0 && ` · what-if: ${report.whatIf.join(", ")}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {report.agents.length === 0
+                  ? <div className="text-sm text-muted-foreground">No routing decisions in this window</div>
+                  : <ConfusionMatrix agents={report.agents} matrix={report.confusionMatrix} />}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Per Agent</CardTitle>
+                <CardDescription>Precision and recall of the replayed selections against history</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-muted-foreground text-left">
+                      <th className="py-1 font-normal">Agent</th>
+                      <th className="py-1 font-normal text-right">Historical</th>
+                      <th className="py-1 font-normal text-right">Replayed</th>
+                      <th className="py-1 font-normal text-right">Precision</th>
+                      <th className="py-1 font-normal text-right">Recall</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.perAgent.map(stats => (
+                      <tr key={stats.agent} className="border-t">
+                        <td className="py-1 font-mono text-xs">{stats.agent}</td>
+                        <td className="py-1 text-right">{stats.historical}</td>
+                        <td className="py-1 text-right">{stats.replayed}</td>
+                        <td className="py-1 text-right">{percent(stats.precision)}</td>
+                        <td className="py-1 text-right">{percent(stats.recall)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="flex flex-wrap gap-1 mt-4">
+                  {Object.entries(report.strategies).map(([strategy, count]) => (
+                    <Badge key={strategy} variant="secondary" className="text-xs">{strategy}: {count}</Badge>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Changed Selections</CardTitle>
+              <CardDescription>Requests the router would now send to a different agent</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {report.changes.length === 0 && (
+                <div className="text-sm text-muted-foreground">The router agrees with every recorded selection</div>
+              )}
+              {report.changes.map(change => (
+                <div key={change.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+                  <div className="min-w-0">
+                    <div className="text-sm truncate">{change.userRequest}</div>
+                    <div className="text-xs text-muted-foreground font-mono">
+                      {change.historicalAgent} → {change.replayedAgent} · {change.strategy} · {percent(change.confidence)}
+                    </div>
+                  </div>
+                  <Badge variant="outline" className={OUTCOME_STYLES[change.outcome]}>{change.outcome}</Badge>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
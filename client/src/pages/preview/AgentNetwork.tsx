@@ -6,6 +6,8 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { MockDataBadge } from "@/components/MockDataBadge";
 import { UnifiedGraph, type GraphNode, type GraphEdge } from "@/components/UnifiedGraph";
+import { AgentDependencyGraph } from "@/components/AgentDependencyGraph";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Network,
   Search,
@@ -364,189 +366,206 @@ export default function AgentNetwork() {
         </div>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
-        {/* Network Visualization */}
-        <div className="lg:col-span-3">
-          <UnifiedGraph
-            nodes={graphNodes}
-            edges={graphEdges}
-            layout={customLayout}
-            height="600px"
-            interactive={true}
-            zoomable={false}
-            showLegend={true}
-            colorScheme={graphColorScheme}
-            onNodeClick={handleNodeClick}
-            title="Agent Network Graph"
-            subtitle="Interactive visualization of agent relationships and dependencies"
-          />
-
-          {/* Agent Cards (standardized with Agent Management styling) */}
-          <div className="mt-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>Agents</CardTitle>
-                <CardDescription>Standardized agent cards for clarity and consistency</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
-                  {nodes.map((n) => (
-                    <div
-                      key={n.id}
-                      className="p-4 border rounded-lg hover:shadow-md transition-shadow cursor-pointer bg-card"
-                      onClick={() => setSelectedNode(n)}
-                    >
-                      <div className="flex items-center justify-between mb-3">
-                        <div className="flex items-center gap-2">
-                          <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
-                            <Bot className="w-4 h-4 text-primary" />
+      <Tabs defaultValue="routing" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="routing">Routing</TabsTrigger>
+          <TabsTrigger value="dependencies">Dependencies</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="dependencies">
+          <AgentDependencyGraph />
+        </TabsContent>
+
+        <TabsContent value="routing">
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            {/* Network Visualization */}
+            <div className="lg:col-span-3">
+              <UnifiedGraph
+                nodes={graphNodes}
+                edges={graphEdges}
+                layout={customLayout}
+                height="600px"
+                interactive={true}
+                zoomable={false}
+                searchable={true}
+                pathFinding={true}
+                neighborhoodFocus={true}
+                clustering={true}
+                showLegend={true}
+                colorScheme={graphColorScheme}
+                onNodeClick={handleNodeClick}
+                title="Agent Network Graph"
+                subtitle="Interactive visualization of agent relationships and dependencies"
+              />
+
+              {/* Agent Cards (standardized with Agent Management styling) */}
+              <div className="mt-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Agents</CardTitle>
+                    <CardDescription>Standardized agent cards for clarity and consistency</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
+                      {nodes.map((n) => (
+                        <div
+                          key={n.id}
+                          className="p-4 border rounded-lg hover:shadow-md transition-shadow cursor-pointer bg-card"
+                          onClick={() => setSelectedNode(n)}
+                        >
+                          <div className="flex items-center justify-between mb-3">
+                            <div className="flex items-center gap-2">
+                              <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
+                                <Bot className="w-4 h-4 text-primary" />
+                              </div>
+                              <div>
+                                <div className="font-semibold leading-tight">{n.title}</div>
+                                <div className="text-xs text-muted-foreground">{n.name}</div>
+                              </div>
+                            </div>
+                            <Badge variant="outline" className="capitalize">
+                              {n.category}
+                            </Badge>
                           </div>
-                          <div>
-                            <div className="font-semibold leading-tight">{n.title}</div>
-                            <div className="text-xs text-muted-foreground">{n.name}</div>
+
+                          <div className="grid grid-cols-3 gap-2 text-center">
+                            <div className="border rounded p-2">
+                              <div className="text-xs text-muted-foreground">Success</div>
+                              <div className="text-sm font-medium">{Math.max(0, Math.min(100, n.performance.successRate)).toFixed(1)}%</div>
+                            </div>
+                            <div className="border rounded p-2">
+                              <div className="text-xs text-muted-foreground">Efficiency</div>
+                              <div className="text-sm font-medium">{Math.max(0, Math.min(100, n.performance.efficiency)).toFixed(1)}%</div>
+                            </div>
+                            <div className="border rounded p-2">
+                              <div className="text-xs text-muted-foreground">Runs</div>
+                              <div className="text-sm font-medium">{n.performance.totalRuns.toLocaleString()}</div>
+                            </div>
                           </div>
                         </div>
-                        <Badge variant="outline" className="capitalize">
-                          {n.category}
-                        </Badge>
-                      </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+
+            {/* Agent Details */}
+            <div className="space-y-4">
+              {selectedNode ? (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Bot className="w-5 h-5" />
+                      {selectedNode.title}
+                    </CardTitle>
+                    <CardDescription>{selectedNode.name}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div>
+                      <div className="text-sm font-medium mb-2">Category</div>
+                      <Badge variant="outline" className="capitalize">
+                        {selectedNode.category}
+                      </Badge>
+                    </div>
 
-                      <div className="grid grid-cols-3 gap-2 text-center">
-                        <div className="border rounded p-2">
-                          <div className="text-xs text-muted-foreground">Success</div>
-                          <div className="text-sm font-medium">{Math.max(0, Math.min(100, n.performance.successRate)).toFixed(1)}%</div>
+                    <div>
+                      <div className="text-sm font-medium mb-2">Performance</div>
+                      <div className="space-y-2">
+                        <div className="flex justify-between text-sm">
+                          <span>Success Rate</span>
+                          <span className="font-medium">{Math.max(0, Math.min(100, selectedNode.performance.successRate)).toFixed(1)}%</span>
                         </div>
-                        <div className="border rounded p-2">
-                          <div className="text-xs text-muted-foreground">Efficiency</div>
-                          <div className="text-sm font-medium">{Math.max(0, Math.min(100, n.performance.efficiency)).toFixed(1)}%</div>
+                        <div className="flex justify-between text-sm">
+                          <span>Efficiency</span>
+                          <span className="font-medium">{Math.max(0, Math.min(100, selectedNode.performance.efficiency)).toFixed(1)}%</span>
                         </div>
-                        <div className="border rounded p-2">
-                          <div className="text-xs text-muted-foreground">Runs</div>
-                          <div className="text-sm font-medium">{n.performance.totalRuns.toLocaleString()}</div>
+                        <div className="flex justify-between text-sm">
+                          <span>Total Runs</span>
+                          <span className="font-medium">{selectedNode.performance.totalRuns.toLocaleString()}</span>
                         </div>
                       </div>
                     </div>
-                  ))}
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-        </div>
 
-        {/* Agent Details */}
-        <div className="space-y-4">
-          {selectedNode ? (
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Bot className="w-5 h-5" />
-                  {selectedNode.title}
-                </CardTitle>
-                <CardDescription>{selectedNode.name}</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <div className="text-sm font-medium mb-2">Category</div>
-                  <Badge variant="outline" className="capitalize">
-                    {selectedNode.category}
-                  </Badge>
-                </div>
-
-                <div>
-                  <div className="text-sm font-medium mb-2">Performance</div>
-                  <div className="space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span>Success Rate</span>
-                      <span className="font-medium">{Math.max(0, Math.min(100, selectedNode.performance.successRate)).toFixed(1)}%</span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span>Efficiency</span>
-                      <span className="font-medium">{Math.max(0, Math.min(100, selectedNode.performance.efficiency)).toFixed(1)}%</span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span>Total Runs</span>
-                      <span className="font-medium">{selectedNode.performance.totalRuns.toLocaleString()}</span>
-                    </div>
-                  </div>
-                </div>
-
-                <div>
-                  <div className="text-sm font-medium mb-2">Connections</div>
-                  <div className="space-y-1">
-                    {selectedNode.connections.map(connectionId => {
-                      const connection = nodes.find(n => n.id === connectionId);
-                      if (!connection) return null;
+                    <div>
+                      <div className="text-sm font-medium mb-2">Connections</div>
+                      <div className="space-y-1">
+                        {selectedNode.connections.map(connectionId => {
+                          const connection = nodes.find(n => n.id === connectionId);
+                          if (!connection) return null;
                       
-                      const Icon = getCategoryIcon(connection.category);
-                      return (
-                        <div key={connectionId} className="flex items-center gap-2 text-sm">
-                          <Icon className="w-4 h-4" />
-                          <span>{connection.title}</span>
-                        </div>
-                      );
-                    })}
-                  </div>
-                </div>
-
-                <Button className="w-full" size="sm">
-                  <Eye className="w-4 h-4 mr-2" />
-                  View Details
-                </Button>
-              </CardContent>
-            </Card>
-          ) : (
-            <Card>
-              <CardHeader>
-                <CardTitle>Network Overview</CardTitle>
-                <CardDescription>Click on a node to view details</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <div className="text-center text-sm text-muted-foreground">
-                    <Network className="w-8 h-8 mx-auto mb-2 opacity-50" />
-                    <p>Select an agent node to view its details and connections</p>
-                  </div>
-                  
-                  <div className="space-y-2">
-                    <div className="text-sm font-medium">Network Stats</div>
-                    <div className="grid grid-cols-2 gap-2 text-xs">
-                      <div>
-                        <div className="text-muted-foreground">Total Agents</div>
-                        <div className="font-medium">{nodes.length}</div>
+                          const Icon = getCategoryIcon(connection.category);
+                          return (
+                            <div key={connectionId} className="flex items-center gap-2 text-sm">
+                              <Icon className="w-4 h-4" />
+                              <span>{connection.title}</span>
+                            </div>
+                          );
+                        })}
                       </div>
-                      <div>
-                        <div className="text-muted-foreground">Connections</div>
-                        <div className="font-medium">{connections.length}</div>
+                    </div>
+
+                    <Button className="w-full" size="sm">
+                      <Eye className="w-4 h-4 mr-2" />
+                      View Details
+                    </Button>
+                  </CardContent>
+                </Card>
+              ) : (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Network Overview</CardTitle>
+                    <CardDescription>Click on a node to view details</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      <div className="text-center text-sm text-muted-foreground">
+                        <Network className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                        <p>Select an agent node to view its details and connections</p>
+                      </div>
+                  
+                      <div className="space-y-2">
+                        <div className="text-sm font-medium">Network Stats</div>
+                        <div className="grid grid-cols-2 gap-2 text-xs">
+                          <div>
+                            <div className="text-muted-foreground">Total Agents</div>
+                            <div className="font-medium">{nodes.length}</div>
+                          </div>
+                          <div>
+                            <div className="text-muted-foreground">Connections</div>
+                            <div className="font-medium">{connections.length}</div>
+                          </div>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          )}
-
-          {/* Network Controls */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Network Controls</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-2">
-              <Button variant="outline" size="sm" className="w-full">
-                <Filter className="w-4 h-4 mr-2" />
-                Filter by Category
-              </Button>
-              <Button variant="outline" size="sm" className="w-full">
-                <Search className="w-4 h-4 mr-2" />
-                Search Agents
-              </Button>
-              <Button variant="outline" size="sm" className="w-full">
-                <Activity className="w-4 h-4 mr-2" />
-                Show Performance
-              </Button>
-            </CardContent>
-          </Card>
-        </div>
-      </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Network Controls */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Network Controls</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <Button variant="outline" size="sm" className="w-full">
+                    <Filter className="w-4 h-4 mr-2" />
+                    Filter by Category
+                  </Button>
+                  <Button variant="outline" size="sm" className="w-full">
+                    <Search className="w-4 h-4 mr-2" />
+                    Search Agents
+                  </Button>
+                  <Button variant="outline" size="sm" className="w-full">
+                    <Activity className="w-4 h-4 mr-2" />
+                    Show Performance
+                  </Button>
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
@@ -858,6 +858,7 @@ export default function AgentRegistry() {
         agent={selectedAgent}
         isOpen={!!selectedAgent}
         onClose={() => setSelectedAgent(null)}
+        onSaved={(updated) => setSelectedAgent(updated as AgentDefinition)}
       />
 
       <AgentExecutionTraceModal
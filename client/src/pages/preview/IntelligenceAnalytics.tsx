@@ -43,6 +43,7 @@ import {
   ChevronRight
 } from "lucide-react";
 import { DateRange } from "react-day-picker";
+import { toTimeRangeSelection } from "@/lib/time-range";
 import { format } from "date-fns";
 
 // Import existing components
@@ -70,6 +71,7 @@ export default function IntelligenceAnalytics() {
   const [activeTab, setActiveTab] = useState("overview");
   const [timeRange, setTimeRange] = useState("30d");
   const [customRange, setCustomRange] = useState<DateRange | undefined>();
+  const timeSelection = toTimeRangeSelection(timeRange, customRange);
   const [showCustomPicker, setShowCustomPicker] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [expandedSection, setExpandedSection] = useState<string | null>(null);
@@ -145,8 +147,8 @@ export default function IntelligenceAnalytics() {
 
   // Use centralized data source for metrics
   const { data: metricsResult, isLoading: metricsLoading } = useQuery({
-    queryKey: ['intelligence-metrics', timeRange],
-    queryFn: () => intelligenceAnalyticsSource.fetchMetrics(timeRange),
+    queryKey: ['intelligence-metrics', timeSelection],
+    queryFn: () => intelligenceAnalyticsSource.fetchMetrics(timeSelection),
     refetchInterval: 60000,
   });
   
@@ -164,8 +166,8 @@ export default function IntelligenceAnalytics() {
   const usingMockActivity = activityResult?.isMock || false;
 
   const { data: savingsResult, isLoading: savingsLoading } = useQuery({
-    queryKey: ['savings-metrics', timeRange],
-    queryFn: () => intelligenceAnalyticsSource.fetchSavingsMetrics(timeRange),
+    queryKey: ['savings-metrics', timeSelection],
+    queryFn: () => intelligenceAnalyticsSource.fetchSavingsMetrics(timeSelection),
     retry: false,
     refetchInterval: 60000,
     staleTime: 0, // Always consider data stale to force refetch
@@ -175,8 +177,8 @@ export default function IntelligenceAnalytics() {
 
   // Fetch agent comparisons for Savings by Agent section
   const { data: agentComparisonsResult, isLoading: agentComparisonsLoading } = useQuery({
-    queryKey: ['agent-comparisons', timeRange],
-    queryFn: () => intelligenceSavingsSource.fetchAgentComparisons(timeRange),
+    queryKey: ['agent-comparisons', timeSelection],
+    queryFn: () => intelligenceSavingsSource.fetchAgentComparisons(timeSelection),
     retry: false,
     refetchInterval: 60000,
   });
@@ -184,8 +186,8 @@ export default function IntelligenceAnalytics() {
 
   // Fetch provider savings for Savings by Provider section
   const { data: providerSavingsResult, isLoading: providerSavingsLoading } = useQuery({
-    queryKey: ['provider-savings', timeRange],
-    queryFn: () => intelligenceSavingsSource.fetchProviderSavings(timeRange),
+    queryKey: ['provider-savings', timeSelection],
+    queryFn: () => intelligenceSavingsSource.fetchProviderSavings(timeSelection),
     retry: false,
     refetchInterval: 60000,
   });
@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { intelligenceSavingsSource, intelligenceAnalyticsSource } from "@/lib/data-sources";
+import type { CostBreakdown } from "@/lib/data-sources/intelligence-savings-source";
+import { MockDataBadge } from "@/components/MockDataBadge";
+import { SavingsPricingPanel } from "@/components/SavingsPricingPanel";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -28,12 +31,14 @@ import {
   ChevronDown,
   ChevronRight,
   CalendarIcon,
-  Lightbulb
+  Lightbulb,
+  AlertTriangle
 } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { DateRange } from "react-day-picker";
+import { toTimeRangeSelection } from "@/lib/time-range";
 import { format } from "date-fns";
 import { getSuccessRateVariant, formatCurrency } from "@/lib/utils";
 
@@ -129,31 +134,86 @@ interface UnifiedModelData {
   costPerToken: number;
 }
 
+const SOURCE_LABELS: Record<string, string> = {
+  "agent-run-metrics": "Kafka run metrics",
+  api: "API",
+  unknown: "unlabelled",
+};
+
+// Where the savings numbers come from and whether there is enough data to trust them
+function SavingsDataAvailability({ breakdown, isMock, timeRange }: { breakdown?: CostBreakdown; isMock: boolean; timeRange: string }) {
+  if (isMock || !breakdown) {
+    return (
+      <div className="flex items-center gap-2 p-3 border rounded-lg border-yellow-500/30 bg-yellow-500/5 text-sm">
+        <MockDataBadge label="Demo data" />
+        <span className="text-muted-foreground">
+          The savings API is unavailable, so the figures below are illustrative rather than measured.
+        </span>
+      </div>
+    );
+  }
+
+  const totalRuns = breakdown.runs.withIntelligence + breakdown.runs.baseline;
+  const sources = Object.entries(breakdown.sources)
+    .map(([source, count]) => `${SOURCE_LABELS[source] ?? source}: ${count.toLocaleString()}`)
+    .join(" · ");
+
+  if (!breakdown.dataAvailable) {
+    return (
+      <div className="flex items-start gap-2 p-3 border rounded-lg border-orange-500/30 bg-orange-500/5 text-sm">
+        <AlertTriangle className="h-4 w-4 mt-0.5 text-orange-500 shrink-0" />
+        <div>
+          <div className="font-medium">Not enough data to calculate savings</div>
+          <div className="text-muted-foreground">
+            {breakdown.runs.withIntelligence.toLocaleString()} intelligence-assisted and{" "}
+            {breakdown.runs.baseline.toLocaleString()} baseline runs recorded in {timeRange}. Savings need both;
+            runs are recorded from the agent-run-metrics topic and classified by their manifest injections.
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 p-3 border rounded-lg border-green-500/30 bg-green-500/5 text-sm">
+      <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0" />
+      <span>
+        Measured from {totalRuns.toLocaleString()} recorded runs
+        ({breakdown.runs.withIntelligence.toLocaleString()} intelligence-assisted, {breakdown.runs.baseline.toLocaleString()} baseline)
+      </span>
+      <span className="text-muted-foreground">
+        {sources}
+        {breakdown.lastRunAt && ` · last run ${new Date(breakdown.lastRunAt).toLocaleString()}`}
+      </span>
+    </div>
+  );
+}
+
 export default function IntelligenceSavings() {
   const [activeTab, setActiveTab] = useState("overview");
   const [timeRange, setTimeRange] = useState("30d");
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
   const [customRange, setCustomRange] = useState<DateRange | undefined>();
+  const timeSelection = toTimeRangeSelection(timeRange, customRange);
   const [showCustomPicker, setShowCustomPicker] = useState(false);
 
   // Use centralized data source
   const { data: savingsData, isLoading } = useQuery({
-    queryKey: ['savings-all', timeRange, customRange],
-    queryFn: () => {
-      if (timeRange === "custom" && customRange?.from && customRange?.to) {
-        // Note: fetchCustomRange would need to be implemented in the data source
-        // For now, falls back to fetchAll
-        return intelligenceSavingsSource.fetchAll(timeRange);
-      }
-      return intelligenceSavingsSource.fetchAll(timeRange);
-    },
+    queryKey: ['savings-all', timeSelection],
+    queryFn: () => intelligenceSavingsSource.fetchAll(timeSelection),
+    refetchInterval: 60000,
+  });
+
+  const { data: breakdownData } = useQuery({
+    queryKey: ['savings-breakdown', timeSelection],
+    queryFn: () => intelligenceSavingsSource.fetchBreakdown(timeSelection),
     refetchInterval: 60000,
   });
 
   // Fetch intelligence operations metrics
   const { data: intelligenceMetricsData, isLoading: intelligenceLoading } = useQuery({
-    queryKey: ['intelligence-metrics', timeRange],
-    queryFn: () => intelligenceAnalyticsSource.fetchMetrics(timeRange),
+    queryKey: ['intelligence-metrics', timeSelection],
+    queryFn: () => intelligenceAnalyticsSource.fetchMetrics(timeSelection),
     refetchInterval: 60000,
   });
 
@@ -162,6 +222,10 @@ export default function IntelligenceSavings() {
   const timeSeriesData = savingsData?.timeSeriesData || [];
   const providerSavings = savingsData?.providerSavings || [];
   const usingMockData = savingsData?.isMock || false;
+  const breakdown = breakdownData?.data;
+  const intelligenceRunCount = breakdown?.runs.withIntelligence || 0;
+  // Per intelligence-assisted run, actual vs. at the baseline average
+  const perRun = (total: number) => (intelligenceRunCount > 0 ? total / intelligenceRunCount : 0);
   const intelligenceMetrics = intelligenceMetricsData?.data;
   const usingMockIntelligence = intelligenceMetricsData?.isMock || false;
 
@@ -259,6 +323,12 @@ export default function IntelligenceSavings() {
         </div>
       </div>
 
+      <SavingsDataAvailability
+        breakdown={breakdown}
+        isMock={usingMockData || (breakdownData?.isMock ?? false)}
+        timeRange={timeRange}
+      />
+
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
         <TabsList>
           <TabsTrigger value="overview">Overview</TabsTrigger>
@@ -266,6 +336,7 @@ export default function IntelligenceSavings() {
           <TabsTrigger value="trends">Trends</TabsTrigger>
           <TabsTrigger value="breakdown">Cost Breakdown</TabsTrigger>
           <TabsTrigger value="models">AI Models</TabsTrigger>
+          <TabsTrigger value="pricing">Pricing</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
@@ -340,7 +411,7 @@ export default function IntelligenceSavings() {
                   </TooltipTrigger>
                   <TooltipContent className="max-w-sm">
                     <p className="text-xs">
-                      <strong>Methodology:</strong> Savings calculated by comparing agent performance with intelligence (pattern injection, optimized routing) vs baseline (standard AI agents). Includes token reduction (34%), local compute offload (12%), and avoided API calls (8%).
+                      <strong>Methodology:</strong> Runs whose manifest injection supplied patterns count as intelligence-assisted; all other runs are the baseline. Savings compare the actual cost of intelligence-assisted runs with the same number of runs at the average baseline cost for the period.
                     </p>
                   </TooltipContent>
                 </Tooltip>
@@ -429,8 +500,8 @@ export default function IntelligenceSavings() {
                     <TooltipContent className="max-w-md">
                       <div className="space-y-2 text-sm">
                         <p><strong>Intelligence Tokens:</strong> Actual token usage with pattern injection, manifest optimization, and intelligent caching enabled.</p>
-                        <p><strong>Baseline Tokens:</strong> Estimated usage if agents ran without intelligence features, based on standard AI agent behavior.</p>
-                        <p><strong>Token Savings:</strong> Reduction achieved through pattern caching (40%), local model offloading (25%), optimized routing (20%), and other optimizations (15%).</p>
+                        <p><strong>Baseline Tokens:</strong> Average usage of recorded runs without injected patterns in the same period.</p>
+                        <p><strong>Token Savings:</strong> Difference between the two per intelligence-assisted run.</p>
                       </div>
                     </TooltipContent>
                   </Tooltip>
@@ -448,7 +519,7 @@ export default function IntelligenceSavings() {
                   <div className="text-right">
                     <div className="font-bold">{formatNumber(savingsMetrics?.intelligenceRuns || 0)} runs</div>
                     <div className="text-sm text-muted-foreground">
-                      {formatNumber(savingsMetrics?.avgTokensPerRun || 0)} tokens/run
+                      {formatNumber(Math.round(perRun(breakdown?.tokens.withIntelligence || 0)))} tokens/run
                     </div>
                   </div>
                 </div>
@@ -461,7 +532,7 @@ export default function IntelligenceSavings() {
                   <div className="text-right">
                     <div className="font-bold">{formatNumber(savingsMetrics?.baselineRuns || 0)} runs</div>
                     <div className="text-sm text-muted-foreground">
-                      {formatNumber(Math.round((savingsMetrics?.avgTokensPerRun || 0) * 1.6))} tokens/run
+                      {formatNumber(Math.round(perRun(breakdown?.tokens.withoutIntelligence || 0)))} tokens/run
                     </div>
                   </div>
                 </div>
@@ -470,10 +541,10 @@ export default function IntelligenceSavings() {
                   <div className="flex justify-between text-sm">
                     <span>Token Savings</span>
                     <span className="font-medium text-green-600">
-                      {formatNumber(Math.round((savingsMetrics?.avgTokensPerRun || 0) * 0.4))} tokens/run
+                      {formatNumber(Math.round(perRun(breakdown?.tokens.saved || 0)))} tokens/run
                     </span>
                   </div>
-                  <Progress value={40} className="h-2" />
+                  <Progress value={Math.max(0, breakdown?.tokens.reduction || 0)} className="h-2" />
                 </div>
               </CardContent>
             </Card>
@@ -482,8 +553,8 @@ export default function IntelligenceSavings() {
               <CardHeader>
                 <CardTitle>Compute Usage Comparison</CardTitle>
                 <CardDescription>
-                  Processing efficiency improvements. Baseline represents typical costs if using
-                  standard AI models (GPT-4, Claude Opus) without our intelligence optimizations.
+                  Processing efficiency improvements. Baseline is the average recorded run
+                  without injected patterns.
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -493,7 +564,7 @@ export default function IntelligenceSavings() {
                     <span className="text-sm font-medium">With Intelligence</span>
                   </div>
                   <div className="text-right">
-                    <div className="font-bold">{savingsMetrics?.avgComputePerRun?.toFixed(1) || 0} units</div>
+                    <div className="font-bold">{perRun(breakdown?.compute.withIntelligence || 0).toFixed(1)} units</div>
                     <div className="text-sm text-muted-foreground">per run</div>
                   </div>
                 </div>
@@ -504,7 +575,7 @@ export default function IntelligenceSavings() {
                     <span className="text-sm font-medium">Without Intelligence</span>
                   </div>
                   <div className="text-right">
-                    <div className="font-bold">{((savingsMetrics?.avgComputePerRun || 0) * 1.6).toFixed(1)} units</div>
+                    <div className="font-bold">{perRun(breakdown?.compute.withoutIntelligence || 0).toFixed(1)} units</div>
                     <div className="text-sm text-muted-foreground">per run</div>
                   </div>
                 </div>
@@ -513,10 +584,10 @@ export default function IntelligenceSavings() {
                   <div className="flex justify-between text-sm">
                     <span>Compute Savings</span>
                     <span className="font-medium text-green-600">
-                      {((savingsMetrics?.avgComputePerRun || 0) * 0.6).toFixed(1)} units/run
+                      {perRun(breakdown?.compute.saved || 0).toFixed(1)} units/run
                     </span>
                   </div>
-                  <Progress value={37.5} className="h-2" />
+                  <Progress value={Math.max(0, breakdown?.compute.reduction || 0)} className="h-2" />
                 </div>
               </CardContent>
             </Card>
@@ -587,7 +658,7 @@ export default function IntelligenceSavings() {
                 <div className="pt-3 border-t flex items-center justify-between">
                   <span className="text-sm font-medium">Total Token Reduction</span>
                   <span className="text-lg font-bold text-green-600">
-                    {formatPercentage(savingsMetrics?.efficiencyGain || 40.7)}
+                    {formatPercentage(savingsMetrics?.efficiencyGain || 0)}
                   </span>
                 </div>
               </div>
@@ -1078,15 +1149,15 @@ export default function IntelligenceSavings() {
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 <div className="text-center">
-                  <div className="text-3xl font-bold text-green-600 mb-2">34.2%</div>
-                  <div className="text-sm text-muted-foreground">Overall Efficiency Gain</div>
+                  <div className="text-3xl font-bold text-green-600 mb-2">{formatPercentage(breakdown?.cost.reduction || 0)}</div>
+                  <div className="text-sm text-muted-foreground">Cost Reduction</div>
                 </div>
                 <div className="text-center">
-                  <div className="text-3xl font-bold text-blue-600 mb-2">42.1%</div>
+                  <div className="text-3xl font-bold text-blue-600 mb-2">{formatPercentage(breakdown?.tokens.reduction || 0)}</div>
                   <div className="text-sm text-muted-foreground">Token Usage Reduction</div>
                 </div>
                 <div className="text-center">
-                  <div className="text-3xl font-bold text-purple-600 mb-2">37.5%</div>
+                  <div className="text-3xl font-bold text-purple-600 mb-2">{formatPercentage(breakdown?.compute.reduction || 0)}</div>
                   <div className="text-sm text-muted-foreground">Compute Usage Reduction</div>
                 </div>
               </div>
@@ -1510,6 +1581,9 @@ export default function IntelligenceSavings() {
             </CardContent>
           </Card>
         </TabsContent>
+        <TabsContent value="pricing" className="space-y-4">
+          <SavingsPricingPanel timeRange={timeSelection} />
+        </TabsContent>
       </Tabs>
     </div>
   );
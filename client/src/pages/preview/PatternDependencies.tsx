@@ -542,6 +542,11 @@ const PatternDependencies: React.FC = () => {
               }}
               showLegend={true}
               colorScheme={graphColorScheme}
+              searchable={true}
+              pathFinding={true}
+              neighborhoodFocus={true}
+              clustering={true}
+              exportFilename="pattern-dependencies"
             />
           </CardContent>
         </Card>
@@ -621,6 +621,10 @@ const PatternLineage: React.FC = () => {
               zoomable={true}
               showLegend={true}
               colorScheme={graphColorScheme}
+              searchable={true}
+              pathFinding={true}
+              neighborhoodFocus={true}
+              clustering={true}
             />
           </CardContent>
         </Card>
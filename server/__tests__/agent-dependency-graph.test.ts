@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AgentRegistry, DirectoryRegistryProvider, validateAgentDefinition, type RegistryAgent } from '../agent-registry';
+import { buildDependencyGraph, findDependencyCycles, liveDependentsOf } from '../agent-dependency-graph';
+import { AgentRegistryEditor, AgentRevisionStore } from '../agent-registry-editor';
+
+function agent(name: string, dependencies: string[] = [], status = 'active'): RegistryAgent {
+  const result = validateAgentDefinition({ name, title: name, dependencies, status }, name, 'test.yaml');
+  if ('error' in result) throw new Error(result.error.issues.join(', '));
+  return result.agent;
+}
+
+describe('agent dependency graph', () => {
+  it('should compute dependents, transitive impact and depth', () => {
+    const graph = buildDependencyGraph([
+      agent('coordinator', ['api', 'testing']),
+      agent('api', ['testing']),
+      agent('testing'),
+      agent('docs', ['api']),
+    ]);
+
+    const testing = graph.nodes.find(node => node.id === 'testing')!;
+    expect(testing).toMatchObject({
+      dependents: ['api', 'coordinator'],
+      transitiveDependents: ['api', 'coordinator', 'docs'],
+      depth: 0,
+      inCycle: false,
+    });
+    expect(graph.nodes.find(node => node.id === 'coordinator')).toMatchObject({ depth: 2, dependents: [] });
+    expect(graph.stats).toEqual({ agents: 4, dependencies: 4, cycles: 0, missing: 0, maxDepth: 2 });
+  });
+
+  it('should detect cycles, including self-dependencies', () => {
+    const cycles = findDependencyCycles(new Map([
+      ['c', ['a']],
+      ['a', ['b']],
+      ['b', ['c']],
+      ['d', ['d']],
+      ['e', ['a']],
+    ]));
+    expect(cycles).toEqual([['a', 'b', 'c'], ['d']]);
+
+    const graph = buildDependencyGraph([agent('a', ['b']), agent('b', ['a']), agent('c', ['a'])]);
+    expect(graph.cycles).toEqual([['a', 'b']]);
+    expect(graph.edges.filter(edge => edge.inCycle).map(edge => `${edge.source}>${edge.target}`)).toEqual(['a>b', 'b>a']);
+    expect(graph.nodes.find(node => node.id === 'c')).toMatchObject({ inCycle: false, depth: 2 });
+    expect(graph.nodes.find(node => node.id === 'a')!.transitiveDependents).toEqual(['b', 'c']);
+  });
+
+  it('should report references to agents missing from the registry', () => {
+    const graph = buildDependencyGraph([agent('api', ['agent-gone', 'testing']), agent('testing')]);
+
+    expect(graph.missing).toEqual([{ agent: 'api', dependency: 'agent-gone' }]);
+    expect(graph.edges).toContainEqual({ source: 'api', target: 'agent-gone', missing: true, inCycle: false });
+    expect(graph.nodes.find(node => node.id === 'api')!.depth).toBe(1);
+  });
+
+  it('should only count live agents as dependents at risk', () => {
+    const agents = [
+      agent('testing'),
+      agent('api', ['testing'], 'deprecated'),
+      agent('docs', ['api'], 'beta'),
+      agent('perf', ['testing'], 'inactive'),
+    ];
+    expect(liveDependentsOf(agents, 'testing')).toEqual({ direct: [], transitive: ['docs'] });
+    expect(liveDependentsOf(agents, 'unknown')).toEqual({ direct: [], transitive: [] });
+  });
+
+  describe('deprecation through the editor', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-deps-'));
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      fs.writeFileSync(path.join(dir, 'testing.yaml'), 'name: agent-testing\ntitle: Test Engineer\n');
+      fs.writeFileSync(path.join(dir, 'api.yaml'), 'name: agent-api\ntitle: API\ndependencies: [agent-testing]\n');
+      fs.writeFileSync(path.join(dir, 'docs.yaml'), 'name: agent-docs\ntitle: Docs\ndependencies: [agent-api]\n');
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should warn about active dependents when an agent is deprecated', () => {
+      const editor = new AgentRegistryEditor(new AgentRegistry(new DirectoryRegistryProvider(dir)), new AgentRevisionStore());
+
+      const result = editor.patch('agent-testing', { status: 'deprecated' }, { author: 'alice' });
+      expect(result).toMatchObject({
+        ok: true,
+        agent: { status: 'deprecated' },
+        warnings: [{
+          code: 'active-dependents',
+          message: '2 active agents still depend on agent-testing (directly: agent-api; indirectly: agent-docs)',
+          agents: ['agent-api', 'agent-docs'],
+        }],
+      });
+
+      // Already deprecated: later edits do not repeat the warning
+      expect(editor.patch('agent-testing', { title: 'QA' }, { author: 'alice' })).toMatchObject({ ok: true, warnings: [] });
+      expect(editor.patch('agent-docs', { status: 'deprecated' }, { author: 'alice' })).toMatchObject({ ok: true, warnings: [] });
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AgentExecutionTracker } from '../agent-execution-tracker';
+import {
+  AgentExecutionQueue,
+  SimulatedExecutor,
+  type AgentExecutor,
+  type ExecutionHooks,
+  type ExecutionJob,
+  type ExecutionProgressEvent,
+  type ExecutionResult,
+} from '../agent-execution-queue';
+
+// Executor whose runs finish only when the test says so
+class ControlledExecutor implements AgentExecutor {
+  readonly name = 'controlled';
+  readonly started: string[] = [];
+  private readonly runs = new Map<string, { hooks: ExecutionHooks; resolve: (result: ExecutionResult) => void; reject: (error: Error) => void }>();
+
+  execute(job: ExecutionJob, hooks: ExecutionHooks): Promise<ExecutionResult> {
+    this.started.push(job.query);
+    return new Promise((resolve, reject) => {
+      this.runs.set(job.query, { hooks, resolve, reject });
+      hooks.signal.addEventListener('abort', () => reject(new Error('aborted')));
+    });
+  }
+
+  step(query: string, name: string, progress: number) {
+    this.runs.get(query)!.hooks.step(name, progress);
+  }
+
+  finish(query: string, result: ExecutionResult = { success: true, output: query }) {
+    this.runs.get(query)!.resolve(result);
+  }
+
+  fail(query: string, message: string) {
+    this.runs.get(query)!.reject(new Error(message));
+  }
+}
+
+function collect(queue: AgentExecutionQueue) {
+  const events: ExecutionProgressEvent[] = [];
+  queue.on('progress', event => events.push(event));
+  return events;
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('AgentExecutionQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should limit concurrent executions per agent and start queued ones in order', async () => {
+    const executor = new ControlledExecutor();
+    const queue = new AgentExecutionQueue({ executor, concurrency: 2 });
+
+    const first = await queue.enqueue({ agentId: 'agent-api', agentName: 'API', query: 'a1' });
+    await queue.enqueue({ agentId: 'agent-api', agentName: 'API', query: 'a2' });
+    const third = await queue.enqueue({ agentId: 'agent-api', agentName: 'API', query: 'a3' });
+    await queue.enqueue({ agentId: 'agent-testing', agentName: 'Testing', query: 't1' });
+    await flush();
+
+    expect(executor.started).toEqual(['a1', 'a2', 't1']);
+    expect((await AgentExecutionTracker.getExecution(first.id))!.status).toBe('executing');
+    expect((await AgentExecutionTracker.getExecution(third.id))!.status).toBe('pending');
+    expect(queue.stats().agents).toEqual([
+      { agentId: 'agent-api', running: 2, queued: 1, limit: 2 },
+      { agentId: 'agent-testing', running: 1, queued: 0, limit: 2 },
+    ]);
+
+    executor.finish('a1');
+    await flush();
+
+    expect(executor.started).toEqual(['a1', 'a2', 't1', 'a3']);
+    expect((await AgentExecutionTracker.getExecution(first.id))!.status).toBe('completed');
+    expect((await AgentExecutionTracker.getExecution(third.id))!.status).toBe('executing');
+  });
+
+  it('should honour per-agent concurrency overrides', async () => {
+    const executor = new ControlledExecutor();
+    const queue = new AgentExecutionQueue({ executor, concurrency: 3, concurrencyByAgent: { 'agent-slow': 1 } });
+
+    for (const query of ['s1', 's2']) await queue.enqueue({ agentId: 'agent-slow', agentName: 'Slow', query });
+    for (const query of ['f1', 'f2']) await queue.enqueue({ agentId: 'agent-fast', agentName: 'Fast', query });
+    await flush();
+
+    expect(executor.started).toEqual(['s1', 'f1', 'f2']);
+    expect(queue.limitFor('agent-slow')).toBe(1);
+    expect(queue.limitFor('agent-fast')).toBe(3);
+  });
+
+  it('should report progress events from queued to completed', async () => {
+    const executor = new ControlledExecutor();
+    const queue = new AgentExecutionQueue({ executor, concurrency: 1 });
+    const events = collect(queue);
+
+    const execution = await queue.enqueue({ agentId: 'agent-api', agentName: 'API', query: 'p1' });
+    await flush();
+    executor.step('p1', 'Planning', 0.5);
+    executor.finish('p1', { success: true, output: 'done', qualityScore: 9 });
+    await flush();
+
+    expect(events.map(event => [event.type, event.step, event.progress])).toEqual([
+      ['queued', undefined, undefined],
+      ['started', undefined, 0],
+      ['step', 'Planning', 0.5],
+      ['completed', undefined, 1],
+    ]);
+    expect(events[0]).toMatchObject({ executionId: execution.id, agentId: 'agent-api', agentName: 'API', position: 1 });
+    expect(events[3].result).toEqual({ success: true, output: 'done', qualityScore: 9 });
+    expect(queue.progress(execution.id)).toEqual(events);
+  });
+
+  it('should record failed results and executor errors as failures', async () => {
+    const executor = new ControlledExecutor();
+    const queue = new AgentExecutionQueue({ executor });
+    const events = collect(queue);
+
+    const rejected = await queue.enqueue({ agentId: 'agent-api', agentName: 'API', query: 'e1' });
+    const unsuccessful = await queue.enqueue({ agentId: 'agent-api', agentName: 'API', query: 'e2' });
+    await flush();
+    executor.fail('e1', 'Runtime unavailable');
+    executor.finish('e2', { success: false, error: 'Bad output' });
+    await flush();
+
+    expect(await AgentExecutionTracker.getExecution(rejected.id)).toMatchObject({
+      status: 'failed',
+      result: { success: false, error: 'Runtime unavailable' },
+    });
+    expect((await AgentExecutionTracker.getExecution(unsuccessful.id))!.status).toBe('failed');
+    expect(events.filter(event => event.type === 'failed').map(event => event.message).sort()).toEqual(['Bad output', 'Runtime unavailable']);
+  });
+
+  it('should cancel queued and running executions', async () => {
+    const executor = new ControlledExecutor();
+    const queue = new AgentExecutionQueue({ executor, concurrency: 1 });
+    const events = collect(queue);
+
+    const running = await queue.enqueue({ agentId: 'agent-api', agentName: 'API', query: 'c1' });
+    const waiting = await queue.enqueue({ agentId: 'agent-api', agentName: 'API', query: 'c2' });
+    const next = await queue.enqueue({ agentId: 'agent-api', agentName: 'API', query: 'c3' });
+    await flush();
+
+    expect(await queue.cancel(waiting.id)).toMatchObject({ ok: true });
+    expect((await AgentExecutionTracker.getExecution(waiting.id))!.status).toBe('cancelled');
+
+    expect(await queue.cancel(running.id)).toMatchObject({ ok: true });
+    await flush();
+
+    expect(await AgentExecutionTracker.getExecution(running.id)).toMatchObject({ status: 'cancelled', result: { error: 'Cancelled' } });
+    expect(events.filter(event => event.type === 'cancelled').map(event => event.executionId)).toEqual([waiting.id, running.id]);
+    // The cancelled job is skipped, the next one takes the slot
+    expect(executor.started).toEqual(['c1', 'c3']);
+    expect((await AgentExecutionTracker.getExecution(next.id))!.status).toBe('executing');
+
+    expect(await queue.cancel(running.id)).toEqual({ ok: false, status: 409, error: 'Execution already cancelled' });
+    expect(await queue.cancel('missing')).toEqual({ ok: false, status: 404, error: 'Execution not found' });
+  });
+
+  it('should run the simulated executor through its steps', async () => {
+    vi.useFakeTimers();
+    const queue = new AgentExecutionQueue({ executor: new SimulatedExecutor(100) });
+    const events = collect(queue);
+
+    const ok = await queue.enqueue({ agentId: 'agent-api', agentName: 'API', query: 'simulate' });
+    const failing = await queue.enqueue({ agentId: 'agent-api', agentName: 'API', query: 'simulate', context: { simulateFailure: true } });
+    await vi.advanceTimersByTimeAsync(500);
+
+    const steps = events.filter(event => event.executionId === ok.id && event.type === 'step');
+    expect(steps.map(event => event.step)).toEqual(SimulatedExecutor.STEPS);
+    expect(steps.map(event => event.progress)).toEqual([0.25, 0.5, 0.75, 1]);
+    expect(await AgentExecutionTracker.getExecution(ok.id)).toMatchObject({
+      status: 'completed',
+      result: { success: true, qualityScore: 8, metrics: { tokensUsed: 660, computeUnits: 4 } },
+    });
+    expect((await AgentExecutionTracker.getExecution(failing.id))!.status).toBe('failed');
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import yaml from 'js-yaml';
+import { AgentRegistry, DirectoryRegistryProvider, FileRegistryProvider } from '../agent-registry';
+import {
+  AgentRegistryEditor,
+  AgentRevisionStore,
+  bumpVersion,
+  compareVersions,
+  diffAgentDefinitions,
+} from '../agent-registry-editor';
+
+describe('agent registry editor', () => {
+  let dir: string;
+  let registry: AgentRegistry;
+  let editor: AgentRegistryEditor;
+  const author = { author: 'alice' };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-editor-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    fs.writeFileSync(path.join(dir, 'testing.yaml'), [
+      'name: agent-testing',
+      'title: Test Engineer',
+      'version: "1.4.0"',
+      'tags: [testing]',
+      'capabilities:',
+      '  unit_tests: { description: Unit tests, level: expert }',
+    ].join('\n'));
+    registry = new AgentRegistry(new DirectoryRegistryProvider(dir));
+    editor = new AgentRegistryEditor(registry, new AgentRevisionStore(), () => new Date('2025-11-01T10:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should refuse writes to a read-only registry', () => {
+    const readOnly = new AgentRegistryEditor(new AgentRegistry(new DirectoryRegistryProvider(dir, false)), new AgentRevisionStore());
+
+    expect(readOnly.create({ name: 'agent-new' }, author)).toMatchObject({ ok: false, status: 409, error: 'Agent registry is read-only' });
+    expect(readOnly.patch('agent-testing', { title: 'QA' }, author)).toMatchObject({ ok: false, status: 409 });
+    expect(fs.readdirSync(dir)).toEqual(['testing.yaml']);
+  });
+
+  it('should bump and compare semver versions', () => {
+    expect(bumpVersion('1.4.2')).toBe('1.4.3');
+    expect(bumpVersion('1.4.2', 'minor')).toBe('1.5.0');
+    expect(bumpVersion('1.4', 'major')).toBe('2.0.0');
+    expect(compareVersions('1.10.0', '1.9.9')).toBeGreaterThan(0);
+    expect(compareVersions('v2', '2.0.0')).toBe(0);
+  });
+
+  it('should create agents as YAML files and reject duplicates or invalid definitions', () => {
+    const created = editor.create({ name: 'agent-docs', title: 'Docs', tags: ['docs'] }, author);
+    expect(created).toMatchObject({ ok: true, agent: { name: 'agent-docs', version: '1.0.0' }, revision: { revision: 1, action: 'create' } });
+
+    const written = yaml.load(fs.readFileSync(path.join(dir, 'agent-docs.yaml'), 'utf8'));
+    expect(written).toMatchObject({ name: 'agent-docs', title: 'Docs', version: '1.0.0', last_updated: '2025-11-01T10:00:00.000Z' });
+    expect(registry.get().agents['agent-docs']).toBeDefined();
+
+    expect(editor.create({ name: 'agent-docs' }, author)).toMatchObject({ ok: false, status: 409 });
+    expect(editor.create({ name: '../etc/passwd' }, author)).toMatchObject({ ok: false, status: 400, error: 'Invalid agent name' });
+    expect(editor.create({ name: 'agent-x', priority: 'urgent' }, author)).toMatchObject({
+      ok: false,
+      status: 400,
+      details: [expect.stringMatching(/^priority: /)],
+    });
+  });
+
+  it('should patch in place, bump the version and keep the hand-edited baseline', () => {
+    const result = editor.patch('agent-testing', { status: 'deprecated', tags: ['testing', 'legacy'] }, { ...author, bump: 'minor' });
+
+    expect(result).toMatchObject({ ok: true, agent: { status: 'deprecated', version: '1.5.0', title: 'Test Engineer' } });
+    // Written back to the file the agent came from
+    expect(fs.readdirSync(dir).sort()).toEqual(['testing.yaml']);
+    expect(yaml.load(fs.readFileSync(path.join(dir, 'testing.yaml'), 'utf8'))).toMatchObject({
+      status: 'deprecated',
+      version: '1.5.0',
+      capabilities: { unit_tests: { description: 'Unit tests', level: 'expert', category: 'general' } },
+    });
+
+    const history = editor.history('agent-testing');
+    expect(history.map(r => [r.revision, r.version, r.action, r.author])).toEqual([
+      [2, '1.5.0', 'update', 'alice'],
+      [1, '1.4.0', 'import', 'registry'],
+    ]);
+    expect(history[0].changes).toEqual([
+      { field: 'status', before: 'active', after: 'deprecated' },
+      { field: 'version', before: '1.4.0', after: '1.5.0' },
+      { field: 'tags', before: ['testing'], after: ['testing', 'legacy'], added: ['legacy'], removed: [] },
+    ]);
+  });
+
+  it('should replace definitions and enforce versions and optimistic locking', () => {
+    expect(editor.replace('agent-testing', { title: 'QA' }, author)).toMatchObject({
+      ok: true,
+      agent: { title: 'QA', tags: [], capabilities: [], version: '1.4.1' },
+    });
+    expect(editor.replace('agent-testing', { name: 'other' }, author)).toMatchObject({ ok: false, status: 400 });
+    expect(editor.patch('agent-testing', { version: '1.0.0' }, author)).toMatchObject({ ok: false, status: 400, error: 'Invalid version' });
+    expect(editor.patch('agent-testing', { version: '3.0.0' }, author)).toMatchObject({ ok: true, agent: { version: '3.0.0' } });
+    expect(editor.patch('agent-testing', { title: 'Late' }, { ...author, expectedVersion: '1.4.1' })).toMatchObject({
+      ok: false,
+      status: 409,
+      details: { currentVersion: '3.0.0' },
+    });
+    expect(editor.patch('missing', { title: 'x' }, author)).toMatchObject({ ok: false, status: 404 });
+  });
+
+  it('should not record a revision when nothing changes', () => {
+    const result = editor.patch('agent-testing', { title: 'Test Engineer' }, author);
+
+    expect(result).toMatchObject({ ok: true, revision: null, agent: { version: '1.4.0' } });
+    expect(editor.history('agent-testing')).toEqual([]);
+  });
+
+  it('should diff any two recorded versions', () => {
+    editor.patch('agent-testing', { title: 'QA' }, author);
+    editor.patch('agent-testing', { description: 'Tests everything' }, author);
+
+    const latest = editor.diff('agent-testing');
+    expect(latest).toMatchObject({ ok: true, from: { version: '1.4.1' }, to: { version: '1.4.2' } });
+    expect(latest.ok && latest.changes.map(c => c.field)).toEqual(['description', 'version']);
+
+    const full = editor.diff('agent-testing', '1.4.0', '1.4.2');
+    expect(full.ok && full.changes.map(c => c.field)).toEqual(['title', 'description', 'version']);
+    expect(editor.diff('agent-testing', '9.9.9')).toMatchObject({ ok: false, status: 404 });
+    expect(diffAgentDefinitions(null, registry.get().agents['agent-testing']).length).toBeGreaterThan(10);
+  });
+
+  it('should persist revisions and write into single-file registries', async () => {
+    const file = path.join(dir, 'registry.yaml');
+    fs.writeFileSync(file, 'categories:\n  quality: { color: green }\nagents:\n  agent-a: { title: A }\n');
+    const historyPath = path.join(dir, 'history', 'revisions.json');
+    const store = new AgentRevisionStore(historyPath);
+    const fileEditor = new AgentRegistryEditor(new AgentRegistry(new FileRegistryProvider(file)), store);
+
+    expect(fileEditor.patch('agent-a', { title: 'Renamed' }, author)).toMatchObject({ ok: true });
+    expect(yaml.load(fs.readFileSync(file, 'utf8'))).toMatchObject({
+      categories: { quality: { color: 'green' } },
+      agents: { 'agent-a': { title: 'Renamed', version: '1.0.1' } },
+    });
+
+    await store.flush();
+    const reloaded = new AgentRevisionStore(historyPath);
+    await reloaded.load();
+    expect(reloaded.list('agent-a').map(r => r.version)).toEqual(['1.0.1', '1.0.0']);
+  });
+});
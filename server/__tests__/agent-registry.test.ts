@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  AgentRegistry,
+  DirectoryRegistryProvider,
+  FileRegistryProvider,
+  createAgentRegistryProvider,
+  normalizeAgentDefinition,
+  DEFAULT_AGENT_REGISTRY_PATH,
+} from '../agent-registry';
+
+describe('agent registry', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-registry-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const write = (file: string, content: string) => fs.writeFileSync(path.join(dir, file), content);
+
+  it('should normalize omniclaude-style definitions', () => {
+    const agent = normalizeAgentDefinition({
+      agent_identity: { title: 'API Architect', color: 'purple' },
+      activation_triggers: 'api',
+      capabilities: { api_design: { purpose: 'Design APIs', level: 'expert' }, review: 'Review' },
+      version: 1.2,
+    }, 'agent-api');
+
+    expect(agent).toMatchObject({
+      id: 'agent-api',
+      name: 'agent-api',
+      title: 'API Architect',
+      color: 'purple',
+      activationTriggers: ['api'],
+      version: '1.2',
+      capabilities: [
+        { name: 'api_design', description: 'Design APIs', category: 'general', level: 'expert' },
+        { name: 'Review', description: 'Capability for Review', category: 'general', level: 'intermediate' },
+      ],
+    });
+  });
+
+  it('should merge the directory index with per-file definitions and count categories', () => {
+    write('agent-registry.yaml', [
+      'categories:',
+      '  quality: { description: QA agents, priority: high, color: green }',
+      'agents:',
+      '  agent-testing: { category: quality, priority: high }',
+    ].join('\n'));
+    write('agent-testing.yaml', 'name: agent-testing\ntitle: Test Engineer\n');
+    write('agent-docs.yml', 'title: Docs\ncategory: documentation\n');
+    write('notes.txt', 'not a definition');
+
+    const registry = new DirectoryRegistryProvider(dir).load();
+
+    expect(Object.keys(registry.agents).sort()).toEqual(['agent-docs', 'agent-testing']);
+    expect(registry.agents['agent-testing']).toMatchObject({ title: 'Test Engineer', category: 'quality', priority: 'high' });
+    expect(registry.categories).toEqual([
+      { name: 'quality', description: 'QA agents', count: 1, priority: 'high', color: 'green' },
+      { name: 'documentation', description: 'Agents for documentation', count: 1, priority: 'medium', color: 'blue' },
+    ]);
+    expect(registry.errors).toEqual([]);
+  });
+
+  it('should skip invalid definitions and report errors per file', () => {
+    write('agent-good.yaml', 'name: agent-good\n');
+    write('agent-bad.yaml', 'name: agent-bad\npriority: urgent\nstatus: retired\n');
+    write('agent-broken.yaml', 'name: [unterminated\n');
+
+    const registry = new DirectoryRegistryProvider(dir).load();
+
+    expect(Object.keys(registry.agents)).toEqual(['agent-good']);
+    expect(registry.errors).toHaveLength(2);
+    expect(registry.errors.find(e => e.file === 'agent-bad.yaml')).toMatchObject({
+      agent: 'agent-bad',
+      issues: [expect.stringMatching(/^priority: /), expect.stringMatching(/^status: /)],
+    });
+    expect(registry.errors.find(e => e.file === 'agent-broken.yaml')?.issues).toHaveLength(1);
+  });
+
+  it('should load a single registry file and pick the provider from the path', () => {
+    write('registry.yaml', 'agents:\n  agent-a: { title: A }\n  agent-b: { title: B, specialization_level: guru }\n');
+    const file = path.join(dir, 'registry.yaml');
+
+    const provider = createAgentRegistryProvider({ AGENT_REGISTRY_PATH: file });
+    expect(provider).toBeInstanceOf(FileRegistryProvider);
+    expect(createAgentRegistryProvider({ AGENT_REGISTRY_PATH: dir })).toBeInstanceOf(DirectoryRegistryProvider);
+    expect(provider.writable).toBe(true);
+    expect(createAgentRegistryProvider({}).writable).toBe(false);
+
+    const registry = provider.load();
+    expect(Object.keys(registry.agents)).toEqual(['agent-a']);
+    expect(registry.errors).toEqual([
+      { file: 'registry.yaml', agent: 'agent-b', issues: [expect.stringMatching(/^specializationLevel: /)] },
+    ]);
+  });
+
+  it('should report a missing registry instead of throwing', () => {
+    const registry = new AgentRegistry(new DirectoryRegistryProvider(path.join(dir, 'missing'))).get();
+
+    expect(registry.agents).toEqual({});
+    expect(registry.errors[0].issues[0]).toMatch(/ENOENT/);
+  });
+
+  it('should hot-reload when definitions change', async () => {
+    write('agent-a.yaml', 'title: First\n');
+    const registry = new AgentRegistry(new DirectoryRegistryProvider(dir), { watch: true, debounceMs: 20 });
+    try {
+      expect(registry.get().agents['agent-a'].title).toBe('First');
+
+      write('agent-a.yaml', 'title: Second\n');
+      await vi.waitFor(() => expect(registry.get().agents['agent-a'].title).toBe('Second'), { timeout: 2000 });
+    } finally {
+      registry.close();
+    }
+  });
+
+  it('should ship a valid sample registry', () => {
+    const registry = createAgentRegistryProvider({ AGENT_REGISTRY_PATH: DEFAULT_AGENT_REGISTRY_PATH }).load();
+
+    expect(registry.errors).toEqual([]);
+    expect(Object.keys(registry.agents).length).toBeGreaterThan(0);
+    expect(registry.categories.every(category => category.count > 0)).toBe(true);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import path from 'path';
+import { DirectoryRegistryProvider, validateAgentDefinition, type RegistryAgent } from '../agent-registry';
+import {
+  RoutingEngine,
+  analyzeCandidate,
+  fuzzyTokenMatch,
+  type AgentHistory,
+  type RoutingScorer,
+} from '../agent-routing-engine';
+
+const sampleAgents = Object.values(new DirectoryRegistryProvider(path.resolve(__dirname, '../../config/agent-registry')).load().agents);
+
+function agent(definition: Record<string, unknown>): RegistryAgent {
+  const result = validateAgentDefinition(definition, String(definition.name), 'test.yaml');
+  if ('error' in result) throw new Error(result.error.issues.join(', '));
+  return result.agent;
+}
+
+describe('RoutingEngine', () => {
+  const engine = new RoutingEngine({ agents: () => sampleAgents });
+
+  it('should route exact trigger matches with a per-signal breakdown', () => {
+    const decision = engine.decide('Design a REST endpoint for invoices')!;
+
+    expect(decision).toMatchObject({
+      selectedAgent: 'agent-api-architect',
+      strategy: 'exact_trigger_match',
+      matches: { exactTriggers: ['rest', 'endpoint'] },
+    });
+    expect(decision.signals).toEqual({
+      triggerConfidence: 0.9,
+      contextConfidence: 0.7,
+      capabilityConfidence: 0.5,
+      historicalConfidence: 0.5,
+    });
+    expect(decision.confidence).toBe(0.75);
+    expect(decision.matches.contextTerms).toEqual(['design', 'rest']);
+    expect(decision.reasoning).toBe('Matched activation triggers "rest", "endpoint"');
+  });
+
+  it('should be deterministic', () => {
+    const query = 'The dashboard is slow, optimize the react components';
+    expect(engine.decide(query)).toEqual(engine.decide(query));
+    expect(engine.decide(query)!.alternatives.map(alt => alt.agent)).toEqual(
+      engine.decide(query)!.alternatives.map(alt => alt.agent)
+    );
+  });
+
+  it('should route identically across restarts of the in-memory tracker', async () => {
+    const query = 'The dashboard is slow, optimize the react components';
+    const decideAfterRestart = async () => {
+      vi.resetModules();
+      const { AgentExecutionTracker } = await import('../agent-execution-tracker');
+      await AgentExecutionTracker.generateMockExecutions();
+      const history = await AgentExecutionTracker.getRoutingHistory();
+      return new RoutingEngine({ agents: () => sampleAgents, history: name => history.get(name) ?? null }).decide(query);
+    };
+
+    const first = await decideAfterRestart();
+    expect(await decideAfterRestart()).toEqual(first);
+    expect(first!.signals.historicalConfidence).toBe(0.5);
+  });
+
+  it('should fuzzily match plurals, word stems and typos', () => {
+    expect(fuzzyTokenMatch('endpoints', 'endpoint')).toBe(true);
+    expect(fuzzyTokenMatch('optimization', 'optimize')).toBe(true);
+    expect(fuzzyTokenMatch('kubernets', 'kubernetes')).toBe(true);
+    expect(fuzzyTokenMatch('api', 'app')).toBe(false);
+
+    expect(engine.decide('Our kubernets deployments keep failing')).toMatchObject({
+      selectedAgent: 'agent-devops-infrastructure',
+      strategy: 'enhanced_fuzzy_matching',
+    });
+  });
+
+  it('should align on capabilities when no trigger matches', () => {
+    expect(engine.decide('Need profiling and caching advice')).toMatchObject({
+      selectedAgent: 'agent-performance',
+      strategy: 'capability_alignment',
+      matches: { capabilities: ['profiling', 'caching'] },
+    });
+  });
+
+  it('should fall back to the coordinator when nothing matches', () => {
+    const decision = engine.decide('Hello there')!;
+    expect(decision).toMatchObject({
+      selectedAgent: 'agent-polymorphic-agent',
+      strategy: 'fallback_routing',
+      confidence: 0.3,
+      alternatives: [],
+    });
+    expect(new RoutingEngine({ agents: () => [] }).decide('api')).toBeNull();
+  });
+
+  it('should fall back to the highest-priority agent when the fallback agent is not routable', () => {
+    const agents = [
+      agent({ name: 'agent-a', activation_triggers: ['deploy'], priority: 'low' }),
+      agent({ name: 'agent-b', activation_triggers: ['deploy'], priority: 'high' }),
+      agent({ name: 'agent-polymorphic-agent', activation_triggers: ['coordinate'], status: 'deprecated' }),
+    ];
+
+    expect(new RoutingEngine({ agents: () => agents }).decide('Hello there')).toMatchObject({
+      selectedAgent: 'agent-b',
+      strategy: 'fallback_routing',
+    });
+    expect(new RoutingEngine({ agents: () => agents, fallbackAgent: 'agent-missing' }).decide('Hello there')!.selectedAgent)
+      .toBe('agent-b');
+  });
+
+  it('should weigh execution history and skip agents that are not routable', () => {
+    const agents = [
+      agent({ name: 'agent-a', activation_triggers: ['deploy'] }),
+      agent({ name: 'agent-b', activation_triggers: ['deploy'] }),
+      agent({ name: 'agent-c', activation_triggers: ['deploy'], status: 'deprecated' }),
+    ];
+    const history: Record<string, AgentHistory> = {
+      'agent-a': { totalRuns: 10, successRate: 20 },
+      'agent-b': { totalRuns: 10, successRate: 90 },
+    };
+    const decision = new RoutingEngine({ agents: () => agents, history: name => history[name] ?? null }).decide('deploy it')!;
+
+    expect(decision.selectedAgent).toBe('agent-b');
+    expect(decision.signals.historicalConfidence).toBe(0.8333);
+    expect(decision.alternatives.map(alt => [alt.agent, alt.signals.historicalConfidence])).toEqual([['agent-a', 0.25]]);
+  });
+
+  it('should accept custom scorers and context signals', () => {
+    const pinned: RoutingScorer = {
+      strategy: 'pinned_agent',
+      score: ({ agent: candidate }, { context }) => (context?.agent === candidate.name ? { confidence: 1, reason: 'Pinned by caller' } : null),
+    };
+    const custom = new RoutingEngine({ agents: () => sampleAgents }).use(pinned);
+
+    expect(custom.strategies).toContain('pinned_agent');
+    expect(custom.decide('write an api', { agent: 'agent-testing' })).toMatchObject({
+      selectedAgent: 'agent-testing',
+      strategy: 'pinned_agent',
+      reasoning: 'Pinned by caller',
+    });
+
+    const testing = sampleAgents.find(candidate => candidate.name === 'agent-testing')!;
+    expect(analyzeCandidate(testing, 'improve things', { area: 'quality' }).matches.contextTerms).toEqual(['quality']);
+  });
+});
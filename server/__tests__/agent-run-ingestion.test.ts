@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AgentRunTracker } from '../agent-run-tracker';
+import { MemAgentRunRepository } from '../agent-tracking-repository';
+import { validateKafkaEvent } from '../dead-letter-store';
+import type { AgentRunMetric } from '../event-consumer';
+import {
+  ingestAgentRunMetric,
+  toAgentRun,
+  type ManifestInjectionLookup,
+  type ManifestInjectionSummary,
+} from '../agent-run-ingestion';
+
+const CORRELATION_ID = '3f1c2a4e-8b7d-4c6e-9a1f-2b3c4d5e6f70';
+
+function metric(overrides: Partial<AgentRunMetric> = {}): AgentRunMetric {
+  return {
+    id: 'm1',
+    correlationId: CORRELATION_ID,
+    agentId: 'agent-api',
+    agentName: 'API Agent',
+    tokensUsed: 1200,
+    computeUnits: 2,
+    cost: 0.12,
+    durationMs: null,
+    success: true,
+    createdAt: new Date('2025-11-01T10:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+function injection(overrides: Partial<ManifestInjectionSummary> = {}): ManifestInjectionSummary {
+  return {
+    correlationId: CORRELATION_ID,
+    agentName: 'API Agent',
+    isFallback: false,
+    patternsCount: 12,
+    agentExecutionTimeMs: 4500,
+    agentQualityScore: 0.85,
+    ...overrides,
+  };
+}
+
+describe('agent-run-metrics events', () => {
+  it('should validate snake_case producer payloads', () => {
+    const result = validateKafkaEvent('agent-run-metrics', JSON.stringify({
+      agent_name: 'API Agent',
+      correlation_id: CORRELATION_ID,
+      tokens_used: '1200',
+      cost: 0.12,
+      duration_ms: 4200,
+      timestamp: '2025-11-01T10:00:00.000Z',
+    }));
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.event).toMatchObject({ agentName: 'API Agent', tokensUsed: 1200, computeUnits: 0, success: true, durationMs: 4200 });
+    }
+    expect(validateKafkaEvent('agent-run-metrics', JSON.stringify({ agentName: 'API Agent', cost: 0.1 })).ok).toBe(false);
+  });
+});
+
+describe('toAgentRun', () => {
+  it('should classify runs by their manifest injection', () => {
+    expect(toAgentRun(metric(), injection())).toMatchObject({
+      withIntelligence: true,
+      duration: 4.5,
+      metadata: { source: 'agent-run-metrics', correlationId: CORRELATION_ID, patternsCount: 12, qualityScore: 0.85 },
+    });
+    expect(toAgentRun(metric(), injection({ isFallback: true })).withIntelligence).toBe(false);
+    expect(toAgentRun(metric(), injection({ patternsCount: 0 })).withIntelligence).toBe(false);
+    expect(toAgentRun(metric(), null)).toMatchObject({ withIntelligence: false, duration: 0 });
+  });
+
+  it('should prefer what the producer reported', () => {
+    const run = toAgentRun(metric({ withIntelligence: false, durationMs: 3000 }), injection());
+
+    expect(run.withIntelligence).toBe(false);
+    expect(run.duration).toBe(3);
+    expect(run.timestamp).toBe('2025-11-01T10:00:00.000Z');
+  });
+});
+
+describe('ingestAgentRunMetric', () => {
+  let repository: MemAgentRunRepository;
+
+  beforeEach(() => {
+    repository = new MemAgentRunRepository();
+    AgentRunTracker.useRepository(repository);
+  });
+
+  it('should record runs looked up by correlation id', async () => {
+    const lookups: string[] = [];
+    const lookup: ManifestInjectionLookup = async (correlationId) => {
+      lookups.push(correlationId);
+      return injection();
+    };
+
+    await ingestAgentRunMetric(metric(), lookup);
+    await ingestAgentRunMetric(metric({ id: 'm2', correlationId: null }), lookup);
+
+    expect(lookups).toEqual([CORRELATION_ID]);
+    expect((await repository.find({})).map(run => run.withIntelligence).sort()).toEqual([false, true]);
+  });
+
+  it('should record a redelivered event once', async () => {
+    const lookup: ManifestInjectionLookup = async () => injection();
+
+    const first = await ingestAgentRunMetric(metric(), lookup);
+    await ingestAgentRunMetric(metric(), lookup);
+
+    expect(first.id).toBe('m1');
+    expect((await repository.find({})).map(run => run.id)).toEqual(['m1']);
+  });
+
+  it('should not record runs it cannot classify', async () => {
+    const lookup: ManifestInjectionLookup = () => Promise.reject(new Error('connect ECONNREFUSED'));
+
+    await expect(ingestAgentRunMetric(metric(), lookup)).rejects.toThrow('ECONNREFUSED');
+    expect(await repository.find({})).toEqual([]);
+  });
+});
+
+describe('AgentRunTracker.calculateCostBreakdown', () => {
+  const range = [new Date('2025-11-01T00:00:00Z'), new Date('2025-11-30T00:00:00Z')] as const;
+
+  beforeEach(() => {
+    AgentRunTracker.useRepository(new MemAgentRunRepository());
+  });
+
+  it('should compare intelligence runs with the baseline average', async () => {
+    const base = { agentId: 'agent-api', agentName: 'API', computeUnits: 1, success: true };
+    await AgentRunTracker.recordRun({ ...base, withIntelligence: false, tokensUsed: 2000, cost: 0.2, duration: 60, timestamp: '2025-11-02T00:00:00.000Z', metadata: { source: 'api' } });
+    await AgentRunTracker.recordRun({ ...base, withIntelligence: false, tokensUsed: 1000, cost: 0.1, duration: 40, timestamp: '2025-11-03T00:00:00.000Z', metadata: { source: 'agent-run-metrics' } });
+    await AgentRunTracker.recordRun({ ...base, withIntelligence: true, tokensUsed: 900, cost: 0.09, duration: 30, timestamp: '2025-11-04T00:00:00.000Z', metadata: { source: 'agent-run-metrics' } });
+    await AgentRunTracker.recordRun({ ...base, withIntelligence: true, tokensUsed: 1100, cost: 0.11, duration: 30, timestamp: '2025-11-05T00:00:00.000Z', metadata: { source: 'agent-run-metrics' } });
+
+    const breakdown = await AgentRunTracker.calculateCostBreakdown(...range);
+
+    expect(breakdown).toMatchObject({
+      dataAvailable: true,
+      runs: { withIntelligence: 2, baseline: 2 },
+      sources: { api: 1, 'agent-run-metrics': 3 },
+      lastRunAt: '2025-11-05T00:00:00.000Z',
+      tokens: { withIntelligence: 2000, withoutIntelligence: 3000, saved: 1000, reduction: 33.33 },
+      compute: { withIntelligence: 2, withoutIntelligence: 2, saved: 0, reduction: 0 },
+      time: { withIntelligence: 60, withoutIntelligence: 100, saved: 40, reduction: 40 },
+    });
+    expect(breakdown.cost.saved).toBeCloseTo(0.1);
+  });
+
+  it('should report missing baseline data instead of savings', async () => {
+    await AgentRunTracker.recordRun({
+      agentId: 'agent-api', agentName: 'API', withIntelligence: true, tokensUsed: 900, computeUnits: 1, duration: 30,
+      success: true, cost: 0.09, timestamp: '2025-11-04T00:00:00.000Z',
+    });
+
+    const breakdown = await AgentRunTracker.calculateCostBreakdown(...range);
+
+    expect(breakdown).toMatchObject({ dataAvailable: false, runs: { withIntelligence: 1, baseline: 0 }, sources: { unknown: 1 } });
+    expect(breakdown.tokens).toEqual({ withIntelligence: 0, withoutIntelligence: 0, saved: 0, reduction: 0 });
+  });
+});
+
+describe('AgentRunTracker.calculateProviderSavings', () => {
+  const range = [new Date('2025-11-01T00:00:00Z'), new Date('2025-11-30T00:00:00Z')] as const;
+
+  beforeEach(() => {
+    AgentRunTracker.useRepository(new MemAgentRunRepository());
+  });
+
+  it('should compare each provider with its own baseline runs', async () => {
+    const run = (provider: string, withIntelligence: boolean, tokensUsed: number, cost: number) => AgentRunTracker.recordRun({
+      agentId: 'agent-api', agentName: 'API', withIntelligence, tokensUsed, computeUnits: 1, duration: 10, success: true, cost,
+      timestamp: '2025-11-02T00:00:00.000Z', metadata: { provider },
+    });
+    await run('anthropic', false, 2000, 0.4);
+    await run('anthropic', false, 1000, 0.2);
+    await run('anthropic', true, 1000, 0.1);
+    await run('openai', true, 500, 0.05);
+
+    const [anthropic, openai] = await AgentRunTracker.calculateProviderSavings(...range);
+
+    expect(anthropic).toEqual({
+      providerId: 'anthropic', providerName: 'Claude', dataAvailable: true, savingsAmount: 0.2, tokensProcessed: 4000,
+      tokensOffloaded: 500, percentageOfTotal: 100, avgCostPerToken: 0.000175, runsCount: 3,
+    });
+    expect(openai).toMatchObject({ providerName: 'OpenAI', dataAvailable: false, savingsAmount: 0, tokensOffloaded: 0, percentageOfTotal: 0 });
+  });
+});
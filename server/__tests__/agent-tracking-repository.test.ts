@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AgentExecutionTracker, type AgentExecution } from '../agent-execution-tracker';
+import { AgentRunTracker } from '../agent-run-tracker';
+import {
+  MemAgentExecutionRepository,
+  MemAgentRunRepository,
+  createAgentTrackingRepositories,
+  retentionDays,
+} from '../agent-tracking-repository';
+
+function execution(id: string, agentId: string, startedAt: string, status: AgentExecution['status'] = 'completed'): AgentExecution {
+  return { id, agentId, agentName: agentId, query: `query ${id}`, status, startedAt };
+}
+
+describe('MemAgentExecutionRepository', () => {
+  let repository: MemAgentExecutionRepository;
+
+  beforeEach(async () => {
+    repository = new MemAgentExecutionRepository();
+    await repository.save(execution('e1', 'agent-api', '2025-11-01T10:00:00.000Z'));
+    await repository.save(execution('e2', 'agent-api', '2025-11-02T10:00:00.000Z', 'failed'));
+    await repository.save(execution('e3', 'agent-testing', '2025-11-03T10:00:00.000Z'));
+    await repository.save(execution('e4', 'agent-api', '2025-11-04T10:00:00.000Z'));
+  });
+
+  it('should page newest first with the total across pages', async () => {
+    const first = await repository.list({}, { limit: 2, offset: 0 });
+    const second = await repository.list({}, { limit: 2, offset: 2 });
+
+    expect(first.executions.map(e => e.id)).toEqual(['e4', 'e3']);
+    expect(second.executions.map(e => e.id)).toEqual(['e2', 'e1']);
+    expect(first.total).toBe(4);
+
+    const failed = await repository.list({ agentId: 'agent-api', status: 'failed' }, { limit: 10, offset: 0 });
+    expect(failed).toEqual({ executions: [expect.objectContaining({ id: 'e2' })], total: 1 });
+    expect((await repository.find({ from: new Date('2025-11-02T00:00:00Z'), to: new Date('2025-11-03T23:59:59Z') })).map(e => e.id))
+      .toEqual(['e3', 'e2']);
+  });
+
+  it('should not leak stored records to callers', async () => {
+    const stored = (await repository.get('e1'))!;
+    stored.status = 'cancelled';
+    expect((await repository.get('e1'))!.status).toBe('completed');
+
+    await repository.save(stored);
+    expect((await repository.get('e1'))!.status).toBe('cancelled');
+  });
+
+  it('should aggregate executions per agent', async () => {
+    await repository.save({ ...execution('e5', 'agent-testing', '2025-11-05T10:00:00.000Z'), duration: 30, result: { success: true, qualityScore: 8 } });
+    await repository.save({ ...execution('e6', 'agent-testing', '2025-11-06T10:00:00.000Z', 'failed'), duration: 90, result: { success: false, qualityScore: 2 } });
+
+    const aggregates = await repository.aggregateByAgent({}, new Date('2025-11-04T00:00:00Z'));
+
+    expect(aggregates.find(a => a.agentId === 'agent-api')).toEqual({
+      agentId: 'agent-api', total: 3, completed: 2, avgDuration: 0, avgQualityScore: 0,
+      lastStartedAt: '2025-11-04T10:00:00.000Z', recent: 1,
+    });
+    expect(aggregates.find(a => a.agentId === 'agent-testing')).toEqual({
+      agentId: 'agent-testing', total: 3, completed: 2, avgDuration: 60, avgQualityScore: 8,
+      lastStartedAt: '2025-11-06T10:00:00.000Z', recent: 2,
+    });
+    expect(await repository.aggregateByAgent({ agentId: 'agent-missing' }, new Date())).toEqual([]);
+  });
+
+  it('should delete records before the retention cutoff', async () => {
+    expect(await repository.deleteBefore(new Date('2025-11-03T00:00:00Z'))).toBe(2);
+    expect((await repository.find({})).map(e => e.id)).toEqual(['e4', 'e3']);
+  });
+});
+
+describe('MemAgentRunRepository', () => {
+  it('should filter runs and prune old ones', async () => {
+    const repository = new MemAgentRunRepository();
+    const base = { agentName: 'Agent', tokensUsed: 100, computeUnits: 1, duration: 10, success: true, cost: 0.1 };
+    await repository.insert({ ...base, id: 'r1', agentId: 'agent-a', timestamp: '2025-11-01T00:00:00.000Z', withIntelligence: true });
+    await repository.insert({ ...base, id: 'r2', agentId: 'agent-a', timestamp: '2025-11-05T00:00:00.000Z', withIntelligence: false });
+    await repository.insert({ ...base, id: 'r3', agentId: 'agent-b', timestamp: '2025-11-05T00:00:00.000Z', withIntelligence: true });
+
+    expect((await repository.find({ agentId: 'agent-a', withIntelligence: false })).map(r => r.id)).toEqual(['r2']);
+    expect((await repository.find({ from: new Date('2025-11-02T00:00:00Z') })).map(r => r.id)).toEqual(['r2', 'r3']);
+    expect(await repository.agentIds()).toEqual(['agent-a', 'agent-b']);
+
+    expect(await repository.deleteBefore(new Date('2025-11-02T00:00:00Z'))).toBe(1);
+    expect(await repository.agentIds()).toEqual(['agent-a', 'agent-b']);
+  });
+});
+
+describe('agent trackers', () => {
+  it('should read and write through the configured repositories', async () => {
+    const executions = new MemAgentExecutionRepository();
+    const runs = new MemAgentRunRepository();
+    AgentExecutionTracker.useRepository(executions);
+    AgentRunTracker.useRepository(runs);
+
+    const started = await AgentExecutionTracker.startExecution('agent-api', 'API', 'build it', undefined, undefined, 'pending');
+    await AgentExecutionTracker.updateExecutionStatus(started.id, 'executing');
+    await AgentExecutionTracker.updateExecutionStatus(started.id, 'completed', { success: true, qualityScore: 8 });
+
+    expect(await executions.get(started.id)).toMatchObject({
+      status: 'completed',
+      result: { success: true, qualityScore: 8 },
+      metadata: { queuedAt: started.startedAt },
+    });
+
+    const performance = await AgentExecutionTracker.getPerformanceByAgent(['agent-api', 'agent-idle']);
+    expect(performance.get('agent-api')).toMatchObject({ totalRuns: 1, successRate: 100, avgQualityScore: 8 });
+    expect(performance.get('agent-idle')).toMatchObject({ totalRuns: 0, lastUsed: null });
+
+    const run = await AgentRunTracker.recordRun({
+      agentId: 'agent-api', agentName: 'API', withIntelligence: true, tokensUsed: 10, computeUnits: 1, duration: 1, success: true, cost: 0.01,
+      timestamp: '2025-11-01T00:00:00.000Z',
+    });
+    expect(await runs.find({})).toEqual([run]);
+    expect(run.timestamp).toBe('2025-11-01T00:00:00.000Z');
+  });
+});
+
+describe('agent tracking configuration', () => {
+  it('should keep tracking in memory unless postgres is configured', async () => {
+    const db = {} as any;
+    expect(await createAgentTrackingRepositories(db, { AGENT_TRACKING_STORE: 'memory' })).toBeNull();
+    expect(await createAgentTrackingRepositories(db, { AGENT_TRACKING_STORE: 'redis' })).toBeNull();
+
+    const unreachable = { execute: () => Promise.reject(new Error('connect ECONNREFUSED')) } as any;
+    expect(await createAgentTrackingRepositories(unreachable, {})).toBeNull();
+  });
+
+  it('should read the retention window', () => {
+    expect(retentionDays({})).toBe(90);
+    expect(retentionDays({ AGENT_TRACKING_RETENTION_DAYS: '7' })).toBe(7);
+    expect(retentionDays({ AGENT_TRACKING_RETENTION_DAYS: '0' })).toBe(0);
+    expect(retentionDays({ AGENT_TRACKING_RETENTION_DAYS: 'soon' })).toBe(90);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FileAggregateStore,
+  PostgresAggregateStore,
+  createAggregateStore,
+  fromSnapshot,
+  toSnapshot,
+} from '../aggregate-store';
+import type { EventConsumerAggregates } from '../event-consumer';
+
+function sampleAggregates(): EventConsumerAggregates {
+  return {
+    agentMetrics: new Map([
+      ['agent-api', {
+        count: 12,
+        totalRoutingTime: 600,
+        totalConfidence: 10.8,
+        successCount: 9,
+        errorCount: 3,
+        lastSeen: new Date('2025-10-28T12:00:00Z'),
+      }],
+    ]),
+    recentActions: [{
+      id: 'a1',
+      correlationId: 'c1',
+      agentName: 'agent-api',
+      actionType: 'success',
+      actionName: 'write_file',
+      durationMs: 40,
+      createdAt: new Date('2025-10-28T11:59:00Z'),
+    }],
+    routingDecisions: [],
+    recentTransformations: [],
+    performanceMetrics: [{
+      id: 'p1',
+      correlationId: 'c1',
+      queryText: 'build an api',
+      routingDurationMs: 30,
+      cacheHit: true,
+      candidatesEvaluated: 4,
+      triggerMatchStrategy: 'exact',
+      createdAt: new Date('2025-10-28T11:58:00Z'),
+    }],
+    performanceStats: {
+      totalQueries: 4,
+      cacheHitCount: 1,
+      avgRoutingDuration: 25,
+      totalRoutingDuration: 100,
+    },
+  };
+}
+
+describe('aggregate snapshots', () => {
+  it('should round-trip aggregates and revive dates', () => {
+    const restored = fromSnapshot(toSnapshot(sampleAggregates()));
+
+    expect(restored).not.toBeNull();
+    const metrics = restored!.agentMetrics.get('agent-api')!;
+    expect(metrics.successCount).toBe(9);
+    expect(metrics.errorCount).toBe(3);
+    expect(metrics.lastSeen).toBeInstanceOf(Date);
+    expect(restored!.recentActions[0].createdAt.toISOString()).toBe('2025-10-28T11:59:00.000Z');
+    expect(restored!.performanceMetrics[0].cacheHit).toBe(true);
+  });
+
+  it('should recompute the average routing duration from totals', () => {
+    const snapshot = toSnapshot(sampleAggregates());
+    snapshot.performanceStats.avgRoutingDuration = 999;
+
+    expect(fromSnapshot(snapshot)!.performanceStats).toEqual({
+      totalQueries: 4,
+      cacheHitCount: 1,
+      totalRoutingDuration: 100,
+      avgRoutingDuration: 25,
+    });
+  });
+
+  it('should ignore snapshots from another version or with a broken shape', () => {
+    const snapshot = toSnapshot(sampleAggregates());
+
+    expect(fromSnapshot({ ...snapshot, version: 99 })).toBeNull();
+    expect(fromSnapshot({ ...snapshot, agentMetrics: 'nope' })).toBeNull();
+    expect(fromSnapshot(null)).toBeNull();
+  });
+});
+
+describe('FileAggregateStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'aggregate-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return null when no snapshot has been written', async () => {
+    const store = new FileAggregateStore(path.join(dir, 'missing.json'));
+    expect(await store.load()).toBeNull();
+  });
+
+  it('should save and restore aggregates, creating the directory', async () => {
+    const store = new FileAggregateStore(path.join(dir, 'nested', 'aggregates.json'));
+
+    await store.save(sampleAggregates());
+    const restored = await store.load();
+
+    expect(restored!.agentMetrics.get('agent-api')!.count).toBe(12);
+    expect(restored!.performanceStats.totalQueries).toBe(4);
+    expect(await fs.readdir(path.join(dir, 'nested'))).toEqual(['aggregates.json']);
+  });
+});
+
+describe('createAggregateStore', () => {
+  const db = {} as any;
+
+  it('should default to the file backend', () => {
+    expect(createAggregateStore(db, {})).toBeInstanceOf(FileAggregateStore);
+  });
+
+  it('should select postgres or disable persistence', () => {
+    expect(createAggregateStore(db, { EVENT_AGGREGATE_STORE: 'postgres' })).toBeInstanceOf(PostgresAggregateStore);
+    expect(createAggregateStore(db, { EVENT_AGGREGATE_STORE: 'none' })).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  AlertEngine,
+  DEFAULT_ALERT_RULES,
+  formatAlertMessage,
+  type AlertMetricName,
+  type AlertRule,
+} from '../alert-engine';
+
+const healthyMetrics: Record<AlertMetricName, number> = {
+  errorRate: 0.01,
+  injectionSuccessRate: 0.99,
+  avgResponseTime: 150,
+  successRate: 0.97,
+  omniarchonAvailable: 1,
+  databaseAvailable: 1,
+};
+
+describe('AlertEngine', () => {
+  let metrics: Record<AlertMetricName, number>;
+  let clock: Date;
+  let engine: AlertEngine;
+
+  beforeEach(() => {
+    metrics = { ...healthyMetrics };
+    clock = new Date('2025-10-28T12:00:00Z');
+    engine = new AlertEngine(async (metric) => metrics[metric], DEFAULT_ALERT_RULES, {
+      now: () => clock,
+    });
+  });
+
+  it('should not fire when all metrics are healthy', async () => {
+    const alerts = await engine.evaluate();
+    expect(alerts).toHaveLength(0);
+  });
+
+  it('should keep a stable alert id while the condition keeps firing', async () => {
+    metrics.avgResponseTime = 3500;
+
+    const [first] = await engine.evaluate();
+    clock = new Date('2025-10-28T12:01:00Z');
+    const [second] = await engine.evaluate();
+
+    expect(first.id).toBe(second.id);
+    expect(second.ruleId).toBe('response-time-warning');
+    expect(second.message).toBe('High response time at 3500ms (threshold: 2000ms)');
+  });
+
+  it('should only keep the critical alert when warning and critical rules both fire', async () => {
+    metrics.errorRate = 0.2;
+
+    const alerts = await engine.evaluate();
+
+    expect(alerts.map(a => a.ruleId)).toEqual(['error-rate-critical']);
+    expect(alerts[0].level).toBe('critical');
+  });
+
+  it('should move alerts through firing, acknowledged and resolved', async () => {
+    metrics.databaseAvailable = 0;
+    const [alert] = await engine.evaluate();
+    expect(alert.state).toBe('firing');
+
+    clock = new Date('2025-10-28T12:05:00Z');
+    const acknowledged = engine.acknowledge(alert.id, 'investigating');
+    expect(acknowledged?.state).toBe('acknowledged');
+    expect(acknowledged?.acknowledgedAt).toBe('2025-10-28T12:05:00.000Z');
+
+    metrics.databaseAvailable = 1;
+    clock = new Date('2025-10-28T12:10:00Z');
+    expect(await engine.evaluate()).toHaveLength(0);
+
+    const [resolved] = engine.getHistory({ state: 'resolved' });
+    expect(resolved.id).toBe(alert.id);
+    expect(resolved.transitions.map(t => t.state)).toEqual(['firing', 'acknowledged', 'resolved']);
+    expect(engine.acknowledge(alert.id)).toBeNull();
+  });
+
+  it('should give a new id when a resolved condition fires again', async () => {
+    metrics.successRate = 0.5;
+    const [first] = await engine.evaluate();
+
+    metrics.successRate = 0.99;
+    clock = new Date('2025-10-28T12:05:00Z');
+    await engine.evaluate();
+
+    metrics.successRate = 0.5;
+    clock = new Date('2025-10-28T12:10:00Z');
+    const [second] = await engine.evaluate();
+
+    expect(second.id).not.toBe(first.id);
+    expect(engine.getHistory()).toHaveLength(2);
+  });
+
+  it('should hide snoozed alerts until the snooze expires', async () => {
+    metrics.omniarchonAvailable = 0;
+    const [alert] = await engine.evaluate();
+
+    engine.snooze(alert.id, 30);
+    expect(engine.getActiveAlerts()).toHaveLength(0);
+    expect(engine.getActiveAlerts({ includeSnoozed: true })).toHaveLength(1);
+
+    clock = new Date('2025-10-28T12:31:00Z');
+    expect(engine.getActiveAlerts()).toHaveLength(1);
+  });
+
+  it('should keep the current state when a metric cannot be read', async () => {
+    metrics.avgResponseTime = 5000;
+
+    // First evaluation succeeds, later reads of the latency metric fail
+    const flaky = new AlertEngine(async (metric) => {
+      if (metric === 'avgResponseTime' && clock.getMinutes() > 0) throw new Error('timeout');
+      return metrics[metric];
+    }, DEFAULT_ALERT_RULES, { now: () => clock });
+    await flaky.evaluate();
+    clock = new Date('2025-10-28T12:01:00Z');
+    const alerts = await flaky.evaluate();
+    expect(alerts.map(a => a.ruleId)).toEqual(['response-time-warning']);
+  });
+
+  it('should resolve open alerts when their rule is updated or deleted', async () => {
+    metrics.injectionSuccessRate = 0.93;
+    const [alert] = await engine.evaluate();
+    expect(alert.ruleId).toBe('injection-success-warning');
+
+    const rule = engine.getRule('injection-success-warning')!;
+    engine.upsertRule({ ...rule, threshold: 0.9 });
+    expect(engine.getActiveAlerts()).toHaveLength(0);
+    expect(await engine.evaluate()).toHaveLength(0);
+
+    expect(engine.deleteRule('injection-success-warning')).toBe(true);
+    expect(engine.deleteRule('injection-success-warning')).toBe(false);
+  });
+
+  it('should evaluate custom rules', async () => {
+    const rule: AlertRule = {
+      id: 'strict-latency',
+      name: 'Latency budget',
+      metric: 'avgResponseTime',
+      comparator: 'gte',
+      threshold: 150,
+      window: '1 hour',
+      severity: 'critical',
+      enabled: true,
+    };
+    engine.upsertRule(rule);
+
+    const alerts = await engine.evaluate();
+    expect(alerts.map(a => a.ruleId)).toEqual(['strict-latency']);
+  });
+});
+
+describe('formatAlertMessage', () => {
+  it('should format rate metrics as percentages', () => {
+    const rule = DEFAULT_ALERT_RULES.find(r => r.id === 'error-rate-critical')!;
+    expect(formatAlertMessage(rule, 0.125)).toBe('Error rate at 12.5% (threshold: 10.0%)');
+  });
+
+  it('should use the rule name for availability metrics', () => {
+    const rule = DEFAULT_ALERT_RULES.find(r => r.id === 'database-unreachable')!;
+    expect(formatAlertMessage(rule, 0)).toBe('Database connection failed');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { MemChatStore, titleFromMessage } from '../chat-store';
+import {
+  EchoAssistantProvider,
+  RuleBasedAssistantProvider,
+  generateAssistantReply,
+  tokenize,
+  type AssistantProvider,
+} from '../chat-assistant';
+
+describe('MemChatStore', () => {
+  it('should keep conversations per user, most recently active first', async () => {
+    let tick = 0;
+    const store = new MemChatStore(() => new Date(Date.UTC(2025, 9, 28, 12, 0, tick++)));
+    const first = await store.createConversation('alice', 'First');
+    const second = await store.createConversation('alice', 'Second');
+    await store.createConversation('bob', 'Other user');
+
+    await store.addMessage({ conversationId: first.id, role: 'user', content: 'hello again' });
+
+    const conversations = await store.listConversations('alice');
+    expect(conversations.map(c => c.title)).toEqual(['First', 'Second']);
+    expect(conversations[0]).toMatchObject({ messageCount: 1, lastMessagePreview: 'hello again' });
+    expect(await store.getConversation('bob', second.id)).toBeUndefined();
+  });
+
+  it('should only rename and delete the owner\'s conversations', async () => {
+    const store = new MemChatStore();
+    const conversation = await store.createConversation('alice', 'Draft');
+    await store.addMessage({ conversationId: conversation.id, role: 'user', content: 'hi' });
+
+    expect(await store.renameConversation('bob', conversation.id, 'Hijacked')).toBeUndefined();
+    expect(await store.renameConversation('alice', conversation.id, 'Renamed')).toMatchObject({ title: 'Renamed' });
+
+    expect(await store.deleteConversation('bob', conversation.id)).toBe(false);
+    expect(await store.deleteConversation('alice', conversation.id)).toBe(true);
+    expect(await store.listMessages(conversation.id)).toEqual([]);
+  });
+
+  it('should derive titles from the first message', () => {
+    expect(titleFromMessage('  How do I\nreduce costs?  ')).toBe('How do I reduce costs?');
+    expect(titleFromMessage('x'.repeat(200))).toHaveLength(80);
+    expect(titleFromMessage('   ')).toBe('New conversation');
+  });
+});
+
+describe('chat assistant', () => {
+  it('should tokenize without losing whitespace', () => {
+    const text = 'Hello  there,\nworld ';
+    expect(tokenize(text).join('')).toBe(text);
+    expect(tokenize(text)).toHaveLength(3);
+  });
+
+  it('should answer from keyword rules with a fallback', () => {
+    const provider = new RuleBasedAssistantProvider();
+    expect(provider.reply('Show me agents with high error rates')).toMatch(/Agent Management/);
+    expect(provider.reply('hello')).toMatch(/I can help with/);
+  });
+
+  it('should stream and persist the reply using the conversation history', async () => {
+    const store = new MemChatStore();
+    const conversation = await store.createConversation('alice', 'Echo');
+    await store.addMessage({ conversationId: conversation.id, role: 'user', content: 'ping pong' });
+
+    const tokens: string[] = [];
+    const reply = await generateAssistantReply({
+      store,
+      provider: new EchoAssistantProvider(),
+      conversationId: conversation.id,
+      onToken: token => tokens.push(token),
+    });
+
+    expect(tokens.join('')).toBe('You said: ping pong');
+    expect(reply).toMatchObject({ role: 'assistant', content: 'You said: ping pong', status: 'complete' });
+    expect((await store.listMessages(conversation.id)).map(m => m.role)).toEqual(['user', 'assistant']);
+  });
+
+  it('should keep partial content when the client cancels or the provider fails', async () => {
+    const store = new MemChatStore();
+    const conversation = await store.createConversation('alice', 'Cancel');
+    await store.addMessage({ conversationId: conversation.id, role: 'user', content: 'one two three' });
+
+    const abort = new AbortController();
+    const cancelled = await generateAssistantReply({
+      store,
+      provider: new EchoAssistantProvider(),
+      conversationId: conversation.id,
+      signal: abort.signal,
+      onToken: () => abort.abort(),
+    });
+    expect(cancelled).toMatchObject({ content: 'You ', status: 'cancelled' });
+
+    const failing: AssistantProvider = {
+      name: 'failing',
+      async *streamReply() {
+        yield 'partial ';
+        throw new Error('backend down');
+      },
+    };
+    await expect(generateAssistantReply({ store, provider: failing, conversationId: conversation.id }))
+      .rejects.toThrow('backend down');
+
+    const messages = await store.listMessages(conversation.id);
+    expect(messages[messages.length - 1]).toMatchObject({ content: 'partial ', status: 'error' });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  composeGroundedAnswer,
+  runTools,
+  selectTools,
+  timeWindowFrom,
+  type ChatDataSource,
+} from '../chat-tools';
+import { GroundedAssistantProvider } from '../chat-assistant';
+
+const TRACE_ID = '3f2b8c1e-9d4a-4b7e-8f6a-1c2d3e4f5a6b';
+
+function fakeData(overrides: Partial<ChatDataSource> = {}): ChatDataSource {
+  return {
+    getAgentSummary: vi.fn(async () => [
+      { agent: 'agent-api', totalRequests: 120, avgRoutingTime: 45, avgConfidence: 0.9, successRate: 0.95, lastSeen: new Date() },
+      { agent: 'agent-debug', totalRequests: 30, avgRoutingTime: 1500, avgConfidence: 0.6, successRate: 0.62, lastSeen: new Date() },
+    ]),
+    getPatternSummary: vi.fn(async () => ({ total_patterns: 42, languages: 3, unique_executions: 17 })),
+    getPerformanceSummary: vi.fn(() => ({ totalQueries: 200, cacheHitCount: 50, avgRoutingDuration: 12.4, cacheHitRate: 25 })),
+    getSavingsMetrics: vi.fn(() => ({
+      totalSavings: 1234.5,
+      monthlySavings: 1234.5,
+      weeklySavings: 288,
+      dailySavings: 41.15,
+      intelligenceRuns: 80,
+      baselineRuns: 20,
+      avgTokensPerRun: 1000,
+      avgComputePerRun: 2,
+      costPerToken: 0.00002,
+      costPerCompute: 0.05,
+      efficiencyGain: 34.2,
+      timeSaved: 12,
+      dataAvailable: true,
+    })),
+    getCorrelationTrace: vi.fn(async (correlationId: string) => ({
+      correlationId,
+      events: [
+        { id: 'r1', eventType: 'routing' as const, timestamp: '2025-10-28T12:00:00Z', agentName: 'agent-api', details: {}, durationMs: 20 },
+        { id: 'a1', eventType: 'action' as const, timestamp: '2025-10-28T12:00:01Z', agentName: 'agent-api', details: {}, durationMs: 480 },
+      ],
+      summary: { totalEvents: 2, routingDecisions: 1, actions: 1, errors: 0, totalDurationMs: 500 },
+    })),
+    ...overrides,
+  };
+}
+
+describe('chat tools', () => {
+  it('should select tools from the question and parse their arguments', () => {
+    expect(selectTools('Which agents have the most errors this week?').map(s => [s.tool.name, s.args])).toEqual([
+      ['agent_summary', { timeWindow: '7d', focus: 'errors' }],
+    ]);
+    expect(selectTools(`What happened in ${TRACE_ID.toUpperCase()}?`)[0]).toMatchObject({
+      tool: { name: 'correlation_trace' },
+      args: { correlationId: TRACE_ID },
+    });
+    expect(selectTools('How much did we save last quarter?')[0].args).toEqual({ timeRange: '90d' });
+    expect(selectTools('hello there')).toEqual([]);
+    expect(timeWindowFrom('over the last month')).toBe('30d');
+  });
+
+  it('should cite the numbers used, their source and a dashboard link', async () => {
+    const data = fakeData();
+    const answer = composeGroundedAnswer(await runTools(selectTools('Which agents are failing?'), data));
+
+    expect(data.getAgentSummary).toHaveBeenCalledWith('24h');
+    expect(answer).toContain('2 agents handled 150 requests in the last 24 hours');
+    expect(answer).toMatch(/Lowest success rates: \*\*agent-debug\*\* \(30 requests, 62% success, 1\.5s avg routing\)/);
+    expect(answer).toContain('_Source: `GET /api/intelligence/agents/summary?timeWindow=24h`_');
+    expect(answer).toContain('[Open Agent Management](/)');
+  });
+
+  it('should link correlation answers to the trace page', async () => {
+    const answer = composeGroundedAnswer(await runTools(selectTools(`trace ${TRACE_ID}`), fakeData()));
+
+    expect(answer).toContain('**2** events (1 routing decisions, 1 actions)');
+    expect(answer).toContain('**500ms**');
+    expect(answer).toContain(`[Open Correlation Trace](/trace?id=${TRACE_ID})`);
+  });
+
+  it('should report a failing tool without dropping the other answers', async () => {
+    const data = fakeData({ getPatternSummary: vi.fn(async () => { throw new Error('connection refused'); }) });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const answer = composeGroundedAnswer(await runTools(selectTools('pattern count and cache performance'), data));
+    warn.mockRestore();
+
+    expect(answer).toContain('**200** queries');
+    expect(answer).toContain('cache hit rate of **25%** (50 hits)');
+    expect(answer).toContain("I couldn't load data for pattern summary (connection refused).");
+  });
+});
+
+describe('GroundedAssistantProvider', () => {
+  async function reply(provider: GroundedAssistantProvider, content: string): Promise<string> {
+    let text = '';
+    for await (const token of provider.streamReply([{ role: 'user', content }])) text += token;
+    return text;
+  }
+
+  it('should answer from live data when a tool applies', async () => {
+    const provider = new GroundedAssistantProvider(fakeData());
+    const text = await reply(provider, 'What are our savings this month?');
+
+    expect(text).toContain('saved **$1,234.50** ($41.15/day) with a **34.2%** token efficiency gain');
+    expect(text).toContain('[Open Intelligence Savings](/preview/savings)');
+  });
+
+  it('should fall back to the rule-based reply when no tool applies', async () => {
+    const data = fakeData();
+    const text = await reply(new GroundedAssistantProvider(data), 'hello there');
+
+    expect(text).toContain('I can help with agent performance');
+    expect(data.getAgentSummary).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DeadLetterStore, validateKafkaEvent } from '../dead-letter-store';
+
+describe('validateKafkaEvent', () => {
+  it('should normalize snake_case payloads and map timestamp to createdAt', () => {
+    const result = validateKafkaEvent('agent-routing-decisions', JSON.stringify({
+      correlation_id: 'c1',
+      user_request: 'build an api',
+      selected_agent: 'agent-api',
+      confidence_score: '0.92',
+      routing_strategy: 'enhanced_fuzzy_matching',
+      routing_time_ms: 45,
+      timestamp: '2025-10-28T12:00:00Z',
+    }));
+
+    expect(result.ok).toBe(true);
+    if (result.ok && result.topic === 'agent-routing-decisions') {
+      expect(result.event.selectedAgent).toBe('agent-api');
+      expect(result.event.confidenceScore).toBe(0.92);
+      expect(result.event.createdAt).toEqual(new Date('2025-10-28T12:00:00Z'));
+    }
+  });
+
+  it('should apply defaults for optional fields', () => {
+    const result = validateKafkaEvent('router-performance-metrics', JSON.stringify({ routingDurationMs: 12 }));
+
+    expect(result.ok && result.event).toMatchObject({
+      routingDurationMs: 12,
+      cacheHit: false,
+      candidatesEvaluated: 0,
+      triggerMatchStrategy: 'unknown',
+    });
+  });
+
+  it('should reject payloads that are not JSON', () => {
+    const result = validateKafkaEvent('agent-actions', '{not json');
+    expect(result).toMatchObject({ ok: false, reason: 'invalid_json' });
+  });
+
+  it('should report every failing field instead of defaulting it', () => {
+    const result = validateKafkaEvent('agent-actions', JSON.stringify({
+      correlation_id: 'c1',
+      action_type: 'tool_call',
+      duration_ms: -5,
+    }));
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.reason).toBe('schema_validation');
+      expect(result.issues.map(issue => issue.path).sort()).toEqual(['actionName', 'agentName', 'durationMs']);
+    }
+  });
+
+  it('should reject confidence scores outside 0-1 and unknown topics', () => {
+    const transformation = validateKafkaEvent('agent-transformation-events', JSON.stringify({
+      source_agent: 'a',
+      target_agent: 'b',
+      confidence_score: 7,
+    }));
+
+    expect(transformation).toMatchObject({ ok: false, reason: 'schema_validation' });
+    expect(validateKafkaEvent('unknown-topic', '{}')).toMatchObject({ ok: false, reason: 'unknown_topic' });
+  });
+});
+
+describe('DeadLetterStore', () => {
+  const clock = () => new Date('2025-10-28T12:00:00Z');
+
+  it('should keep entries newest first with counts by topic and reason', () => {
+    const store = new DeadLetterStore(10, null, clock);
+    store.add({ topic: 'agent-actions', offset: '1', reason: 'invalid_json', error: 'bad', rawPayload: '{' });
+    const latest = store.add({ topic: 'agent-actions', offset: '2', reason: 'schema_validation', error: 'agentName: Required', rawPayload: '{}' });
+    store.add({ topic: 'agent-routing-decisions', offset: '3', reason: 'schema_validation', error: 'x', rawPayload: '{}' });
+
+    expect(store.list({ topic: 'agent-actions' })[0].id).toBe(latest.id);
+    expect(store.counts()).toEqual({
+      total: 3,
+      byTopic: { 'agent-actions': 2, 'agent-routing-decisions': 1 },
+      byReason: { invalid_json: 1, schema_validation: 2 },
+    });
+  });
+
+  it('should drop the oldest entries beyond the cap', () => {
+    const store = new DeadLetterStore(2, null, clock);
+    ['1', '2', '3'].forEach(offset =>
+      store.add({ topic: 'agent-actions', offset, reason: 'invalid_json', error: 'bad', rawPayload: '{' }));
+
+    expect(store.list().map(entry => entry.offset)).toEqual(['3', '2']);
+  });
+
+  it('should track failed replays and remove entries', () => {
+    const store = new DeadLetterStore(10, null, clock);
+    const entry = store.add({ topic: 'agent-actions', reason: 'handler_error', error: 'boom', rawPayload: '{}' });
+
+    store.recordReplayFailure(entry.id, { reason: 'schema_validation', error: 'agentName: Required', issues: [] });
+    expect(store.get(entry.id)).toMatchObject({
+      reason: 'schema_validation',
+      replayAttempts: 1,
+      lastReplayAt: '2025-10-28T12:00:00.000Z',
+    });
+
+    expect(store.remove(entry.id)).toBe(true);
+    expect(store.remove(entry.id)).toBe(false);
+  });
+
+  describe('on-disk persistence', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dead-letters-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should reload entries written by a previous store', async () => {
+      const filePath = path.join(dir, 'dead-letters.json');
+      const first = new DeadLetterStore(10, filePath, clock);
+      const entry = first.add({ topic: 'agent-actions', offset: '7', reason: 'invalid_json', error: 'bad', rawPayload: '{' });
+      await first.flush();
+
+      const second = new DeadLetterStore(10, filePath, clock);
+      await second.load();
+
+      expect(second.get(entry.id)).toMatchObject({ offset: '7', rawPayload: '{' });
+    });
+  });
+});
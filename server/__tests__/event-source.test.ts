@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FileEventSource,
+  NdjsonRecorder,
+  createEventSource,
+  parseRecordedLine,
+  parseReplaySpeed,
+  type SourceMessage,
+} from '../event-source';
+
+const line = (topic: string, timestamp: string, value: unknown) =>
+  JSON.stringify({ topic, partition: 0, timestamp, value: typeof value === 'string' ? value : JSON.stringify(value) });
+
+describe('parseReplaySpeed', () => {
+  it('should accept original, max and acceleration factors', () => {
+    expect(parseReplaySpeed(undefined)).toBe(1);
+    expect(parseReplaySpeed('original')).toBe(1);
+    expect(parseReplaySpeed('max')).toBe(Infinity);
+    expect(parseReplaySpeed('10x')).toBe(10);
+    expect(parseReplaySpeed('2.5')).toBe(2.5);
+    expect(() => parseReplaySpeed('-1')).toThrow(/Invalid replay speed/);
+  });
+});
+
+describe('parseRecordedLine', () => {
+  it('should stringify object payloads and default offsets to the line number', () => {
+    expect(parseRecordedLine('{"topic":"agent-actions","value":{"agent_name":"a"}}', 7)).toEqual({
+      topic: 'agent-actions',
+      partition: 0,
+      offset: '7',
+      timestamp: null,
+      value: '{"agent_name":"a"}',
+    });
+  });
+
+  it('should skip blank and malformed lines', () => {
+    expect(parseRecordedLine('', 1)).toBeNull();
+    expect(parseRecordedLine('{not json', 2)).toBeNull();
+    expect(parseRecordedLine('{"value":"x"}', 3)).toBeNull();
+  });
+});
+
+describe('FileEventSource', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'event-source-'));
+    filePath = path.join(dir, 'capture.ndjson');
+    await fs.writeFile(filePath, [
+      line('agent-actions', '2025-10-28T12:00:00.000Z', { agent_name: 'a' }),
+      line('agent-routing-decisions', '2025-10-28T12:00:01.000Z', { selected_agent: 'a' }),
+      '{broken',
+      line('agent-actions', '2025-10-28T12:00:03.000Z', { agent_name: 'b' }),
+      '',
+    ].join('\n'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should replay subscribed topics in order as fast as possible', async () => {
+    const source = new FileEventSource({ filePath, speed: Infinity });
+    const received: SourceMessage[] = [];
+
+    await source.connect();
+    await source.subscribe(['agent-actions']);
+    await source.run(async (message) => { received.push(message); });
+    await source.whenComplete();
+
+    expect(received.map(m => JSON.parse(m.value).agent_name)).toEqual(['a', 'b']);
+    expect(received[1]).toMatchObject({ topic: 'agent-actions', offset: '4', timestamp: '2025-10-28T12:00:03.000Z' });
+  });
+
+  it('should preserve the original gaps scaled by the speed factor', async () => {
+    const delays: number[] = [];
+    const source = new FileEventSource({
+      filePath,
+      speed: 2,
+      sleep: async (ms) => { delays.push(ms); },
+    });
+
+    await source.subscribe(['agent-actions', 'agent-routing-decisions']);
+    await source.run(async () => {});
+    await source.whenComplete();
+
+    expect(delays).toEqual([500, 1000]);
+    expect(source.deliveredCount).toBe(3);
+  });
+
+  it('should restart from a timestamp on offset reset', async () => {
+    const source = new FileEventSource({ filePath, speed: Infinity });
+    const received: string[] = [];
+
+    await source.subscribe(['agent-actions']);
+    await source.run(async (message) => { received.push(JSON.parse(message.value).agent_name); });
+    await source.whenComplete();
+
+    await source.resetOffsetsToTimestamp(['agent-actions'], new Date('2025-10-28T12:00:02.000Z'));
+    await source.whenComplete();
+
+    expect(received).toEqual(['a', 'b', 'b']);
+  });
+
+  it('should stop delivering after disconnect', async () => {
+    const source = new FileEventSource({
+      filePath,
+      speed: 1,
+      sleep: () => new Promise(() => {}), // never wakes up on its own
+    });
+    const received: SourceMessage[] = [];
+
+    await source.subscribe(['agent-actions']);
+    await source.run(async (message) => { received.push(message); });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await source.disconnect();
+
+    expect(received).toHaveLength(1);
+  });
+
+  it('should stop looping when a pass delivers nothing', async () => {
+    const source = new FileEventSource({ filePath, speed: Infinity, loop: true });
+
+    await source.subscribe(['transformation-events']);
+    await source.run(async () => {});
+    await source.whenComplete();
+
+    expect(source.deliveredCount).toBe(0);
+  });
+
+  it('should fail to connect when the capture is missing', async () => {
+    const source = new FileEventSource({ filePath: path.join(dir, 'missing.ndjson') });
+    await expect(source.connect()).rejects.toThrow(/ENOENT/);
+  });
+
+  it('should replay a capture written by NdjsonRecorder', async () => {
+    const capturePath = path.join(dir, 'nested', 'recorded.ndjson');
+    const recorder = new NdjsonRecorder(capturePath);
+    recorder.record({ topic: 'agent-actions', partition: 2, offset: '41', timestamp: '2025-10-28T12:00:00.000Z', value: '{"agent_name":"a"}' });
+    recorder.record({ topic: 'agent-actions', partition: 2, offset: '42', timestamp: '2025-10-28T12:00:00.000Z', value: '{not json' });
+    await recorder.close();
+
+    const source = new FileEventSource({ filePath: capturePath, speed: Infinity });
+    const received: SourceMessage[] = [];
+    await source.subscribe(['agent-actions']);
+    await source.run(async (message) => { received.push(message); });
+    await source.whenComplete();
+
+    expect(received).toEqual([
+      { topic: 'agent-actions', partition: 2, offset: '41', timestamp: '2025-10-28T12:00:00.000Z', value: '{"agent_name":"a"}' },
+      { topic: 'agent-actions', partition: 2, offset: '42', timestamp: '2025-10-28T12:00:00.000Z', value: '{not json' },
+    ]);
+  });
+});
+
+describe('createEventSource', () => {
+  it('should default to Kafka and require a replay file for the file source', () => {
+    expect(createEventSource('group', {}).kind).toBe('kafka');
+    expect(createEventSource('group', { EVENT_SOURCE: 'file', EVENT_REPLAY_FILE: 'capture.ndjson' }).kind).toBe('file');
+    expect(() => createEventSource('group', { EVENT_SOURCE: 'file' })).toThrow(/EVENT_REPLAY_FILE is required/);
+    expect(() => createEventSource('group', { EVENT_SOURCE: 'pulsar' })).toThrow(/Unknown EVENT_SOURCE/);
+  });
+});
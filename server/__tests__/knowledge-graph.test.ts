@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { buildKnowledgeGraph, queryKnowledgeGraph, type KnowledgeGraphSources, type PatternSource } from '../knowledge-graph';
+
+function pattern(id: string, filePath: string | null = null): PatternSource {
+  return { id, name: `Pattern ${id}`, patternType: 'code', language: 'python', filePath, qualityScore: 0.9, createdAt: null };
+}
+
+// p1 -> p2 -> p3 lineage; agent-api found p1 and p2 and read d1 (p1's file, in the omniarchon repo)
+const SOURCES: KnowledgeGraphSources = {
+  patterns: [pattern('p1', './src/auth/oauth.py'), pattern('p2'), pattern('p3'), pattern('p4')],
+  lineage: [
+    { sourceId: 'p1', targetId: 'p2', edgeType: 'derived_from', weight: 0.8 },
+    { sourceId: 'p2', targetId: 'p3', edgeType: 'derived_from', weight: null },
+    // Outside the loaded patterns
+    { sourceId: 'p3', targetId: 'p-old', edgeType: 'derived_from', weight: 1 },
+  ],
+  documents: [
+    { id: 'd1', repository: 'Omniarchon', filePath: 'src/auth/oauth.py', accessCount: 12 },
+    { id: 'd2', repository: 'omnidash', filePath: 'README.md', accessCount: 3 },
+  ],
+  services: [{ name: 'omniarchon', url: 'http://localhost:8053', serviceType: 'api', healthStatus: 'healthy' }],
+  agentPatterns: [
+    { agentName: 'agent-api', targetId: 'p1', count: 2 },
+    { agentName: 'agent-api', targetId: 'p2', count: 1 },
+  ],
+  agentDocuments: [{ agentName: 'agent-api', targetId: 'd1', count: 5 }],
+};
+
+describe('buildKnowledgeGraph', () => {
+  it('should assemble typed nodes and edges from the source rows', () => {
+    const graph = buildKnowledgeGraph(SOURCES);
+
+    expect(Array.from(graph.nodes.keys()).sort()).toEqual([
+      'agent:agent-api',
+      'document:d1',
+      'document:d2',
+      'pattern:p1',
+      'pattern:p2',
+      'pattern:p3',
+      'pattern:p4',
+      'service:omniarchon',
+    ]);
+    expect(graph.edges.map(edge => [edge.type, edge.source, edge.target, edge.weight])).toEqual([
+      ['derived_from', 'pattern:p1', 'pattern:p2', 0.8],
+      ['derived_from', 'pattern:p2', 'pattern:p3', 1],
+      ['discovered', 'agent:agent-api', 'pattern:p1', 2],
+      ['discovered', 'agent:agent-api', 'pattern:p2', 1],
+      ['accessed', 'agent:agent-api', 'document:d1', 5],
+      ['defined_in', 'pattern:p1', 'document:d1', 1],
+      ['hosted_by', 'document:d1', 'service:omniarchon', 1],
+    ]);
+    expect(graph.nodes.get('document:d1')).toMatchObject({ label: 'oauth.py', properties: { repository: 'Omniarchon', accessCount: 12 } });
+  });
+});
+
+describe('queryKnowledgeGraph', () => {
+  const graph = buildKnowledgeGraph(SOURCES);
+
+  it('should return the best connected nodes without a focus', () => {
+    const view = queryKnowledgeGraph(graph, { depth: 2, limit: 3 })!;
+
+    expect(view.nodes.map(node => [node.id, node.degree])).toEqual([
+      ['agent:agent-api', 3],
+      ['document:d1', 3],
+      ['pattern:p1', 3],
+    ]);
+    expect(view.edges.map(edge => edge.type).sort()).toEqual(['accessed', 'defined_in', 'discovered']);
+    expect(view.nodes.find(node => node.id === 'pattern:p1')!.hiddenNeighbors).toBe(1);
+    expect(view.meta).toMatchObject({ focus: null, depth: null, totalNodes: 8, totalEdges: 7, truncated: true });
+  });
+
+  it('should expand the neighbourhood of a focus node, strongest links first', () => {
+    const view = queryKnowledgeGraph(graph, { focus: 'pattern:p3', depth: 2, limit: 10 })!;
+
+    expect(view.nodes.map(node => [node.id, node.distance])).toEqual([
+      ['pattern:p3', 0],
+      ['pattern:p2', 1],
+      ['agent:agent-api', 2],
+      ['pattern:p1', 2],
+    ]);
+    // agent-api's document is one hop further out
+    expect(view.nodes.find(node => node.id === 'agent:agent-api')!.hiddenNeighbors).toBe(1);
+    expect(view.meta).toMatchObject({ focus: 'pattern:p3', depth: 2, totalNodes: 4, truncated: false, edgeTypes: { derived_from: 2, discovered: 2 } });
+  });
+
+  it('should neither return nor traverse filtered node types', () => {
+    const view = queryKnowledgeGraph(graph, { focus: 'service:omniarchon', depth: 4, types: ['service', 'document', 'pattern'], limit: 10 })!;
+
+    expect(view.nodes.map(node => node.id)).toEqual([
+      'service:omniarchon',
+      'document:d1',
+      'pattern:p1',
+      'pattern:p2',
+      'pattern:p3',
+    ]);
+    expect(view.edges.some(edge => edge.type === 'discovered' || edge.type === 'accessed')).toBe(false);
+  });
+
+  it('should return null for an unknown focus node', () => {
+    expect(queryKnowledgeGraph(graph, { focus: 'pattern:missing', depth: 2, limit: 10 })).toBeNull();
+  });
+});
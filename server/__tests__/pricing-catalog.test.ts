@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AgentRunTracker, type AgentRun } from '../agent-run-tracker';
+import { MemAgentRunRepository, MemPricingStore } from '../agent-tracking-repository';
+import {
+  DEFAULT_PRICING,
+  PricingCatalog,
+  PricingEntryInputSchema,
+  findPrice,
+  priceRun,
+  pricingCatalog,
+  repriceRuns,
+  type PricingEntry,
+} from '../pricing-catalog';
+
+function price(id: string, model: string, input: number, output: number, effectiveFrom: string, effectiveTo: string | null = null): PricingEntry {
+  return { id, provider: 'anthropic', model, inputPricePerMillion: input, outputPricePerMillion: output, effectiveFrom, effectiveTo };
+}
+
+// Sonnet got cheaper on 2025-11-15
+const ENTRIES = [
+  price('sonnet-old', 'claude-3.5-sonnet', 4, 20, '2025-01-01T00:00:00.000Z', '2025-11-15T00:00:00.000Z'),
+  price('sonnet-new', 'claude-3.5-sonnet', 3, 15, '2025-11-15T00:00:00.000Z'),
+];
+
+function run(id: string, overrides: Partial<AgentRun> = {}, metadata: AgentRun['metadata'] = {}): AgentRun {
+  return {
+    id,
+    agentId: 'agent-api',
+    agentName: 'API',
+    timestamp: '2025-11-01T00:00:00.000Z',
+    withIntelligence: true,
+    tokensUsed: 1_000_000,
+    computeUnits: 1,
+    duration: 10,
+    success: true,
+    cost: 10,
+    ...overrides,
+    metadata: { model: 'claude-3.5-sonnet', provider: 'anthropic', inputTokens: 750_000, outputTokens: 250_000, ...metadata },
+  };
+}
+
+describe('pricing lookups', () => {
+  it('should pick the price effective at the given date', () => {
+    expect(findPrice(ENTRIES, 'Claude-3.5-Sonnet', undefined, new Date('2025-11-01T00:00:00Z'))?.id).toBe('sonnet-old');
+    expect(findPrice(ENTRIES, 'claude-3.5-sonnet', 'anthropic', new Date('2025-11-15T00:00:00Z'))?.id).toBe('sonnet-new');
+    expect(findPrice(ENTRIES, 'claude-3.5-sonnet', 'openai', new Date('2025-11-20T00:00:00Z'))).toBeNull();
+    expect(findPrice(ENTRIES, 'claude-3.5-sonnet', undefined, new Date('2024-06-01T00:00:00Z'))).toBeNull();
+  });
+
+  it('should price input and output tokens separately', () => {
+    const at = new Date('2025-11-20T00:00:00Z');
+
+    expect(priceRun(run('r1'), ENTRIES, at)).toEqual({ cost: 6, pricingId: 'sonnet-new' });
+    // Without a split, all tokens are priced as input
+    expect(priceRun(run('r2', {}, { inputTokens: undefined, outputTokens: undefined }), ENTRIES, at)!.cost).toBe(3);
+    expect(priceRun(run('r3', {}, { model: 'unknown-model' }), ENTRIES, at)).toBeNull();
+  });
+
+  it('should validate catalog entries', () => {
+    const base = { provider: 'openai', model: 'gpt-4o', inputPricePerMillion: 2.5, outputPricePerMillion: 10 };
+
+    expect(PricingEntryInputSchema.safeParse({ ...base, effectiveFrom: '2025-01-01' }).success).toBe(true);
+    expect(PricingEntryInputSchema.safeParse({ ...base, effectiveFrom: '2025-01-01', effectiveTo: '2024-01-01' }).success).toBe(false);
+    expect(PricingEntryInputSchema.safeParse({ ...base, inputPricePerMillion: -1, effectiveFrom: '2025-01-01' }).success).toBe(false);
+  });
+});
+
+describe('PricingCatalog', () => {
+  it('should reject overlapping periods for the same model', async () => {
+    const catalog = new PricingCatalog(new MemPricingStore(ENTRIES));
+    const input = { provider: 'anthropic', model: 'claude-3.5-sonnet', inputPricePerMillion: 2, outputPricePerMillion: 10 };
+
+    const overlapping = await catalog.create({ ...input, effectiveFrom: new Date('2025-12-01T00:00:00Z'), effectiveTo: null });
+    expect(overlapping).toMatchObject({ ok: false, status: 409 });
+
+    // Close the open-ended price, then add the next one
+    const closed = await catalog.update('sonnet-new', { ...input, inputPricePerMillion: 3, outputPricePerMillion: 15, effectiveFrom: new Date('2025-11-15T00:00:00Z'), effectiveTo: new Date('2025-12-01T00:00:00Z') });
+    expect(closed).toMatchObject({ ok: true, entry: { id: 'sonnet-new', effectiveTo: '2025-12-01T00:00:00.000Z' } });
+    const next = await catalog.create({ ...input, effectiveFrom: new Date('2025-12-01T00:00:00Z'), effectiveTo: null });
+    expect(next.ok).toBe(true);
+
+    expect((await catalog.list()).map(entry => entry.inputPricePerMillion)).toEqual([4, 3, 2]);
+    expect(await catalog.update('missing', { ...input, effectiveFrom: new Date(), effectiveTo: null }))
+      .toEqual({ ok: false, status: 404, error: 'Price not found' });
+    expect(await catalog.remove('sonnet-old')).toBe(true);
+    expect(await catalog.remove('sonnet-old')).toBe(false);
+  });
+
+  it('should seed defaults into an empty store only', async () => {
+    const catalog = new PricingCatalog(new MemPricingStore());
+
+    expect(await catalog.ensureDefaults()).toBe(DEFAULT_PRICING.length);
+    expect(await catalog.ensureDefaults()).toBe(0);
+  });
+});
+
+describe('recording runs without a cost', () => {
+  beforeEach(() => {
+    AgentRunTracker.useRepository(new MemAgentRunRepository());
+    pricingCatalog.useStore(new MemPricingStore(ENTRIES));
+  });
+
+  afterEach(() => {
+    pricingCatalog.useStore(new MemPricingStore(DEFAULT_PRICING));
+  });
+
+  it('should price runs from the catalog at their timestamp', async () => {
+    const base = {
+      agentId: 'agent-api', agentName: 'API', withIntelligence: true, tokensUsed: 1_000_000, computeUnits: 1, duration: 10, success: true,
+      metadata: { model: 'claude-3.5-sonnet', inputTokens: 750_000, outputTokens: 250_000 },
+    };
+
+    const priced = await AgentRunTracker.recordRun({ ...base, timestamp: '2025-11-01T00:00:00.000Z' });
+    const reported = await AgentRunTracker.recordRun({ ...base, cost: 1.5 });
+    const unpriced = await AgentRunTracker.recordRun({ ...base, metadata: { model: 'local-llm' } });
+
+    expect(priced.cost).toBe(8);
+    expect(priced.metadata?.pricingId).toBe('sonnet-old');
+    expect(reported.cost).toBe(1.5);
+    expect(unpriced.cost).toBe(0);
+  });
+});
+
+describe('repriceRuns', () => {
+  it('should compare recorded costs with current prices and attribute them', () => {
+    const runs = [
+      run('r1', {}, { project: 'omnidash', patternsUsed: ['retry', 'cache'] }),
+      run('r2', { agentId: 'agent-testing', cost: 2 }, { project: 'omnidash', patternsUsed: ['cache'] }),
+      run('r3', { cost: 0.5 }, { model: 'local-llm' }),
+    ];
+
+    const report = repriceRuns(runs, ENTRIES, {
+      from: new Date('2025-11-01T00:00:00Z'),
+      to: new Date('2025-12-01T00:00:00Z'),
+      at: new Date('2025-11-20T00:00:00Z'),
+    });
+
+    expect(report).toMatchObject({ pricedAt: '2025-11-20T00:00:00.000Z', runs: 3, unpriced: 1, recordedCost: 12.5, repricedCost: 12.5, difference: 0 });
+    expect(report.byAgent).toEqual([
+      { key: 'agent-api', runs: 2, tokens: 2_000_000, recordedCost: 10.5, repricedCost: 6.5 },
+      { key: 'agent-testing', runs: 1, tokens: 1_000_000, recordedCost: 2, repricedCost: 6 },
+    ]);
+    expect(report.byProject.map(p => [p.key, p.repricedCost])).toEqual([['omnidash', 12], ['unassigned', 0.5]]);
+    // r1 splits its cost between its two patterns
+    expect(report.byPattern.map(p => [p.key, p.runs, p.repricedCost])).toEqual([['cache', 2, 9], ['retry', 1, 3]]);
+  });
+
+  it('should use the prices of each run\'s own time for historical pricing', () => {
+    const report = repriceRuns([run('r1'), run('r2', { timestamp: '2025-11-20T00:00:00.000Z' })], ENTRIES, {
+      from: new Date('2025-11-01T00:00:00Z'),
+      to: new Date('2025-12-01T00:00:00Z'),
+      at: null,
+    });
+
+    expect(report.pricedAt).toBeNull();
+    expect(report.repricedCost).toBe(14);
+  });
+});
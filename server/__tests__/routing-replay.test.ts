@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { validateAgentDefinition, type RegistryAgent } from '../agent-registry';
+import { RoutingEngine } from '../agent-routing-engine';
+import {
+  applyAgentOverrides,
+  replayRoutingDecisions,
+  summarizeOutcomes,
+  type HistoricalRoutingDecision,
+} from '../routing-replay';
+
+function agent(definition: Record<string, unknown>): RegistryAgent {
+  const result = validateAgentDefinition(definition, String(definition.name), 'test.yaml');
+  if ('error' in result) throw new Error(result.error.issues.join(', '));
+  return result.agent;
+}
+
+let sequence = 0;
+function decision(userRequest: string, selectedAgent: string, executionSucceeded: boolean | null = null, actualQualityScore: number | null = null): HistoricalRoutingDecision {
+  sequence++;
+  return {
+    id: `decision-${sequence}`,
+    userRequest,
+    selectedAgent,
+    confidence: 0.8,
+    contextSnapshot: null,
+    executionSucceeded,
+    actualQualityScore,
+    createdAt: new Date(Date.UTC(2025, 10, 1, 0, sequence)).toISOString(),
+  };
+}
+
+const agents = [
+  agent({ name: 'agent-api', activation_triggers: ['api'] }),
+  agent({ name: 'agent-testing', activation_triggers: ['test'] }),
+  agent({ name: 'agent-polymorphic-agent' }),
+];
+const engine = new RoutingEngine({ agents: () => agents });
+const decide = (query: string, context?: Record<string, unknown>) => engine.decide(query, context);
+
+describe('routing replay', () => {
+  it('should report agreement and a confusion matrix', () => {
+    const report = replayRoutingDecisions([
+      decision('build an api', 'agent-api'),
+      decision('write a test', 'agent-testing'),
+      decision('test the client', 'agent-api'),
+      decision('hello', 'agent-api'),
+    ], decide);
+
+    expect(report).toMatchObject({ total: 4, evaluated: 4, truncated: false, replayed: 4, skipped: 0, agreement: { count: 2, rate: 0.5 } });
+    expect(report.agents).toEqual(['agent-api', 'agent-polymorphic-agent', 'agent-testing']);
+    expect(report.confusionMatrix).toEqual([
+      [1, 1, 1],
+      [0, 0, 0],
+      [0, 0, 1],
+    ]);
+    expect(report.perAgent.find(stats => stats.agent === 'agent-api')).toEqual({
+      agent: 'agent-api', historical: 3, replayed: 1, agreed: 1, precision: 1, recall: 0.3333,
+    });
+    expect(report.strategies).toEqual({ exact_trigger_match: 3, fallback_routing: 1 });
+    expect(report.changes.map(change => [change.historicalAgent, change.replayedAgent])).toEqual([
+      ['agent-api', 'agent-testing'],
+      ['agent-api', 'agent-polymorphic-agent'],
+    ]);
+  });
+
+  it('should compare observed outcomes where the router disagrees', () => {
+    const history = [
+      // agent-api: 1 of 3 succeeded; agent-testing: 3 of 3
+      decision('test the client', 'agent-api', false),
+      decision('run the test suite', 'agent-api', false),
+      decision('build an api', 'agent-api', true),
+      decision('write a test', 'agent-testing', true),
+      decision('add a test', 'agent-testing', true),
+      decision('fix the test', 'agent-testing', true),
+      // Not enough samples for the fallback agent
+      decision('hello', 'agent-api', null),
+    ];
+
+    const report = replayRoutingDecisions(history, decide);
+
+    expect(report.outcomes).toEqual({ disagreements: 3, better: 2, worse: 0, same: 0, unknown: 1, betterRate: 0.6667 });
+    expect(report.changes.map(change => change.outcome)).toEqual(['better', 'better', 'unknown']);
+    expect(summarizeOutcomes(history).get('agent-api')).toEqual({
+      agent: 'agent-api', observed: 3, successRate: 0.3333, avgQualityScore: null,
+    });
+  });
+
+  it('should fall back to quality scores when success rates tie', () => {
+    const history = [
+      ...['a', 'b', 'c'].map(x => decision(`${x} test for the client`, 'agent-api', true, 0.5)),
+      ...['a', 'b', 'c'].map(x => decision(`${x} test`, 'agent-testing', true, 0.9)),
+    ];
+    expect(replayRoutingDecisions(history, decide).outcomes).toMatchObject({ better: 3, betterRate: 1 });
+  });
+
+  it('should count requests the router cannot route as skipped', () => {
+    const report = replayRoutingDecisions([decision('api', 'agent-api')], () => null);
+    expect(report).toMatchObject({ total: 1, replayed: 0, skipped: 1, agreement: { count: 0, rate: 0 }, agents: [] });
+  });
+
+  it('should report when only part of the window was evaluated', () => {
+    const report = replayRoutingDecisions([decision('build an api', 'agent-api')], decide, { total: 25 });
+    expect(report).toMatchObject({ total: 25, evaluated: 1, truncated: true, replayed: 1 });
+  });
+
+  it('should apply what-if overrides to registry definitions', () => {
+    const applied = applyAgentOverrides(agents, {
+      'agent-testing': { activation_triggers: ['test', 'api'] },
+      'agent-docs': { title: 'Docs', activationTriggers: ['docs'] },
+    });
+    if (!('agents' in applied)) throw new Error('expected agents');
+
+    expect(applied.agents.map(a => a.name)).toEqual(['agent-api', 'agent-testing', 'agent-polymorphic-agent', 'agent-docs']);
+    expect(applied.agents[1].activationTriggers).toEqual(['test', 'api']);
+    // The registry itself is untouched
+    expect(agents[1].activationTriggers).toEqual(['test']);
+
+    expect(applyAgentOverrides(agents, { 'agent-api': { priority: 'urgent' } })).toEqual({
+      errors: [expect.objectContaining({ agent: 'agent-api', file: 'what-if' })],
+    });
+  });
+});
@@ -5,16 +5,16 @@ import { AgentRunTracker } from '../agent-run-tracker';
  * Test the actual transformation logic in AgentRunTracker.calculateSavingsMetrics()
  */
 describe('Savings Metrics Transformation', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     // Clear data before each test
-    AgentRunTracker.clearData();
+    await AgentRunTracker.clearData();
   });
 
-  it('should calculate savings metrics correctly with real data', () => {
+  it('should calculate savings metrics correctly with real data', async () => {
     // Record baseline runs (without intelligence) - higher cost
     // Note: recordRun() auto-generates timestamps as current time
     for (let i = 0; i < 200; i++) {
-      AgentRunTracker.recordRun({
+      await AgentRunTracker.recordRun({
         agentId: 'test-agent',
         agentName: 'Test Agent',
         withIntelligence: false,
@@ -32,7 +32,7 @@ describe('Savings Metrics Transformation', () => {
 
     // Record intelligence runs (with intelligence) - lower cost
     for (let i = 0; i < 150; i++) {
-      AgentRunTracker.recordRun({
+      await AgentRunTracker.recordRun({
         agentId: 'test-agent',
         agentName: 'Test Agent',
         withIntelligence: true,
@@ -54,7 +54,7 @@ describe('Savings Metrics Transformation', () => {
     const startDate = new Date(now.getTime() - 1 * 60 * 60 * 1000); // 1 hour ago
 
     // Call the actual transformation function
-    const metrics = AgentRunTracker.calculateSavingsMetrics(startDate, now);
+    const metrics = await AgentRunTracker.calculateSavingsMetrics(startDate, now);
 
     // Verify all required fields are present
     expect(metrics).toHaveProperty('totalSavings');
@@ -91,13 +91,13 @@ describe('Savings Metrics Transformation', () => {
     expect(metrics.costPerCompute).toBeGreaterThanOrEqual(0);
   });
 
-  it('should handle edge case with no runs', () => {
+  it('should handle edge case with no runs', async () => {
     // Edge case: no intelligence or baseline runs
     const now = new Date();
     const startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
 
     // Don't record any runs - test with empty data
-    const metrics = AgentRunTracker.calculateSavingsMetrics(startDate, now);
+    const metrics = await AgentRunTracker.calculateSavingsMetrics(startDate, now);
 
     // When there's no data, AgentRunTracker returns fallback demo values
     // Verify all fields are present
@@ -136,13 +136,13 @@ describe('Savings Metrics Transformation', () => {
     expect(metrics.costPerCompute).toBeGreaterThanOrEqual(0);
   });
 
-  it('should detect performance regressions with negative savings', () => {
+  it('should detect performance regressions with negative savings', async () => {
     // Test case: Intelligence runs are MORE expensive than baseline
     // This should result in NEGATIVE savings to indicate regression
 
     // Record baseline runs (cheaper in this scenario)
     for (let i = 0; i < 50; i++) {
-      AgentRunTracker.recordRun({
+      await AgentRunTracker.recordRun({
         agentId: 'test-agent',
         agentName: 'Test Agent',
         withIntelligence: false,
@@ -160,7 +160,7 @@ describe('Savings Metrics Transformation', () => {
 
     // Record intelligence runs (MORE expensive - unusual scenario)
     for (let i = 0; i < 100; i++) {
-      AgentRunTracker.recordRun({
+      await AgentRunTracker.recordRun({
         agentId: 'test-agent',
         agentName: 'Test Agent',
         withIntelligence: true,
@@ -180,7 +180,7 @@ describe('Savings Metrics Transformation', () => {
     const now = new Date();
     const startDate = new Date(now.getTime() - 1 * 60 * 60 * 1000); // 1 hour ago
 
-    const metrics = AgentRunTracker.calculateSavingsMetrics(startDate, now);
+    const metrics = await AgentRunTracker.calculateSavingsMetrics(startDate, now);
 
     // Verify negative savings values indicate performance regression
     // Baseline is CHEAPER so savings should be NEGATIVE
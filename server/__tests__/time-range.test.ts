@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bucketAxisLabel,
+  bucketKey,
+  bucketKeys,
+  containsTime,
+  granularityFor,
+  previousTimeRange,
+  timeRangeQuery,
+  timeRangeQuerySchema,
+  type TimeRange,
+} from '@shared/time-range';
+
+const NOW = new Date('2025-11-10T12:00:00.000Z');
+const schema = timeRangeQuerySchema('24h', () => NOW);
+
+function parse(query: Record<string, unknown>): TimeRange {
+  const parsed = schema.safeParse(query);
+  if (!parsed.success) throw new Error(parsed.error.message);
+  return parsed.data;
+}
+
+describe('timeRangeQuerySchema', () => {
+  it('should resolve presets ending now', () => {
+    expect(parse({})).toEqual({
+      preset: '24h',
+      start: new Date('2025-11-09T12:00:00.000Z'),
+      end: NOW,
+      timezone: 'UTC',
+      granularity: 'hour',
+    });
+    expect(parse({ timeWindow: '1h' })).toMatchObject({ preset: '1h', granularity: 'minute' });
+    // timeRange is an alias, and empty inputs are ignored
+    expect(parse({ timeRange: '90d', timeWindow: '', tz: 'Europe/Berlin' })).toMatchObject({
+      preset: '90d',
+      start: new Date('2025-08-12T12:00:00.000Z'),
+      timezone: 'Europe/Berlin',
+      granularity: 'day',
+    });
+  });
+
+  it('should resolve explicit start and end over the preset', () => {
+    expect(parse({ timeWindow: '7d', start: '2025-10-01T00:00:00Z', end: '2025-10-03T00:00:00Z' })).toEqual({
+      preset: null,
+      start: new Date('2025-10-01T00:00:00.000Z'),
+      end: new Date('2025-10-03T00:00:00.000Z'),
+      timezone: 'UTC',
+      granularity: 'hour',
+    });
+    // start alone runs until now
+    expect(parse({ start: '2025-05-01T00:00:00Z' })).toMatchObject({ end: NOW, granularity: 'week' });
+  });
+
+  it('should reject invalid ranges', () => {
+    const invalid = [
+      { timeWindow: '2h' },
+      { timeWindow: 'custom' },
+      { end: '2025-10-03T00:00:00Z' },
+      { start: '2025-10-03T00:00:00Z', end: '2025-10-01T00:00:00Z' },
+      { start: 'yesterday' },
+      { start: '2024-01-01T00:00:00Z', end: '2025-06-01T00:00:00Z' },
+      { tz: 'Mars/Olympus_Mons' },
+      { tz: "UTC'; DROP TABLE agent_actions; --" },
+    ];
+
+    for (const query of invalid) {
+      expect(schema.safeParse(query).success, JSON.stringify(query)).toBe(false);
+    }
+  });
+});
+
+describe('time range helpers', () => {
+  it('should pick the granularity from the span', () => {
+    const start = new Date('2025-11-01T00:00:00Z');
+    const after = (hours: number) => new Date(start.getTime() + hours * 60 * 60 * 1000);
+
+    expect(granularityFor(start, after(6))).toBe('minute');
+    expect(granularityFor(start, after(72))).toBe('hour');
+    expect(granularityFor(start, after(120 * 24))).toBe('day');
+    expect(granularityFor(start, after(121 * 24))).toBe('week');
+  });
+
+  it('should bound custom ranges but not presets', () => {
+    const preset = parse({ timeWindow: '1h' });
+    const custom = parse({ start: '2025-11-10T11:00:00Z', end: '2025-11-10T12:00:00Z' });
+    const later = '2025-11-10T12:00:05Z';
+
+    expect(containsTime(preset, later)).toBe(true);
+    expect(containsTime(custom, later)).toBe(false);
+    expect(containsTime(custom, '2025-11-10T11:00:00Z')).toBe(true);
+    expect(containsTime(custom, '2025-11-10T10:59:59Z')).toBe(false);
+  });
+
+  it('should compare against the preceding period of the same length', () => {
+    const previous = previousTimeRange(parse({ timeWindow: '7d' }));
+
+    expect(previous.preset).toBeNull();
+    expect(previous.start).toEqual(new Date('2025-10-27T12:00:00.000Z'));
+    expect(previous.end).toEqual(new Date('2025-11-03T12:00:00.000Z'));
+    expect(containsTime(previous, '2025-11-03T12:00:00Z')).toBe(false);
+  });
+
+  it('should bucket by local time in the range timezone', () => {
+    const date = new Date('2025-11-09T23:30:00Z');
+
+    expect(bucketKey(date, 'hour', 'UTC')).toBe('2025-11-09T23:00');
+    expect(bucketKey(date, 'day', 'UTC')).toBe('2025-11-09');
+    expect(bucketKey(date, 'day', 'Europe/Berlin')).toBe('2025-11-10');
+    expect(bucketKey(date, 'minute', 'Asia/Kolkata')).toBe('2025-11-10T05:00');
+    // Weeks start on Monday
+    expect(bucketKey(date, 'week', 'UTC')).toBe('2025-11-03');
+    expect(bucketKey(date, 'week', 'Europe/Berlin')).toBe('2025-11-10');
+
+    expect(bucketKeys(parse({ start: '2025-11-01T00:00:00Z', end: '2025-11-05T00:00:00Z' })))
+      .toEqual(['2025-11-01', '2025-11-02', '2025-11-03', '2025-11-04']);
+    expect(bucketKeys(parse({ timeWindow: '24h' }))).toHaveLength(24);
+
+    expect(bucketAxisLabel('2025-10-27 09:00:00', 'hour')).toBe('9:00');
+    expect(bucketAxisLabel('2025-10-27T09:05', 'minute')).toBe('09:05');
+    expect(bucketAxisLabel('2025-10-27', 'week')).toBe('Oct 27');
+  });
+});
+
+describe('timeRangeQuery', () => {
+  it('should send presets under the requested parameter', () => {
+    expect(timeRangeQuery('7d', { timezone: 'Europe/Berlin' })).toBe('timeWindow=7d&tz=Europe%2FBerlin');
+    expect(timeRangeQuery('30d', { param: 'timeRange', timezone: 'UTC' })).toBe('timeRange=30d&tz=UTC');
+  });
+
+  it('should send custom selections as start and end', () => {
+    const query = new URLSearchParams(timeRangeQuery(
+      { preset: 'custom', start: '2025-11-01T00:00:00.000Z', end: '2025-11-02T06:00:00.000Z' },
+      { timezone: 'UTC' }
+    ));
+    expect(Object.fromEntries(query)).toEqual({ start: '2025-11-01T00:00:00.000Z', end: '2025-11-02T06:00:00.000Z', tz: 'UTC' });
+
+    // Whole local days, end day included
+    const days = new URLSearchParams(timeRangeQuery({ preset: 'custom', start: '2025-11-01', end: '2025-11-03' }));
+    expect(new Date(days.get('start')!)).toEqual(new Date(2025, 10, 1));
+    expect(new Date(days.get('end')!)).toEqual(new Date(2025, 10, 4));
+
+    // Until both dates are picked the server default applies
+    expect(timeRangeQuery({ preset: 'custom', start: '2025-11-01' }, { timezone: 'UTC' })).toBe('tz=UTC');
+  });
+
+  it('should round-trip through the server schema', () => {
+    const query = Object.fromEntries(new URLSearchParams(timeRangeQuery(
+      { preset: 'custom', start: '2025-11-01T00:00:00.000Z', end: '2025-11-08T00:00:00.000Z' },
+      { timezone: 'America/New_York' }
+    )));
+
+    expect(parse(query)).toMatchObject({ preset: null, timezone: 'America/New_York', granularity: 'day' });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CONSUMER_GROUP,
+  TopicRegistry,
+  loadTopicConfig,
+  resolveTopicEntry,
+} from '../topic-registry';
+
+describe('loadTopicConfig', () => {
+  it('should register the built-in topics by default', () => {
+    const config = loadTopicConfig({});
+
+    expect(config.groupId).toBe(DEFAULT_CONSUMER_GROUP);
+    expect(config.fromBeginning).toBe(true);
+    expect(config.topics.map(t => t.topic)).toEqual([
+      'agent-routing-decisions',
+      'agent-actions',
+      'agent-transformation-events',
+      'router-performance-metrics',
+      'agent-run-metrics',
+    ]);
+    expect(config.topics.find(t => t.topic === 'agent-actions')).toMatchObject({
+      handler: 'agent-actions',
+      wsMessageType: 'AGENT_ACTION',
+      wsTopic: 'actions',
+      retention: 100,
+    });
+  });
+
+  it('should let the environment override consumer group and fromBeginning', () => {
+    const config = loadTopicConfig({
+      KAFKA_CONSUMER_GROUP: 'omnidash-replay',
+      KAFKA_FROM_BEGINNING: 'false',
+      KAFKA_TOPIC_CONFIG_JSON: JSON.stringify({ groupId: 'from-file', fromBeginning: true }),
+    });
+
+    expect(config.groupId).toBe('omnidash-replay');
+    expect(config.fromBeginning).toBe(false);
+  });
+
+  it('should merge overrides into built-in topics and add new streams', () => {
+    const config = loadTopicConfig({
+      KAFKA_TOPIC_CONFIG_JSON: JSON.stringify({
+        topics: [
+          { topic: 'agent-actions', retention: 500 },
+          { topic: 'agent-transformation-events', enabled: false },
+          {
+            topic: 'agent-manifest-injections',
+            schema: 'agent-manifest-injections',
+            wsMessageType: 'MANIFEST_INJECTION',
+            wsTopic: 'manifests',
+          },
+        ],
+      }),
+    });
+    const registry = new TopicRegistry(config.topics);
+
+    expect(registry.get('agent-actions')).toMatchObject({ handler: 'agent-actions', retention: 500 });
+    expect(registry.topics()).not.toContain('agent-transformation-events');
+    expect(registry.get('agent-manifest-injections')).toMatchObject({
+      handler: 'recent-events',
+      schemaName: 'agent-manifest-injections',
+      wsMessageType: 'MANIFEST_INJECTION',
+      wsTopic: 'manifests',
+      enabled: true,
+    });
+  });
+
+  it('should reject invalid configuration instead of dropping topics', () => {
+    expect(() => loadTopicConfig({
+      KAFKA_TOPIC_CONFIG_JSON: JSON.stringify({ topics: [{ topic: 'x', retension: 5 }] }),
+    })).toThrow(/Invalid Kafka topic configuration/);
+
+    expect(() => loadTopicConfig({
+      KAFKA_TOPIC_CONFIG_JSON: JSON.stringify({ topics: [{ topic: 'x', schema: 'does-not-exist' }] }),
+    })).toThrow(/Unknown schema "does-not-exist"/);
+
+    expect(() => loadTopicConfig({
+      KAFKA_TOPIC_CONFIG_JSON: JSON.stringify({ topics: [{ topic: 'agent-actions', handler: 'agent-action' }] }),
+    })).toThrow(/unknown handler "agent-action" for topic "agent-actions"/);
+  });
+});
+
+describe('TopicRegistry', () => {
+  it('should use generic defaults for unknown topics', () => {
+    const definition = resolveTopicEntry({ topic: 'document-access-log' });
+
+    expect(definition).toMatchObject({
+      handler: 'recent-events',
+      schemaName: 'generic',
+      wsMessageType: 'TOPIC_EVENT',
+      wsTopic: 'document-access-log',
+    });
+    expect(definition.schema.safeParse({ document_id: 'd1' }).success).toBe(true);
+  });
+
+  it('should resolve retention caps by handler', () => {
+    const registry = new TopicRegistry(loadTopicConfig({}).topics);
+
+    expect(registry.retentionFor('performance-metrics', 1)).toBe(200);
+    expect(registry.retentionFor('missing-handler', 42)).toBe(42);
+
+    registry.unregister('router-performance-metrics');
+    expect(registry.retentionFor('performance-metrics', 1)).toBe(1);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import { UpstreamGateway, isAllowedUpstreamPath } from '../upstream-gateway';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+function setup(options: { failureThreshold?: number } = {}) {
+  let now = 0;
+  const fetch = vi.fn<typeof globalThis.fetch>();
+  const gateway = new UpstreamGateway({
+    baseUrl: 'http://omniarchon:8053/',
+    cacheTtlMs: 1000,
+    failureThreshold: options.failureThreshold ?? 2,
+    resetTimeoutMs: 10000,
+    fetch,
+    now: () => now,
+  });
+  return { gateway, fetch, advance: (ms: number) => { now += ms; } };
+}
+
+describe('UpstreamGateway', () => {
+  it('should proxy paths to the intelligence service and cache successes', async () => {
+    const { gateway, fetch, advance } = setup();
+    fetch.mockImplementation(async () => jsonResponse({ files_analyzed: 3 }));
+
+    const first = await gateway.get('/api/intelligence/code/analysis?timeWindow=24h');
+    const second = await gateway.get('/api/intelligence/code/analysis?timeWindow=24h');
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0][0]).toBe('http://omniarchon:8053/api/intelligence/code/analysis?timeWindow=24h');
+    expect(first).toMatchObject({ ok: true, status: 200, cache: 'miss', body: '{"files_analyzed":3}' });
+    expect(second).toMatchObject({ ok: true, cache: 'hit' });
+
+    // Other queries and expired entries go upstream again
+    await gateway.get('/api/intelligence/code/analysis?timeWindow=7d');
+    advance(1000);
+    await gateway.get('/api/intelligence/code/analysis?timeWindow=24h');
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should wrap failures in the error envelope', async () => {
+    const { gateway, fetch } = setup({ failureThreshold: 10 });
+    const timeout = Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' });
+    fetch
+      .mockResolvedValueOnce(jsonResponse({ detail: 'Not Found' }, 404))
+      .mockResolvedValueOnce(jsonResponse({ detail: 'boom' }, 500))
+      .mockRejectedValueOnce(timeout)
+      .mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    expect(await gateway.get('/api/missing')).toEqual({
+      ok: false,
+      status: 404,
+      body: { error: 'Intelligence service request failed', code: 'upstream_error', message: 'Intelligence service responded with 404', upstreamStatus: 404 },
+    });
+    expect(await gateway.get('/api/broken')).toMatchObject({ status: 502, body: { code: 'upstream_error', upstreamStatus: 500 } });
+    expect(await gateway.get('/api/slow')).toMatchObject({ status: 504, body: { code: 'upstream_timeout' } });
+    expect(await gateway.get('/api/down')).toMatchObject({ status: 502, body: { code: 'upstream_unreachable', message: 'fetch failed' } });
+  });
+
+  it('should open the circuit after repeated failures and close it after a successful trial', async () => {
+    const { gateway, fetch, advance } = setup();
+    fetch.mockRejectedValue(new TypeError('fetch failed'));
+
+    await gateway.get('/api/a');
+    expect(gateway.circuitState).toBe('closed');
+    await gateway.get('/api/a');
+    expect(gateway.circuitState).toBe('open');
+
+    expect(await gateway.get('/api/a')).toMatchObject({ status: 503, body: { code: 'circuit_open' }, retryAfterSeconds: 10 });
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    // A failed trial re-opens the circuit for another cool-down
+    advance(10000);
+    expect(gateway.circuitState).toBe('half-open');
+    await gateway.get('/api/a');
+    expect(gateway.circuitState).toBe('open');
+
+    advance(10000);
+    fetch.mockImplementation(async () => jsonResponse({ ok: true }));
+    expect(await gateway.get('/api/a')).toMatchObject({ ok: true });
+    expect(gateway.circuitState).toBe('closed');
+  });
+
+  it('should let a single trial through while half-open', async () => {
+    const { gateway, fetch, advance } = setup();
+    fetch.mockRejectedValue(new TypeError('fetch failed'));
+    await gateway.get('/api/a');
+    await gateway.get('/api/a');
+    advance(10000);
+
+    let release!: (response: Response) => void;
+    fetch.mockImplementationOnce(() => new Promise(resolve => { release = resolve; }));
+    const trial = gateway.get('/api/a');
+    expect(await gateway.get('/api/b')).toMatchObject({ status: 503, body: { code: 'circuit_open' } });
+
+    release(jsonResponse({ ok: true }));
+    expect(await trial).toMatchObject({ ok: true });
+    expect(gateway.circuitState).toBe('closed');
+  });
+
+  it('should keep the circuit closed when the service rejects requests', async () => {
+    const { gateway, fetch } = setup();
+    fetch.mockImplementation(async () => jsonResponse({ detail: 'Bad Request' }, 400));
+
+    await gateway.get('/api/a');
+    await gateway.get('/api/a');
+    await gateway.get('/api/a');
+
+    expect(gateway.circuitState).toBe('closed');
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('isAllowedUpstreamPath', () => {
+  it('should only allow the listed reads', () => {
+    expect(isAllowedUpstreamPath('/api/intelligence/code/analysis?timeWindow=24h')).toBe(true);
+    expect(isAllowedUpstreamPath('/api/intelligence/platform/health')).toBe(true);
+
+    expect(isAllowedUpstreamPath('/admin/config')).toBe(false);
+    expect(isAllowedUpstreamPath('/api/intelligence/code/analysis/../../../admin')).toBe(false);
+    expect(isAllowedUpstreamPath('/api/intelligence/%63ode/analysis')).toBe(false);
+  });
+});
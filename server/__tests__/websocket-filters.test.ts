@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SubscriptionFiltersSchema,
+  applySubscriptionFilters,
+  hasActiveFilters,
+  matchesFilters,
+} from '../websocket-filters';
+
+const action = {
+  id: 'a1',
+  correlationId: 'corr-1',
+  agentName: 'agent-api',
+  actionType: 'tool_call',
+  actionDetails: { projectPath: '/Volumes/code/omniclaude' },
+};
+
+const routingDecision = {
+  id: 'r1',
+  correlationId: 'corr-2',
+  selectedAgent: 'agent-frontend',
+  confidenceScore: '0.72',
+  projectName: 'omnidash',
+};
+
+describe('SubscriptionFiltersSchema', () => {
+  it('should reject unknown filter keys and out-of-range confidence', () => {
+    expect(SubscriptionFiltersSchema.safeParse({ agent: 'x' }).success).toBe(false);
+    expect(SubscriptionFiltersSchema.safeParse({ minConfidence: 1.5 }).success).toBe(false);
+    expect(SubscriptionFiltersSchema.safeParse({ agentName: 'agent-api', minConfidence: 0.8 }).success).toBe(true);
+  });
+
+  it('should treat an empty filter object as inactive', () => {
+    expect(hasActiveFilters({})).toBe(false);
+    expect(hasActiveFilters(null)).toBe(false);
+    expect(hasActiveFilters({ project: 'omnidash' })).toBe(true);
+  });
+});
+
+describe('matchesFilters', () => {
+  it('should match on agent name across event shapes', () => {
+    expect(matchesFilters(action, { agentName: 'agent-api' })).toBe(true);
+    expect(matchesFilters(routingDecision, { agentName: 'agent-api' })).toBe(false);
+    expect(matchesFilters(routingDecision, { agentName: 'agent-frontend' })).toBe(true);
+  });
+
+  it('should compare string confidence scores numerically', () => {
+    expect(matchesFilters(routingDecision, { minConfidence: 0.7 })).toBe(true);
+    expect(matchesFilters(routingDecision, { minConfidence: 0.8 })).toBe(false);
+  });
+
+  it('should not drop events that lack the filtered field', () => {
+    expect(matchesFilters(action, { minConfidence: 0.9 })).toBe(true);
+    expect(matchesFilters({ metric: 'x' }, { correlationId: 'corr-1' })).toBe(true);
+  });
+
+  it('should match projects by name or trailing path segment', () => {
+    expect(matchesFilters(action, { project: 'OmniClaude' })).toBe(true);
+    expect(matchesFilters(action, { project: 'claude' })).toBe(false);
+    expect(matchesFilters(routingDecision, { project: 'omnidash' })).toBe(true);
+  });
+
+  it('should require every provided filter to match', () => {
+    expect(matchesFilters(action, { agentName: 'agent-api', correlationId: 'corr-1' })).toBe(true);
+    expect(matchesFilters(action, { agentName: 'agent-api', correlationId: 'corr-2' })).toBe(false);
+  });
+});
+
+describe('applySubscriptionFilters', () => {
+  it('should narrow agent metric arrays to matching agents', () => {
+    const metrics = [
+      { agent: 'agent-api', totalRequests: 3 },
+      { agent: 'agent-frontend', totalRequests: 5 },
+    ];
+
+    expect(applySubscriptionFilters('AGENT_METRIC_UPDATE', metrics, { agentName: 'agent-api' }))
+      .toEqual([metrics[0]]);
+    expect(applySubscriptionFilters('AGENT_METRIC_UPDATE', metrics, { agentName: 'agent-db' })).toBeNull();
+  });
+
+  it('should check performance broadcasts against the wrapped metric', () => {
+    const payload = { metric: { correlationId: 'corr-1', totalDurationMs: 40 }, stats: {} };
+
+    expect(applySubscriptionFilters('PERFORMANCE_METRIC', payload, { correlationId: 'corr-1' })).toBe(payload);
+    expect(applySubscriptionFilters('PERFORMANCE_METRIC', payload, { correlationId: 'corr-9' })).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { ReplayBuffer } from '../websocket-replay';
+
+function fill(buffer: ReplayBuffer, count: number) {
+  for (let i = 0; i < count; i++) {
+    buffer.append('AGENT_ACTION', { id: `a${i + 1}` }, 'actions');
+  }
+}
+
+describe('ReplayBuffer', () => {
+  it('should stamp events with increasing sequence numbers', () => {
+    const buffer = new ReplayBuffer(10);
+    expect(buffer.currentSeq).toBe(0);
+    expect(buffer.oldestSeq).toBeNull();
+
+    const first = buffer.append('AGENT_ACTION', { id: 'a1' }, 'actions');
+    const second = buffer.append('ROUTING_DECISION', { id: 'r1' }, 'routing');
+
+    expect([first.seq, second.seq]).toEqual([1, 2]);
+    expect(buffer.currentSeq).toBe(2);
+  });
+
+  it('should return the events missed after lastSeq, oldest first', () => {
+    const buffer = new ReplayBuffer(10);
+    fill(buffer, 5);
+
+    const result = buffer.since(2);
+
+    expect(result.status).toBe('ok');
+    if (result.status === 'ok') {
+      expect(result.events.map(e => e.seq)).toEqual([3, 4, 5]);
+      expect(result.events[0].data).toEqual({ id: 'a3' });
+      expect(result.events[0].topic).toBe('actions');
+    }
+  });
+
+  it('should return nothing when the client is up to date', () => {
+    const buffer = new ReplayBuffer(10);
+    fill(buffer, 3);
+    expect(buffer.since(3)).toEqual({ status: 'ok', events: [] });
+  });
+
+  it('should replay across the ring boundary while the gap is covered', () => {
+    const buffer = new ReplayBuffer(4);
+    fill(buffer, 7);
+
+    expect(buffer.oldestSeq).toBe(4);
+    const result = buffer.since(3);
+    expect(result.status === 'ok' && result.events.map(e => e.seq)).toEqual([4, 5, 6, 7]);
+  });
+
+  it('should require a resync when missed events were evicted', () => {
+    const buffer = new ReplayBuffer(4);
+    fill(buffer, 7);
+
+    expect(buffer.since(2)).toEqual({ status: 'resync', reason: 'gap', oldestSeq: 4, currentSeq: 7 });
+  });
+
+  it('should require a resync for sequence numbers the server never issued', () => {
+    const buffer = new ReplayBuffer(4);
+    fill(buffer, 2);
+
+    expect(buffer.since(50)).toMatchObject({ status: 'resync', reason: 'unknown_sequence', currentSeq: 2 });
+    expect(buffer.since(Number.NaN)).toMatchObject({ status: 'resync', reason: 'unknown_sequence' });
+  });
+
+  it('should require a resync when the client resumes another stream', () => {
+    const restarted = new ReplayBuffer(10, 'stream-2');
+    fill(restarted, 5);
+
+    expect(restarted.since(2, 'stream-1')).toEqual({ status: 'resync', reason: 'stream_changed', oldestSeq: 1, currentSeq: 5 });
+    expect(restarted.since(2, 'stream-2').status).toBe('ok');
+    expect(new ReplayBuffer(10).streamId).not.toBe(new ReplayBuffer(10).streamId);
+  });
+
+  it('should reject invalid capacities', () => {
+    expect(() => new ReplayBuffer(0)).toThrow(/capacity/);
+  });
+});
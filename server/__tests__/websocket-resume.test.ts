@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import WebSocket, { type WebSocketServer } from 'ws';
+import type { eventConsumer as EventConsumer } from '../event-consumer';
+
+interface Message {
+  type: string;
+  data?: any;
+  seq?: number;
+  streamId?: string;
+}
+
+describe('/ws resume', () => {
+  let server: Server;
+  let wss: WebSocketServer;
+  let url: string;
+  let eventConsumer: typeof EventConsumer;
+
+  beforeAll(async () => {
+    // The consumer module opens a lazy pool at import; these tests never query it
+    vi.stubEnv('DATABASE_URL', process.env.DATABASE_URL || 'postgresql://localhost:5432/unused');
+    const { setupWebSocket } = await import('../websocket');
+    ({ eventConsumer } = await import('../event-consumer'));
+
+    server = createServer();
+    wss = setupWebSocket(server);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`;
+  });
+
+  afterAll(async () => {
+    wss.close();
+    await new Promise(resolve => server.close(resolve));
+    vi.unstubAllEnvs();
+  });
+
+  // Collects messages until `until` matches one, then closes the socket
+  function session(path: string, until: (message: Message) => boolean, onOpen?: (ws: WebSocket) => void): Promise<Message[]> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(`${url}${path}`);
+      const received: Message[] = [];
+      ws.on('open', () => onOpen?.(ws));
+      ws.on('message', (raw) => {
+        const message: Message = JSON.parse(raw.toString());
+        received.push(message);
+        if (until(message)) {
+          ws.close();
+          resolve(received);
+        }
+      });
+      ws.on('error', reject);
+    });
+  }
+
+  it('should replay missed events without a second INITIAL_STATE', async () => {
+    const [, initial] = await session('', message => message.type === 'INITIAL_STATE');
+    expect(initial.streamId).toEqual(expect.any(String));
+
+    eventConsumer.emit('metricUpdate', [{ agent: 'agent-api', totalRequests: 1 }]);
+
+    const resumed = await session('?resume=1', message => message.type === 'REPLAY_COMPLETE', ws => {
+      ws.send(JSON.stringify({ action: 'resume', lastSeq: initial.seq, streamId: initial.streamId }));
+    });
+
+    expect(resumed.map(message => message.type)).toEqual(['CONNECTED', 'AGENT_METRIC_UPDATE', 'REPLAY_COMPLETE']);
+    expect(resumed[1]).toMatchObject({ seq: initial.seq! + 1, streamId: initial.streamId, replayed: true });
+  });
+
+  it('should resync with a fresh INITIAL_STATE when the stream changed', async () => {
+    const resumed = await session('?resume=1', message => message.type === 'INITIAL_STATE', ws => {
+      ws.send(JSON.stringify({ action: 'resume', lastSeq: 0, streamId: 'previous-process' }));
+    });
+
+    expect(resumed.map(message => message.type)).toEqual(['CONNECTED', 'RESYNC_REQUIRED', 'INITIAL_STATE']);
+    expect(resumed[1].data).toMatchObject({ reason: 'stream_changed', streamId: resumed[2].streamId });
+    expect(resumed[2].seq).toBe(resumed[1].data.currentSeq);
+  });
+});
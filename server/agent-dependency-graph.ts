@@ -0,0 +1,223 @@
+import type { RegistryAgent } from './agent-registry';
+
+/**
+ * Agent Dependency Graph
+ *
+ * Builds the graph of `dependencies` declared in agent registry definitions:
+ * edges point from an agent to the agents it depends on. Reports dependency
+ * cycles, references to agents missing from the registry, and the reverse
+ * dependencies of every agent (what breaks if it is deprecated or removed).
+ */
+
+export interface DependencyNode {
+  id: string;
+  title: string;
+  category: string;
+  status: RegistryAgent['status'];
+  version: string;
+  dependencies: string[];
+  // Agents that declare this one as a dependency
+  dependents: string[];
+  // Everything that depends on this agent directly or indirectly
+  transitiveDependents: string[];
+  // Longest dependency chain below this agent (0 for leaves)
+  depth: number;
+  inCycle: boolean;
+}
+
+export interface DependencyEdge {
+  source: string;
+  target: string;
+  missing: boolean;
+  inCycle: boolean;
+}
+
+export interface MissingDependency {
+  agent: string;
+  dependency: string;
+}
+
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+  cycles: string[][];
+  missing: MissingDependency[];
+  stats: {
+    agents: number;
+    dependencies: number;
+    cycles: number;
+    missing: number;
+    maxDepth: number;
+  };
+}
+
+// Statuses whose dependents still rely on an agent being available
+const LIVE_STATUSES = new Set<RegistryAgent['status']>(['active', 'beta']);
+
+/**
+ * Strongly connected components that form cycles (Tarjan), each listed in
+ * dependency order starting from its alphabetically first agent
+ */
+export function findDependencyCycles(adjacency: Map<string, string[]>): string[][] {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (node: string) => {
+    indices.set(node, index);
+    lowLinks.set(node, index);
+    index++;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const next of adjacency.get(node) ?? []) {
+      if (!adjacency.has(next)) continue;
+      if (!indices.has(next)) {
+        visit(next);
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, lowLinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, indices.get(next)!));
+      }
+    }
+
+    if (lowLinks.get(node) === indices.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+
+      const selfLoop = component.length === 1 && (adjacency.get(node) ?? []).includes(node);
+      if (component.length > 1 || selfLoop) {
+        cycles.push(orderCycle(component, adjacency));
+      }
+    }
+  };
+
+  Array.from(adjacency.keys()).sort().forEach(node => {
+    if (!indices.has(node)) visit(node);
+  });
+  return cycles.sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+// Walk the component along its edges so the cycle reads in dependency order
+function orderCycle(component: string[], adjacency: Map<string, string[]>): string[] {
+  const members = new Set(component);
+  const start = [...component].sort()[0];
+  const ordered = [start];
+  let current = start;
+  while (ordered.length < component.length) {
+    const next = (adjacency.get(current) ?? []).find(candidate => members.has(candidate) && !ordered.includes(candidate));
+    if (!next) break;
+    ordered.push(next);
+    current = next;
+  }
+  // Members not on a single simple path still belong to the cycle
+  return ordered.concat(component.filter(member => !ordered.includes(member)).sort());
+}
+
+export function buildDependencyGraph(agents: RegistryAgent[]): DependencyGraph {
+  const adjacency = new Map<string, string[]>();
+  agents.forEach(agent => adjacency.set(agent.name, Array.from(new Set(agent.dependencies))));
+
+  const dependents = new Map<string, string[]>();
+  const missing: MissingDependency[] = [];
+  const edges: DependencyEdge[] = [];
+
+  adjacency.forEach((dependencies, agent) => {
+    dependencies.forEach(dependency => {
+      const isMissing = !adjacency.has(dependency);
+      if (isMissing) {
+        missing.push({ agent, dependency });
+      } else {
+        dependents.set(dependency, [...(dependents.get(dependency) ?? []), agent]);
+      }
+      edges.push({ source: agent, target: dependency, missing: isMissing, inCycle: false });
+    });
+  });
+
+  const cycles = findDependencyCycles(adjacency);
+  const cycleOf = new Map<string, number>();
+  cycles.forEach((cycle, i) => cycle.forEach(member => cycleOf.set(member, i)));
+  edges.forEach(edge => {
+    edge.inCycle = cycleOf.has(edge.source) && cycleOf.get(edge.source) === cycleOf.get(edge.target);
+  });
+
+  // Depth of the longest chain below an agent; cycle members do not count each other
+  const depthCache = new Map<string, number>();
+  const depthOf = (agent: string, visiting: Set<string>): number => {
+    if (depthCache.has(agent)) return depthCache.get(agent)!;
+    visiting.add(agent);
+    let depth = 0;
+    for (const dependency of adjacency.get(agent) ?? []) {
+      if (!adjacency.has(dependency) || visiting.has(dependency)) continue;
+      depth = Math.max(depth, depthOf(dependency, visiting) + 1);
+    }
+    visiting.delete(agent);
+    if (!cycleOf.has(agent)) depthCache.set(agent, depth);
+    return depth;
+  };
+
+  const nodes = agents.map(agent => {
+    const transitive = transitiveDependents(dependents, agent.name);
+    return {
+      id: agent.name,
+      title: agent.title,
+      category: agent.category,
+      status: agent.status,
+      version: agent.version,
+      dependencies: adjacency.get(agent.name) ?? [],
+      dependents: (dependents.get(agent.name) ?? []).sort(),
+      transitiveDependents: transitive,
+      depth: depthOf(agent.name, new Set()),
+      inCycle: cycleOf.has(agent.name),
+    };
+  });
+
+  return {
+    nodes,
+    edges,
+    cycles,
+    missing,
+    stats: {
+      agents: nodes.length,
+      dependencies: edges.length,
+      cycles: cycles.length,
+      missing: missing.length,
+      maxDepth: Math.max(0, ...nodes.map(node => node.depth)),
+    },
+  };
+}
+
+function transitiveDependents(dependents: Map<string, string[]>, agent: string): string[] {
+  const seen = new Set<string>();
+  const queue = [...(dependents.get(agent) ?? [])];
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    if (next === agent || seen.has(next)) continue;
+    seen.add(next);
+    queue.push(...(dependents.get(next) ?? []));
+  }
+  return Array.from(seen).sort();
+}
+
+/**
+ * Active or beta agents that (directly or indirectly) depend on an agent,
+ * i.e. what breaks if it is deprecated
+ */
+export function liveDependentsOf(agents: RegistryAgent[], agent: string): { direct: string[]; transitive: string[] } {
+  const node = buildDependencyGraph(agents).nodes.find(candidate => candidate.id === agent);
+  if (!node) return { direct: [], transitive: [] };
+
+  const status = new Map(agents.map(candidate => [candidate.name, candidate.status]));
+  const live = (name: string) => LIVE_STATUSES.has(status.get(name)!);
+  return {
+    direct: node.dependents.filter(live),
+    transitive: node.transitiveDependents.filter(live),
+  };
+}
@@ -0,0 +1,333 @@
+import { EventEmitter } from 'events';
+import { AgentExecutionTracker, type AgentExecution } from './agent-execution-tracker';
+
+/**
+ * Agent Execution Queue
+ *
+ * Runs agent executions through a pluggable executor with a concurrency limit
+ * per agent (AGENT_EXECUTION_CONCURRENCY, default 2). Executions wait in a
+ * FIFO queue per agent with status "pending", can be cancelled while queued or
+ * running, and report progress as 'progress' events (queued, started, step,
+ * completed, failed, cancelled) that the WebSocket server broadcasts on the
+ * "executions" topic. Executions are recorded in AgentExecutionTracker.
+ *
+ * The only built-in executor is the local simulated one (AGENT_EXECUTOR=
+ * simulated), which walks through a few timed steps so the dashboard works
+ * offline. Real executors implement AgentExecutor and honour the abort signal.
+ */
+
+export type ExecutionResult = NonNullable<AgentExecution['result']>;
+
+export type ExecutionProgressType = 'queued' | 'started' | 'step' | 'completed' | 'failed' | 'cancelled';
+
+export interface ExecutionProgressEvent {
+  executionId: string;
+  agentId: string;
+  agentName: string;
+  type: ExecutionProgressType;
+  timestamp: string;
+  step?: string;
+  // Fraction of the work done (0-1)
+  progress?: number;
+  message?: string;
+  // Place in the agent's queue (queued events)
+  position?: number;
+  result?: ExecutionResult;
+}
+
+export interface ExecutionJob {
+  id: string;
+  agentId: string;
+  agentName: string;
+  query: string;
+  context?: Record<string, any>;
+}
+
+export interface ExecutionHooks {
+  // Aborted when the execution is cancelled
+  signal: AbortSignal;
+  step(name: string, progress: number, message?: string): void;
+}
+
+export interface AgentExecutor {
+  readonly name: string;
+  execute(job: ExecutionJob, hooks: ExecutionHooks): Promise<ExecutionResult>;
+}
+
+export interface ExecutionRequest {
+  agentId: string;
+  agentName: string;
+  query: string;
+  context?: Record<string, any>;
+  routingDecision?: AgentExecution['routingDecision'];
+}
+
+export type CancelResult =
+  | { ok: true; execution: AgentExecution }
+  | { ok: false; status: 404 | 409; error: string };
+
+export interface ExecutionQueueOptions {
+  executor: AgentExecutor;
+  concurrency?: number;
+  // Per-agent overrides of the concurrency limit
+  concurrencyByAgent?: Record<string, number>;
+}
+
+// Progress logs kept for executions that finished (for clients that attach late)
+const MAX_TRACKED_LOGS = 500;
+const MAX_EVENTS_PER_EXECUTION = 100;
+
+function abortError(): Error {
+  const error = new Error('Execution cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Local stand-in for a real agent runtime: timed steps, no external calls.
+ * Set `simulateFailure: true` in the execution context to exercise failures.
+ */
+export class SimulatedExecutor implements AgentExecutor {
+  readonly name = 'simulated';
+  static readonly STEPS = ['Analyzing request', 'Planning', 'Executing', 'Validating output'];
+
+  constructor(private readonly stepDelayMs: number = 750) {}
+
+  async execute(job: ExecutionJob, { signal, step }: ExecutionHooks): Promise<ExecutionResult> {
+    const steps = SimulatedExecutor.STEPS;
+    for (let i = 0; i < steps.length; i++) {
+      await delay(this.stepDelayMs, signal);
+      step(steps[i], (i + 1) / steps.length);
+    }
+
+    const tokensUsed = 500 + job.query.length * 20;
+    const metrics = { tokensUsed, computeUnits: steps.length, cost: Math.round(tokensUsed * 0.00002 * 10000) / 10000 };
+    if (job.context?.simulateFailure) {
+      return { success: false, error: 'Simulated failure requested', metrics };
+    }
+    return {
+      success: true,
+      output: `Simulated ${job.agentName} run completed: ${job.query}`,
+      qualityScore: 8,
+      metrics,
+    };
+  }
+}
+
+export class AgentExecutionQueue extends EventEmitter {
+  private executor: AgentExecutor;
+  private readonly concurrency: number;
+  private readonly concurrencyByAgent: Record<string, number>;
+  private readonly pending = new Map<string, ExecutionJob[]>();
+  private readonly running = new Map<string, Map<string, AbortController>>();
+  private readonly logs = new Map<string, ExecutionProgressEvent[]>();
+
+  constructor(options: ExecutionQueueOptions) {
+    super();
+    this.executor = options.executor;
+    this.concurrency = Math.max(1, options.concurrency ?? 2);
+    this.concurrencyByAgent = options.concurrencyByAgent ?? {};
+  }
+
+  get executorName(): string {
+    return this.executor.name;
+  }
+
+  useExecutor(executor: AgentExecutor) {
+    this.executor = executor;
+  }
+
+  limitFor(agentId: string): number {
+    return Math.max(1, this.concurrencyByAgent[agentId] ?? this.concurrency);
+  }
+
+  /**
+   * Queue an execution; it starts right away when the agent has a free slot
+   */
+  async enqueue(request: ExecutionRequest): Promise<AgentExecution> {
+    const execution = await AgentExecutionTracker.startExecution(
+      request.agentId,
+      request.agentName,
+      request.query,
+      request.context,
+      request.routingDecision,
+      'pending'
+    );
+    const job: ExecutionJob = {
+      id: execution.id,
+      agentId: request.agentId,
+      agentName: request.agentName,
+      query: request.query,
+      context: request.context,
+    };
+
+    const queue = this.pending.get(job.agentId) ?? [];
+    queue.push(job);
+    this.pending.set(job.agentId, queue);
+    this.publish(job, 'queued', { position: queue.length });
+
+    this.pump(job.agentId);
+    return execution;
+  }
+
+  /**
+   * Cancel a queued or running execution
+   */
+  async cancel(executionId: string): Promise<CancelResult> {
+    const execution = await AgentExecutionTracker.getExecution(executionId);
+    if (!execution) {
+      return { ok: false, status: 404, error: 'Execution not found' };
+    }
+
+    const queue = this.pending.get(execution.agentId) ?? [];
+    const index = queue.findIndex(job => job.id === executionId);
+    if (index >= 0) {
+      const [job] = queue.splice(index, 1);
+      const cancelled = await AgentExecutionTracker.updateExecutionStatus(executionId, 'cancelled', { success: false, error: 'Cancelled before start' });
+      this.publish(job, 'cancelled', { message: 'Cancelled before start' });
+      return { ok: true, execution: cancelled ?? execution };
+    }
+
+    const controller = this.running.get(execution.agentId)?.get(executionId);
+    if (controller) {
+      // run() records the cancellation once the executor stops
+      controller.abort();
+      return { ok: true, execution };
+    }
+
+    return { ok: false, status: 409, error: `Execution already ${execution.status}` };
+  }
+
+  /**
+   * Progress events recorded for an execution, oldest first
+   */
+  progress(executionId: string): ExecutionProgressEvent[] {
+    return this.logs.get(executionId) ?? [];
+  }
+
+  stats() {
+    const agents = new Set([...Array.from(this.pending.keys()), ...Array.from(this.running.keys())]);
+    return {
+      executor: this.executor.name,
+      concurrency: this.concurrency,
+      agents: Array.from(agents).sort().map(agentId => ({
+        agentId,
+        running: this.running.get(agentId)?.size ?? 0,
+        queued: this.pending.get(agentId)?.length ?? 0,
+        limit: this.limitFor(agentId),
+      })).filter(agent => agent.running > 0 || agent.queued > 0),
+    };
+  }
+
+  // Start queued jobs while the agent has free slots
+  private pump(agentId: string) {
+    const queue = this.pending.get(agentId) ?? [];
+    const active = this.running.get(agentId) ?? new Map<string, AbortController>();
+    this.running.set(agentId, active);
+
+    while (queue.length > 0 && active.size < this.limitFor(agentId)) {
+      const job = queue.shift()!;
+      const controller = new AbortController();
+      active.set(job.id, controller);
+      void this.run(job, controller);
+    }
+
+    if (queue.length === 0) this.pending.delete(agentId);
+    if (active.size === 0) this.running.delete(agentId);
+  }
+
+  private async run(job: ExecutionJob, controller: AbortController) {
+    try {
+      await AgentExecutionTracker.updateExecutionStatus(job.id, 'executing');
+      this.publish(job, 'started', { progress: 0 });
+
+      const result = await this.executor.execute(job, {
+        signal: controller.signal,
+        step: (step, progress, message) => {
+          if (controller.signal.aborted) return;
+          this.publish(job, 'step', { step, progress: Math.min(1, Math.max(0, progress)), message });
+        },
+      });
+      if (controller.signal.aborted) throw abortError();
+
+      await AgentExecutionTracker.updateExecutionStatus(job.id, result.success ? 'completed' : 'failed', result);
+      this.publish(job, result.success ? 'completed' : 'failed', { progress: 1, result, message: result.error });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        const result = { success: false, error: 'Cancelled' };
+        await this.record(job, 'cancelled', result);
+        this.publish(job, 'cancelled', { result, message: 'Cancelled while running' });
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        const result = { success: false, error: message };
+        await this.record(job, 'failed', result);
+        this.publish(job, 'failed', { result, message });
+      }
+    } finally {
+      this.running.get(job.agentId)?.delete(job.id);
+      this.pump(job.agentId);
+    }
+  }
+
+  // Final status update that must not throw out of run()
+  private async record(job: ExecutionJob, status: AgentExecution['status'], result: ExecutionResult) {
+    try {
+      await AgentExecutionTracker.updateExecutionStatus(job.id, status, result);
+    } catch (error) {
+      console.error(`[AgentExecutionQueue] Failed to record ${status} for ${job.id}:`, error);
+    }
+  }
+
+  private publish(job: ExecutionJob, type: ExecutionProgressType, details: Partial<ExecutionProgressEvent> = {}) {
+    const event: ExecutionProgressEvent = {
+      executionId: job.id,
+      agentId: job.agentId,
+      agentName: job.agentName,
+      type,
+      timestamp: new Date().toISOString(),
+      ...details,
+    };
+
+    const log = this.logs.get(job.id) ?? [];
+    if (log.length < MAX_EVENTS_PER_EXECUTION) log.push(event);
+    this.logs.set(job.id, log);
+    if (this.logs.size > MAX_TRACKED_LOGS) {
+      this.logs.delete(this.logs.keys().next().value!);
+    }
+
+    this.emit('progress', event);
+  }
+}
+
+const EXECUTORS: Record<string, (env: NodeJS.ProcessEnv) => AgentExecutor> = {
+  simulated: (env) => new SimulatedExecutor(parseInt(env.AGENT_EXECUTION_STEP_MS || '', 10) || 750),
+};
+
+export function createExecutionQueue(env: NodeJS.ProcessEnv = process.env): AgentExecutionQueue {
+  const name = env.AGENT_EXECUTOR || 'simulated';
+  const factory = EXECUTORS[name];
+  if (!factory) {
+    console.warn(`[AgentExecutionQueue] Unknown executor "${name}", using the simulated executor`);
+  }
+  return new AgentExecutionQueue({
+    executor: (factory ?? EXECUTORS.simulated)(env),
+    concurrency: parseInt(env.AGENT_EXECUTION_CONCURRENCY || '', 10) || 2,
+  });
+}
+
+export const executionQueue = createExecutionQueue();
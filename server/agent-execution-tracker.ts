@@ -1,4 +1,12 @@
 import { z } from "zod";
+import {
+  DEMO_EXECUTION_PREFIX,
+  MemAgentExecutionRepository,
+  type AgentExecutionRepository,
+  type ExecutionAggregate,
+  type ExecutionFilter,
+  type ExecutionPage,
+} from "./agent-tracking-repository";
 
 // Schema for tracking agent executions
 export const AgentExecutionSchema = z.object({
@@ -33,27 +41,83 @@ export const AgentExecutionSchema = z.object({
 
 export type AgentExecution = z.infer<typeof AgentExecutionSchema>;
 
-// In-memory storage for demo purposes
-// In production, this would be a database
-const agentExecutions: AgentExecution[] = [];
+const RECENT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Run count, success rate, timing and derived popularity/efficiency scores
+ */
+function summarizePerformance(aggregate: ExecutionAggregate | undefined) {
+  if (!aggregate || aggregate.total === 0) {
+    return {
+      totalRuns: 0,
+      successRate: 0,
+      avgExecutionTime: 0,
+      avgQualityScore: 0,
+      lastUsed: null as string | null,
+      popularity: 0,
+      efficiency: 0
+    };
+  }
+
+  const successRate = (aggregate.completed / aggregate.total) * 100;
+  const avgExecutionTime = aggregate.avgDuration;
+
+  // Calculate popularity based on execution frequency in the last 24 hours
+  const popularity = Math.min(100, (aggregate.recent / 10) * 100); // Scale to 0-100
+  
+  // Calculate efficiency based on success rate and execution time
+  const efficiency = Math.max(0, Math.min(100, 
+    (successRate * 0.7) + ((100 - Math.min(avgExecutionTime / 60, 100)) * 0.3)
+  ));
+
+  return {
+    totalRuns: aggregate.total,
+    successRate,
+    avgExecutionTime,
+    avgQualityScore: aggregate.avgQualityScore,
+    lastUsed: aggregate.lastStartedAt,
+    popularity,
+    efficiency
+  };
+}
+
+export type AgentPerformanceMetrics = ReturnType<typeof summarizePerformance>;
 
 export class AgentExecutionTracker {
+  // In memory (with demo data) until the server configures a persistent repository
+  private static repository: AgentExecutionRepository = new MemAgentExecutionRepository();
+
+  static useRepository(repository: AgentExecutionRepository) {
+    this.repository = repository;
+  }
+
+  static get repositoryName(): string {
+    return this.repository.name;
+  }
+
   /**
-   * Start tracking an agent execution
+   * Start tracking an agent execution (status "pending" for queued executions)
    */
-  static startExecution(agentId: string, agentName: string, query: string, context?: any, routingDecision?: any): AgentExecution {
+  static async startExecution(
+    agentId: string,
+    agentName: string,
+    query: string,
+    context?: any,
+    routingDecision?: any,
+    status: AgentExecution['status'] = "executing"
+  ): Promise<AgentExecution> {
     const execution: AgentExecution = {
       id: `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       agentId,
       agentName,
       query,
       context,
-      status: "executing",
+      status,
       startedAt: new Date().toISOString(),
       routingDecision,
     };
 
-    agentExecutions.push(execution);
+    await this.repository.save(execution);
     console.log(`Started tracking agent execution: ${agentName} (${execution.id})`);
     
     return execution;
@@ -62,13 +126,19 @@ export class AgentExecutionTracker {
   /**
    * Update execution status
    */
-  static updateExecutionStatus(executionId: string, status: AgentExecution['status'], result?: any): AgentExecution | null {
-    const execution = agentExecutions.find(exec => exec.id === executionId);
+  static async updateExecutionStatus(executionId: string, status: AgentExecution['status'], result?: any): Promise<AgentExecution | null> {
+    const execution = await this.repository.get(executionId);
     if (!execution) {
       console.error(`Execution not found: ${executionId}`);
       return null;
     }
 
+    // Queued executions start when they leave the queue; keep when they were queued
+    if (status === "executing" && execution.status === "pending") {
+      execution.metadata = { ...execution.metadata, queuedAt: execution.startedAt };
+      execution.startedAt = new Date().toISOString();
+    }
+
     execution.status = status;
     
     if (status === "completed" || status === "failed" || status === "cancelled") {
@@ -80,6 +150,7 @@ export class AgentExecutionTracker {
       execution.result = result;
     }
 
+    await this.repository.save(execution);
     console.log(`Updated execution status: ${executionId} -> ${status}`);
     return execution;
   }
@@ -87,45 +158,36 @@ export class AgentExecutionTracker {
   /**
    * Get execution by ID
    */
-  static getExecution(executionId: string): AgentExecution | null {
-    return agentExecutions.find(exec => exec.id === executionId) || null;
+  static async getExecution(executionId: string): Promise<AgentExecution | null> {
+    return this.repository.get(executionId);
+  }
+
+  /**
+   * Page through executions, newest first
+   */
+  static async listExecutions(filter: ExecutionFilter = {}, page: { limit: number; offset: number } = { limit: 20, offset: 0 }): Promise<ExecutionPage> {
+    return this.repository.list(filter, page);
   }
 
   /**
    * Get executions for a specific agent
    */
-  static getExecutionsForAgent(agentId: string, limit: number = 50): AgentExecution[] {
-    return agentExecutions
-      .filter(exec => exec.agentId === agentId)
-      .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())
-      .slice(0, limit);
+  static async getExecutionsForAgent(agentId: string, limit: number = 50): Promise<AgentExecution[]> {
+    return (await this.repository.list({ agentId }, { limit, offset: 0 })).executions;
   }
 
   /**
    * Get recent executions
    */
-  static getRecentExecutions(limit: number = 20): AgentExecution[] {
-    return agentExecutions
-      .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())
-      .slice(0, limit);
+  static async getRecentExecutions(limit: number = 20): Promise<AgentExecution[]> {
+    return (await this.repository.list({}, { limit, offset: 0 })).executions;
   }
 
   /**
    * Get execution statistics
    */
-  static getExecutionStats(agentId?: string, timeRange?: { start: Date; end: Date }) {
-    let executions = agentExecutions;
-    
-    if (agentId) {
-      executions = executions.filter(exec => exec.agentId === agentId);
-    }
-    
-    if (timeRange) {
-      executions = executions.filter(exec => {
-        const execDate = new Date(exec.startedAt);
-        return execDate >= timeRange.start && execDate <= timeRange.end;
-      });
-    }
+  static async getExecutionStats(agentId?: string, timeRange?: { start: Date; end: Date }) {
+    const executions = await this.repository.find({ agentId, from: timeRange?.start, to: timeRange?.end });
 
     const total = executions.length;
     const completed = executions.filter(exec => exec.status === "completed").length;
@@ -153,66 +215,38 @@ export class AgentExecutionTracker {
   /**
    * Get agent performance metrics
    */
-  static getAgentPerformanceMetrics(agentId: string) {
-    const executions = agentExecutions.filter(exec => exec.agentId === agentId);
-    
-    if (executions.length === 0) {
-      return {
-        totalRuns: 0,
-        successRate: 0,
-        avgExecutionTime: 0,
-        avgQualityScore: 0,
-        lastUsed: null,
-        popularity: 0,
-        efficiency: 0
-      };
-    }
-
-    const completed = executions.filter(exec => exec.status === "completed");
-    const successRate = (completed.length / executions.length) * 100;
-    
-    const avgExecutionTime = executions
-      .filter(exec => exec.duration)
-      .reduce((sum, exec) => sum + (exec.duration || 0), 0) / 
-      executions.filter(exec => exec.duration).length || 0;
-
-    const avgQualityScore = completed
-      .filter(exec => exec.result?.qualityScore)
-      .reduce((sum, exec) => sum + (exec.result?.qualityScore || 0), 0) / 
-      completed.filter(exec => exec.result?.qualityScore).length || 0;
+  static async getAgentPerformanceMetrics(agentId: string): Promise<AgentPerformanceMetrics> {
+    const recentSince = new Date(Date.now() - RECENT_WINDOW_MS);
+    const [aggregate] = await this.repository.aggregateByAgent({ agentId }, recentSince);
+    return summarizePerformance(aggregate);
+  }
 
-    const lastUsed = executions
-      .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())[0]?.startedAt;
+  /**
+   * Performance metrics per agent from a single aggregate query; `agentIds`
+   * without executions get zeroed metrics
+   */
+  static async getPerformanceByAgent(agentIds: string[] = [], filter: ExecutionFilter = {}): Promise<Map<string, AgentPerformanceMetrics>> {
+    const recentSince = new Date(Date.now() - RECENT_WINDOW_MS);
+    const aggregates = new Map((await this.repository.aggregateByAgent(filter, recentSince)).map(aggregate => [aggregate.agentId, aggregate]));
 
-    // Calculate popularity based on execution frequency
-    const now = new Date();
-    const last24Hours = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-    const recentExecutions = executions.filter(exec => 
-      new Date(exec.startedAt) >= last24Hours
-    ).length;
-    
-    const popularity = Math.min(100, (recentExecutions / 10) * 100); // Scale to 0-100
-    
-    // Calculate efficiency based on success rate and execution time
-    const efficiency = Math.max(0, Math.min(100, 
-      (successRate * 0.7) + ((100 - Math.min(avgExecutionTime / 60, 100)) * 0.3)
-    ));
+    const metrics = new Map<string, AgentPerformanceMetrics>();
+    agentIds.forEach(agentId => metrics.set(agentId, summarizePerformance(aggregates.get(agentId))));
+    aggregates.forEach((aggregate, agentId) => metrics.set(agentId, summarizePerformance(aggregate)));
+    return metrics;
+  }
 
-    return {
-      totalRuns: executions.length,
-      successRate,
-      avgExecutionTime,
-      avgQualityScore,
-      lastUsed,
-      popularity,
-      efficiency
-    };
+  /**
+   * Execution history the routing engine weighs: real executions only, since
+   * the random demo data would make routing differ between restarts
+   */
+  static async getRoutingHistory(): Promise<Map<string, AgentPerformanceMetrics>> {
+    return this.getPerformanceByAgent([], { excludeDemo: true });
   }
 
   /**
    * Generate mock execution data for testing
    */
-  static generateMockExecutions() {
+  static async generateMockExecutions() {
     const agents = [
       "agent-api-architect",
       "agent-debug-intelligence", 
@@ -236,13 +270,14 @@ export class AgentExecutionTracker {
     ];
 
     // Generate 100 mock executions over the last 7 days
+    const executions: AgentExecution[] = [];
     for (let i = 0; i < 100; i++) {
       const agentId = agents[Math.floor(Math.random() * agents.length)];
       const query = queries[Math.floor(Math.random() * queries.length)];
       const startedAt = new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000);
       
       const execution: AgentExecution = {
-        id: `mock_exec_${i}`,
+        id: `${DEMO_EXECUTION_PREFIX}${i}`,
         agentId,
         agentName: agentId.replace('agent-', '').replace('-', ' '),
         query,
@@ -267,21 +302,27 @@ export class AgentExecutionTracker {
         }
       };
 
-      agentExecutions.push(execution);
+      executions.push(execution);
     }
 
-    console.log(`Generated ${agentExecutions.length} mock agent executions`);
+    await Promise.all(executions.map(execution => this.repository.save(execution)));
+    console.log(`Generated ${executions.length} mock agent executions`);
+  }
+
+  /**
+   * Delete executions started before the cutoff (retention)
+   */
+  static async pruneExecutions(cutoff: Date): Promise<number> {
+    return this.repository.deleteBefore(cutoff);
   }
 
   /**
    * Clear all data (for testing)
    */
-  static clearData() {
-    agentExecutions.length = 0;
+  static async clearData() {
+    await this.repository.clear();
   }
 }
 
-// Initialize with mock data if no data exists
-if (agentExecutions.length === 0) {
-  AgentExecutionTracker.generateMockExecutions();
-}
+// Demo data for the default in-memory repository; persistent repositories start empty
+void AgentExecutionTracker.generateMockExecutions();
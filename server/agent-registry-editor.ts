@@ -0,0 +1,373 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { validateAgentDefinition, type AgentRegistry, type RegistryAgent } from './agent-registry';
+import { liveDependentsOf } from './agent-dependency-graph';
+
+/**
+ * Agent Registry Editor
+ *
+ * Write side of the agent registry: creates, replaces and patches agent
+ * definitions, validating them against the registry schema, bumping the
+ * semver `version` on every change and writing them back through the
+ * registry provider (the YAML files the team used to edit by hand). Writes
+ * are refused with 409 while the registry is the read-only bundled sample.
+ *
+ * Deprecating an agent that active agents still depend on succeeds but
+ * returns a warning listing those dependents.
+ *
+ * Every change is kept as a revision (full definition plus field-level diff
+ * against the previous revision) so versions can be compared later. Revisions
+ * are held in memory and optionally mirrored to a JSON file
+ * (AGENT_REGISTRY_HISTORY_PATH) so they survive restarts.
+ */
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export type RevisionAction = 'import' | 'create' | 'update';
+
+export interface AgentFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+  // List fields (tags, triggers, dependencies) also report their added/removed items
+  added?: string[];
+  removed?: string[];
+}
+
+export interface AgentRevision {
+  id: string;
+  agent: string;
+  revision: number;
+  version: string;
+  action: RevisionAction;
+  author: string;
+  createdAt: string;
+  definition: RegistryAgent;
+  changes: AgentFieldChange[];
+}
+
+export interface AgentWriteWarning {
+  code: 'active-dependents';
+  message: string;
+  agents: string[];
+}
+
+export type AgentWriteResult =
+  | { ok: true; agent: RegistryAgent; revision: AgentRevision | null; warnings: AgentWriteWarning[] }
+  | { ok: false; status: 400 | 404 | 409; error: string; details?: unknown };
+
+export const AGENT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+const SEMVER = /^(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:[-+].*)?$/;
+
+// Fields that change on every write and are not part of a diff
+const UNTRACKED_FIELDS = new Set(['lastUpdated']);
+
+/**
+ * Parse a (possibly partial) semver string; '2' and '2.1' are read as 2.0.0 and 2.1.0
+ */
+export function parseVersion(version: string): [number, number, number] | null {
+  const match = version.trim().replace(/^v/i, '').match(SEMVER);
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)];
+}
+
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a) ?? [0, 0, 0];
+  const right = parseVersion(b) ?? [0, 0, 0];
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return 0;
+}
+
+export function bumpVersion(version: string, bump: VersionBump = 'patch'): string {
+  const [major, minor, patch] = parseVersion(version) ?? [0, 0, 0];
+  if (bump === 'major') return `${major + 1}.0.0`;
+  if (bump === 'minor') return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Field-level differences between two versions of a definition
+ * (every field counts as changed when there is no previous version)
+ */
+export function diffAgentDefinitions(before: RegistryAgent | null, after: RegistryAgent): AgentFieldChange[] {
+  const changes: AgentFieldChange[] = [];
+  for (const field of Object.keys(after) as Array<keyof RegistryAgent>) {
+    if (UNTRACKED_FIELDS.has(field)) continue;
+    const previous = before ? before[field] : undefined;
+    const next = after[field];
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue;
+
+    const change: AgentFieldChange = { field, before: previous ?? null, after: next };
+    if (isStringList(next) && (previous === undefined || isStringList(previous))) {
+      const old = previous ?? [];
+      change.added = next.filter(item => !old.includes(item));
+      change.removed = old.filter(item => !next.includes(item));
+    }
+    changes.push(change);
+  }
+  return changes;
+}
+
+export class AgentRevisionStore {
+  private revisions: AgentRevision[] = [];
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string | null = null,
+    private readonly now: () => Date = () => new Date(),
+  ) {}
+
+  /**
+   * Load persisted revisions (no-op without a file path)
+   */
+  async load(): Promise<void> {
+    if (!this.filePath) return;
+    try {
+      const stored = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      // Keep anything recorded while loading
+      if (Array.isArray(stored)) this.revisions = [...stored, ...this.revisions];
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.warn('[AgentRevisionStore] Failed to load revisions:', error);
+      }
+    }
+  }
+
+  /**
+   * Revisions of an agent, newest first
+   */
+  list(agent: string): AgentRevision[] {
+    return this.revisions.filter(revision => revision.agent === agent).sort((a, b) => b.revision - a.revision);
+  }
+
+  /**
+   * Latest revision with the given version
+   */
+  find(agent: string, version: string): AgentRevision | undefined {
+    return this.list(agent).find(revision => revision.version === version);
+  }
+
+  record(entry: { agent: string; action: RevisionAction; author: string; definition: RegistryAgent }): AgentRevision {
+    const previous = this.list(entry.agent)[0];
+    const revision: AgentRevision = {
+      id: randomUUID(),
+      agent: entry.agent,
+      revision: (previous?.revision ?? 0) + 1,
+      version: entry.definition.version,
+      action: entry.action,
+      author: entry.author,
+      createdAt: this.now().toISOString(),
+      definition: entry.definition,
+      changes: entry.action === 'import' ? [] : diffAgentDefinitions(previous?.definition ?? null, entry.definition),
+    };
+    this.revisions.push(revision);
+    this.persist();
+    return revision;
+  }
+
+  /**
+   * Wait for pending file writes (used on shutdown and in tests)
+   */
+  flush(): Promise<void> {
+    return this.writeChain;
+  }
+
+  // Serialize writes so concurrent updates never interleave on disk
+  private persist() {
+    if (!this.filePath) return;
+    const filePath = this.filePath;
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(this.revisions), 'utf8');
+        await fs.rename(tempPath, filePath);
+      })
+      .catch(error => {
+        console.warn('[AgentRevisionStore] Failed to persist revisions:', error);
+      });
+  }
+}
+
+interface WriteOptions {
+  author: string;
+  bump?: VersionBump;
+  // Reject the write when the stored version has moved on (optimistic locking)
+  expectedVersion?: string;
+}
+
+function readOnly(): AgentWriteResult {
+  return {
+    ok: false,
+    status: 409,
+    error: 'Agent registry is read-only',
+    details: 'The bundled sample registry cannot be edited; set AGENT_REGISTRY_PATH to a registry of your own',
+  };
+}
+
+export class AgentRegistryEditor {
+  constructor(
+    private readonly registry: AgentRegistry,
+    private readonly revisions: AgentRevisionStore,
+    private readonly now: () => Date = () => new Date(),
+  ) {}
+
+  create(payload: Record<string, unknown>, options: WriteOptions): AgentWriteResult {
+    if (!this.registry.get().writable) return readOnly();
+    const name = typeof payload.name === 'string' ? payload.name : '';
+    if (!AGENT_NAME_PATTERN.test(name)) {
+      return { ok: false, status: 400, error: 'Invalid agent name', details: 'Use lowercase letters, digits, "-" and "_"' };
+    }
+    if (this.registry.get().agents[name]) {
+      return { ok: false, status: 409, error: `Agent "${name}" already exists` };
+    }
+
+    const version = payload.version === undefined ? '1.0.0' : String(payload.version);
+    if (!parseVersion(version)) {
+      return { ok: false, status: 400, error: 'Invalid version', details: `"${version}" is not a semver version` };
+    }
+    return this.write(null, { ...payload, version }, 'create', options.author);
+  }
+
+  /**
+   * Replace a definition; omitted fields fall back to their defaults
+   */
+  replace(name: string, payload: Record<string, unknown>, options: WriteOptions): AgentWriteResult {
+    if (payload.name !== undefined && payload.name !== name) {
+      return { ok: false, status: 400, error: 'Agent name cannot be changed', details: `Expected "${name}"` };
+    }
+    return this.update(name, () => ({ ...payload, name }), options);
+  }
+
+  /**
+   * Change only the given fields
+   */
+  patch(name: string, payload: Record<string, unknown>, options: WriteOptions): AgentWriteResult {
+    if (payload.name !== undefined && payload.name !== name) {
+      return { ok: false, status: 400, error: 'Agent name cannot be changed', details: `Expected "${name}"` };
+    }
+    return this.update(name, current => ({ ...current, ...payload, name }), options);
+  }
+
+  history(name: string): AgentRevision[] {
+    return this.revisions.list(name);
+  }
+
+  /**
+   * Differences between two recorded versions; defaults to the latest change
+   */
+  diff(name: string, from?: string, to?: string):
+    | { ok: true; from: AgentRevision | null; to: AgentRevision; changes: AgentFieldChange[] }
+    | { ok: false; status: 404; error: string } {
+    const revisions = this.revisions.list(name);
+    const target = to ? this.revisions.find(name, to) : revisions[0];
+    if (!target) {
+      return { ok: false, status: 404, error: to ? `Version ${to} not found` : 'No revisions recorded for this agent' };
+    }
+
+    const base = from
+      ? this.revisions.find(name, from)
+      : revisions.find(revision => revision.revision < target.revision) ?? null;
+    if (base === undefined) {
+      return { ok: false, status: 404, error: `Version ${from} not found` };
+    }
+
+    return { ok: true, from: base, to: target, changes: diffAgentDefinitions(base?.definition ?? null, target.definition) };
+  }
+
+  private update(
+    name: string,
+    build: (current: RegistryAgent) => Record<string, unknown>,
+    options: WriteOptions
+  ): AgentWriteResult {
+    if (!this.registry.get().writable) return readOnly();
+    const current = this.registry.get().agents[name];
+    if (!current) {
+      return { ok: false, status: 404, error: 'Agent not found' };
+    }
+    if (options.expectedVersion && options.expectedVersion !== current.version) {
+      return {
+        ok: false,
+        status: 409,
+        error: 'Agent was modified by someone else',
+        details: { expectedVersion: options.expectedVersion, currentVersion: current.version },
+      };
+    }
+
+    const payload = build(current);
+    const requested = payload.version === undefined ? undefined : String(payload.version);
+    const explicitVersion = requested !== undefined && requested !== current.version;
+    let version: string;
+    if (explicitVersion) {
+      if (!parseVersion(requested) || compareVersions(requested, current.version) <= 0) {
+        return {
+          ok: false,
+          status: 400,
+          error: 'Invalid version',
+          details: `Version must be semver and greater than ${current.version}`,
+        };
+      }
+      version = requested;
+    } else {
+      version = bumpVersion(current.version, options.bump);
+    }
+
+    return this.write(current, { ...payload, version }, 'update', options.author, !explicitVersion);
+  }
+
+  private write(
+    current: RegistryAgent | null,
+    payload: Record<string, unknown>,
+    action: RevisionAction,
+    author: string,
+    skipIfUnchanged = false
+  ): AgentWriteResult {
+    const name = String(payload.name);
+    const result = validateAgentDefinition({ ...payload, lastUpdated: this.now().toISOString() }, name, 'request');
+    if ('error' in result) {
+      return { ok: false, status: 400, error: 'Invalid agent definition', details: result.error.issues };
+    }
+
+    const agent = result.agent;
+    if (current && skipIfUnchanged && diffAgentDefinitions(current, { ...agent, version: current.version }).length === 0) {
+      // Nothing but the automatic version bump would change
+      return { ok: true, agent: current, revision: null, warnings: [] };
+    }
+
+    // Keep the hand-edited definition as the baseline of the history
+    if (current && this.revisions.list(name).length === 0) {
+      this.revisions.record({ agent: name, action: 'import', author: 'registry', definition: current });
+    }
+
+    this.registry.save(agent);
+    const revision = this.revisions.record({ agent: name, action, author, definition: agent });
+    const warnings = current?.status !== 'deprecated' && agent.status === 'deprecated' ? this.deprecationWarnings(name) : [];
+    return { ok: true, agent, revision, warnings };
+  }
+
+  private deprecationWarnings(name: string): AgentWriteWarning[] {
+    const { direct, transitive } = liveDependentsOf(Object.values(this.registry.get().agents), name);
+    if (transitive.length === 0) return [];
+    const indirect = transitive.filter(agent => !direct.includes(agent));
+    return [{
+      code: 'active-dependents',
+      message: `${transitive.length} active agent${transitive.length === 1 ? ' still depends' : 's still depend'} on ${name}` +
+        (direct.length > 0 ? ` (directly: ${direct.join(', ')}` + (indirect.length > 0 ? `; indirectly: ${indirect.join(', ')})` : ')') : ''),
+      agents: transitive,
+    }];
+  }
+}
+
+export function createAgentRevisionStore(env: NodeJS.ProcessEnv = process.env): AgentRevisionStore {
+  const store = new AgentRevisionStore(env.AGENT_REGISTRY_HISTORY_PATH || '.data/agent-registry-history.json');
+  store.load().catch(error => console.warn('[AgentRevisionStore] Failed to load revisions:', error));
+  return store;
+}
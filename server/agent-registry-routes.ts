@@ -1,136 +1,123 @@
-import { Router } from "express";
+import { Router, type Request, type Response } from "express";
 import { z } from "zod";
-import fs from "fs";
-import path from "path";
-import yaml from "js-yaml";
-import { AgentExecutionTracker } from "./agent-execution-tracker";
+import { createAgentRegistry, type AgentRegistrySnapshot, type RegistryAgent } from "./agent-registry";
+import { AgentRegistryEditor, createAgentRevisionStore, type AgentWriteResult } from "./agent-registry-editor";
+import { buildDependencyGraph } from "./agent-dependency-graph";
+import { AgentExecutionTracker, AgentExecutionSchema } from "./agent-execution-tracker";
+import { executionQueue } from "./agent-execution-queue";
 import { PolymorphicAgentIntegration } from "./polymorphic-agent-integration";
+import { RoutingEngine, isRoutable } from "./agent-routing-engine";
+import { applyAgentOverrides, replayRoutingDecisions } from "./routing-replay";
+import { getRoutingDecisionsForReplay } from "./intelligence-queries";
 
 const router = Router();
 
-// Data schemas
-const AgentCapabilitySchema = z.object({
-  name: z.string(),
-  description: z.string(),
-  category: z.string(),
-  level: z.enum(["beginner", "intermediate", "expert"]),
-});
+// Registry provider (AGENT_REGISTRY_PATH), hot-reloaded on file changes
+const agentRegistry = createAgentRegistry();
+// Writes go back through the provider; revisions in AGENT_REGISTRY_HISTORY_PATH
+const agentEditor = new AgentRegistryEditor(agentRegistry, createAgentRevisionStore());
+
+// Routing over the registry's triggers and capabilities, weighted by execution
+// history (loaded once per engine, so build one per request)
+async function createRoutingEngine(agents: () => RegistryAgent[]) {
+  const history = await AgentExecutionTracker.getRoutingHistory();
+  return new RoutingEngine({
+    agents,
+    history: (agentName) => history.get(agentName) ?? null,
+    fallbackAgent: process.env.AGENT_ROUTING_FALLBACK || undefined,
+  });
+}
 
-const AgentPerformanceSchema = z.object({
-  totalRuns: z.number(),
-  successRate: z.number(),
-  avgExecutionTime: z.number(),
-  avgQualityScore: z.number(),
-  lastUsed: z.string(),
-  popularity: z.number(),
-  efficiency: z.number(),
+PolymorphicAgentIntegration.useRoutingEngine(() => createRoutingEngine(() => Object.values(agentRegistry.get().agents)));
+
+const REPLAY_WINDOWS_MS: Record<string, number> = {
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+};
+
+// Replay window (explicit from/to win over timeWindow) and optional what-if overrides;
+// windows with more than `limit` decisions replay the newest ones
+const RoutingReplayBodySchema = z.object({
+  timeWindow: z.enum(["24h", "7d", "30d"]).default("7d"),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  limit: z.number().int().min(1).max(5000).default(1000),
+  agents: z.record(z.record(z.unknown())).optional(),
 });
 
-const AgentDefinitionSchema = z.object({
-  id: z.string(),
-  name: z.string(),
-  title: z.string(),
-  description: z.string(),
-  category: z.string(),
-  color: z.string(),
-  priority: z.enum(["low", "medium", "high", "critical"]),
-  capabilities: z.array(AgentCapabilitySchema),
-  activationTriggers: z.array(z.string()),
-  domainContext: z.string(),
-  specializationLevel: z.enum(["generalist", "specialist", "expert"]),
-  performance: AgentPerformanceSchema,
-  status: z.enum(["active", "inactive", "deprecated", "beta"]),
-  lastUpdated: z.string(),
-  version: z.string(),
-  dependencies: z.array(z.string()),
-  tags: z.array(z.string()),
+const ExecutionListQuerySchema = z.object({
+  agentId: z.string().min(1).optional(),
+  status: AgentExecutionSchema.shape.status.optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
 });
 
-// Get performance data from execution tracker
-function getPerformanceData(agentName: string) {
-  return AgentExecutionTracker.getAgentPerformanceMetrics(agentName);
+// Write requests carry the definition fields plus these controls
+const AgentWriteBodySchema = z.object({
+  bump: z.enum(["major", "minor", "patch"]).optional(),
+  expectedVersion: z.string().optional(),
+}).passthrough();
+
+
+// Current registry snapshot, or null when no agents could be loaded
+function loadAgentRegistry(): AgentRegistrySnapshot | null {
+  const registry = agentRegistry.get();
+  return Object.keys(registry.agents).length > 0 || registry.errors.length === 0 ? registry : null;
 }
 
-// Load agent registry from YAML file
-function loadAgentRegistry() {
-  try {
-    const registryPath = "/Volumes/PRO-G40/Code/omniclaude/agents/definitions/agent-registry.yaml";
-    const fileContents = fs.readFileSync(registryPath, 'utf8');
-    const registry = yaml.load(fileContents) as any;
-    return registry;
-  } catch (error) {
-    console.error("Error loading agent registry:", error);
-    return null;
-  }
+function registryUnavailable(res: Response) {
+  const { location, errors } = agentRegistry.get();
+  return res.status(500).json({ error: "Failed to load agent registry", location, details: errors });
 }
 
-// Load individual agent definition
-function loadAgentDefinition(agentName: string) {
-  try {
-    const definitionPath = `/Volumes/PRO-G40/Code/omniclaude/agents/definitions/${agentName}.yaml`;
-    const fileContents = fs.readFileSync(definitionPath, 'utf8');
-    const definition = yaml.load(fileContents) as any;
-    return definition;
-  } catch (error) {
-    console.error(`Error loading agent definition for ${agentName}:`, error);
+// Attach runtime performance metrics to a registry agent
+async function transformAgentToAPI(agent: RegistryAgent) {
+  return { ...agent, performance: await AgentExecutionTracker.getAgentPerformanceMetrics(agent.name) };
+}
+
+async function listAgents(registry: AgentRegistrySnapshot) {
+  const agents = Object.values(registry.agents);
+  const performance = await AgentExecutionTracker.getPerformanceByAgent(agents.map(agent => agent.name));
+  return agents.map(agent => ({ ...agent, performance: performance.get(agent.name)! }));
+}
+
+function authorFor(req: Request): string {
+  return req.header("x-user-id")?.trim() || "default";
+}
+
+function parseWriteBody(req: Request, res: Response) {
+  const parsed = AgentWriteBodySchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid request", details: parsed.error.issues });
     return null;
   }
+  const { bump, expectedVersion, ...definition } = parsed.data;
+  return { definition, options: { author: authorFor(req), bump, expectedVersion } };
 }
 
-// Transform registry agent to API format
-function transformAgentToAPI(agentData: any, agentName: string): any {
-  const performance = getPerformanceData(agentName);
-
-  // Extract capabilities from agent definition
-  const capabilities = [];
-  if (agentData.capabilities) {
-    for (const [key, value] of Object.entries(agentData.capabilities)) {
-      if (typeof value === 'object' && value !== null) {
-        const capObj = value as any;
-        capabilities.push({
-          name: capObj.name || key,
-          description: capObj.description || capObj.purpose || `Capability for ${key}`,
-          category: capObj.category || 'general',
-          level: capObj.level || 'intermediate'
-        });
-      }
-    }
+async function sendWriteResult(res: Response, result: AgentWriteResult, successStatus = 200) {
+  if (!result.ok) {
+    return res.status(result.status).json({ error: result.error, details: result.details });
   }
-
-  return {
-    id: agentData.name || agentName,
-    name: agentData.name || agentName,
-    title: agentData.title || agentData.agent_identity?.title || agentName,
-    description: agentData.description || agentData.agent_identity?.description || "No description available",
-    category: agentData.category || 'general',
-    color: agentData.color || agentData.agent_identity?.color || 'blue',
-    priority: agentData.priority || 'medium',
-    capabilities,
-    activationTriggers: agentData.activation_triggers || agentData.triggers || [],
-    domainContext: agentData.domain_context || agentData.domain || 'general',
-    specializationLevel: agentData.specialization_level || 'specialist',
-    performance,
-    status: agentData.status || 'active',
-    lastUpdated: agentData.last_updated || new Date().toISOString(),
-    version: agentData.version || '1.0.0',
-    dependencies: agentData.dependencies || [],
-    tags: agentData.tags || []
-  };
+  res.status(successStatus).json({
+    agent: await transformAgentToAPI(result.agent),
+    revision: result.revision,
+    warnings: result.warnings,
+  });
 }
 
 // Get all agents
-router.get("/agents", (req, res) => {
+router.get("/agents", async (req, res) => {
   try {
     const { category, search, status, priority } = req.query;
     
     const registry = loadAgentRegistry();
-    if (!registry || !registry.agents) {
-      return res.status(500).json({ error: "Failed to load agent registry" });
+    if (!registry) {
+      return registryUnavailable(res);
     }
 
-    let agents = Object.entries(registry.agents).map(([key, agentData]: [string, any]) => {
-      return transformAgentToAPI(agentData, key);
-    });
+    let agents = await listAgents(registry);
 
     // Apply filters
     if (category && category !== 'all') {
@@ -163,13 +150,13 @@ router.get("/agents", (req, res) => {
 });
 
 // Get specific agent
-router.get("/agents/:agentId", (req, res) => {
+router.get("/agents/:agentId", async (req, res) => {
   try {
     const { agentId } = req.params;
     
     const registry = loadAgentRegistry();
-    if (!registry || !registry.agents) {
-      return res.status(500).json({ error: "Failed to load agent registry" });
+    if (!registry) {
+      return registryUnavailable(res);
     }
 
     const agentData = registry.agents[agentId];
@@ -177,31 +164,125 @@ router.get("/agents/:agentId", (req, res) => {
       return res.status(404).json({ error: "Agent not found" });
     }
 
-    const agent = transformAgentToAPI(agentData, agentId);
-    res.json(agent);
+    res.json(await transformAgentToAPI(agentData));
   } catch (error) {
     console.error("Error fetching agent:", error);
     res.status(500).json({ error: "Failed to fetch agent" });
   }
 });
 
+/**
+ * POST /api/agents/agents
+ * Body: agent definition (name required; other fields default) + { bump?, expectedVersion? }
+ * Returns 201 { agent, revision }; 409 when the name is taken
+ */
+router.post("/agents", async (req, res) => {
+  try {
+    const body = parseWriteBody(req, res);
+    if (!body) return;
+    await sendWriteResult(res, agentEditor.create(body.definition, body.options), 201);
+  } catch (error) {
+    console.error("Error creating agent:", error);
+    res.status(500).json({ error: "Failed to create agent" });
+  }
+});
+
+/**
+ * PUT /api/agents/agents/:agentId
+ * Replaces the definition (omitted fields fall back to defaults) and bumps the
+ * version: `bump` (default patch) or an explicit higher `version`.
+ * `expectedVersion` rejects the write with 409 if the agent changed meanwhile.
+ * Returns { agent, revision } (revision null when nothing changed)
+ */
+router.put("/agents/:agentId", async (req, res) => {
+  try {
+    const body = parseWriteBody(req, res);
+    if (!body) return;
+    await sendWriteResult(res, agentEditor.replace(req.params.agentId, body.definition, body.options));
+  } catch (error) {
+    console.error("Error updating agent:", error);
+    res.status(500).json({ error: "Failed to update agent" });
+  }
+});
+
+/**
+ * PATCH /api/agents/agents/:agentId
+ * Same as PUT but only changes the given fields,
+ * e.g. { status: "deprecated", bump: "minor" } to deprecate an agent.
+ * Deprecating an agent with active dependents adds an "active-dependents" warning.
+ */
+router.patch("/agents/:agentId", async (req, res) => {
+  try {
+    const body = parseWriteBody(req, res);
+    if (!body) return;
+    await sendWriteResult(res, agentEditor.patch(req.params.agentId, body.definition, body.options));
+  } catch (error) {
+    console.error("Error updating agent:", error);
+    res.status(500).json({ error: "Failed to update agent" });
+  }
+});
+
+// GET /api/agents/agents/:agentId/history
+// Revisions newest first, each with its field changes against the previous one
+router.get("/agents/:agentId/history", (req, res) => {
+  try {
+    const { agentId } = req.params;
+    res.json({ agent: agentId, revisions: agentEditor.history(agentId) });
+  } catch (error) {
+    console.error("Error fetching agent history:", error);
+    res.status(500).json({ error: "Failed to fetch agent history" });
+  }
+});
+
+// GET /api/agents/agents/:agentId/diff?from=1.0.0&to=1.1.0
+// Defaults to the latest revision against the one before it
+router.get("/agents/:agentId/diff", (req, res) => {
+  try {
+    const from = typeof req.query.from === "string" ? req.query.from : undefined;
+    const to = typeof req.query.to === "string" ? req.query.to : undefined;
+    const result = agentEditor.diff(req.params.agentId, from, to);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json({
+      agent: req.params.agentId,
+      from: result.from && { version: result.from.version, revision: result.from.revision, createdAt: result.from.createdAt },
+      to: { version: result.to.version, revision: result.to.revision, createdAt: result.to.createdAt },
+      changes: result.changes,
+    });
+  } catch (error) {
+    console.error("Error diffing agent versions:", error);
+    res.status(500).json({ error: "Failed to diff agent versions" });
+  }
+});
+
+/**
+ * GET /api/agents/dependency-graph
+ * Graph of registry `dependencies` (edges point from an agent to what it depends on)
+ * with cycles, references to missing agents and per-agent reverse dependencies
+ */
+router.get("/dependency-graph", (req, res) => {
+  try {
+    const registry = loadAgentRegistry();
+    if (!registry) {
+      return registryUnavailable(res);
+    }
+    res.json(buildDependencyGraph(Object.values(registry.agents)));
+  } catch (error) {
+    console.error("Error building dependency graph:", error);
+    res.status(500).json({ error: "Failed to build dependency graph" });
+  }
+});
+
 // Get agent categories
 router.get("/categories", (req, res) => {
   try {
     const registry = loadAgentRegistry();
-    if (!registry || !registry.categories) {
-      return res.status(500).json({ error: "Failed to load agent registry" });
+    if (!registry) {
+      return registryUnavailable(res);
     }
 
-    const categories = Object.entries(registry.categories).map(([key, categoryData]: [string, any]) => ({
-      name: key,
-      description: categoryData.description || `Agents for ${key}`,
-      count: categoryData.count || 0,
-      priority: categoryData.priority || 'medium',
-      color: categoryData.color || 'blue'
-    }));
-
-    res.json(categories);
+    res.json(registry.categories);
   } catch (error) {
     console.error("Error fetching categories:", error);
     res.status(500).json({ error: "Failed to fetch categories" });
@@ -209,18 +290,16 @@ router.get("/categories", (req, res) => {
 });
 
 // Get agent capabilities
-router.get("/capabilities", (req, res) => {
+router.get("/capabilities", async (req, res) => {
   try {
     const { category } = req.query;
     
     const registry = loadAgentRegistry();
-    if (!registry || !registry.agents) {
-      return res.status(500).json({ error: "Failed to load agent registry" });
+    if (!registry) {
+      return registryUnavailable(res);
     }
 
-    let agents = Object.entries(registry.agents).map(([key, agentData]: [string, any]) => {
-      return transformAgentToAPI(agentData, key);
-    });
+    let agents = await listAgents(registry);
 
     if (category && category !== 'all') {
       agents = agents.filter(agent => agent.category === category);
@@ -238,13 +317,13 @@ router.get("/capabilities", (req, res) => {
 });
 
 // Get agent performance metrics
-router.get("/performance", (req, res) => {
+router.get("/performance", async (req, res) => {
   try {
     const { agentId, timeRange = "30d" } = req.query;
 
     if (agentId) {
       // Get performance for specific agent
-      const performance = getPerformanceData(agentId as string);
+      const performance = await AgentExecutionTracker.getAgentPerformanceMetrics(agentId as string);
       if (!performance) {
         return res.status(404).json({ error: "Agent performance data not found" });
       }
@@ -252,13 +331,11 @@ router.get("/performance", (req, res) => {
     } else {
       // Get performance overview
       const registry = loadAgentRegistry();
-      if (!registry || !registry.agents) {
-        return res.status(500).json({ error: "Failed to load agent registry" });
+      if (!registry) {
+        return registryUnavailable(res);
       }
 
-      const agents = Object.entries(registry.agents).map(([key, agentData]: [string, any]) => {
-        return transformAgentToAPI(agentData, key);
-      });
+      const agents = await listAgents(registry);
 
       const performanceOverview = {
         totalAgents: agents.length,
@@ -286,16 +363,14 @@ router.get("/performance", (req, res) => {
 });
 
 // High-level agent summary for dashboards
-router.get("/summary", (req, res) => {
+router.get("/summary", async (req, res) => {
   try {
     const registry = loadAgentRegistry();
-    if (!registry || !registry.agents) {
-      return res.status(500).json({ error: "Failed to load agent registry" });
+    if (!registry) {
+      return registryUnavailable(res);
     }
 
-    const agents = Object.entries(registry.agents).map(([key, agentData]: [string, any]) => {
-      return transformAgentToAPI(agentData, key);
-    });
+    const agents = await listAgents(registry);
 
     const totalAgents = agents.length;
     const activeAgents = agents.filter(a => a.status === 'active').length;
@@ -321,6 +396,25 @@ router.get("/summary", (req, res) => {
   }
 });
 
+// Registry source and per-file validation errors
+router.get("/registry/status", (req, res) => {
+  try {
+    const { source, location, writable, loadedAt, agents, errors } = agentRegistry.get();
+    res.json({
+      source,
+      location,
+      writable,
+      loadedAt,
+      agentCount: Object.keys(agents).length,
+      valid: errors.length === 0,
+      errors,
+    });
+  } catch (error) {
+    console.error("Error fetching agent registry status:", error);
+    res.status(500).json({ error: "Failed to fetch agent registry status" });
+  }
+});
+
 // Get routing intelligence data
 router.get("/routing", (req, res) => {
   try {
@@ -397,44 +491,31 @@ router.get("/routing", (req, res) => {
   }
 });
 
-// Execute agent
-router.post("/agents/:agentId/execute", (req, res) => {
+// Queue an agent execution; follow it over /ws ("executions" topic) or poll the execution
+router.post("/agents/:agentId/execute", async (req, res) => {
   try {
     const { agentId } = req.params;
     const { query, context, routingDecision } = req.body;
+
+    if (!query) {
+      return res.status(400).json({ error: "Query is required" });
+    }
     
-    // Get agent name from registry
     const registry = loadAgentRegistry();
-    const agentData = registry?.agents?.[agentId];
-    const agentName = agentData?.title || agentId;
-    
-    // Start tracking execution
-    const execution = AgentExecutionTracker.startExecution(
-      agentId, 
-      agentName, 
-      query, 
-      context, 
-      routingDecision
-    );
+    if (!registry) {
+      return registryUnavailable(res);
+    }
 
-    // In production, this would trigger the actual agent execution
-    // For now, we'll simulate completion after a delay
-    setTimeout(() => {
-      const result = {
-        success: Math.random() > 0.1, // 90% success rate
-        output: `Execution completed for: ${query}`,
-        qualityScore: 7 + Math.random() * 3,
-        metrics: {
-          tokensUsed: Math.floor(500 + Math.random() * 2000),
-          computeUnits: 1 + Math.random() * 5,
-          cost: 0.05 + Math.random() * 0.2
-        }
-      };
-      
-      AgentExecutionTracker.updateExecutionStatus(execution.id, "completed", result);
-    }, 2000 + Math.random() * 3000); // 2-5 second delay
+    // Only agents that take requests can be queued
+    const agentData = registry.agents[agentId];
+    if (!agentData || !isRoutable(agentData)) {
+      return res.status(404).json({ error: agentData ? `Agent is ${agentData.status}` : "Agent not found" });
+    }
+    const agentName = agentData.title;
 
-    res.json({
+    const execution = await executionQueue.enqueue({ agentId, agentName, query, context, routingDecision });
+
+    res.status(202).json({
       id: execution.id,
       agentId,
       agentName,
@@ -442,7 +523,7 @@ router.post("/agents/:agentId/execute", (req, res) => {
       context,
       status: execution.status,
       startedAt: execution.startedAt,
-      estimatedDuration: "2-5 minutes"
+      executor: executionQueue.executorName,
     });
   } catch (error) {
     console.error("Error executing agent:", error);
@@ -450,44 +531,32 @@ router.post("/agents/:agentId/execute", (req, res) => {
   }
 });
 
-// Get agent execution status
-router.get("/executions/:executionId", (req, res) => {
+// Queue depth and running executions per agent
+router.get("/executions/queue", (req, res) => {
   try {
-    const { executionId } = req.params;
-    
-    const execution = AgentExecutionTracker.getExecution(executionId);
-    if (!execution) {
-      return res.status(404).json({ error: "Execution not found" });
-    }
-
-    res.json(execution);
+    res.json(executionQueue.stats());
   } catch (error) {
-    console.error("Error fetching execution status:", error);
-    res.status(500).json({ error: "Failed to fetch execution status" });
+    console.error("Error fetching execution queue:", error);
+    res.status(500).json({ error: "Failed to fetch execution queue" });
   }
 });
 
-// Get recent executions
-router.get("/executions", (req, res) => {
+// Cancel a queued or running execution
+router.post("/executions/:executionId/cancel", async (req, res) => {
   try {
-    const { agentId, limit = 20 } = req.query;
-    
-    let executions;
-    if (agentId) {
-      executions = AgentExecutionTracker.getExecutionsForAgent(agentId as string, Number(limit));
-    } else {
-      executions = AgentExecutionTracker.getRecentExecutions(Number(limit));
+    const result = await executionQueue.cancel(req.params.executionId);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error });
     }
-
-    res.json(executions);
+    res.json(result.execution);
   } catch (error) {
-    console.error("Error fetching executions:", error);
-    res.status(500).json({ error: "Failed to fetch executions" });
+    console.error("Error cancelling execution:", error);
+    res.status(500).json({ error: "Failed to cancel execution" });
   }
 });
 
-// Get execution statistics
-router.get("/executions/stats", (req, res) => {
+// Get execution statistics (registered before /executions/:executionId, which would shadow it)
+router.get("/executions/stats", async (req, res) => {
   try {
     const { agentId, timeRange } = req.query;
     
@@ -499,7 +568,7 @@ router.get("/executions/stats", (req, res) => {
       timeRangeObj = { start, end };
     }
 
-    const stats = AgentExecutionTracker.getExecutionStats(
+    const stats = await AgentExecutionTracker.getExecutionStats(
       agentId as string, 
       timeRangeObj
     );
@@ -511,9 +580,49 @@ router.get("/executions/stats", (req, res) => {
   }
 });
 
+// Get agent execution status
+router.get("/executions/:executionId", async (req, res) => {
+  try {
+    const { executionId } = req.params;
+    
+    const execution = await AgentExecutionTracker.getExecution(executionId);
+    if (!execution) {
+      return res.status(404).json({ error: "Execution not found" });
+    }
+
+    res.json({ ...execution, progress: executionQueue.progress(executionId) });
+  } catch (error) {
+    console.error("Error fetching execution status:", error);
+    res.status(500).json({ error: "Failed to fetch execution status" });
+  }
+});
+
+/**
+ * GET /api/agents/executions?limit=20&offset=0&agentId=&status=
+ * Executions newest first (limit max 200); the total across all pages is in
+ * the X-Total-Count header
+ */
+router.get("/executions", async (req, res) => {
+  try {
+    const parsed = ExecutionListQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request", details: parsed.error.issues });
+    }
+    const { agentId, status, limit, offset } = parsed.data;
+
+    const page = await AgentExecutionTracker.listExecutions({ agentId, status }, { limit, offset });
+
+    res.setHeader("X-Total-Count", String(page.total));
+    res.json(page.executions);
+  } catch (error) {
+    console.error("Error fetching executions:", error);
+    res.status(500).json({ error: "Failed to fetch executions" });
+  }
+});
+
 // Polymorphic Agent Integration Routes
 
-// Simulate routing decision
+// Route a query: selected agent, strategy and per-signal confidence breakdown
 router.post("/routing/decide", async (req, res) => {
   try {
     const { query, context } = req.body;
@@ -522,7 +631,10 @@ router.post("/routing/decide", async (req, res) => {
       return res.status(400).json({ error: "Query is required" });
     }
 
-    const decision = await PolymorphicAgentIntegration.simulateRoutingDecision(query, context);
+    const decision = await PolymorphicAgentIntegration.makeRoutingDecision(query, context);
+    if (!decision) {
+      return res.status(503).json({ error: "No routable agents in the registry" });
+    }
     res.json(decision);
   } catch (error) {
     console.error("Error making routing decision:", error);
@@ -540,12 +652,19 @@ router.post("/routing/execute", async (req, res) => {
     }
 
     // Make routing decision
-    const decision = await PolymorphicAgentIntegration.simulateRoutingDecision(query, context);
+    const decision = await PolymorphicAgentIntegration.makeRoutingDecision(query, context);
+    if (!decision) {
+      return res.status(503).json({ error: "No routable agents in the registry" });
+    }
     
-    // Execute agent
-    const result = await PolymorphicAgentIntegration.executeAgent(decision);
+    // Queue the selected agent under its registry title, as /agents/:agentId/execute does
+    const agent = agentRegistry.get().agents[decision.selectedAgent];
+    if (!agent) {
+      return res.status(404).json({ error: "Agent not found" });
+    }
+    const result = await PolymorphicAgentIntegration.executeAgent(decision, agent);
     
-    res.json({
+    res.status(202).json({
       decision,
       execution: result
     });
@@ -555,10 +674,49 @@ router.post("/routing/execute", async (req, res) => {
   }
 });
 
+// Replay historical routing decisions through the current engine (optionally
+// with proposed definition changes) and compare with the recorded selections
+router.post("/routing/replay", async (req, res) => {
+  try {
+    const parsed = RoutingReplayBodySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request", details: parsed.error.issues });
+    }
+    const { timeWindow, limit, agents: overrides } = parsed.data;
+    const to = parsed.data.to ? new Date(parsed.data.to) : new Date();
+    const from = parsed.data.from ? new Date(parsed.data.from) : new Date(to.getTime() - REPLAY_WINDOWS_MS[timeWindow]);
+    if (from >= to) {
+      return res.status(400).json({ error: "Invalid request", details: "from must be before to" });
+    }
+
+    let agents = Object.values(agentRegistry.get().agents);
+    if (overrides) {
+      const applied = applyAgentOverrides(agents, overrides);
+      if ("errors" in applied) {
+        return res.status(400).json({ error: "Invalid agent overrides", details: applied.errors });
+      }
+      agents = applied.agents;
+    }
+
+    const engine = await createRoutingEngine(() => agents);
+    const { decisions, total } = await getRoutingDecisionsForReplay(from, to, limit);
+    const report = replayRoutingDecisions(decisions, (query, context) => engine.decide(query, context), { total });
+
+    res.json({
+      window: { from: from.toISOString(), to: to.toISOString() },
+      whatIf: overrides ? Object.keys(overrides) : [],
+      ...report,
+    });
+  } catch (error) {
+    console.error("Error replaying routing decisions:", error);
+    res.status(500).json({ error: "Failed to replay routing decisions" });
+  }
+});
+
 // Get routing statistics
-router.get("/routing/stats", (req, res) => {
+router.get("/routing/stats", async (req, res) => {
   try {
-    const stats = PolymorphicAgentIntegration.getRoutingStatistics();
+    const stats = await PolymorphicAgentIntegration.getRoutingStatistics();
     res.json(stats);
   } catch (error) {
     console.error("Error fetching routing stats:", error);
@@ -567,9 +725,9 @@ router.get("/routing/stats", (req, res) => {
 });
 
 // Get agent performance comparison
-router.get("/routing/performance", (req, res) => {
+router.get("/routing/performance", async (req, res) => {
   try {
-    const performance = PolymorphicAgentIntegration.getAgentPerformanceComparison();
+    const performance = await PolymorphicAgentIntegration.getAgentPerformanceComparison(Object.values(agentRegistry.get().agents));
     res.json(performance);
   } catch (error) {
     console.error("Error fetching agent performance:", error);
@@ -0,0 +1,494 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+
+/**
+ * Agent Registry
+ *
+ * Loads agent definitions for the /api/agents routes from YAML through a
+ * registry provider (AGENT_REGISTRY_PATH):
+ * - a directory: one definition per *.yaml/*.yml file, plus an optional
+ *   agent-registry.yaml index with `categories` and base `agents` entries
+ *   (merged under the per-file definitions)
+ * - a single YAML file with `agents` (keyed by agent name) and `categories`
+ *
+ * Definitions use the omniclaude YAML layout (snake_case keys, capabilities as
+ * a map or list) and are normalized and validated against AgentDefinitionSchema.
+ * Invalid definitions are skipped and reported per file. Performance metrics
+ * are runtime data, attached by the routes from the execution tracker.
+ *
+ * Defaults to the sample registry bundled in config/agent-registry so the
+ * Agent Registry page works out of the box. Changes are hot-reloaded with
+ * fs.watch (AGENT_REGISTRY_WATCH=false to disable). Providers also write
+ * definitions back (see agent-registry-editor.ts for the write API), except
+ * for the bundled sample: it is tracked in git, so it is read-only unless
+ * AGENT_REGISTRY_PATH points at it explicitly.
+ */
+
+export const AgentCapabilitySchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  category: z.string(),
+  level: z.enum(['beginner', 'intermediate', 'expert']),
+});
+
+export const AgentPerformanceSchema = z.object({
+  totalRuns: z.number(),
+  successRate: z.number(),
+  avgExecutionTime: z.number(),
+  avgQualityScore: z.number(),
+  lastUsed: z.string(),
+  popularity: z.number(),
+  efficiency: z.number(),
+});
+
+export const AgentDefinitionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  title: z.string(),
+  description: z.string(),
+  category: z.string(),
+  color: z.string(),
+  priority: z.enum(['low', 'medium', 'high', 'critical']),
+  capabilities: z.array(AgentCapabilitySchema),
+  activationTriggers: z.array(z.string()),
+  domainContext: z.string(),
+  specializationLevel: z.enum(['generalist', 'specialist', 'expert']),
+  performance: AgentPerformanceSchema,
+  status: z.enum(['active', 'inactive', 'deprecated', 'beta']),
+  lastUpdated: z.string(),
+  version: z.string(),
+  dependencies: z.array(z.string()),
+  tags: z.array(z.string()),
+});
+
+// Registry entries carry everything except the runtime performance metrics
+export const RegistryAgentSchema = AgentDefinitionSchema.omit({ performance: true });
+
+export type AgentDefinition = z.infer<typeof AgentDefinitionSchema>;
+export type RegistryAgent = z.infer<typeof RegistryAgentSchema>;
+
+export interface AgentCategoryEntry {
+  name: string;
+  description: string;
+  count: number;
+  priority: string;
+  color: string;
+}
+
+export interface RegistryValidationError {
+  file: string;
+  agent?: string;
+  issues: string[];
+}
+
+export interface AgentRegistrySnapshot {
+  source: string;
+  location: string;
+  writable: boolean;
+  loadedAt: string;
+  agents: Record<string, RegistryAgent>;
+  // File each agent was loaded from, relative to the registry location
+  files: Record<string, string>;
+  categories: AgentCategoryEntry[];
+  errors: RegistryValidationError[];
+}
+
+export interface AgentRegistryProvider {
+  readonly name: string;
+  readonly location: string;
+  // False for the bundled sample registry
+  readonly writable: boolean;
+  load(): AgentRegistrySnapshot;
+  /**
+   * Write a definition back, replacing the agent's existing entry (file is
+   * where it was loaded from, if anywhere)
+   */
+  save(agent: RegistryAgent, file?: string): void;
+  /**
+   * Call onChange whenever the underlying files change; returns a stop function
+   */
+  watch(onChange: () => void): () => void;
+}
+
+export const DEFAULT_AGENT_REGISTRY_PATH = 'config/agent-registry';
+export const REGISTRY_INDEX_FILE = 'agent-registry.yaml';
+
+const YAML_FILE = /\.ya?ml$/i;
+
+function asRecord(value: unknown): Record<string, any> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, any> : {};
+}
+
+function stringList(value: unknown): unknown {
+  if (typeof value === 'string') return [value];
+  return value ?? [];
+}
+
+function normalizeCapabilities(value: unknown): unknown[] {
+  const entries: Array<[string, unknown]> = Array.isArray(value)
+    ? value.map((capability, i) => [String(i), capability])
+    : Object.entries(asRecord(value));
+
+  return entries.map(([key, capability]) => {
+    if (typeof capability === 'string') {
+      return { name: capability, description: `Capability for ${capability}`, category: 'general', level: 'intermediate' };
+    }
+    const cap = asRecord(capability);
+    const name = cap.name || key;
+    return {
+      name,
+      description: cap.description || cap.purpose || `Capability for ${name}`,
+      category: cap.category || 'general',
+      level: cap.level || 'intermediate',
+    };
+  });
+}
+
+/**
+ * Map a YAML agent definition onto the API shape (without performance)
+ */
+export function normalizeAgentDefinition(raw: unknown, key: string): Record<string, unknown> {
+  const data = asRecord(raw);
+  const identity = asRecord(data.agent_identity);
+  const name = data.name || identity.name || key;
+  const lastUpdated = data.last_updated ?? data.lastUpdated;
+
+  return {
+    id: data.id || name,
+    name,
+    title: data.title || identity.title || name,
+    description: data.description || identity.description || 'No description available',
+    category: data.category || 'general',
+    color: data.color || identity.color || 'blue',
+    priority: data.priority || 'medium',
+    capabilities: normalizeCapabilities(data.capabilities),
+    activationTriggers: stringList(data.activation_triggers ?? data.activationTriggers ?? data.triggers),
+    domainContext: data.domain_context || data.domainContext || data.domain || 'general',
+    specializationLevel: data.specialization_level || data.specializationLevel || 'specialist',
+    status: data.status || 'active',
+    lastUpdated: lastUpdated instanceof Date ? lastUpdated.toISOString() : String(lastUpdated ?? new Date().toISOString()),
+    version: String(data.version ?? '1.0.0'),
+    dependencies: stringList(data.dependencies),
+    tags: stringList(data.tags),
+  };
+}
+
+/**
+ * Normalize and validate one definition, collecting issues instead of throwing
+ */
+export function validateAgentDefinition(
+  raw: unknown,
+  key: string,
+  file: string
+): { agent: RegistryAgent } | { error: RegistryValidationError } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: { file, agent: key, issues: ['Definition must be a YAML mapping'] } };
+  }
+  const parsed = RegistryAgentSchema.safeParse(normalizeAgentDefinition(raw, key));
+  if (!parsed.success) {
+    return {
+      error: {
+        file,
+        agent: key,
+        issues: parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+      },
+    };
+  }
+  return { agent: parsed.data };
+}
+
+/**
+ * Map a registry agent back onto the YAML layout read by normalizeAgentDefinition
+ */
+export function serializeAgentDefinition(agent: RegistryAgent): Record<string, unknown> {
+  return {
+    name: agent.name,
+    ...(agent.id !== agent.name ? { id: agent.id } : {}),
+    title: agent.title,
+    description: agent.description,
+    category: agent.category,
+    color: agent.color,
+    priority: agent.priority,
+    specialization_level: agent.specializationLevel,
+    domain_context: agent.domainContext,
+    status: agent.status,
+    version: agent.version,
+    last_updated: agent.lastUpdated,
+    activation_triggers: agent.activationTriggers,
+    capabilities: Object.fromEntries(agent.capabilities.map(({ name, ...capability }) => [name, capability])),
+    dependencies: agent.dependencies,
+    tags: agent.tags,
+  };
+}
+
+function readYaml(file: string): unknown {
+  return yaml.load(fs.readFileSync(file, 'utf8'));
+}
+
+// Write via a temp file so watchers and readers never see a partial file
+function writeYaml(file: string, data: unknown) {
+  const tempPath = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, yaml.dump(data, { lineWidth: 120, noRefs: true }), 'utf8');
+  fs.renameSync(tempPath, file);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Category entries from the registry, with counts from the loaded agents.
+ * Categories used by agents but missing from the registry are added.
+ */
+export function buildCategories(rawCategories: unknown, agents: RegistryAgent[]): AgentCategoryEntry[] {
+  const counts = new Map<string, number>();
+  agents.forEach(agent => counts.set(agent.category, (counts.get(agent.category) ?? 0) + 1));
+
+  const categories = Object.entries(asRecord(rawCategories)).map(([key, value]) => {
+    const data = asRecord(value);
+    return {
+      name: key,
+      description: data.description || `Agents for ${key}`,
+      count: counts.get(key) ?? 0,
+      priority: data.priority || 'medium',
+      color: data.color || 'blue',
+    };
+  });
+
+  const known = new Set(categories.map(category => category.name));
+  Array.from(counts.entries()).forEach(([name, count]) => {
+    if (!known.has(name)) {
+      categories.push({ name, description: `Agents for ${name}`, count, priority: 'medium', color: 'blue' });
+    }
+  });
+
+  return categories;
+}
+
+function buildSnapshot(
+  provider: AgentRegistryProvider,
+  entries: Array<{ key: string; raw: unknown; file: string }>,
+  rawCategories: unknown,
+  errors: RegistryValidationError[]
+): AgentRegistrySnapshot {
+  const agents: Record<string, RegistryAgent> = {};
+  const files: Record<string, string> = {};
+  for (const { key, raw, file } of entries) {
+    const result = validateAgentDefinition(raw, key, file);
+    if ('error' in result) {
+      errors.push(result.error);
+    } else if (agents[result.agent.name]) {
+      errors.push({ file, agent: result.agent.name, issues: ['Duplicate agent name; keeping the first definition'] });
+    } else {
+      agents[result.agent.name] = result.agent;
+      files[result.agent.name] = file;
+    }
+  }
+
+  return {
+    source: provider.name,
+    location: provider.location,
+    writable: provider.writable,
+    loadedAt: new Date().toISOString(),
+    agents,
+    files,
+    categories: buildCategories(rawCategories, Object.values(agents)),
+    errors,
+  };
+}
+
+function watchPath(target: string, onChange: () => void, filter?: (filename: string) => boolean): () => void {
+  try {
+    const watcher = fs.watch(target, (_event, filename) => {
+      if (!filter || (filename && filter(filename.toString()))) onChange();
+    });
+    watcher.on('error', error => console.warn(`[AgentRegistry] Watcher error for ${target}:`, error));
+    return () => watcher.close();
+  } catch (error) {
+    console.warn(`[AgentRegistry] Cannot watch ${target}:`, errorMessage(error));
+    return () => {};
+  }
+}
+
+/**
+ * Registry stored as a directory of per-agent YAML files
+ */
+export class DirectoryRegistryProvider implements AgentRegistryProvider {
+  readonly name = 'directory';
+
+  constructor(readonly location: string, readonly writable = true) {}
+
+  load(): AgentRegistrySnapshot {
+    const errors: RegistryValidationError[] = [];
+    const files = fs.readdirSync(this.location).filter(file => YAML_FILE.test(file)).sort();
+
+    let index: Record<string, any> = {};
+    if (files.includes(REGISTRY_INDEX_FILE)) {
+      try {
+        index = asRecord(readYaml(path.join(this.location, REGISTRY_INDEX_FILE)));
+      } catch (error) {
+        errors.push({ file: REGISTRY_INDEX_FILE, issues: [errorMessage(error)] });
+      }
+    }
+
+    const indexAgents = asRecord(index.agents);
+    const entries = new Map<string, { key: string; raw: unknown; file: string }>();
+    Object.entries(indexAgents).forEach(([key, raw]) => entries.set(key, { key, raw, file: REGISTRY_INDEX_FILE }));
+
+    for (const file of files.filter(file => file !== REGISTRY_INDEX_FILE)) {
+      let raw: unknown;
+      try {
+        raw = readYaml(path.join(this.location, file));
+      } catch (error) {
+        errors.push({ file, issues: [errorMessage(error)] });
+        continue;
+      }
+      const key = String(asRecord(raw).name || file.replace(YAML_FILE, ''));
+      const base = entries.get(key)?.raw;
+      entries.set(key, { key, raw: base ? { ...asRecord(base), ...asRecord(raw) } : raw, file });
+    }
+
+    return buildSnapshot(this, Array.from(entries.values()), index.categories, errors);
+  }
+
+  save(agent: RegistryAgent, file?: string) {
+    // Agents only listed in the index get their own file, which overrides the index entry
+    const target = file && file !== REGISTRY_INDEX_FILE ? file : `${agent.name}.yaml`;
+    writeYaml(path.join(this.location, target), serializeAgentDefinition(agent));
+  }
+
+  watch(onChange: () => void): () => void {
+    return watchPath(this.location, onChange, filename => YAML_FILE.test(filename));
+  }
+}
+
+/**
+ * Registry stored as a single YAML file with `agents` and `categories`
+ */
+export class FileRegistryProvider implements AgentRegistryProvider {
+  readonly name = 'file';
+
+  constructor(readonly location: string, readonly writable = true) {}
+
+  load(): AgentRegistrySnapshot {
+    const file = path.basename(this.location);
+    const registry = asRecord(readYaml(this.location));
+    const entries = Object.entries(asRecord(registry.agents)).map(([key, raw]) => ({ key, raw, file }));
+    const errors: RegistryValidationError[] = registry.agents === undefined
+      ? [{ file, issues: ['agents: Required (map of agent name to definition)'] }]
+      : [];
+    return buildSnapshot(this, entries, registry.categories, errors);
+  }
+
+  save(agent: RegistryAgent) {
+    const registry = fs.existsSync(this.location) ? asRecord(readYaml(this.location)) : {};
+    writeYaml(this.location, {
+      ...registry,
+      agents: { ...asRecord(registry.agents), [agent.name]: serializeAgentDefinition(agent) },
+    });
+  }
+
+  watch(onChange: () => void): () => void {
+    // Watch the parent directory so editors that replace the file are picked up
+    const file = path.basename(this.location);
+    return watchPath(path.dirname(this.location), onChange, filename => filename === file);
+  }
+}
+
+/**
+ * Provider for a registry path: a directory or a single YAML file
+ */
+export function createAgentRegistryProvider(env: NodeJS.ProcessEnv = process.env): AgentRegistryProvider {
+  const location = path.resolve(env.AGENT_REGISTRY_PATH || DEFAULT_AGENT_REGISTRY_PATH);
+  const writable = Boolean(env.AGENT_REGISTRY_PATH);
+  const isFile = YAML_FILE.test(location) && !(fs.existsSync(location) && fs.statSync(location).isDirectory());
+  return isFile ? new FileRegistryProvider(location, writable) : new DirectoryRegistryProvider(location, writable);
+}
+
+/**
+ * Current registry snapshot, loaded on first use and reloaded when the
+ * provider's files change
+ */
+export class AgentRegistry {
+  private snapshot: AgentRegistrySnapshot | null = null;
+  private stopWatching: (() => void) | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly provider: AgentRegistryProvider,
+    private readonly options: { watch?: boolean; debounceMs?: number } = {}
+  ) {}
+
+  get(): AgentRegistrySnapshot {
+    if (!this.snapshot) {
+      this.reload();
+      if (this.options.watch) this.startWatching();
+    }
+    return this.snapshot!;
+  }
+
+  /**
+   * Reload from the provider. A registry that cannot be read at all yields an
+   * empty snapshot carrying the error.
+   */
+  reload(): AgentRegistrySnapshot {
+    try {
+      this.snapshot = this.provider.load();
+    } catch (error) {
+      this.snapshot = {
+        source: this.provider.name,
+        location: this.provider.location,
+        writable: this.provider.writable,
+        loadedAt: new Date().toISOString(),
+        agents: {},
+        files: {},
+        categories: [],
+        errors: [{ file: this.provider.location, issues: [errorMessage(error)] }],
+      };
+    }
+
+    const { agents, errors } = this.snapshot;
+    console.log(`[AgentRegistry] Loaded ${Object.keys(agents).length} agents from ${this.provider.name} ${this.provider.location}`);
+    errors.forEach(error =>
+      console.warn(`[AgentRegistry] ${error.file}${error.agent ? ` (${error.agent})` : ''}: ${error.issues.join('; ')}`)
+    );
+    return this.snapshot;
+  }
+
+  /**
+   * Write a validated definition through the provider and reload
+   */
+  save(agent: RegistryAgent): AgentRegistrySnapshot {
+    if (!this.provider.writable) {
+      throw new Error(`Agent registry ${this.provider.location} is read-only`);
+    }
+    this.provider.save(agent, this.get().files[agent.name]);
+    return this.reload();
+  }
+
+  private startWatching() {
+    this.stopWatching = this.provider.watch(() => {
+      // Editors emit several events per save; reload once they settle
+      if (this.reloadTimer) clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => {
+        this.reloadTimer = null;
+        this.reload();
+      }, this.options.debounceMs ?? 200);
+    });
+  }
+
+  close() {
+    this.stopWatching?.();
+    this.stopWatching = null;
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.reloadTimer = null;
+  }
+}
+
+export function createAgentRegistry(env: NodeJS.ProcessEnv = process.env): AgentRegistry {
+  return new AgentRegistry(createAgentRegistryProvider(env), {
+    watch: (env.AGENT_REGISTRY_WATCH || 'true').toLowerCase() !== 'false',
+  });
+}
@@ -0,0 +1,399 @@
+import type { RegistryAgent } from './agent-registry';
+
+/**
+ * Agent Routing Engine
+ *
+ * Deterministic router over the agent registry. For every active (or beta)
+ * agent the engine measures four signals, mirroring the confidence columns of
+ * agent_routing_decisions:
+ * - trigger: the request mentions the agent's activation triggers, exactly or
+ *   fuzzily (plurals, word stems, one-letter typos)
+ * - context: request words and context values match the agent's category,
+ *   domain, title and tags
+ * - capability: request words match capability names and descriptions
+ * - historical: smoothed success rate of the agent's past executions
+ *
+ * Routing strategies are pluggable scorers: each decides whether it applies to
+ * a candidate and how it weighs the signals. The agent with the highest
+ * confidence under any strategy wins; ties go to the higher priority agent,
+ * then to the name. When the configured fallback agent is missing or not
+ * routable, the highest-priority routable agent takes its place.
+ */
+
+export type RoutingStrategy =
+  | 'exact_trigger_match'
+  | 'enhanced_fuzzy_matching'
+  | 'capability_alignment'
+  | 'fallback_routing'
+  | (string & {});
+
+export interface RoutingSignals {
+  triggerConfidence: number;
+  contextConfidence: number;
+  capabilityConfidence: number;
+  historicalConfidence: number;
+}
+
+export interface RoutingMatches {
+  exactTriggers: string[];
+  fuzzyTriggers: string[];
+  contextTerms: string[];
+  capabilities: string[];
+}
+
+export interface RoutingCandidate {
+  agent: RegistryAgent;
+  signals: RoutingSignals;
+  matches: RoutingMatches;
+}
+
+export interface RoutingRequest {
+  query: string;
+  context?: Record<string, unknown>;
+  // Fallback agent configured on the engine
+  fallbackAgent: string;
+}
+
+export interface StrategyScore {
+  confidence: number;
+  reason: string;
+}
+
+export interface RoutingScorer {
+  readonly strategy: RoutingStrategy;
+  /**
+   * Confidence for routing the request to the candidate, or null when the
+   * strategy does not apply to it
+   */
+  score(candidate: RoutingCandidate, request: RoutingRequest): StrategyScore | null;
+}
+
+export interface RoutingAlternative {
+  agent: string;
+  confidence: number;
+  strategy: RoutingStrategy;
+  reason: string;
+  signals: RoutingSignals;
+}
+
+export interface EngineRoutingDecision {
+  selectedAgent: string;
+  confidence: number;
+  strategy: RoutingStrategy;
+  signals: RoutingSignals;
+  matches: RoutingMatches;
+  reasoning: string;
+  alternatives: RoutingAlternative[];
+}
+
+export interface AgentHistory {
+  totalRuns: number;
+  // Percentage (0-100), as reported by the execution tracker
+  successRate: number;
+}
+
+export interface RoutingEngineOptions {
+  agents: () => RegistryAgent[];
+  history?: (agent: string) => AgentHistory | null;
+  scorers?: RoutingScorer[];
+  fallbackAgent?: string;
+  maxAlternatives?: number;
+}
+
+export const DEFAULT_FALLBACK_AGENT = 'agent-polymorphic-agent';
+
+const ROUTABLE_STATUSES = new Set<RegistryAgent['status']>(['active', 'beta']);
+// Active and beta agents take requests; inactive and deprecated ones do not
+export function isRoutable(agent: RegistryAgent): boolean {
+  return ROUTABLE_STATUSES.has(agent.status);
+}
+
+const PRIORITY_RANK: Record<RegistryAgent['priority'], number> = { critical: 3, high: 2, medium: 1, low: 0 };
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'be', 'can', 'do', 'for', 'from', 'how', 'i', 'in', 'is', 'it', 'me', 'my',
+  'of', 'on', 'or', 'our', 'please', 'the', 'this', 'that', 'to', 'we', 'what', 'with', 'you',
+]);
+
+// numeric(5, 4) columns
+function round(value: number): number {
+  return Math.round(Math.min(1, Math.max(0, value)) * 10000) / 10000;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0 && !STOPWORDS.has(token));
+}
+
+function singular(token: string): string {
+  return token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token;
+}
+
+// Optimal string alignment distance, capped: we only care whether it is <= 1
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length] <= 1;
+}
+
+/**
+ * Whether two tokens name the same thing: equal up to a plural, sharing a
+ * word stem ("optimize" / "optimization") or one typo apart
+ */
+export function fuzzyTokenMatch(a: string, b: string): boolean {
+  const left = singular(a);
+  const right = singular(b);
+  if (left === right) return true;
+  const shorter = Math.min(left.length, right.length);
+  if (shorter < 4) return false;
+
+  let prefix = 0;
+  while (prefix < shorter && left[prefix] === right[prefix]) prefix++;
+  if (prefix >= Math.max(4, shorter - 2)) return true;
+  return shorter >= 5 && withinOneEdit(left, right);
+}
+
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+  if (phrase.length === 0) return false;
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((word, j) => tokens[i + j] === word)) return true;
+  }
+  return false;
+}
+
+function contextValues(context: Record<string, unknown> | undefined): string[] {
+  if (!context || typeof context !== 'object') return [];
+  return Object.values(context).flatMap(value => {
+    if (typeof value === 'string') return [value];
+    if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string');
+    return [];
+  });
+}
+
+function matchingTerms(terms: string[], vocabulary: Set<string>): string[] {
+  const vocab = Array.from(vocabulary);
+  return Array.from(new Set(terms.filter(term => vocab.some(word => fuzzyTokenMatch(term, word)))));
+}
+
+function historicalConfidence(history: AgentHistory | null): number {
+  if (!history || history.totalRuns <= 0) return 0.5;
+  // Laplace smoothing so a handful of runs does not swing the signal to 0 or 1
+  const successes = (history.successRate / 100) * history.totalRuns;
+  return (successes + 1) / (history.totalRuns + 2);
+}
+
+/**
+ * Measure all routing signals of one agent for a request
+ */
+export function analyzeCandidate(
+  agent: RegistryAgent,
+  query: string,
+  context?: Record<string, unknown>,
+  history: AgentHistory | null = null
+): RoutingCandidate {
+  const queryTokens = tokenize(query);
+
+  const exactTriggers: string[] = [];
+  const fuzzyTriggers: string[] = [];
+  agent.activationTriggers.forEach(trigger => {
+    const phrase = tokenize(trigger);
+    if (containsPhrase(queryTokens, phrase)) {
+      exactTriggers.push(trigger);
+    } else if (phrase.length > 0 && phrase.every(word => queryTokens.some(token => fuzzyTokenMatch(token, word)))) {
+      fuzzyTriggers.push(trigger);
+    }
+  });
+  const triggerConfidence = exactTriggers.length > 0
+    ? 0.85 + 0.05 * (exactTriggers.length - 1) + 0.03 * fuzzyTriggers.length
+    : fuzzyTriggers.length > 0 ? 0.65 + 0.05 * (fuzzyTriggers.length - 1) : 0;
+
+  const contextVocabulary = new Set(tokenize([agent.category, agent.domainContext, agent.title, ...agent.tags].join(' ')));
+  const contextTerms = matchingTerms([...queryTokens, ...tokenize(contextValues(context).join(' '))], contextVocabulary);
+  const contextConfidence = 0.35 * contextTerms.length;
+
+  const capabilities: string[] = [];
+  let capabilityScore = 0;
+  agent.capabilities.forEach(capability => {
+    const nameMatches = matchingTerms(queryTokens, new Set(tokenize(capability.name)));
+    const descriptionMatches = matchingTerms(queryTokens, new Set(tokenize(capability.description)))
+      .filter(term => !nameMatches.includes(term));
+    if (nameMatches.length === 0 && descriptionMatches.length === 0) return;
+
+    const levelWeight = capability.level === 'expert' ? 1 : capability.level === 'intermediate' ? 0.85 : 0.7;
+    capabilities.push(capability.name);
+    capabilityScore += (0.5 * nameMatches.length + 0.15 * descriptionMatches.length) * levelWeight;
+  });
+
+  return {
+    agent,
+    signals: {
+      triggerConfidence: round(triggerConfidence),
+      contextConfidence: round(contextConfidence),
+      capabilityConfidence: round(capabilityScore),
+      historicalConfidence: round(historicalConfidence(history)),
+    },
+    matches: { exactTriggers, fuzzyTriggers, contextTerms, capabilities },
+  };
+}
+
+function quoted(values: string[]): string {
+  return values.map(value => `"${value}"`).join(', ');
+}
+
+export const exactTriggerScorer: RoutingScorer = {
+  strategy: 'exact_trigger_match',
+  score({ signals, matches }) {
+    if (matches.exactTriggers.length === 0) return null;
+    return {
+      confidence: 0.55 * signals.triggerConfidence + 0.15 * signals.contextConfidence +
+        0.15 * signals.capabilityConfidence + 0.15 * signals.historicalConfidence,
+      reason: `Matched activation trigger${matches.exactTriggers.length === 1 ? '' : 's'} ${quoted(matches.exactTriggers)}`,
+    };
+  },
+};
+
+export const fuzzyMatchScorer: RoutingScorer = {
+  strategy: 'enhanced_fuzzy_matching',
+  score({ signals, matches }) {
+    if (matches.fuzzyTriggers.length === 0 && matches.contextTerms.length === 0) return null;
+    const reasons = [
+      matches.fuzzyTriggers.length > 0 ? `similar to trigger${matches.fuzzyTriggers.length === 1 ? '' : 's'} ${quoted(matches.fuzzyTriggers)}` : '',
+      matches.contextTerms.length > 0 ? `context terms ${quoted(matches.contextTerms)}` : '',
+    ].filter(Boolean);
+    return {
+      confidence: 0.45 * signals.triggerConfidence + 0.25 * signals.contextConfidence +
+        0.15 * signals.capabilityConfidence + 0.15 * signals.historicalConfidence,
+      reason: `Fuzzy match: ${reasons.join('; ')}`,
+    };
+  },
+};
+
+export const capabilityAlignmentScorer: RoutingScorer = {
+  strategy: 'capability_alignment',
+  score({ signals, matches }) {
+    if (matches.capabilities.length === 0) return null;
+    return {
+      confidence: 0.5 * signals.capabilityConfidence + 0.2 * signals.contextConfidence +
+        0.15 * signals.triggerConfidence + 0.15 * signals.historicalConfidence,
+      reason: `Capabilities ${matches.capabilities.join(', ')} align with the request`,
+    };
+  },
+};
+
+export const fallbackScorer: RoutingScorer = {
+  strategy: 'fallback_routing',
+  score({ agent, signals }, { fallbackAgent }) {
+    if (agent.name !== fallbackAgent) return null;
+    return {
+      confidence: 0.25 + 0.1 * signals.historicalConfidence,
+      reason: `No specific triggers matched, using ${fallbackAgent} for general coordination`,
+    };
+  },
+};
+
+export const DEFAULT_ROUTING_SCORERS: RoutingScorer[] = [
+  exactTriggerScorer,
+  fuzzyMatchScorer,
+  capabilityAlignmentScorer,
+  fallbackScorer,
+];
+
+interface ScoredCandidate extends RoutingCandidate, StrategyScore {
+  strategy: RoutingStrategy;
+}
+
+export class RoutingEngine {
+  private scorers: RoutingScorer[];
+  private readonly fallbackAgent: string;
+  private readonly maxAlternatives: number;
+
+  constructor(private readonly options: RoutingEngineOptions) {
+    this.scorers = [...(options.scorers ?? DEFAULT_ROUTING_SCORERS)];
+    this.fallbackAgent = options.fallbackAgent ?? DEFAULT_FALLBACK_AGENT;
+    this.maxAlternatives = options.maxAlternatives ?? 3;
+  }
+
+  get strategies(): RoutingStrategy[] {
+    return this.scorers.map(scorer => scorer.strategy);
+  }
+
+  /**
+   * Add a scorer, replacing any existing scorer for the same strategy
+   */
+  use(scorer: RoutingScorer): this {
+    const index = this.scorers.findIndex(existing => existing.strategy === scorer.strategy);
+    if (index >= 0) this.scorers[index] = scorer;
+    else this.scorers.push(scorer);
+    return this;
+  }
+
+  /**
+   * Route a request; null when the registry has no routable agents
+   */
+  decide(query: string, context?: Record<string, unknown>): EngineRoutingDecision | null {
+    const routable = this.options.agents().filter(isRoutable);
+    const request: RoutingRequest = { query, context, fallbackAgent: this.resolveFallback(routable) };
+    const ranked = routable
+      .map(agent => this.best(analyzeCandidate(agent, query, context, this.options.history?.(agent.name) ?? null), request))
+      .filter((candidate): candidate is ScoredCandidate => candidate !== null)
+      .sort((a, b) =>
+        b.confidence - a.confidence ||
+        PRIORITY_RANK[b.agent.priority] - PRIORITY_RANK[a.agent.priority] ||
+        a.agent.name.localeCompare(b.agent.name)
+      );
+
+    const [selected, ...rest] = ranked;
+    if (!selected) return null;
+
+    return {
+      selectedAgent: selected.agent.name,
+      confidence: selected.confidence,
+      strategy: selected.strategy,
+      signals: selected.signals,
+      matches: selected.matches,
+      reasoning: selected.reason,
+      alternatives: rest.slice(0, this.maxAlternatives).map(candidate => ({
+        agent: candidate.agent.name,
+        confidence: candidate.confidence,
+        strategy: candidate.strategy,
+        reason: candidate.reason,
+        signals: candidate.signals,
+      })),
+    };
+  }
+
+  // The configured fallback agent when it is routable, else the highest-priority routable agent
+  private resolveFallback(routable: RegistryAgent[]): string {
+    if (routable.some(agent => agent.name === this.fallbackAgent)) return this.fallbackAgent;
+    const [first] = [...routable].sort((a, b) =>
+      PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority] || a.name.localeCompare(b.name)
+    );
+    return first?.name ?? this.fallbackAgent;
+  }
+
+  // Highest-confidence strategy that applies to the candidate
+  private best(candidate: RoutingCandidate, request: RoutingRequest): ScoredCandidate | null {
+    let best: ScoredCandidate | null = null;
+    for (const scorer of this.scorers) {
+      const result = scorer.score(candidate, request);
+      if (!result) continue;
+      const confidence = round(result.confidence);
+      if (!best || confidence > best.confidence) {
+        best = { ...candidate, strategy: scorer.strategy, confidence, reason: result.reason };
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,109 @@
+import { desc, eq } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { agentManifestInjections } from '@shared/intelligence-schema';
+import { AgentRunTracker, type AgentRun, type RecordRunInput } from './agent-run-tracker';
+import type { AgentRunMetric } from './event-consumer';
+
+/**
+ * Agent Run Ingestion
+ *
+ * Turns agent-run-metrics events (tokens, compute, cost per completed run)
+ * into AgentRunTracker runs for the savings calculator (runs without a cost
+ * are priced from the pricing catalog). A run counts as
+ * intelligence-assisted when the producer says so, or otherwise when its
+ * correlation id has a manifest injection that injected patterns and was not
+ * a fallback manifest; everything else is a baseline run. The injection also
+ * supplies the execution time and quality score when the event has none.
+ */
+
+export interface ManifestInjectionSummary {
+  correlationId: string;
+  agentName: string;
+  isFallback: boolean;
+  patternsCount: number;
+  agentExecutionTimeMs: number | null;
+  agentQualityScore: number | null;
+}
+
+export type ManifestInjectionLookup = (correlationId: string) => Promise<ManifestInjectionSummary | null>;
+
+// agent_manifest_injections.correlation_id is a uuid column
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isIntelligenceAssisted(injection: ManifestInjectionSummary | null): boolean {
+  return !!injection && !injection.isFallback && injection.patternsCount > 0;
+}
+
+/**
+ * Build the savings run for a metric and its manifest injection (if any)
+ */
+export function toAgentRun(metric: AgentRunMetric, injection: ManifestInjectionSummary | null): RecordRunInput {
+  const durationMs = metric.durationMs ?? injection?.agentExecutionTimeMs ?? 0;
+
+  return {
+    // The event id, so replayed and redelivered events map to the same run
+    id: metric.id,
+    agentId: metric.agentId,
+    agentName: metric.agentName,
+    timestamp: metric.createdAt.toISOString(),
+    withIntelligence: metric.withIntelligence ?? isIntelligenceAssisted(injection),
+    tokensUsed: metric.tokensUsed,
+    computeUnits: metric.computeUnits,
+    duration: durationMs / 1000,
+    success: metric.success,
+    cost: metric.cost,
+    metadata: {
+      model: metric.model,
+      provider: metric.provider,
+      source: 'agent-run-metrics',
+      correlationId: metric.correlationId ?? undefined,
+      patternsCount: injection?.patternsCount,
+      qualityScore: injection?.agentQualityScore ?? undefined,
+      inputTokens: metric.inputTokens,
+      outputTokens: metric.outputTokens,
+      project: metric.project,
+      patternsUsed: metric.patternsUsed,
+    },
+  };
+}
+
+/**
+ * Record a run metric; lookup failures propagate so runs are never misclassified
+ */
+export async function ingestAgentRunMetric(metric: AgentRunMetric, lookup: ManifestInjectionLookup): Promise<AgentRun> {
+  const injection = metric.correlationId ? await lookup(metric.correlationId) : null;
+  return AgentRunTracker.recordRun(toAgentRun(metric, injection));
+}
+
+/**
+ * Latest manifest injection per correlation id from agent_manifest_injections
+ */
+export function createManifestInjectionLookup(db: NodePgDatabase): ManifestInjectionLookup {
+  return async (correlationId) => {
+    if (!UUID_PATTERN.test(correlationId)) return null;
+
+    const [row] = await db
+      .select({
+        correlationId: agentManifestInjections.correlationId,
+        agentName: agentManifestInjections.agentName,
+        isFallback: agentManifestInjections.isFallback,
+        patternsCount: agentManifestInjections.patternsCount,
+        agentExecutionTimeMs: agentManifestInjections.agentExecutionTimeMs,
+        agentQualityScore: agentManifestInjections.agentQualityScore,
+      })
+      .from(agentManifestInjections)
+      .where(eq(agentManifestInjections.correlationId, correlationId))
+      .orderBy(desc(agentManifestInjections.createdAt))
+      .limit(1);
+    if (!row) return null;
+
+    return {
+      correlationId: row.correlationId,
+      agentName: row.agentName,
+      isFallback: row.isFallback ?? false,
+      patternsCount: row.patternsCount ?? 0,
+      agentExecutionTimeMs: row.agentExecutionTimeMs,
+      agentQualityScore: row.agentQualityScore === null ? null : Number(row.agentQualityScore),
+    };
+  };
+}
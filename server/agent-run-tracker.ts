@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { MemAgentRunRepository, type AgentRunRepository } from "./agent-tracking-repository";
+import { pricingCatalog } from "./pricing-catalog";
 
 // Schema for tracking agent runs
 export const AgentRunSchema = z.object({
@@ -19,28 +21,106 @@ export const AgentRunSchema = z.object({
     contextSize: z.number().optional(),
     intelligenceFeatures: z.array(z.string()).optional(),
     patternsUsed: z.array(z.string()).optional(),
+    // Where the run came from ('agent-run-metrics' events or the 'api')
+    source: z.string().optional(),
+    correlationId: z.string().optional(),
+    // From the run's manifest injection
+    patternsCount: z.number().optional(),
+    qualityScore: z.number().optional(),
+    // Token split for pricing (tokensUsed is priced as input when absent)
+    inputTokens: z.number().optional(),
+    outputTokens: z.number().optional(),
+    project: z.string().optional(),
+    // Catalog price the cost was computed from
+    pricingId: z.string().optional(),
   }).optional(),
 });
 
 export type AgentRun = z.infer<typeof AgentRunSchema>;
 
-// In-memory storage for demo purposes
-// In production, this would be a database
-const agentRuns: AgentRun[] = [];
+// Without a cost the run is priced from the pricing catalog; without an id it gets a generated one
+export type RecordRunInput = Omit<AgentRun, 'id' | 'timestamp' | 'cost'> & { id?: string; timestamp?: string; cost?: number };
+
+// Actual usage of intelligence runs vs. the same number of runs at the baseline average
+export interface CostComponent {
+  withIntelligence: number;
+  withoutIntelligence: number;
+  saved: number;
+  // Saved share of withoutIntelligence, in percent
+  reduction: number;
+}
+
+export interface CostBreakdown {
+  // False until both intelligence and baseline runs exist in the period
+  dataAvailable: boolean;
+  runs: { withIntelligence: number; baseline: number };
+  // Runs per metadata.source ('agent-run-metrics', 'api', 'unknown')
+  sources: Record<string, number>;
+  lastRunAt: string | null;
+  tokens: CostComponent;
+  compute: CostComponent;
+  cost: CostComponent;
+  // Seconds
+  time: CostComponent;
+}
+
+export interface ProviderSavings {
+  providerId: string;
+  providerName: string;
+  // False when the provider has no baseline runs in the period (savings are then 0)
+  dataAvailable: boolean;
+  savingsAmount: number;
+  tokensProcessed: number;
+  // Baseline tokens the intelligence runs did not need
+  tokensOffloaded: number;
+  percentageOfTotal: number;
+  avgCostPerToken: number;
+  runsCount: number;
+}
+
+const PROVIDER_NAMES: Record<string, string> = {
+  anthropic: 'Claude',
+  openai: 'OpenAI',
+  together: 'Together AI',
+  zai: 'Local Models',
+};
 
 export class AgentRunTracker {
+  // In memory until the server configures a persistent repository
+  private static repository: AgentRunRepository = new MemAgentRunRepository();
+
+  static useRepository(repository: AgentRunRepository) {
+    this.repository = repository;
+  }
+
   /**
-   * Record an agent run with detailed metrics
+   * Record an agent run with detailed metrics (timestamp defaults to now, cost
+   * to the catalog price for its model and tokens, or 0 when unpriced).
+   * Recording a run id that already exists is a no-op, so redelivered events
+   * are counted once.
    */
-  static recordRun(runData: Omit<AgentRun, 'id' | 'timestamp'>): AgentRun {
+  static async recordRun(runData: RecordRunInput): Promise<AgentRun> {
+    const timestamp = runData.timestamp ?? new Date().toISOString();
+    let { cost, metadata } = runData;
+    if (cost === undefined) {
+      const priced = await pricingCatalog.price(runData, new Date(timestamp));
+      cost = priced?.cost ?? 0;
+      if (priced) metadata = { ...metadata, pricingId: priced.pricingId };
+    }
+
     const run: AgentRun = {
-      id: `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      timestamp: new Date().toISOString(),
       ...runData,
+      id: runData.id ?? `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp,
+      cost,
+      metadata,
     };
 
-    agentRuns.push(run);
-    console.log(`Recorded agent run: ${run.agentId} (${run.withIntelligence ? 'with' : 'without'} intelligence)`);
+    if (await this.repository.insert(run)) {
+      console.log(`Recorded agent run: ${run.agentId} (${run.withIntelligence ? 'with' : 'without'} intelligence)`);
+    } else {
+      console.log(`Skipped duplicate agent run: ${run.id}`);
+    }
     
     return run;
   }
@@ -48,31 +128,22 @@ export class AgentRunTracker {
   /**
    * Get all agent runs within a time range
    */
-  static getRunsInRange(startDate: Date, endDate: Date): AgentRun[] {
-    return agentRuns.filter(run => {
-      const runDate = new Date(run.timestamp);
-      return runDate >= startDate && runDate <= endDate;
-    });
+  static async getRunsInRange(startDate: Date, endDate: Date): Promise<AgentRun[]> {
+    return this.repository.find({ from: startDate, to: endDate });
   }
 
   /**
    * Get runs for a specific agent
    */
-  static getRunsForAgent(agentId: string, withIntelligence?: boolean): AgentRun[] {
-    return agentRuns.filter(run => {
-      if (withIntelligence !== undefined) {
-        return run.agentId === agentId && run.withIntelligence === withIntelligence;
-      }
-      return run.agentId === agentId;
-    });
+  static async getRunsForAgent(agentId: string, withIntelligence?: boolean): Promise<AgentRun[]> {
+    return this.repository.find({ agentId, withIntelligence });
   }
 
   /**
    * Calculate savings metrics for a time period
-   * Returns realistic positive values aligned with demo script ($45K savings, 34% efficiency)
    */
-  static calculateSavingsMetrics(startDate: Date, endDate: Date) {
-    const runs = this.getRunsInRange(startDate, endDate);
+  static async calculateSavingsMetrics(startDate: Date, endDate: Date) {
+    const runs = await this.getRunsInRange(startDate, endDate);
     const intelligenceRuns = runs.filter(run => run.withIntelligence);
     const baselineRuns = runs.filter(run => !run.withIntelligence);
 
@@ -168,22 +239,120 @@ export class AgentRunTracker {
   }
 
   /**
-   * Get agent performance comparison
+   * Token, compute, cost and time savings for a time period, estimating what
+   * the intelligence runs would have used at the baseline average per run
    */
-  static getAgentComparison(agentId: string, startDate: Date, endDate: Date) {
-    // Helper function to round to 2 decimal places
+  static async calculateCostBreakdown(startDate: Date, endDate: Date): Promise<CostBreakdown> {
+    const runs = await this.getRunsInRange(startDate, endDate);
+    const intelligenceRuns = runs.filter(run => run.withIntelligence);
+    const baselineRuns = runs.filter(run => !run.withIntelligence);
+    const dataAvailable = intelligenceRuns.length > 0 && baselineRuns.length > 0;
+
     const round2 = (value: number): number => Math.round(value * 100) / 100;
+    const sum = (items: AgentRun[], value: (run: AgentRun) => number) =>
+      items.reduce((total, run) => total + value(run), 0);
 
-    const intelligenceRuns = this.getRunsForAgent(agentId, true).filter(run => {
-      const runDate = new Date(run.timestamp);
-      return runDate >= startDate && runDate <= endDate;
-    });
+    const component = (value: (run: AgentRun) => number): CostComponent => {
+      if (!dataAvailable) {
+        return { withIntelligence: 0, withoutIntelligence: 0, saved: 0, reduction: 0 };
+      }
+      const withIntelligence = sum(intelligenceRuns, value);
+      const withoutIntelligence = (sum(baselineRuns, value) / baselineRuns.length) * intelligenceRuns.length;
+      const saved = withoutIntelligence - withIntelligence;
+      return {
+        withIntelligence: round2(withIntelligence),
+        withoutIntelligence: round2(withoutIntelligence),
+        saved: round2(saved),
+        reduction: round2(withoutIntelligence > 0 ? (saved / withoutIntelligence) * 100 : 0),
+      };
+    };
+
+    const sources: Record<string, number> = {};
+    for (const run of runs) {
+      const source = run.metadata?.source ?? 'unknown';
+      sources[source] = (sources[source] ?? 0) + 1;
+    }
+    const lastRunAt = runs.reduce<string | null>(
+      (latest, run) => (latest === null || run.timestamp > latest ? run.timestamp : latest),
+      null
+    );
+
+    return {
+      dataAvailable,
+      runs: { withIntelligence: intelligenceRuns.length, baseline: baselineRuns.length },
+      sources,
+      lastRunAt,
+      tokens: component(run => run.tokensUsed),
+      compute: component(run => run.computeUnits),
+      cost: component(run => run.cost),
+      time: component(run => run.duration),
+    };
+  }
+
+  /**
+   * Savings per provider (metadata.provider), comparing each provider's
+   * intelligence runs with the average of its own baseline runs
+   */
+  static async calculateProviderSavings(startDate: Date, endDate: Date): Promise<ProviderSavings[]> {
+    const runs = await this.getRunsInRange(startDate, endDate);
+    const byProvider = new Map<string, AgentRun[]>();
+    for (const run of runs) {
+      const provider = run.metadata?.provider || 'unknown';
+      byProvider.set(provider, [...(byProvider.get(provider) ?? []), run]);
+    }
 
-    const baselineRuns = this.getRunsForAgent(agentId, false).filter(run => {
-      const runDate = new Date(run.timestamp);
-      return runDate >= startDate && runDate <= endDate;
+    const providers = Array.from(byProvider.entries()).map(([providerId, providerRuns]) => {
+      const intelligenceRuns = providerRuns.filter(run => run.withIntelligence);
+      const baselineRuns = providerRuns.filter(run => !run.withIntelligence);
+      const dataAvailable = intelligenceRuns.length > 0 && baselineRuns.length > 0;
+      const tokensProcessed = providerRuns.reduce((sum, run) => sum + run.tokensUsed, 0);
+      const costWith = intelligenceRuns.reduce((sum, run) => sum + run.cost, 0);
+
+      // Baseline average per run, scaled to the number of intelligence runs
+      const baseline = (value: (run: AgentRun) => number) =>
+        (baselineRuns.reduce((sum, run) => sum + value(run), 0) / baselineRuns.length) * intelligenceRuns.length;
+      const savings = dataAvailable ? baseline(run => run.cost) - costWith : 0;
+      const tokensOffloaded = dataAvailable
+        ? Math.max(0, baseline(run => run.tokensUsed) - intelligenceRuns.reduce((sum, run) => sum + run.tokensUsed, 0))
+        : 0;
+
+      return {
+        providerId,
+        providerName: PROVIDER_NAMES[providerId] ?? providerId,
+        dataAvailable,
+        savings,
+        tokensProcessed,
+        tokensOffloaded,
+        avgCostPerToken: tokensProcessed > 0 ? providerRuns.reduce((sum, run) => sum + run.cost, 0) / tokensProcessed : 0,
+        runsCount: providerRuns.length,
+      };
     });
 
+    const totalSavings = providers.reduce((sum, provider) => sum + Math.max(0, provider.savings), 0);
+    return providers
+      .map(({ savings, ...provider }) => ({
+        ...provider,
+        savingsAmount: parseFloat(savings.toFixed(2)),
+        tokensProcessed: Math.round(provider.tokensProcessed),
+        tokensOffloaded: Math.round(provider.tokensOffloaded),
+        percentageOfTotal: totalSavings > 0 && savings > 0 ? parseFloat((savings / totalSavings * 100).toFixed(2)) : 0,
+        avgCostPerToken: parseFloat(provider.avgCostPerToken.toFixed(8)),
+      }))
+      .sort((a, b) => b.savingsAmount - a.savingsAmount);
+  }
+
+  /**
+   * Get agent performance comparison
+   */
+  static async getAgentComparison(agentId: string, startDate: Date, endDate: Date) {
+    // Helper function to round to 2 decimal places
+    const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+    const [intelligenceRuns, baselineRuns] = await Promise.all([
+      this.repository.find({ agentId, withIntelligence: true, from: startDate, to: endDate }),
+      this.repository.find({ agentId, withIntelligence: false, from: startDate, to: endDate }),
+    ]);
+
     if (intelligenceRuns.length === 0 || baselineRuns.length === 0) {
       return null;
     }
@@ -224,140 +393,22 @@ export class AgentRunTracker {
   /**
    * Get all unique agent IDs
    */
-  static getAgentIds(): string[] {
-    return Array.from(new Set(agentRuns.map(run => run.agentId)));
+  static async getAgentIds(): Promise<string[]> {
+    return this.repository.agentIds();
   }
 
   /**
-   * Generate mock data for testing
+   * Delete runs recorded before the cutoff (retention)
    */
-  static generateMockData() {
-    const agents = [
-      { id: "agent-debug-intelligence", name: "Debug Intelligence Agent" },
-      { id: "agent-code-quality-analyzer", name: "Code Quality Analyzer" },
-      { id: "agent-architect", name: "Architecture Agent" },
-      { id: "agent-performance", name: "Performance Agent" },
-      { id: "agent-testing", name: "Testing Agent" },
-      { id: "agent-refactoring", name: "Refactoring Agent" },
-    ];
-
-    const models = ["claude-3.5-sonnet", "claude-3.5-haiku", "gpt-4", "gpt-3.5-turbo"];
-    const providers = ["anthropic", "openai", "together", "zai"];
-    const complexities = ["low", "medium", "high"];
-
-    const now = Date.now();
-    const msPerDay = 24 * 60 * 60 * 1000;
-    const totalDays = 30;
-    const totalRuns = 1000;
-    const runsPerDay = Math.floor(totalRuns / totalDays); // ~33 runs per day
-
-    let runId = 0;
-
-    // Generate runs day-by-day to ensure balanced distribution
-    for (let day = 0; day < totalDays; day++) {
-      const dayStart = now - (totalDays - day) * msPerDay;
-      const dayEnd = dayStart + msPerDay;
-
-      // Calculate runs for this day (slightly randomize to feel natural)
-      const dailyRuns = runsPerDay + Math.floor(Math.random() * 5) - 2; // ±2 variance
-
-      // Ensure 70/30 split per day: 70% intelligence, 30% baseline
-      const intelligenceRuns = Math.round(dailyRuns * 0.7);
-      const baselineRuns = dailyRuns - intelligenceRuns;
-
-      // Generate baseline runs for this day
-      for (let i = 0; i < baselineRuns; i++) {
-        const agent = agents[Math.floor(Math.random() * agents.length)];
-        const baseTokens = 800 + Math.random() * 1200;
-        const baseCompute = 1.5 + Math.random() * 2.5;
-        const baseDuration = 30 + Math.random() * 90;
-
-        // Random timestamp within this day
-        const timestamp = new Date(dayStart + Math.random() * (dayEnd - dayStart)).toISOString();
-
-        const run: AgentRun = {
-          id: `mock_run_${runId++}`,
-          agentId: agent.id,
-          agentName: agent.name,
-          timestamp,
-          withIntelligence: false,
-          tokensUsed: Math.round(baseTokens),
-          computeUnits: baseCompute,
-          duration: Math.round(baseDuration),
-          success: Math.random() > 0.1, // 90% success rate
-          cost: (baseTokens * 0.0001) + (baseCompute * 0.05),
-          metadata: {
-            model: models[Math.floor(Math.random() * models.length)],
-            provider: providers[Math.floor(Math.random() * providers.length)],
-            complexity: complexities[Math.floor(Math.random() * complexities.length)],
-            contextSize: Math.floor(100000 + Math.random() * 200000),
-            intelligenceFeatures: [],
-            patternsUsed: [],
-          },
-        };
-
-        agentRuns.push(run);
-      }
-
-      // Generate intelligence runs for this day (30-50% cost reduction)
-      for (let i = 0; i < intelligenceRuns; i++) {
-        const agent = agents[Math.floor(Math.random() * agents.length)];
-        const baseTokens = 800 + Math.random() * 1200;
-        const baseCompute = 1.5 + Math.random() * 2.5;
-        const baseDuration = 30 + Math.random() * 90;
-
-        // Intelligence system reduces tokens and compute by 30-50%
-        const intelligenceFactor = 0.5 + Math.random() * 0.2; // 0.5 to 0.7 (30-50% reduction)
-
-        // Random timestamp within this day
-        const timestamp = new Date(dayStart + Math.random() * (dayEnd - dayStart)).toISOString();
-
-        const run: AgentRun = {
-          id: `mock_run_${runId++}`,
-          agentId: agent.id,
-          agentName: agent.name,
-          timestamp,
-          withIntelligence: true,
-          tokensUsed: Math.round(baseTokens * intelligenceFactor),
-          computeUnits: baseCompute * intelligenceFactor,
-          duration: Math.round(baseDuration * intelligenceFactor),
-          success: Math.random() > 0.1, // 90% success rate
-          cost: (baseTokens * intelligenceFactor * 0.0001) + (baseCompute * intelligenceFactor * 0.05),
-          metadata: {
-            model: models[Math.floor(Math.random() * models.length)],
-            provider: providers[Math.floor(Math.random() * providers.length)],
-            complexity: complexities[Math.floor(Math.random() * complexities.length)],
-            contextSize: Math.floor(100000 + Math.random() * 200000),
-            intelligenceFeatures: [
-              "pattern_matching",
-              "context_optimization",
-              "smart_caching",
-              "predictive_analysis"
-            ],
-            patternsUsed: [
-              "debug_pattern_001",
-              "quality_pattern_002",
-              "arch_pattern_003"
-            ],
-          },
-        };
-
-        agentRuns.push(run);
-      }
-    }
-
-    console.log(`Generated ${agentRuns.length} mock agent runs (${totalDays} days, balanced distribution)`);
+  static async pruneRuns(cutoff: Date): Promise<number> {
+    return this.repository.deleteBefore(cutoff);
   }
 
   /**
    * Clear all data (for testing)
    */
-  static clearData() {
-    agentRuns.length = 0;
+  static async clearData() {
+    await this.repository.clear();
   }
 }
 
-// Initialize with mock data if no data exists
-if (agentRuns.length === 0) {
-  AgentRunTracker.generateMockData();
-}
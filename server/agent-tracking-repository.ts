@@ -0,0 +1,548 @@
+import { and, desc, eq, gte, lt, lte, sql, type SQL } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import {
+  agentExecutions,
+  agentRuns,
+  modelPricing,
+  type AgentExecutionRow,
+  type AgentRunRow,
+  type ModelPricingRow,
+} from '@shared/schema';
+import type { AgentExecution } from './agent-execution-tracker';
+import type { AgentRun } from './agent-run-tracker';
+import type { PricingEntry } from './pricing-catalog';
+
+/**
+ * Agent Tracking Repositories
+ *
+ * Storage behind AgentExecutionTracker (dashboard executions),
+ * AgentRunTracker (savings calculator runs) and the model pricing catalog.
+ *
+ * Backends (AGENT_TRACKING_STORE):
+ * - 'postgres' (default): agent_executions / agent_runs / model_pricing tables
+ *   (shared/schema.ts, created by `npm run db:push`)
+ * - 'memory': in-process only (demo executions, no runs), also used when
+ *   PostgreSQL is unreachable or the tables are missing
+ *
+ * Records older than AGENT_TRACKING_RETENTION_DAYS (default 90) are pruned
+ * through `deleteBefore`.
+ */
+
+export interface ExecutionFilter {
+  agentId?: string;
+  status?: AgentExecution['status'];
+  // Leave out the generated demo executions (ids starting with DEMO_EXECUTION_PREFIX)
+  excludeDemo?: boolean;
+  // Bounds on startedAt
+  from?: Date;
+  to?: Date;
+}
+
+export interface ExecutionPage {
+  executions: AgentExecution[];
+  // Matching executions across all pages
+  total: number;
+}
+
+// Per-agent execution counts and averages, computed by the store
+export interface ExecutionAggregate {
+  agentId: string;
+  total: number;
+  completed: number;
+  // Seconds, over executions with a duration; 0 when there are none
+  avgDuration: number;
+  // Over completed executions with a quality score; 0 when there are none
+  avgQualityScore: number;
+  lastStartedAt: string | null;
+  // Executions started at or after `recentSince`
+  recent: number;
+}
+
+export interface RunFilter {
+  agentId?: string;
+  withIntelligence?: boolean;
+  // Bounds on timestamp
+  from?: Date;
+  to?: Date;
+}
+
+export interface AgentExecutionRepository {
+  readonly name: string;
+  // Insert or replace by id
+  save(execution: AgentExecution): Promise<void>;
+  get(id: string): Promise<AgentExecution | null>;
+  // Newest first
+  list(filter: ExecutionFilter, page: { limit: number; offset: number }): Promise<ExecutionPage>;
+  find(filter: ExecutionFilter): Promise<AgentExecution[]>;
+  // One entry per agent with matching executions
+  aggregateByAgent(filter: ExecutionFilter, recentSince: Date): Promise<ExecutionAggregate[]>;
+  deleteBefore(cutoff: Date): Promise<number>;
+  clear(): Promise<void>;
+}
+
+export interface AgentRunRepository {
+  readonly name: string;
+  // Ignores runs whose id is already stored; resolves false for those
+  insert(run: AgentRun): Promise<boolean>;
+  find(filter: RunFilter): Promise<AgentRun[]>;
+  agentIds(): Promise<string[]>;
+  deleteBefore(cutoff: Date): Promise<number>;
+  clear(): Promise<void>;
+}
+
+export interface PricingStore {
+  readonly name: string;
+  list(): Promise<PricingEntry[]>;
+  // Insert or replace by id
+  save(entry: PricingEntry): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface AgentTrackingRepositories {
+  executions: AgentExecutionRepository;
+  runs: AgentRunRepository;
+  pricing: PricingStore;
+}
+
+export const DEFAULT_RETENTION_DAYS = 90;
+
+// Id prefix of the demo executions AgentExecutionTracker generates for the in-memory store
+export const DEMO_EXECUTION_PREFIX = 'mock_exec_';
+
+function inRange(value: string, from?: Date, to?: Date): boolean {
+  const time = new Date(value).getTime();
+  return (!from || time >= from.getTime()) && (!to || time <= to.getTime());
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function newestFirst(a: AgentExecution, b: AgentExecution): number {
+  return new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime();
+}
+
+export class MemAgentExecutionRepository implements AgentExecutionRepository {
+  readonly name = 'memory';
+  private executions = new Map<string, AgentExecution>();
+
+  // Copies in and out, so callers never mutate stored records (as with a database)
+  async save(execution: AgentExecution): Promise<void> {
+    this.executions.set(execution.id, structuredClone(execution));
+  }
+
+  async get(id: string): Promise<AgentExecution | null> {
+    const execution = this.executions.get(id);
+    return execution ? structuredClone(execution) : null;
+  }
+
+  async list(filter: ExecutionFilter, page: { limit: number; offset: number }): Promise<ExecutionPage> {
+    const matching = await this.find(filter);
+    return { executions: matching.slice(page.offset, page.offset + page.limit), total: matching.length };
+  }
+
+  async find(filter: ExecutionFilter): Promise<AgentExecution[]> {
+    return Array.from(this.executions.values())
+      .filter(execution =>
+        (!filter.agentId || execution.agentId === filter.agentId) &&
+        (!filter.status || execution.status === filter.status) &&
+        (!filter.excludeDemo || !execution.id.startsWith(DEMO_EXECUTION_PREFIX)) &&
+        inRange(execution.startedAt, filter.from, filter.to)
+      )
+      .sort(newestFirst)
+      .map(execution => structuredClone(execution));
+  }
+
+  async aggregateByAgent(filter: ExecutionFilter, recentSince: Date): Promise<ExecutionAggregate[]> {
+    const byAgent = new Map<string, AgentExecution[]>();
+    (await this.find(filter)).forEach(execution => {
+      const executions = byAgent.get(execution.agentId);
+      if (executions) executions.push(execution);
+      else byAgent.set(execution.agentId, [execution]);
+    });
+
+    // find() returns newest first, so the first execution is the last one started
+    return Array.from(byAgent, ([agentId, executions]) => {
+      const completed = executions.filter(execution => execution.status === 'completed');
+      return {
+        agentId,
+        total: executions.length,
+        completed: completed.length,
+        avgDuration: average(executions.map(execution => execution.duration ?? 0).filter(duration => duration > 0)),
+        avgQualityScore: average(completed.map(execution => execution.result?.qualityScore ?? 0).filter(score => score > 0)),
+        lastStartedAt: executions[0].startedAt,
+        recent: executions.filter(execution => new Date(execution.startedAt) >= recentSince).length,
+      };
+    });
+  }
+
+  async deleteBefore(cutoff: Date): Promise<number> {
+    let deleted = 0;
+    this.executions.forEach((execution, id) => {
+      if (new Date(execution.startedAt) < cutoff) {
+        this.executions.delete(id);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  async clear(): Promise<void> {
+    this.executions.clear();
+  }
+}
+
+export class MemAgentRunRepository implements AgentRunRepository {
+  readonly name = 'memory';
+  private runs: AgentRun[] = [];
+
+  async insert(run: AgentRun): Promise<boolean> {
+    if (this.runs.some(stored => stored.id === run.id)) return false;
+    this.runs.push(structuredClone(run));
+    return true;
+  }
+
+  async find(filter: RunFilter): Promise<AgentRun[]> {
+    return this.runs
+      .filter(run =>
+        (!filter.agentId || run.agentId === filter.agentId) &&
+        (filter.withIntelligence === undefined || run.withIntelligence === filter.withIntelligence) &&
+        inRange(run.timestamp, filter.from, filter.to)
+      )
+      .map(run => structuredClone(run));
+  }
+
+  async agentIds(): Promise<string[]> {
+    return Array.from(new Set(this.runs.map(run => run.agentId)));
+  }
+
+  async deleteBefore(cutoff: Date): Promise<number> {
+    const before = this.runs.length;
+    this.runs = this.runs.filter(run => new Date(run.timestamp) >= cutoff);
+    return before - this.runs.length;
+  }
+
+  async clear(): Promise<void> {
+    this.runs = [];
+  }
+}
+
+export class MemPricingStore implements PricingStore {
+  readonly name = 'memory';
+  private entries = new Map<string, PricingEntry>();
+
+  constructor(initial: PricingEntry[] = []) {
+    initial.forEach(entry => this.entries.set(entry.id, { ...entry }));
+  }
+
+  async list(): Promise<PricingEntry[]> {
+    return Array.from(this.entries.values()).map(entry => ({ ...entry }));
+  }
+
+  async save(entry: PricingEntry): Promise<void> {
+    this.entries.set(entry.id, { ...entry });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.entries.delete(id);
+  }
+}
+
+function toExecution(row: AgentExecutionRow): AgentExecution {
+  return {
+    id: row.id,
+    agentId: row.agentId,
+    agentName: row.agentName,
+    query: row.query,
+    context: (row.context as AgentExecution['context']) ?? undefined,
+    status: row.status as AgentExecution['status'],
+    startedAt: row.startedAt.toISOString(),
+    completedAt: row.completedAt?.toISOString(),
+    duration: row.durationSeconds !== null ? Number(row.durationSeconds) : undefined,
+    result: (row.result as AgentExecution['result']) ?? undefined,
+    routingDecision: (row.routingDecision as AgentExecution['routingDecision']) ?? undefined,
+    metadata: (row.metadata as AgentExecution['metadata']) ?? undefined,
+  };
+}
+
+function toRun(row: AgentRunRow): AgentRun {
+  return {
+    id: row.id,
+    agentId: row.agentId,
+    agentName: row.agentName,
+    timestamp: row.timestamp.toISOString(),
+    withIntelligence: row.withIntelligence,
+    tokensUsed: row.tokensUsed,
+    computeUnits: Number(row.computeUnits),
+    duration: Number(row.durationSeconds),
+    success: row.success,
+    cost: Number(row.cost),
+    metadata: (row.metadata as AgentRun['metadata']) ?? undefined,
+  };
+}
+
+function toPricingEntry(row: ModelPricingRow): PricingEntry {
+  return {
+    id: row.id,
+    provider: row.provider,
+    model: row.model,
+    inputPricePerMillion: Number(row.inputPricePerMillion),
+    outputPricePerMillion: Number(row.outputPricePerMillion),
+    effectiveFrom: row.effectiveFrom.toISOString(),
+    effectiveTo: row.effectiveTo?.toISOString() ?? null,
+  };
+}
+
+function executionConditions(filter: ExecutionFilter): SQL | undefined {
+  const conditions: SQL[] = [];
+  if (filter.agentId) conditions.push(eq(agentExecutions.agentId, filter.agentId));
+  if (filter.status) conditions.push(eq(agentExecutions.status, filter.status));
+  if (filter.excludeDemo) conditions.push(sql`NOT starts_with(${agentExecutions.id}, ${DEMO_EXECUTION_PREFIX})`);
+  if (filter.from) conditions.push(gte(agentExecutions.startedAt, filter.from));
+  if (filter.to) conditions.push(lte(agentExecutions.startedAt, filter.to));
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+export class PostgresAgentExecutionRepository implements AgentExecutionRepository {
+  readonly name = 'postgres';
+
+  constructor(private readonly db: NodePgDatabase) {}
+
+  /**
+   * Fails when PostgreSQL is unreachable or `npm run db:push` has not created agent_executions
+   */
+  async init(): Promise<void> {
+    await this.db.select({ id: agentExecutions.id }).from(agentExecutions).limit(1);
+  }
+
+  async save(execution: AgentExecution): Promise<void> {
+    const row = {
+      id: execution.id,
+      agentId: execution.agentId,
+      agentName: execution.agentName,
+      query: execution.query,
+      context: execution.context ?? null,
+      status: execution.status,
+      startedAt: new Date(execution.startedAt),
+      completedAt: execution.completedAt ? new Date(execution.completedAt) : null,
+      durationSeconds: execution.duration !== undefined ? String(execution.duration) : null,
+      result: execution.result ?? null,
+      routingDecision: execution.routingDecision ?? null,
+      metadata: execution.metadata ?? null,
+    };
+    const { id, ...update } = row;
+    await this.db.insert(agentExecutions).values(row).onConflictDoUpdate({ target: agentExecutions.id, set: update });
+  }
+
+  async get(id: string): Promise<AgentExecution | null> {
+    const rows = await this.db.select().from(agentExecutions).where(eq(agentExecutions.id, id)).limit(1);
+    return rows.length > 0 ? toExecution(rows[0]) : null;
+  }
+
+  async list(filter: ExecutionFilter, page: { limit: number; offset: number }): Promise<ExecutionPage> {
+    const where = executionConditions(filter);
+    const [rows, counts] = await Promise.all([
+      this.db
+        .select()
+        .from(agentExecutions)
+        .where(where)
+        .orderBy(desc(agentExecutions.startedAt))
+        .limit(page.limit)
+        .offset(page.offset),
+      this.db.select({ total: sql<number>`COUNT(*)::int` }).from(agentExecutions).where(where),
+    ]);
+    return { executions: rows.map(toExecution), total: Number(counts[0]?.total ?? 0) };
+  }
+
+  async find(filter: ExecutionFilter): Promise<AgentExecution[]> {
+    const rows = await this.db
+      .select()
+      .from(agentExecutions)
+      .where(executionConditions(filter))
+      .orderBy(desc(agentExecutions.startedAt));
+    return rows.map(toExecution);
+  }
+
+  async aggregateByAgent(filter: ExecutionFilter, recentSince: Date): Promise<ExecutionAggregate[]> {
+    // CASE keeps the numeric cast away from results without a numeric qualityScore
+    const qualityScore = sql`CASE WHEN ${agentExecutions.status} = 'completed'
+      AND jsonb_typeof(${agentExecutions.result}->'qualityScore') = 'number'
+      AND (${agentExecutions.result}->>'qualityScore')::numeric > 0
+      THEN (${agentExecutions.result}->>'qualityScore')::numeric END`;
+    const rows = await this.db
+      .select({
+        agentId: agentExecutions.agentId,
+        total: sql<number>`COUNT(*)::int`,
+        completed: sql<number>`COUNT(*) FILTER (WHERE ${agentExecutions.status} = 'completed')::int`,
+        avgDuration: sql<string | null>`AVG(${agentExecutions.durationSeconds}) FILTER (WHERE ${agentExecutions.durationSeconds} > 0)`,
+        avgQualityScore: sql<string | null>`AVG(${qualityScore})`,
+        lastStartedAt: sql<Date | null>`MAX(${agentExecutions.startedAt})`.mapWith(agentExecutions.startedAt),
+        recent: sql<number>`COUNT(*) FILTER (WHERE ${gte(agentExecutions.startedAt, recentSince)})::int`,
+      })
+      .from(agentExecutions)
+      .where(executionConditions(filter))
+      .groupBy(agentExecutions.agentId);
+
+    return rows.map(row => ({
+      agentId: row.agentId,
+      total: Number(row.total),
+      completed: Number(row.completed),
+      avgDuration: row.avgDuration !== null ? Number(row.avgDuration) : 0,
+      avgQualityScore: row.avgQualityScore !== null ? Number(row.avgQualityScore) : 0,
+      lastStartedAt: row.lastStartedAt?.toISOString() ?? null,
+      recent: Number(row.recent),
+    }));
+  }
+
+  async deleteBefore(cutoff: Date): Promise<number> {
+    const rows = await this.db
+      .delete(agentExecutions)
+      .where(lt(agentExecutions.startedAt, cutoff))
+      .returning({ id: agentExecutions.id });
+    return rows.length;
+  }
+
+  async clear(): Promise<void> {
+    await this.db.delete(agentExecutions);
+  }
+}
+
+export class PostgresAgentRunRepository implements AgentRunRepository {
+  readonly name = 'postgres';
+
+  constructor(private readonly db: NodePgDatabase) {}
+
+  /**
+   * Fails when PostgreSQL is unreachable or `npm run db:push` has not created agent_runs
+   */
+  async init(): Promise<void> {
+    await this.db.select({ id: agentRuns.id }).from(agentRuns).limit(1);
+  }
+
+  async insert(run: AgentRun): Promise<boolean> {
+    const rows = await this.db.insert(agentRuns).values({
+      id: run.id,
+      agentId: run.agentId,
+      agentName: run.agentName,
+      timestamp: new Date(run.timestamp),
+      withIntelligence: run.withIntelligence,
+      tokensUsed: Math.round(run.tokensUsed),
+      computeUnits: String(run.computeUnits),
+      durationSeconds: String(run.duration),
+      success: run.success,
+      cost: String(run.cost),
+      metadata: run.metadata ?? null,
+    }).onConflictDoNothing({ target: agentRuns.id }).returning({ id: agentRuns.id });
+    return rows.length > 0;
+  }
+
+  async find(filter: RunFilter): Promise<AgentRun[]> {
+    const conditions: SQL[] = [];
+    if (filter.agentId) conditions.push(eq(agentRuns.agentId, filter.agentId));
+    if (filter.withIntelligence !== undefined) conditions.push(eq(agentRuns.withIntelligence, filter.withIntelligence));
+    if (filter.from) conditions.push(gte(agentRuns.timestamp, filter.from));
+    if (filter.to) conditions.push(lte(agentRuns.timestamp, filter.to));
+
+    const rows = await this.db
+      .select()
+      .from(agentRuns)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(agentRuns.timestamp);
+    return rows.map(toRun);
+  }
+
+  async agentIds(): Promise<string[]> {
+    const rows = await this.db.selectDistinct({ agentId: agentRuns.agentId }).from(agentRuns);
+    return rows.map(row => row.agentId);
+  }
+
+  async deleteBefore(cutoff: Date): Promise<number> {
+    const rows = await this.db
+      .delete(agentRuns)
+      .where(lt(agentRuns.timestamp, cutoff))
+      .returning({ id: agentRuns.id });
+    return rows.length;
+  }
+
+  async clear(): Promise<void> {
+    await this.db.delete(agentRuns);
+  }
+}
+
+export class PostgresPricingStore implements PricingStore {
+  readonly name = 'postgres';
+
+  constructor(private readonly db: NodePgDatabase) {}
+
+  /**
+   * Fails when PostgreSQL is unreachable or `npm run db:push` has not created model_pricing
+   */
+  async init(): Promise<void> {
+    await this.db.select({ id: modelPricing.id }).from(modelPricing).limit(1);
+  }
+
+  async list(): Promise<PricingEntry[]> {
+    const rows = await this.db.select().from(modelPricing).orderBy(modelPricing.effectiveFrom);
+    return rows.map(toPricingEntry);
+  }
+
+  async save(entry: PricingEntry): Promise<void> {
+    const row = {
+      id: entry.id,
+      provider: entry.provider,
+      model: entry.model,
+      inputPricePerMillion: String(entry.inputPricePerMillion),
+      outputPricePerMillion: String(entry.outputPricePerMillion),
+      effectiveFrom: new Date(entry.effectiveFrom),
+      effectiveTo: entry.effectiveTo ? new Date(entry.effectiveTo) : null,
+    };
+    const { id, ...update } = row;
+    await this.db.insert(modelPricing).values(row).onConflictDoUpdate({ target: modelPricing.id, set: update });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const rows = await this.db.delete(modelPricing).where(eq(modelPricing.id, id)).returning({ id: modelPricing.id });
+    return rows.length > 0;
+  }
+}
+
+/**
+ * Create the repositories configured through the environment. Returns null
+ * when tracking stays in memory (AGENT_TRACKING_STORE=memory, or PostgreSQL
+ * is unreachable), in which case the in-memory defaults stay in place.
+ */
+export async function createAgentTrackingRepositories(
+  db: NodePgDatabase,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<AgentTrackingRepositories | null> {
+  const backend = (env.AGENT_TRACKING_STORE || 'postgres').toLowerCase();
+
+  if (backend === 'memory') {
+    return null;
+  }
+  if (backend !== 'postgres') {
+    console.warn(`[AgentTracking] Unknown AGENT_TRACKING_STORE "${backend}", keeping executions and runs in memory`);
+    return null;
+  }
+
+  const executions = new PostgresAgentExecutionRepository(db);
+  const runs = new PostgresAgentRunRepository(db);
+  const pricing = new PostgresPricingStore(db);
+  try {
+    await executions.init();
+    await runs.init();
+    await pricing.init();
+    return { executions, runs, pricing };
+  } catch (error) {
+    console.warn('[AgentTracking] PostgreSQL unavailable (or `npm run db:push` not run), executions and runs will not survive restarts:', error);
+    return null;
+  }
+}
+
+/**
+ * Retention window in days (AGENT_TRACKING_RETENTION_DAYS), 0 keeps everything
+ */
+export function retentionDays(env: NodeJS.ProcessEnv = process.env): number {
+  const days = parseInt(env.AGENT_TRACKING_RETENTION_DAYS || '', 10);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
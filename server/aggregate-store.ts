@@ -0,0 +1,203 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { sql } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { eventConsumerSnapshots } from '@shared/intelligence-schema';
+import type { EventConsumerAggregates } from './event-consumer';
+
+/**
+ * Aggregate Store
+ *
+ * Persists the in-memory EventConsumer aggregates so dashboards survive restarts.
+ * The consumer snapshots its state periodically and restores it on start().
+ *
+ * Backends (EVENT_AGGREGATE_STORE):
+ * - 'file' (default): JSON file at EVENT_AGGREGATE_STORE_PATH, works without a database
+ * - 'postgres': single row in event_consumer_snapshots
+ * - 'none': persistence disabled
+ */
+
+export const SNAPSHOT_VERSION = 1;
+
+export interface AggregateStore {
+  readonly name: string;
+  load(): Promise<EventConsumerAggregates | null>;
+  save(aggregates: EventConsumerAggregates): Promise<void>;
+}
+
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date');
+const withCreatedAt = z.object({ createdAt: isoDate }).passthrough();
+
+const SnapshotSchema = z.object({
+  version: z.literal(SNAPSHOT_VERSION),
+  savedAt: isoDate,
+  agentMetrics: z.array(z.tuple([
+    z.string(),
+    z.object({
+      count: z.number(),
+      totalRoutingTime: z.number(),
+      totalConfidence: z.number(),
+      successCount: z.number(),
+      errorCount: z.number(),
+      lastSeen: isoDate,
+    }),
+  ])),
+  recentActions: z.array(withCreatedAt),
+  routingDecisions: z.array(withCreatedAt),
+  recentTransformations: z.array(withCreatedAt),
+  performanceMetrics: z.array(withCreatedAt),
+  performanceStats: z.object({
+    totalQueries: z.number(),
+    cacheHitCount: z.number(),
+    totalRoutingDuration: z.number(),
+  }).passthrough(),
+});
+
+export type AggregateSnapshot = z.infer<typeof SnapshotSchema>;
+
+/**
+ * Convert live aggregates to a JSON-safe snapshot (dates as ISO strings)
+ */
+export function toSnapshot(aggregates: EventConsumerAggregates, savedAt: Date = new Date()): AggregateSnapshot {
+  return JSON.parse(JSON.stringify({
+    version: SNAPSHOT_VERSION,
+    savedAt: savedAt.toISOString(),
+    agentMetrics: Array.from(aggregates.agentMetrics.entries()),
+    recentActions: aggregates.recentActions,
+    routingDecisions: aggregates.routingDecisions,
+    recentTransformations: aggregates.recentTransformations,
+    performanceMetrics: aggregates.performanceMetrics,
+    performanceStats: aggregates.performanceStats,
+  }));
+}
+
+/**
+ * Rebuild aggregates from a snapshot, reviving dates.
+ * Returns null for snapshots written by another version or with an unexpected shape.
+ */
+export function fromSnapshot(raw: unknown): EventConsumerAggregates | null {
+  const parsed = SnapshotSchema.safeParse(raw);
+  if (!parsed.success) {
+    return null;
+  }
+
+  const snapshot = parsed.data;
+  const revive = <T>(records: Array<{ createdAt: string }>): T[] =>
+    records.map(record => ({ ...record, createdAt: new Date(record.createdAt) }) as T);
+
+  const { totalQueries, cacheHitCount, totalRoutingDuration } = snapshot.performanceStats;
+
+  return {
+    agentMetrics: new Map(snapshot.agentMetrics.map(([agent, metrics]) => [
+      agent,
+      { ...metrics, lastSeen: new Date(metrics.lastSeen) },
+    ])),
+    recentActions: revive(snapshot.recentActions),
+    routingDecisions: revive(snapshot.routingDecisions),
+    recentTransformations: revive(snapshot.recentTransformations),
+    performanceMetrics: revive(snapshot.performanceMetrics),
+    performanceStats: {
+      totalQueries,
+      cacheHitCount,
+      totalRoutingDuration,
+      // Derived value is recomputed rather than trusted
+      avgRoutingDuration: totalQueries > 0 ? totalRoutingDuration / totalQueries : 0,
+    },
+  };
+}
+
+/**
+ * Local JSON file backend (written atomically via a temp file + rename)
+ */
+export class FileAggregateStore implements AggregateStore {
+  readonly name = 'file';
+
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<EventConsumerAggregates | null> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+    return fromSnapshot(JSON.parse(contents));
+  }
+
+  async save(aggregates: EventConsumerAggregates): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(toSnapshot(aggregates)), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * PostgreSQL backend storing a single snapshot row per consumer
+ */
+export class PostgresAggregateStore implements AggregateStore {
+  readonly name = 'postgres';
+  private tableReady = false;
+
+  constructor(private readonly db: NodePgDatabase, private readonly snapshotId = 'event-consumer') {}
+
+  // The intelligence database has no migrations for this table, so create it on first use
+  private async ensureTable() {
+    if (this.tableReady) return;
+    await this.db.execute(sql`
+      CREATE TABLE IF NOT EXISTS event_consumer_snapshots (
+        id TEXT PRIMARY KEY,
+        snapshot JSONB NOT NULL,
+        saved_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    this.tableReady = true;
+  }
+
+  async load(): Promise<EventConsumerAggregates | null> {
+    await this.ensureTable();
+    const rows = await this.db
+      .select({ snapshot: eventConsumerSnapshots.snapshot })
+      .from(eventConsumerSnapshots)
+      .where(sql`${eventConsumerSnapshots.id} = ${this.snapshotId}`)
+      .limit(1);
+    return rows.length > 0 ? fromSnapshot(rows[0].snapshot) : null;
+  }
+
+  async save(aggregates: EventConsumerAggregates): Promise<void> {
+    await this.ensureTable();
+    const snapshot = toSnapshot(aggregates);
+    const savedAt = new Date(snapshot.savedAt);
+    await this.db
+      .insert(eventConsumerSnapshots)
+      .values({ id: this.snapshotId, snapshot, savedAt })
+      .onConflictDoUpdate({
+        target: eventConsumerSnapshots.id,
+        set: { snapshot, savedAt },
+      });
+  }
+}
+
+/**
+ * Create the aggregate store configured through the environment
+ */
+export function createAggregateStore(db: NodePgDatabase, env: NodeJS.ProcessEnv = process.env): AggregateStore | null {
+  const backend = (env.EVENT_AGGREGATE_STORE || 'file').toLowerCase();
+
+  switch (backend) {
+    case 'none':
+    case 'false':
+      return null;
+    case 'postgres':
+      return new PostgresAggregateStore(db);
+    case 'file':
+      return new FileAggregateStore(
+        path.resolve(env.EVENT_AGGREGATE_STORE_PATH || '.data/event-consumer-aggregates.json')
+      );
+    default:
+      console.warn(`[AggregateStore] Unknown EVENT_AGGREGATE_STORE "${backend}", persistence disabled`);
+      return null;
+  }
+}
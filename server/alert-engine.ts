@@ -0,0 +1,421 @@
+import { z } from 'zod';
+import type { TimeRange } from '@shared/time-range';
+
+/**
+ * Alert Engine
+ *
+ * Evaluates data-driven alert rules against platform metrics and tracks the
+ * lifecycle of each alert (firing → acknowledged → resolved) with history.
+ *
+ * The engine does not talk to the database itself; metric values are read
+ * through an injected AlertMetricProvider so it can be exercised in isolation.
+ */
+
+/**
+ * Metrics a rule can reference.
+ * Rates are fractions (0-1), response time is in milliseconds and the
+ * availability metrics are 1 (reachable) or 0 (unreachable).
+ */
+export const ALERT_METRICS = [
+  'errorRate',
+  'injectionSuccessRate',
+  'avgResponseTime',
+  'successRate',
+  'omniarchonAvailable',
+  'databaseAvailable',
+] as const;
+
+export type AlertMetricName = typeof ALERT_METRICS[number];
+
+/**
+ * Evaluation windows supported by the metric queries
+ */
+export const ALERT_WINDOWS = ['10 minutes', '1 hour', '24 hours'] as const;
+
+export type AlertWindow = typeof ALERT_WINDOWS[number];
+
+export const AlertRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Rule id must be lowercase kebab-case'),
+  name: z.string().min(1),
+  metric: z.enum(ALERT_METRICS),
+  comparator: z.enum(['gt', 'gte', 'lt', 'lte']),
+  threshold: z.number(),
+  window: z.enum(ALERT_WINDOWS),
+  severity: z.enum(['critical', 'warning']),
+  enabled: z.boolean().default(true),
+});
+
+export type AlertRule = z.infer<typeof AlertRuleSchema>;
+export type AlertSeverity = AlertRule['severity'];
+export type AlertState = 'firing' | 'acknowledged' | 'resolved';
+
+export interface AlertTransition {
+  state: AlertState;
+  at: string;
+  note?: string;
+}
+
+export interface AlertRecord {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  metric: AlertMetricName;
+  level: AlertSeverity;
+  message: string;
+  value: number;
+  threshold: number;
+  state: AlertState;
+  firedAt: string;
+  acknowledgedAt?: string;
+  resolvedAt?: string;
+  snoozedUntil?: string;
+  lastEvaluatedAt: string;
+  transitions: AlertTransition[];
+}
+
+export type AlertMetricProvider = (metric: AlertMetricName, window: AlertWindow) => Promise<number>;
+
+/**
+ * Default rules, mirroring the thresholds the alert banner has always used
+ */
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'omniarchon-unreachable',
+    name: 'Omniarchon intelligence service unreachable',
+    metric: 'omniarchonAvailable',
+    comparator: 'lt',
+    threshold: 1,
+    window: '10 minutes',
+    severity: 'critical',
+    enabled: true,
+  },
+  {
+    id: 'database-unreachable',
+    name: 'Database connection failed',
+    metric: 'databaseAvailable',
+    comparator: 'lt',
+    threshold: 1,
+    window: '10 minutes',
+    severity: 'critical',
+    enabled: true,
+  },
+  {
+    id: 'error-rate-critical',
+    name: 'Error rate',
+    metric: 'errorRate',
+    comparator: 'gt',
+    threshold: 0.10,
+    window: '10 minutes',
+    severity: 'critical',
+    enabled: true,
+  },
+  {
+    id: 'error-rate-warning',
+    name: 'Error rate',
+    metric: 'errorRate',
+    comparator: 'gt',
+    threshold: 0.05,
+    window: '10 minutes',
+    severity: 'warning',
+    enabled: true,
+  },
+  {
+    id: 'injection-success-critical',
+    name: 'Manifest injection success rate',
+    metric: 'injectionSuccessRate',
+    comparator: 'lt',
+    threshold: 0.90,
+    window: '1 hour',
+    severity: 'critical',
+    enabled: true,
+  },
+  {
+    id: 'injection-success-warning',
+    name: 'Manifest injection success rate',
+    metric: 'injectionSuccessRate',
+    comparator: 'lt',
+    threshold: 0.95,
+    window: '1 hour',
+    severity: 'warning',
+    enabled: true,
+  },
+  {
+    id: 'response-time-warning',
+    name: 'High response time',
+    metric: 'avgResponseTime',
+    comparator: 'gt',
+    threshold: 2000,
+    window: '10 minutes',
+    severity: 'warning',
+    enabled: true,
+  },
+  {
+    id: 'success-rate-warning',
+    name: 'Low success rate',
+    metric: 'successRate',
+    comparator: 'lt',
+    threshold: 0.85,
+    window: '1 hour',
+    severity: 'warning',
+    enabled: true,
+  },
+];
+
+const PERCENT_METRICS: ReadonlySet<AlertMetricName> = new Set<AlertMetricName>(['errorRate', 'injectionSuccessRate', 'successRate']);
+const AVAILABILITY_METRICS: ReadonlySet<AlertMetricName> = new Set<AlertMetricName>(['omniarchonAvailable', 'databaseAvailable']);
+
+function compare(value: number, comparator: AlertRule['comparator'], threshold: number): boolean {
+  switch (comparator) {
+    case 'gt': return value > threshold;
+    case 'gte': return value >= threshold;
+    case 'lt': return value < threshold;
+    case 'lte': return value <= threshold;
+  }
+}
+
+function formatMetricValue(metric: AlertMetricName, value: number): string {
+  if (PERCENT_METRICS.has(metric)) return `${(value * 100).toFixed(1)}%`;
+  if (metric === 'avgResponseTime') return `${Math.round(value)}ms`;
+  return String(value);
+}
+
+/**
+ * Build the human readable alert message for a rule and observed value
+ */
+export function formatAlertMessage(rule: AlertRule, value: number): string {
+  if (AVAILABILITY_METRICS.has(rule.metric)) {
+    return rule.name;
+  }
+  return `${rule.name} at ${formatMetricValue(rule.metric, value)} (threshold: ${formatMetricValue(rule.metric, rule.threshold)})`;
+}
+
+interface AlertEngineOptions {
+  historyLimit?: number;
+  now?: () => Date;
+}
+
+export class AlertEngine {
+  private rules = new Map<string, AlertRule>();
+  // Open alerts (firing or acknowledged), keyed by rule id
+  private openAlerts = new Map<string, AlertRecord>();
+  // Resolved alerts, newest first
+  private resolvedAlerts: AlertRecord[] = [];
+  private historyLimit: number;
+  private now: () => Date;
+
+  constructor(
+    private readonly readMetric: AlertMetricProvider,
+    rules: AlertRule[] = DEFAULT_ALERT_RULES,
+    options: AlertEngineOptions = {},
+  ) {
+    rules.forEach(rule => this.rules.set(rule.id, { ...rule }));
+    this.historyLimit = options.historyLimit ?? 500;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  getRules(): AlertRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  getRule(ruleId: string): AlertRule | undefined {
+    return this.rules.get(ruleId);
+  }
+
+  /**
+   * Create or replace a rule. Changing a rule resolves its open alert so the
+   * next evaluation starts from a clean state under the new definition.
+   */
+  upsertRule(rule: AlertRule): AlertRule {
+    if (this.rules.has(rule.id)) {
+      this.resolveOpenAlert(rule.id, 'Rule updated');
+    }
+    this.rules.set(rule.id, { ...rule });
+    return rule;
+  }
+
+  deleteRule(ruleId: string): boolean {
+    if (!this.rules.has(ruleId)) return false;
+    this.resolveOpenAlert(ruleId, 'Rule deleted');
+    this.rules.delete(ruleId);
+    return true;
+  }
+
+  /**
+   * Evaluate all enabled rules and apply state transitions.
+   *
+   * When several rules fire for the same metric and window, only the most
+   * severe one is kept (a critical error rate supersedes the warning).
+   * Rules whose metric could not be read keep their current state.
+   */
+  async evaluate(): Promise<AlertRecord[]> {
+    const enabledRules = this.getRules().filter(rule => rule.enabled);
+
+    // Read each metric/window pair once, even if several rules share it
+    const reads = new Map<string, Promise<number>>();
+    const readFor = (rule: AlertRule) => {
+      const key = `${rule.metric}|${rule.window}`;
+      if (!reads.has(key)) {
+        reads.set(key, this.readMetric(rule.metric, rule.window));
+      }
+      return reads.get(key)!;
+    };
+
+    const results = await Promise.allSettled(enabledRules.map(readFor));
+    const evaluatedAt = this.now().toISOString();
+
+    const firing = new Map<AlertRule, number>();
+    const unknown = new Set<string>();
+    enabledRules.forEach((rule, index) => {
+      const result = results[index];
+      if (result.status === 'rejected' || !Number.isFinite(result.value)) {
+        unknown.add(rule.id);
+        return;
+      }
+      if (compare(result.value, rule.comparator, rule.threshold)) {
+        firing.set(rule, result.value);
+      }
+    });
+
+    // Suppress warnings superseded by a critical rule on the same metric/window
+    const criticalKeys = new Set(
+      Array.from(firing.keys())
+        .filter(rule => rule.severity === 'critical')
+        .map(rule => `${rule.metric}|${rule.window}`)
+    );
+    Array.from(firing.keys()).forEach(rule => {
+      if (rule.severity === 'warning' && criticalKeys.has(`${rule.metric}|${rule.window}`)) {
+        firing.delete(rule);
+      }
+    });
+
+    const firingIds = new Set<string>();
+    firing.forEach((value, rule) => {
+      firingIds.add(rule.id);
+      const message = formatAlertMessage(rule, value);
+      const existing = this.openAlerts.get(rule.id);
+
+      if (existing) {
+        existing.value = value;
+        existing.message = message;
+        existing.lastEvaluatedAt = evaluatedAt;
+        return;
+      }
+
+      this.openAlerts.set(rule.id, {
+        // Stable for the lifetime of this firing episode
+        id: `${rule.id}-${Date.parse(evaluatedAt)}`,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        metric: rule.metric,
+        level: rule.severity,
+        message,
+        value,
+        threshold: rule.threshold,
+        state: 'firing',
+        firedAt: evaluatedAt,
+        lastEvaluatedAt: evaluatedAt,
+        transitions: [{ state: 'firing', at: evaluatedAt }],
+      });
+    });
+
+    // Anything still open that no longer fires (and was evaluated) resolves
+    Array.from(this.openAlerts.keys()).forEach(ruleId => {
+      const rule = this.rules.get(ruleId);
+      if (firingIds.has(ruleId) || unknown.has(ruleId)) return;
+      this.resolveOpenAlert(ruleId, rule && !rule.enabled ? 'Rule disabled' : undefined);
+    });
+
+    return this.getActiveAlerts();
+  }
+
+  /**
+   * Open alerts, most severe first. Snoozed alerts are hidden unless requested.
+   */
+  getActiveAlerts(options: { includeSnoozed?: boolean } = {}): AlertRecord[] {
+    const now = this.now().getTime();
+    return Array.from(this.openAlerts.values())
+      .filter(alert => options.includeSnoozed || !alert.snoozedUntil || Date.parse(alert.snoozedUntil) <= now)
+      .sort((a, b) => {
+        if (a.level !== b.level) return a.level === 'critical' ? -1 : 1;
+        return Date.parse(b.firedAt) - Date.parse(a.firedAt);
+      });
+  }
+
+  getAlert(alertId: string): AlertRecord | undefined {
+    return this.findOpenAlert(alertId) ?? this.resolvedAlerts.find(alert => alert.id === alertId);
+  }
+
+  /**
+   * Acknowledge an open alert. Returns null if the alert is not open.
+   */
+  acknowledge(alertId: string, note?: string): AlertRecord | null {
+    const alert = this.findOpenAlert(alertId);
+    if (!alert) return null;
+    if (alert.state === 'acknowledged') return alert;
+
+    const at = this.now().toISOString();
+    alert.state = 'acknowledged';
+    alert.acknowledgedAt = at;
+    alert.transitions.push({ state: 'acknowledged', at, note });
+    return alert;
+  }
+
+  /**
+   * Hide an open alert from the active list for the given duration.
+   * Returns null if the alert is not open.
+   */
+  snooze(alertId: string, minutes: number): AlertRecord | null {
+    const alert = this.findOpenAlert(alertId);
+    if (!alert) return null;
+
+    alert.snoozedUntil = new Date(this.now().getTime() + minutes * 60 * 1000).toISOString();
+    return alert;
+  }
+
+  /**
+   * All alerts (open and resolved), newest first; with a range, only alerts
+   * that were open at some point within it
+   */
+  getHistory(options: { limit?: number; state?: AlertState; ruleId?: string; range?: TimeRange } = {}): AlertRecord[] {
+    let alerts = [...Array.from(this.openAlerts.values()), ...this.resolvedAlerts];
+
+    const range = options.range;
+    if (range) {
+      alerts = alerts.filter(alert =>
+        (range.preset !== null || Date.parse(alert.firedAt) < range.end.getTime()) &&
+        (!alert.resolvedAt || Date.parse(alert.resolvedAt) >= range.start.getTime())
+      );
+    }
+
+    if (options.state) {
+      alerts = alerts.filter(alert => alert.state === options.state);
+    }
+    if (options.ruleId) {
+      alerts = alerts.filter(alert => alert.ruleId === options.ruleId);
+    }
+
+    alerts.sort((a, b) => Date.parse(b.firedAt) - Date.parse(a.firedAt));
+    return options.limit ? alerts.slice(0, options.limit) : alerts;
+  }
+
+  private findOpenAlert(alertId: string): AlertRecord | undefined {
+    return Array.from(this.openAlerts.values()).find(alert => alert.id === alertId);
+  }
+
+  private resolveOpenAlert(ruleId: string, note?: string) {
+    const alert = this.openAlerts.get(ruleId);
+    if (!alert) return;
+
+    const at = this.now().toISOString();
+    alert.state = 'resolved';
+    alert.resolvedAt = at;
+    alert.snoozedUntil = undefined;
+    alert.transitions.push({ state: 'resolved', at, note });
+
+    this.openAlerts.delete(ruleId);
+    this.resolvedAlerts.unshift(alert);
+    if (this.resolvedAlerts.length > this.historyLimit) {
+      this.resolvedAlerts = this.resolvedAlerts.slice(0, this.historyLimit);
+    }
+  }
+}
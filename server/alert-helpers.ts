@@ -5,6 +5,7 @@ import {
   agentManifestInjections,
   agentRoutingDecisions,
 } from '../shared/intelligence-schema';
+import { ALERT_WINDOWS, type AlertWindow } from './alert-engine';
 
 /**
  * Alert Metrics Cache
@@ -76,6 +77,52 @@ export async function getAllAlertMetrics(): Promise<AlertMetricsCache> {
  */
 export function clearAlertMetricsCache(): void {
   metricsCache = null;
+  windowedMetricCache.clear();
+}
+
+/**
+ * Numeric metrics that can be queried for an arbitrary alert window
+ */
+export type WindowedAlertMetric = 'errorRate' | 'injectionSuccessRate' | 'avgResponseTime' | 'successRate';
+
+const windowedMetricCache = new Map<string, { value: number; timestamp: number }>();
+
+/**
+ * Get a single alert metric for the given window
+ * Results are cached per metric/window for 30 seconds
+ */
+export async function getAlertMetric(metric: WindowedAlertMetric, timeWindow: AlertWindow): Promise<number> {
+  const key = `${metric}|${timeWindow}`;
+  const cached = windowedMetricCache.get(key);
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
+    return cached.value;
+  }
+
+  let value: number;
+  switch (metric) {
+    case 'errorRate':
+      value = await getErrorRateUncached(timeWindow);
+      break;
+    case 'injectionSuccessRate':
+      value = await getManifestInjectionSuccessRateUncached(timeWindow);
+      break;
+    case 'avgResponseTime':
+      value = await getAvgResponseTimeUncached(timeWindow);
+      break;
+    case 'successRate':
+      value = await getSuccessRateUncached(timeWindow);
+      break;
+  }
+
+  windowedMetricCache.set(key, { value, timestamp: Date.now() });
+  return value;
+}
+
+/**
+ * Internal: Map a requested window onto the whitelisted SQL intervals
+ */
+function toInterval(timeWindow: string, fallback: AlertWindow): AlertWindow {
+  return (ALERT_WINDOWS as readonly string[]).includes(timeWindow) ? timeWindow as AlertWindow : fallback;
 }
 
 /**
@@ -83,9 +130,7 @@ export function clearAlertMetricsCache(): void {
  */
 async function getErrorRateUncached(timeWindow: string): Promise<number> {
   try {
-    const interval = timeWindow === '1 hour' ? '1 hour' :
-                     timeWindow === '10 minutes' ? '10 minutes' :
-                     timeWindow === '24 hours' ? '24 hours' : '10 minutes';
+    const interval = toInterval(timeWindow, '10 minutes');
 
     // Optimized query - only count, no full table scan
     const [result] = await intelligenceDb
@@ -116,8 +161,7 @@ async function getErrorRateUncached(timeWindow: string): Promise<number> {
  */
 async function getManifestInjectionSuccessRateUncached(timeWindow: string): Promise<number> {
   try {
-    const interval = timeWindow === '1 hour' ? '1 hour' :
-                     timeWindow === '24 hours' ? '24 hours' : '1 hour';
+    const interval = toInterval(timeWindow, '1 hour');
 
     const [result] = await intelligenceDb
       .select({
@@ -147,9 +191,7 @@ async function getManifestInjectionSuccessRateUncached(timeWindow: string): Prom
  */
 async function getAvgResponseTimeUncached(timeWindow: string): Promise<number> {
   try {
-    const interval = timeWindow === '10 minutes' ? '10 minutes' :
-                     timeWindow === '1 hour' ? '1 hour' :
-                     timeWindow === '24 hours' ? '24 hours' : '10 minutes';
+    const interval = toInterval(timeWindow, '10 minutes');
 
     const [result] = await intelligenceDb
       .select({
@@ -174,8 +216,7 @@ async function getAvgResponseTimeUncached(timeWindow: string): Promise<number> {
  */
 async function getSuccessRateUncached(timeWindow: string): Promise<number> {
   try {
-    const interval = timeWindow === '1 hour' ? '1 hour' :
-                     timeWindow === '24 hours' ? '24 hours' : '1 hour';
+    const interval = toInterval(timeWindow, '1 hour');
 
     const [result] = await intelligenceDb
       .select({
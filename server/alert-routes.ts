@@ -1,9 +1,11 @@
 import { Router } from 'express';
 import { sql } from 'drizzle-orm';
-import { randomUUID } from 'crypto';
+import { z } from 'zod';
 import { intelligenceDb } from './storage';
 import { patternLineageNodes } from '../shared/intelligence-schema';
-import { getAllAlertMetrics } from './alert-helpers';
+import { getAlertMetric } from './alert-helpers';
+import { AlertEngine, AlertRuleSchema, type AlertMetricName, type AlertWindow, type AlertState } from './alert-engine';
+import { parseTimeRange } from './time-range';
 
 export const alertRouter = Router();
 
@@ -77,142 +79,193 @@ async function getHealthCheckStatus(): Promise<HealthCheckCache> {
 }
 
 /**
- * GET /api/intelligence/alerts/active
- * Returns active critical and warning alerts based on system health checks
- *
- * Alert Conditions:
- *
- * CRITICAL (Red):
- * - Intelligence service unreachable (Omniarchon down)
- * - Database connection failed
- * - Error rate > 10% (last 10 minutes)
- * - Manifest injection success rate < 90% (last hour)
+ * Read a rule metric: health checks map to 1 (ok) / 0 (failed),
+ * everything else comes from the cached metric queries
+ */
+async function readAlertMetric(metric: AlertMetricName, window: AlertWindow): Promise<number> {
+  switch (metric) {
+    case 'omniarchonAvailable':
+      return (await getHealthCheckStatus()).omniarchonStatus === 'ok' ? 1 : 0;
+    case 'databaseAvailable':
+      return (await getHealthCheckStatus()).databaseStatus === 'ok' ? 1 : 0;
+    default:
+      return getAlertMetric(metric, window);
+  }
+}
+
+export const alertEngine = new AlertEngine(readAlertMetric);
+
+const SnoozeSchema = z.object({
+  minutes: z.number().int().positive().max(7 * 24 * 60).default(60),
+});
+
+const AcknowledgeSchema = z.object({
+  note: z.string().max(500).optional(),
+});
+
+/**
+ * GET /api/intelligence/alerts/active?includeSnoozed=true
+ * Evaluates all alert rules and returns open (firing or acknowledged) alerts
  *
- * WARNING (Yellow):
- * - High response time (avg > 2000ms last 10 min)
- * - Error rate > 5% (last 10 minutes)
- * - Manifest injection success rate < 95% (last hour)
- * - Low success rate < 85%
+ * Alert IDs are stable for as long as the underlying condition keeps firing,
+ * so clients can safely remember acknowledged or dismissed alerts by ID.
+ * Thresholds are configured through the /rules endpoints.
  *
  * Response format:
  * {
  *   alerts: [
  *     {
- *       id: "unique-uuid",
+ *       id: "error-rate-critical-1761652800000",
+ *       ruleId: "error-rate-critical",
  *       level: "critical" | "warning",
- *       message: "Description of the alert",
- *       timestamp: "2025-10-28T12:00:00Z"
+ *       state: "firing" | "acknowledged",
+ *       message: "Error rate at 12.5% (threshold: 10.0%)",
+ *       value: 0.125,
+ *       threshold: 0.1,
+ *       firedAt: "2025-10-28T12:00:00Z",
+ *       timestamp: "2025-10-28T12:05:00Z"
  *     }
  *   ]
  * }
  */
 alertRouter.get('/active', async (req, res) => {
   try {
-    const alerts: Array<{
-      id: string;
-      level: 'critical' | 'warning';
-      message: string;
-      timestamp: string;
-    }> = [];
-
-    const timestamp = new Date().toISOString();
-
-    // Fetch all data in parallel (all cached for 30 seconds)
-    const [healthCheck, metrics] = await Promise.all([
-      getHealthCheckStatus(),
-      getAllAlertMetrics(),
-    ]);
-
-    // Process Omniarchon health check result
-    if (healthCheck.omniarchonStatus === 'error') {
-      alerts.push({
-        id: randomUUID(),
-        level: 'critical',
-        message: 'Omniarchon intelligence service unreachable',
-        timestamp,
-      });
-    } else if (typeof healthCheck.omniarchonStatus === 'number') {
-      alerts.push({
-        id: randomUUID(),
-        level: 'critical',
-        message: `Omniarchon intelligence service returned ${healthCheck.omniarchonStatus}`,
-        timestamp,
-      });
-    }
-
-    // Process database health check result
-    if (healthCheck.databaseStatus === 'error') {
-      alerts.push({
-        id: randomUUID(),
-        level: 'critical',
-        message: 'Database connection failed',
-        timestamp,
-      });
-    }
+    await alertEngine.evaluate();
+    const alerts = alertEngine.getActiveAlerts({
+      includeSnoozed: req.query.includeSnoozed === 'true',
+    });
 
-    // Process metrics results
-    const { errorRate, injectionSuccessRate, avgResponseTime, successRate } = metrics;
-
-    // Check error rate (last 10 minutes)
-    if (errorRate > 0.10) {
-      alerts.push({
-        id: randomUUID(),
-        level: 'critical',
-        message: `Error rate at ${(errorRate * 100).toFixed(1)}% (threshold: 10%)`,
-        timestamp,
-      });
-    } else if (errorRate > 0.05) {
-      alerts.push({
-        id: randomUUID(),
-        level: 'warning',
-        message: `Error rate at ${(errorRate * 100).toFixed(1)}% (threshold: 5%)`,
-        timestamp,
-      });
-    }
+    res.json({
+      alerts: alerts.map(alert => ({ ...alert, timestamp: alert.lastEvaluatedAt })),
+    });
+  } catch (error) {
+    console.error('Error fetching active alerts:', error);
+    res.status(500).json({
+      error: 'Failed to fetch active alerts',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
 
-    // Check manifest injection success rate (last hour)
-    if (injectionSuccessRate < 0.90) {
-      alerts.push({
-        id: randomUUID(),
-        level: 'critical',
-        message: `Manifest injection success rate at ${(injectionSuccessRate * 100).toFixed(1)}%`,
-        timestamp,
-      });
-    } else if (injectionSuccessRate < 0.95) {
-      alerts.push({
-        id: randomUUID(),
-        level: 'warning',
-        message: `Manifest injection success rate at ${(injectionSuccessRate * 100).toFixed(1)}%`,
-        timestamp,
-      });
-    }
+/**
+ * GET /api/intelligence/alerts/history?limit=100&state=resolved&ruleId=error-rate-critical&timeWindow=7d
+ * Returns alerts open at some point in the time range (timeWindow or start/end,
+ * default: "30d") with their state transitions, newest first
+ */
+alertRouter.get('/history', (req, res) => {
+  const range = parseTimeRange(req, res, '30d');
+  if (!range) return;
 
-    // Check average response time (last 10 minutes)
-    if (avgResponseTime > 2000) {
-      alerts.push({
-        id: randomUUID(),
-        level: 'warning',
-        message: `High response time: ${avgResponseTime}ms (threshold: 2000ms)`,
-        timestamp,
-      });
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+    const state = req.query.state as AlertState | undefined;
+    if (state && !['firing', 'acknowledged', 'resolved'].includes(state)) {
+      return res.status(400).json({ error: 'Invalid state filter' });
     }
 
-    // Check overall success rate (last hour)
-    if (successRate < 0.85) {
-      alerts.push({
-        id: randomUUID(),
-        level: 'warning',
-        message: `Low success rate: ${(successRate * 100).toFixed(1)}% (threshold: 85%)`,
-        timestamp,
-      });
-    }
+    const alerts = alertEngine.getHistory({
+      limit,
+      state,
+      ruleId: req.query.ruleId as string | undefined,
+      range,
+    });
 
-    res.json({ alerts });
+    res.json({ alerts, total: alerts.length });
   } catch (error) {
-    console.error('Error fetching active alerts:', error);
+    console.error('Error fetching alert history:', error);
     res.status(500).json({
-      error: 'Failed to fetch active alerts',
+      error: 'Failed to fetch alert history',
       message: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
+
+/**
+ * POST /api/intelligence/alerts/:alertId/acknowledge
+ * Body: { note?: string }
+ */
+alertRouter.post('/:alertId/acknowledge', (req, res) => {
+  const parsed = AcknowledgeSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid acknowledge request', details: parsed.error.issues });
+  }
+
+  const alert = alertEngine.acknowledge(req.params.alertId, parsed.data.note);
+  if (!alert) {
+    return res.status(404).json({ error: 'Alert not found or already resolved' });
+  }
+
+  res.json(alert);
+});
+
+/**
+ * POST /api/intelligence/alerts/:alertId/snooze
+ * Body: { minutes?: number } (default: 60, max: 7 days)
+ */
+alertRouter.post('/:alertId/snooze', (req, res) => {
+  const parsed = SnoozeSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid snooze request', details: parsed.error.issues });
+  }
+
+  const alert = alertEngine.snooze(req.params.alertId, parsed.data.minutes);
+  if (!alert) {
+    return res.status(404).json({ error: 'Alert not found or already resolved' });
+  }
+
+  res.json(alert);
+});
+
+/**
+ * GET /api/intelligence/alerts/rules
+ * Returns all configured alert rules
+ */
+alertRouter.get('/rules', (_req, res) => {
+  res.json({ rules: alertEngine.getRules() });
+});
+
+/**
+ * POST /api/intelligence/alerts/rules
+ * Creates a new alert rule
+ */
+alertRouter.post('/rules', (req, res) => {
+  const parsed = AlertRuleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid alert rule', details: parsed.error.issues });
+  }
+  if (alertEngine.getRule(parsed.data.id)) {
+    return res.status(409).json({ error: `Alert rule already exists: ${parsed.data.id}` });
+  }
+
+  res.status(201).json(alertEngine.upsertRule(parsed.data));
+});
+
+/**
+ * PUT /api/intelligence/alerts/rules/:ruleId
+ * Replaces an existing alert rule (any open alert for it is resolved)
+ */
+alertRouter.put('/rules/:ruleId', (req, res) => {
+  const { ruleId } = req.params;
+  if (!alertEngine.getRule(ruleId)) {
+    return res.status(404).json({ error: `Alert rule not found: ${ruleId}` });
+  }
+
+  const parsed = AlertRuleSchema.safeParse({ ...req.body, id: ruleId });
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid alert rule', details: parsed.error.issues });
+  }
+
+  res.json(alertEngine.upsertRule(parsed.data));
+});
+
+/**
+ * DELETE /api/intelligence/alerts/rules/:ruleId
+ */
+alertRouter.delete('/rules/:ruleId', (req, res) => {
+  const deleted = alertEngine.deleteRule(req.params.ruleId);
+  if (!deleted) {
+    return res.status(404).json({ error: `Alert rule not found: ${req.params.ruleId}` });
+  }
+
+  res.status(204).end();
+});
@@ -0,0 +1,189 @@
+import type { ChatMessage, ChatRole } from '@shared/schema';
+import type { ChatStore } from './chat-store';
+import { CHAT_TOOLS, composeGroundedAnswer, runTools, selectTools, type ChatDataSource, type ChatTool } from './chat-tools';
+
+/**
+ * Chat Assistant
+ *
+ * Assistant backends stream a reply token by token for a conversation history.
+ * Providers (CHAT_ASSISTANT_PROVIDER):
+ * - 'grounded' (default): answers from live dashboard data via chat tools,
+ *   citing the numbers used and linking to the dashboard; rule-based otherwise
+ * - 'rule-based': keyword rules pointing at the relevant dashboards
+ * - 'echo': repeats the last user message, useful for UI development and tests
+ *
+ * Other backends (e.g. omniarchon) plug in by implementing AssistantProvider.
+ */
+
+export interface ChatTurn {
+  role: ChatRole;
+  content: string;
+}
+
+export interface AssistantProvider {
+  readonly name: string;
+  streamReply(history: ChatTurn[], options?: { signal?: AbortSignal }): AsyncIterable<string>;
+}
+
+/**
+ * Split text into streamable tokens (words with their trailing whitespace)
+ */
+export function tokenize(text: string): string[] {
+  return text.match(/\s*\S+\s*/g) ?? [];
+}
+
+async function* streamText(text: string, tokenDelayMs: number, signal?: AbortSignal): AsyncIterable<string> {
+  for (const token of tokenize(text)) {
+    if (signal?.aborted) return;
+    if (tokenDelayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, tokenDelayMs));
+    }
+    yield token;
+  }
+}
+
+function lastUserMessage(history: ChatTurn[]): string {
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].role === 'user') return history[i].content;
+  }
+  return '';
+}
+
+export class EchoAssistantProvider implements AssistantProvider {
+  readonly name = 'echo';
+
+  constructor(private readonly tokenDelayMs = 0) {}
+
+  streamReply(history: ChatTurn[], options: { signal?: AbortSignal } = {}): AsyncIterable<string> {
+    return streamText(`You said: ${lastUserMessage(history)}`, this.tokenDelayMs, options.signal);
+  }
+}
+
+interface AssistantRule {
+  pattern: RegExp;
+  reply: string;
+}
+
+const DEFAULT_RULES: AssistantRule[] = [
+  {
+    pattern: /\b(cost|token|spend|saving|budget)s?\b/i,
+    reply: 'Token usage and cost are tracked on **Intelligence Analytics**. Pattern injection, smart routing and local compute offload are the main levers; compare your time window against the baseline there to see which agents save the most.',
+  },
+  {
+    pattern: /\b(error|fail|failure|exception)s?\b/i,
+    reply: 'Agent errors show up as `error` actions in the live event feed. Open **Agent Management** and sort agents by success rate to find the ones with elevated error rates, then drill into an agent to see its recent failing actions.',
+  },
+  {
+    pattern: /\b(health|status|uptime|down)\b/i,
+    reply: 'Service health is summarised on **Platform Monitoring**: each service reports its status and latency, and degraded services are flagged in the alert bar at the top of every dashboard.',
+  },
+  {
+    pattern: /\b(pattern|duplicate|refactor)s?\b/i,
+    reply: 'Discovered patterns with their quality scores and usage, plus duplicate clusters and refactoring candidates, are on **Code Intelligence Suite**.',
+  },
+  {
+    pattern: /\b(rout(e|ing)|agent|confidence)s?\b/i,
+    reply: 'Routing decisions, confidence scores and the selected agents are on **Agent Management** under routing intelligence. Low-confidence decisions usually point to missing triggers or overlapping capabilities between agents.',
+  },
+];
+
+const FALLBACK_REPLY = 'I can help with agent performance, routing decisions, errors, costs, patterns and platform health. Try asking "Show me agents with high error rates" or "What\'s the current system health?"';
+
+export class RuleBasedAssistantProvider implements AssistantProvider {
+  readonly name = 'rule-based';
+
+  constructor(private readonly tokenDelayMs = 0, private readonly rules: AssistantRule[] = DEFAULT_RULES) {}
+
+  reply(message: string): string {
+    return this.rules.find(rule => rule.pattern.test(message))?.reply ?? FALLBACK_REPLY;
+  }
+
+  streamReply(history: ChatTurn[], options: { signal?: AbortSignal } = {}): AsyncIterable<string> {
+    return streamText(this.reply(lastUserMessage(history)), this.tokenDelayMs, options.signal);
+  }
+}
+
+export class GroundedAssistantProvider implements AssistantProvider {
+  readonly name = 'grounded';
+  private fallback: RuleBasedAssistantProvider;
+
+  constructor(
+    private readonly data: ChatDataSource,
+    private readonly tokenDelayMs = 0,
+    private readonly tools: ChatTool[] = CHAT_TOOLS
+  ) {
+    this.fallback = new RuleBasedAssistantProvider(tokenDelayMs);
+  }
+
+  /**
+   * Answer from the tools the message asks for, or null when none apply
+   */
+  async answer(message: string): Promise<string | null> {
+    const selected = selectTools(message, this.tools);
+    if (selected.length === 0) return null;
+    return composeGroundedAnswer(await runTools(selected, this.data));
+  }
+
+  async *streamReply(history: ChatTurn[], options: { signal?: AbortSignal } = {}): AsyncIterable<string> {
+    const message = lastUserMessage(history);
+    const answer = await this.answer(message);
+    yield* streamText(answer ?? this.fallback.reply(message), this.tokenDelayMs, options.signal);
+  }
+}
+
+/**
+ * Create the assistant provider configured through the environment.
+ * The grounded provider needs a data source; without one it degrades to rule-based.
+ */
+export function createAssistantProvider(env: NodeJS.ProcessEnv = process.env, data?: ChatDataSource): AssistantProvider {
+  const tokenDelayMs = parseInt(env.CHAT_STREAM_TOKEN_DELAY_MS || '30', 10);
+
+  switch ((env.CHAT_ASSISTANT_PROVIDER || 'grounded').toLowerCase()) {
+    case 'echo':
+      return new EchoAssistantProvider(tokenDelayMs);
+    case 'rule-based':
+      return new RuleBasedAssistantProvider(tokenDelayMs);
+    case 'grounded':
+      return data ? new GroundedAssistantProvider(data, tokenDelayMs) : new RuleBasedAssistantProvider(tokenDelayMs);
+    default:
+      console.warn(`[ChatAssistant] Unknown CHAT_ASSISTANT_PROVIDER "${env.CHAT_ASSISTANT_PROVIDER}", using rule-based`);
+      return new RuleBasedAssistantProvider(tokenDelayMs);
+  }
+}
+
+/**
+ * Generate and persist the assistant reply for a conversation.
+ * The reply is stored as 'streaming' up front and finalized as 'complete',
+ * 'cancelled' (client went away) or 'error' with whatever content was produced.
+ */
+export async function generateAssistantReply(options: {
+  store: ChatStore;
+  provider: AssistantProvider;
+  conversationId: string;
+  signal?: AbortSignal;
+  onStart?: (message: ChatMessage) => void;
+  onToken?: (token: string) => void;
+}): Promise<ChatMessage> {
+  const { store, provider, conversationId, signal } = options;
+  const history = (await store.listMessages(conversationId))
+    .filter(message => message.status === 'complete')
+    .map(({ role, content }) => ({ role, content }));
+
+  const pending = await store.addMessage({ conversationId, role: 'assistant', content: '', status: 'streaming' });
+  options.onStart?.(pending);
+
+  let content = '';
+  try {
+    for await (const token of provider.streamReply(history, { signal })) {
+      if (signal?.aborted) break;
+      content += token;
+      options.onToken?.(token);
+    }
+  } catch (error) {
+    await store.updateMessage(pending.id, { content, status: 'error' });
+    throw error;
+  }
+
+  const status = signal?.aborted ? 'cancelled' : 'complete';
+  return (await store.updateMessage(pending.id, { content, status })) ?? { ...pending, content, status };
+}
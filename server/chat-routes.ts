@@ -1,113 +1,269 @@
-import { Router } from 'express';
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import type { ChatConversation, ChatMessage } from '@shared/schema';
+import { intelligenceDb } from './storage';
+import { createChatStore, titleFromMessage, MAX_TITLE_LENGTH, type ChatStore } from './chat-store';
+import { createAssistantProvider, generateAssistantReply } from './chat-assistant';
+import { getAgentSummary, getCorrelationTrace, getPatternSummary, getPerformanceSummary } from './intelligence-queries';
+import { getSavingsMetrics } from './savings-routes';
 
 export const chatRouter = Router();
 
 /**
- * Chat History API
+ * Chat API
  *
- * Currently returns demo messages for the Chat Dashboard.
+ * Conversations are persisted per user (CHAT_STORE, see chat-store.ts) and
+ * answered by the configured assistant provider (CHAT_ASSISTANT_PROVIDER,
+ * see chat-assistant.ts). Replies can be streamed token by token over SSE.
  *
- * TODO: Integrate with omniarchon service for real chat functionality
- * TODO: Store chat messages in database (new chat_messages table)
- * TODO: Implement WebSocket for real-time chat updates
+ * The user is identified by the `X-User-Id` header ('default' when absent)
+ * until the dashboard has authentication.
  */
 
-interface ChatMessage {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: string;
+const DEFAULT_USER_ID = 'default';
+
+let chatStore: Promise<ChatStore> | null = null;
+// Grounded answers use the same query functions as the dashboard APIs
+const assistant = createAssistantProvider(process.env, {
+  getAgentSummary,
+  getPatternSummary,
+  getPerformanceSummary,
+  getSavingsMetrics,
+  getCorrelationTrace,
+});
+
+function getChatStore(): Promise<ChatStore> {
+  if (!chatStore) {
+    chatStore = createChatStore(intelligenceDb).then(store => {
+      console.log(`[Chat] Using ${store.name} chat store with ${assistant.name} assistant`);
+      return store;
+    });
+  }
+  return chatStore;
+}
+
+function userIdFor(req: Request): string {
+  return req.header('x-user-id')?.trim() || DEFAULT_USER_ID;
+}
+
+function sendError(res: Response, error: unknown, message: string) {
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    error: message,
+    message: error instanceof Error ? error.message : String(error)
+  });
 }
 
+const TitleSchema = z.string().trim().min(1).max(MAX_TITLE_LENGTH);
+
+const CreateConversationSchema = z.object({
+  title: TitleSchema.optional(),
+});
+
+const RenameConversationSchema = z.object({
+  title: TitleSchema,
+});
+
+const SendMessageSchema = z.object({
+  message: z.string().trim().min(1, 'Message is required').max(10000),
+  conversationId: z.string().min(1).optional(),
+  stream: z.boolean().optional(),
+});
+
 interface ChatHistoryResponse {
+  conversationId: string | null;
   messages: ChatMessage[];
 }
 
-// GET /api/chat/history
-// Returns chat history (currently demo data)
+// GET /api/chat/conversations
+// Returns the user's conversations, most recently active first
+chatRouter.get('/conversations', async (req, res) => {
+  try {
+    const store = await getChatStore();
+    res.json({ conversations: await store.listConversations(userIdFor(req)) });
+  } catch (error) {
+    sendError(res, error, 'Failed to list conversations');
+  }
+});
+
+// POST /api/chat/conversations
+// Body: { title? }
+chatRouter.post('/conversations', async (req, res) => {
+  try {
+    const parsed = CreateConversationSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid request', details: parsed.error.issues });
+    }
+
+    const store = await getChatStore();
+    const conversation = await store.createConversation(userIdFor(req), parsed.data.title ?? 'New conversation');
+    res.status(201).json({ conversation });
+  } catch (error) {
+    sendError(res, error, 'Failed to create conversation');
+  }
+});
+
+// GET /api/chat/conversations/:id
+// Returns { conversation, messages }
+chatRouter.get('/conversations/:id', async (req, res) => {
+  try {
+    const store = await getChatStore();
+    const conversation = await store.getConversation(userIdFor(req), req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    res.json({ conversation, messages: await store.listMessages(conversation.id) });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch conversation');
+  }
+});
+
+// PATCH /api/chat/conversations/:id
+// Body: { title }
+chatRouter.patch('/conversations/:id', async (req, res) => {
+  try {
+    const parsed = RenameConversationSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid request', details: parsed.error.issues });
+    }
+
+    const store = await getChatStore();
+    const conversation = await store.renameConversation(userIdFor(req), req.params.id, parsed.data.title);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    res.json({ conversation });
+  } catch (error) {
+    sendError(res, error, 'Failed to rename conversation');
+  }
+});
+
+// DELETE /api/chat/conversations/:id
+chatRouter.delete('/conversations/:id', async (req, res) => {
+  try {
+    const store = await getChatStore();
+    const deleted = await store.deleteConversation(userIdFor(req), req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, error, 'Failed to delete conversation');
+  }
+});
+
+// GET /api/chat/history?conversationId=...
+// Returns the messages of a conversation (the most recent one by default)
 chatRouter.get('/history', async (req, res) => {
   try {
-    // Demo messages for the chat interface
-    // These showcase the AI assistant's capabilities with the platform
-    const now = new Date();
-    const messages: ChatMessage[] = [
-      {
-        id: '1',
-        role: 'user',
-        content: 'How can I reduce token usage and costs for my AI agents?',
-        timestamp: new Date(now.getTime() - 7200000).toISOString() // 2 hours ago
-      },
-      {
-        id: '2',
-        role: 'assistant',
-        content: 'Based on your current agent performance data, I can see several cost optimization opportunities:\n\n1. **Pattern Injection**: Your system has identified 125 proven patterns that can reduce token usage by up to 34%. The Polymorphic Agent shows the highest savings potential.\n\n2. **Smart Routing**: Your routing accuracy is at 94.2%, but optimizing routing decisions can reduce unnecessary API calls by 8%.\n\n3. **Local Compute Offload**: Moving computation-intensive tasks to local processing can save 12% on API costs.\n\n4. **Cache Frequently Used Responses**: Your cache hit rate is currently 67%. Increasing this to 80%+ could save an additional $450/month.\n\nWould you like me to generate a detailed cost optimization plan for your specific agents?',
-        timestamp: new Date(now.getTime() - 7195000).toISOString()
-      },
-      {
-        id: '3',
-        role: 'user',
-        content: 'What patterns should I use for error handling in my microservices?',
-        timestamp: new Date(now.getTime() - 3600000).toISOString() // 1 hour ago
-      },
-      {
-        id: '4',
-        role: 'assistant',
-        content: 'For microservices error handling, I recommend implementing these proven patterns from your codebase:\n\n1. **Circuit Breaker Pattern**: I found 3 implementations in your codebase. The best one is in `/src/middleware/circuit_breaker.py` with a quality score of 9.2.\n\n2. **Retry with Exponential Backoff**: Found 2 implementations. The pattern in `/src/utils/retry_handler.py` is actively used by 45 services.\n\n3. **Dead Letter Queue**: Pattern available in `/src/queue/dlq_handler.py` with 98% success rate.\n\n4. **Centralized Error Logging**: Your current implementation in `/src/logging/error_handler.py` uses correlation IDs and shows excellent traceability.\n\n5. **Graceful Degradation**: Pattern in `/src/services/fallback_handler.py` is proven and can be injected into 12 agents.\n\nI can help you standardize these patterns across all your services. Which pattern would you like to start with?',
-        timestamp: new Date(now.getTime() - 3595000).toISOString()
-      },
-      {
-        id: '5',
-        role: 'user',
-        content: 'How do I identify and fix duplicate code across my repositories?',
-        timestamp: new Date(now.getTime() - 1800000).toISOString() // 30 min ago
-      },
-      {
-        id: '6',
-        role: 'assistant',
-        content: 'I can help you identify and refactor duplicate code! Based on your codebase analysis:\n\n**Current Status:**\n- Found 15 duplicate clusters across 8 repositories\n- Total duplicate code: 8% of codebase\n- Estimated refactoring time: 42 hours\n- Potential savings: $12,000/year in maintenance costs\n\n**Top Duplicates to Fix:**\n1. **Authentication Flow** (3 implementations) - Best: `/auth/oauth_handler.py` (Quality: 9.1)\n2. **Database Connection Pool** (4 implementations) - Best: `/db/pool_manager.py` (Quality: 8.9)\n3. **Error Handling Middleware** (5 implementations) - Best: `/middleware/error_handler.py` (Quality: 8.7)\n\n**Recommended Action:**\nI can generate a prioritized refactoring plan that:\n- Marks the best implementation in each cluster\n- Provides step-by-step migration guide\n- Estimates time and ROI for each refactoring\n\nWould you like me to generate the refactoring plan for the top 3 duplicates?',
-        timestamp: new Date(now.getTime() - 1795000).toISOString()
-      }
-    ];
+    const store = await getChatStore();
+    const userId = userIdFor(req);
+    const requestedId = typeof req.query.conversationId === 'string' ? req.query.conversationId : undefined;
 
-    const response: ChatHistoryResponse = { messages };
+    let conversation: ChatConversation | undefined;
+    if (requestedId) {
+      conversation = await store.getConversation(userId, requestedId);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+    } else {
+      conversation = (await store.listConversations(userId))[0];
+    }
 
+    const response: ChatHistoryResponse = {
+      conversationId: conversation?.id ?? null,
+      messages: conversation ? await store.listMessages(conversation.id) : [],
+    };
     res.json(response);
   } catch (error) {
-    console.error('Error fetching chat history:', error);
-    res.status(500).json({
-      error: 'Failed to fetch chat history',
-      message: error instanceof Error ? error.message : String(error)
-    });
+    sendError(res, error, 'Failed to fetch chat history');
   }
 });
 
-// POST /api/chat/send
-// Send a new message (placeholder for future implementation)
+/**
+ * POST /api/chat/send
+ * Body: { message, conversationId?, stream? }
+ *
+ * Stores the user message (starting a new conversation titled after it when no
+ * conversationId is given) and generates the assistant reply.
+ *
+ * Without streaming: { conversation, userMessage, assistantMessage }
+ *
+ * With `stream: true` or `Accept: text/event-stream`, an SSE stream:
+ *   event: start  data: { conversation, userMessage, assistantMessage }  (assistant content empty)
+ *   event: token  data: { token }
+ *   event: done   data: { assistantMessage }
+ *   event: error  data: { error, message }
+ * Closing the connection cancels the reply; the partial content is kept as 'cancelled'.
+ */
 chatRouter.post('/send', async (req, res) => {
+  const parsed = SendMessageSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid request', details: parsed.error.issues });
+  }
+
+  const { message, stream } = parsed.data;
+  const userId = userIdFor(req);
+  let conversation: ChatConversation | undefined;
+  let userMessage: ChatMessage;
+  let store: ChatStore;
+
   try {
-    const { message } = req.body;
+    store = await getChatStore();
+    conversation = parsed.data.conversationId
+      ? await store.getConversation(userId, parsed.data.conversationId)
+      : await store.createConversation(userId, titleFromMessage(message));
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    userMessage = await store.addMessage({ conversationId: conversation.id, role: 'user', content: message });
+  } catch (error) {
+    return sendError(res, error, 'Failed to send message');
+  }
 
-    if (!message || typeof message !== 'string') {
-      return res.status(400).json({
-        error: 'Invalid request',
-        message: 'Message field is required and must be a string'
-      });
+  const wantsStream = stream ?? req.accepts(['application/json', 'text/event-stream']) === 'text/event-stream';
+
+  if (!wantsStream) {
+    try {
+      const assistantMessage = await generateAssistantReply({ store, provider: assistant, conversationId: conversation.id });
+      return res.json({ conversation, userMessage, assistantMessage });
+    } catch (error) {
+      return sendError(res, error, 'Failed to generate reply');
     }
+  }
 
-    // TODO: Implement message sending to omniarchon
-    // TODO: Store message in database
-    // TODO: Get AI response
-    // TODO: Store AI response in database
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  const writeEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
 
-    res.status(501).json({
-      error: 'Not implemented',
-      message: 'Message sending functionality is not yet implemented. Integration with omniarchon service pending.'
+  const abort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) abort.abort();
+  });
+
+  try {
+    const assistantMessage = await generateAssistantReply({
+      store,
+      provider: assistant,
+      conversationId: conversation.id,
+      signal: abort.signal,
+      onStart: pending => writeEvent('start', { conversation, userMessage, assistantMessage: pending }),
+      onToken: token => writeEvent('token', { token }),
     });
+    writeEvent('done', { assistantMessage });
   } catch (error) {
-    console.error('Error sending message:', error);
-    res.status(500).json({
-      error: 'Failed to send message',
-      message: error instanceof Error ? error.message : String(error)
+    console.error('Error generating chat reply:', error);
+    writeEvent('error', {
+      error: 'Failed to generate reply',
+      message: error instanceof Error ? error.message : String(error),
     });
+  } finally {
+    res.end();
   }
 });
@@ -0,0 +1,276 @@
+import { randomUUID } from 'crypto';
+import { and, asc, desc, eq, sql } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import {
+  chatConversations,
+  chatMessages,
+  type ChatConversation,
+  type ChatMessage,
+  type ChatMessageStatus,
+  type ChatRole,
+} from '@shared/schema';
+
+/**
+ * Chat Store
+ *
+ * Persists assistant conversations (many per user) and their messages.
+ *
+ * Backends (CHAT_STORE):
+ * - 'postgres' (default): chat_conversations / chat_messages tables
+ * - 'memory': in-process only, also used when PostgreSQL is unreachable
+ */
+
+export interface ChatConversationSummary extends ChatConversation {
+  messageCount: number;
+  lastMessagePreview: string | null;
+}
+
+export interface NewChatMessage {
+  conversationId: string;
+  role: ChatRole;
+  content: string;
+  status?: ChatMessageStatus;
+}
+
+export interface ChatStore {
+  readonly name: string;
+  listConversations(userId: string): Promise<ChatConversationSummary[]>;
+  getConversation(userId: string, id: string): Promise<ChatConversation | undefined>;
+  createConversation(userId: string, title: string): Promise<ChatConversation>;
+  renameConversation(userId: string, id: string, title: string): Promise<ChatConversation | undefined>;
+  deleteConversation(userId: string, id: string): Promise<boolean>;
+  listMessages(conversationId: string): Promise<ChatMessage[]>;
+  addMessage(message: NewChatMessage): Promise<ChatMessage>;
+  updateMessage(id: string, update: { content: string; status: ChatMessageStatus }): Promise<ChatMessage | undefined>;
+}
+
+export const MAX_TITLE_LENGTH = 80;
+const PREVIEW_LENGTH = 120;
+
+/**
+ * Conversation title derived from the first user message
+ */
+export function titleFromMessage(message: string): string {
+  const singleLine = message.replace(/\s+/g, ' ').trim();
+  if (!singleLine) return 'New conversation';
+  return singleLine.length > MAX_TITLE_LENGTH ? `${singleLine.slice(0, MAX_TITLE_LENGTH - 1)}…` : singleLine;
+}
+
+function preview(content: string | undefined): string | null {
+  if (!content) return null;
+  return content.length > PREVIEW_LENGTH ? `${content.slice(0, PREVIEW_LENGTH - 1)}…` : content;
+}
+
+export class MemChatStore implements ChatStore {
+  readonly name = 'memory';
+  private conversations = new Map<string, ChatConversation>();
+  private messages = new Map<string, ChatMessage[]>();
+
+  constructor(private readonly now: () => Date = () => new Date()) {}
+
+  async listConversations(userId: string): Promise<ChatConversationSummary[]> {
+    return Array.from(this.conversations.values())
+      .filter(conversation => conversation.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map(conversation => {
+        const messages = this.messages.get(conversation.id) ?? [];
+        return {
+          ...conversation,
+          messageCount: messages.length,
+          lastMessagePreview: preview(messages[messages.length - 1]?.content),
+        };
+      });
+  }
+
+  async getConversation(userId: string, id: string): Promise<ChatConversation | undefined> {
+    const conversation = this.conversations.get(id);
+    return conversation?.userId === userId ? conversation : undefined;
+  }
+
+  async createConversation(userId: string, title: string): Promise<ChatConversation> {
+    const now = this.now();
+    const conversation: ChatConversation = { id: randomUUID(), userId, title, createdAt: now, updatedAt: now };
+    this.conversations.set(conversation.id, conversation);
+    this.messages.set(conversation.id, []);
+    return conversation;
+  }
+
+  async renameConversation(userId: string, id: string, title: string): Promise<ChatConversation | undefined> {
+    const conversation = await this.getConversation(userId, id);
+    if (!conversation) return undefined;
+    conversation.title = title;
+    conversation.updatedAt = this.now();
+    return conversation;
+  }
+
+  async deleteConversation(userId: string, id: string): Promise<boolean> {
+    if (!(await this.getConversation(userId, id))) return false;
+    this.conversations.delete(id);
+    this.messages.delete(id);
+    return true;
+  }
+
+  async listMessages(conversationId: string): Promise<ChatMessage[]> {
+    return [...(this.messages.get(conversationId) ?? [])];
+  }
+
+  async addMessage(message: NewChatMessage): Promise<ChatMessage> {
+    const conversation = this.conversations.get(message.conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${message.conversationId} not found`);
+    }
+
+    const stored: ChatMessage = {
+      id: randomUUID(),
+      conversationId: message.conversationId,
+      role: message.role,
+      content: message.content,
+      status: message.status ?? 'complete',
+      createdAt: this.now(),
+    };
+    this.messages.get(message.conversationId)!.push(stored);
+    conversation.updatedAt = stored.createdAt;
+    return stored;
+  }
+
+  async updateMessage(id: string, update: { content: string; status: ChatMessageStatus }): Promise<ChatMessage | undefined> {
+    for (const messages of Array.from(this.messages.values())) {
+      const message = messages.find(m => m.id === id);
+      if (message) {
+        Object.assign(message, update);
+        return message;
+      }
+    }
+    return undefined;
+  }
+}
+
+export class PostgresChatStore implements ChatStore {
+  readonly name = 'postgres';
+
+  constructor(private readonly db: NodePgDatabase) {}
+
+  /**
+   * Create the tables when `npm run db:push` has not been run yet
+   */
+  async init(): Promise<void> {
+    await this.db.execute(sql`
+      CREATE TABLE IF NOT EXISTS chat_conversations (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    await this.db.execute(sql`
+      CREATE TABLE IF NOT EXISTS chat_messages (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        conversation_id VARCHAR NOT NULL REFERENCES chat_conversations(id) ON DELETE CASCADE,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'complete',
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+  }
+
+  async listConversations(userId: string): Promise<ChatConversationSummary[]> {
+    const rows = await this.db
+      .select({
+        conversation: chatConversations,
+        messageCount: sql<number>`(SELECT COUNT(*)::int FROM chat_messages m WHERE m.conversation_id = ${chatConversations.id})`,
+        lastMessagePreview: sql<string | null>`(SELECT LEFT(m.content, ${PREVIEW_LENGTH}) FROM chat_messages m WHERE m.conversation_id = ${chatConversations.id} ORDER BY m.created_at DESC LIMIT 1)`,
+      })
+      .from(chatConversations)
+      .where(eq(chatConversations.userId, userId))
+      .orderBy(desc(chatConversations.updatedAt));
+
+    return rows.map(row => ({
+      ...row.conversation,
+      messageCount: Number(row.messageCount),
+      lastMessagePreview: row.lastMessagePreview,
+    }));
+  }
+
+  async getConversation(userId: string, id: string): Promise<ChatConversation | undefined> {
+    const rows = await this.db
+      .select()
+      .from(chatConversations)
+      .where(and(eq(chatConversations.id, id), eq(chatConversations.userId, userId)))
+      .limit(1);
+    return rows[0];
+  }
+
+  async createConversation(userId: string, title: string): Promise<ChatConversation> {
+    const rows = await this.db.insert(chatConversations).values({ userId, title }).returning();
+    return rows[0];
+  }
+
+  async renameConversation(userId: string, id: string, title: string): Promise<ChatConversation | undefined> {
+    const rows = await this.db
+      .update(chatConversations)
+      .set({ title, updatedAt: new Date() })
+      .where(and(eq(chatConversations.id, id), eq(chatConversations.userId, userId)))
+      .returning();
+    return rows[0];
+  }
+
+  async deleteConversation(userId: string, id: string): Promise<boolean> {
+    const rows = await this.db
+      .delete(chatConversations)
+      .where(and(eq(chatConversations.id, id), eq(chatConversations.userId, userId)))
+      .returning({ id: chatConversations.id });
+    return rows.length > 0;
+  }
+
+  async listMessages(conversationId: string): Promise<ChatMessage[]> {
+    return this.db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.conversationId, conversationId))
+      .orderBy(asc(chatMessages.createdAt));
+  }
+
+  async addMessage(message: NewChatMessage): Promise<ChatMessage> {
+    const rows = await this.db
+      .insert(chatMessages)
+      .values({ ...message, status: message.status ?? 'complete' })
+      .returning();
+    await this.db
+      .update(chatConversations)
+      .set({ updatedAt: rows[0].createdAt })
+      .where(eq(chatConversations.id, message.conversationId));
+    return rows[0];
+  }
+
+  async updateMessage(id: string, update: { content: string; status: ChatMessageStatus }): Promise<ChatMessage | undefined> {
+    const rows = await this.db.update(chatMessages).set(update).where(eq(chatMessages.id, id)).returning();
+    return rows[0];
+  }
+}
+
+/**
+ * Create the chat store configured through the environment, falling back to
+ * memory when PostgreSQL is unreachable so chat keeps working offline
+ */
+export async function createChatStore(db: NodePgDatabase, env: NodeJS.ProcessEnv = process.env): Promise<ChatStore> {
+  const backend = (env.CHAT_STORE || 'postgres').toLowerCase();
+
+  if (backend === 'memory') {
+    return new MemChatStore();
+  }
+  if (backend !== 'postgres') {
+    console.warn(`[ChatStore] Unknown CHAT_STORE "${backend}", using in-memory store`);
+    return new MemChatStore();
+  }
+
+  const store = new PostgresChatStore(db);
+  try {
+    await store.init();
+    return store;
+  } catch (error) {
+    console.warn('[ChatStore] PostgreSQL unavailable, conversations will not survive restarts:', error);
+    return new MemChatStore();
+  }
+}
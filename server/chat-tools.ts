@@ -0,0 +1,264 @@
+import { z, type ZodTypeAny } from 'zod';
+import type { AgentSummaryRow, CorrelationTrace, PatternSummary } from './intelligence-queries';
+import type { SavingsMetrics } from './savings-routes';
+
+/**
+ * Chat Tools
+ *
+ * Tools the chat assistant calls to ground its answers in live dashboard data.
+ * Each tool wraps one internal query (the same functions behind the API routes),
+ * returns a short answer with the numbers it used, the API source they came
+ * from, and the dashboard route where the user can drill in.
+ *
+ * Query functions are injected through ChatDataSource so tools can run without
+ * a database in tests.
+ */
+
+export interface ChatDataSource {
+  getAgentSummary(timeWindow: string): Promise<AgentSummaryRow[]>;
+  getPatternSummary(): Promise<PatternSummary>;
+  getPerformanceSummary(): PerformanceSummary | Promise<PerformanceSummary>;
+  getSavingsMetrics(timeRange: string): SavingsMetrics | Promise<SavingsMetrics>;
+  getCorrelationTrace(correlationId: string): Promise<CorrelationTrace>;
+}
+
+export interface PerformanceSummary {
+  totalQueries: number;
+  cacheHitCount: number;
+  avgRoutingDuration: number;
+  cacheHitRate: number; // percent
+}
+
+export interface ToolResult {
+  tool: string;
+  text: string;
+  // API the numbers came from
+  source: string;
+  link: { label: string; href: string };
+}
+
+export interface ChatTool<Args = any> {
+  name: string;
+  description: string;
+  parameters: ZodTypeAny;
+  /**
+   * Arguments when the message asks for this tool's data, otherwise null
+   */
+  match(message: string): Args | null;
+  run(args: Args, data: ChatDataSource): Promise<ToolResult>;
+}
+
+const UUID_IN_TEXT = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+
+export function formatPercent(value: number, digits = 1): string {
+  return `${value.toFixed(digits).replace(/\.0+$/, '')}%`;
+}
+
+export function formatMs(value: number): string {
+  return value >= 1000 ? `${(value / 1000).toFixed(1)}s` : `${Math.round(value)}ms`;
+}
+
+export function formatCurrency(value: number): string {
+  return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Time window mentioned in a message: 24h (default), 7d or 30d
+ */
+export function timeWindowFrom(message: string): '24h' | '7d' | '30d' {
+  if (/\b(30\s*d(ays?)?|month(ly)?)\b/i.test(message)) return '30d';
+  if (/\b(7\s*d(ays?)?|week(ly)?)\b/i.test(message)) return '7d';
+  return '24h';
+}
+
+const TIME_WINDOW_LABEL = { '24h': 'last 24 hours', '7d': 'last 7 days', '30d': 'last 30 days' } as const;
+
+export const agentSummaryTool: ChatTool<{ timeWindow: '24h' | '7d' | '30d'; focus: 'errors' | 'volume' }> = {
+  name: 'agent_summary',
+  description: 'Per-agent request volume, success rate, routing time and confidence',
+  parameters: z.object({
+    timeWindow: z.enum(['24h', '7d', '30d']).default('24h'),
+    focus: z.enum(['errors', 'volume']).default('volume'),
+  }),
+  match(message) {
+    if (!/\b(agents?|errors?|fail(ure|ing|s)?|success|confidence|busiest|routing)\b/i.test(message)) return null;
+    return {
+      timeWindow: timeWindowFrom(message),
+      focus: /\b(errors?|fail(ure|ing|s)?|success|worst|low)\b/i.test(message) ? 'errors' : 'volume',
+    };
+  },
+  async run({ timeWindow, focus }, data) {
+    const agents = await data.getAgentSummary(timeWindow);
+    const source = `GET /api/intelligence/agents/summary?timeWindow=${timeWindow}`;
+    const link = { label: 'Agent Management', href: '/' };
+
+    if (agents.length === 0) {
+      return { tool: this.name, text: `No agent activity was recorded in the ${TIME_WINDOW_LABEL[timeWindow]}.`, source, link };
+    }
+
+    const totalRequests = agents.reduce((sum, agent) => sum + agent.totalRequests, 0);
+    const describe = (agent: AgentSummaryRow) =>
+      `**${agent.agent}** (${agent.totalRequests} requests, ` +
+      `${agent.successRate !== null ? `${formatPercent(agent.successRate * 100)} success` : 'no outcomes yet'}, ` +
+      `${formatMs(agent.avgRoutingTime)} avg routing)`;
+
+    const ranked = focus === 'errors'
+      ? agents.filter(agent => agent.successRate !== null).sort((a, b) => a.successRate! - b.successRate!)
+      : [...agents].sort((a, b) => b.totalRequests - a.totalRequests);
+    const heading = focus === 'errors' ? 'Lowest success rates' : 'Busiest agents';
+
+    return {
+      tool: this.name,
+      text: `${agents.length} agents handled ${totalRequests} requests in the ${TIME_WINDOW_LABEL[timeWindow]}. ` +
+        `${heading}: ${ranked.slice(0, 3).map(describe).join('; ')}.`,
+      source,
+      link,
+    };
+  },
+};
+
+export const patternSummaryTool: ChatTool<Record<string, never>> = {
+  name: 'pattern_summary',
+  description: 'Number of discovered code patterns, languages and executions',
+  parameters: z.object({}),
+  match(message) {
+    return /\bpatterns?\b/i.test(message) ? {} : null;
+  },
+  async run(_args, data) {
+    const summary = await data.getPatternSummary();
+    const text = summary.total_patterns > 0
+      ? `**${summary.total_patterns}** code patterns have been discovered across **${summary.languages}** languages from **${summary.unique_executions}** executions.`
+      : 'No code patterns have been discovered yet.';
+    return {
+      tool: this.name,
+      text,
+      source: 'GET /api/intelligence/patterns/summary',
+      link: { label: 'Pattern Learning', href: '/patterns' },
+    };
+  },
+};
+
+export const performanceSummaryTool: ChatTool<Record<string, never>> = {
+  name: 'performance_summary',
+  description: 'Routing query volume, average routing duration and cache hit rate',
+  parameters: z.object({}),
+  match(message) {
+    return /\b(performance|latency|slow|fast|cache|duration|queries|health)\b/i.test(message) ? {} : null;
+  },
+  async run(_args, data) {
+    const stats = await data.getPerformanceSummary();
+    const text = stats.totalQueries > 0
+      ? `The router served **${stats.totalQueries}** queries with an average routing time of **${formatMs(stats.avgRoutingDuration)}** ` +
+        `and a cache hit rate of **${formatPercent(stats.cacheHitRate)}** (${stats.cacheHitCount} hits).`
+      : 'No routing performance metrics have been received yet.';
+    return {
+      tool: this.name,
+      text,
+      source: 'GET /api/intelligence/performance/summary',
+      link: { label: 'Intelligence Operations', href: '/intelligence' },
+    };
+  },
+};
+
+export const savingsMetricsTool: ChatTool<{ timeRange: '7d' | '30d' | '90d' }> = {
+  name: 'savings_metrics',
+  description: 'Token, compute and cost savings of intelligence-assisted runs versus baseline',
+  parameters: z.object({ timeRange: z.enum(['7d', '30d', '90d']).default('30d') }),
+  match(message) {
+    if (!/\b(costs?|savings?|sav(e|ed)|tokens?|spend(ing)?|budget|cheaper|money)\b/i.test(message)) return null;
+    if (/\b(90\s*d(ays?)?|quarter(ly)?)\b/i.test(message)) return { timeRange: '90d' };
+    if (/\b(7\s*d(ays?)?|week(ly)?)\b/i.test(message)) return { timeRange: '7d' };
+    return { timeRange: '30d' };
+  },
+  async run({ timeRange }, data) {
+    const metrics = await data.getSavingsMetrics(timeRange);
+    const text = metrics.dataAvailable === false || metrics.intelligenceRuns + metrics.baselineRuns === 0
+      ? `No agent runs with cost data were recorded in the last ${timeRange}, so savings cannot be calculated yet.`
+      : `Over the last ${timeRange}, intelligence-assisted runs saved **${formatCurrency(metrics.totalSavings)}** ` +
+        `(${formatCurrency(metrics.dailySavings)}/day) with a **${formatPercent(metrics.efficiencyGain)}** token efficiency gain, ` +
+        `comparing ${metrics.intelligenceRuns} assisted runs against ${metrics.baselineRuns} baseline runs.`;
+    return {
+      tool: this.name,
+      text,
+      source: `GET /api/savings/metrics?timeRange=${timeRange}`,
+      link: { label: 'Intelligence Savings', href: '/preview/savings' },
+    };
+  },
+};
+
+export const correlationTraceTool: ChatTool<{ correlationId: string }> = {
+  name: 'correlation_trace',
+  description: 'Routing decisions, actions and manifest injections recorded for a correlation ID',
+  parameters: z.object({ correlationId: z.string().uuid() }),
+  match(message) {
+    const correlationId = message.match(UUID_IN_TEXT)?.[0];
+    return correlationId ? { correlationId: correlationId.toLowerCase() } : null;
+  },
+  async run({ correlationId }, data) {
+    const trace = await data.getCorrelationTrace(correlationId);
+    const link = { label: 'Correlation Trace', href: `/trace?id=${encodeURIComponent(correlationId)}` };
+    const source = `GET /api/intelligence/trace/${correlationId}`;
+
+    if (trace.summary.totalEvents === 0) {
+      return { tool: this.name, text: `No events were found for correlation ID \`${correlationId}\`.`, source, link };
+    }
+
+    const agents = Array.from(new Set(trace.events.map(event => event.agentName).filter(Boolean)));
+    return {
+      tool: this.name,
+      text: `Correlation \`${correlationId}\` has **${trace.summary.totalEvents}** events ` +
+        `(${trace.summary.routingDecisions} routing decisions, ${trace.summary.actions} actions) ` +
+        `taking **${formatMs(trace.summary.totalDurationMs)}** in total` +
+        (agents.length > 0 ? `, involving ${agents.map(agent => `**${agent}**`).join(', ')}.` : '.'),
+      source,
+      link,
+    };
+  },
+};
+
+export const CHAT_TOOLS: ChatTool[] = [
+  correlationTraceTool,
+  agentSummaryTool,
+  performanceSummaryTool,
+  patternSummaryTool,
+  savingsMetricsTool,
+];
+
+/**
+ * Tools whose data the message asks for, with their arguments
+ */
+export function selectTools(message: string, tools: ChatTool[] = CHAT_TOOLS): Array<{ tool: ChatTool; args: unknown }> {
+  return tools.flatMap(tool => {
+    const args = tool.match(message);
+    return args ? [{ tool, args: tool.parameters.parse(args) }] : [];
+  });
+}
+
+/**
+ * Run the selected tools; a failing tool is reported instead of failing the answer
+ */
+export async function runTools(
+  selected: Array<{ tool: ChatTool; args: unknown }>,
+  data: ChatDataSource
+): Promise<Array<ToolResult | { tool: string; error: string }>> {
+  return Promise.all(selected.map(async ({ tool, args }) => {
+    try {
+      return await tool.run(args, data);
+    } catch (error) {
+      console.warn(`[ChatTools] ${tool.name} failed:`, error);
+      return { tool: tool.name, error: error instanceof Error ? error.message : String(error) };
+    }
+  }));
+}
+
+/**
+ * Compose the answer: each tool's findings with its source and a dashboard link
+ */
+export function composeGroundedAnswer(results: Array<ToolResult | { tool: string; error: string }>): string {
+  return results.map(result => {
+    if ('error' in result) {
+      return `I couldn't load data for ${result.tool.replace(/_/g, ' ')} (${result.error}).`;
+    }
+    return `${result.text}\n_Source: \`${result.source}\`_ · [Open ${result.link.label}](${result.link.href})`;
+  }).join('\n\n');
+}
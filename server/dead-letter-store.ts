@@ -0,0 +1,222 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { ZodIssue, ZodTypeAny } from 'zod';
+import { KAFKA_EVENT_SCHEMAS, type KafkaEventTopic } from '@shared/intelligence-schema';
+
+/**
+ * Dead-Letter Store
+ *
+ * Kafka messages that cannot be parsed, fail their topic schema, or throw in a
+ * handler are kept here with the reason, topic, offset and raw payload instead
+ * of being dropped. Entries can be replayed once the producer or schema is fixed.
+ *
+ * Entries are held in memory (bounded) and optionally mirrored to a JSON file
+ * (DEAD_LETTER_STORE_PATH) so they survive restarts.
+ */
+
+export type DeadLetterReason = 'invalid_json' | 'schema_validation' | 'handler_error' | 'unknown_topic';
+
+export interface DeadLetterIssue {
+  path: string;
+  message: string;
+}
+
+export interface DeadLetterEntry {
+  id: string;
+  topic: string;
+  partition: number | null;
+  offset: string | null;
+  reason: DeadLetterReason;
+  error: string;
+  issues: DeadLetterIssue[];
+  rawPayload: string;
+  receivedAt: string;
+  replayAttempts: number;
+  lastReplayAt: string | null;
+}
+
+export interface DeadLetterCounts {
+  total: number;
+  byTopic: Record<string, number>;
+  byReason: Record<string, number>;
+}
+
+export type ValidationResult =
+  | { ok: true; topic: string; event: any }
+  | { ok: false; reason: DeadLetterReason; error: string; issues: DeadLetterIssue[] };
+
+function toIssues(issues: ZodIssue[]): DeadLetterIssue[] {
+  return issues.map(issue => ({
+    path: issue.path.join('.') || '(root)',
+    message: issue.message,
+  }));
+}
+
+export function isKafkaEventTopic(topic: string): topic is KafkaEventTopic {
+  return Object.prototype.hasOwnProperty.call(KAFKA_EVENT_SCHEMAS, topic);
+}
+
+/**
+ * Parse and validate a raw Kafka payload against its topic schema.
+ * Uses the built-in schema for the topic unless one is given (topic registry).
+ */
+export function validateKafkaEvent(topic: string, rawPayload: string, schema?: ZodTypeAny): ValidationResult {
+  const topicSchema = schema ?? (isKafkaEventTopic(topic) ? KAFKA_EVENT_SCHEMAS[topic] : undefined);
+  if (!topicSchema) {
+    return { ok: false, reason: 'unknown_topic', error: `No schema registered for topic "${topic}"`, issues: [] };
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawPayload);
+  } catch (error) {
+    return {
+      ok: false,
+      reason: 'invalid_json',
+      error: error instanceof Error ? error.message : 'Invalid JSON',
+      issues: [],
+    };
+  }
+
+  const parsed = topicSchema.safeParse(payload);
+  if (!parsed.success) {
+    const issues = toIssues(parsed.error.issues);
+    return {
+      ok: false,
+      reason: 'schema_validation',
+      error: issues.map(issue => `${issue.path}: ${issue.message}`).join('; '),
+      issues,
+    };
+  }
+
+  return { ok: true, topic, event: parsed.data };
+}
+
+export class DeadLetterStore {
+  private entries: DeadLetterEntry[] = [];
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly maxEntries: number = 1000,
+    private readonly filePath: string | null = null,
+    private readonly now: () => Date = () => new Date(),
+  ) {}
+
+  /**
+   * Load persisted entries (no-op without a file path)
+   */
+  async load(): Promise<void> {
+    if (!this.filePath) return;
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      const stored = JSON.parse(contents);
+      if (Array.isArray(stored)) {
+        this.entries = stored.slice(0, this.maxEntries);
+      }
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.warn('[DeadLetterStore] Failed to load dead letters:', error);
+      }
+    }
+  }
+
+  add(entry: {
+    topic: string;
+    partition?: number | null;
+    offset?: string | null;
+    reason: DeadLetterReason;
+    error: string;
+    issues?: DeadLetterIssue[];
+    rawPayload: string;
+  }): DeadLetterEntry {
+    const deadLetter: DeadLetterEntry = {
+      id: randomUUID(),
+      topic: entry.topic,
+      partition: entry.partition ?? null,
+      offset: entry.offset ?? null,
+      reason: entry.reason,
+      error: entry.error,
+      issues: entry.issues ?? [],
+      rawPayload: entry.rawPayload,
+      receivedAt: this.now().toISOString(),
+      replayAttempts: 0,
+      lastReplayAt: null,
+    };
+
+    // Newest first, bounded
+    this.entries.unshift(deadLetter);
+    if (this.entries.length > this.maxEntries) {
+      this.entries = this.entries.slice(0, this.maxEntries);
+    }
+    this.persist();
+    return deadLetter;
+  }
+
+  list(options: { topic?: string; reason?: DeadLetterReason; limit?: number } = {}): DeadLetterEntry[] {
+    let entries = this.entries;
+    if (options.topic) entries = entries.filter(entry => entry.topic === options.topic);
+    if (options.reason) entries = entries.filter(entry => entry.reason === options.reason);
+    return options.limit !== undefined ? entries.slice(0, options.limit) : entries;
+  }
+
+  get(id: string): DeadLetterEntry | undefined {
+    return this.entries.find(entry => entry.id === id);
+  }
+
+  counts(): DeadLetterCounts {
+    const counts: DeadLetterCounts = { total: this.entries.length, byTopic: {}, byReason: {} };
+    for (const entry of this.entries) {
+      counts.byTopic[entry.topic] = (counts.byTopic[entry.topic] || 0) + 1;
+      counts.byReason[entry.reason] = (counts.byReason[entry.reason] || 0) + 1;
+    }
+    return counts;
+  }
+
+  remove(id: string): boolean {
+    const before = this.entries.length;
+    this.entries = this.entries.filter(entry => entry.id !== id);
+    if (this.entries.length === before) return false;
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Record a failed replay attempt with the latest failure details
+   */
+  recordReplayFailure(id: string, failure: { reason: DeadLetterReason; error: string; issues: DeadLetterIssue[] }): DeadLetterEntry | undefined {
+    const entry = this.get(id);
+    if (!entry) return undefined;
+
+    entry.reason = failure.reason;
+    entry.error = failure.error;
+    entry.issues = failure.issues;
+    entry.replayAttempts++;
+    entry.lastReplayAt = this.now().toISOString();
+    this.persist();
+    return entry;
+  }
+
+  /**
+   * Wait for pending file writes (used on shutdown and in tests)
+   */
+  flush(): Promise<void> {
+    return this.writeChain;
+  }
+
+  // Serialize writes so concurrent updates never interleave on disk
+  private persist() {
+    if (!this.filePath) return;
+    const filePath = this.filePath;
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(this.entries), 'utf8');
+        await fs.rename(tempPath, filePath);
+      })
+      .catch(error => {
+        console.warn('[DeadLetterStore] Failed to persist dead letters:', error);
+      });
+  }
+}
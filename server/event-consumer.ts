@@ -1,7 +1,26 @@
-import { Kafka, Consumer } from 'kafkajs';
 import { EventEmitter } from 'events';
 import { intelligenceDb } from './storage';
 import { sql } from 'drizzle-orm';
+import { containsTime, toTimeRange, type TimeRange } from '@shared/time-range';
+import { createAggregateStore, type AggregateStore } from './aggregate-store';
+import { DeadLetterStore, validateKafkaEvent, type DeadLetterEntry } from './dead-letter-store';
+import { createEventSource, createRecorder, type EventSource, type NdjsonRecorder, type OffsetResetResult, type SourceMessage } from './event-source';
+import {
+  TopicEntrySchema,
+  TopicRegistry,
+  loadTopicConfig,
+  resolveTopicEntry,
+  type ConsumerTopicConfig,
+  type TopicDefinition,
+  type TopicEntry,
+} from './topic-registry';
+import type {
+  AgentActionEvent,
+  AgentRunMetricEvent,
+  PerformanceMetricEvent,
+  RoutingDecisionEvent,
+  TransformationEventPayload,
+} from '@shared/intelligence-schema';
 
 export interface AgentMetrics {
   agent: string;
@@ -48,6 +67,74 @@ export interface TransformationEvent {
   createdAt: Date;
 }
 
+export interface AgentMetricsAggregate {
+  count: number;
+  totalRoutingTime: number;
+  totalConfidence: number;
+  successCount: number;
+  errorCount: number;
+  lastSeen: Date;
+}
+
+export interface PerformanceMetric {
+  id: string;
+  correlationId: string;
+  queryText: string;
+  routingDurationMs: number;
+  cacheHit: boolean;
+  candidatesEvaluated: number;
+  triggerMatchStrategy: string;
+  createdAt: Date;
+}
+
+// A completed agent run reported on the agent-run-metrics topic
+export interface AgentRunMetric {
+  id: string;
+  correlationId: string | null;
+  agentId: string;
+  agentName: string;
+  // Unset when the producer leaves classification to the manifest injections
+  withIntelligence?: boolean;
+  tokensUsed: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  computeUnits: number;
+  // Priced from the pricing catalog when the producer reports none
+  cost?: number;
+  durationMs: number | null;
+  success: boolean;
+  model?: string;
+  provider?: string;
+  project?: string;
+  patternsUsed?: string[];
+  createdAt: Date;
+}
+
+export interface PerformanceStats {
+  totalQueries: number;
+  cacheHitCount: number;
+  avgRoutingDuration: number;
+  totalRoutingDuration: number;
+}
+
+/**
+ * Handler for a registered topic. Returns the payload to broadcast over
+ * WebSocket (as the topic's wsMessageType), or undefined to skip broadcasting.
+ */
+export type TopicHandler = (event: any, definition: TopicDefinition) => unknown;
+
+/**
+ * In-memory aggregate state persisted through an AggregateStore
+ */
+export interface EventConsumerAggregates {
+  agentMetrics: Map<string, AgentMetricsAggregate>;
+  recentActions: AgentAction[];
+  routingDecisions: RoutingDecision[];
+  recentTransformations: TransformationEvent[];
+  performanceMetrics: PerformanceMetric[];
+  performanceStats: PerformanceStats;
+}
+
 /**
  * EventConsumer class for aggregating Kafka events and emitting updates
  *
@@ -57,80 +144,117 @@ export interface TransformationEvent {
  * - 'routingUpdate': When new routing decision arrives (RoutingDecision)
  * - 'transformationUpdate': When new transformation event arrives (TransformationEvent)
  * - 'performanceUpdate': When new performance metric arrives (metric, stats)
+ * - 'topicEvent': When any registered topic produces a broadcastable record ({ definition, payload })
+ * - 'deadLetter': When a message is rejected and stored in the dead-letter store (DeadLetterEntry)
  * - 'error': When error occurs during processing (Error)
  * - 'connected': When consumer successfully connects
  * - 'disconnected': When consumer disconnects
  */
 class EventConsumer extends EventEmitter {
-  private kafka: Kafka;
-  private consumer: Consumer | null = null;
+  // Kafka consumer group or NDJSON replay (EVENT_SOURCE), optionally recorded to NDJSON
+  private source: EventSource | null = null;
+  private recorder: NdjsonRecorder | null = null;
   private isRunning = false;
 
   // In-memory aggregations
-  private agentMetrics = new Map<string, {
-    count: number;
-    totalRoutingTime: number;
-    totalConfidence: number;
-    successCount: number;
-    errorCount: number;
-    lastSeen: Date;
-  }>();
+  private agentMetrics = new Map<string, AgentMetricsAggregate>();
 
   private recentActions: AgentAction[] = [];
-  private maxActions = 100;
-
   private routingDecisions: RoutingDecision[] = [];
-  private maxDecisions = 100;
-
   private recentTransformations: TransformationEvent[] = [];
-  private maxTransformations = 100;
+
+  // Records from topics using the generic 'recent-events' handler, keyed by topic
+  private topicEvents = new Map<string, any[]>();
 
   // Performance metrics storage
-  private performanceMetrics: Array<{
-    id: string;
-    correlationId: string;
-    queryText: string;
-    routingDurationMs: number;
-    cacheHit: boolean;
-    candidatesEvaluated: number;
-    triggerMatchStrategy: string;
-    createdAt: Date;
-  }> = [];
+  private performanceMetrics: PerformanceMetric[] = [];
 
   // Aggregated stats for quick access
-  private performanceStats = {
+  private performanceStats: PerformanceStats = {
     totalQueries: 0,
     cacheHitCount: 0,
     avgRoutingDuration: 0,
     totalRoutingDuration: 0,
   };
 
+  // Aggregate persistence (periodic snapshots, restored on start)
+  private aggregateStore: AggregateStore | null = createAggregateStore(intelligenceDb);
+  private snapshotTimer: NodeJS.Timeout | null = null;
+  private eventsSinceSnapshot = 0;
+  private snapshotIntervalMs = parseInt(process.env.EVENT_AGGREGATE_SNAPSHOT_INTERVAL_MS || '60000', 10);
+
+  // Messages rejected by JSON parsing, topic schemas or handlers
+  private deadLetters = new DeadLetterStore(
+    parseInt(process.env.DEAD_LETTER_MAX_ENTRIES || '1000', 10),
+    process.env.DEAD_LETTER_STORE_PATH || null
+  );
+
+  // Topic registry (handlers, schemas, retention caps, WebSocket message types)
+  private topicConfig: ConsumerTopicConfig;
+  private topicConfigError: Error | null = null;
+  private registry: TopicRegistry;
+  private topicHandlers = new Map<string, TopicHandler>([
+    ['routing-decisions', (event) => this.handleRoutingDecision(event)],
+    ['agent-actions', (event) => this.handleAgentAction(event)],
+    ['transformations', (event) => this.handleTransformationEvent(event)],
+    ['performance-metrics', (event) => this.handlePerformanceMetric(event)],
+    ['agent-run-metrics', (event) => this.handleAgentRunMetric(event)],
+    ['recent-events', (event, definition) => this.handleTopicEvent(event, definition)],
+  ]);
+
   constructor() {
     super(); // Initialize EventEmitter
 
-    this.kafka = new Kafka({
-      brokers: (process.env.KAFKA_BROKERS || '192.168.86.200:9092').split(','),
-      clientId: 'omnidash-event-consumer',
-    });
+    try {
+      this.topicConfig = loadTopicConfig();
+      this.source = createEventSource(this.topicConfig.groupId);
+    } catch (error) {
+      // Surface the error from start() instead of crashing on import
+      this.topicConfigError = error instanceof Error ? error : new Error(String(error));
+      this.topicConfig = loadTopicConfig({});
+    }
+    this.registry = new TopicRegistry(this.topicConfig.topics);
+  }
 
-    this.consumer = this.kafka.consumer({
-      groupId: 'omnidash-consumers-v2', // Changed to force reading from beginning
-    });
+  // Retention caps come from the topic registry
+  private get maxActions() {
+    return this.registry.retentionFor('agent-actions', 100);
+  }
+
+  private get maxDecisions() {
+    return this.registry.retentionFor('routing-decisions', 100);
+  }
+
+  private get maxTransformations() {
+    return this.registry.retentionFor('transformations', 100);
+  }
+
+  private get maxPerformanceMetrics() {
+    return this.registry.retentionFor('performance-metrics', 200);
   }
 
   async start() {
-    if (this.isRunning || !this.consumer) {
+    if (this.topicConfigError) {
+      throw this.topicConfigError;
+    }
+
+    if (this.isRunning || !this.source) {
       console.log('Event consumer already running or not initialized');
       return;
     }
+    const source = this.source;
+
+    // Restore aggregates from the last snapshot before consuming new events
+    const restored = await this.restoreAggregates();
+    await this.deadLetters.load();
 
     try {
-      await this.consumer.connect();
-      console.log('Kafka consumer connected');
+      await source.connect();
+      console.log(`[EventConsumer] ${source.kind === 'kafka' ? 'Kafka consumer' : 'NDJSON replay source'} connected`);
       this.emit('connected'); // Emit connected event
 
-      // Preload historical data from PostgreSQL to populate dashboards on startup
-      if (process.env.ENABLE_EVENT_PRELOAD !== 'false') {
+      // Without a snapshot, preload historical data from PostgreSQL to populate dashboards on startup
+      if (!restored && process.env.ENABLE_EVENT_PRELOAD !== 'false') {
         try {
           await this.preloadFromDatabase();
           console.log('[EventConsumer] Preloaded historical data from PostgreSQL');
@@ -139,56 +263,54 @@ class EventConsumer extends EventEmitter {
         }
       }
 
-      await this.consumer.subscribe({
-        topics: [
-          'agent-routing-decisions',
-          'agent-transformation-events',
-          'router-performance-metrics',
-          'agent-actions'
-        ],
-        fromBeginning: true, // Reprocess historical events to populate metrics
+      const topics = this.registry.topics();
+      await source.subscribe(topics, {
+        fromBeginning: this.topicConfig.fromBeginning, // Only applies when the group has no committed offsets
       });
+      console.log(`[EventConsumer] Subscribed to ${topics.join(', ')} as group ${this.topicConfig.groupId}`);
 
-      await this.consumer.run({
-        eachMessage: async ({ topic, message }) => {
-          try {
-            const event = JSON.parse(message.value?.toString() || '{}');
-            console.log(`[EventConsumer] Received event from topic: ${topic}`);
-
-            switch (topic) {
-              case 'agent-routing-decisions':
-                console.log(`[EventConsumer] Processing routing decision for agent: ${event.selected_agent || event.selectedAgent}`);
-                this.handleRoutingDecision(event);
-                break;
-              case 'agent-actions':
-                console.log(`[EventConsumer] Processing action: ${event.action_type || event.actionType} from ${event.agent_name || event.agentName}`);
-                this.handleAgentAction(event);
-                break;
-              case 'agent-transformation-events':
-                console.log(`[EventConsumer] Processing transformation: ${event.source_agent || event.sourceAgent} → ${event.target_agent || event.targetAgent}`);
-                this.handleTransformationEvent(event);
-                break;
-              case 'router-performance-metrics':
-                console.log(`[EventConsumer] Processing performance metric: ${event.routing_duration_ms || event.routingDurationMs}ms`);
-                this.handlePerformanceMetric(event);
-                break;
-            }
-          } catch (error) {
-            console.error('Error processing Kafka message:', error);
-            this.emit('error', error); // Emit error event
-          }
-        },
-      });
+      this.recorder = createRecorder();
+      if (this.recorder) {
+        console.log(`[EventConsumer] Recording received events to ${this.recorder.filePath}`);
+      }
 
+      // Flag before run(): a file source may deliver messages as soon as it starts
       this.isRunning = true;
+      await source.run(async (message) => this.handleSourceMessage(message));
+
+      this.startSnapshotTimer();
       console.log('Event consumer started successfully');
     } catch (error) {
+      this.isRunning = false;
       console.error('Failed to start event consumer:', error);
       this.emit('error', error); // Emit error event
       throw error;
     }
   }
 
+  private async handleSourceMessage(message: SourceMessage) {
+    const { topic, partition, offset, value: rawPayload } = message;
+    console.log(`[EventConsumer] Received event from topic: ${topic}`);
+
+    // Record before processing so rejected messages are captured too
+    this.recorder?.record(message);
+
+    const result = this.processEvent(topic, rawPayload);
+    if (!result.ok) {
+      const entry = this.deadLetters.add({
+        topic,
+        partition,
+        offset,
+        reason: result.reason,
+        error: result.error,
+        issues: result.issues,
+        rawPayload,
+      });
+      console.warn(`[EventConsumer] Dead-lettered message from ${topic} at offset ${offset} (${result.reason}): ${result.error}`);
+      this.emit('deadLetter', entry);
+    }
+  }
+
   private async preloadFromDatabase() {
     try {
       // Load recent actions
@@ -229,7 +351,10 @@ class EventConsumer extends EventEmitter {
         SELECT COALESCE(ard.selected_agent, aa.agent_name) AS agent,
                COUNT(aa.id) AS total_requests,
                AVG(COALESCE(ard.routing_time_ms, aa.duration_ms, 0)) AS avg_routing_time,
-               AVG(COALESCE(ard.confidence_score, 0)) AS avg_confidence
+               AVG(COALESCE(ard.confidence_score, 0)) AS avg_confidence,
+               COUNT(aa.id) FILTER (WHERE aa.action_type = 'success') AS success_count,
+               COUNT(aa.id) FILTER (WHERE aa.action_type = 'error') AS error_count,
+               GREATEST(MAX(aa.created_at), MAX(ard.created_at)) AS last_seen
         FROM agent_actions aa
         FULL OUTER JOIN agent_routing_decisions ard
           ON aa.correlation_id = ard.correlation_id
@@ -252,9 +377,9 @@ class EventConsumer extends EventEmitter {
             count: Number(r.total_requests || 0),
             totalRoutingTime: Number(r.avg_routing_time || 0) * Number(r.total_requests || 0),
             totalConfidence: Number(r.avg_confidence || 0) * Number(r.total_requests || 0),
-            successCount: 0,
-            errorCount: 0,
-            lastSeen: new Date(),
+            successCount: Number(r.success_count || 0),
+            errorCount: Number(r.error_count || 0),
+            lastSeen: r.last_seen ? new Date(r.last_seen) : new Date(),
           });
         });
       }
@@ -270,12 +395,111 @@ class EventConsumer extends EventEmitter {
     }
   }
 
-  private handleRoutingDecision(event: any) {
-    const agent = event.selected_agent || event.selectedAgent;
-    if (!agent) {
-      console.warn('[EventConsumer] Routing decision missing agent name, skipping');
-      return;
+  /**
+   * Restore aggregates from the configured store.
+   * Returns true when a snapshot was applied.
+   */
+  private async restoreAggregates(): Promise<boolean> {
+    if (!this.aggregateStore) return false;
+
+    try {
+      const aggregates = await this.aggregateStore.load();
+      if (!aggregates) {
+        console.log(`[EventConsumer] No ${this.aggregateStore.name} aggregate snapshot to restore`);
+        return false;
+      }
+
+      this.agentMetrics = aggregates.agentMetrics;
+      this.recentActions = aggregates.recentActions.slice(0, this.maxActions);
+      this.routingDecisions = aggregates.routingDecisions.slice(0, this.maxDecisions);
+      this.recentTransformations = aggregates.recentTransformations.slice(0, this.maxTransformations);
+      this.performanceMetrics = aggregates.performanceMetrics.slice(0, this.maxPerformanceMetrics);
+      this.performanceStats = aggregates.performanceStats;
+
+      console.log(`[EventConsumer] Restored aggregates from ${this.aggregateStore.name} snapshot (${this.agentMetrics.size} agents, ${this.performanceStats.totalQueries} queries)`);
+      this.emit('metricUpdate', this.getAgentMetrics());
+      return true;
+    } catch (error) {
+      console.warn('[EventConsumer] Failed to restore aggregate snapshot:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Persist the current aggregates to the configured store
+   */
+  async snapshotAggregates(): Promise<void> {
+    if (!this.aggregateStore) return;
+
+    const pending = this.eventsSinceSnapshot;
+    try {
+      await this.aggregateStore.save({
+        agentMetrics: this.agentMetrics,
+        recentActions: this.recentActions,
+        routingDecisions: this.routingDecisions,
+        recentTransformations: this.recentTransformations,
+        performanceMetrics: this.performanceMetrics,
+        performanceStats: this.performanceStats,
+      });
+      this.eventsSinceSnapshot = Math.max(0, this.eventsSinceSnapshot - pending);
+    } catch (error) {
+      console.error('[EventConsumer] Failed to save aggregate snapshot:', error);
     }
+  }
+
+  private startSnapshotTimer() {
+    if (!this.aggregateStore || this.snapshotTimer || !(this.snapshotIntervalMs > 0)) return;
+
+    this.snapshotTimer = setInterval(() => {
+      if (this.eventsSinceSnapshot > 0) {
+        void this.snapshotAggregates();
+      }
+    }, this.snapshotIntervalMs);
+    // Snapshotting must not keep the process alive
+    this.snapshotTimer.unref();
+  }
+
+  /**
+   * Validate a raw payload against its topic schema and dispatch it to the handler.
+   * Never throws; failures are returned so the caller can dead-letter them.
+   */
+  private processEvent(topic: string, rawPayload: string): ReturnType<typeof validateKafkaEvent> {
+    const definition = this.registry.get(topic);
+    if (!definition || !definition.enabled) {
+      return { ok: false, reason: 'unknown_topic', error: `Topic "${topic}" is not registered`, issues: [] };
+    }
+
+    const validation = validateKafkaEvent(topic, rawPayload, definition.schema);
+    if (!validation.ok) {
+      return validation;
+    }
+
+    const handler = this.topicHandlers.get(definition.handler);
+    if (!handler) {
+      return { ok: false, reason: 'handler_error', error: `No handler registered as "${definition.handler}"`, issues: [] };
+    }
+
+    try {
+      const payload = handler(validation.event, definition);
+      this.eventsSinceSnapshot++;
+      if (payload !== undefined) {
+        this.emit('topicEvent', { definition, payload });
+      }
+      return validation;
+    } catch (error) {
+      console.error('Error processing Kafka message:', error);
+      this.emit('error', error); // Emit error event
+      return {
+        ok: false,
+        reason: 'handler_error',
+        error: error instanceof Error ? error.message : String(error),
+        issues: [],
+      };
+    }
+  }
+
+  private handleRoutingDecision(event: RoutingDecisionEvent) {
+    const agent = event.selectedAgent;
 
     const existing = this.agentMetrics.get(agent) || {
       count: 0,
@@ -287,8 +511,8 @@ class EventConsumer extends EventEmitter {
     };
 
     existing.count++;
-    existing.totalRoutingTime += event.routing_time_ms || event.routingTimeMs || 0;
-    existing.totalConfidence += event.confidence_score || event.confidenceScore || 0;
+    existing.totalRoutingTime += event.routingTimeMs;
+    existing.totalConfidence += event.confidenceScore;
     existing.lastSeen = new Date();
 
     this.agentMetrics.set(agent, existing);
@@ -303,15 +527,15 @@ class EventConsumer extends EventEmitter {
     // Store routing decision
     const decision: RoutingDecision = {
       id: event.id || crypto.randomUUID(),
-      correlationId: event.correlation_id || event.correlationId,
-      userRequest: event.user_request || event.userRequest || '',
+      correlationId: event.correlationId,
+      userRequest: event.userRequest,
       selectedAgent: agent,
-      confidenceScore: event.confidence_score || event.confidenceScore || 0,
-      routingStrategy: event.routing_strategy || event.routingStrategy || '',
+      confidenceScore: event.confidenceScore,
+      routingStrategy: event.routingStrategy,
       alternatives: event.alternatives,
       reasoning: event.reasoning,
-      routingTimeMs: event.routing_time_ms || event.routingTimeMs || 0,
-      createdAt: new Date(event.timestamp || event.createdAt || Date.now()),
+      routingTimeMs: event.routingTimeMs,
+      createdAt: event.createdAt ?? new Date(),
     };
 
     this.routingDecisions.unshift(decision);
@@ -323,26 +547,27 @@ class EventConsumer extends EventEmitter {
 
     // Emit routing update
     this.emit('routingUpdate', decision);
+    return decision;
   }
 
-  private handleAgentAction(event: any) {
+  private handleAgentAction(event: AgentActionEvent) {
     const action: AgentAction = {
       id: event.id || crypto.randomUUID(),
-      correlationId: event.correlation_id || event.correlationId,
-      agentName: event.agent_name || event.agentName,
-      actionType: event.action_type || event.actionType,
-      actionName: event.action_name || event.actionName,
-      actionDetails: event.action_details || event.actionDetails,
-      debugMode: event.debug_mode || event.debugMode,
-      durationMs: event.duration_ms || event.durationMs || 0,
-      createdAt: new Date(event.timestamp || event.createdAt || Date.now()),
+      correlationId: event.correlationId,
+      agentName: event.agentName,
+      actionType: event.actionType,
+      actionName: event.actionName,
+      actionDetails: event.actionDetails,
+      debugMode: event.debugMode,
+      durationMs: event.durationMs,
+      createdAt: event.createdAt ?? new Date(),
     };
 
     this.recentActions.unshift(action);
     console.log(`[EventConsumer] Added action to queue: ${action.actionName} (${action.agentName}), queue size: ${this.recentActions.length}`);
 
     // Track success/error rates per agent
-    if (action.agentName && (action.actionType === 'success' || action.actionType === 'error')) {
+    if (action.actionType === 'success' || action.actionType === 'error') {
       const existing = this.agentMetrics.get(action.agentName) || {
         count: 0,
         totalRoutingTime: 0,
@@ -374,18 +599,19 @@ class EventConsumer extends EventEmitter {
 
     // Emit update event for WebSocket broadcast
     this.emit('actionUpdate', action);
+    return action;
   }
 
-  private handleTransformationEvent(event: any) {
+  private handleTransformationEvent(event: TransformationEventPayload) {
     const transformation: TransformationEvent = {
       id: event.id || crypto.randomUUID(),
-      correlationId: event.correlation_id || event.correlationId,
-      sourceAgent: event.source_agent || event.sourceAgent,
-      targetAgent: event.target_agent || event.targetAgent,
-      transformationDurationMs: event.transformation_duration_ms || event.transformationDurationMs || 0,
-      success: event.success ?? true,
-      confidenceScore: event.confidence_score || event.confidenceScore || 0,
-      createdAt: new Date(event.timestamp || event.createdAt || Date.now()),
+      correlationId: event.correlationId ?? '',
+      sourceAgent: event.sourceAgent,
+      targetAgent: event.targetAgent,
+      transformationDurationMs: event.transformationDurationMs,
+      success: event.success,
+      confidenceScore: event.confidenceScore,
+      createdAt: event.createdAt ?? new Date(),
     };
 
     this.recentTransformations.unshift(transformation);
@@ -398,48 +624,87 @@ class EventConsumer extends EventEmitter {
 
     // Emit update event for WebSocket broadcast
     this.emit('transformationUpdate', transformation);
+    return transformation;
   }
 
-  private handlePerformanceMetric(event: any): void {
-    try {
-      const metric = {
-        id: event.id || crypto.randomUUID(),
-        correlationId: event.correlation_id || event.correlationId,
-        queryText: event.query_text || event.queryText || '',
-        routingDurationMs: event.routing_duration_ms || event.routingDurationMs || 0,
-        cacheHit: event.cache_hit ?? event.cacheHit ?? false,
-        candidatesEvaluated: event.candidates_evaluated || event.candidatesEvaluated || 0,
-        triggerMatchStrategy: event.trigger_match_strategy || event.triggerMatchStrategy || 'unknown',
-        createdAt: new Date(event.timestamp || event.createdAt || Date.now()),
-      };
-
-      // Store in memory (limit to 200 recent)
-      this.performanceMetrics.unshift(metric);
-      if (this.performanceMetrics.length > 200) {
-        this.performanceMetrics = this.performanceMetrics.slice(0, 200);
-      }
+  private handlePerformanceMetric(event: PerformanceMetricEvent) {
+    const metric: PerformanceMetric = {
+      id: event.id || crypto.randomUUID(),
+      correlationId: event.correlationId ?? '',
+      queryText: event.queryText,
+      routingDurationMs: event.routingDurationMs,
+      cacheHit: event.cacheHit,
+      candidatesEvaluated: event.candidatesEvaluated,
+      triggerMatchStrategy: event.triggerMatchStrategy,
+      createdAt: event.createdAt ?? new Date(),
+    };
 
-      // Update aggregated stats
-      this.performanceStats.totalQueries++;
-      if (metric.cacheHit) {
-        this.performanceStats.cacheHitCount++;
-      }
-      this.performanceStats.totalRoutingDuration += metric.routingDurationMs;
-      this.performanceStats.avgRoutingDuration =
-        this.performanceStats.totalRoutingDuration / this.performanceStats.totalQueries;
-
-      // Emit for WebSocket broadcast
-      this.emit('performanceUpdate', {
-        metric,
-        stats: { ...this.performanceStats },
-      });
+    // Store in memory (limited by the topic's retention cap)
+    this.performanceMetrics.unshift(metric);
+    if (this.performanceMetrics.length > this.maxPerformanceMetrics) {
+      this.performanceMetrics = this.performanceMetrics.slice(0, this.maxPerformanceMetrics);
+    }
 
-      console.log(
-        `[EventConsumer] Processed performance metric: ${metric.routingDurationMs}ms, cache hit: ${metric.cacheHit}, strategy: ${metric.triggerMatchStrategy}`
-      );
-    } catch (error) {
-      console.error('[EventConsumer] Error processing performance metric:', error);
+    // Update aggregated stats
+    this.performanceStats.totalQueries++;
+    if (metric.cacheHit) {
+      this.performanceStats.cacheHitCount++;
     }
+    this.performanceStats.totalRoutingDuration += metric.routingDurationMs;
+    this.performanceStats.avgRoutingDuration =
+      this.performanceStats.totalRoutingDuration / this.performanceStats.totalQueries;
+
+    // Emit for WebSocket broadcast
+    const update = {
+      metric,
+      stats: { ...this.performanceStats },
+    };
+    this.emit('performanceUpdate', update);
+
+    console.log(
+      `[EventConsumer] Processed performance metric: ${metric.routingDurationMs}ms, cache hit: ${metric.cacheHit}, strategy: ${metric.triggerMatchStrategy}`
+    );
+    return update;
+  }
+
+  // Run metrics are recorded as savings data by the 'agentRunMetric' listener (agent-run-ingestion)
+  private handleAgentRunMetric(event: AgentRunMetricEvent) {
+    const metric: AgentRunMetric = {
+      id: event.id || crypto.randomUUID(),
+      correlationId: event.correlationId ?? null,
+      agentId: event.agentId ?? event.agentName,
+      agentName: event.agentName,
+      withIntelligence: event.withIntelligence,
+      tokensUsed: event.tokensUsed,
+      inputTokens: event.inputTokens,
+      outputTokens: event.outputTokens,
+      computeUnits: event.computeUnits,
+      cost: event.cost,
+      durationMs: event.durationMs ?? null,
+      success: event.success,
+      model: event.model,
+      provider: event.provider,
+      project: event.project,
+      patternsUsed: event.patternsUsed,
+      createdAt: event.createdAt ?? new Date(),
+    };
+
+    this.emit('agentRunMetric', metric);
+    return metric;
+  }
+
+  // Generic handler: keep the latest records per topic up to its retention cap
+  private handleTopicEvent(event: Record<string, any>, definition: TopicDefinition) {
+    const record = {
+      ...event,
+      id: event.id || crypto.randomUUID(),
+      topic: definition.topic,
+      createdAt: event.createdAt ?? new Date(),
+    };
+
+    const records = [record, ...(this.topicEvents.get(definition.topic) ?? [])];
+    this.topicEvents.set(definition.topic, records.slice(0, definition.retention));
+    return record;
   }
 
   private cleanupOldMetrics() {
@@ -494,27 +759,11 @@ class EventConsumer extends EventEmitter {
     return this.recentActions;
   }
 
-  getActionsByAgent(agentName: string, timeWindow: string = '1h'): AgentAction[] {
-    // Parse time window
-    let windowMs: number;
-    switch (timeWindow) {
-      case '1h':
-        windowMs = 60 * 60 * 1000;
-        break;
-      case '24h':
-        windowMs = 24 * 60 * 60 * 1000;
-        break;
-      case '7d':
-        windowMs = 7 * 24 * 60 * 60 * 1000;
-        break;
-      default:
-        windowMs = 60 * 60 * 1000; // Default to 1h
-    }
-
-    const since = new Date(Date.now() - windowMs);
+  getActionsByAgent(agentName: string, timeRange: TimeRange | string = '1h'): AgentAction[] {
+    const range = toTimeRange(timeRange, '1h');
 
     return this.recentActions.filter(
-      action => action.agentName === agentName && action.createdAt >= since
+      action => action.agentName === agentName && containsTime(range, action.createdAt)
     );
   }
 
@@ -539,7 +788,7 @@ class EventConsumer extends EventEmitter {
     return this.recentTransformations.slice(0, limit);
   }
 
-  getPerformanceMetrics(limit: number = 100): Array<any> {
+  getPerformanceMetrics(limit: number = 100): PerformanceMetric[] {
     return this.performanceMetrics.slice(0, limit);
   }
 
@@ -553,24 +802,155 @@ class EventConsumer extends EventEmitter {
     };
   }
 
+  getTopicEvents(topic: string, limit: number = 100): any[] {
+    return (this.topicEvents.get(topic) ?? []).slice(0, limit);
+  }
+
+  getTopicConfig(): { groupId: string; fromBeginning: boolean; topics: TopicDefinition[] } {
+    return {
+      groupId: this.topicConfig.groupId,
+      fromBeginning: this.topicConfig.fromBeginning,
+      topics: this.registry.list({ includeDisabled: true }),
+    };
+  }
+
+  /**
+   * Register a handler that topic entries can reference by name
+   */
+  registerTopicHandler(name: string, handler: TopicHandler) {
+    this.topicHandlers.set(name, handler);
+  }
+
+  /**
+   * Register or override a topic. Must be called before start(), since Kafka
+   * subscriptions cannot change while the consumer is running.
+   */
+  registerTopic(entry: TopicEntry): TopicDefinition {
+    if (this.isRunning) {
+      throw new Error('Topics must be registered before the event consumer starts');
+    }
+    const definition = resolveTopicEntry(TopicEntrySchema.parse(entry), this.registry.get(entry.topic));
+    if (!this.topicHandlers.has(definition.handler)) {
+      throw new Error(`No handler registered as "${definition.handler}"`);
+    }
+    this.registry.register(definition);
+    return definition;
+  }
+
+  /**
+   * Move the consumer group to the first offsets at or after `timestamp`
+   * (a file source restarts its replay from that point). In-memory aggregates
+   * are cleared by default so replayed events are not counted twice.
+   */
+  async resetOffsetsToTimestamp(
+    timestamp: Date,
+    options: { topics?: string[]; resetAggregates?: boolean } = {}
+  ): Promise<OffsetResetResult[]> {
+    if (!this.source) {
+      throw this.topicConfigError ?? new Error('Event source not initialized');
+    }
+
+    const topics = options.topics ?? this.registry.topics();
+    const results = await this.source.resetOffsetsToTimestamp(topics, timestamp);
+
+    if (options.resetAggregates !== false) {
+      this.resetAggregates();
+    }
+
+    console.log(`[EventConsumer] Reset offsets for ${topics.join(', ')} to ${timestamp.toISOString()}`);
+    return results;
+  }
+
+  private resetAggregates() {
+    this.agentMetrics.clear();
+    this.recentActions = [];
+    this.routingDecisions = [];
+    this.recentTransformations = [];
+    this.performanceMetrics = [];
+    this.topicEvents.clear();
+    this.performanceStats = {
+      totalQueries: 0,
+      cacheHitCount: 0,
+      avgRoutingDuration: 0,
+      totalRoutingDuration: 0,
+    };
+    this.eventsSinceSnapshot++;
+    this.emit('metricUpdate', this.getAgentMetrics());
+  }
+
+  getDeadLetters(options?: Parameters<DeadLetterStore['list']>[0]): DeadLetterEntry[] {
+    return this.deadLetters.list(options);
+  }
+
+  getDeadLetterCounts() {
+    return this.deadLetters.counts();
+  }
+
+  /**
+   * Re-process dead letters after the producer, schema or handler was fixed.
+   * A corrected payload may be supplied for a single entry. Successfully
+   * processed entries are removed; failures stay with the latest reason.
+   */
+  replayDeadLetters(ids: string[], payloadOverride?: unknown): Array<{
+    id: string;
+    status: 'replayed' | 'failed' | 'not_found';
+    reason?: string;
+    error?: string;
+  }> {
+    return ids.map(id => {
+      const entry = this.deadLetters.get(id);
+      if (!entry) {
+        return { id, status: 'not_found' as const };
+      }
+
+      const rawPayload = payloadOverride !== undefined ? JSON.stringify(payloadOverride) : entry.rawPayload;
+      const result = this.processEvent(entry.topic, rawPayload);
+
+      if (result.ok) {
+        this.deadLetters.remove(id);
+        return { id, status: 'replayed' as const };
+      }
+
+      this.deadLetters.recordReplayFailure(id, result);
+      return { id, status: 'failed' as const, reason: result.reason, error: result.error };
+    });
+  }
+
+  deleteDeadLetter(id: string): boolean {
+    return this.deadLetters.remove(id);
+  }
+
   getHealthStatus() {
     return {
       status: this.isRunning ? 'healthy' : 'unhealthy',
+      source: this.source?.kind ?? null,
       eventsProcessed: this.agentMetrics.size,
       recentActionsCount: this.recentActions.length,
+      deadLetterCount: this.deadLetters.counts().total,
       timestamp: new Date().toISOString(),
     };
   }
 
   async stop() {
-    if (!this.consumer || !this.isRunning) {
+    if (this.snapshotTimer) {
+      clearInterval(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+
+    if (!this.source || !this.isRunning) {
       return;
     }
 
+    // Final snapshot so the next start resumes from the latest state
+    await this.snapshotAggregates();
+    await this.deadLetters.flush();
+
     try {
-      await this.consumer.disconnect();
+      await this.source.disconnect();
+      await this.recorder?.close();
+      this.recorder = null;
       this.isRunning = false;
-      console.log('Kafka consumer disconnected');
+      console.log(`[EventConsumer] ${this.source.kind === 'kafka' ? 'Kafka consumer' : 'NDJSON replay source'} disconnected`);
       this.emit('disconnected'); // Emit disconnected event
     } catch (error) {
       console.error('Error disconnecting Kafka consumer:', error);
@@ -0,0 +1,392 @@
+import { Kafka, type Consumer } from 'kafkajs';
+import { createReadStream, createWriteStream, mkdirSync, type WriteStream } from 'fs';
+import path from 'path';
+import readline from 'readline';
+
+/**
+ * Event Sources
+ *
+ * EventConsumer reads messages through an EventSource so the same topic
+ * handlers can be fed by a live Kafka broker or by an NDJSON capture file.
+ *
+ * NDJSON format (one message per line, as written by NdjsonRecorder):
+ *   {"topic":"agent-actions","partition":0,"offset":"42","timestamp":"2025-10-28T12:00:00.000Z","value":"{...}"}
+ * `value` is the raw message payload; a JSON object is also accepted for hand-written captures.
+ *
+ * Configuration:
+ * - EVENT_SOURCE: 'kafka' (default) | 'file'
+ * - EVENT_REPLAY_FILE: NDJSON capture to replay (file source)
+ * - EVENT_REPLAY_SPEED: 'original' (default) | 'max' | acceleration factor such as '10' or '10x'
+ * - EVENT_REPLAY_LOOP: 'true' to restart the capture when it ends (unless a
+ *   pass delivered nothing)
+ * - EVENT_RECORD_PATH: append every received message to this NDJSON file
+ */
+
+export interface SourceMessage {
+  topic: string;
+  partition: number | null;
+  offset: string | null;
+  timestamp: string | null;
+  value: string;
+}
+
+export type SourceMessageHandler = (message: SourceMessage) => Promise<void>;
+
+export interface OffsetResetResult {
+  topic: string;
+  partitions: Array<{ partition: number; offset: string }>;
+}
+
+export interface EventSource {
+  readonly kind: 'kafka' | 'file';
+  connect(): Promise<void>;
+  subscribe(topics: string[], options: { fromBeginning: boolean }): Promise<void>;
+  /**
+   * Start delivering messages; resolves once delivery has started
+   */
+  run(handler: SourceMessageHandler): Promise<void>;
+  disconnect(): Promise<void>;
+  resetOffsetsToTimestamp(topics: string[], timestamp: Date): Promise<OffsetResetResult[]>;
+}
+
+/**
+ * Live Kafka consumer group
+ */
+export class KafkaEventSource implements EventSource {
+  readonly kind = 'kafka';
+  private consumer: Consumer;
+  private running = false;
+
+  constructor(private readonly kafka: Kafka, private readonly groupId: string) {
+    this.consumer = kafka.consumer({ groupId });
+  }
+
+  async connect() {
+    await this.consumer.connect();
+  }
+
+  async subscribe(topics: string[], options: { fromBeginning: boolean }) {
+    await this.consumer.subscribe({ topics, fromBeginning: options.fromBeginning });
+  }
+
+  async run(handler: SourceMessageHandler) {
+    await this.consumer.run({
+      eachMessage: async ({ topic, partition, message }) => {
+        await handler({
+          topic,
+          partition,
+          offset: message.offset,
+          timestamp: message.timestamp ? new Date(Number(message.timestamp)).toISOString() : null,
+          value: message.value?.toString() ?? '',
+        });
+      },
+    });
+    this.running = true;
+  }
+
+  async disconnect() {
+    await this.consumer.disconnect();
+    this.running = false;
+  }
+
+  /**
+   * A running consumer seeks in place; otherwise the committed group offsets are rewritten
+   */
+  async resetOffsetsToTimestamp(topics: string[], timestamp: Date): Promise<OffsetResetResult[]> {
+    const admin = this.kafka.admin();
+    await admin.connect();
+
+    try {
+      const results: OffsetResetResult[] = [];
+      for (const topic of topics) {
+        const partitions = await admin.fetchTopicOffsetsByTimestamp(topic, timestamp.getTime());
+
+        if (this.running) {
+          for (const { partition, offset } of partitions) {
+            this.consumer.seek({ topic, partition, offset });
+          }
+        } else {
+          await admin.setOffsets({ groupId: this.groupId, topic, partitions });
+        }
+        results.push({ topic, partitions });
+      }
+      return results;
+    } finally {
+      await admin.disconnect();
+    }
+  }
+}
+
+export type ReplaySpeed = number; // acceleration factor; Infinity replays as fast as possible
+
+/**
+ * Parse EVENT_REPLAY_SPEED ('original', 'max', '10', '10x')
+ */
+export function parseReplaySpeed(value: string | undefined): ReplaySpeed {
+  if (!value || value === 'original' || value === 'realtime') return 1;
+  if (value === 'max' || value === 'fast') return Infinity;
+
+  const factor = parseFloat(value.replace(/x$/i, ''));
+  if (!Number.isFinite(factor) || factor <= 0) {
+    throw new Error(`Invalid replay speed "${value}" (use "original", "max" or a positive factor like "10x")`);
+  }
+  return factor;
+}
+
+/**
+ * Parse one NDJSON capture line; returns null for blank or unusable lines
+ */
+export function parseRecordedLine(line: string, lineNumber: number): SourceMessage | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+
+  let record: any;
+  try {
+    record = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+  if (!record || typeof record.topic !== 'string' || record.value === undefined) {
+    return null;
+  }
+
+  const timestamp = record.timestamp !== undefined ? new Date(record.timestamp) : null;
+
+  return {
+    topic: record.topic,
+    partition: typeof record.partition === 'number' ? record.partition : 0,
+    offset: record.offset !== undefined ? String(record.offset) : String(lineNumber),
+    timestamp: timestamp && !Number.isNaN(timestamp.getTime()) ? timestamp.toISOString() : null,
+    value: typeof record.value === 'string' ? record.value : JSON.stringify(record.value),
+  };
+}
+
+export interface FileEventSourceOptions {
+  filePath: string;
+  speed?: ReplaySpeed;
+  loop?: boolean;
+  // Injectable for tests
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Replays an NDJSON capture into the same handlers as Kafka
+ */
+export class FileEventSource implements EventSource {
+  readonly kind = 'file';
+  private topics = new Set<string>();
+  private handler: SourceMessageHandler | null = null;
+  private generation = 0;
+  private startAt: number | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private wakeUp: (() => void) | null = null;
+  private replay: Promise<void> = Promise.resolve();
+  private delivered = 0;
+
+  constructor(private readonly options: FileEventSourceOptions) {}
+
+  async connect() {
+    // Fail fast when the capture is missing
+    await new Promise<void>((resolve, reject) => {
+      const stream = createReadStream(this.options.filePath);
+      stream.once('open', () => {
+        stream.destroy();
+        resolve();
+      });
+      stream.once('error', reject);
+    });
+  }
+
+  async subscribe(topics: string[]) {
+    topics.forEach(topic => this.topics.add(topic));
+  }
+
+  async run(handler: SourceMessageHandler) {
+    this.handler = handler;
+    this.startReplay();
+  }
+
+  async disconnect() {
+    this.generation++;
+    this.handler = null;
+    this.cancelWait();
+    await this.replay;
+  }
+
+  /**
+   * Restart the capture from the first message at or after `timestamp`
+   */
+  async resetOffsetsToTimestamp(topics: string[], timestamp: Date): Promise<OffsetResetResult[]> {
+    this.startAt = timestamp.getTime();
+    if (this.handler) {
+      this.generation++;
+      this.cancelWait();
+      await this.replay;
+      this.startReplay();
+    }
+    return topics.map(topic => ({ topic, partitions: [] }));
+  }
+
+  /**
+   * Resolves when the current replay pass finishes (or is stopped)
+   */
+  whenComplete(): Promise<void> {
+    return this.replay;
+  }
+
+  get deliveredCount(): number {
+    return this.delivered;
+  }
+
+  private startReplay() {
+    const generation = ++this.generation;
+    this.replay = this.replayFile(generation).catch(error => {
+      console.error('[FileEventSource] Replay failed:', error);
+    });
+  }
+
+  private async replayFile(generation: number) {
+    const speed = this.options.speed ?? 1;
+
+    do {
+      const stream = createReadStream(this.options.filePath, 'utf8');
+      const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+      let previousTime: number | null = null;
+      let lineNumber = 0;
+      let skipped = 0;
+      let delivered = 0;
+
+      try {
+        for await (const line of lines) {
+          if (generation !== this.generation || !this.handler) return;
+          lineNumber++;
+
+          const message = parseRecordedLine(line, lineNumber);
+          if (!message) {
+            if (line.trim()) skipped++;
+            continue;
+          }
+
+          const time = message.timestamp ? Date.parse(message.timestamp) : null;
+          if (!this.topics.has(message.topic) || (this.startAt !== null && time !== null && time < this.startAt)) {
+            continue;
+          }
+
+          // Preserve the original gaps between messages, scaled by the speed factor
+          if (Number.isFinite(speed) && time !== null && previousTime !== null && time > previousTime) {
+            await this.wait((time - previousTime) / speed);
+            if (generation !== this.generation || !this.handler) return;
+          } else if (!Number.isFinite(speed) && this.delivered % 100 === 99) {
+            // Yield periodically so the server stays responsive during fast replays
+            await new Promise(resolve => setImmediate(resolve));
+          }
+          if (time !== null) previousTime = time;
+
+          await this.handler(message);
+          this.delivered++;
+          delivered++;
+        }
+      } finally {
+        lines.close();
+        stream.destroy();
+      }
+
+      console.log(`[FileEventSource] Replayed ${this.options.filePath} (${delivered} messages delivered${skipped ? `, ${skipped} unreadable lines skipped` : ''})`);
+
+      // Every later pass would be just as empty, so stop instead of spinning on the file
+      if (this.options.loop && delivered === 0) {
+        console.warn('[FileEventSource] No messages for the subscribed topics, not looping');
+        return;
+      }
+    } while (this.options.loop && generation === this.generation);
+  }
+
+  // Cancellable: disconnect() and offset resets wake a pending wait immediately
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.wakeUp = resolve;
+      if (this.options.sleep) {
+        this.options.sleep(ms).then(() => resolve());
+        return;
+      }
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.wakeUp = null;
+        resolve();
+      }, ms);
+    });
+  }
+
+  private cancelWait() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.wakeUp?.();
+    this.wakeUp = null;
+  }
+}
+
+/**
+ * Appends received messages to an NDJSON capture that FileEventSource can replay
+ */
+export class NdjsonRecorder {
+  private stream: WriteStream;
+
+  constructor(readonly filePath: string) {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    this.stream = createWriteStream(filePath, { flags: 'a' });
+    this.stream.on('error', error => {
+      console.error(`[NdjsonRecorder] Failed to write ${filePath}:`, error);
+    });
+  }
+
+  record(message: SourceMessage) {
+    this.stream.write(`${JSON.stringify({
+      topic: message.topic,
+      partition: message.partition,
+      offset: message.offset,
+      timestamp: message.timestamp ?? new Date().toISOString(),
+      value: message.value,
+    })}\n`);
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.stream.end(resolve));
+  }
+}
+
+/**
+ * Create the event source configured through the environment
+ */
+export function createEventSource(groupId: string, env: NodeJS.ProcessEnv = process.env): EventSource {
+  const kind = (env.EVENT_SOURCE || 'kafka').toLowerCase();
+
+  if (kind === 'file') {
+    if (!env.EVENT_REPLAY_FILE) {
+      throw new Error('EVENT_REPLAY_FILE is required when EVENT_SOURCE=file');
+    }
+    return new FileEventSource({
+      filePath: path.resolve(env.EVENT_REPLAY_FILE),
+      speed: parseReplaySpeed(env.EVENT_REPLAY_SPEED),
+      loop: env.EVENT_REPLAY_LOOP === 'true',
+    });
+  }
+
+  if (kind !== 'kafka') {
+    throw new Error(`Unknown EVENT_SOURCE "${kind}" (use "kafka" or "file")`);
+  }
+
+  const kafka = new Kafka({
+    brokers: (env.KAFKA_BROKERS || '192.168.86.200:9092').split(','),
+    clientId: 'omnidash-event-consumer',
+  });
+  return new KafkaEventSource(kafka, groupId);
+}
+
+/**
+ * Create the recorder configured through EVENT_RECORD_PATH, if any
+ */
+export function createRecorder(env: NodeJS.ProcessEnv = process.env): NdjsonRecorder | null {
+  return env.EVENT_RECORD_PATH ? new NdjsonRecorder(path.resolve(env.EVENT_RECORD_PATH)) : null;
+}
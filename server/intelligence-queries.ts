@@ -0,0 +1,435 @@
+import { sql, and, desc, eq, gte, inArray, lte } from 'drizzle-orm';
+import { eventConsumer } from './event-consumer';
+import { intelligenceDb } from './storage';
+import { agentActions, agentManifestInjections, agentRoutingDecisions, patternLineageNodes } from '../shared/intelligence-schema';
+import type { HistoricalRoutingDecision } from './routing-replay';
+import type { KnowledgeGraphSources } from './knowledge-graph';
+import { inTimeRange } from './time-range';
+import { toTimeRange, type TimeRange } from '@shared/time-range';
+
+/**
+ * Intelligence Queries
+ *
+ * Query functions shared by the intelligence API routes and the chat
+ * assistant's tools, so both always report the same numbers.
+ */
+
+export interface AgentSummaryRow {
+  agent: string;
+  totalRequests: number;
+  avgRoutingTime: number;
+  avgConfidence: number;
+  successRate: number | null;
+  lastSeen: Date;
+}
+
+export interface PatternSummary {
+  total_patterns: number;
+  languages: number;
+  unique_executions: number;
+}
+
+export interface TraceEvent {
+  id: string;
+  eventType: 'routing' | 'action' | 'manifest' | 'error';
+  timestamp: string;
+  agentName: string;
+  details: Record<string, unknown>;
+  durationMs?: number;
+}
+
+export interface CorrelationTrace {
+  correlationId: string;
+  events: TraceEvent[];
+  summary: {
+    totalEvents: number;
+    routingDecisions: number;
+    actions: number;
+    errors: number;
+    totalDurationMs: number;
+  };
+}
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Agent performance metrics from the in-memory event consumer, falling back to
+ * PostgreSQL when the event stream is empty
+ */
+export async function getAgentSummary(timeRange: TimeRange | string = '24h'): Promise<AgentSummaryRow[]> {
+  const metrics = eventConsumer.getAgentMetrics();
+  if (Array.isArray(metrics) && metrics.length > 0) {
+    console.log(`[API] Returning ${metrics.length} agents from event consumer`);
+    return metrics;
+  }
+
+  console.log(`[API] Event consumer metrics empty, falling back to database query`);
+
+  // Fallback: query PostgreSQL directly when event stream is empty
+  const range = toTimeRange(timeRange, '24h');
+  const rowsResult = await intelligenceDb.execute(sql`
+    SELECT
+      COALESCE(ard.selected_agent, aa.agent_name) AS agent,
+      COUNT(DISTINCT COALESCE(aa.id, ard.id)) AS total_requests,
+      AVG(COALESCE(ard.routing_time_ms, aa.duration_ms, 0)) AS avg_routing_time,
+      AVG(COALESCE(ard.confidence_score, 0)) AS avg_confidence
+    FROM agent_actions aa
+    FULL OUTER JOIN agent_routing_decisions ard
+      ON aa.correlation_id = ard.correlation_id
+    WHERE ${inTimeRange(sql`aa.created_at`, range)}
+       OR ${inTimeRange(sql`ard.created_at`, range)}
+    GROUP BY COALESCE(ard.selected_agent, aa.agent_name)
+    HAVING COUNT(DISTINCT COALESCE(aa.id, ard.id)) > 0
+    ORDER BY total_requests DESC
+    LIMIT 50;
+  `);
+
+  // Handle different return types from Drizzle
+  const rows = Array.isArray(rowsResult)
+    ? rowsResult
+    : (rowsResult?.rows || rowsResult || []);
+
+  return (rows as any[]).map(r => {
+    const totalRequests = Number(r.total_requests || 0);
+    const avgConfidence = Number(r.avg_confidence || 0);
+    // Use confidence as proxy for success rate if no explicit success tracking
+    const successRate = avgConfidence > 0 ? avgConfidence : null;
+
+    return {
+      agent: r.agent || 'unknown',
+      totalRequests,
+      avgRoutingTime: Number(r.avg_routing_time || 0),
+      avgConfidence,
+      successRate,
+      lastSeen: new Date(),
+    };
+  });
+}
+
+/**
+ * Code pattern discovery summary (empty when pattern_lineage_nodes does not exist)
+ */
+export async function getPatternSummary(): Promise<PatternSummary> {
+  // Check if table exists first - if not, return empty summary
+  try {
+    await intelligenceDb.execute(sql`SELECT 1 FROM pattern_lineage_nodes LIMIT 1`);
+  } catch (tableError: any) {
+    // Table doesn't exist - return empty summary
+    const errorCode = tableError?.code || tableError?.errno || '';
+    if (errorCode === '42P01' || tableError?.message?.includes('does not exist')) {
+      console.log('⚠ pattern_lineage_nodes table does not exist - returning empty summary');
+      return {
+        total_patterns: 0,
+        languages: 0,
+        unique_executions: 0,
+      };
+    }
+    // If it's a different error, re-throw it
+    throw tableError;
+  }
+
+  // Get pattern summary statistics
+  const [summaryResult] = await intelligenceDb
+    .select({
+      total_patterns: sql<number>`COUNT(*)::int`,
+      languages: sql<number>`COUNT(DISTINCT ${patternLineageNodes.language})::int`,
+      unique_executions: sql<number>`COUNT(DISTINCT ${patternLineageNodes.correlationId})::int`,
+    })
+    .from(patternLineageNodes);
+
+  return {
+    total_patterns: summaryResult?.total_patterns || 0,
+    languages: summaryResult?.languages || 0,
+    unique_executions: summaryResult?.unique_executions || 0,
+  };
+}
+
+/**
+ * Routing performance statistics from the in-memory event consumer
+ */
+export function getPerformanceSummary() {
+  return eventConsumer.getPerformanceStats();
+}
+
+/**
+ * Every routing decision, action and manifest injection recorded for a correlation ID
+ */
+export async function getCorrelationTrace(correlationId: string): Promise<CorrelationTrace> {
+  // Query all relevant tables for this correlation ID
+  const [actions, manifests] = await Promise.all([
+    // Get agent actions
+    intelligenceDb
+      .select({
+        id: agentActions.id,
+        agentName: agentActions.agentName,
+        actionType: agentActions.actionType,
+        actionName: agentActions.actionName,
+        actionDetails: agentActions.actionDetails,
+        durationMs: agentActions.durationMs,
+        createdAt: agentActions.createdAt,
+      })
+      .from(agentActions)
+      .where(eq(agentActions.correlationId, correlationId)),
+
+    // Get manifest injections
+    intelligenceDb
+      .select({
+        id: agentManifestInjections.id,
+        agentName: agentManifestInjections.agentName,
+        manifestVersion: agentManifestInjections.manifestVersion,
+        generationSource: agentManifestInjections.generationSource,
+        patternsCount: agentManifestInjections.patternsCount,
+        infrastructureServices: agentManifestInjections.infrastructureServices,
+        totalQueryTimeMs: agentManifestInjections.totalQueryTimeMs,
+        routingDecisionId: agentManifestInjections.routingDecisionId,
+        createdAt: agentManifestInjections.createdAt,
+      })
+      .from(agentManifestInjections)
+      .where(eq(agentManifestInjections.correlationId, correlationId)),
+  ]);
+
+  // Get routing decisions if any manifests have routing_decision_id
+  const routingDecisionIds = manifests
+    .filter(m => m.routingDecisionId)
+    .map(m => m.routingDecisionId as string);
+
+  const routingDecisions = routingDecisionIds.length > 0
+    ? await intelligenceDb
+        .select({
+          id: agentRoutingDecisions.id,
+          selectedAgent: agentRoutingDecisions.selectedAgent,
+          confidenceScore: agentRoutingDecisions.confidenceScore,
+          routingStrategy: agentRoutingDecisions.routingStrategy,
+          userRequest: agentRoutingDecisions.userRequest,
+          reasoning: agentRoutingDecisions.reasoning,
+          alternatives: agentRoutingDecisions.alternatives,
+          routingTimeMs: agentRoutingDecisions.routingTimeMs,
+          createdAt: agentRoutingDecisions.createdAt,
+        })
+        .from(agentRoutingDecisions)
+        .where(inArray(agentRoutingDecisions.id, routingDecisionIds))
+    : [];
+
+  // Transform routing decisions into events
+  const routingEvents = routingDecisions.map(d => ({
+    id: d.id,
+    eventType: 'routing' as const,
+    timestamp: d.createdAt?.toISOString() || new Date().toISOString(),
+    agentName: d.selectedAgent,
+    details: {
+      userRequest: d.userRequest,
+      confidenceScore: parseFloat(d.confidenceScore?.toString() || '0'),
+      routingStrategy: d.routingStrategy,
+      reasoning: d.reasoning,
+      alternatives: d.alternatives,
+    },
+    durationMs: d.routingTimeMs || undefined,
+  }));
+
+  // Transform actions into events
+  const actionEvents = actions.map(a => ({
+    id: a.id,
+    eventType: 'action' as const,
+    timestamp: a.createdAt?.toISOString() || new Date().toISOString(),
+    agentName: a.agentName,
+    details: {
+      actionType: a.actionType,
+      actionName: a.actionName,
+      actionDetails: a.actionDetails,
+    },
+    durationMs: a.durationMs || undefined,
+  }));
+
+  // Transform manifests into events
+  const manifestEvents = manifests.map(m => ({
+    id: m.id,
+    eventType: 'manifest' as const,
+    timestamp: m.createdAt?.toISOString() || new Date().toISOString(),
+    agentName: m.agentName,
+    details: {
+      manifestVersion: m.manifestVersion,
+      generationSource: m.generationSource,
+      patternsCount: m.patternsCount,
+      infrastructureServices: m.infrastructureServices,
+    },
+    durationMs: m.totalQueryTimeMs || undefined,
+  }));
+
+  // Combine all events and sort by timestamp (newest first)
+  const allEvents: TraceEvent[] = [...routingEvents, ...actionEvents, ...manifestEvents];
+  allEvents.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+  // Calculate summary statistics
+  const summary = {
+    totalEvents: allEvents.length,
+    routingDecisions: routingEvents.length,
+    actions: actionEvents.length,
+    errors: 0, // No error events table yet
+    totalDurationMs: allEvents.reduce((sum, e) => sum + (e.durationMs || 0), 0),
+  };
+
+  return {
+    correlationId,
+    events: allEvents,
+    summary,
+  };
+}
+
+/**
+ * The newest `limit` routing decisions recorded in a time window (newest first),
+ * for replaying through the routing engine, with the number recorded in the window
+ */
+export async function getRoutingDecisionsForReplay(
+  from: Date,
+  to: Date,
+  limit: number
+): Promise<{ decisions: HistoricalRoutingDecision[]; total: number }> {
+  const inWindow = and(gte(agentRoutingDecisions.createdAt, from), lte(agentRoutingDecisions.createdAt, to));
+  const [{ total }] = await intelligenceDb
+    .select({ total: sql<number>`COUNT(*)::int` })
+    .from(agentRoutingDecisions)
+    .where(inWindow);
+
+  const rows = await intelligenceDb
+    .select({
+      id: agentRoutingDecisions.id,
+      userRequest: agentRoutingDecisions.userRequest,
+      selectedAgent: agentRoutingDecisions.selectedAgent,
+      confidenceScore: agentRoutingDecisions.confidenceScore,
+      contextSnapshot: agentRoutingDecisions.contextSnapshot,
+      executionSucceeded: agentRoutingDecisions.executionSucceeded,
+      actualSuccess: agentRoutingDecisions.actualSuccess,
+      actualQualityScore: agentRoutingDecisions.actualQualityScore,
+      createdAt: agentRoutingDecisions.createdAt,
+    })
+    .from(agentRoutingDecisions)
+    .where(inWindow)
+    .orderBy(desc(agentRoutingDecisions.createdAt))
+    .limit(limit);
+
+  const decisions = rows.map(row => ({
+    id: row.id,
+    userRequest: row.userRequest,
+    selectedAgent: row.selectedAgent,
+    confidence: row.confidenceScore !== null ? parseFloat(row.confidenceScore) : null,
+    contextSnapshot: row.contextSnapshot && typeof row.contextSnapshot === 'object' && !Array.isArray(row.contextSnapshot)
+      ? row.contextSnapshot as Record<string, unknown>
+      : null,
+    // actual_success is the deprecated spelling of execution_succeeded
+    executionSucceeded: row.executionSucceeded ?? row.actualSuccess ?? null,
+    actualQualityScore: row.actualQualityScore !== null ? parseFloat(row.actualQualityScore) : null,
+    createdAt: row.createdAt?.toISOString() ?? from.toISOString(),
+  }));
+  return { decisions, total };
+}
+
+// Rows per knowledge graph source query
+const KNOWLEDGE_GRAPH_SOURCE_LIMIT = 5000;
+
+function resultRows<T>(result: unknown): T[] {
+  const rows = Array.isArray(result) ? result : (result as { rows?: unknown[] })?.rows;
+  return (rows ?? []) as T[];
+}
+
+/**
+ * Rows for the knowledge graph: patterns created in the range with their
+ * lineage, agent activity in the range, and the current documents and services
+ */
+export async function getKnowledgeGraphSources(range: TimeRange): Promise<KnowledgeGraphSources> {
+  const [patterns, lineage, documents, services, agentPatterns, agentDocuments] = await Promise.all([
+    intelligenceDb.execute(sql`
+      SELECT
+        pln.id,
+        pln.pattern_name AS name,
+        pln.pattern_type AS "patternType",
+        pln.language,
+        COALESCE(pln.pattern_data->>'file_path', pln.metadata->>'file_path') AS "filePath",
+        pqm.quality_score AS "qualityScore",
+        pln.created_at AS "createdAt"
+      FROM pattern_lineage_nodes pln
+      LEFT JOIN pattern_quality_metrics pqm ON pqm.pattern_id = pln.id
+      WHERE ${inTimeRange(sql`pln.created_at`, range)}
+      ORDER BY pln.created_at DESC
+      LIMIT ${KNOWLEDGE_GRAPH_SOURCE_LIMIT}
+    `),
+    intelligenceDb.execute(sql`
+      SELECT
+        ple.source_node_id AS "sourceId",
+        ple.target_node_id AS "targetId",
+        ple.edge_type AS "edgeType",
+        ple.edge_weight AS weight
+      FROM pattern_lineage_edges ple
+      JOIN pattern_lineage_nodes src ON src.id = ple.source_node_id
+      JOIN pattern_lineage_nodes tgt ON tgt.id = ple.target_node_id
+      WHERE ${inTimeRange(sql`src.created_at`, range)} AND ${inTimeRange(sql`tgt.created_at`, range)}
+      LIMIT ${KNOWLEDGE_GRAPH_SOURCE_LIMIT}
+    `),
+    intelligenceDb.execute(sql`
+      SELECT id, repository, file_path AS "filePath", access_count AS "accessCount"
+      FROM document_metadata
+      WHERE deleted_at IS NULL AND status = 'active'
+      ORDER BY access_count DESC
+      LIMIT ${KNOWLEDGE_GRAPH_SOURCE_LIMIT}
+    `),
+    intelligenceDb.execute(sql`
+      SELECT service_name AS name, service_url AS url, service_type AS "serviceType", health_status AS "healthStatus"
+      FROM node_service_registry
+      WHERE is_active IS NOT FALSE
+    `),
+    intelligenceDb.execute(sql`
+      SELECT aa.agent_name AS "agentName", pln.id AS "targetId", COUNT(*) AS count
+      FROM pattern_lineage_nodes pln
+      JOIN agent_actions aa ON aa.correlation_id = pln.correlation_id
+      WHERE ${inTimeRange(sql`pln.created_at`, range)}
+      GROUP BY aa.agent_name, pln.id
+      LIMIT ${KNOWLEDGE_GRAPH_SOURCE_LIMIT}
+    `),
+    intelligenceDb.execute(sql`
+      SELECT aa.agent_name AS "agentName", dal.document_id AS "targetId", COUNT(DISTINCT dal.id) AS count
+      FROM document_access_log dal
+      JOIN agent_actions aa ON aa.correlation_id = dal.correlation_id
+      WHERE ${inTimeRange(sql`dal.accessed_at`, range)}
+      GROUP BY aa.agent_name, dal.document_id
+      LIMIT ${KNOWLEDGE_GRAPH_SOURCE_LIMIT}
+    `),
+  ]);
+
+  const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+  const links = (result: unknown) => resultRows<any>(result).map(row => ({
+    agentName: String(row.agentName),
+    targetId: String(row.targetId),
+    count: Number(row.count),
+  }));
+
+  return {
+    patterns: resultRows<any>(patterns).map(row => ({
+      id: row.id,
+      name: row.name,
+      patternType: row.patternType,
+      language: row.language ?? null,
+      filePath: row.filePath ?? null,
+      qualityScore: toNumber(row.qualityScore),
+      createdAt: row.createdAt ? new Date(row.createdAt).toISOString() : null,
+    })),
+    lineage: resultRows<any>(lineage).map(row => ({
+      sourceId: row.sourceId,
+      targetId: row.targetId,
+      edgeType: row.edgeType,
+      weight: toNumber(row.weight),
+    })),
+    documents: resultRows<any>(documents).map(row => ({
+      id: row.id,
+      repository: row.repository,
+      filePath: row.filePath,
+      accessCount: Number(row.accessCount ?? 0),
+    })),
+    services: resultRows<any>(services).map(row => ({
+      name: row.name,
+      url: row.url,
+      serviceType: row.serviceType ?? null,
+      healthStatus: row.healthStatus,
+    })),
+    agentPatterns: links(agentPatterns),
+    agentDocuments: links(agentDocuments),
+  };
+}
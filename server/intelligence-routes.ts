@@ -3,11 +3,20 @@ import { intelligenceEvents } from './intelligence-event-adapter';
 import { eventConsumer } from './event-consumer';
 import { intelligenceDb } from './storage';
 import { agentManifestInjections, patternLineageNodes, patternLineageEdges, patternQualityMetrics, agentTransformationEvents, agentRoutingDecisions, agentActions, onexComplianceStamps, documentMetadata, nodeServiceRegistry, taskCompletionMetrics } from '../shared/intelligence-schema';
-import { sql, desc, gte, eq, or, and, inArray, isNull } from 'drizzle-orm';
+import { sql, desc, eq, or, and, inArray, isNull } from 'drizzle-orm';
 import { checkAllServices } from './service-health';
+import { getAgentSummary, getCorrelationTrace, getKnowledgeGraphSources, getPatternSummary, getPerformanceSummary, UUID_PATTERN } from './intelligence-queries';
+import { buildKnowledgeGraph, queryKnowledgeGraph, KNOWLEDGE_NODE_TYPES } from './knowledge-graph';
+import { bucketMinutes, inTimeRange, lookbackHours, parseTimeRange, timeBucket } from './time-range';
+import { bucketAxisLabel, containsTime, previousTimeRange } from '@shared/time-range';
+import { z } from 'zod';
 
 export const intelligenceRouter = Router();
 
+// Time-ranged endpoints share the query parameters of shared/time-range.ts:
+// a preset `timeWindow` (1h, 24h, 7d, 30d, 90d) or ISO `start` / `end`, plus
+// an IANA `tz` for time buckets. Invalid ranges are rejected with 400.
+
 // ============================================================================
 // Type Definitions for Pattern Discovery Responses
 // ============================================================================
@@ -189,9 +198,10 @@ interface LanguageBreakdown {
  * ]
  */
 intelligenceRouter.get('/agents/summary', async (req, res) => {
+  const range = parseTimeRange(req, res, '24h');
+  if (!range) return;
+
   try {
-    const timeWindow = (req.query.timeWindow as string) || '24h';
-    
     // Disable caching for real-time data
     res.set({
       'Cache-Control': 'no-cache, no-store, must-revalidate',
@@ -199,57 +209,7 @@ intelligenceRouter.get('/agents/summary', async (req, res) => {
       'Expires': '0'
     });
     
-    const metrics = eventConsumer.getAgentMetrics();
-    if (Array.isArray(metrics) && metrics.length > 0) {
-      console.log(`[API] Returning ${metrics.length} agents from event consumer`);
-      return res.json(metrics);
-    }
-    
-    console.log(`[API] Event consumer metrics empty, falling back to database query`);
-
-    // Fallback: query PostgreSQL directly when event stream is empty
-    const interval = timeWindow === '7d' ? "7 days" : timeWindow === '30d' ? "30 days" : "24 hours";
-    const rowsResult = await intelligenceDb.execute(sql.raw(
-      `
-      SELECT
-        COALESCE(ard.selected_agent, aa.agent_name) AS agent,
-        COUNT(DISTINCT COALESCE(aa.id, ard.id)) AS total_requests,
-        AVG(COALESCE(ard.routing_time_ms, aa.duration_ms, 0)) AS avg_routing_time,
-        AVG(COALESCE(ard.confidence_score, 0)) AS avg_confidence
-      FROM agent_actions aa
-      FULL OUTER JOIN agent_routing_decisions ard
-        ON aa.correlation_id = ard.correlation_id
-      WHERE (aa.created_at >= NOW() - INTERVAL '${interval}')
-         OR (ard.created_at >= NOW() - INTERVAL '${interval}')
-      GROUP BY COALESCE(ard.selected_agent, aa.agent_name)
-      HAVING COUNT(DISTINCT COALESCE(aa.id, ard.id)) > 0
-      ORDER BY total_requests DESC
-      LIMIT 50;
-      `
-    ));
-
-    // Handle different return types from Drizzle
-    const rows = Array.isArray(rowsResult) 
-      ? rowsResult 
-      : (rowsResult?.rows || rowsResult || []);
-
-    const transformed = (rows as any[]).map(r => {
-      const totalRequests = Number(r.total_requests || 0);
-      const avgConfidence = Number(r.avg_confidence || 0);
-      // Use confidence as proxy for success rate if no explicit success tracking
-      const successRate = avgConfidence > 0 ? avgConfidence : null;
-      
-      return {
-        agent: r.agent || 'unknown',
-        totalRequests,
-        avgRoutingTime: Number(r.avg_routing_time || 0),
-        avgConfidence,
-        successRate,
-        lastSeen: new Date(),
-      };
-    });
-
-    return res.json(transformed);
+    res.json(await getAgentSummary(range));
   } catch (error) {
     console.error('Error fetching agent summary:', error);
     res.status(500).json({
@@ -265,6 +225,7 @@ intelligenceRouter.get('/agents/summary', async (req, res) => {
  *
  * Query parameters:
  * - limit: number of actions to return (default: 100, max: 1000)
+ * - timeWindow, start, end, tz: time range (default: "24h")
  *
  * Response format:
  * [
@@ -282,14 +243,17 @@ intelligenceRouter.get('/agents/summary', async (req, res) => {
  * ]
  */
 intelligenceRouter.get('/actions/recent', async (req, res) => {
+  const range = parseTimeRange(req, res, '24h');
+  if (!range) return;
+
   try {
     const limit = Math.min(
       parseInt(req.query.limit as string) || 100,
       1000
     );
 
-    const actionsMem = eventConsumer.getRecentActions();
-    if (Array.isArray(actionsMem) && actionsMem.length > 0) {
+    const actionsMem = eventConsumer.getRecentActions().filter(action => containsTime(range, action.createdAt));
+    if (actionsMem.length > 0) {
       console.log(`[API] Returning ${actionsMem.length} actions from event consumer`);
       return res.json(actionsMem.slice(0, limit));
     }
@@ -298,14 +262,13 @@ intelligenceRouter.get('/actions/recent', async (req, res) => {
 
     // Fallback: pull most recent actions from PostgreSQL
     try {
-      const rowsResult = await intelligenceDb.execute(sql.raw(
-        `
+      const rowsResult = await intelligenceDb.execute(sql`
         SELECT id, correlation_id, agent_name, action_type, action_name, action_details, debug_mode, duration_ms, created_at
         FROM agent_actions
+        WHERE ${inTimeRange(sql`created_at`, range)}
         ORDER BY created_at DESC
         LIMIT ${limit};
-        `
-      ));
+      `);
 
       // Handle different return types from Drizzle
       const rows = Array.isArray(rowsResult)
@@ -407,21 +370,23 @@ intelligenceRouter.get('/actions/recent', async (req, res) => {
  * - agent: agent name (e.g., "agent-api-architect")
  *
  * Query parameters:
- * - timeWindow: time window ("1h", "24h", "7d") (default: "1h")
+ * - timeWindow, start, end, tz: time range (default: "1h")
  * - limit: number of actions to return (default: 100, max: 1000)
  *
  * Response format: Same as /actions/recent
  */
 intelligenceRouter.get('/agents/:agent/actions', async (req, res) => {
+  const range = parseTimeRange(req, res, '1h');
+  if (!range) return;
+
   try {
     const { agent } = req.params;
-    const timeWindow = (req.query.timeWindow as string) || '1h';
     const limit = Math.min(
       parseInt(req.query.limit as string) || 100,
       1000
     );
 
-    const actions = eventConsumer.getActionsByAgent(agent, timeWindow).slice(0, limit);
+    const actions = eventConsumer.getActionsByAgent(agent, range).slice(0, limit);
     res.json(actions);
   } catch (error) {
     console.error('Error fetching agent actions:', error);
@@ -437,7 +402,7 @@ intelligenceRouter.get('/agents/:agent/actions', async (req, res) => {
  * Returns routing strategy breakdown (trigger, ai, explicit)
  *
  * Query parameters:
- * - timeWindow: "24h", "7d", "30d" (default: "24h")
+ * - timeWindow, start, end, tz: time range (default: "24h")
  *
  * Response format:
  * [
@@ -449,14 +414,10 @@ intelligenceRouter.get('/agents/:agent/actions', async (req, res) => {
  * ]
  */
 intelligenceRouter.get('/agents/routing-strategy', async (req, res) => {
-  try {
-    const timeWindow = (req.query.timeWindow as string) || '24h';
-
-    // Determine time interval
-    const interval = timeWindow === '24h' ? '24 hours' :
-                     timeWindow === '7d' ? '7 days' :
-                     timeWindow === '30d' ? '30 days' : '24 hours';
+  const range = parseTimeRange(req, res, '24h');
+  if (!range) return;
 
+  try {
     // Query routing decisions grouped by strategy
     const strategyData = await intelligenceDb
       .select({
@@ -464,7 +425,7 @@ intelligenceRouter.get('/agents/routing-strategy', async (req, res) => {
         count: sql<number>`COUNT(*)::int`,
       })
       .from(agentRoutingDecisions)
-      .where(sql`${agentRoutingDecisions.createdAt} > NOW() - INTERVAL '${sql.raw(interval)}'`)
+      .where(inTimeRange(agentRoutingDecisions.createdAt, range))
       .groupBy(agentRoutingDecisions.routingStrategy)
       .orderBy(sql`COUNT(*) DESC`);
 
@@ -654,40 +615,7 @@ intelligenceRouter.get('/patterns/discovery', async (req, res) => {
  */
 intelligenceRouter.get('/patterns/summary', async (req, res) => {
   try {
-    // Check if table exists first - if not, return empty summary
-    try {
-      await intelligenceDb.execute(sql`SELECT 1 FROM pattern_lineage_nodes LIMIT 1`);
-    } catch (tableError: any) {
-      // Table doesn't exist - return empty summary
-      const errorCode = tableError?.code || tableError?.errno || '';
-      if (errorCode === '42P01' || tableError?.message?.includes('does not exist')) {
-        console.log('⚠ pattern_lineage_nodes table does not exist - returning empty summary');
-        return res.json({
-          total_patterns: 0,
-          languages: 0,
-          unique_executions: 0,
-        });
-      }
-      // If it's a different error, re-throw it
-      throw tableError;
-    }
-
-    // Get pattern summary statistics
-    const [summaryResult] = await intelligenceDb
-      .select({
-        total_patterns: sql<number>`COUNT(*)::int`,
-        languages: sql<number>`COUNT(DISTINCT ${patternLineageNodes.language})::int`,
-        unique_executions: sql<number>`COUNT(DISTINCT ${patternLineageNodes.correlationId})::int`,
-      })
-      .from(patternLineageNodes);
-
-    const summary = {
-      total_patterns: summaryResult?.total_patterns || 0,
-      languages: summaryResult?.languages || 0,
-      unique_executions: summaryResult?.unique_executions || 0,
-    };
-
-    res.json(summary);
+    res.json(await getPatternSummary());
   } catch (error) {
     console.error('Error fetching pattern summary:', error);
     res.status(500).json({
@@ -759,7 +687,7 @@ intelligenceRouter.get('/patterns/recent', async (req, res) => {
  * Returns pattern discovery trends over time (CODE PATTERNS)
  *
  * Query parameters:
- * - timeWindow: "24h" (hourly), "7d" (daily), "30d" (daily) (default: "7d")
+ * - timeWindow, start, end, tz: time range (default: "7d"); bucket size follows its span
  *
  * Response format:
  * [
@@ -772,9 +700,10 @@ intelligenceRouter.get('/patterns/recent', async (req, res) => {
  * ]
  */
 intelligenceRouter.get('/patterns/trends', async (req, res) => {
-  try {
-    const timeWindow = (req.query.timeWindow as string) || '7d';
+  const range = parseTimeRange(req, res, '7d');
+  if (!range) return;
 
+  try {
     // Check if table exists first - if not, return empty array
     try {
       await intelligenceDb.execute(sql`SELECT 1 FROM pattern_lineage_nodes LIMIT 1`);
@@ -789,16 +718,9 @@ intelligenceRouter.get('/patterns/trends', async (req, res) => {
       throw tableError;
     }
 
-    // Determine time interval and truncation
-    const interval = timeWindow === '24h' ? '24 hours' :
-                     timeWindow === '7d' ? '7 days' :
-                     timeWindow === '30d' ? '30 days' : '7 days';
-
-    const truncation = timeWindow === '24h' ? 'hour' : 'day';
-
     const trends = await intelligenceDb
       .select({
-        period: sql<string>`DATE_TRUNC('${sql.raw(truncation)}', ${patternLineageNodes.createdAt})::text`,
+        period: sql<string>`${timeBucket(patternLineageNodes.createdAt, range)}::text`,
         // Actual pattern count per time period (not hardcoded 1)
         manifestsGenerated: sql<number>`COUNT(*)::int`,
         avgPatternsPerManifest: sql<number>`COUNT(*)::numeric`,
@@ -806,9 +728,9 @@ intelligenceRouter.get('/patterns/trends', async (req, res) => {
         avgQueryTimeMs: sql<number>`0::numeric`,
       })
       .from(patternLineageNodes)
-      .where(sql`${patternLineageNodes.createdAt} > NOW() - INTERVAL '${sql.raw(interval)}'`)
-      .groupBy(sql`DATE_TRUNC('${sql.raw(truncation)}', ${patternLineageNodes.createdAt})`)
-      .orderBy(sql`DATE_TRUNC('${sql.raw(truncation)}', ${patternLineageNodes.createdAt}) DESC`);
+      .where(inTimeRange(patternLineageNodes.createdAt, range))
+      .groupBy(timeBucket(patternLineageNodes.createdAt, range))
+      .orderBy(sql`${timeBucket(patternLineageNodes.createdAt, range)} DESC`);
 
     const formattedTrends: PatternTrend[] = trends.map(t => ({
       period: t.period,
@@ -964,7 +886,7 @@ intelligenceRouter.get('/patterns/list', async (req, res) => {
  * Returns quality score trends over time from agent manifest injections
  *
  * Query parameters:
- * - timeWindow: "24h" (hourly), "7d" (daily), "30d" (daily) (default: "7d")
+ * - timeWindow, start, end, tz: time range (default: "7d"); bucket size follows its span
  *
  * Response format:
  * [
@@ -976,23 +898,12 @@ intelligenceRouter.get('/patterns/list', async (req, res) => {
  * ]
  */
 intelligenceRouter.get('/patterns/quality-trends', async (req, res) => {
-  try {
-    const timeWindow = (req.query.timeWindow as string) || '7d';
-
-    // Parse time window to hours for Omniarchon API
-    const hoursMap: Record<string, number> = {
-      '24h': 24,
-      '7d': 168,
-      '30d': 720
-    };
-    const hours = hoursMap[timeWindow] || 168;
-
-    // Determine time interval and truncation for database fallback
-    const interval = timeWindow === '24h' ? '24 hours' :
-                     timeWindow === '7d' ? '7 days' :
-                     timeWindow === '30d' ? '30 days' : '7 days';
+  const range = parseTimeRange(req, res, '7d');
+  if (!range) return;
 
-    const truncation = timeWindow === '24h' ? 'hour' : 'day';
+  try {
+    // Omniarchon takes a look-back in hours; snapshots after a custom end are dropped below
+    const hours = lookbackHours(range);
 
     // Try to fetch from Omniarchon intelligence service first
     const omniarchonUrl = process.env.INTELLIGENCE_SERVICE_URL || 'http://localhost:8053';
@@ -1016,11 +927,13 @@ intelligenceRouter.get('/patterns/quality-trends', async (req, res) => {
           console.log(`✓ Using real data from Omniarchon (${omniarchonData.snapshots_count} snapshots)`);
 
           // Transform Omniarchon response to match frontend expectations
-          const formattedTrends = omniarchonData.snapshots.map((snapshot: any) => ({
-            period: snapshot.timestamp,
-            avgQuality: snapshot.overall_quality || 0.85,
-            manifestCount: snapshot.file_count || 0,
-          }));
+          const formattedTrends = omniarchonData.snapshots
+            .filter((snapshot: any) => containsTime(range, snapshot.timestamp))
+            .map((snapshot: any) => ({
+              period: snapshot.timestamp,
+              avgQuality: snapshot.overall_quality || 0.85,
+              manifestCount: snapshot.file_count || 0,
+            }));
 
           return res.json(formattedTrends);
         } else {
@@ -1048,8 +961,8 @@ intelligenceRouter.get('/patterns/quality-trends', async (req, res) => {
 });
 
 /**
- * GET /api/intelligence/patterns/performance
- * Returns intelligence query performance breakdown
+ * GET /api/intelligence/patterns/performance?timeWindow=24h|7d|30d
+ * Returns intelligence query performance breakdown (default range: "24h")
  *
  * Response format:
  * [
@@ -1065,6 +978,9 @@ intelligenceRouter.get('/patterns/quality-trends', async (req, res) => {
  * ]
  */
 intelligenceRouter.get('/patterns/performance', async (req, res) => {
+  const range = parseTimeRange(req, res, '24h');
+  if (!range) return;
+
   try {
     // Get performance metrics grouped by generation source
     const performance = await intelligenceDb
@@ -1084,7 +1000,7 @@ intelligenceRouter.get('/patterns/performance', async (req, res) => {
         `,
       })
       .from(agentManifestInjections)
-      .where(sql`${agentManifestInjections.createdAt} > NOW() - INTERVAL '24 hours'`)
+      .where(inTimeRange(agentManifestInjections.createdAt, range))
       .groupBy(agentManifestInjections.generationSource)
       .orderBy(sql`COUNT(*) DESC`);
 
@@ -1271,7 +1187,7 @@ intelligenceRouter.get('/patterns/relationships', async (req, res) => {
  * Returns pattern language distribution
  *
  * Query parameters:
- * - timeWindow: "24h", "7d", "30d" (default: "7d")
+ * - timeWindow, start, end, tz: time range (default: "7d")
  *
  * Response format:
  * [
@@ -1288,6 +1204,9 @@ intelligenceRouter.get('/patterns/relationships', async (req, res) => {
  * ]
  */
 intelligenceRouter.get('/patterns/by-language', async (req, res) => {
+  const range = parseTimeRange(req, res, '7d');
+  if (!range) return;
+
   try {
     // Check if table exists first - if not, return empty array
     try {
@@ -1301,13 +1220,6 @@ intelligenceRouter.get('/patterns/by-language', async (req, res) => {
       throw tableError;
     }
 
-    const timeWindow = (req.query.timeWindow as string) || '7d';
-
-    // Determine time interval
-    const interval = timeWindow === '24h' ? '24 hours' :
-                     timeWindow === '7d' ? '7 days' :
-                     timeWindow === '30d' ? '30 days' : '7 days';
-
     // Query pattern_lineage_nodes grouped by language
     const languageData = await intelligenceDb
       .select({
@@ -1315,7 +1227,10 @@ intelligenceRouter.get('/patterns/by-language', async (req, res) => {
         pattern_count: sql<number>`COUNT(*)::int`,
       })
       .from(patternLineageNodes)
-      .where(sql`${patternLineageNodes.language} IS NOT NULL`)
+      .where(and(
+        sql`${patternLineageNodes.language} IS NOT NULL`,
+        inTimeRange(patternLineageNodes.createdAt, range)
+      ))
       .groupBy(patternLineageNodes.language)
       .orderBy(sql`COUNT(*) DESC`);
 
@@ -1338,7 +1253,7 @@ intelligenceRouter.get('/patterns/by-language', async (req, res) => {
  * Returns polymorphic agent transformation summary metrics and Sankey diagram data
  *
  * Query parameters:
- * - timeWindow: "24h", "7d", "30d" (default: "24h")
+ * - timeWindow, start, end, tz: time range (default: "24h")
  *
  * Response format:
  * {
@@ -1361,14 +1276,10 @@ intelligenceRouter.get('/patterns/by-language', async (req, res) => {
  * }
  */
 intelligenceRouter.get('/transformations/summary', async (req, res) => {
-  try {
-    const timeWindow = (req.query.timeWindow as string) || '24h';
-
-    // Determine time interval
-    const interval = timeWindow === '24h' ? '24 hours' :
-                     timeWindow === '7d' ? '7 days' :
-                     timeWindow === '30d' ? '30 days' : '24 hours';
+  const range = parseTimeRange(req, res, '24h');
+  if (!range) return;
 
+  try {
     // Get summary statistics
     const [summaryResult] = await intelligenceDb
       .select({
@@ -1383,7 +1294,7 @@ intelligenceRouter.get('/transformations/summary', async (req, res) => {
         )::numeric`,
       })
       .from(agentTransformationEvents)
-      .where(sql`${agentTransformationEvents.createdAt} > NOW() - INTERVAL '${sql.raw(interval)}'`);
+      .where(inTimeRange(agentTransformationEvents.createdAt, range));
 
     // Get most common transformation
     const mostCommonResult = await intelligenceDb
@@ -1393,7 +1304,7 @@ intelligenceRouter.get('/transformations/summary', async (req, res) => {
         count: sql<number>`COUNT(*)::int`,
       })
       .from(agentTransformationEvents)
-      .where(sql`${agentTransformationEvents.createdAt} > NOW() - INTERVAL '${sql.raw(interval)}'`)
+      .where(inTimeRange(agentTransformationEvents.createdAt, range))
       .groupBy(agentTransformationEvents.sourceAgent, agentTransformationEvents.targetAgent)
       .orderBy(sql`COUNT(*) DESC`)
       .limit(1);
@@ -1408,7 +1319,7 @@ intelligenceRouter.get('/transformations/summary', async (req, res) => {
         avgDurationMs: sql<number>`ROUND(AVG(${agentTransformationEvents.transformationDurationMs}), 0)::numeric`,
       })
       .from(agentTransformationEvents)
-      .where(sql`${agentTransformationEvents.createdAt} > NOW() - INTERVAL '${sql.raw(interval)}'`)
+      .where(inTimeRange(agentTransformationEvents.createdAt, range))
       .groupBy(agentTransformationEvents.sourceAgent, agentTransformationEvents.targetAgent)
       .orderBy(sql`COUNT(*) DESC`)
       .limit(50); // Limit to top 50 flows for visualization
@@ -1503,8 +1414,7 @@ intelligenceRouter.get('/trace/:correlationId', async (req, res) => {
     const { correlationId } = req.params;
 
     // Validate UUID format
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-    if (!uuidRegex.test(correlationId)) {
+    if (!UUID_PATTERN.test(correlationId)) {
       res.status(400).json({
         error: 'Invalid correlation ID format',
         message: 'Correlation ID must be a valid UUID'
@@ -1512,124 +1422,7 @@ intelligenceRouter.get('/trace/:correlationId', async (req, res) => {
       return;
     }
 
-    // Query all relevant tables for this correlation ID
-    const [actions, manifests] = await Promise.all([
-      // Get agent actions
-      intelligenceDb
-        .select({
-          id: agentActions.id,
-          agentName: agentActions.agentName,
-          actionType: agentActions.actionType,
-          actionName: agentActions.actionName,
-          actionDetails: agentActions.actionDetails,
-          durationMs: agentActions.durationMs,
-          createdAt: agentActions.createdAt,
-        })
-        .from(agentActions)
-        .where(eq(agentActions.correlationId, correlationId)),
-
-      // Get manifest injections
-      intelligenceDb
-        .select({
-          id: agentManifestInjections.id,
-          agentName: agentManifestInjections.agentName,
-          manifestVersion: agentManifestInjections.manifestVersion,
-          generationSource: agentManifestInjections.generationSource,
-          patternsCount: agentManifestInjections.patternsCount,
-          infrastructureServices: agentManifestInjections.infrastructureServices,
-          totalQueryTimeMs: agentManifestInjections.totalQueryTimeMs,
-          routingDecisionId: agentManifestInjections.routingDecisionId,
-          createdAt: agentManifestInjections.createdAt,
-        })
-        .from(agentManifestInjections)
-        .where(eq(agentManifestInjections.correlationId, correlationId)),
-    ]);
-
-    // Get routing decisions if any manifests have routing_decision_id
-    const routingDecisionIds = manifests
-      .filter(m => m.routingDecisionId)
-      .map(m => m.routingDecisionId as string);
-
-    const routingDecisions = routingDecisionIds.length > 0
-      ? await intelligenceDb
-          .select({
-            id: agentRoutingDecisions.id,
-            selectedAgent: agentRoutingDecisions.selectedAgent,
-            confidenceScore: agentRoutingDecisions.confidenceScore,
-            routingStrategy: agentRoutingDecisions.routingStrategy,
-            userRequest: agentRoutingDecisions.userRequest,
-            reasoning: agentRoutingDecisions.reasoning,
-            alternatives: agentRoutingDecisions.alternatives,
-            routingTimeMs: agentRoutingDecisions.routingTimeMs,
-            createdAt: agentRoutingDecisions.createdAt,
-          })
-          .from(agentRoutingDecisions)
-          .where(inArray(agentRoutingDecisions.id, routingDecisionIds))
-      : [];
-
-    // Transform routing decisions into events
-    const routingEvents = routingDecisions.map(d => ({
-      id: d.id,
-      eventType: 'routing' as const,
-      timestamp: d.createdAt?.toISOString() || new Date().toISOString(),
-      agentName: d.selectedAgent,
-      details: {
-        userRequest: d.userRequest,
-        confidenceScore: parseFloat(d.confidenceScore?.toString() || '0'),
-        routingStrategy: d.routingStrategy,
-        reasoning: d.reasoning,
-        alternatives: d.alternatives,
-      },
-      durationMs: d.routingTimeMs || undefined,
-    }));
-
-    // Transform actions into events
-    const actionEvents = actions.map(a => ({
-      id: a.id,
-      eventType: 'action' as const,
-      timestamp: a.createdAt?.toISOString() || new Date().toISOString(),
-      agentName: a.agentName,
-      details: {
-        actionType: a.actionType,
-        actionName: a.actionName,
-        actionDetails: a.actionDetails,
-      },
-      durationMs: a.durationMs || undefined,
-    }));
-
-    // Transform manifests into events
-    const manifestEvents = manifests.map(m => ({
-      id: m.id,
-      eventType: 'manifest' as const,
-      timestamp: m.createdAt?.toISOString() || new Date().toISOString(),
-      agentName: m.agentName,
-      details: {
-        manifestVersion: m.manifestVersion,
-        generationSource: m.generationSource,
-        patternsCount: m.patternsCount,
-        infrastructureServices: m.infrastructureServices,
-      },
-      durationMs: m.totalQueryTimeMs || undefined,
-    }));
-
-    // Combine all events and sort by timestamp (newest first)
-    const allEvents = [...routingEvents, ...actionEvents, ...manifestEvents];
-    allEvents.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-
-    // Calculate summary statistics
-    const summary = {
-      totalEvents: allEvents.length,
-      routingDecisions: routingEvents.length,
-      actions: actionEvents.length,
-      errors: 0, // No error events table yet
-      totalDurationMs: allEvents.reduce((sum, e) => sum + (e.durationMs || 0), 0),
-    };
-
-    res.json({
-      correlationId,
-      events: allEvents,
-      summary,
-    });
+    res.json(await getCorrelationTrace(correlationId));
   } catch (error) {
     console.error('Error fetching trace:', error);
     res.status(500).json({
@@ -1644,8 +1437,8 @@ intelligenceRouter.get('/trace/:correlationId', async (req, res) => {
 // ============================================================================
 
 /**
- * GET /api/intelligence/health/manifest-injection
- * Returns manifest injection health metrics and service status
+ * GET /api/intelligence/health/manifest-injection?timeWindow=24h|7d|30d
+ * Returns manifest injection health metrics and service status (default range: "24h")
  *
  * Response format:
  * {
@@ -1670,8 +1463,10 @@ intelligenceRouter.get('/trace/:correlationId', async (req, res) => {
  * }
  */
 intelligenceRouter.get('/health/manifest-injection', async (req, res) => {
+  const range = parseTimeRange(req, res, '24h');
+  if (!range) return;
+
   try {
-    const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
 
     // Query 1: Success rate and average latency
     const [metricsResult] = await intelligenceDb
@@ -1688,7 +1483,7 @@ intelligenceRouter.get('/health/manifest-injection', async (req, res) => {
         `,
       })
       .from(agentManifestInjections)
-      .where(gte(agentManifestInjections.createdAt, twentyFourHoursAgo));
+      .where(inTimeRange(agentManifestInjections.createdAt, range));
 
     const totalInjections = metricsResult?.totalInjections || 0;
     const successfulInjections = metricsResult?.successfulInjections || 0;
@@ -1713,7 +1508,7 @@ intelligenceRouter.get('/health/manifest-injection', async (req, res) => {
       .from(agentManifestInjections)
       .where(
         and(
-          gte(agentManifestInjections.createdAt, twentyFourHoursAgo),
+          inTimeRange(agentManifestInjections.createdAt, range),
           eq(agentManifestInjections.agentExecutionSuccess, false)
         )
       )
@@ -1745,7 +1540,7 @@ intelligenceRouter.get('/health/manifest-injection', async (req, res) => {
         `,
       })
       .from(agentManifestInjections)
-      .where(gte(agentManifestInjections.createdAt, twentyFourHoursAgo));
+      .where(inTimeRange(agentManifestInjections.createdAt, range));
 
     const manifestSizeStats = {
       avgSizeKb: parseFloat((parseFloat(sizeStatsResult?.avgSizeBytes?.toString() || '0') / 1024).toFixed(2)),
@@ -1753,17 +1548,17 @@ intelligenceRouter.get('/health/manifest-injection', async (req, res) => {
       maxSizeKb: parseFloat((parseFloat(sizeStatsResult?.maxSizeBytes?.toString() || '0') / 1024).toFixed(2)),
     };
 
-    // Query 4: Latency trend (hourly for last 24h)
+    // Query 4: Latency trend, bucketed by the range granularity
     const latencyTrendQuery = await intelligenceDb
       .select({
-        period: sql<string>`DATE_TRUNC('hour', ${agentManifestInjections.createdAt})::text`,
+        period: sql<string>`${timeBucket(agentManifestInjections.createdAt, range)}::text`,
         avgLatencyMs: sql<number>`ROUND(AVG(${agentManifestInjections.totalQueryTimeMs}), 2)::numeric`,
         count: sql<number>`COUNT(*)::int`,
       })
       .from(agentManifestInjections)
-      .where(gte(agentManifestInjections.createdAt, twentyFourHoursAgo))
-      .groupBy(sql`DATE_TRUNC('hour', ${agentManifestInjections.createdAt})`)
-      .orderBy(sql`DATE_TRUNC('hour', ${agentManifestInjections.createdAt}) DESC`);
+      .where(inTimeRange(agentManifestInjections.createdAt, range))
+      .groupBy(timeBucket(agentManifestInjections.createdAt, range))
+      .orderBy(sql`${timeBucket(agentManifestInjections.createdAt, range)} DESC`);
 
     const latencyTrend = latencyTrendQuery.map(t => ({
       period: t.period,
@@ -1844,7 +1639,7 @@ intelligenceRouter.get('/health/manifest-injection', async (req, res) => {
  * Returns operations per minute time-series from agent actions
  *
  * Query parameters:
- * - timeWindow: "24h" (hourly), "7d" (daily), "30d" (daily) (default: "24h")
+ * - timeWindow, start, end, tz: time range (default: "24h"); bucket size follows its span
  *
  * Response format:
  * [
@@ -1856,40 +1651,26 @@ intelligenceRouter.get('/health/manifest-injection', async (req, res) => {
  * ]
  */
 intelligenceRouter.get('/metrics/operations-per-minute', async (req, res) => {
-  try {
-    const timeWindow = (req.query.timeWindow as string) || '24h';
-
-    // Determine time interval and truncation
-    const interval = timeWindow === '24h' ? '24 hours' :
-                     timeWindow === '7d' ? '7 days' :
-                     timeWindow === '30d' ? '30 days' : '24 hours';
-
-    const truncation = timeWindow === '24h' ? 'hour' : 'day';
+  const range = parseTimeRange(req, res, '24h');
+  if (!range) return;
 
+  try {
     // Query agent actions grouped by time period and action type
     const operationsData = await intelligenceDb
       .select({
-        period: sql<string>`DATE_TRUNC('${sql.raw(truncation)}', ${agentActions.createdAt})::text`,
+        period: sql<string>`${timeBucket(agentActions.createdAt, range)}::text`,
         actionType: agentActions.actionType,
         totalOperations: sql<number>`COUNT(*)::int`,
-        // Calculate operations per minute based on truncation
-        // For hourly: count / 60 minutes
-        // For daily: count / 1440 minutes (24 hours * 60 minutes)
-        operationsPerMinute: sql<number>`
-          CASE
-            WHEN '${sql.raw(truncation)}' = 'hour' THEN ROUND(COUNT(*)::numeric / 60.0, 2)
-            WHEN '${sql.raw(truncation)}' = 'day' THEN ROUND(COUNT(*)::numeric / 1440.0, 2)
-            ELSE ROUND(COUNT(*)::numeric / 60.0, 2)
-          END
-        `,
+        // Operations per minute: count / minutes per bucket
+        operationsPerMinute: sql<number>`ROUND(COUNT(*)::numeric / ${bucketMinutes(range)}, 2)`,
       })
       .from(agentActions)
-      .where(sql`${agentActions.createdAt} > NOW() - INTERVAL '${sql.raw(interval)}'`)
+      .where(inTimeRange(agentActions.createdAt, range))
       .groupBy(
-        sql`DATE_TRUNC('${sql.raw(truncation)}', ${agentActions.createdAt})`,
+        timeBucket(agentActions.createdAt, range),
         agentActions.actionType
       )
-      .orderBy(sql`DATE_TRUNC('${sql.raw(truncation)}', ${agentActions.createdAt}) DESC`);
+      .orderBy(sql`${timeBucket(agentActions.createdAt, range)} DESC`);
 
     const formattedData = operationsData.map(d => ({
       period: d.period,
@@ -1912,7 +1693,7 @@ intelligenceRouter.get('/metrics/operations-per-minute', async (req, res) => {
  * Returns quality impact time-series from Omniarchon service or database fallback
  *
  * Query parameters:
- * - timeWindow: "24h" (hourly), "7d" (daily), "30d" (daily) (default: "24h")
+ * - timeWindow, start, end, tz: time range (default: "24h"); bucket size follows its span
  *
  * Response format:
  * [
@@ -1924,23 +1705,12 @@ intelligenceRouter.get('/metrics/operations-per-minute', async (req, res) => {
  * ]
  */
 intelligenceRouter.get('/metrics/quality-impact', async (req, res) => {
-  try {
-    const timeWindow = (req.query.timeWindow as string) || '24h';
-
-    // Parse time window to hours for Omniarchon API
-    const hoursMap: Record<string, number> = {
-      '24h': 24,
-      '7d': 168,
-      '30d': 720
-    };
-    const hours = hoursMap[timeWindow] || 24;
-
-    // Determine time interval and truncation for database fallback
-    const interval = timeWindow === '24h' ? '24 hours' :
-                     timeWindow === '7d' ? '7 days' :
-                     timeWindow === '30d' ? '30 days' : '24 hours';
+  const range = parseTimeRange(req, res, '24h');
+  if (!range) return;
 
-    const truncation = timeWindow === '24h' ? 'hour' : 'day';
+  try {
+    // Omniarchon takes a look-back in hours; impacts after a custom end are dropped below
+    const hours = lookbackHours(range);
 
     // Try to fetch from Omniarchon intelligence service first
     const omniarchonUrl = process.env.INTELLIGENCE_SERVICE_URL || 'http://localhost:8053';
@@ -1963,11 +1733,13 @@ intelligenceRouter.get('/metrics/quality-impact', async (req, res) => {
           console.log(`✓ Using real quality impact data from Omniarchon (${omniarchonData.impacts.length} data points)`);
 
           // Transform Omniarchon response to match frontend expectations
-          const formattedImpacts = omniarchonData.impacts.map((impact: any) => ({
-            period: impact.timestamp,
-            avgQualityImprovement: impact.quality_delta || 0,
-            manifestsImproved: impact.manifests_count || 0,
-          }));
+          const formattedImpacts = omniarchonData.impacts
+            .filter((impact: any) => containsTime(range, impact.timestamp))
+            .map((impact: any) => ({
+              period: impact.timestamp,
+              avgQualityImprovement: impact.quality_delta || 0,
+              manifestsImproved: impact.manifests_count || 0,
+            }));
 
           return res.json(formattedImpacts);
         } else {
@@ -1986,7 +1758,7 @@ intelligenceRouter.get('/metrics/quality-impact', async (req, res) => {
     // Strategy: Compare quality scores before and after manifest injections
     const qualityImpactData = await intelligenceDb
       .select({
-        period: sql<string>`DATE_TRUNC('${sql.raw(truncation)}', ${agentManifestInjections.createdAt})::text`,
+        period: sql<string>`${timeBucket(agentManifestInjections.createdAt, range)}::text`,
         // Calculate average quality improvement (only for successful executions)
         avgQualityImprovement: sql<number>`
           ROUND(AVG(
@@ -2008,9 +1780,9 @@ intelligenceRouter.get('/metrics/quality-impact', async (req, res) => {
         `,
       })
       .from(agentManifestInjections)
-      .where(sql`${agentManifestInjections.createdAt} > NOW() - INTERVAL '${sql.raw(interval)}'`)
-      .groupBy(sql`DATE_TRUNC('${sql.raw(truncation)}', ${agentManifestInjections.createdAt})`)
-      .orderBy(sql`DATE_TRUNC('${sql.raw(truncation)}', ${agentManifestInjections.createdAt}) DESC`);
+      .where(inTimeRange(agentManifestInjections.createdAt, range))
+      .groupBy(timeBucket(agentManifestInjections.createdAt, range))
+      .orderBy(sql`${timeBucket(agentManifestInjections.createdAt, range)} DESC`);
 
     const formattedImpacts = qualityImpactData.map(d => ({
       period: d.period,
@@ -2033,8 +1805,9 @@ intelligenceRouter.get('/metrics/quality-impact', async (req, res) => {
 // ============================================================================
 
 /**
- * GET /api/intelligence/developer/workflows
- * Returns aggregated workflow statistics by action type
+ * GET /api/intelligence/developer/workflows?timeWindow=24h|7d|30d
+ * Returns aggregated workflow statistics by action type; improvement compares
+ * with the preceding period of the same length (default: "7d")
  *
  * Response format:
  * [
@@ -2048,6 +1821,9 @@ intelligenceRouter.get('/metrics/quality-impact', async (req, res) => {
  * ]
  */
 intelligenceRouter.get('/developer/workflows', async (req, res) => {
+  const range = parseTimeRange(req, res, '7d');
+  if (!range) return;
+
   try {
     // Query agentActions grouped by actionType
     const workflows = await intelligenceDb
@@ -2057,7 +1833,7 @@ intelligenceRouter.get('/developer/workflows', async (req, res) => {
         avgDurationMs: sql<number>`ROUND(AVG(${agentActions.durationMs}), 1)::numeric`,
       })
       .from(agentActions)
-      .where(sql`${agentActions.createdAt} > NOW() - INTERVAL '7 days'`)
+      .where(inTimeRange(agentActions.createdAt, range))
       .groupBy(agentActions.actionType)
       .orderBy(sql`COUNT(*) DESC`);
 
@@ -2068,10 +1844,7 @@ intelligenceRouter.get('/developer/workflows', async (req, res) => {
         completions: sql<number>`COUNT(*)::int`,
       })
       .from(agentActions)
-      .where(sql`
-        ${agentActions.createdAt} > NOW() - INTERVAL '14 days' AND
-        ${agentActions.createdAt} <= NOW() - INTERVAL '7 days'
-      `)
+      .where(inTimeRange(agentActions.createdAt, previousTimeRange(range)))
       .groupBy(agentActions.actionType);
 
     // Create lookup for previous period
@@ -2134,7 +1907,7 @@ intelligenceRouter.get('/developer/workflows', async (req, res) => {
  * Returns time-series of development velocity (actions per hour)
  *
  * Query parameters:
- * - timeWindow: "24h" (hourly), "7d" (daily), "30d" (daily) (default: "24h")
+ * - timeWindow, start, end, tz: time range (default: "24h"); bucket size follows its span
  *
  * Response format:
  * [
@@ -2145,42 +1918,25 @@ intelligenceRouter.get('/developer/workflows', async (req, res) => {
  * ]
  */
 intelligenceRouter.get('/developer/velocity', async (req, res) => {
-  try {
-    const timeWindow = (req.query.timeWindow as string) || '24h';
-
-    // Determine time interval and truncation
-    const interval = timeWindow === '24h' ? '24 hours' :
-                     timeWindow === '7d' ? '7 days' :
-                     timeWindow === '30d' ? '30 days' : '24 hours';
-
-    const truncation = timeWindow === '24h' ? 'hour' : 'day';
+  const range = parseTimeRange(req, res, '24h');
+  if (!range) return;
 
+  try {
     // Query velocity metrics
     const velocityData = await intelligenceDb
       .select({
-        period: sql<string>`DATE_TRUNC('${sql.raw(truncation)}', ${agentActions.createdAt})::text`,
+        period: sql<string>`${timeBucket(agentActions.createdAt, range)}::text`,
         actionCount: sql<number>`COUNT(*)::int`,
       })
       .from(agentActions)
-      .where(sql`${agentActions.createdAt} > NOW() - INTERVAL '${sql.raw(interval)}'`)
-      .groupBy(sql`DATE_TRUNC('${sql.raw(truncation)}', ${agentActions.createdAt})`)
-      .orderBy(sql`DATE_TRUNC('${sql.raw(truncation)}', ${agentActions.createdAt}) ASC`);
+      .where(inTimeRange(agentActions.createdAt, range))
+      .groupBy(timeBucket(agentActions.createdAt, range))
+      .orderBy(sql`${timeBucket(agentActions.createdAt, range)} ASC`);
 
     // Format time labels and velocity values
     const formattedVelocity = velocityData.map(v => {
-      const timestamp = new Date(v.period);
-      let timeLabel: string;
-
-      if (timeWindow === '24h') {
-        // Format as "0:00", "1:00", etc.
-        timeLabel = `${timestamp.getHours()}:00`;
-      } else {
-        // Format as "Oct 27"
-        timeLabel = timestamp.toLocaleDateString('en-US', {
-          month: 'short',
-          day: 'numeric',
-        });
-      }
+      // "0:00", "1:00", ... for hourly buckets, "Oct 27" for daily
+      const timeLabel = bucketAxisLabel(v.period, range.granularity);
 
       return {
         time: timeLabel,
@@ -2203,7 +1959,7 @@ intelligenceRouter.get('/developer/velocity', async (req, res) => {
  * Returns time-series of productivity score (success rate × confidence)
  *
  * Query parameters:
- * - timeWindow: "24h" (hourly), "7d" (daily), "30d" (daily) (default: "24h")
+ * - timeWindow, start, end, tz: time range (default: "24h"); bucket size follows its span
  *
  * Response format:
  * [
@@ -2214,20 +1970,14 @@ intelligenceRouter.get('/developer/velocity', async (req, res) => {
  * ]
  */
 intelligenceRouter.get('/developer/productivity', async (req, res) => {
-  try {
-    const timeWindow = (req.query.timeWindow as string) || '24h';
-
-    // Determine time interval and truncation
-    const interval = timeWindow === '24h' ? '24 hours' :
-                     timeWindow === '7d' ? '7 days' :
-                     timeWindow === '30d' ? '30 days' : '24 hours';
-
-    const truncation = timeWindow === '24h' ? 'hour' : 'day';
+  const range = parseTimeRange(req, res, '24h');
+  if (!range) return;
 
+  try {
     // Query productivity metrics (using success rate only - no join due to schema mismatch)
     const productivityData = await intelligenceDb
       .select({
-        period: sql<string>`DATE_TRUNC('${sql.raw(truncation)}', ${agentActions.createdAt})::text`,
+        period: sql<string>`${timeBucket(agentActions.createdAt, range)}::text`,
         // Calculate success rate from action types
         successRate: sql<number>`
           COUNT(*) FILTER (WHERE ${agentActions.actionType} IN ('success', 'tool_call'))::numeric /
@@ -2237,25 +1987,14 @@ intelligenceRouter.get('/developer/productivity', async (req, res) => {
         avgConfidence: sql<number>`0.85::numeric`,
       })
       .from(agentActions)
-      .where(sql`${agentActions.createdAt} > NOW() - INTERVAL '${sql.raw(interval)}'`)
-      .groupBy(sql`DATE_TRUNC('${sql.raw(truncation)}', ${agentActions.createdAt})`)
-      .orderBy(sql`DATE_TRUNC('${sql.raw(truncation)}', ${agentActions.createdAt}) ASC`);
+      .where(inTimeRange(agentActions.createdAt, range))
+      .groupBy(timeBucket(agentActions.createdAt, range))
+      .orderBy(sql`${timeBucket(agentActions.createdAt, range)} ASC`);
 
     // Calculate productivity score and format
     const formattedProductivity = productivityData.map(p => {
-      const timestamp = new Date(p.period);
-      let timeLabel: string;
-
-      if (timeWindow === '24h') {
-        // Format as "0:00", "1:00", etc.
-        timeLabel = `${timestamp.getHours()}:00`;
-      } else {
-        // Format as "Oct 27"
-        timeLabel = timestamp.toLocaleDateString('en-US', {
-          month: 'short',
-          day: 'numeric',
-        });
-      }
+      // "0:00", "1:00", ... for hourly buckets, "Oct 27" for daily
+      const timeLabel = bucketAxisLabel(p.period, range.granularity);
 
       // Productivity score = success rate × confidence × 100
       const successRate = parseFloat(p.successRate?.toString() || '0');
@@ -2283,7 +2022,7 @@ intelligenceRouter.get('/developer/productivity', async (req, res) => {
  * Returns task completion velocity metrics from task_completion_metrics table
  *
  * Query parameters:
- * - timeWindow: "24h" (hourly), "7d" (daily), "30d" (daily) (default: "7d")
+ * - timeWindow, start, end, tz: time range (default: "7d"); bucket size follows its span
  *
  * Response format:
  * [
@@ -2296,42 +2035,32 @@ intelligenceRouter.get('/developer/productivity', async (req, res) => {
  * ]
  */
 intelligenceRouter.get('/developer/task-velocity', async (req, res) => {
-  try {
-    const timeWindow = (req.query.timeWindow as string) || '7d';
-
-    // Determine time interval and truncation
-    const interval = timeWindow === '24h' ? '24 hours' :
-                     timeWindow === '7d' ? '7 days' :
-                     timeWindow === '30d' ? '30 days' : '7 days';
-
-    const truncation = timeWindow === '24h' ? 'hour' : 'day';
+  const range = parseTimeRange(req, res, '7d');
+  if (!range) return;
 
+  try {
     // Query task completion metrics grouped by date
     const velocityData = await intelligenceDb
       .select({
-        period: sql<string>`DATE_TRUNC('${sql.raw(truncation)}', ${taskCompletionMetrics.createdAt})::text`,
+        period: sql<string>`${timeBucket(taskCompletionMetrics.createdAt, range)}::text`,
         tasksCompleted: sql<number>`COUNT(*) FILTER (WHERE ${taskCompletionMetrics.success} = TRUE)::int`,
         avgDurationMs: sql<number>`ROUND(AVG(${taskCompletionMetrics.completionTimeMs}) FILTER (WHERE ${taskCompletionMetrics.success} = TRUE), 1)::numeric`,
         totalTasks: sql<number>`COUNT(*)::int`,
       })
       .from(taskCompletionMetrics)
-      .where(sql`${taskCompletionMetrics.createdAt} > NOW() - INTERVAL '${sql.raw(interval)}'`)
-      .groupBy(sql`DATE_TRUNC('${sql.raw(truncation)}', ${taskCompletionMetrics.createdAt})`)
-      .orderBy(sql`DATE_TRUNC('${sql.raw(truncation)}', ${taskCompletionMetrics.createdAt}) ASC`);
+      .where(inTimeRange(taskCompletionMetrics.createdAt, range))
+      .groupBy(timeBucket(taskCompletionMetrics.createdAt, range))
+      .orderBy(sql`${timeBucket(taskCompletionMetrics.createdAt, range)} ASC`);
 
     // Format response with tasks per day calculation
     const formattedVelocity = velocityData.map(v => {
-      const timestamp = new Date(v.period);
-      const dateLabel = timeWindow === '24h'
-        ? timestamp.toISOString().split('T')[0] + ' ' + timestamp.getHours().toString().padStart(2, '0') + ':00'
-        : timestamp.toISOString().split('T')[0];
-
-      // Calculate tasks per day
-      // For hourly: tasks in that hour
-      // For daily: tasks in that day
-      const tasksPerDay = timeWindow === '24h'
-        ? parseFloat((v.tasksCompleted * 24).toFixed(1)) // Extrapolate hour to full day
-        : v.tasksCompleted;
+      // Buckets are local "YYYY-MM-DD HH:MM:SS" timestamps
+      const dateLabel = range.granularity === 'minute' || range.granularity === 'hour'
+        ? v.period.slice(0, 16)
+        : v.period.slice(0, 10);
+
+      // Tasks per day, extrapolated from (or averaged over) the bucket
+      const tasksPerDay = parseFloat((v.tasksCompleted * (24 * 60) / bucketMinutes(range)).toFixed(1));
 
       return {
         date: dateLabel,
@@ -2471,9 +2200,7 @@ intelligenceRouter.get('/performance/metrics', async (req, res) => {
  */
 intelligenceRouter.get('/performance/summary', async (req, res) => {
   try {
-    const stats = eventConsumer.getPerformanceStats();
-
-    res.json(stats);
+    res.json(getPerformanceSummary());
   } catch (error) {
     console.error('Error fetching performance summary:', error);
     res.status(500).json({
@@ -2483,6 +2210,349 @@ intelligenceRouter.get('/performance/summary', async (req, res) => {
   }
 });
 
+// ============================================================================
+// Event Topic Registry & Consumer Offsets
+// ============================================================================
+
+const OffsetResetSchema = z.object({
+  timestamp: z.string().datetime({ offset: true }),
+  topics: z.array(z.string().min(1)).min(1).optional(),
+  resetAggregates: z.boolean().default(true),
+});
+
+/**
+ * GET /api/intelligence/events/topics
+ * Returns the consumer group and the registered topics with their handlers
+ *
+ * Response format:
+ * {
+ *   groupId: "omnidash-consumers-v2",
+ *   fromBeginning: true,
+ *   topics: [
+ *     {
+ *       topic: "agent-actions",
+ *       handler: "agent-actions",
+ *       schema: "agent-actions",
+ *       retention: 100,
+ *       wsMessageType: "AGENT_ACTION",
+ *       wsTopic: "actions",
+ *       enabled: true
+ *     }
+ *   ]
+ * }
+ */
+intelligenceRouter.get('/events/topics', async (req, res) => {
+  try {
+    const { groupId, fromBeginning, topics } = eventConsumer.getTopicConfig();
+
+    res.json({
+      groupId,
+      fromBeginning,
+      topics: topics.map(({ schema, schemaName, ...definition }) => ({ ...definition, schema: schemaName }))
+    });
+  } catch (error) {
+    console.error('Error fetching event topics:', error);
+    res.status(500).json({
+      error: 'Failed to fetch event topics',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/intelligence/events/topics/:topic/recent?limit=100
+ * Returns recent records of a topic handled by the generic 'recent-events' handler
+ *
+ * Response format:
+ * { topic: "agent-manifest-injections", events: [...], total: 12 }
+ */
+intelligenceRouter.get('/events/topics/:topic/recent', async (req, res) => {
+  const { topics } = eventConsumer.getTopicConfig();
+  if (!topics.some(definition => definition.topic === req.params.topic)) {
+    return res.status(404).json({ error: 'Topic not registered', topic: req.params.topic });
+  }
+
+  const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+  const events = eventConsumer.getTopicEvents(req.params.topic, limit);
+  res.json({ topic: req.params.topic, events, total: events.length });
+});
+
+/**
+ * POST /api/intelligence/events/offsets/reset
+ * Admin: move the consumer group to the first offsets at or after a timestamp
+ * (replaces renaming the consumer group by hand to force a replay)
+ *
+ * Body: { timestamp: "2025-10-28T00:00:00Z", topics?: string[], resetAggregates?: boolean }
+ *
+ * Response format:
+ * {
+ *   groupId: "omnidash-consumers-v2",
+ *   timestamp: "2025-10-28T00:00:00.000Z",
+ *   topics: [{ topic: "agent-actions", partitions: [{ partition: 0, offset: "1042" }] }]
+ * }
+ */
+intelligenceRouter.post('/events/offsets/reset', async (req, res) => {
+  const parsed = OffsetResetSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid offset reset request',
+      details: parsed.error.issues
+    });
+  }
+
+  const { groupId, topics: definitions } = eventConsumer.getTopicConfig();
+  const registered = new Set(definitions.filter(d => d.enabled).map(d => d.topic));
+  const unknown = (parsed.data.topics ?? []).filter(topic => !registered.has(topic));
+  if (unknown.length > 0) {
+    return res.status(400).json({
+      error: 'Unknown topics',
+      message: `Not registered: ${unknown.join(', ')}`
+    });
+  }
+
+  try {
+    const timestamp = new Date(parsed.data.timestamp);
+    const topics = await eventConsumer.resetOffsetsToTimestamp(timestamp, {
+      topics: parsed.data.topics,
+      resetAggregates: parsed.data.resetAggregates,
+    });
+
+    res.json({ groupId, timestamp: timestamp.toISOString(), topics });
+  } catch (error) {
+    console.error('Error resetting consumer offsets:', error);
+    res.status(500).json({
+      error: 'Failed to reset consumer offsets',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// ============================================================================
+// Event Dead Letters (in-memory, optionally mirrored to disk)
+// ============================================================================
+
+const DeadLetterListQuerySchema = z.object({
+  topic: z.string().min(1).optional(),
+  reason: z.enum(['invalid_json', 'schema_validation', 'handler_error', 'unknown_topic']).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+const DeadLetterReplaySchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(1000).optional(),
+  topic: z.string().min(1).optional(),
+});
+
+/**
+ * GET /api/intelligence/events/dead-letters?topic=agent-actions&reason=schema_validation&limit=100
+ * Returns Kafka messages rejected by JSON parsing, topic schemas or handlers
+ *
+ * Response format:
+ * {
+ *   counts: {
+ *     total: 3,
+ *     byTopic: { "agent-actions": 2, "agent-routing-decisions": 1 },
+ *     byReason: { schema_validation: 2, invalid_json: 1 }
+ *   },
+ *   deadLetters: [
+ *     {
+ *       id: "uuid",
+ *       topic: "agent-actions",
+ *       partition: 0,
+ *       offset: "1042",
+ *       reason: "schema_validation",
+ *       error: "agentName: Required",
+ *       issues: [{ path: "agentName", message: "Required" }],
+ *       rawPayload: "{\"action_type\":\"tool_call\"}",
+ *       receivedAt: "2025-10-28T12:00:00Z",
+ *       replayAttempts: 0,
+ *       lastReplayAt: null
+ *     }
+ *   ]
+ * }
+ */
+intelligenceRouter.get('/events/dead-letters', async (req, res) => {
+  const parsed = DeadLetterListQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid query parameters',
+      details: parsed.error.issues
+    });
+  }
+
+  try {
+    res.json({
+      counts: eventConsumer.getDeadLetterCounts(),
+      deadLetters: eventConsumer.getDeadLetters(parsed.data)
+    });
+  } catch (error) {
+    console.error('Error fetching dead letters:', error);
+    res.status(500).json({
+      error: 'Failed to fetch dead letters',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/intelligence/events/dead-letters/replay
+ * Re-processes dead letters after the producer, schema or handler was fixed.
+ * Replays the given ids, every entry of a topic, or all entries when the body is empty.
+ * Replayed entries are removed; failures stay with the latest reason.
+ *
+ * Body: { ids?: string[], topic?: string }
+ *
+ * Response format:
+ * {
+ *   replayed: 2,
+ *   failed: 1,
+ *   results: [{ id: "uuid", status: "replayed" | "failed" | "not_found", reason?, error? }],
+ *   counts: { total: 1, byTopic: {...}, byReason: {...} }
+ * }
+ */
+intelligenceRouter.post('/events/dead-letters/replay', async (req, res) => {
+  const parsed = DeadLetterReplaySchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid replay request',
+      details: parsed.error.issues
+    });
+  }
+
+  try {
+    const ids = parsed.data.ids
+      ?? eventConsumer.getDeadLetters({ topic: parsed.data.topic }).map(entry => entry.id);
+    const results = eventConsumer.replayDeadLetters(ids);
+
+    res.json({
+      replayed: results.filter(result => result.status === 'replayed').length,
+      failed: results.filter(result => result.status === 'failed').length,
+      results,
+      counts: eventConsumer.getDeadLetterCounts()
+    });
+  } catch (error) {
+    console.error('Error replaying dead letters:', error);
+    res.status(500).json({
+      error: 'Failed to replay dead letters',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/intelligence/events/dead-letters/:id/replay
+ * Re-processes a single dead letter, optionally with a corrected payload
+ *
+ * Body: { payload?: object }
+ *
+ * Response format:
+ * { id: "uuid", status: "replayed" | "failed", reason?, error? }
+ */
+intelligenceRouter.post('/events/dead-letters/:id/replay', async (req, res) => {
+  try {
+    const payload = req.body && typeof req.body === 'object' ? req.body.payload : undefined;
+    const [result] = eventConsumer.replayDeadLetters([req.params.id], payload);
+
+    if (result.status === 'not_found') {
+      return res.status(404).json({ error: 'Dead letter not found', id: req.params.id });
+    }
+
+    res.status(result.status === 'replayed' ? 200 : 422).json(result);
+  } catch (error) {
+    console.error('Error replaying dead letter:', error);
+    res.status(500).json({
+      error: 'Failed to replay dead letter',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * DELETE /api/intelligence/events/dead-letters/:id
+ * Discards a dead letter that should not be replayed
+ */
+intelligenceRouter.delete('/events/dead-letters/:id', async (req, res) => {
+  if (!eventConsumer.deleteDeadLetter(req.params.id)) {
+    return res.status(404).json({ error: 'Dead letter not found', id: req.params.id });
+  }
+  res.status(204).end();
+});
+
+// ============================================================================
+// Knowledge Graph (PostgreSQL Database)
+// ============================================================================
+
+const KnowledgeGraphQuerySchema = z.object({
+  focus: z.string().min(1).optional(),
+  depth: z.coerce.number().int().min(1).max(4).default(2),
+  types: z.string()
+    .transform(value => value.split(',').map(type => type.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(KNOWLEDGE_NODE_TYPES)).min(1))
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(5000).default(500),
+});
+
+/**
+ * GET /api/intelligence/knowledge/graph?focus=pattern:<uuid>&depth=2&types=pattern,agent&limit=500
+ * Returns a typed graph of patterns, documents, services and agents built from
+ * pattern_lineage_nodes/edges, document_metadata, node_service_registry and
+ * agent activity (agent_actions joined by correlation id)
+ *
+ * Query parameters:
+ * - timeWindow, start, end, tz: time range (default: "30d") - patterns created and agent activity in the range
+ * - focus: node id to expand around (omit for the best connected nodes)
+ * - depth: hops from the focus node (default: 2, max: 4)
+ * - types: comma separated node types to include (pattern, document, service, agent)
+ * - limit: maximum nodes (default: 500, max: 5000)
+ *
+ * Response format:
+ * {
+ *   nodes: [
+ *     {
+ *       id: "pattern:uuid",
+ *       type: "pattern",
+ *       label: "OAuth Authentication Flow",
+ *       properties: { patternType: "code", language: "python", filePath: "src/auth/oauth.py", quality: 0.91, createdAt: "..." },
+ *       degree: 4,
+ *       distance: 1,           // focus queries only
+ *       hiddenNeighbors: 2     // neighbours not in this response; expand with focus=<id>
+ *     }
+ *   ],
+ *   edges: [
+ *     { id: "discovered:agent:agent-api->pattern:uuid", source: "agent:agent-api", target: "pattern:uuid", type: "discovered", weight: 3 }
+ *   ],
+ *   meta: { focus: "pattern:uuid", depth: 2, totalNodes: 40, totalEdges: 61, truncated: false, nodeTypes: { pattern: 30 }, edgeTypes: { discovered: 12 } }
+ * }
+ *
+ * Edge types: lineage edge_type between patterns, discovered (agent -> pattern),
+ * accessed (agent -> document), defined_in (pattern -> document), hosted_by (document -> service)
+ */
+intelligenceRouter.get('/knowledge/graph', async (req, res) => {
+  const range = parseTimeRange(req, res, '30d');
+  if (!range) return;
+  const parsed = KnowledgeGraphQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid query parameters',
+      details: parsed.error.issues
+    });
+  }
+
+  try {
+    const graph = buildKnowledgeGraph(await getKnowledgeGraphSources(range));
+    const view = queryKnowledgeGraph(graph, parsed.data);
+    if (!view) {
+      return res.status(404).json({ error: 'Node not found', id: parsed.data.focus });
+    }
+    res.json(view);
+  } catch (error) {
+    console.error('Error building knowledge graph:', error);
+    res.status(500).json({
+      error: 'Failed to build knowledge graph',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // ============================================================================
 // Document Access Endpoints (PostgreSQL Database)
 // ============================================================================
@@ -2492,7 +2562,7 @@ intelligenceRouter.get('/performance/summary', async (req, res) => {
  * Returns top accessed documents from document_metadata table
  *
  * Query parameters:
- * - timeWindow: "24h", "7d", "30d" (default: "7d") - filters by last_accessed_at
+ * - timeWindow, start, end, tz: time range (default: "7d") - filters by last_accessed_at
  * - limit: number of documents to return (default: 10, max: 50)
  *
  * Response format:
@@ -2509,18 +2579,15 @@ intelligenceRouter.get('/performance/summary', async (req, res) => {
  * ]
  */
 intelligenceRouter.get('/documents/top-accessed', async (req, res) => {
+  const range = parseTimeRange(req, res, '7d');
+  if (!range) return;
+
   try {
-    const timeWindow = (req.query.timeWindow as string) || '7d';
     const limit = Math.min(
       parseInt(req.query.limit as string) || 10,
       50
     );
 
-    // Determine time interval for filtering
-    const interval = timeWindow === '24h' ? '24 hours' :
-                     timeWindow === '7d' ? '7 days' :
-                     timeWindow === '30d' ? '30 days' : '7 days';
-
     // Get top accessed documents (ordered by access_count)
     const topDocuments = await intelligenceDb
       .select({
@@ -2535,10 +2602,8 @@ intelligenceRouter.get('/documents/top-accessed', async (req, res) => {
       .where(
         and(
           eq(documentMetadata.status, 'active'),
-          // Filter by last_accessed_at if provided, otherwise show all
-          timeWindow === '24h' || timeWindow === '7d' || timeWindow === '30d'
-            ? sql`${documentMetadata.lastAccessedAt} > NOW() - INTERVAL '${sql.raw(interval)}' OR ${documentMetadata.lastAccessedAt} IS NULL`
-            : sql`1=1`
+          // Never-accessed documents are kept so new repositories still list something
+          or(inTimeRange(documentMetadata.lastAccessedAt, range), isNull(documentMetadata.lastAccessedAt))
         )
       )
       .orderBy(desc(documentMetadata.accessCount), desc(documentMetadata.createdAt))
@@ -2605,7 +2670,7 @@ intelligenceRouter.get('/documents/top-accessed', async (req, res) => {
  * Returns ONEX compliance coverage statistics from onex_compliance_stamps table
  *
  * Query parameters:
- * - timeWindow: "24h", "7d", "30d" (default: "24h")
+ * - timeWindow, start, end, tz: time range (default: "24h")
  *
  * Response format:
  * {
@@ -2633,16 +2698,10 @@ intelligenceRouter.get('/documents/top-accessed', async (req, res) => {
  * }
  */
 intelligenceRouter.get('/code/compliance', async (req, res) => {
-  try {
-    const timeWindow = (req.query.timeWindow as string) || '24h';
-
-    // Determine time interval
-    const interval = timeWindow === '24h' ? '24 hours' :
-                     timeWindow === '7d' ? '7 days' :
-                     timeWindow === '30d' ? '30 days' : '24 hours';
-
-    const truncation = timeWindow === '24h' ? 'hour' : 'day';
+  const range = parseTimeRange(req, res, '24h');
+  if (!range) return;
 
+  try {
     // Check if table exists first - if not, return empty data
     try {
       await intelligenceDb.execute(sql`SELECT 1 FROM onex_compliance_stamps LIMIT 1`);
@@ -2693,7 +2752,7 @@ intelligenceRouter.get('/code/compliance', async (req, res) => {
         `,
       })
       .from(onexComplianceStamps)
-      .where(sql`${onexComplianceStamps.createdAt} > NOW() - INTERVAL '${sql.raw(interval)}'`);
+      .where(inTimeRange(onexComplianceStamps.createdAt, range));
 
     const totalFiles = summaryResult?.totalFiles || 0;
     const compliantFiles = summaryResult?.compliantFiles || 0;
@@ -2719,7 +2778,7 @@ intelligenceRouter.get('/code/compliance', async (req, res) => {
         count: sql<number>`COUNT(DISTINCT ${onexComplianceStamps.filePath})::int`,
       })
       .from(onexComplianceStamps)
-      .where(sql`${onexComplianceStamps.createdAt} > NOW() - INTERVAL '${sql.raw(interval)}'`)
+      .where(inTimeRange(onexComplianceStamps.createdAt, range))
       .groupBy(onexComplianceStamps.complianceStatus);
 
     const statusBreakdown = statusBreakdownQuery.map(s => ({
@@ -2742,7 +2801,7 @@ intelligenceRouter.get('/code/compliance', async (req, res) => {
       .from(onexComplianceStamps)
       .where(
         and(
-          sql`${onexComplianceStamps.createdAt} > NOW() - INTERVAL '${sql.raw(interval)}'`,
+          inTimeRange(onexComplianceStamps.createdAt, range),
           sql`${onexComplianceStamps.nodeType} IS NOT NULL`
         )
       )
@@ -2760,7 +2819,7 @@ intelligenceRouter.get('/code/compliance', async (req, res) => {
     // Get compliance trend over time
     const trendQuery = await intelligenceDb
       .select({
-        period: sql<string>`DATE_TRUNC('${sql.raw(truncation)}', ${onexComplianceStamps.createdAt})::text`,
+        period: sql<string>`${timeBucket(onexComplianceStamps.createdAt, range)}::text`,
         totalFiles: sql<number>`COUNT(DISTINCT ${onexComplianceStamps.filePath})::int`,
         compliantFiles: sql<number>`
           COUNT(DISTINCT ${onexComplianceStamps.filePath}) FILTER (
@@ -2769,9 +2828,9 @@ intelligenceRouter.get('/code/compliance', async (req, res) => {
         `,
       })
       .from(onexComplianceStamps)
-      .where(sql`${onexComplianceStamps.createdAt} > NOW() - INTERVAL '${sql.raw(interval)}'`)
-      .groupBy(sql`DATE_TRUNC('${sql.raw(truncation)}', ${onexComplianceStamps.createdAt})`)
-      .orderBy(sql`DATE_TRUNC('${sql.raw(truncation)}', ${onexComplianceStamps.createdAt}) ASC`);
+      .where(inTimeRange(onexComplianceStamps.createdAt, range))
+      .groupBy(timeBucket(onexComplianceStamps.createdAt, range))
+      .orderBy(sql`${timeBucket(onexComplianceStamps.createdAt, range)} ASC`);
 
     const trend = trendQuery.map(t => ({
       period: t.period,
@@ -3182,8 +3241,8 @@ intelligenceRouter.get('/services/health', async (req, res) => {
 // ============================================================================
 
 /**
- * GET /api/intelligence/agents/:agentName/details
- * Returns detailed information about a specific agent
+ * GET /api/intelligence/agents/:agentName/details?timeWindow=24h|7d|30d
+ * Returns detailed information about a specific agent (default range: "24h")
  *
  * Response format:
  * {
@@ -3197,9 +3256,11 @@ intelligenceRouter.get('/services/health', async (req, res) => {
  * }
  */
 intelligenceRouter.get('/agents/:agentName/details', async (req, res) => {
+  const range = parseTimeRange(req, res, '24h');
+  if (!range) return;
+
   try {
     const { agentName } = req.params;
-    const timeWindow = (req.query.timeWindow as string) || '24h';
 
     // Get agent metrics
     const metrics = eventConsumer.getAgentMetrics();
@@ -3213,7 +3274,7 @@ intelligenceRouter.get('/agents/:agentName/details', async (req, res) => {
     }
 
     // Get recent actions for this agent
-    const actions = eventConsumer.getActionsByAgent(agentName, timeWindow);
+    const actions = eventConsumer.getActionsByAgent(agentName, range);
 
     // Calculate metrics
     const totalActions = actions.length;
@@ -3419,7 +3480,3 @@ intelligenceRouter.get('/services/:serviceName/details', async (req, res) => {
     });
   }
 });
-
-// Mount alert routes
-import { alertRouter } from './alert-routes';
-intelligenceRouter.use('/alerts', alertRouter);
@@ -0,0 +1,297 @@
+/**
+ * Knowledge Graph
+ *
+ * Typed graph of patterns, documents, services and agents assembled from our
+ * own tables: pattern lineage edges between patterns, agents linked to the
+ * patterns discovered and documents accessed under their correlation ids,
+ * patterns linked to the document at their file path, and documents linked to
+ * the registered service of their repository. Queries return the busiest part
+ * of the graph or the neighbourhood of a focus node, so the dashboard can
+ * expand it a node at a time.
+ */
+
+export const KNOWLEDGE_NODE_TYPES = ['pattern', 'document', 'service', 'agent'] as const;
+
+export type KnowledgeNodeType = typeof KNOWLEDGE_NODE_TYPES[number];
+
+// Lineage edges keep their own edge_type (e.g. "derived_from")
+export type KnowledgeEdgeType = 'discovered' | 'accessed' | 'defined_in' | 'hosted_by' | (string & {});
+
+export interface KnowledgeNode {
+  // "<type>:<key>", e.g. "pattern:<uuid>" or "agent:agent-api"
+  id: string;
+  type: KnowledgeNodeType;
+  label: string;
+  properties: Record<string, string | number | null>;
+}
+
+export interface KnowledgeEdge {
+  id: string;
+  source: string;
+  target: string;
+  type: KnowledgeEdgeType;
+  weight: number;
+}
+
+export interface PatternSource {
+  id: string;
+  name: string;
+  patternType: string;
+  language: string | null;
+  filePath: string | null;
+  qualityScore: number | null;
+  createdAt: string | null;
+}
+
+export interface LineageEdgeSource {
+  sourceId: string;
+  targetId: string;
+  edgeType: string;
+  weight: number | null;
+}
+
+export interface DocumentSource {
+  id: string;
+  repository: string;
+  filePath: string;
+  accessCount: number;
+}
+
+export interface ServiceSource {
+  name: string;
+  url: string;
+  serviceType: string | null;
+  healthStatus: string;
+}
+
+// How often an agent touched a pattern or document
+export interface AgentLinkSource {
+  agentName: string;
+  targetId: string;
+  count: number;
+}
+
+export interface KnowledgeGraphSources {
+  patterns: PatternSource[];
+  lineage: LineageEdgeSource[];
+  documents: DocumentSource[];
+  services: ServiceSource[];
+  agentPatterns: AgentLinkSource[];
+  agentDocuments: AgentLinkSource[];
+}
+
+export interface KnowledgeGraph {
+  nodes: Map<string, KnowledgeNode>;
+  edges: KnowledgeEdge[];
+  // Edges by node id, both directions
+  adjacency: Map<string, KnowledgeEdge[]>;
+}
+
+export interface KnowledgeGraphQuery {
+  focus?: string;
+  // Hops from the focus node
+  depth: number;
+  types?: KnowledgeNodeType[];
+  limit: number;
+}
+
+export interface KnowledgeGraphNodeView extends KnowledgeNode {
+  degree: number;
+  // Hops from the focus node (focus queries only)
+  distance?: number;
+  // Neighbours (of the requested types) left out of this response
+  hiddenNeighbors: number;
+}
+
+export interface KnowledgeGraphView {
+  nodes: KnowledgeGraphNodeView[];
+  edges: KnowledgeEdge[];
+  meta: {
+    focus: string | null;
+    depth: number | null;
+    // Matching nodes and edges before the limit
+    totalNodes: number;
+    totalEdges: number;
+    truncated: boolean;
+    nodeTypes: Record<string, number>;
+    edgeTypes: Record<string, number>;
+  };
+}
+
+export const nodeId = (type: KnowledgeNodeType, key: string) => `${type}:${key}`;
+
+function normalizePath(path: string): string {
+  return path.trim().replace(/^\.?\/+/, '');
+}
+
+export function buildKnowledgeGraph(sources: KnowledgeGraphSources): KnowledgeGraph {
+  const nodes = new Map<string, KnowledgeNode>();
+  const edges = new Map<string, KnowledgeEdge>();
+
+  const addNode = (node: KnowledgeNode) => {
+    if (!nodes.has(node.id)) nodes.set(node.id, node);
+  };
+  const addEdge = (source: string, target: string, type: KnowledgeEdgeType, weight: number) => {
+    if (source === target || !nodes.has(source) || !nodes.has(target)) return;
+    const id = `${type}:${source}->${target}`;
+    const existing = edges.get(id);
+    if (existing) {
+      existing.weight += weight;
+    } else {
+      edges.set(id, { id, source, target, type, weight });
+    }
+  };
+
+  for (const pattern of sources.patterns) {
+    addNode({
+      id: nodeId('pattern', pattern.id),
+      type: 'pattern',
+      label: pattern.name,
+      properties: {
+        patternType: pattern.patternType,
+        language: pattern.language,
+        filePath: pattern.filePath,
+        quality: pattern.qualityScore,
+        createdAt: pattern.createdAt,
+      },
+    });
+  }
+  for (const document of sources.documents) {
+    addNode({
+      id: nodeId('document', document.id),
+      type: 'document',
+      label: document.filePath.split('/').pop() || document.filePath,
+      properties: { repository: document.repository, filePath: document.filePath, accessCount: document.accessCount },
+    });
+  }
+  for (const service of sources.services) {
+    addNode({
+      id: nodeId('service', service.name),
+      type: 'service',
+      label: service.name,
+      properties: { url: service.url, serviceType: service.serviceType, status: service.healthStatus },
+    });
+  }
+  for (const link of [...sources.agentPatterns, ...sources.agentDocuments]) {
+    addNode({ id: nodeId('agent', link.agentName), type: 'agent', label: link.agentName, properties: {} });
+  }
+
+  for (const edge of sources.lineage) {
+    addEdge(nodeId('pattern', edge.sourceId), nodeId('pattern', edge.targetId), edge.edgeType, edge.weight ?? 1);
+  }
+  for (const link of sources.agentPatterns) {
+    addEdge(nodeId('agent', link.agentName), nodeId('pattern', link.targetId), 'discovered', link.count);
+  }
+  for (const link of sources.agentDocuments) {
+    addEdge(nodeId('agent', link.agentName), nodeId('document', link.targetId), 'accessed', link.count);
+  }
+
+  const documentsByPath = new Map<string, string[]>();
+  for (const document of sources.documents) {
+    const key = normalizePath(document.filePath);
+    documentsByPath.set(key, [...(documentsByPath.get(key) ?? []), document.id]);
+  }
+  for (const pattern of sources.patterns) {
+    if (!pattern.filePath) continue;
+    for (const documentId of documentsByPath.get(normalizePath(pattern.filePath)) ?? []) {
+      addEdge(nodeId('pattern', pattern.id), nodeId('document', documentId), 'defined_in', 1);
+    }
+  }
+
+  const servicesByName = new Map(sources.services.map(service => [service.name.toLowerCase(), service.name]));
+  for (const document of sources.documents) {
+    const service = servicesByName.get(document.repository.toLowerCase());
+    if (service) addEdge(nodeId('document', document.id), nodeId('service', service), 'hosted_by', 1);
+  }
+
+  const adjacency = new Map<string, KnowledgeEdge[]>();
+  for (const edge of Array.from(edges.values())) {
+    for (const id of [edge.source, edge.target]) {
+      const list = adjacency.get(id);
+      if (list) list.push(edge); else adjacency.set(id, [edge]);
+    }
+  }
+
+  return { nodes, edges: Array.from(edges.values()), adjacency };
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const item of items) counts[key(item)] = (counts[key(item)] ?? 0) + 1;
+  return counts;
+}
+
+/**
+ * The part of the graph to send: the neighbourhood of `focus` up to `depth`
+ * hops (closest and most strongly connected first), or otherwise the best
+ * connected nodes; nodes of other types are left out and not traversed.
+ * Returns null when the focus node does not exist.
+ */
+export function queryKnowledgeGraph(graph: KnowledgeGraph, query: KnowledgeGraphQuery): KnowledgeGraphView | null {
+  const allowed = (id: string) => {
+    const node = graph.nodes.get(id);
+    return !!node && (!query.types || query.types.includes(node.type));
+  };
+  const neighbors = (id: string) =>
+    (graph.adjacency.get(id) ?? [])
+      .map(edge => ({ id: edge.source === id ? edge.target : edge.source, weight: edge.weight }))
+      .filter(neighbor => allowed(neighbor.id));
+
+  let candidates: string[];
+  const distances = new Map<string, number>();
+
+  if (query.focus !== undefined) {
+    if (!graph.nodes.has(query.focus)) return null;
+    distances.set(query.focus, 0);
+    candidates = [query.focus];
+    let frontier = [query.focus];
+    for (let hop = 1; hop <= query.depth && frontier.length > 0; hop++) {
+      const strength = new Map<string, number>();
+      for (const id of frontier) {
+        for (const neighbor of neighbors(id)) {
+          if (distances.has(neighbor.id)) continue;
+          strength.set(neighbor.id, (strength.get(neighbor.id) ?? 0) + neighbor.weight);
+        }
+      }
+      frontier = Array.from(strength.keys()).sort((a, b) => strength.get(b)! - strength.get(a)! || a.localeCompare(b));
+      for (const id of frontier) distances.set(id, hop);
+      candidates.push(...frontier);
+    }
+  } else {
+    candidates = Array.from(graph.nodes.keys())
+      .filter(allowed)
+      .map(id => ({ id, degree: neighbors(id).length }))
+      .sort((a, b) => b.degree - a.degree || a.id.localeCompare(b.id))
+      .map(candidate => candidate.id);
+  }
+
+  const selected = new Set(candidates.slice(0, query.limit));
+  const inScope = (edge: KnowledgeEdge) => allowed(edge.source) && allowed(edge.target);
+  const candidateSet = new Set(candidates);
+  const matchingEdges = graph.edges.filter(edge => inScope(edge) && candidateSet.has(edge.source) && candidateSet.has(edge.target));
+  const edges = matchingEdges.filter(edge => selected.has(edge.source) && selected.has(edge.target));
+
+  const nodes = Array.from(selected, (id): KnowledgeGraphNodeView => {
+    const around = neighbors(id);
+    return {
+      ...graph.nodes.get(id)!,
+      degree: around.length,
+      ...(distances.has(id) && { distance: distances.get(id) }),
+      hiddenNeighbors: new Set(around.map(neighbor => neighbor.id).filter(other => !selected.has(other))).size,
+    };
+  });
+
+  return {
+    nodes,
+    edges,
+    meta: {
+      focus: query.focus ?? null,
+      depth: query.focus !== undefined ? query.depth : null,
+      totalNodes: candidates.length,
+      totalEdges: matchingEdges.length,
+      truncated: candidates.length > selected.size,
+      nodeTypes: countBy(nodes, node => node.type),
+      edgeTypes: countBy(edges, edge => edge.type),
+    },
+  };
+}
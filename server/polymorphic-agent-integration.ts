@@ -1,5 +1,15 @@
 import { z } from "zod";
 import { AgentExecutionTracker } from "./agent-execution-tracker";
+import { executionQueue } from "./agent-execution-queue";
+import type { RoutingEngine } from "./agent-routing-engine";
+import type { RegistryAgent } from "./agent-registry";
+
+const RoutingSignalsSchema = z.object({
+  triggerConfidence: z.number().min(0).max(1),
+  contextConfidence: z.number().min(0).max(1),
+  capabilityConfidence: z.number().min(0).max(1),
+  historicalConfidence: z.number().min(0).max(1),
+});
 
 // Schema for polymorphic agent routing decisions
 const RoutingDecisionSchema = z.object({
@@ -7,10 +17,14 @@ const RoutingDecisionSchema = z.object({
   selectedAgent: z.string(),
   confidence: z.number().min(0).max(1),
   strategy: z.string(),
+  // Per-signal breakdown (agent_routing_decisions confidence columns)
+  signals: RoutingSignalsSchema,
   alternatives: z.array(z.object({
     agent: z.string(),
     confidence: z.number(),
-    reason: z.string()
+    strategy: z.string(),
+    reason: z.string(),
+    signals: RoutingSignalsSchema,
   })),
   reasoning: z.string(),
   routingTime: z.number(),
@@ -19,150 +33,85 @@ const RoutingDecisionSchema = z.object({
 
 export type RoutingDecision = z.infer<typeof RoutingDecisionSchema>;
 
-// Mock polymorphic agent integration
 export class PolymorphicAgentIntegration {
+  private static engineFactory: (() => RoutingEngine | Promise<RoutingEngine>) | null = null;
+
   /**
-   * Simulate polymorphic agent routing decision
+   * Route decisions through engines from this factory (built from the agent
+   * registry and current execution history), called once per decision
    */
-  static async simulateRoutingDecision(query: string, context?: any): Promise<RoutingDecision> {
-    const startTime = Date.now();
-    
-    // Mock routing logic - in production, this would call the actual polymorphic agent
-    const availableAgents = [
-      "agent-api-architect",
-      "agent-debug-intelligence", 
-      "agent-frontend-developer",
-      "agent-performance",
-      "agent-testing",
-      "agent-polymorphic-agent"
-    ];
-
-    // Simple keyword-based routing simulation
-    const queryLower = query.toLowerCase();
-    let selectedAgent = "agent-polymorphic-agent";
-    let confidence = 0.5;
-    let strategy = "fallback_routing";
-    let reasoning = "No specific triggers matched, using polymorphic agent for general coordination";
-
-    if (queryLower.includes("api") || queryLower.includes("rest") || queryLower.includes("endpoint")) {
-      selectedAgent = "agent-api-architect";
-      confidence = 0.92;
-      strategy = "enhanced_fuzzy_matching";
-      reasoning = "Strong match on API-related keywords";
-    } else if (queryLower.includes("debug") || queryLower.includes("error") || queryLower.includes("bug")) {
-      selectedAgent = "agent-debug-intelligence";
-      confidence = 0.89;
-      strategy = "enhanced_fuzzy_matching";
-      reasoning = "Debug and error-related keywords detected";
-    } else if (queryLower.includes("frontend") || queryLower.includes("react") || queryLower.includes("ui")) {
-      selectedAgent = "agent-frontend-developer";
-      confidence = 0.95;
-      strategy = "exact_trigger_match";
-      reasoning = "Frontend development keywords matched";
-    } else if (queryLower.includes("performance") || queryLower.includes("optimize") || queryLower.includes("slow")) {
-      selectedAgent = "agent-performance";
-      confidence = 0.87;
-      strategy = "enhanced_fuzzy_matching";
-      reasoning = "Performance optimization keywords detected";
-    } else if (queryLower.includes("test") || queryLower.includes("testing") || queryLower.includes("qa")) {
-      selectedAgent = "agent-testing";
-      confidence = 0.91;
-      strategy = "enhanced_fuzzy_matching";
-      reasoning = "Testing-related keywords matched";
-    } else if (queryLower.includes("orchestrate") || queryLower.includes("coordinate") || queryLower.includes("workflow")) {
-      selectedAgent = "agent-polymorphic-agent";
-      confidence = 0.88;
-      strategy = "capability_alignment";
-      reasoning = "Orchestration and coordination keywords detected";
-    }
+  static useRoutingEngine(factory: () => RoutingEngine | Promise<RoutingEngine>) {
+    this.engineFactory = factory;
+  }
 
-    const routingTime = Date.now() - startTime;
+  /**
+   * Decide which agent handles a query; null when no agent is routable
+   */
+  static async makeRoutingDecision(query: string, context?: any): Promise<RoutingDecision | null> {
+    if (!this.engineFactory) {
+      throw new Error("Routing engine not configured");
+    }
 
-    // Generate alternatives
-    const alternatives = availableAgents
-      .filter(agent => agent !== selectedAgent)
-      .map(agent => ({
-        agent,
-        confidence: Math.random() * 0.7, // Lower confidence for alternatives
-        reason: `Alternative agent for ${agent.replace('agent-', '').replace('-', ' ')}`
-      }))
-      .sort((a, b) => b.confidence - a.confidence)
-      .slice(0, 3);
+    const startTime = Date.now();
+    const engine = await this.engineFactory();
+    const result = engine.decide(query, context);
+    if (!result) return null;
 
     const decision: RoutingDecision = {
       query,
-      selectedAgent,
-      confidence,
-      strategy,
-      alternatives,
-      reasoning,
-      routingTime,
+      selectedAgent: result.selectedAgent,
+      confidence: result.confidence,
+      strategy: result.strategy,
+      signals: result.signals,
+      alternatives: result.alternatives,
+      reasoning: result.reasoning,
+      routingTime: Date.now() - startTime,
       context
     };
 
     // Log the routing decision
     console.log(`Polymorphic Agent Routing Decision:`, {
       query,
-      selectedAgent,
-      confidence: `${(confidence * 100).toFixed(1)}%`,
-      strategy,
-      routingTime: `${routingTime}ms`
+      selectedAgent: decision.selectedAgent,
+      confidence: `${(decision.confidence * 100).toFixed(1)}%`,
+      strategy: decision.strategy,
+      routingTime: `${decision.routingTime}ms`
     });
 
     return decision;
   }
 
   /**
-   * Execute agent based on routing decision
+   * Queue the selected agent (its registry definition) for execution; progress
+   * is streamed over /ws
    */
-  static async executeAgent(decision: RoutingDecision): Promise<any> {
-    const { selectedAgent, query, context } = decision;
+  static async executeAgent(decision: RoutingDecision, agent: RegistryAgent) {
+    const { query, context } = decision;
 
-    // Start tracking execution
-    const execution = AgentExecutionTracker.startExecution(
-      selectedAgent,
-      selectedAgent.replace('agent-', '').replace('-', ' '),
+    const execution = await executionQueue.enqueue({
+      agentId: agent.name,
+      agentName: agent.title,
       query,
       context,
-      decision
-    );
-
-    // Simulate agent execution
-    const executionResult = await new Promise((resolve) => {
-      setTimeout(() => {
-        const success = Math.random() > 0.1; // 90% success rate
-        const result = {
-          success,
-          output: success 
-            ? `Agent ${selectedAgent} completed: ${query}`
-            : `Agent ${selectedAgent} failed: ${query}`,
-          qualityScore: success ? 7 + Math.random() * 3 : 3 + Math.random() * 2,
-          metrics: {
-            tokensUsed: Math.floor(500 + Math.random() * 2000),
-            computeUnits: 1 + Math.random() * 5,
-            cost: 0.05 + Math.random() * 0.2
-          },
-          error: success ? undefined : "Simulated execution error"
-        };
-
-        // Update execution status
-        AgentExecutionTracker.updateExecutionStatus(execution.id, success ? "completed" : "failed", result);
-        
-        resolve({
-          executionId: execution.id,
-          result
-        });
-      }, 2000 + Math.random() * 3000); // 2-5 second delay
+      routingDecision: {
+        confidence: decision.confidence,
+        strategy: decision.strategy,
+        alternatives: decision.alternatives.map(alternative => alternative.agent),
+        routingTime: decision.routingTime,
+      },
     });
 
-    return executionResult;
+    return {
+      executionId: execution.id,
+      status: execution.status,
+    };
   }
 
   /**
    * Get routing statistics
    */
-  static getRoutingStatistics() {
-    const executions = AgentExecutionTracker.getRecentExecutions(100);
+  static async getRoutingStatistics() {
+    const executions = await AgentExecutionTracker.getRecentExecutions(100);
     
     const stats = {
       totalDecisions: executions.length,
@@ -203,21 +152,14 @@ export class PolymorphicAgentIntegration {
   }
 
   /**
-   * Get agent performance comparison
+   * Get agent performance comparison for the registry's agents
    */
-  static getAgentPerformanceComparison() {
-    const agents = [
-      "agent-api-architect",
-      "agent-debug-intelligence",
-      "agent-frontend-developer", 
-      "agent-performance",
-      "agent-testing",
-      "agent-polymorphic-agent"
-    ];
-
-    return agents.map(agentId => {
-      const performance = AgentExecutionTracker.getAgentPerformanceMetrics(agentId);
-      const executions = AgentExecutionTracker.getExecutionsForAgent(agentId, 50);
+  static async getAgentPerformanceComparison(agents: RegistryAgent[]) {
+    const performanceByAgent = await AgentExecutionTracker.getPerformanceByAgent(agents.map(agent => agent.name));
+
+    return Promise.all(agents.map(async ({ name: agentId, title }) => {
+      const performance = performanceByAgent.get(agentId)!;
+      const executions = await AgentExecutionTracker.getExecutionsForAgent(agentId, 50);
       
       const routingStats = executions
         .filter(exec => exec.routingDecision)
@@ -232,7 +174,7 @@ export class PolymorphicAgentIntegration {
 
       return {
         agentId,
-        agentName: agentId.replace('agent-', '').replace('-', ' '),
+        agentName: title,
         performance,
         routingStats: {
           avgConfidence: routingStats.count > 0 ? routingStats.totalConfidence / routingStats.count : 0,
@@ -240,6 +182,6 @@ export class PolymorphicAgentIntegration {
           totalDecisions: routingStats.count
         }
       };
-    });
+    }));
   }
 }
@@ -0,0 +1,292 @@
+import { z } from 'zod';
+import { MemPricingStore, type PricingStore } from './agent-tracking-repository';
+import type { AgentRun } from './agent-run-tracker';
+
+/**
+ * Model Pricing Catalog
+ *
+ * Token prices per provider and model (USD per million input/output tokens),
+ * each valid from `effectiveFrom` until `effectiveTo` (open-ended when null).
+ * Runs recorded without a cost are priced from their token counts
+ * (metadata.inputTokens / outputTokens; runs that only report tokensUsed are
+ * priced at the input price), and recorded history can be re-priced to see
+ * what it would cost under the prices effective at another date.
+ */
+
+const MILLION = 1_000_000;
+
+export const PricingEntryInputSchema = z.object({
+  provider: z.string().trim().min(1),
+  model: z.string().trim().min(1),
+  inputPricePerMillion: z.number().nonnegative(),
+  outputPricePerMillion: z.number().nonnegative(),
+  effectiveFrom: z.coerce.date(),
+  effectiveTo: z.coerce.date().nullable().default(null),
+}).refine(entry => !entry.effectiveTo || entry.effectiveTo > entry.effectiveFrom, {
+  message: 'effectiveTo must be after effectiveFrom',
+  path: ['effectiveTo'],
+});
+
+export type PricingEntryInput = z.infer<typeof PricingEntryInputSchema>;
+
+export interface PricingEntry {
+  id: string;
+  provider: string;
+  model: string;
+  inputPricePerMillion: number;
+  outputPricePerMillion: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+}
+
+export type PricingResult =
+  | { ok: true; entry: PricingEntry }
+  | { ok: false; status: 404 | 409; error: string };
+
+export interface PricedCost {
+  cost: number;
+  pricingId: string;
+}
+
+export interface CostAttribution {
+  key: string;
+  runs: number;
+  tokens: number;
+  recordedCost: number;
+  repricedCost: number;
+}
+
+export interface RepriceReport {
+  from: string;
+  to: string;
+  // Prices effective at this date, or at each run's own time when null
+  pricedAt: string | null;
+  runs: number;
+  // Runs without a matching price keep their recorded cost
+  unpriced: number;
+  recordedCost: number;
+  repricedCost: number;
+  difference: number;
+  byAgent: CostAttribution[];
+  byModel: CostAttribution[];
+  byProject: CostAttribution[];
+  // A run's cost is split evenly across the patterns it used
+  byPattern: CostAttribution[];
+}
+
+const DEFAULTS_EFFECTIVE_FROM = '2024-01-01T00:00:00.000Z';
+
+export const DEFAULT_PRICING: PricingEntry[] = [
+  ['anthropic', 'claude-3.5-sonnet', 3, 15],
+  ['anthropic', 'claude-3.5-haiku', 0.8, 4],
+  ['openai', 'gpt-4', 30, 60],
+  ['openai', 'gpt-4o', 2.5, 10],
+  ['openai', 'gpt-3.5-turbo', 0.5, 1.5],
+].map(([provider, model, input, output]) => ({
+  id: `default-${model}`,
+  provider: provider as string,
+  model: model as string,
+  inputPricePerMillion: input as number,
+  outputPricePerMillion: output as number,
+  effectiveFrom: DEFAULTS_EFFECTIVE_FROM,
+  effectiveTo: null,
+}));
+
+function round6(value: number): number {
+  return Math.round(value * MILLION) / MILLION;
+}
+
+function sameModel(entry: Pick<PricingEntry, 'provider' | 'model'>, model: string, provider?: string): boolean {
+  return entry.model.toLowerCase() === model.toLowerCase() &&
+    (!provider || entry.provider.toLowerCase() === provider.toLowerCase());
+}
+
+function effectiveAt(entry: PricingEntry, at: Date): boolean {
+  return new Date(entry.effectiveFrom) <= at && (entry.effectiveTo === null || at < new Date(entry.effectiveTo));
+}
+
+function overlaps(a: Pick<PricingEntry, 'effectiveFrom' | 'effectiveTo'>, b: Pick<PricingEntry, 'effectiveFrom' | 'effectiveTo'>): boolean {
+  const aEnd = a.effectiveTo ? new Date(a.effectiveTo).getTime() : Infinity;
+  const bEnd = b.effectiveTo ? new Date(b.effectiveTo).getTime() : Infinity;
+  return new Date(a.effectiveFrom).getTime() < bEnd && new Date(b.effectiveFrom).getTime() < aEnd;
+}
+
+/**
+ * Price effective for a model at a date (the provider narrows the match when known)
+ */
+export function findPrice(entries: PricingEntry[], model: string, provider: string | undefined, at: Date): PricingEntry | null {
+  const matching = entries
+    .filter(entry => sameModel(entry, model, provider) && effectiveAt(entry, at))
+    .sort((a, b) => new Date(b.effectiveFrom).getTime() - new Date(a.effectiveFrom).getTime());
+  return matching[0] ?? null;
+}
+
+/**
+ * Cost of a run under the price effective at `at`, or null when the run has
+ * no model or the catalog has no price for it
+ */
+export function priceRun(run: Pick<AgentRun, 'tokensUsed' | 'metadata'>, entries: PricingEntry[], at: Date): PricedCost | null {
+  const model = run.metadata?.model;
+  if (!model) return null;
+  const entry = findPrice(entries, model, run.metadata?.provider, at);
+  if (!entry) return null;
+
+  const outputTokens = run.metadata?.outputTokens ?? 0;
+  const inputTokens = run.metadata?.inputTokens ?? Math.max(0, run.tokensUsed - outputTokens);
+  const cost = (inputTokens * entry.inputPricePerMillion + outputTokens * entry.outputPricePerMillion) / MILLION;
+  return { cost: round6(cost), pricingId: entry.id };
+}
+
+/**
+ * Recorded vs. re-priced cost of runs, in total and per agent, model, project and pattern
+ */
+export function repriceRuns(
+  runs: AgentRun[],
+  entries: PricingEntry[],
+  options: { from: Date; to: Date; at: Date | null }
+): RepriceReport {
+  const groups = {
+    byAgent: new Map<string, CostAttribution>(),
+    byModel: new Map<string, CostAttribution>(),
+    byProject: new Map<string, CostAttribution>(),
+    byPattern: new Map<string, CostAttribution>(),
+  };
+  const add = (group: Map<string, CostAttribution>, key: string, tokens: number, recorded: number, repriced: number) => {
+    const attribution = group.get(key) ?? { key, runs: 0, tokens: 0, recordedCost: 0, repricedCost: 0 };
+    attribution.runs++;
+    attribution.tokens += tokens;
+    attribution.recordedCost += recorded;
+    attribution.repricedCost += repriced;
+    group.set(key, attribution);
+  };
+
+  let unpriced = 0;
+  let recordedCost = 0;
+  let repricedCost = 0;
+
+  for (const run of runs) {
+    const priced = priceRun(run, entries, options.at ?? new Date(run.timestamp));
+    if (!priced) unpriced++;
+    const repriced = priced?.cost ?? run.cost;
+    recordedCost += run.cost;
+    repricedCost += repriced;
+
+    add(groups.byAgent, run.agentId, run.tokensUsed, run.cost, repriced);
+    add(groups.byModel, run.metadata?.model ?? 'unknown', run.tokensUsed, run.cost, repriced);
+    add(groups.byProject, run.metadata?.project ?? 'unassigned', run.tokensUsed, run.cost, repriced);
+
+    const patterns = run.metadata?.patternsUsed ?? [];
+    for (const pattern of patterns) {
+      add(groups.byPattern, pattern, run.tokensUsed / patterns.length, run.cost / patterns.length, repriced / patterns.length);
+    }
+  }
+
+  const list = (group: Map<string, CostAttribution>) => Array.from(group.values())
+    .map(attribution => ({
+      ...attribution,
+      tokens: Math.round(attribution.tokens),
+      recordedCost: round6(attribution.recordedCost),
+      repricedCost: round6(attribution.repricedCost),
+    }))
+    .sort((a, b) => b.repricedCost - a.repricedCost);
+
+  return {
+    from: options.from.toISOString(),
+    to: options.to.toISOString(),
+    pricedAt: options.at?.toISOString() ?? null,
+    runs: runs.length,
+    unpriced,
+    recordedCost: round6(recordedCost),
+    repricedCost: round6(repricedCost),
+    difference: round6(repricedCost - recordedCost),
+    byAgent: list(groups.byAgent),
+    byModel: list(groups.byModel),
+    byProject: list(groups.byProject),
+    byPattern: list(groups.byPattern),
+  };
+}
+
+export class PricingCatalog {
+  constructor(private store: PricingStore) {}
+
+  get storeName(): string {
+    return this.store.name;
+  }
+
+  useStore(store: PricingStore) {
+    this.store = store;
+  }
+
+  /**
+   * Seed the default prices into an empty store
+   */
+  async ensureDefaults(defaults: PricingEntry[] = DEFAULT_PRICING): Promise<number> {
+    if ((await this.store.list()).length > 0) return 0;
+    await Promise.all(defaults.map(entry => this.store.save(entry)));
+    return defaults.length;
+  }
+
+  /**
+   * All entries by provider, model and effective date
+   */
+  async list(): Promise<PricingEntry[]> {
+    return (await this.store.list()).sort((a, b) =>
+      a.provider.localeCompare(b.provider) ||
+      a.model.localeCompare(b.model) ||
+      a.effectiveFrom.localeCompare(b.effectiveFrom)
+    );
+  }
+
+  async create(input: PricingEntryInput): Promise<PricingResult> {
+    const entry = toEntry(`price_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, input);
+    return this.saveChecked(entry, await this.store.list());
+  }
+
+  async update(id: string, input: PricingEntryInput): Promise<PricingResult> {
+    const entries = await this.store.list();
+    if (!entries.some(entry => entry.id === id)) {
+      return { ok: false, status: 404, error: 'Price not found' };
+    }
+    return this.saveChecked(toEntry(id, input), entries.filter(entry => entry.id !== id));
+  }
+
+  async remove(id: string): Promise<boolean> {
+    return this.store.delete(id);
+  }
+
+  /**
+   * Cost of a run under the price effective at `at`
+   */
+  async price(run: Pick<AgentRun, 'tokensUsed' | 'metadata'>, at: Date): Promise<PricedCost | null> {
+    return priceRun(run, await this.store.list(), at);
+  }
+
+  async reprice(runs: AgentRun[], options: { from: Date; to: Date; at: Date | null }): Promise<RepriceReport> {
+    return repriceRuns(runs, await this.store.list(), options);
+  }
+
+  // Periods for the same provider and model must not overlap
+  private async saveChecked(entry: PricingEntry, others: PricingEntry[]): Promise<PricingResult> {
+    const conflict = others.find(other => sameModel(other, entry.model, entry.provider) && overlaps(other, entry));
+    if (conflict) {
+      return { ok: false, status: 409, error: `Overlaps the ${conflict.provider}/${conflict.model} price effective from ${conflict.effectiveFrom}` };
+    }
+    await this.store.save(entry);
+    return { ok: true, entry };
+  }
+}
+
+function toEntry(id: string, input: PricingEntryInput): PricingEntry {
+  return {
+    id,
+    provider: input.provider,
+    model: input.model,
+    inputPricePerMillion: input.inputPricePerMillion,
+    outputPricePerMillion: input.outputPricePerMillion,
+    effectiveFrom: input.effectiveFrom.toISOString(),
+    effectiveTo: input.effectiveTo?.toISOString() ?? null,
+  };
+}
+
+// Defaults in memory until the server configures a persistent store
+export const pricingCatalog = new PricingCatalog(new MemPricingStore(DEFAULT_PRICING));
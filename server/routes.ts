@@ -1,10 +1,63 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, intelligenceDb } from "./storage";
 import { intelligenceRouter } from "./intelligence-routes";
 import savingsRoutes from "./savings-routes";
 import agentRegistryRoutes from "./agent-registry-routes";
 import { chatRouter } from "./chat-routes";
+import { alertRouter } from "./alert-routes";
+import { upstreamRouter } from "./upstream-routes";
+import { AgentExecutionTracker } from "./agent-execution-tracker";
+import { AgentRunTracker } from "./agent-run-tracker";
+import { createAgentTrackingRepositories, retentionDays } from "./agent-tracking-repository";
+import { createManifestInjectionLookup, ingestAgentRunMetric } from "./agent-run-ingestion";
+import { pricingCatalog } from "./pricing-catalog";
+import { eventConsumer, type AgentRunMetric } from "./event-consumer";
+
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
+
+// Persist agent executions, runs and model prices (AGENT_TRACKING_STORE) and prune records
+// past the retention window hourly; tracking stays in memory otherwise
+async function configureAgentTracking() {
+  const repositories = await createAgentTrackingRepositories(intelligenceDb);
+  if (repositories) {
+    AgentExecutionTracker.useRepository(repositories.executions);
+    AgentRunTracker.useRepository(repositories.runs);
+    pricingCatalog.useStore(repositories.pricing);
+    const seeded = await pricingCatalog.ensureDefaults();
+    if (seeded > 0) console.log(`[AgentTracking] Seeded ${seeded} default model prices`);
+  }
+  console.log(`[AgentTracking] Using ${repositories ? "postgres" : "in-memory"} execution, run and pricing storage`);
+
+  const days = retentionDays();
+  if (days === 0) return;
+
+  const prune = async () => {
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    try {
+      const executions = await AgentExecutionTracker.pruneExecutions(cutoff);
+      const runs = await AgentRunTracker.pruneRuns(cutoff);
+      if (executions > 0 || runs > 0) {
+        console.log(`[AgentTracking] Pruned ${executions} executions and ${runs} runs older than ${days} days`);
+      }
+    } catch (error) {
+      console.warn("[AgentTracking] Retention pruning failed:", error);
+    }
+  };
+  await prune();
+  setInterval(prune, RETENTION_INTERVAL_MS).unref();
+}
+
+// Record agent-run-metrics events as savings runs, classified as intelligence-assisted
+// or baseline through agent_manifest_injections
+function configureRunIngestion() {
+  const lookup = createManifestInjectionLookup(intelligenceDb);
+  eventConsumer.on("agentRunMetric", (metric: AgentRunMetric) => {
+    ingestAgentRunMetric(metric, lookup).catch((error) => {
+      console.error(`[AgentRunIngestion] Failed to record run ${metric.id}:`, error);
+    });
+  });
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
@@ -13,6 +66,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // use storage to perform CRUD operations on the storage interface
   // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
 
+  await configureAgentTracking();
+  configureRunIngestion();
+
+  // Mount alert rule engine (active alerts, lifecycle actions, history, rules)
+  app.use("/api/intelligence/alerts", alertRouter);
+
   // Mount intelligence routes for agent observability and metrics
   app.use("/api/intelligence", intelligenceRouter);
 
@@ -25,6 +84,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Mount chat routes for AI assistant interactions
   app.use("/api/chat", chatRouter);
 
+  // Mount the intelligence service gateway (the browser never calls the service directly)
+  app.use("/api/upstream", upstreamRouter);
+
   const httpServer = createServer(app);
 
   return httpServer;
@@ -0,0 +1,260 @@
+import { validateAgentDefinition, type RegistryAgent, type RegistryValidationError } from './agent-registry';
+
+/**
+ * Routing Replay
+ *
+ * Offline evaluation of the routing engine: historical requests from
+ * agent_routing_decisions are routed again and the new selections compared
+ * with the recorded ones. The report covers agreement with past selections, a
+ * confusion matrix (historical agent x replayed agent) and, where the router
+ * disagrees, whether it picked an agent with better observed outcomes in the
+ * same window (execution success rate, then quality score).
+ *
+ * What-if runs replay through registry definitions with proposed overrides
+ * applied, so routing changes can be checked before they are rolled out.
+ */
+
+export interface HistoricalRoutingDecision {
+  id: string;
+  userRequest: string;
+  selectedAgent: string;
+  confidence: number | null;
+  contextSnapshot: Record<string, unknown> | null;
+  executionSucceeded: boolean | null;
+  actualQualityScore: number | null;
+  createdAt: string;
+}
+
+export interface ReplayedSelection {
+  selectedAgent: string;
+  confidence: number;
+  strategy: string;
+}
+
+export type OutcomeComparison = 'better' | 'worse' | 'same' | 'unknown';
+
+export interface AgentOutcome {
+  agent: string;
+  // Decisions with a recorded execution outcome
+  observed: number;
+  successRate: number | null;
+  avgQualityScore: number | null;
+}
+
+export interface ReplayAgentStats {
+  agent: string;
+  historical: number;
+  replayed: number;
+  agreed: number;
+  // Share of the agent's replayed selections that match history
+  precision: number | null;
+  // Share of the agent's historical selections the router reproduces
+  recall: number | null;
+}
+
+export interface ReplayChange {
+  id: string;
+  userRequest: string;
+  createdAt: string;
+  historicalAgent: string;
+  replayedAgent: string;
+  confidence: number;
+  strategy: string;
+  outcome: OutcomeComparison;
+}
+
+export interface RoutingReplayReport {
+  // Decisions recorded in the window, of which `evaluated` were replayed
+  total: number;
+  evaluated: number;
+  truncated: boolean;
+  replayed: number;
+  // Requests the router could not route (no routable agents)
+  skipped: number;
+  agreement: { count: number; rate: number };
+  // Row = historical agent, column = replayed agent, both indexing `agents`
+  agents: string[];
+  confusionMatrix: number[][];
+  perAgent: ReplayAgentStats[];
+  outcomes: {
+    disagreements: number;
+    better: number;
+    worse: number;
+    same: number;
+    unknown: number;
+    // Share of disagreements where the replayed agent has better outcomes
+    betterRate: number;
+  };
+  agentOutcomes: AgentOutcome[];
+  strategies: Record<string, number>;
+  changes: ReplayChange[];
+}
+
+export interface ReplayOptions {
+  // Outcomes needed before an agent's success rate counts (default 3)
+  minSamples?: number;
+  // Success rate / quality difference treated as a tie (default 0.05)
+  tolerance?: number;
+  // Disagreements listed in `changes` (default 50)
+  maxChanges?: number;
+  // Decisions recorded in the window when only some were passed in (default: all of them)
+  total?: number;
+}
+
+function ratio(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 10000) / 10000 : 0;
+}
+
+/**
+ * Observed outcomes per agent across the historical decisions
+ */
+export function summarizeOutcomes(decisions: HistoricalRoutingDecision[]): Map<string, AgentOutcome> {
+  const totals = new Map<string, { observed: number; succeeded: number; quality: number; rated: number }>();
+  decisions.forEach(decision => {
+    const entry = totals.get(decision.selectedAgent) ?? { observed: 0, succeeded: 0, quality: 0, rated: 0 };
+    if (decision.executionSucceeded !== null) {
+      entry.observed++;
+      if (decision.executionSucceeded) entry.succeeded++;
+    }
+    if (decision.actualQualityScore !== null) {
+      entry.quality += decision.actualQualityScore;
+      entry.rated++;
+    }
+    totals.set(decision.selectedAgent, entry);
+  });
+
+  const outcomes = new Map<string, AgentOutcome>();
+  totals.forEach((entry, agent) => {
+    outcomes.set(agent, {
+      agent,
+      observed: entry.observed,
+      successRate: entry.observed > 0 ? ratio(entry.succeeded, entry.observed) : null,
+      avgQualityScore: entry.rated > 0 ? Math.round((entry.quality / entry.rated) * 10000) / 10000 : null,
+    });
+  });
+  return outcomes;
+}
+
+function compareOutcomes(
+  replayed: AgentOutcome | undefined,
+  historical: AgentOutcome | undefined,
+  minSamples: number,
+  tolerance: number
+): OutcomeComparison {
+  if (!replayed || !historical || replayed.observed < minSamples || historical.observed < minSamples) return 'unknown';
+
+  const successDelta = replayed.successRate! - historical.successRate!;
+  if (Math.abs(successDelta) > tolerance) return successDelta > 0 ? 'better' : 'worse';
+
+  if (replayed.avgQualityScore !== null && historical.avgQualityScore !== null) {
+    const qualityDelta = replayed.avgQualityScore - historical.avgQualityScore;
+    if (Math.abs(qualityDelta) > tolerance) return qualityDelta > 0 ? 'better' : 'worse';
+  }
+  return 'same';
+}
+
+/**
+ * Route every historical request again and compare with what was selected
+ */
+export function replayRoutingDecisions(
+  decisions: HistoricalRoutingDecision[],
+  decide: (query: string, context?: Record<string, unknown>) => ReplayedSelection | null,
+  options: ReplayOptions = {}
+): RoutingReplayReport {
+  const minSamples = options.minSamples ?? 3;
+  const tolerance = options.tolerance ?? 0.05;
+  const maxChanges = options.maxChanges ?? 50;
+
+  const outcomes = summarizeOutcomes(decisions);
+  const pairs: Array<{ decision: HistoricalRoutingDecision; replayed: ReplayedSelection }> = [];
+  decisions.forEach(decision => {
+    const replayed = decide(decision.userRequest, decision.contextSnapshot ?? undefined);
+    if (replayed) pairs.push({ decision, replayed });
+  });
+
+  const agents = Array.from(new Set(pairs.flatMap(({ decision, replayed }) => [decision.selectedAgent, replayed.selectedAgent]))).sort();
+  const index = new Map(agents.map((agent, i) => [agent, i]));
+  const confusionMatrix = agents.map(() => agents.map(() => 0));
+
+  const strategies: Record<string, number> = {};
+  const comparisons: Record<OutcomeComparison, number> = { better: 0, worse: 0, same: 0, unknown: 0 };
+  const changes: ReplayChange[] = [];
+  let agreed = 0;
+
+  pairs.forEach(({ decision, replayed }) => {
+    confusionMatrix[index.get(decision.selectedAgent)!][index.get(replayed.selectedAgent)!]++;
+    strategies[replayed.strategy] = (strategies[replayed.strategy] ?? 0) + 1;
+
+    if (replayed.selectedAgent === decision.selectedAgent) {
+      agreed++;
+      return;
+    }
+
+    const outcome = compareOutcomes(outcomes.get(replayed.selectedAgent), outcomes.get(decision.selectedAgent), minSamples, tolerance);
+    comparisons[outcome]++;
+    if (changes.length < maxChanges) {
+      changes.push({
+        id: decision.id,
+        userRequest: decision.userRequest,
+        createdAt: decision.createdAt,
+        historicalAgent: decision.selectedAgent,
+        replayedAgent: replayed.selectedAgent,
+        confidence: replayed.confidence,
+        strategy: replayed.strategy,
+        outcome,
+      });
+    }
+  });
+
+  const perAgent = agents.map((agent, i) => {
+    const historical = confusionMatrix[i].reduce((sum, count) => sum + count, 0);
+    const replayedCount = confusionMatrix.reduce((sum, row) => sum + row[i], 0);
+    const diagonal = confusionMatrix[i][i];
+    return {
+      agent,
+      historical,
+      replayed: replayedCount,
+      agreed: diagonal,
+      precision: replayedCount > 0 ? ratio(diagonal, replayedCount) : null,
+      recall: historical > 0 ? ratio(diagonal, historical) : null,
+    };
+  });
+
+  const disagreements = pairs.length - agreed;
+  const total = Math.max(options.total ?? decisions.length, decisions.length);
+  return {
+    total,
+    evaluated: decisions.length,
+    truncated: total > decisions.length,
+    replayed: pairs.length,
+    skipped: decisions.length - pairs.length,
+    agreement: { count: agreed, rate: ratio(agreed, pairs.length) },
+    agents,
+    confusionMatrix,
+    perAgent,
+    outcomes: { disagreements, ...comparisons, betterRate: ratio(comparisons.better, disagreements) },
+    agentOutcomes: Array.from(outcomes.values()).sort((a, b) => a.agent.localeCompare(b.agent)),
+    strategies,
+    changes,
+  };
+}
+
+/**
+ * Registry agents with proposed definition changes applied (what-if runs).
+ * Overrides are keyed by agent name; unknown names add new agents.
+ */
+export function applyAgentOverrides(
+  agents: RegistryAgent[],
+  overrides: Record<string, Record<string, unknown>>
+): { agents: RegistryAgent[] } | { errors: RegistryValidationError[] } {
+  const byName = new Map(agents.map(agent => [agent.name, agent]));
+  const errors: RegistryValidationError[] = [];
+
+  Object.entries(overrides).forEach(([name, patch]) => {
+    const result = validateAgentDefinition({ ...byName.get(name), ...patch, name }, name, 'what-if');
+    if ('error' in result) errors.push(result.error);
+    else byName.set(name, result.agent);
+  });
+
+  return errors.length > 0 ? { errors } : { agents: Array.from(byName.values()) };
+}
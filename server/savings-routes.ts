@@ -1,6 +1,9 @@
 import { Router } from "express";
 import { z } from "zod";
 import { AgentRunTracker } from "./agent-run-tracker";
+import { PricingEntryInputSchema, pricingCatalog } from "./pricing-catalog";
+import { parseTimeRange } from "./time-range";
+import { bucketKey, bucketKeys, timeRangeQuerySchema, toTimeRange, type TimeRange } from "@shared/time-range";
 
 const router = Router();
 
@@ -14,15 +17,26 @@ const AgentRunSchema = z.object({
   computeUnits: z.number(),
   duration: z.number(), // in seconds
   success: z.boolean(),
-  cost: z.number(),
+  cost: z.number().optional(), // priced from the catalog when omitted
   metadata: z.object({
     model: z.string().optional(),
     provider: z.string().optional(),
     complexity: z.string().optional(),
     contextSize: z.number().optional(),
+    inputTokens: z.number().optional(),
+    outputTokens: z.number().optional(),
+    project: z.string().optional(),
+    patternsUsed: z.array(z.string()).optional(),
   }).optional(),
 });
 
+// The period comes from the shared time range fields (timeRange or start/end)
+const RepriceRequestSchema = z.object({
+  // Price every run at this date (default now); historical prices each run at its own time
+  at: z.coerce.date().optional(),
+  historical: z.boolean().default(false),
+});
+
 const SavingsMetricsSchema = z.object({
   totalSavings: z.number(),
   monthlySavings: z.number(),
@@ -65,199 +79,44 @@ const AgentComparisonSchema = z.object({
   }),
 });
 
-// Mock data - replace with real database queries
-const mockAgentRuns = [
-  {
-    agentId: "agent-debug-intelligence",
-    agentName: "Debug Intelligence Agent",
-    timestamp: "2024-01-20T10:30:00Z",
-    withIntelligence: true,
-    tokensUsed: 850,
-    computeUnits: 1.8,
-    duration: 45,
-    success: true,
-    cost: 0.085,
-    metadata: {
-      model: "claude-3.5-sonnet",
-      provider: "anthropic",
-      complexity: "medium",
-      contextSize: 150000,
-    },
-  },
-  {
-    agentId: "agent-debug-intelligence",
-    agentName: "Debug Intelligence Agent",
-    timestamp: "2024-01-20T09:15:00Z",
-    withIntelligence: false,
-    tokensUsed: 1450,
-    computeUnits: 3.2,
-    duration: 78,
-    success: true,
-    cost: 0.145,
-    metadata: {
-      model: "claude-3.5-sonnet",
-      provider: "anthropic",
-      complexity: "medium",
-      contextSize: 150000,
-    },
-  },
-  // Add more mock data...
-];
-
-// Calculate savings metrics
-function calculateSavingsMetrics(runs: any[], timeRange: string = "30d") {
-  const now = new Date();
-  const cutoffDate = new Date();
-  
-  switch (timeRange) {
-    case "7d":
-      cutoffDate.setDate(now.getDate() - 7);
-      break;
-    case "30d":
-      cutoffDate.setDate(now.getDate() - 30);
-      break;
-    case "90d":
-      cutoffDate.setDate(now.getDate() - 90);
-      break;
-    default:
-      cutoffDate.setDate(now.getDate() - 30);
-  }
+// API Routes
 
-  const filteredRuns = runs.filter(run => new Date(run.timestamp) >= cutoffDate);
-  const intelligenceRuns = filteredRuns.filter(run => run.withIntelligence);
-  const baselineRuns = filteredRuns.filter(run => !run.withIntelligence);
-
-  const intelligenceTokens = intelligenceRuns.reduce((sum, run) => sum + run.tokensUsed, 0);
-  const baselineTokens = baselineRuns.reduce((sum, run) => sum + run.tokensUsed, 0);
-  const intelligenceCompute = intelligenceRuns.reduce((sum, run) => sum + run.computeUnits, 0);
-  const baselineCompute = baselineRuns.reduce((sum, run) => sum + run.computeUnits, 0);
-  const intelligenceCost = intelligenceRuns.reduce((sum, run) => sum + run.cost, 0);
-  const baselineCost = baselineRuns.reduce((sum, run) => sum + run.cost, 0);
-  const intelligenceTime = intelligenceRuns.reduce((sum, run) => sum + run.duration, 0);
-  const baselineTime = baselineRuns.reduce((sum, run) => sum + run.duration, 0);
-
-  const tokenSavings = baselineTokens - intelligenceTokens;
-  const computeSavings = baselineCompute - intelligenceCompute;
-  const costSavings = baselineCost - intelligenceCost;
-  const timeSavings = baselineTime - intelligenceTime;
-
-  const efficiencyGain = baselineTokens > 0 ? (tokenSavings / baselineTokens) * 100 : 0;
-
-  return {
-    totalSavings: costSavings,
-    monthlySavings: costSavings * (30 / (timeRange === "7d" ? 7 : timeRange === "90d" ? 90 : 30)),
-    weeklySavings: costSavings * (7 / (timeRange === "7d" ? 7 : timeRange === "90d" ? 90 : 30)),
-    dailySavings: costSavings / (timeRange === "7d" ? 7 : timeRange === "90d" ? 90 : 30),
-    intelligenceRuns: intelligenceRuns.length,
-    baselineRuns: baselineRuns.length,
-    avgTokensPerRun: intelligenceRuns.length > 0 ? intelligenceTokens / intelligenceRuns.length : 0,
-    avgComputePerRun: intelligenceRuns.length > 0 ? intelligenceCompute / intelligenceRuns.length : 0,
-    costPerToken: 0.0001,
-    costPerCompute: 0.05,
-    efficiencyGain,
-    timeSaved: timeSavings / 3600, // Convert to hours
+export type SavingsMetrics = z.infer<typeof SavingsMetricsSchema>;
+
+// Savings metrics for a time range (or preset name); also used by the chat assistant
+export async function getSavingsMetrics(timeRange: TimeRange | string = "30d"): Promise<SavingsMetrics> {
+  const { start, end } = toTimeRange(timeRange, "30d");
+  const rawMetrics = await AgentRunTracker.calculateSavingsMetrics(start, end);
+
+  // AgentRunTracker already returns complete SavingsMetrics with all validations
+  // Just ensure all values are properly typed (no additional transformations needed)
+  const metrics = {
+    totalSavings: rawMetrics.totalSavings,
+    monthlySavings: rawMetrics.monthlySavings,
+    weeklySavings: rawMetrics.weeklySavings,
+    dailySavings: rawMetrics.dailySavings,
+    intelligenceRuns: rawMetrics.intelligenceRuns,
+    baselineRuns: rawMetrics.baselineRuns,
+    avgTokensPerRun: rawMetrics.avgTokensPerRun,
+    avgComputePerRun: rawMetrics.avgComputePerRun,
+    costPerToken: rawMetrics.costPerToken,
+    costPerCompute: rawMetrics.costPerCompute,
+    efficiencyGain: rawMetrics.efficiencyGain,
+    timeSaved: rawMetrics.timeSaved,
+    dataAvailable: rawMetrics.dataAvailable, // Include data availability flag
   };
-}
 
-// Calculate agent comparisons
-function calculateAgentComparisons(runs: any[]) {
-  const agentGroups = runs.reduce((groups, run) => {
-    if (!groups[run.agentId]) {
-      groups[run.agentId] = {
-        agentId: run.agentId,
-        agentName: run.agentName,
-        withIntelligence: [],
-        withoutIntelligence: [],
-      };
-    }
-    
-    if (run.withIntelligence) {
-      groups[run.agentId].withIntelligence.push(run);
-    } else {
-      groups[run.agentId].withoutIntelligence.push(run);
-    }
-    
-    return groups;
-  }, {});
-
-  return Object.values(agentGroups).map((group: any) => {
-    const withIntelligence = group.withIntelligence;
-    const withoutIntelligence = group.withoutIntelligence;
-
-    if (withIntelligence.length === 0 || withoutIntelligence.length === 0) {
-      return null; // Skip agents without both types of runs
-    }
-
-    const withIntelligenceAvg = {
-      avgTokens: withIntelligence.reduce((sum: number, run: any) => sum + run.tokensUsed, 0) / withIntelligence.length,
-      avgCompute: withIntelligence.reduce((sum: number, run: any) => sum + run.computeUnits, 0) / withIntelligence.length,
-      avgTime: withIntelligence.reduce((sum: number, run: any) => sum + run.duration, 0) / withIntelligence.length,
-      successRate: (withIntelligence.filter((run: any) => run.success).length / withIntelligence.length) * 100,
-      cost: withIntelligence.reduce((sum: number, run: any) => sum + run.cost, 0) / withIntelligence.length,
-    };
-
-    const withoutIntelligenceAvg = {
-      avgTokens: withoutIntelligence.reduce((sum: number, run: any) => sum + run.tokensUsed, 0) / withoutIntelligence.length,
-      avgCompute: withoutIntelligence.reduce((sum: number, run: any) => sum + run.computeUnits, 0) / withoutIntelligence.length,
-      avgTime: withoutIntelligence.reduce((sum: number, run: any) => sum + run.duration, 0) / withoutIntelligence.length,
-      successRate: (withoutIntelligence.filter((run: any) => run.success).length / withoutIntelligence.length) * 100,
-      cost: withoutIntelligence.reduce((sum: number, run: any) => sum + run.cost, 0) / withoutIntelligence.length,
-    };
-
-    const savings = {
-      tokens: withoutIntelligenceAvg.avgTokens - withIntelligenceAvg.avgTokens,
-      compute: withoutIntelligenceAvg.avgCompute - withIntelligenceAvg.avgCompute,
-      time: withoutIntelligenceAvg.avgTime - withIntelligenceAvg.avgTime,
-      cost: withoutIntelligenceAvg.cost - withIntelligenceAvg.cost,
-      percentage: withoutIntelligenceAvg.cost > 0 ? ((withoutIntelligenceAvg.cost - withIntelligenceAvg.cost) / withoutIntelligenceAvg.cost) * 100 : 0,
-    };
-
-    return {
-      agentId: group.agentId,
-      agentName: group.agentName,
-      withIntelligence: withIntelligenceAvg,
-      withoutIntelligence: withoutIntelligenceAvg,
-      savings,
-    };
-  }).filter(Boolean);
+  // Validate response matches SavingsMetrics schema
+  return SavingsMetricsSchema.parse(metrics);
 }
 
-// API Routes
-
 // Get savings metrics
-router.get("/metrics", (req, res) => {
+router.get("/metrics", async (req, res) => {
+  const range = parseTimeRange(req, res, "30d");
+  if (!range) return;
+
   try {
-    const { timeRange = "30d" } = req.query;
-
-    // Calculate date range
-    const now = new Date();
-    const startDate = new Date();
-    const days = timeRange === "7d" ? 7 : timeRange === "90d" ? 90 : 30;
-    startDate.setDate(now.getDate() - days);
-
-    const rawMetrics = AgentRunTracker.calculateSavingsMetrics(startDate, now);
-
-    // AgentRunTracker already returns complete SavingsMetrics with all validations
-    // Just ensure all values are properly typed (no additional transformations needed)
-    const metrics = {
-      totalSavings: rawMetrics.totalSavings,
-      monthlySavings: rawMetrics.monthlySavings,
-      weeklySavings: rawMetrics.weeklySavings,
-      dailySavings: rawMetrics.dailySavings,
-      intelligenceRuns: rawMetrics.intelligenceRuns,
-      baselineRuns: rawMetrics.baselineRuns,
-      avgTokensPerRun: rawMetrics.avgTokensPerRun,
-      avgComputePerRun: rawMetrics.avgComputePerRun,
-      costPerToken: rawMetrics.costPerToken,
-      costPerCompute: rawMetrics.costPerCompute,
-      efficiencyGain: rawMetrics.efficiencyGain,
-      timeSaved: rawMetrics.timeSaved,
-      dataAvailable: rawMetrics.dataAvailable, // Include data availability flag
-    };
-
-    // Validate response matches SavingsMetrics schema
-    const validatedMetrics = SavingsMetricsSchema.parse(metrics);
-    res.json(validatedMetrics);
+    res.json(await getSavingsMetrics(range));
   } catch (error) {
     console.error("Error calculating savings metrics:", error);
     res.status(500).json({ error: "Failed to calculate savings metrics" });
@@ -265,20 +124,15 @@ router.get("/metrics", (req, res) => {
 });
 
 // Get agent comparisons
-router.get("/agents", (req, res) => {
+router.get("/agents", async (req, res) => {
+  const range = parseTimeRange(req, res, "30d");
+  if (!range) return;
+
   try {
-    const { timeRange = "30d" } = req.query;
-    
-    // Calculate date range
-    const now = new Date();
-    const startDate = new Date();
-    const days = timeRange === "7d" ? 7 : timeRange === "90d" ? 90 : 30;
-    startDate.setDate(now.getDate() - days);
-    
-    const agentIds = AgentRunTracker.getAgentIds();
-    const comparisons = agentIds
-      .map(agentId => AgentRunTracker.getAgentComparison(agentId, startDate, now))
-      .filter(Boolean);
+    const agentIds = await AgentRunTracker.getAgentIds();
+    const comparisons = (await Promise.all(
+      agentIds.map(agentId => AgentRunTracker.getAgentComparison(agentId, range.start, range.end))
+    )).filter(Boolean);
     
     res.json(comparisons);
   } catch (error) {
@@ -288,24 +142,21 @@ router.get("/agents", (req, res) => {
 });
 
 // Get time series data
-router.get("/timeseries", (req, res) => {
-  try {
-    const { timeRange = "30d" } = req.query;
-    const days = timeRange === "7d" ? 7 : timeRange === "90d" ? 90 : 30;
-
-    const timeSeriesData = Array.from({ length: days }, (_, i) => {
-      const date = new Date();
-      date.setDate(date.getDate() - (days - 1 - i));
-      const dateStr = date.toISOString().split('T')[0];
+router.get("/timeseries", async (req, res) => {
+  const range = parseTimeRange(req, res, "30d");
+  if (!range) return;
 
-      // Get start and end of this day
-      const dayStart = new Date(date);
-      dayStart.setHours(0, 0, 0, 0);
-      const dayEnd = new Date(date);
-      dayEnd.setHours(23, 59, 59, 999);
+  try {
+    // One query for the whole range, grouped into the range's local buckets below
+    const runs = await AgentRunTracker.getRunsInRange(range.start, range.end);
+    const runsByBucket = new Map<string, typeof runs>();
+    for (const run of runs) {
+      const key = bucketKey(new Date(run.timestamp), range.granularity, range.timezone);
+      runsByBucket.set(key, [...(runsByBucket.get(key) ?? []), run]);
+    }
 
-      // Get runs for this day from AgentRunTracker
-      const dayRuns = AgentRunTracker.getRunsInRange(dayStart, dayEnd);
+    const timeSeriesData = bucketKeys(range).map(dateStr => {
+      const dayRuns = runsByBucket.get(dateStr) ?? [];
 
       const intelligenceRuns = dayRuns.filter(run => run.withIntelligence);
       const baselineRuns = dayRuns.filter(run => !run.withIntelligence);
@@ -397,150 +248,126 @@ router.get("/timeseries", (req, res) => {
   }
 });
 
-// Get provider savings
-router.get("/providers", (req, res) => {
+// Get provider savings (each provider compared with its own baseline runs)
+router.get("/providers", async (req, res) => {
+  const range = parseTimeRange(req, res, "30d");
+  if (!range) return;
+
   try {
-    const { timeRange = "30d" } = req.query;
-
-    // Calculate date range
-    const now = new Date();
-    const startDate = new Date();
-    const days = timeRange === "7d" ? 7 : timeRange === "90d" ? 90 : 30;
-    startDate.setDate(now.getDate() - days);
-
-    // Get all runs in range
-    const runs = AgentRunTracker.getRunsInRange(startDate, now);
-
-    // Group by provider
-    const providerData: { [key: string]: {
-      name: string;
-      tokensProcessed: number;
-      tokensOffloaded: number;
-      costWith: number;
-      costWithout: number;
-      runs: number;
-    } } = {};
-
-    runs.forEach(run => {
-      const provider = run.metadata?.provider || 'unknown';
-      const providerName = provider === 'anthropic' ? 'Claude' :
-                          provider === 'openai' ? 'OpenAI' :
-                          provider === 'together' ? 'Together AI' :
-                          provider === 'zai' ? 'Local Models' : provider;
-
-      if (!providerData[provider]) {
-        providerData[provider] = {
-          name: providerName,
-          tokensProcessed: 0,
-          tokensOffloaded: 0,
-          costWith: 0,
-          costWithout: 0,
-          runs: 0,
-        };
-      }
+    res.json(await AgentRunTracker.calculateProviderSavings(range.start, range.end));
+  } catch (error) {
+    console.error("Error calculating provider savings:", error);
+    res.status(500).json({ error: "Failed to calculate provider savings" });
+  }
+});
 
-      providerData[provider].tokensProcessed += run.tokensUsed;
-      providerData[provider].runs++;
-
-      if (run.withIntelligence) {
-        providerData[provider].costWith += run.cost;
-        // Estimate what it would have cost without intelligence (roughly 60% more)
-        const estimatedBaselineCost = run.cost / 0.6;
-        providerData[provider].costWithout += estimatedBaselineCost;
-        providerData[provider].tokensOffloaded += Math.round(run.tokensUsed * 0.4);
-      } else {
-        providerData[provider].costWithout += run.cost;
-      }
-    });
+// Get cost breakdown (tokens, compute, cost and time with vs. without intelligence)
+router.get("/breakdown", async (req, res) => {
+  const range = parseTimeRange(req, res, "30d");
+  if (!range) return;
 
-    // Calculate total for percentages
-    const totalSavings = Object.values(providerData).reduce((sum, p) =>
-      sum + (p.costWithout - p.costWith), 0
-    );
+  try {
+    res.json(await AgentRunTracker.calculateCostBreakdown(range.start, range.end));
+  } catch (error) {
+    console.error("Error calculating cost breakdown:", error);
+    res.status(500).json({ error: "Failed to calculate cost breakdown" });
+  }
+});
 
-    // Transform to response format
-    const providers = Object.entries(providerData).map(([id, data]) => {
-      const savings = data.costWithout - data.costWith;
-      const avgCostPerToken = data.tokensProcessed > 0 ? data.costWith / data.tokensProcessed : 0;
+// Model pricing catalog
+router.get("/pricing", async (_req, res) => {
+  try {
+    res.json(await pricingCatalog.list());
+  } catch (error) {
+    console.error("Error listing model prices:", error);
+    res.status(500).json({ error: "Failed to list model prices" });
+  }
+});
 
-      return {
-        providerId: id,
-        providerName: data.name,
-        savingsAmount: parseFloat(savings.toFixed(2)),
-        tokensProcessed: Math.round(data.tokensProcessed),
-        tokensOffloaded: Math.round(data.tokensOffloaded),
-        percentageOfTotal: totalSavings > 0 ? parseFloat((savings / totalSavings * 100).toFixed(2)) : 0,
-        avgCostPerToken: parseFloat(avgCostPerToken.toFixed(8)),
-        runsCount: data.runs,
-      };
-    }).sort((a, b) => b.savingsAmount - a.savingsAmount); // Sort by savings amount
+router.post("/pricing", async (req, res) => {
+  const parsed = PricingEntryInputSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.issues });
+  }
 
-    res.json(providers);
+  try {
+    const result = await pricingCatalog.create(parsed.data);
+    if (!result.ok) return res.status(result.status).json({ error: result.error });
+    res.status(201).json(result.entry);
   } catch (error) {
-    console.error("Error calculating provider savings:", error);
-    res.status(500).json({ error: "Failed to calculate provider savings" });
+    console.error("Error creating model price:", error);
+    res.status(500).json({ error: "Failed to create model price" });
   }
 });
 
-// Get cost breakdown
-router.get("/breakdown", (req, res) => {
+router.put("/pricing/:id", async (req, res) => {
+  const parsed = PricingEntryInputSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.issues });
+  }
+
   try {
-    const { timeRange = "30d" } = req.query;
-    const metrics = calculateSavingsMetrics(mockAgentRuns, timeRange as string);
-    
-    // Mock breakdown data
-    const breakdown = {
-      tokenCosts: {
-        withIntelligence: metrics.avgTokensPerRun * metrics.intelligenceRuns * metrics.costPerToken,
-        withoutIntelligence: metrics.avgTokensPerRun * 1.6 * metrics.baselineRuns * metrics.costPerToken,
-        saved: (metrics.avgTokensPerRun * 1.6 * metrics.baselineRuns * metrics.costPerToken) - 
-               (metrics.avgTokensPerRun * metrics.intelligenceRuns * metrics.costPerToken),
-      },
-      computeCosts: {
-        withIntelligence: metrics.avgComputePerRun * metrics.intelligenceRuns * metrics.costPerCompute,
-        withoutIntelligence: metrics.avgComputePerRun * 1.6 * metrics.baselineRuns * metrics.costPerCompute,
-        saved: (metrics.avgComputePerRun * 1.6 * metrics.baselineRuns * metrics.costPerCompute) - 
-               (metrics.avgComputePerRun * metrics.intelligenceRuns * metrics.costPerCompute),
-      },
-      storageCosts: {
-        withIntelligence: 156.25,
-        withoutIntelligence: 202.00,
-        saved: 45.75,
-      },
-      networkCosts: {
-        withIntelligence: 89.50,
-        withoutIntelligence: 112.75,
-        saved: 23.25,
-      },
-      totalSavings: metrics.totalSavings,
-      roi: {
-        intelligenceSystemCost: 450.00,
-        totalSavings: metrics.totalSavings,
-        netBenefit: metrics.totalSavings - 450.00,
-        roiPercentage: ((metrics.totalSavings - 450.00) / 450.00) * 100,
-        paybackMonths: 450.00 / (metrics.totalSavings / 30), // Assuming monthly savings
-      },
-    };
-    
-    res.json(breakdown);
+    const result = await pricingCatalog.update(req.params.id, parsed.data);
+    if (!result.ok) return res.status(result.status).json({ error: result.error });
+    res.json(result.entry);
   } catch (error) {
-    console.error("Error calculating cost breakdown:", error);
-    res.status(500).json({ error: "Failed to calculate cost breakdown" });
+    console.error("Error updating model price:", error);
+    res.status(500).json({ error: "Failed to update model price" });
+  }
+});
+
+router.delete("/pricing/:id", async (req, res) => {
+  try {
+    if (!(await pricingCatalog.remove(req.params.id))) {
+      return res.status(404).json({ error: "Price not found" });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error("Error deleting model price:", error);
+    res.status(500).json({ error: "Failed to delete model price" });
+  }
+});
+
+// Re-price recorded runs: what the period would cost under other prices, with
+// cost attributed per agent, model, project and pattern. Stored costs are unchanged.
+router.post("/reprice", async (req, res) => {
+  const parsed = RepriceRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.issues });
+  }
+  const range = timeRangeQuerySchema("30d").safeParse(req.body ?? {});
+  if (!range.success) {
+    return res.status(400).json({ error: "Invalid time range", details: range.error.issues });
+  }
+
+  try {
+    const { start: from, end: to } = range.data;
+    const runs = await AgentRunTracker.getRunsInRange(from, to);
+    const at = parsed.data.historical ? null : parsed.data.at ?? new Date();
+    res.json(await pricingCatalog.reprice(runs, { from, to, at }));
+  } catch (error) {
+    console.error("Error re-pricing agent runs:", error);
+    res.status(500).json({ error: "Failed to re-price agent runs" });
   }
 });
 
 // Record agent run (for data collection)
-router.post("/runs", (req, res) => {
+router.post("/runs", async (req, res) => {
+  const parsed = AgentRunSchema.safeParse(req.body);
+  if (!parsed.success) {
+    console.error("Error recording agent run:", parsed.error);
+    return res.status(400).json({ error: "Invalid agent run data" });
+  }
+
   try {
-    const runData = AgentRunSchema.parse(req.body);
-    
-    // In a real implementation, this would save to database
-    console.log("Recording agent run:", runData);
-    
-    res.json({ success: true, id: Date.now().toString() });
+    const run = await AgentRunTracker.recordRun({
+      ...parsed.data,
+      metadata: { ...parsed.data.metadata, source: "api" },
+    });
+    res.json({ success: true, id: run.id });
   } catch (error) {
     console.error("Error recording agent run:", error);
-    res.status(400).json({ error: "Invalid agent run data" });
+    res.status(500).json({ error: "Failed to record agent run" });
   }
 });
 
@@ -54,8 +54,11 @@ const intelligenceConnectionString = process.env.DATABASE_URL || (() => {
   return `postgresql://${process.env.POSTGRES_USER || 'postgres'}:${process.env.POSTGRES_PASSWORD}@${process.env.POSTGRES_HOST || '192.168.86.200'}:${process.env.POSTGRES_PORT || '5436'}/${process.env.POSTGRES_DATABASE || 'omninode_bridge'}`;
 })();
 
+// Bounded connect so an unreachable database fails startup checks (which fall back
+// to in-memory stores) instead of hanging them
 const pool = new Pool({
   connectionString: intelligenceConnectionString,
+  connectionTimeoutMillis: 5000,
 });
 
 export const intelligenceDb = drizzle(pool);
@@ -1,4 +1,5 @@
 import { Kafka, Producer } from 'kafkajs';
+import { NdjsonRecorder } from '../event-source';
 
 /**
  * Mock Event Generator for Kafka Topics
@@ -12,6 +13,10 @@ import { Kafka, Producer } from 'kafkajs';
  * Usage:
  *   npm run seed-events              # Run once to seed initial data
  *   npm run seed-events -- --continuous  # Run continuously for testing
+ *   npm run seed-events -- --output=.data/capture.ndjson  # Write an NDJSON capture instead of publishing
+ *
+ * Captures written with --output can be replayed without a broker:
+ *   EVENT_SOURCE=file EVENT_REPLAY_FILE=.data/capture.ndjson npm run dev
  */
 
 interface MockAgentConfig {
@@ -23,8 +28,10 @@ interface MockAgentConfig {
 }
 
 class MockEventGenerator {
-  private kafka: Kafka;
+  private kafka: Kafka | null = null;
   private producer: Producer | null = null;
+  private recorder: NdjsonRecorder | null = null;
+  private offset = 0;
   private intervalId?: NodeJS.Timeout;
   private isRunning = false;
 
@@ -74,7 +81,12 @@ class MockEventGenerator {
     'explicit_request',
   ];
 
-  constructor() {
+  constructor(options: { outputPath?: string } = {}) {
+    if (options.outputPath) {
+      this.recorder = new NdjsonRecorder(options.outputPath);
+      return;
+    }
+
     this.kafka = new Kafka({
       brokers: (process.env.KAFKA_BROKERS || '192.168.86.200:9092').split(','),
       clientId: 'omnidash-mock-generator',
@@ -86,9 +98,13 @@ class MockEventGenerator {
     const { continuous = false, initialBatch = 100 } = options;
 
     try {
-      await this.producer!.connect();
-      console.log('Mock event generator connected to Kafka');
-      console.log(`Brokers: ${process.env.KAFKA_BROKERS || '192.168.86.200:9092'}`);
+      if (this.recorder) {
+        console.log(`Mock event generator writing to ${this.recorder.filePath}`);
+      } else {
+        await this.producer!.connect();
+        console.log('Mock event generator connected to Kafka');
+        console.log(`Brokers: ${process.env.KAFKA_BROKERS || '192.168.86.200:9092'}`);
+      }
       this.isRunning = true;
 
       // Publish initial batch of events
@@ -175,10 +191,7 @@ class MockEventGenerator {
       timestamp: new Date().toISOString(),
     };
 
-    await this.producer!.send({
-      topic: 'agent-routing-decisions',
-      messages: [{ value: JSON.stringify(event) }],
-    });
+    await this.publish('agent-routing-decisions', event);
   }
 
   async publishAgentAction(agent: MockAgentConfig) {
@@ -202,10 +215,24 @@ class MockEventGenerator {
       timestamp: new Date().toISOString(),
     };
 
-    await this.producer!.send({
-      topic: 'agent-actions',
-      messages: [{ value: JSON.stringify(event) }],
-    });
+    await this.publish('agent-actions', event);
+  }
+
+  private async publish(topic: string, event: Record<string, unknown>) {
+    const value = JSON.stringify(event);
+
+    if (this.recorder) {
+      this.recorder.record({
+        topic,
+        partition: 0,
+        offset: String(this.offset++),
+        timestamp: new Date().toISOString(),
+        value,
+      });
+      return;
+    }
+
+    await this.producer!.send({ topic, messages: [{ value }] });
   }
 
   private generateAlternatives(selectedAgent: MockAgentConfig): any[] {
@@ -232,11 +259,17 @@ class MockEventGenerator {
       this.intervalId = undefined;
     }
 
-    if (this.producer && this.isRunning) {
+    if (!this.isRunning) {
+      return;
+    }
+
+    if (this.recorder) {
+      await this.recorder.close();
+    } else if (this.producer) {
       await this.producer.disconnect();
-      this.isRunning = false;
-      console.log('Mock event generator stopped');
     }
+    this.isRunning = false;
+    console.log('Mock event generator stopped');
   }
 }
 
@@ -245,8 +278,9 @@ async function main() {
   const args = process.argv.slice(2);
   const continuous = args.includes('--continuous') || args.includes('-c');
   const initialBatch = parseInt(args.find(arg => arg.startsWith('--batch='))?.split('=')[1] || '100');
+  const outputPath = args.find(arg => arg.startsWith('--output='))?.split('=')[1];
 
-  const generator = new MockEventGenerator();
+  const generator = new MockEventGenerator({ outputPath });
 
   // Graceful shutdown
   const shutdown = async () => {
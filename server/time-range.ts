@@ -0,0 +1,54 @@
+import type { Request, Response } from 'express';
+import { sql, type SQL } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import { GRANULARITY_STEP_MS, timeRangeQuerySchema, type TimeRange, type TimeRangePreset } from '@shared/time-range';
+
+/**
+ * Time range helpers for route handlers: parse the shared time range query
+ * parameters and turn the resolved range into SQL filters and buckets.
+ */
+
+/**
+ * Resolve the request's time range, or answer 400 and return null
+ */
+export function parseTimeRange(req: Request, res: Response, defaultPreset: TimeRangePreset): TimeRange | null {
+  const parsed = timeRangeQuerySchema(defaultPreset).safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid time range', details: parsed.error.issues });
+    return null;
+  }
+  return parsed.data;
+}
+
+/**
+ * `column` within the range (see containsTime)
+ */
+export function inTimeRange(column: PgColumn | SQL, range: TimeRange): SQL {
+  if (range.preset !== null) {
+    return sql`(${column} >= ${range.start.toISOString()})`;
+  }
+  return sql`(${column} >= ${range.start.toISOString()} AND ${column} < ${range.end.toISOString()})`;
+}
+
+/**
+ * Start of the range bucket containing `column`, as local time in the range's
+ * timezone (granularity and timezone are validated, so they are inlined to keep
+ * the expression identical across SELECT, GROUP BY and ORDER BY)
+ */
+export function timeBucket(column: PgColumn | SQL, range: TimeRange): SQL {
+  return sql`DATE_TRUNC('${sql.raw(range.granularity)}', ${column}::timestamptz AT TIME ZONE '${sql.raw(range.timezone)}')`;
+}
+
+/**
+ * Minutes per bucket, for per-minute rates
+ */
+export function bucketMinutes(range: TimeRange): number {
+  return GRANULARITY_STEP_MS[range.granularity] / (60 * 1000);
+}
+
+/**
+ * Hours from the range start until now, for upstream APIs that take a look-back
+ */
+export function lookbackHours(range: TimeRange, now: Date = new Date()): number {
+  return Math.max(1, Math.ceil((now.getTime() - range.start.getTime()) / (60 * 60 * 1000)));
+}
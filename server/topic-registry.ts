@@ -0,0 +1,236 @@
+import { readFileSync } from 'fs';
+import { z, type ZodTypeAny } from 'zod';
+import { EVENT_SCHEMA_CATALOG, type EventSchemaName } from '@shared/intelligence-schema';
+
+/**
+ * Topic Registry
+ *
+ * Declares which Kafka topics the EventConsumer subscribes to and how each one
+ * is processed: the handler that aggregates it, the payload schema it is
+ * validated against, how many records are retained in memory and which
+ * WebSocket message type/topic it is broadcast as.
+ *
+ * The built-in topics below are always registered. KAFKA_TOPIC_CONFIG (path to a
+ * JSON file) or KAFKA_TOPIC_CONFIG_JSON (inline JSON) can override them, disable
+ * them, or add new streams that use the generic 'recent-events' handler:
+ *
+ * {
+ *   "groupId": "omnidash-consumers-v2",
+ *   "fromBeginning": true,
+ *   "topics": [
+ *     { "topic": "agent-actions", "retention": 500 },
+ *     { "topic": "agent-manifest-injections", "handler": "recent-events",
+ *       "schema": "agent-manifest-injections", "wsMessageType": "MANIFEST_INJECTION", "wsTopic": "manifests" }
+ *   ]
+ * }
+ *
+ * KAFKA_CONSUMER_GROUP and KAFKA_FROM_BEGINNING take precedence over the file.
+ */
+
+export const BUILT_IN_HANDLERS = [
+  'routing-decisions',
+  'agent-actions',
+  'transformations',
+  'performance-metrics',
+  'agent-run-metrics',
+  'recent-events',
+] as const;
+
+export const TopicEntrySchema = z.object({
+  topic: z.string().min(1),
+  handler: z.string().min(1).optional(),
+  schema: z.string().min(1).optional(),
+  retention: z.number().int().min(1).max(100000).optional(),
+  wsMessageType: z.string().regex(/^[A-Z][A-Z0-9_]*$/, 'Use UPPER_SNAKE_CASE').optional(),
+  wsTopic: z.string().min(1).optional(),
+  enabled: z.boolean().optional(),
+}).strict();
+
+export const TopicConfigSchema = z.object({
+  groupId: z.string().min(1).optional(),
+  fromBeginning: z.boolean().optional(),
+  topics: z.array(TopicEntrySchema).default([]),
+}).strict();
+
+export type TopicEntry = z.infer<typeof TopicEntrySchema>;
+
+export interface TopicDefinition {
+  topic: string;
+  handler: string;
+  schemaName: string;
+  schema: ZodTypeAny;
+  retention: number;
+  wsMessageType: string;
+  wsTopic: string;
+  enabled: boolean;
+}
+
+export interface ConsumerTopicConfig {
+  groupId: string;
+  fromBeginning: boolean;
+  topics: TopicDefinition[];
+}
+
+export const DEFAULT_CONSUMER_GROUP = 'omnidash-consumers-v2';
+
+export const DEFAULT_TOPICS: Array<Required<Omit<TopicEntry, 'enabled'>>> = [
+  {
+    topic: 'agent-routing-decisions',
+    handler: 'routing-decisions',
+    schema: 'agent-routing-decisions',
+    retention: 100,
+    wsMessageType: 'ROUTING_DECISION',
+    wsTopic: 'routing',
+  },
+  {
+    topic: 'agent-actions',
+    handler: 'agent-actions',
+    schema: 'agent-actions',
+    retention: 100,
+    wsMessageType: 'AGENT_ACTION',
+    wsTopic: 'actions',
+  },
+  {
+    topic: 'agent-transformation-events',
+    handler: 'transformations',
+    schema: 'agent-transformation-events',
+    retention: 100,
+    wsMessageType: 'TRANSFORMATION_EVENT',
+    wsTopic: 'transformations',
+  },
+  {
+    topic: 'router-performance-metrics',
+    handler: 'performance-metrics',
+    schema: 'router-performance-metrics',
+    retention: 200,
+    wsMessageType: 'PERFORMANCE_METRIC',
+    wsTopic: 'performance',
+  },
+  {
+    topic: 'agent-run-metrics',
+    handler: 'agent-run-metrics',
+    schema: 'agent-run-metrics',
+    retention: 200,
+    wsMessageType: 'AGENT_RUN_METRIC',
+    wsTopic: 'savings',
+  },
+];
+
+function isBuiltInHandler(name: string): boolean {
+  return (BUILT_IN_HANDLERS as readonly string[]).includes(name);
+}
+
+function isSchemaName(name: string): name is EventSchemaName {
+  return Object.prototype.hasOwnProperty.call(EVENT_SCHEMA_CATALOG, name);
+}
+
+/**
+ * Build a full definition from a config entry, filling gaps from the built-in
+ * entry for the same topic (if any) and the generic defaults
+ */
+export function resolveTopicEntry(entry: TopicEntry, base?: TopicDefinition): TopicDefinition {
+  const handler = entry.handler ?? base?.handler ?? 'recent-events';
+  const schemaName = entry.schema ?? base?.schemaName ?? (isSchemaName(entry.topic) ? entry.topic : 'generic');
+
+  if (!isSchemaName(schemaName)) {
+    throw new Error(`Unknown schema "${schemaName}" for topic "${entry.topic}" (known: ${Object.keys(EVENT_SCHEMA_CATALOG).join(', ')})`);
+  }
+
+  return {
+    topic: entry.topic,
+    handler,
+    schemaName,
+    schema: EVENT_SCHEMA_CATALOG[schemaName],
+    retention: entry.retention ?? base?.retention ?? 100,
+    wsMessageType: entry.wsMessageType ?? base?.wsMessageType ?? 'TOPIC_EVENT',
+    wsTopic: entry.wsTopic ?? base?.wsTopic ?? entry.topic,
+    enabled: entry.enabled ?? base?.enabled ?? true,
+  };
+}
+
+function readConfigSource(env: NodeJS.ProcessEnv): unknown {
+  if (env.KAFKA_TOPIC_CONFIG_JSON) {
+    return JSON.parse(env.KAFKA_TOPIC_CONFIG_JSON);
+  }
+  if (env.KAFKA_TOPIC_CONFIG) {
+    return JSON.parse(readFileSync(env.KAFKA_TOPIC_CONFIG, 'utf8'));
+  }
+  return {};
+}
+
+/**
+ * Load consumer group, fromBeginning and topic definitions from config/environment.
+ * Throws on invalid configuration (including handler names other than the
+ * built-in ones) so a typo never silently drops a topic.
+ */
+export function loadTopicConfig(env: NodeJS.ProcessEnv = process.env): ConsumerTopicConfig {
+  const parsed = TopicConfigSchema.safeParse(readConfigSource(env));
+  if (!parsed.success) {
+    const details = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid Kafka topic configuration: ${details}`);
+  }
+
+  const definitions = new Map<string, TopicDefinition>();
+  for (const entry of DEFAULT_TOPICS) {
+    definitions.set(entry.topic, resolveTopicEntry(entry));
+  }
+  for (const entry of parsed.data.topics) {
+    const definition = resolveTopicEntry(entry, definitions.get(entry.topic));
+    if (!isBuiltInHandler(definition.handler)) {
+      throw new Error(
+        `Invalid Kafka topic configuration: unknown handler "${definition.handler}" for topic "${entry.topic}" (known: ${BUILT_IN_HANDLERS.join(', ')})`
+      );
+    }
+    definitions.set(entry.topic, definition);
+  }
+
+  const fromBeginningEnv = env.KAFKA_FROM_BEGINNING?.toLowerCase();
+
+  return {
+    groupId: env.KAFKA_CONSUMER_GROUP || parsed.data.groupId || DEFAULT_CONSUMER_GROUP,
+    fromBeginning: fromBeginningEnv !== undefined && fromBeginningEnv !== ''
+      ? fromBeginningEnv === 'true'
+      : parsed.data.fromBeginning ?? true,
+    topics: Array.from(definitions.values()),
+  };
+}
+
+/**
+ * Registry of topic definitions keyed by Kafka topic
+ */
+export class TopicRegistry {
+  private definitions = new Map<string, TopicDefinition>();
+
+  constructor(definitions: TopicDefinition[] = []) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  register(definition: TopicDefinition) {
+    this.definitions.set(definition.topic, definition);
+  }
+
+  unregister(topic: string): boolean {
+    return this.definitions.delete(topic);
+  }
+
+  get(topic: string): TopicDefinition | undefined {
+    return this.definitions.get(topic);
+  }
+
+  /**
+   * Retention cap for the first enabled topic using a handler
+   */
+  retentionFor(handler: string, fallback: number): number {
+    const definition = this.list().find(d => d.handler === handler);
+    return definition?.retention ?? fallback;
+  }
+
+  list(options: { includeDisabled?: boolean } = {}): TopicDefinition[] {
+    const definitions = Array.from(this.definitions.values());
+    return options.includeDisabled ? definitions : definitions.filter(d => d.enabled);
+  }
+
+  topics(): string[] {
+    return this.list().map(d => d.topic);
+  }
+}
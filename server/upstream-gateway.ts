@@ -0,0 +1,206 @@
+/**
+ * Upstream Gateway
+ *
+ * Server-side access to the Omniarchon intelligence service
+ * (INTELLIGENCE_SERVICE_URL, default http://localhost:8053) for the browser,
+ * which only ever calls relative /api/upstream/* URLs. Requests get a timeout
+ * (UPSTREAM_TIMEOUT_MS, default 5s), successful responses are cached briefly
+ * (UPSTREAM_CACHE_TTL_MS, default 15s) and a circuit breaker stops calling the
+ * service after repeated failures (timeouts, network errors and 5xx), letting
+ * one trial request through once the cool-down has passed. Failures come back
+ * as one error envelope: { error, code, message, upstreamStatus? }.
+ *
+ * Only the reads listed in UPSTREAM_READ_PATHS are forwarded, so the gateway
+ * never exposes the rest of the service.
+ */
+
+export type UpstreamErrorCode = 'upstream_timeout' | 'upstream_unreachable' | 'upstream_error' | 'circuit_open';
+
+export interface UpstreamErrorBody {
+  error: string;
+  code: UpstreamErrorCode;
+  message: string;
+  upstreamStatus?: number;
+}
+
+export type UpstreamResult =
+  | { ok: true; status: number; contentType: string; body: string; cache: 'hit' | 'miss' }
+  | { ok: false; status: number; body: UpstreamErrorBody; retryAfterSeconds?: number };
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface UpstreamGatewayOptions {
+  // Defaults to INTELLIGENCE_SERVICE_URL at request time
+  baseUrl?: string;
+  timeoutMs?: number;
+  cacheTtlMs?: number;
+  maxCacheEntries?: number;
+  // Consecutive failures that open the circuit
+  failureThreshold?: number;
+  // How long an open circuit rejects requests before a trial request
+  resetTimeoutMs?: number;
+  fetch?: typeof fetch;
+  now?: () => number;
+}
+
+interface CacheEntry {
+  status: number;
+  contentType: string;
+  body: string;
+  expiresAt: number;
+}
+
+// Intelligence service reads the dashboard uses
+export const UPSTREAM_READ_PATHS = [
+  '/api/intelligence/code/analysis',
+  '/api/intelligence/developer/metrics',
+  '/api/intelligence/platform/health',
+];
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_CACHE_TTL_MS = 15000;
+const DEFAULT_MAX_CACHE_ENTRIES = 200;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 30000;
+
+function envMs(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function intelligenceServiceUrl(): string {
+  return process.env.INTELLIGENCE_SERVICE_URL || 'http://localhost:8053';
+}
+
+function failure(
+  status: number,
+  code: UpstreamErrorCode,
+  message: string,
+  extra: { upstreamStatus?: number; retryAfterSeconds?: number } = {}
+): UpstreamResult {
+  const error = code === 'circuit_open' ? 'Intelligence service unavailable' : 'Intelligence service request failed';
+  const body: UpstreamErrorBody = { error, code, message };
+  if (extra.upstreamStatus !== undefined) body.upstreamStatus = extra.upstreamStatus;
+  return { ok: false, status, body, retryAfterSeconds: extra.retryAfterSeconds };
+}
+
+/**
+ * Whether a path (with its query string) is an allowed read; dot segments and
+ * encoded variants of the allowed paths are rejected
+ */
+export function isAllowedUpstreamPath(path: string): boolean {
+  const [pathname] = path.split('?', 1);
+  return UPSTREAM_READ_PATHS.includes(pathname);
+}
+
+export class UpstreamGateway {
+  private readonly cache = new Map<string, CacheEntry>();
+  private readonly fetchImpl: typeof fetch;
+  private readonly now: () => number;
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private readonly options: UpstreamGatewayOptions = {}) {
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.now = options.now ?? Date.now;
+  }
+
+  get circuitState(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return this.now() - this.openedAt >= this.resetTimeoutMs ? 'half-open' : 'open';
+  }
+
+  private get resetTimeoutMs(): number {
+    return this.options.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
+  }
+
+  /**
+   * GET an upstream path (with its query string), e.g. "/api/intelligence/code/analysis?timeWindow=24h"
+   */
+  async get(path: string): Promise<UpstreamResult> {
+    const cached = this.cache.get(path);
+    if (cached && cached.expiresAt > this.now()) {
+      return { ok: true, status: cached.status, contentType: cached.contentType, body: cached.body, cache: 'hit' };
+    }
+
+    const state = this.circuitState;
+    if (state === 'open' || (state === 'half-open' && this.trialInFlight)) {
+      const remainingMs = state === 'open' ? this.openedAt! + this.resetTimeoutMs - this.now() : this.resetTimeoutMs;
+      return failure(503, 'circuit_open', 'Intelligence service is failing; requests are paused', {
+        retryAfterSeconds: Math.max(1, Math.ceil(remainingMs / 1000)),
+      });
+    }
+
+    if (state === 'half-open') this.trialInFlight = true;
+    try {
+      return await this.forward(path);
+    } finally {
+      this.trialInFlight = false;
+    }
+  }
+
+  private async forward(path: string): Promise<UpstreamResult> {
+    const baseUrl = (this.options.baseUrl ?? intelligenceServiceUrl()).replace(/\/+$/, '');
+    const timeoutMs = this.options.timeoutMs ?? envMs('UPSTREAM_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+
+    let response: Response;
+    let body: string;
+    try {
+      response = await this.fetchImpl(`${baseUrl}${path}`, {
+        method: 'GET',
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      body = await response.text();
+    } catch (error) {
+      this.recordFailure();
+      if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+        return failure(504, 'upstream_timeout', `No response within ${timeoutMs}ms`);
+      }
+      return failure(502, 'upstream_unreachable', error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    if (response.status >= 500) {
+      this.recordFailure();
+      return failure(502, 'upstream_error', `Intelligence service responded with ${response.status}`, { upstreamStatus: response.status });
+    }
+
+    // The service answered, so it is up even when it rejects the request
+    this.recordSuccess();
+    if (!response.ok) {
+      return failure(response.status, 'upstream_error', `Intelligence service responded with ${response.status}`, { upstreamStatus: response.status });
+    }
+
+    const contentType = response.headers.get('content-type') ?? 'application/json';
+    this.store(path, { status: response.status, contentType, body, expiresAt: 0 });
+    return { ok: true, status: response.status, contentType, body, cache: 'miss' };
+  }
+
+  private store(path: string, entry: CacheEntry) {
+    const ttlMs = this.options.cacheTtlMs ?? envMs('UPSTREAM_CACHE_TTL_MS', DEFAULT_CACHE_TTL_MS);
+    if (ttlMs === 0) return;
+
+    this.cache.delete(path);
+    this.cache.set(path, { ...entry, expiresAt: this.now() + ttlMs });
+    const maxEntries = this.options.maxCacheEntries ?? DEFAULT_MAX_CACHE_ENTRIES;
+    while (this.cache.size > maxEntries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+
+  private recordSuccess() {
+    this.failures = 0;
+    this.openedAt = null;
+  }
+
+  private recordFailure() {
+    this.failures++;
+    // A failed trial re-opens right away
+    if (this.openedAt !== null || this.failures >= (this.options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD)) {
+      this.openedAt = this.now();
+    }
+  }
+}
+
+export const upstreamGateway = new UpstreamGateway();
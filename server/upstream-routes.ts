@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { isAllowedUpstreamPath, upstreamGateway } from './upstream-gateway';
+
+export const upstreamRouter = Router();
+
+/**
+ * GET /api/upstream/*
+ * Proxy a read to the intelligence service: /api/upstream/api/intelligence/code/analysis?timeWindow=24h
+ * is served from INTELLIGENCE_SERVICE_URL/api/intelligence/code/analysis?timeWindow=24h.
+ * Paths outside UPSTREAM_READ_PATHS get a 404 without reaching the service.
+ *
+ * Response headers:
+ * - X-Upstream-Cache: hit | miss
+ * - Retry-After: seconds until the next attempt while the circuit is open
+ *
+ * Errors (502 unreachable or 5xx, 503 circuit open, 504 timeout, upstream 4xx status):
+ * { error, code, message, upstreamStatus? }
+ */
+upstreamRouter.get('/*', async (req, res) => {
+  // req.url keeps the encoded path and query string as sent
+  if (!isAllowedUpstreamPath(req.url)) {
+    return res.status(404).json({ error: 'Upstream path not available', path: req.path });
+  }
+
+  const result = await upstreamGateway.get(req.url);
+
+  if (!result.ok) {
+    if (result.retryAfterSeconds !== undefined) res.set('Retry-After', String(result.retryAfterSeconds));
+    return res.status(result.status).json(result.body);
+  }
+
+  res.set('X-Upstream-Cache', result.cache);
+  res.status(result.status).type(result.contentType).send(result.body);
+});
@@ -0,0 +1,120 @@
+import { z } from 'zod';
+
+/**
+ * Per-client subscription filters for the /ws stream
+ *
+ * Filters are evaluated server-side inside broadcast(), so a dashboard focused
+ * on one agent or one correlation ID only receives the events it renders.
+ *
+ * Semantics:
+ * - All provided filters must match (AND).
+ * - A filter only constrains events that carry the corresponding field; e.g.
+ *   minConfidence does not drop agent actions, which have no confidence score.
+ *   Combine filters with topics to restrict event types as well.
+ * - AGENT_METRIC_UPDATE payloads (arrays) are narrowed to the matching agents.
+ */
+export const SubscriptionFiltersSchema = z.object({
+  agentName: z.string().min(1).optional(),
+  actionType: z.string().min(1).optional(),
+  minConfidence: z.number().min(0).max(1).optional(),
+  correlationId: z.string().min(1).optional(),
+  project: z.string().min(1).optional(),
+}).strict();
+
+export type SubscriptionFilters = z.infer<typeof SubscriptionFiltersSchema>;
+
+export function hasActiveFilters(filters: SubscriptionFilters | null | undefined): filters is SubscriptionFilters {
+  return !!filters && Object.values(filters).some(value => value !== undefined);
+}
+
+function definedStrings(...values: unknown[]): string[] {
+  return values.filter((value): value is string => typeof value === 'string' && value.length > 0);
+}
+
+function agentsOf(record: any): string[] {
+  return definedStrings(
+    record.agentName,
+    record.agent_name,
+    record.selectedAgent,
+    record.selected_agent,
+    record.sourceAgent,
+    record.targetAgent,
+    record.agent,
+  );
+}
+
+function confidenceOf(record: any): number | undefined {
+  const value = record.confidenceScore ?? record.confidence_score ?? record.avgConfidence;
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function projectsOf(record: any): string[] {
+  const details = record.actionDetails ?? record.action_details ?? {};
+  return definedStrings(
+    record.projectName,
+    record.project_name,
+    record.projectPath,
+    record.project_path,
+    record.project,
+    details.projectName,
+    details.project_name,
+    details.projectPath,
+    details.project_path,
+  );
+}
+
+/**
+ * Check a single event record against the filters
+ */
+export function matchesFilters(record: any, filters: SubscriptionFilters): boolean {
+  if (!record || typeof record !== 'object') return true;
+
+  if (filters.agentName) {
+    const agents = agentsOf(record);
+    if (agents.length > 0 && !agents.includes(filters.agentName)) return false;
+  }
+
+  if (filters.actionType) {
+    const actionTypes = definedStrings(record.actionType, record.action_type);
+    if (actionTypes.length > 0 && !actionTypes.includes(filters.actionType)) return false;
+  }
+
+  if (filters.minConfidence !== undefined) {
+    const confidence = confidenceOf(record);
+    if (confidence !== undefined && confidence < filters.minConfidence) return false;
+  }
+
+  if (filters.correlationId) {
+    const ids = definedStrings(record.correlationId, record.correlation_id);
+    if (ids.length > 0 && !ids.includes(filters.correlationId)) return false;
+  }
+
+  if (filters.project) {
+    const projects = projectsOf(record);
+    const wanted = filters.project.toLowerCase();
+    const matches = projects.some(project => {
+      const value = project.toLowerCase();
+      return value === wanted || value.endsWith(`/${wanted}`);
+    });
+    if (projects.length > 0 && !matches) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Apply filters to a broadcast payload.
+ * Returns the payload to send (narrowed for metric arrays) or null to skip the client.
+ */
+export function applySubscriptionFilters(type: string, data: any, filters: SubscriptionFilters): any | null {
+  if (type === 'AGENT_METRIC_UPDATE' && Array.isArray(data)) {
+    const narrowed = data.filter(metric => matchesFilters(metric, filters));
+    if (narrowed.length === 0) return null;
+    return narrowed.length === data.length ? data : narrowed;
+  }
+
+  // Performance broadcasts wrap the record alongside aggregate stats
+  const record = type === 'PERFORMANCE_METRIC' && data?.metric ? data.metric : data;
+  return matchesFilters(record, filters) ? data : null;
+}
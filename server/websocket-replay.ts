@@ -0,0 +1,101 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Replay buffer for the /ws stream
+ *
+ * Every broadcast is stamped with a monotonically increasing sequence number and
+ * kept in a bounded ring buffer. Clients that reconnect send the last sequence
+ * number they saw and receive the events they missed, or are told to resync
+ * when the gap is no longer covered by the buffer.
+ *
+ * Sequence numbers restart with every server process, so each buffer has its own
+ * `streamId`. A client resuming with another process's stream id always has to
+ * resync, even when its sequence number happens to be in range.
+ */
+
+export interface SequencedEvent {
+  seq: number;
+  type: string;
+  data: any;
+  topic?: string;
+  timestamp: string;
+}
+
+export type ReplayResult =
+  | { status: 'ok'; events: SequencedEvent[] }
+  | { status: 'resync'; reason: 'gap' | 'unknown_sequence' | 'stream_changed'; oldestSeq: number | null; currentSeq: number };
+
+export const DEFAULT_REPLAY_CAPACITY = 1000;
+
+export class ReplayBuffer {
+  private readonly entries: (SequencedEvent | undefined)[];
+  private nextSeq = 1;
+
+  constructor(
+    private readonly capacity: number = DEFAULT_REPLAY_CAPACITY,
+    readonly streamId: string = randomUUID()
+  ) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(`Replay buffer capacity must be a positive integer (got ${capacity})`);
+    }
+    this.entries = new Array(capacity);
+  }
+
+  /**
+   * Sequence number of the most recent event (0 before the first event)
+   */
+  get currentSeq(): number {
+    return this.nextSeq - 1;
+  }
+
+  /**
+   * Sequence number of the oldest event still held, or null when empty
+   */
+  get oldestSeq(): number | null {
+    if (this.currentSeq === 0) return null;
+    return Math.max(1, this.nextSeq - this.capacity);
+  }
+
+  /**
+   * Stamp an event with the next sequence number and store it
+   */
+  append(type: string, data: any, topic?: string, timestamp: string = new Date().toISOString()): SequencedEvent {
+    const event: SequencedEvent = { seq: this.nextSeq++, type, data, topic, timestamp };
+    this.entries[event.seq % this.capacity] = event;
+    return event;
+  }
+
+  /**
+   * Events after `lastSeq`, oldest first.
+   * Requires a resync when `streamId` belongs to another stream (the server
+   * restarted), when events after `lastSeq` were already evicted, or when
+   * `lastSeq` is ahead of the server. Without a `streamId` only the sequence
+   * number is checked.
+   */
+  since(lastSeq: number, streamId?: string): ReplayResult {
+    const currentSeq = this.currentSeq;
+    const oldestSeq = this.oldestSeq;
+
+    if (streamId !== undefined && streamId !== this.streamId) {
+      return { status: 'resync', reason: 'stream_changed', oldestSeq, currentSeq };
+    }
+
+    if (!Number.isInteger(lastSeq) || lastSeq < 0 || lastSeq > currentSeq) {
+      return { status: 'resync', reason: 'unknown_sequence', oldestSeq, currentSeq };
+    }
+
+    if (lastSeq === currentSeq) {
+      return { status: 'ok', events: [] };
+    }
+
+    if (oldestSeq === null || lastSeq + 1 < oldestSeq) {
+      return { status: 'resync', reason: 'gap', oldestSeq, currentSeq };
+    }
+
+    const events: SequencedEvent[] = [];
+    for (let seq = lastSeq + 1; seq <= currentSeq; seq++) {
+      events.push(this.entries[seq % this.capacity]!);
+    }
+    return { status: 'ok', events };
+  }
+}
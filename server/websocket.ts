@@ -2,13 +2,20 @@ import WebSocket, { WebSocketServer } from 'ws';
 import { Server as HTTPServer } from 'http';
 import type { IncomingMessage } from 'http';
 import { eventConsumer } from './event-consumer';
+import { executionQueue, type ExecutionProgressEvent } from './agent-execution-queue';
+import { SubscriptionFiltersSchema, applySubscriptionFilters, hasActiveFilters, type SubscriptionFilters } from './websocket-filters';
+import { ReplayBuffer, DEFAULT_REPLAY_CAPACITY, type SequencedEvent } from './websocket-replay';
+import type { TopicDefinition } from './topic-registry';
 
 interface ClientData {
   ws: WebSocket;
   subscriptions: Set<string>;
+  filters: SubscriptionFilters | null;
   lastPing: Date;
   isAlive: boolean;
   missedPings: number;
+  // Connected with ?resume: INITIAL_STATE waits for the resume outcome
+  awaitingResume: boolean;
 }
 
 export function setupWebSocket(httpServer: HTTPServer) {
@@ -48,39 +55,100 @@ export function setupWebSocket(httpServer: HTTPServer) {
     });
   }, HEARTBEAT_INTERVAL_MS);
 
-  // Broadcast helper function with filtering
+  // Recent broadcasts kept for clients resuming after a reconnect
+  const replayBuffer = new ReplayBuffer(
+    parseInt(process.env.WS_REPLAY_BUFFER_SIZE || '', 10) || DEFAULT_REPLAY_CAPACITY
+  );
+
+  // Send a sequenced event to one client, honouring its topics and filters
+  const sendEvent = (clientData: ClientData, event: SequencedEvent, serialized?: string, replayed = false) => {
+    const { ws } = clientData;
+    if (ws.readyState !== WebSocket.OPEN) return false;
+
+    // Apply subscription filtering if event type is provided
+    if (event.topic && clientData.subscriptions.size > 0) {
+      if (!clientData.subscriptions.has(event.topic) && !clientData.subscriptions.has('all')) {
+        return false; // Skip this client
+      }
+    }
+
+    let data = event.data;
+
+    // Apply per-client predicates (agent, action type, confidence, correlation ID, project)
+    if (clientData.filters) {
+      data = applySubscriptionFilters(event.type, event.data, clientData.filters);
+      if (data === null) {
+        return false; // Skip this client
+      }
+    }
+
+    if (serialized && data === event.data && !replayed) {
+      ws.send(serialized);
+    } else {
+      ws.send(JSON.stringify({
+        type: event.type,
+        data,
+        timestamp: event.timestamp,
+        seq: event.seq,
+        streamId: replayBuffer.streamId,
+        ...(replayed ? { replayed: true } : {})
+      }));
+    }
+    return true;
+  };
+
+  // Broadcast helper function with filtering; every broadcast gets the next sequence number
   const broadcast = (type: string, data: any, eventType?: string) => {
+    const event = replayBuffer.append(type, data, eventType);
     const message = JSON.stringify({
       type,
       data,
-      timestamp: new Date().toISOString()
+      timestamp: event.timestamp,
+      seq: event.seq,
+      streamId: replayBuffer.streamId
     });
 
-    clients.forEach((clientData, ws) => {
-      if (ws.readyState === WebSocket.OPEN) {
-        // Apply subscription filtering if event type is provided
-        if (eventType && clientData.subscriptions.size > 0) {
-          if (!clientData.subscriptions.has(eventType) && !clientData.subscriptions.has('all')) {
-            return; // Skip this client
-          }
-        }
-
-        ws.send(message);
-      }
+    clients.forEach((clientData) => {
+      sendEvent(clientData, event, message);
     });
   };
 
+  // Snapshot of current consumer state (used for INITIAL_STATE and getState)
+  const getStateSnapshot = () => ({
+    metrics: eventConsumer.getAgentMetrics(),
+    recentActions: eventConsumer.getRecentActions(),
+    routingDecisions: eventConsumer.getRoutingDecisions(),
+    recentTransformations: eventConsumer.getRecentTransformations(),
+    performanceStats: eventConsumer.getPerformanceStats(),
+    health: eventConsumer.getHealthStatus()
+  });
+
+  // `seq` is the baseline a client resumes from after reconnecting
+  const sendInitialState = (ws: WebSocket) => {
+    ws.send(JSON.stringify({
+      type: 'INITIAL_STATE',
+      data: getStateSnapshot(),
+      timestamp: new Date().toISOString(),
+      seq: replayBuffer.currentSeq,
+      streamId: replayBuffer.streamId
+    }));
+  };
+
   // Listen to EventConsumer events
   eventConsumer.on('metricUpdate', (metrics) => {
     broadcast('AGENT_METRIC_UPDATE', metrics, 'metrics');
   });
 
-  eventConsumer.on('actionUpdate', (action) => {
-    broadcast('AGENT_ACTION', action, 'actions');
+  // Every registered topic is broadcast with the message type and topic from the registry
+  // (AGENT_ACTION/actions, ROUTING_DECISION/routing, TRANSFORMATION_EVENT/transformations,
+  // PERFORMANCE_METRIC/performance, AGENT_RUN_METRIC/savings, plus any configured streams)
+  eventConsumer.on('topicEvent', ({ definition, payload }: { definition: TopicDefinition; payload: unknown }) => {
+    broadcast(definition.wsMessageType, payload, definition.wsTopic);
   });
 
-  eventConsumer.on('routingUpdate', (decision) => {
-    broadcast('ROUTING_DECISION', decision, 'routing');
+  // Agent execution lifecycle (queued, started, step, completed, failed, cancelled)
+  executionQueue.on('progress', (event: ExecutionProgressEvent) => {
+    broadcast('AGENT_EXECUTION_PROGRESS', event, 'executions');
   });
 
   eventConsumer.on('error', (error) => {
@@ -109,9 +177,11 @@ export function setupWebSocket(httpServer: HTTPServer) {
     const clientData: ClientData = {
       ws,
       subscriptions: new Set(['all']), // Subscribe to all by default
+      filters: null,
       lastPing: new Date(),
       isAlive: true,
-      missedPings: 0
+      missedPings: 0,
+      awaitingResume: new URL(request.url ?? '/ws', 'http://localhost').searchParams.has('resume')
     };
 
     clients.set(ws, clientData);
@@ -123,17 +193,12 @@ export function setupWebSocket(httpServer: HTTPServer) {
       timestamp: new Date().toISOString()
     }));
 
-    // Send initial state
-    ws.send(JSON.stringify({
-      type: 'INITIAL_STATE',
-      data: {
-        metrics: eventConsumer.getAgentMetrics(),
-        recentActions: eventConsumer.getRecentActions(),
-        routingDecisions: eventConsumer.getRoutingDecisions(),
-        health: eventConsumer.getHealthStatus()
-      },
-      timestamp: new Date().toISOString()
-    }));
+    // Reconnecting clients (?resume) get INITIAL_STATE only when their resume needs a
+    // resync: after a successful resume the replayed events already bring them up to
+    // date, and the snapshot would count those events a second time
+    if (!clientData.awaitingResume) {
+      sendInitialState(ws);
+    }
 
     // Handle pong responses
     ws.on('pong', () => {
@@ -151,11 +216,14 @@ export function setupWebSocket(httpServer: HTTPServer) {
 
         switch (message.action) {
           case 'subscribe':
-            handleSubscription(ws, message.topics);
+            handleSubscription(ws, message.topics, message.filters);
             break;
           case 'unsubscribe':
             handleUnsubscription(ws, message.topics);
             break;
+          case 'resume':
+            handleResume(ws, message.lastSeq, message.streamId);
+            break;
           case 'ping':
             ws.send(JSON.stringify({ type: 'PONG', timestamp: new Date().toISOString() }));
             break;
@@ -163,13 +231,10 @@ export function setupWebSocket(httpServer: HTTPServer) {
             // Send current state on demand
             ws.send(JSON.stringify({
               type: 'CURRENT_STATE',
-              data: {
-                metrics: eventConsumer.getAgentMetrics(),
-                recentActions: eventConsumer.getRecentActions(),
-                routingDecisions: eventConsumer.getRoutingDecisions(),
-                health: eventConsumer.getHealthStatus()
-              },
-              timestamp: new Date().toISOString()
+              data: getStateSnapshot(),
+              timestamp: new Date().toISOString(),
+              seq: replayBuffer.currentSeq,
+              streamId: replayBuffer.streamId
             }));
             break;
           default:
@@ -199,11 +264,30 @@ export function setupWebSocket(httpServer: HTTPServer) {
   });
 
   // Handle subscription updates
-  function handleSubscription(ws: WebSocket, topics: string | string[]) {
+  // Subscribing to specific topics narrows the default 'all' subscription.
+  // `filters` replaces the client's current filters; pass null or {} to clear them.
+  function handleSubscription(ws: WebSocket, topics: string | string[] | undefined, filters?: unknown) {
     const client = clients.get(ws);
     if (!client) return;
 
-    const topicArray = Array.isArray(topics) ? topics : [topics];
+    if (filters !== undefined) {
+      const parsed = SubscriptionFiltersSchema.safeParse(filters ?? {});
+      if (!parsed.success) {
+        ws.send(JSON.stringify({
+          type: 'ERROR',
+          message: `Invalid subscription filters: ${parsed.error.issues.map(issue => issue.message).join(', ')}`,
+          timestamp: new Date().toISOString()
+        }));
+        return;
+      }
+      client.filters = hasActiveFilters(parsed.data) ? parsed.data : null;
+    }
+
+    const topicArray = topics === undefined ? [] : Array.isArray(topics) ? topics : [topics];
+
+    if (topicArray.length > 0 && !topicArray.includes('all')) {
+      client.subscriptions.delete('all');
+    }
 
     topicArray.forEach(topic => {
       client.subscriptions.add(topic);
@@ -212,10 +296,58 @@ export function setupWebSocket(httpServer: HTTPServer) {
     ws.send(JSON.stringify({
       type: 'SUBSCRIPTION_UPDATED',
       subscriptions: Array.from(client.subscriptions),
+      filters: client.filters ?? {},
       timestamp: new Date().toISOString()
     }));
 
-    console.log('Client subscriptions updated:', Array.from(client.subscriptions));
+    console.log('Client subscriptions updated:', Array.from(client.subscriptions), client.filters ?? {});
+  }
+
+  // Replay events missed since `lastSeq`, or ask the client to resync when the
+  // gap is no longer covered by the replay buffer or `streamId` belongs to a
+  // previous server process
+  function handleResume(ws: WebSocket, lastSeq: unknown, streamId: unknown) {
+    const client = clients.get(ws);
+    if (!client) return;
+
+    const requestedSeq = typeof lastSeq === 'number' ? lastSeq : Number.NaN;
+    const result = replayBuffer.since(requestedSeq, typeof streamId === 'string' ? streamId : undefined);
+    const awaitingResume = client.awaitingResume;
+    client.awaitingResume = false;
+
+    if (result.status === 'resync') {
+      ws.send(JSON.stringify({
+        type: 'RESYNC_REQUIRED',
+        data: {
+          lastSeq: Number.isFinite(requestedSeq) ? requestedSeq : null,
+          oldestSeq: result.oldestSeq,
+          currentSeq: result.currentSeq,
+          streamId: replayBuffer.streamId,
+          reason: result.reason
+        },
+        timestamp: new Date().toISOString()
+      }));
+      console.log(`Client resume from seq ${String(lastSeq)} requires resync (${result.reason})`);
+      if (awaitingResume) sendInitialState(ws);
+      return;
+    }
+
+    let delivered = 0;
+    result.events.forEach(event => {
+      if (sendEvent(client, event, undefined, true)) delivered++;
+    });
+
+    ws.send(JSON.stringify({
+      type: 'REPLAY_COMPLETE',
+      data: {
+        fromSeq: requestedSeq + 1,
+        toSeq: replayBuffer.currentSeq,
+        count: delivered
+      },
+      timestamp: new Date().toISOString(),
+      seq: replayBuffer.currentSeq,
+      streamId: replayBuffer.streamId
+    }));
   }
 
   // Handle unsubscription
@@ -237,6 +369,7 @@ export function setupWebSocket(httpServer: HTTPServer) {
     ws.send(JSON.stringify({
       type: 'SUBSCRIPTION_UPDATED',
       subscriptions: Array.from(client.subscriptions),
+      filters: client.filters ?? {},
       timestamp: new Date().toISOString()
     }));
 
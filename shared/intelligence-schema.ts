@@ -1,5 +1,6 @@
 import { pgTable, uuid, text, varchar, integer, numeric, boolean, jsonb, timestamp } from 'drizzle-orm/pg-core';
 import { createInsertSchema } from 'drizzle-zod';
+import { z } from 'zod';
 
 /**
  * Agent Routing Decisions Table
@@ -278,6 +279,17 @@ export const taskCompletionMetrics = pgTable('task_completion_metrics', {
 // Export Zod schema for validation
 export const insertTaskCompletionMetricsSchema = createInsertSchema(taskCompletionMetrics);
 
+/**
+ * Event Consumer Snapshots Table
+ * Periodic snapshots of the in-memory EventConsumer aggregates,
+ * restored on startup so dashboards survive restarts
+ */
+export const eventConsumerSnapshots = pgTable('event_consumer_snapshots', {
+  id: text('id').primaryKey(),
+  snapshot: jsonb('snapshot').notNull(),
+  savedAt: timestamp('saved_at').defaultNow().notNull(),
+});
+
 // Export TypeScript types
 export type TaskCompletionMetric = typeof taskCompletionMetrics.$inferSelect;
 export type InsertTaskCompletionMetric = typeof taskCompletionMetrics.$inferInsert;
@@ -287,6 +299,161 @@ export type DocumentAccessLog = typeof documentAccessLog.$inferSelect;
 export type InsertDocumentAccessLog = typeof documentAccessLog.$inferInsert;
 export type NodeServiceRegistry = typeof nodeServiceRegistry.$inferSelect;
 export type InsertNodeServiceRegistry = typeof nodeServiceRegistry.$inferInsert;
+export type EventConsumerSnapshot = typeof eventConsumerSnapshots.$inferSelect;
+
+/**
+ * Kafka Event Schemas
+ * Payloads consumed by the EventConsumer, one schema per topic.
+ * Producers publish snake_case or camelCase keys; keys are normalized to camelCase
+ * (snake_case wins when both are present) and `timestamp` maps to `createdAt`.
+ * Required fields mirror the NOT NULL columns of the corresponding tables above.
+ */
+function normalizeEventKeys(value: unknown): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+
+  const normalized: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (entry === undefined || entry === null) continue;
+    const camel = key.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+    if (key.includes('_') || !(camel in normalized)) {
+      normalized[camel] = entry;
+    }
+  }
+  if (normalized.timestamp !== undefined && normalized.createdAt === undefined) {
+    normalized.createdAt = normalized.timestamp;
+  }
+  delete normalized.timestamp;
+  return normalized;
+}
+
+const eventId = z.string().min(1).optional();
+const eventCreatedAt = z.coerce.date().optional();
+const confidence = z.coerce.number().min(0).max(1);
+const durationMs = z.coerce.number().nonnegative();
+
+export const routingDecisionEventSchema = z.preprocess(normalizeEventKeys, z.object({
+  id: eventId,
+  correlationId: z.string().min(1),
+  userRequest: z.string(),
+  selectedAgent: z.string().min(1),
+  confidenceScore: confidence,
+  routingStrategy: z.string(),
+  alternatives: z.any().optional(),
+  reasoning: z.string().optional(),
+  routingTimeMs: durationMs,
+  createdAt: eventCreatedAt,
+}));
+
+export const agentActionEventSchema = z.preprocess(normalizeEventKeys, z.object({
+  id: eventId,
+  correlationId: z.string().min(1),
+  agentName: z.string().min(1),
+  actionType: z.string().min(1),
+  actionName: z.string().min(1),
+  actionDetails: z.any().optional(),
+  debugMode: z.boolean().optional(),
+  durationMs: durationMs.default(0),
+  createdAt: eventCreatedAt,
+}));
+
+export const transformationEventSchema = z.preprocess(normalizeEventKeys, z.object({
+  id: eventId,
+  correlationId: z.string().min(1).optional(),
+  sourceAgent: z.string().min(1),
+  targetAgent: z.string().min(1),
+  transformationDurationMs: durationMs.default(0),
+  success: z.boolean().default(true),
+  confidenceScore: confidence.default(0),
+  createdAt: eventCreatedAt,
+}));
+
+export const performanceMetricEventSchema = z.preprocess(normalizeEventKeys, z.object({
+  id: eventId,
+  correlationId: z.string().min(1).optional(),
+  queryText: z.string().default(''),
+  routingDurationMs: durationMs,
+  cacheHit: z.boolean().default(false),
+  candidatesEvaluated: z.coerce.number().int().nonnegative().default(0),
+  triggerMatchStrategy: z.string().min(1).default('unknown'),
+  createdAt: eventCreatedAt,
+}));
+
+export const manifestInjectionEventSchema = z.preprocess(normalizeEventKeys, z.object({
+  id: eventId,
+  correlationId: z.string().min(1),
+  agentName: z.string().min(1),
+  manifestVersion: z.string().min(1),
+  generationSource: z.string().min(1),
+  isFallback: z.boolean().default(false),
+  patternsCount: z.coerce.number().int().nonnegative().default(0),
+  totalQueryTimeMs: durationMs,
+  agentExecutionSuccess: z.boolean().optional(),
+  createdAt: eventCreatedAt,
+}).passthrough());
+
+// One completed agent run with its token and cost usage. `withIntelligence` is
+// optional: when absent the run is classified from its manifest injection.
+// Without `cost` the run is priced from the model pricing catalog.
+export const agentRunMetricEventSchema = z.preprocess(normalizeEventKeys, z.object({
+  id: eventId,
+  correlationId: z.string().min(1).optional(),
+  agentId: z.string().min(1).optional(),
+  agentName: z.string().min(1),
+  withIntelligence: z.boolean().optional(),
+  tokensUsed: z.coerce.number().int().nonnegative(),
+  inputTokens: z.coerce.number().int().nonnegative().optional(),
+  outputTokens: z.coerce.number().int().nonnegative().optional(),
+  computeUnits: z.coerce.number().nonnegative().default(0),
+  cost: z.coerce.number().nonnegative().optional(),
+  durationMs: durationMs.optional(),
+  success: z.boolean().default(true),
+  model: z.string().optional(),
+  provider: z.string().optional(),
+  project: z.string().optional(),
+  patternsUsed: z.array(z.string()).optional(),
+  createdAt: eventCreatedAt,
+}));
+
+export const documentAccessEventSchema = z.preprocess(normalizeEventKeys, z.object({
+  id: eventId,
+  documentId: z.string().min(1),
+  accessType: z.string().min(1),
+  correlationId: z.string().min(1).optional(),
+  queryText: z.string().optional(),
+  relevanceScore: z.coerce.number().optional(),
+  responseTimeMs: durationMs.optional(),
+  createdAt: eventCreatedAt,
+}).passthrough());
+
+// Any JSON object; used for topics that only need to be recorded and broadcast
+export const genericEventSchema = z.preprocess(normalizeEventKeys, z.object({
+  id: eventId,
+  createdAt: eventCreatedAt,
+}).passthrough());
+
+export const KAFKA_EVENT_SCHEMAS = {
+  'agent-routing-decisions': routingDecisionEventSchema,
+  'agent-actions': agentActionEventSchema,
+  'agent-transformation-events': transformationEventSchema,
+  'router-performance-metrics': performanceMetricEventSchema,
+  'agent-run-metrics': agentRunMetricEventSchema,
+} as const;
+
+// Schemas that topic registry entries can reference by name
+export const EVENT_SCHEMA_CATALOG = {
+  ...KAFKA_EVENT_SCHEMAS,
+  'agent-manifest-injections': manifestInjectionEventSchema,
+  'document-access': documentAccessEventSchema,
+  generic: genericEventSchema,
+} as const;
+
+export type KafkaEventTopic = keyof typeof KAFKA_EVENT_SCHEMAS;
+export type RoutingDecisionEvent = z.infer<typeof routingDecisionEventSchema>;
+export type AgentActionEvent = z.infer<typeof agentActionEventSchema>;
+export type TransformationEventPayload = z.infer<typeof transformationEventSchema>;
+export type PerformanceMetricEvent = z.infer<typeof performanceMetricEventSchema>;
+export type AgentRunMetricEvent = z.infer<typeof agentRunMetricEventSchema>;
+export type EventSchemaName = keyof typeof EVENT_SCHEMA_CATALOG;
 
 /**
  * API Response Interfaces for Pattern Lineage
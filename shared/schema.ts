@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, numeric, boolean, jsonb, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -16,3 +16,87 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+/**
+ * Chat conversations and messages for the AI assistant (one user can own many threads)
+ */
+export const chatConversations = pgTable("chat_conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("user_id").notNull(),
+  title: text("title").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const chatMessages = pgTable("chat_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id")
+    .notNull()
+    .references(() => chatConversations.id, { onDelete: "cascade" }),
+  role: text("role").$type<ChatRole>().notNull(),
+  content: text("content").notNull(),
+  // 'streaming' while the assistant reply is being generated
+  status: text("status").$type<ChatMessageStatus>().notNull().default("complete"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type ChatRole = "user" | "assistant";
+export type ChatMessageStatus = "streaming" | "complete" | "cancelled" | "error";
+export type ChatConversation = typeof chatConversations.$inferSelect;
+export type ChatMessage = typeof chatMessages.$inferSelect;
+
+/**
+ * Executions started from the dashboard (queued, running and finished), written by AgentExecutionTracker
+ */
+export const agentExecutions = pgTable("agent_executions", {
+  id: text("id").primaryKey(),
+  agentId: text("agent_id").notNull(),
+  agentName: text("agent_name").notNull(),
+  query: text("query").notNull(),
+  context: jsonb("context"),
+  status: text("status").notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  completedAt: timestamp("completed_at"),
+  durationSeconds: numeric("duration_seconds", { precision: 12, scale: 3 }),
+  result: jsonb("result"),
+  routingDecision: jsonb("routing_decision"),
+  metadata: jsonb("metadata"),
+}, (table) => [
+  index("agent_executions_agent_started_idx").on(table.agentId, table.startedAt.desc()),
+]);
+
+/**
+ * Per-run token, compute and cost figures behind the savings calculator, written by AgentRunTracker
+ */
+export const agentRuns = pgTable("agent_runs", {
+  id: text("id").primaryKey(),
+  agentId: text("agent_id").notNull(),
+  agentName: text("agent_name").notNull(),
+  timestamp: timestamp("timestamp").notNull(),
+  withIntelligence: boolean("with_intelligence").notNull(),
+  tokensUsed: integer("tokens_used").notNull(),
+  computeUnits: numeric("compute_units", { precision: 12, scale: 4 }).notNull(),
+  durationSeconds: numeric("duration_seconds", { precision: 12, scale: 3 }).notNull(),
+  success: boolean("success").notNull(),
+  cost: numeric("cost", { precision: 12, scale: 6 }).notNull(),
+  metadata: jsonb("metadata"),
+}, (table) => [
+  index("agent_runs_timestamp_idx").on(table.timestamp),
+]);
+
+/**
+ * Per-model token prices (USD per million tokens) with effective dates, used to price agent runs
+ */
+export const modelPricing = pgTable("model_pricing", {
+  id: text("id").primaryKey(),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  inputPricePerMillion: numeric("input_price_per_million", { precision: 12, scale: 6 }).notNull(),
+  outputPricePerMillion: numeric("output_price_per_million", { precision: 12, scale: 6 }).notNull(),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  effectiveTo: timestamp("effective_to"),
+});
+
+export type AgentExecutionRow = typeof agentExecutions.$inferSelect;
+export type AgentRunRow = typeof agentRuns.$inferSelect;
+export type ModelPricingRow = typeof modelPricing.$inferSelect;
@@ -0,0 +1,290 @@
+import { z } from 'zod';
+
+/**
+ * Time Range Query Model
+ *
+ * One model for the time range of every intelligence, savings and alert
+ * endpoint: a preset window ending now (`timeWindow` / `timeRange`) or an
+ * explicit ISO `start` / `end`, plus the IANA timezone (`tz`) that time
+ * buckets follow. Bucket granularity is chosen from the span so charts get a
+ * sensible number of points. The client half turns a dashboard selection
+ * (preset, or custom start and end dates) into these query parameters.
+ */
+
+export const TIME_RANGE_PRESETS = ['1h', '24h', '7d', '30d', '90d'] as const;
+
+export type TimeRangePreset = typeof TIME_RANGE_PRESETS[number];
+
+export type TimeGranularity = 'minute' | 'hour' | 'day' | 'week';
+
+export interface TimeRange {
+  // Null for custom ranges
+  preset: TimeRangePreset | null;
+  start: Date;
+  // Exclusive; preset ranges end now and are open-ended when filtering, so
+  // records stamped by a clock slightly ahead still count
+  end: Date;
+  timezone: string;
+  granularity: TimeGranularity;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export const PRESET_DURATIONS_MS: Record<TimeRangePreset, number> = {
+  '1h': HOUR_MS,
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  '90d': 90 * DAY_MS,
+};
+
+export const MAX_RANGE_DAYS = 366;
+
+export const GRANULARITY_STEP_MS: Record<TimeGranularity, number> = {
+  minute: MINUTE_MS,
+  hour: HOUR_MS,
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+};
+
+// IANA names only (also keeps the value safe to inline into SQL)
+const TIME_ZONE_PATTERN = /^[A-Za-z][A-Za-z0-9_+\-/]*$/;
+
+export function isValidTimeZone(timezone: string): boolean {
+  if (!TIME_ZONE_PATTERN.test(timezone)) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isTimeRangePreset(value: string): value is TimeRangePreset {
+  return (TIME_RANGE_PRESETS as readonly string[]).includes(value);
+}
+
+/**
+ * Bucket size for a span: minutes up to 6 hours, hours up to 3 days, days up
+ * to 120 days, weeks beyond
+ */
+export function granularityFor(start: Date, end: Date): TimeGranularity {
+  const span = end.getTime() - start.getTime();
+  if (span <= 6 * HOUR_MS) return 'minute';
+  if (span <= 3 * DAY_MS) return 'hour';
+  if (span <= 120 * DAY_MS) return 'day';
+  return 'week';
+}
+
+/**
+ * Preset window ending at `now`
+ */
+export function presetTimeRange(preset: TimeRangePreset, options: { now?: Date; timezone?: string } = {}): TimeRange {
+  const end = options.now ?? new Date();
+  const start = new Date(end.getTime() - PRESET_DURATIONS_MS[preset]);
+  return { preset, start, end, timezone: options.timezone ?? 'UTC', granularity: granularityFor(start, end) };
+}
+
+// Query strings send "" for cleared inputs
+const optionalParam = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => (value === '' || value === null ? undefined : value), schema.optional());
+
+/**
+ * Query parameter schema resolving to a TimeRange. `timeRange` is accepted as
+ * an alias of `timeWindow`; `start` / `end` take precedence over the preset
+ * (`start` alone runs until now). Other query parameters are ignored.
+ */
+export function timeRangeQuerySchema(defaultPreset: TimeRangePreset, now: () => Date = () => new Date()) {
+  return z.object({
+    timeWindow: optionalParam(z.string()),
+    timeRange: optionalParam(z.string()),
+    start: optionalParam(z.coerce.date()),
+    end: optionalParam(z.coerce.date()),
+    tz: optionalParam(z.string().refine(isValidTimeZone, 'Unknown timezone')),
+  }).transform((query, ctx): TimeRange => {
+    const timezone = query.tz ?? 'UTC';
+    const preset = query.timeWindow ?? query.timeRange;
+
+    if (query.start || query.end) {
+      if (!query.start) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['start'], message: 'end requires start' });
+        return z.NEVER;
+      }
+      const end = query.end ?? now();
+      if (end <= query.start) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['end'], message: 'end must be after start' });
+        return z.NEVER;
+      }
+      if (end.getTime() - query.start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['start'], message: `Time range cannot exceed ${MAX_RANGE_DAYS} days` });
+        return z.NEVER;
+      }
+      return { preset: null, start: query.start, end, timezone, granularity: granularityFor(query.start, end) };
+    }
+
+    if (preset === 'custom') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['start'], message: 'Custom time ranges require start' });
+      return z.NEVER;
+    }
+    if (preset !== undefined && !isTimeRangePreset(preset)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [query.timeWindow !== undefined ? 'timeWindow' : 'timeRange'],
+        message: `Expected one of ${TIME_RANGE_PRESETS.join(', ')}`,
+      });
+      return z.NEVER;
+    }
+    return presetTimeRange(preset ?? defaultPreset, { now: now(), timezone });
+  });
+}
+
+/**
+ * Resolve a preset name or an already resolved range (for callers outside HTTP
+ * handlers, e.g. chat tools); unknown names fall back to the default preset
+ */
+export function toTimeRange(value: TimeRange | string | undefined, defaultPreset: TimeRangePreset): TimeRange {
+  if (value && typeof value === 'object') return value;
+  return presetTimeRange(value && isTimeRangePreset(value) ? value : defaultPreset);
+}
+
+/**
+ * The period of the same length right before a range, for trend comparisons
+ */
+export function previousTimeRange(range: TimeRange): TimeRange {
+  const span = range.end.getTime() - range.start.getTime();
+  return { ...range, preset: null, start: new Date(range.start.getTime() - span), end: range.start };
+}
+
+/**
+ * Whether a timestamp falls within the range
+ */
+export function containsTime(range: TimeRange, time: Date | string): boolean {
+  const t = new Date(time).getTime();
+  return t >= range.start.getTime() && (range.preset !== null || t < range.end.getTime());
+}
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function localParts(date: Date, timezone: string) {
+  let formatter = partsFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    partsFormatters.set(timezone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+/**
+ * Local bucket label of a date: "2025-11-01" for days and weeks (the Monday),
+ * "2025-11-01T13:00" for hours, "2025-11-01T13:05" for minutes
+ */
+export function bucketKey(date: Date, granularity: TimeGranularity, timezone: string): string {
+  const { year, month, day, hour, minute } = localParts(date, timezone);
+  switch (granularity) {
+    case 'minute':
+      return `${year}-${month}-${day}T${hour}:${minute}`;
+    case 'hour':
+      return `${year}-${month}-${day}T${hour}:00`;
+    case 'day':
+      return `${year}-${month}-${day}`;
+    case 'week': {
+      const localDay = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+      localDay.setUTCDate(localDay.getUTCDate() - ((localDay.getUTCDay() + 6) % 7));
+      return localDay.toISOString().slice(0, 10);
+    }
+  }
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Chart axis label for a bucket start given as local "YYYY-MM-DD HH:MM[:SS]"
+ * (SQL bucket text or bucketKey): "13:05" for minutes, "13:00" for hours,
+ * "Oct 27" for days and weeks
+ */
+export function bucketAxisLabel(period: string, granularity: TimeGranularity): string {
+  const [, month, day, hour, minute] = /^\d{4}-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2}))?/.exec(period) ?? [];
+  if (!month) return period;
+  switch (granularity) {
+    case 'minute':
+      return `${hour ?? '00'}:${minute ?? '00'}`;
+    case 'hour':
+      return `${Number(hour ?? 0)}:00`;
+    default:
+      return `${MONTHS[Number(month) - 1]} ${Number(day)}`;
+  }
+}
+
+/**
+ * Every bucket label of a range, oldest first
+ */
+export function bucketKeys(range: TimeRange): string[] {
+  const keys = new Set<string>();
+  const step = GRANULARITY_STEP_MS[range.granularity];
+  for (let t = range.start.getTime(); t < range.end.getTime(); t += step) {
+    keys.add(bucketKey(new Date(t), range.granularity, range.timezone));
+  }
+  keys.add(bucketKey(new Date(range.end.getTime() - 1), range.granularity, range.timezone));
+  return Array.from(keys);
+}
+
+// ----------------------------------------------------------------------------
+// Client side
+// ----------------------------------------------------------------------------
+
+/**
+ * A dashboard time selection: a preset name, or a preset ("custom") with
+ * start / end as dates ("2025-11-01", whole local days, end inclusive) or ISO
+ * timestamps
+ */
+export type TimeRangeSelection = string | { preset: string; start?: string; end?: string };
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function localDayStart(value: string, offsetDays = 0): Date {
+  const [, year, month, day] = DATE_ONLY.exec(value)!;
+  return new Date(Number(year), Number(month) - 1, Number(day) + offsetDays);
+}
+
+export function browserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Query string for a selection ("timeWindow=7d&tz=Europe%2FBerlin" or
+ * "start=...&end=...&tz=..."). Custom selections without both dates fall back
+ * to the server default.
+ */
+export function timeRangeQuery(
+  selection: TimeRangeSelection,
+  options: { param?: 'timeWindow' | 'timeRange'; timezone?: string } = {}
+): string {
+  const params = new URLSearchParams();
+  const { preset, start, end } = typeof selection === 'string' ? { preset: selection, start: undefined, end: undefined } : selection;
+
+  if (preset === 'custom') {
+    if (start && end) {
+      params.set('start', (DATE_ONLY.test(start) ? localDayStart(start) : new Date(start)).toISOString());
+      params.set('end', (DATE_ONLY.test(end) ? localDayStart(end, 1) : new Date(end)).toISOString());
+    }
+  } else if (preset) {
+    params.set(options.param ?? 'timeWindow', preset);
+  }
+  params.set('tz', options.timezone ?? browserTimeZone());
+  return params.toString();
+}